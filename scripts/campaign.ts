@@ -0,0 +1,167 @@
+#!/usr/bin/env tsx
+/**
+ * Campaign Script
+ * Create and run outreach email campaigns
+ *
+ * Usage:
+ *   npm run campaign -- create --name="March launch" [--template=ID] [--cap=50] [--window=9-17] [--timezone=America/Chicago]
+ *   npm run campaign -- add --campaign=ID [--limit=100]   # Queue deployed businesses with an email
+ *   npm run campaign -- start --campaign=ID
+ *   npm run campaign -- pause --campaign=ID
+ *   npm run campaign -- complete --campaign=ID
+ *   npm run campaign -- status [--campaign=ID]
+ *   npm run campaign -- run [--once] [--interval=60]      # Scheduler loop (Ctrl+C to stop)
+ *
+ * Without --template, create uses (and if needed stores) the default template.
+ * --timezone sets whose midnight resets the daily cap; sending hours are always
+ * the recipient's local time.
+ * Without SMTP_HOST the SMTP client runs in mock mode.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import {
+  CampaignService,
+  CampaignScheduler,
+  OutreachService,
+  DEFAULT_TEMPLATE,
+} from '../src/modules/outreach/index.js';
+import type { OutreachCampaign } from '../src/modules/outreach/index.js';
+import { logger } from '../src/utils/index.js';
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function printCampaign(campaign: OutreachCampaign): void {
+  logger.info(`${campaign.name} (${campaign.id})`);
+  logger.info(`  Status: ${campaign.status}`);
+  logger.info(`  Daily cap: ${campaign.dailyCap} (days in ${campaign.timezone}), sending hours: ${campaign.sendWindowStart}:00-${campaign.sendWindowEnd}:00 local`);
+  logger.info(`  Queued: ${campaign.queuedCount}, sent: ${campaign.sentCount}, failed: ${campaign.failedCount}, suppressed: ${campaign.suppressedCount}`);
+  logger.info(`  Opened: ${campaign.openCount}, clicked: ${campaign.clickCount}`);
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'status';
+  const campaignId = getArg(args, 'campaign');
+  const campaigns = new CampaignService();
+  const outreachService = new OutreachService();
+
+  const requireCampaignId = (): string => {
+    if (!campaignId) {
+      logger.error(`"${command}" needs --campaign=ID`);
+      logger.info('Run "npm run campaign -- status" to list campaigns');
+      process.exit(1);
+    }
+    return campaignId;
+  };
+
+  try {
+    switch (command) {
+      case 'create': {
+        let templateId = getArg(args, 'template');
+        if (!templateId) {
+          const existing = db.getEmailTemplates().find((t) => t.name === DEFAULT_TEMPLATE.name && t.physical_address);
+          templateId = existing?.id ?? outreachService.createTemplate(DEFAULT_TEMPLATE)?.id;
+        }
+        if (!templateId) {
+          logger.error('Could not create the default template. Set EMAIL_PHYSICAL_ADDRESS in .env.');
+          process.exitCode = 1;
+          break;
+        }
+
+        const window = getArg(args, 'window')?.split('-').map((h) => parseInt(h, 10));
+        const capArg = getArg(args, 'cap');
+
+        const campaign = campaigns.createCampaign({
+          name: getArg(args, 'name') ?? `Campaign ${new Date().toISOString().split('T')[0]}`,
+          templateId,
+          dailyCap: capArg ? parseInt(capArg, 10) : undefined,
+          sendWindowStart: window?.[0],
+          sendWindowEnd: window?.[1],
+          timezone: getArg(args, 'timezone'),
+        });
+        printCampaign(campaign);
+        logger.info(`\nNext: npm run campaign -- add --campaign=${campaign.id}`);
+        break;
+      }
+
+      case 'add': {
+        const id = requireCampaignId();
+        const limit = parseInt(getArg(args, 'limit') ?? '100', 10);
+        const recipients = campaigns.recipientsFromDeployed(limit);
+
+        if (recipients.length === 0) {
+          logger.info('No deployed businesses with an email address to queue.');
+          break;
+        }
+
+        const queued = campaigns.addRecipients(id, recipients);
+        logger.info(`Queued ${queued} recipient(s) (${recipients.length - queued} skipped: already queued or suppressed)`);
+        break;
+      }
+
+      case 'start':
+      case 'resume':
+        printCampaign(campaigns.activate(requireCampaignId()));
+        break;
+
+      case 'pause':
+        printCampaign(campaigns.pause(requireCampaignId()));
+        break;
+
+      case 'complete':
+        printCampaign(campaigns.complete(requireCampaignId()));
+        break;
+
+      case 'status': {
+        const list = campaignId ? [campaigns.getCampaign(campaignId)] : campaigns.listCampaigns();
+        const found = list.filter((c): c is OutreachCampaign => c !== null);
+
+        if (found.length === 0) {
+          logger.info('No campaigns found.');
+          break;
+        }
+        for (const campaign of found) {
+          printCampaign(campaign);
+        }
+        break;
+      }
+
+      case 'run': {
+        if (outreachService.isInMockMode()) {
+          logger.warn('Running in MOCK MODE - emails will not actually be sent');
+        }
+
+        const interval = parseInt(getArg(args, 'interval') ?? '60', 10);
+        const scheduler = new CampaignScheduler(outreachService, { intervalMs: interval * 1000 });
+
+        if (args.includes('--once')) {
+          const result = await scheduler.tick();
+          logger.info(`Sent: ${result.sent}, failed: ${result.failed}, to retry: ${result.retrying}, waiting: ${result.deferred}`);
+          if (result.capped.length > 0) logger.info(`Hit daily cap: ${result.capped.length} campaign(s)`);
+          if (result.completed.length > 0) logger.info(`Completed: ${result.completed.length} campaign(s)`);
+          break;
+        }
+
+        process.on('SIGINT', () => scheduler.stop());
+        await scheduler.run();
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Campaign command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+/**
+ * Dedupe Script
+ * Find businesses saved more than once and merge them
+ *
+ * Usage:
+ *   npm run dedupe                                          # List likely duplicates
+ *   npm run dedupe -- candidates [--min-score=0.6] [--city=X] [--state=MS]
+ *   npm run dedupe -- merge --keep=ID --merge=ID [--reason="..."]
+ *   npm run dedupe -- dismiss --a=ID --b=ID [--reason="..."]   # Not duplicates
+ *   npm run dedupe -- history [--business=ID]               # Past merges
+ *
+ * Merging moves websites, outreach, emails, tasks and sales records to the
+ * business kept, fills in its missing fields and deletes the other record.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import { DuplicateDetector, dismissDuplicate, mergeDuplicate } from '../src/modules/dedupe/index.js';
+import { logger } from '../src/utils/index.js';
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'candidates';
+
+  try {
+    switch (command) {
+      case 'candidates': {
+        const minScore = getArg(args, 'min-score');
+        const detector = new DuplicateDetector({
+          ...(minScore ? { minScore: parseFloat(minScore) } : {}),
+          city: getArg(args, 'city'),
+          state: getArg(args, 'state'),
+        });
+        const candidates = detector.findCandidates();
+        if (candidates.length === 0) {
+          logger.info('No likely duplicates found');
+          break;
+        }
+
+        logger.info(`${candidates.length} likely duplicate pair(s):`);
+        for (const candidate of candidates) {
+          const keep = candidate.suggestedSurvivorId === candidate.a.id ? candidate.a : candidate.b;
+          const drop = keep === candidate.a ? candidate.b : candidate.a;
+          logger.info(`${candidate.score.toFixed(2)}  ${candidate.reasons.join(', ')}`);
+          logger.info(`      keep  ${keep.name} [${keep.status}] ${keep.address ?? ''} ${keep.id}`);
+          logger.info(`      merge ${drop.name} [${drop.status}] ${drop.address ?? ''} ${drop.id}`);
+        }
+        logger.info('Merge with: npm run dedupe -- merge --keep=ID --merge=ID');
+        break;
+      }
+
+      case 'merge': {
+        const keep = getArg(args, 'keep');
+        const merge = getArg(args, 'merge');
+        if (!keep || !merge) {
+          logger.error('"merge" needs --keep=ID and --merge=ID');
+          process.exitCode = 1;
+          break;
+        }
+
+        const result = mergeDuplicate(keep, merge, { actor: 'cli', reason: getArg(args, 'reason') });
+        if (result.filledFields.length > 0) {
+          logger.info(`  Filled in: ${result.filledFields.join(', ')}`);
+        }
+        if (result.statusChange) {
+          logger.info(`  Status: ${result.statusChange.from} -> ${result.statusChange.to}`);
+        }
+        break;
+      }
+
+      case 'dismiss': {
+        const a = getArg(args, 'a');
+        const b = getArg(args, 'b');
+        if (!a || !b) {
+          logger.error('"dismiss" needs --a=ID and --b=ID');
+          process.exitCode = 1;
+          break;
+        }
+        dismissDuplicate(a, b, getArg(args, 'reason'));
+        logger.info('Pair marked as not duplicates');
+        break;
+      }
+
+      case 'history': {
+        const merges = db.getBusinessMerges(getArg(args, 'business'));
+        if (merges.length === 0) {
+          logger.info('No merges yet');
+          break;
+        }
+        for (const merge of merges) {
+          const moved = Object.entries(JSON.parse(merge.moved) as Record<string, number>)
+            .map(([table, count]) => `${count} ${table}`)
+            .join(', ');
+          logger.info(`${merge.merged_at}  "${merge.merged_name}" -> ${merge.survivor_id} by ${merge.actor}${merge.reason ? ` (${merge.reason})` : ''}`);
+          if (moved) logger.info(`  moved ${moved}`);
+        }
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Dedupe failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
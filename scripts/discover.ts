@@ -1,7 +1,7 @@
 #!/usr/bin/env tsx
 /**
  * Discovery Script
- * Discover businesses without websites using Google Places API
+ * Discover businesses without websites using Google Places and OpenStreetMap
  *
  * Usage:
  *   npm run discover                                           # All areas and categories (default)
@@ -12,11 +12,38 @@
  *   npm run discover -- --city="Holly Springs, MS"            # One city only
  *   npm run discover -- --category=restaurant --city="Oxford, MS"
  *   npm run discover -- --limit=50                            # Limit results per search
+ *   npm run discover -- --source=osm                          # OpenStreetMap only (free)
+ *   npm run discover -- --source=google,osm                   # Both; OSM finds places Google misses
+ *   npm run discover -- --tile                                # Grid search large areas (past the 60-result cap)
+ *   npm run discover -- --tile --cell-radius=2                # Smaller grid cells (miles, default 3)
+ *   npm run discover -- --county=Marshall,Benton              # Whole counties, clipped to the county line
+ *   npm run discover -- --county="Shelby" --state=TN          # Counties/ZIPs outside MS need --state
+ *   npm run discover -- --zip=38635,38611                     # ZIP code areas
+ *   npm run discover -- --area-file=./territory.geojson       # Any GeoJSON polygon
+ *   npm run discover -- --changes                             # What changed in recent runs (new, closed, gained a website...)
+ *   npm run discover -- --changes=new_place --limit=100       # Just newly opened places
+ *   npm run discover -- --budget=5                            # Stop before this run spends $5 on Places
+ *   npm run discover -- --costs                               # Places spend per month and per run
+ *   npm run discover -- --clear-cache                         # Drop cached Places responses (--clear-cache=expired for stale ones)
  */
 
 import 'dotenv/config';
-import { DiscoveryService, BusinessCategory, CATEGORY_LABELS } from '../src/modules/discovery/index.js';
+import {
+  DiscoveryService,
+  BusinessCategory,
+  CATEGORY_LABELS,
+  CHANGE_LABELS,
+  DISCOVERY_CHANGE_TYPES,
+  placesLedger,
+  DiscoverySourceName,
+  SearchArea,
+  TilingOptions,
+  describeSearchArea,
+  searchAreasFromFlags,
+} from '../src/modules/discovery/index.js';
+import { config } from '../src/config/index.js';
 import { db } from '../src/database/index.js';
+import type { DiscoveryChangeType } from '../src/database/types.js';
 import { logger } from '../src/utils/index.js';
 
 // ==================== CATEGORY RESOLUTION ====================
@@ -80,9 +107,19 @@ function resolveCategory(input: string): BusinessCategory | null {
   return CATEGORY_ALIASES[normalized] ?? null;
 }
 
+/** CLI names for discovery sources */
+const SOURCE_ALIASES: Record<string, DiscoverySourceName> = {
+  google:        'google_places',
+  google_places: 'google_places',
+  places:        'google_places',
+  osm:           'osm',
+  openstreetmap: 'osm',
+  overpass:      'osm',
+};
+
 // ==================== DEFAULT CONFIG ====================
 
-/** All target areas used when no --city flag is provided */
+/** All target areas used when no area flags are provided */
 const DEFAULT_AREAS = [
   { city: 'Holly Springs', state: 'MS', radiusMiles: 10 },
   { city: 'Oxford',        state: 'MS', radiusMiles: 10 },
@@ -98,6 +135,77 @@ const DEFAULT_CATEGORIES = [
   BusinessCategory.SALON,
 ];
 
+// ==================== CHANGE FEED ====================
+
+/**
+ * Print changes flagged by recent discovery runs, newest first.
+ */
+function printChanges(types: DiscoveryChangeType[], limit: number): void {
+  const runs = db.getDiscoveryRuns(5);
+  if (runs.length === 0) {
+    console.log('No discovery runs recorded yet. Run "npm run discover" first.');
+    return;
+  }
+
+  console.log('Recent runs:');
+  for (const run of runs) {
+    const areas = (JSON.parse(run.areas) as string[]).join(', ');
+    const state = run.completed_at ? `${run.changes} change(s)` : 'did not finish';
+    console.log(`  ${run.started_at}  ${areas}: found ${run.found}, saved ${run.saved}, ${state}`);
+  }
+  console.log('');
+
+  const changes = db.getDiscoveryChanges({ types, limit });
+  if (changes.length === 0) {
+    console.log('No changes flagged.');
+    return;
+  }
+
+  console.log(`Changes (newest first, up to ${limit}):`);
+  for (const change of changes) {
+    const detail = change.change_type === 'new_place'
+      ? change.new_value ?? ''
+      : `${change.old_value ?? '(none)'} -> ${change.new_value ?? '(none)'}`;
+    const business = change.business_id ? ` [${change.business_id}]` : '';
+    console.log(`  ${change.detected_at.slice(0, 10)}  ${CHANGE_LABELS[change.change_type].padEnd(18)} ${change.name}${business}  ${detail}`);
+  }
+}
+
+// ==================== COSTS ====================
+
+/**
+ * Print Places spend per month and per discovery run, with the budget.
+ */
+function printCosts(): void {
+  const usd = (amount: number): string => `$${amount.toFixed(2)}`;
+  const month = placesLedger.getMonthTotals();
+  const budget = config.getAll().placesMonthlyBudgetUsd;
+
+  console.log('This month:');
+  console.log(`  Spent: ${usd(month.costUsd)}${budget !== undefined ? ` of ${usd(budget)} budget (${usd(Math.max(budget - month.costUsd, 0))} left)` : ' (no budget set - PLACES_MONTHLY_BUDGET_USD)'}`);
+  console.log(`  Requests: ${month.calls} live, ${month.cachedCalls} from cache`);
+  console.log('');
+
+  const months = db.getApiCostsBy('month', 'google_places');
+  if (months.length === 0) {
+    console.log('No Places requests recorded yet.');
+    return;
+  }
+
+  console.log('By month:');
+  for (const period of months) {
+    console.log(`  ${period.period}  ${usd(period.costUsd).padStart(10)}  ${period.calls} live, ${period.cachedCalls} cached`);
+  }
+  console.log('');
+
+  console.log('Recent runs:');
+  for (const period of db.getApiCostsBy('run', 'google_places', 10)) {
+    const run = db.getDiscoveryRunById(period.period);
+    const areas = run ? (JSON.parse(run.areas) as string[]).join(', ') : period.period;
+    console.log(`  ${period.started_at.slice(0, 16)}  ${usd(period.costUsd).padStart(10)}  ${period.calls} live, ${period.cachedCalls} cached  ${areas}`);
+  }
+}
+
 // ==================== MAIN ====================
 
 async function main(): Promise<void> {
@@ -135,6 +243,50 @@ async function main(): Promise<void> {
   const limitArg = args.find((arg) => arg.startsWith('--limit='));
   const maxResultsPerSearch = limitArg ? parseInt(limitArg.split('=')[1] ?? '20', 10) : 20;
 
+  // ── --costs / --clear-cache ────────────────────────────────────
+  const clearCacheArg = args.find((arg) => arg === '--clear-cache' || arg.startsWith('--clear-cache='));
+  if (args.includes('--costs') || clearCacheArg) {
+    db.initialize();
+    try {
+      if (clearCacheArg) {
+        const removed = db.clearApiCache({ api: 'google_places', all: clearCacheArg !== '--clear-cache=expired' });
+        console.log(`Removed ${removed} cached Places response(s).`);
+      } else {
+        printCosts();
+      }
+    } finally {
+      db.close();
+    }
+    return;
+  }
+
+  // ── --budget ───────────────────────────────────────────────────
+  const budgetArg = args.find((arg) => arg.startsWith('--budget='));
+  const budgetUsd = budgetArg ? parseFloat(budgetArg.split('=')[1] ?? '') : undefined;
+  if (budgetUsd !== undefined && !(budgetUsd >= 0)) {
+    logger.error('--budget must be an amount in USD, e.g. --budget=5');
+    process.exit(1);
+  }
+
+  // ── --changes ──────────────────────────────────────────────────
+  const changesArg = args.find((arg) => arg === '--changes' || arg.startsWith('--changes='));
+  if (changesArg) {
+    const types = (changesArg.split('=')[1] ?? '').split(',').map(s => s.trim()).filter(Boolean);
+    const unknown = types.filter((type) => !DISCOVERY_CHANGE_TYPES.includes(type as DiscoveryChangeType));
+    if (unknown.length > 0) {
+      logger.error(`Unknown change type: "${unknown[0]}". Use one of: ${DISCOVERY_CHANGE_TYPES.join(', ')}`);
+      process.exit(1);
+    }
+
+    db.initialize();
+    try {
+      printChanges(types as DiscoveryChangeType[], limitArg ? maxResultsPerSearch : 50);
+    } finally {
+      db.close();
+    }
+    return;
+  }
+
   // ── --category ─────────────────────────────────────────────────
   const categoryArg = args.find((arg) => arg.startsWith('--category='));
   let categories: BusinessCategory[];
@@ -158,9 +310,52 @@ async function main(): Promise<void> {
     categories = DEFAULT_CATEGORIES;
   }
 
-  // ── --city ─────────────────────────────────────────────────────
+  // ── --source ───────────────────────────────────────────────────
+  const sourceArg = args.find((arg) => arg.startsWith('--source='));
+  const sources: DiscoverySourceName[] = [];
+
+  for (const input of (sourceArg?.split('=')[1] ?? 'google').split(',').map(s => s.trim().toLowerCase()).filter(Boolean)) {
+    const source = SOURCE_ALIASES[input];
+    if (!source) {
+      logger.error(`Unknown source: "${input}". Use google, osm or both (--source=google,osm).`);
+      process.exit(1);
+    }
+    if (!sources.includes(source)) sources.push(source);
+  }
+
+  // ── --tile / --cell-radius ─────────────────────────────────────
+  const cellRadiusArg = args.find((arg) => arg.startsWith('--cell-radius='));
+  let tiling: Partial<TilingOptions> | undefined;
+
+  if (args.includes('--tile') || cellRadiusArg) {
+    tiling = {};
+    if (cellRadiusArg) {
+      const cellRadiusMiles = parseFloat(cellRadiusArg.split('=')[1] ?? '');
+      if (!(cellRadiusMiles > 0)) {
+        logger.error('--cell-radius must be a positive number of miles');
+        process.exit(1);
+      }
+      tiling.cellRadiusMiles = cellRadiusMiles;
+    }
+  }
+
+  // ── --city / --county / --zip / --area-file ───────────────────
   const cityArg = args.find((arg) => arg.startsWith('--city='));
-  let areas: typeof DEFAULT_AREAS;
+  const flagValue = (name: string): string | undefined =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+  let areas: SearchArea[];
+
+  try {
+    areas = searchAreasFromFlags({
+      county: flagValue('county'),
+      zip: flagValue('zip'),
+      areaFile: flagValue('area-file'),
+      state: flagValue('state'),
+    });
+  } catch (error) {
+    logger.error(`Invalid area: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
 
   if (cityArg) {
     const raw = (cityArg.split('=')[1] ?? '').replace(/^["']|["']$/g, '').trim();
@@ -173,15 +368,16 @@ async function main(): Promise<void> {
     const known = DEFAULT_AREAS.find(
       a => a.city.toLowerCase() === city.toLowerCase() && a.state.toLowerCase() === state.toLowerCase()
     );
-    areas = [{ city, state, radiusMiles: known?.radiusMiles ?? 10 }];
-  } else {
+    areas.unshift({ city, state, radiusMiles: known?.radiusMiles ?? 10 });
+  } else if (areas.length === 0) {
     areas = DEFAULT_AREAS;
   }
 
   // ── Print config ───────────────────────────────────────────────
   logger.info('Target Areas:');
   for (const area of areas) {
-    logger.info(`  - ${area.city}, ${area.state} (${area.radiusMiles} mile radius)`);
+    const radius = area.kind === undefined || area.kind === 'city' ? ` (${area.radiusMiles} mile radius)` : '';
+    logger.info(`  - ${describeSearchArea(area)}${radius}`);
   }
 
   logger.info('');
@@ -191,7 +387,14 @@ async function main(): Promise<void> {
   }
 
   logger.info('');
+  logger.info(`Sources: ${sources.join(', ')}`);
   logger.info(`Max results per search: ${maxResultsPerSearch}`);
+  if (tiling) {
+    logger.info(`Tiled search: ${tiling.cellRadiusMiles ?? 'default'} mile cells`);
+  }
+  if (budgetUsd !== undefined) {
+    logger.info(`Places budget for this run: $${budgetUsd.toFixed(2)}`);
+  }
   logger.info('');
 
   // Initialize database
@@ -203,6 +406,9 @@ async function main(): Promise<void> {
       categories,
       maxResultsPerSearch,
       onlyOperational: true,
+      sources,
+      tiling,
+      budgetUsd,
     });
 
     const summary = await discovery.run();
@@ -218,6 +424,10 @@ async function main(): Promise<void> {
     console.log(`  Without websites:        ${summary.withoutWebsite}`);
     console.log(`  Newly saved to database: ${summary.newlySaved}`);
     console.log(`  Already in database:     ${summary.alreadyExists}`);
+    console.log(`  Places requests:         ${summary.spend.calls} live ($${summary.spend.costUsd.toFixed(2)}), ${summary.spend.cachedCalls} from cache`);
+    if (summary.stoppedEarly) {
+      console.log(`  STOPPED EARLY:           ${summary.stoppedEarly}`);
+    }
     console.log('');
 
     console.log('By Category:');
@@ -234,6 +444,40 @@ async function main(): Promise<void> {
     }
     console.log('');
 
+    console.log('Coverage:');
+    for (const [area, coverage] of Object.entries(summary.coverage)) {
+      console.log(`  ${area}: ${coverage.complete ? 'complete' : 'INCOMPLETE'}`);
+      console.log(`    Searches: ${coverage.searches}, Cells: ${coverage.cells}, At limit: ${coverage.saturatedCells}, Overlap duplicates: ${coverage.duplicates}, Outside area: ${coverage.outsideArea}`);
+      if (coverage.saturated.length > 0) {
+        console.log(`    Hit the result limit: ${coverage.saturated.join(', ')}`);
+      }
+    }
+    console.log('');
+
+    const changeCount = Object.values(summary.changes).reduce((total, count) => total + count, 0);
+    console.log('Changes Since Earlier Runs:');
+    if (changeCount === 0) {
+      console.log('  None');
+    }
+    for (const type of DISCOVERY_CHANGE_TYPES) {
+      if (summary.changes[type] > 0) {
+        console.log(`  ${CHANGE_LABELS[type]}: ${summary.changes[type]}`);
+      }
+    }
+    if (changeCount > 0) {
+      console.log('  Run "npm run discover -- --changes" for the details.');
+    }
+    console.log('');
+
+    if (sources.length > 1) {
+      console.log('By Source:');
+      for (const [source, stats] of Object.entries(summary.bySource)) {
+        console.log(`  ${source}:`);
+        console.log(`    Found: ${stats.found}, Without Website: ${stats.withoutWebsite}, Saved: ${stats.saved}`);
+      }
+      console.log('');
+    }
+
     const dbStats = db.getStats();
     console.log('Database Stats:');
     console.log(`  Total businesses: ${dbStats.totalBusinesses}`);
@@ -1,13 +1,18 @@
-#!/usr/bin/env ts-node
+#!/usr/bin/env tsx
 /**
  * Enrichment Script
  * Enrich discovered businesses with Google Places data
  *
- * Usage: npm run enrich -- --limit=100
+ * Usage:
+ *   npm run enrich                   # Enrich up to 100 discovered businesses
+ *   npm run enrich -- --limit=20     # Limit number of businesses
+ *
+ * Without GOOGLE_PLACES_API_KEY the Places client runs in mock mode,
+ * so this can be run offline against a test database.
  */
 
 import 'dotenv/config';
-import { enrichment } from '../src/modules/enrichment/index.js';
+import { EnrichmentService } from '../src/modules/enrichment/index.js';
 import { db } from '../src/database/index.js';
 import { logger } from '../src/utils/index.js';
 
@@ -15,7 +20,7 @@ async function main(): Promise<void> {
   logger.info('Starting business enrichment...');
 
   // Initialize database
-  db.init();
+  db.initialize();
 
   // Parse command line arguments
   const args = process.argv.slice(2);
@@ -25,16 +30,40 @@ async function main(): Promise<void> {
   logger.info(`Processing up to ${limit} businesses`);
 
   try {
-    // TODO: Fetch unenriched businesses from database
-    const businesses: Array<{ name: string; address?: string }> = [];
+    const service = new EnrichmentService();
+    const businesses = service.getBusinessesNeedingEnrichment(limit);
+
+    if (businesses.length === 0) {
+      logger.info('No businesses waiting for enrichment.');
+      logger.info('Run "npm run discover" first to find businesses.');
+      return;
+    }
+
+    // Enrichment results are saved to the database as each business is processed
+    const summary = await service.enrichBatch(businesses);
+
+    logger.info(`Enriched ${summary.enriched} of ${summary.totalBusinesses} businesses`);
+    logger.info(`${summary.withoutWebsite} businesses without websites`);
 
-    const enriched = await enrichment.enrichBatch(businesses);
+    if (summary.lowConfidence > 0) {
+      logger.info(`${summary.lowConfidence} of those have other web presence and won't be generated:`);
+      for (const result of summary.results.filter((r) => r.verification?.verdict === 'uncertain')) {
+        const business = db.getBusinessById(result.businessId);
+        const top = result.verification?.evidence[0];
+        logger.info(`  - ${business?.name ?? result.businessId} (confidence ${result.verification?.confidence}): ${top?.url ?? ''}`);
+      }
+    }
 
-    const withoutWebsite = enriched.filter((b) => !b.hasWebsite);
-    logger.info(`Enriched ${enriched.length} businesses`);
-    logger.info(`${withoutWebsite.length} businesses without websites`);
+    if (summary.withWebsite > 0) {
+      logger.info(`${summary.withWebsite} businesses already have a website and will be skipped by generation:`);
+      for (const result of summary.results.filter((r) => r.hasWebsite)) {
+        const business = db.getBusinessById(result.businessId);
+        logger.info(`  - ${business?.name ?? result.businessId}: ${result.websiteUrl}`);
+      }
+    }
 
-    // TODO: Save enrichment data to database
+    const stats = db.getStats();
+    logger.info('Database status:', stats.byStatus);
 
     logger.info('Enrichment complete!');
   } catch (error) {
@@ -9,6 +9,7 @@
  *   npm run generate -- --templates=1           # Generate only 1 template per business
  *   npm run generate -- --provider=gemini       # Use Gemini instead of Claude
  *   npm run generate -- --provider=gemini --limit=3  # Gemini, 3 businesses
+ *   npm run generate -- --max-attempts=5        # Tries per site to pass the quality check
  *
  * Prerequisites:
  *   - Run "npm run discover" first to populate the database
@@ -33,21 +34,31 @@ async function main(): Promise<void> {
   const limitArg = args.find((arg) => arg.startsWith('--limit='));
   const templatesArg = args.find((arg) => arg.startsWith('--templates='));
   const providerArg = args.find((arg) => arg.startsWith('--provider='));
+  const attemptsArg = args.find((arg) => arg.startsWith('--max-attempts='));
   const saveArg = args.includes('--save-html');
 
   const limit = limitArg ? parseInt(limitArg.split('=')[1] ?? '1', 10) : 1;
   const templatesPerBusiness = templatesArg ? parseInt(templatesArg.split('=')[1] ?? '2', 10) : 2;
   const provider = (providerArg?.split('=')[1] ?? 'claude') as AIProvider;
+  const maxAttempts = attemptsArg ? parseInt(attemptsArg.split('=')[1] ?? '3', 10) : undefined;
 
   if (provider !== 'claude' && provider !== 'gemini') {
     logger.error(`Invalid provider "${provider}". Use --provider=claude or --provider=gemini`);
     process.exit(1);
   }
 
+  if (maxAttempts !== undefined && !(maxAttempts >= 1)) {
+    logger.error(`Invalid --max-attempts "${attemptsArg?.split('=')[1]}". Use a number of at least 1`);
+    process.exit(1);
+  }
+
   logger.info(`Configuration:`);
   logger.info(`  AI Provider: ${provider}`);
   logger.info(`  Max businesses to process: ${limit}`);
   logger.info(`  Templates per business: ${templatesPerBusiness}`);
+  if (maxAttempts !== undefined) {
+    logger.info(`  Max attempts per website: ${maxAttempts}`);
+  }
   logger.info(`  Save HTML files: ${saveArg ? 'Yes' : 'No'}`);
   logger.info('');
 
@@ -59,6 +70,7 @@ async function main(): Promise<void> {
     const generator = new GeneratorService({
       templatesPerBusiness,
       provider,
+      maxAttempts,
       includeFeatures: [
         'contact_form',
         'about_section',
@@ -70,7 +82,7 @@ async function main(): Promise<void> {
     });
 
     // Get businesses needing websites
-    const businesses = generator.getBusinessesNeedingGeneration(limit);
+    const businesses = await generator.getBusinessesNeedingGeneration(limit);
 
     if (businesses.length === 0) {
       console.log('');
@@ -111,6 +123,13 @@ async function main(): Promise<void> {
         console.log(`  Error: ${result.error}`);
       }
 
+      for (const websiteId of result.websiteIds) {
+        const website = db.getWebsiteById(websiteId);
+        if (website?.generation_attempts) {
+          console.log(`  ${TEMPLATE_LABELS[website.template_name as WebsiteTemplate] ?? website.template_name}: passed the quality check in ${website.generation_attempts} attempt(s)`);
+        }
+      }
+
       // If save flag is set, save HTML files
       if (saveArg && result.success) {
         const websites = db.getWebsitesByBusinessId(result.businessId);
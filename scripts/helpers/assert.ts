@@ -0,0 +1,10 @@
+/**
+ * Test Assertions
+ * The assert helper shared by the scripts/test-*.ts scripts.
+ */
+
+export function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Local Overpass Stand-in
+ * A minimal in-process Overpass API for testing OSM discovery without the public instance.
+ *
+ * Understands the query statements OverpassClient sends: `node`, `way` or `nwr`
+ * with `["key"]`, `["key"="value"]` and `["key"~"regex",i]` filters, an optional
+ * `(around:meters,lat,lon)`, and an `out ... N;` limit. Area filters are
+ * ignored. Every query received is kept for inspection.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import type { OsmElement } from '../../src/modules/discovery/index.js';
+
+export interface LocalOverpassServer {
+  url: string;
+  queries: string[];
+  close(): Promise<void>;
+}
+
+interface Statement {
+  types: Array<OsmElement['type']>;
+  filters: Array<(tags: Record<string, string>) => boolean>;
+  around: { meters: number; lat: number; lon: number } | null;
+}
+
+const STATEMENT = /^\s*(node|way|nwr)((?:\[[^\]]*\])+)(?:\(([^)]*)\))?;\s*$/;
+const FILTER = /\["((?:[^"\\]|\\.)*)"(?:(=|~)"((?:[^"\\]|\\.)*)"(,i)?)?\]/g;
+
+function unquote(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+function parseStatement(line: string): Statement | null {
+  const match = STATEMENT.exec(line);
+  if (!match) return null;
+
+  const filters: Statement['filters'] = [];
+  for (const [, rawKey, op, rawValue, insensitive] of match[2]!.matchAll(FILTER)) {
+    const key = unquote(rawKey!);
+    const value = rawValue === undefined ? undefined : unquote(rawValue);
+    if (op === '=') {
+      filters.push((tags) => tags[key] === value);
+    } else if (op === '~') {
+      const pattern = new RegExp(value!, insensitive ? 'i' : '');
+      filters.push((tags) => tags[key] !== undefined && pattern.test(tags[key]!));
+    } else {
+      filters.push((tags) => tags[key] !== undefined);
+    }
+  }
+
+  let around: Statement['around'] = null;
+  const aroundMatch = /^around:([\d.]+),(-?[\d.]+),(-?[\d.]+)$/.exec(match[3] ?? '');
+  if (aroundMatch) {
+    around = { meters: Number(aroundMatch[1]), lat: Number(aroundMatch[2]), lon: Number(aroundMatch[3]) };
+  }
+
+  const types: Statement['types'] = match[1] === 'nwr' ? ['node', 'way'] : [match[1] as OsmElement['type']];
+  return { types, filters, around };
+}
+
+function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number): number => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function runQuery(ql: string, elements: OsmElement[]): OsmElement[] {
+  const statements = ql.split('\n').map(parseStatement).filter((s): s is Statement => s !== null);
+  const limit = /out[^;]*?\s(\d+);/.exec(ql);
+
+  const results = elements.filter((element) =>
+    statements.some((statement) => {
+      if (!statement.types.includes(element.type)) return false;
+      if (!statement.filters.every((filter) => filter(element.tags))) return false;
+      if (!statement.around) return true;
+      const lat = element.lat ?? element.center?.lat;
+      const lon = element.lon ?? element.center?.lon;
+      return lat !== undefined && lon !== undefined &&
+        distanceMeters(statement.around.lat, statement.around.lon, lat, lon) <= statement.around.meters;
+    })
+  );
+
+  return limit ? results.slice(0, Number(limit[1])) : results;
+}
+
+export async function startLocalOverpassServer(elements: OsmElement[]): Promise<LocalOverpassServer> {
+  const queries: string[] = [];
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => { body += chunk; });
+    req.on('end', () => {
+      const ql = new URLSearchParams(body).get('data');
+      if (req.method !== 'POST' || !ql) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Expected a POST with a "data" query');
+        return;
+      }
+
+      queries.push(ql);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ version: 0.6, generator: 'local stand-in', elements: runQuery(ql, elements) }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}/api/interpreter`,
+    queries,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
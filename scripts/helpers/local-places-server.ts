@@ -0,0 +1,111 @@
+/**
+ * Local Places Stand-in
+ * A minimal in-process Google Places / Geocoding API for testing the client without Google.
+ *
+ * Answers Nearby Search (20 per page, with page tokens), Place Details,
+ * Find Place and Geocoding for a fixed set of places. Unknown place IDs get
+ * NOT_FOUND. Every request's path and parameters are kept for inspection.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface StandInPlace {
+  place_id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  website?: string;
+  formatted_phone_number?: string;
+  rating?: number;
+  user_ratings_total?: number;
+  types?: string[];
+}
+
+export interface LocalPlacesServer {
+  url: string;
+  requests: Array<{ path: string; params: Record<string, string> }>;
+  count(path: string): number;
+  close(): Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+function toResult(place: StandInPlace): Record<string, unknown> {
+  return {
+    place_id: place.place_id,
+    name: place.name,
+    vicinity: `${place.name} Street`,
+    geometry: { location: { lat: place.lat, lng: place.lng } },
+    business_status: 'OPERATIONAL',
+  };
+}
+
+export async function startLocalPlacesServer(
+  places: StandInPlace[],
+  city: { lat: number; lng: number }
+): Promise<LocalPlacesServer> {
+  const requests: LocalPlacesServer['requests'] = [];
+
+  const respond = (path: string, params: Record<string, string>): Record<string, unknown> => {
+    if (params['key'] !== 'test-key') {
+      return { status: 'REQUEST_DENIED', error_message: 'The provided API key is invalid.' };
+    }
+
+    switch (path) {
+      case '/geocode/json':
+        return { status: 'OK', results: [{ geometry: { location: city } }] };
+      case '/place/nearbysearch/json': {
+        const offset = params['pagetoken'] ? Number(params['pagetoken'].replace('page-', '')) : 0;
+        const page = places.slice(offset, offset + PAGE_SIZE);
+        const next = offset + PAGE_SIZE < places.length ? `page-${offset + PAGE_SIZE}` : undefined;
+        return { status: page.length > 0 ? 'OK' : 'ZERO_RESULTS', results: page.map(toResult), next_page_token: next };
+      }
+      case '/place/details/json': {
+        const place = places.find((p) => p.place_id === params['place_id']);
+        if (!place) return { status: 'NOT_FOUND' };
+        return {
+          status: 'OK',
+          result: {
+            ...toResult(place),
+            website: place.website,
+            formatted_phone_number: place.formatted_phone_number,
+            rating: place.rating,
+            user_ratings_total: place.user_ratings_total,
+            types: place.types,
+          },
+        };
+      }
+      case '/place/findplacefromtext/json': {
+        const place = places.find((p) => (params['input'] ?? '').startsWith(p.name));
+        return place ? { status: 'OK', candidates: [{ place_id: place.place_id }] } : { status: 'ZERO_RESULTS', candidates: [] };
+      }
+      default:
+        return { status: 'INVALID_REQUEST', error_message: `Unknown endpoint ${path}` };
+    }
+  };
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/maps\/api/, '');
+    const params = Object.fromEntries(url.searchParams.entries());
+    requests.push({ path, params });
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(respond(path, params)));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}/maps/api`,
+    requests,
+    count: (path) => requests.filter((r) => r.path === path).length,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
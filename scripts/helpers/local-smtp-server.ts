@@ -0,0 +1,124 @@
+/**
+ * Local SMTP Stand-in
+ * A minimal in-process SMTP server for testing outreach without a real mail server.
+ *
+ * Speaks just enough SMTP (EHLO/HELO, MAIL, RCPT, DATA, RSET, NOOP, QUIT) for
+ * nodemailer to deliver a message, and keeps every message it receives.
+ * Recipients listed in `rejectRecipients` get a 550 at RCPT time; those in
+ * `deferRecipients` get a 451 (try again later) until removed from the set.
+ */
+
+import { createServer, Server, Socket } from 'net';
+import { AddressInfo } from 'net';
+
+export interface CapturedMessage {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+export interface LocalSmtpServer {
+  port: number;
+  messages: CapturedMessage[];
+  deferRecipients: Set<string>;
+  close(): Promise<void>;
+}
+
+export async function startLocalSmtpServer(options?: {
+  rejectRecipients?: string[];
+  deferRecipients?: string[];
+}): Promise<LocalSmtpServer> {
+  const rejected = new Set((options?.rejectRecipients ?? []).map((r) => r.toLowerCase()));
+  const deferred = new Set((options?.deferRecipients ?? []).map((r) => r.toLowerCase()));
+  const messages: CapturedMessage[] = [];
+  const sockets = new Set<Socket>();
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.setEncoding('utf8');
+
+    let buffer = '';
+    let inData = false;
+    let current: CapturedMessage = { from: '', to: [], data: '' };
+
+    const reply = (line: string): void => {
+      socket.write(`${line}\r\n`);
+    };
+
+    reply('220 localhost ESMTP stand-in');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+
+          // Undo dot-stuffing
+          current.data = buffer.slice(0, end).replace(/\r\n\.\./g, '\r\n.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push(current);
+          current = { from: '', to: [], data: '' };
+          reply('250 2.0.0 Message accepted');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO') {
+          socket.write('250-localhost\r\n250-8BITMIME\r\n250 SMTPUTF8\r\n');
+        } else if (command === 'HELO') {
+          reply('250 localhost');
+        } else if (command === 'MAIL') {
+          current.from = line.replace(/^MAIL FROM:\s*/i, '').replace(/[<>]/g, '').split(' ')[0] ?? '';
+          reply('250 2.1.0 OK');
+        } else if (command === 'RCPT') {
+          const address = line.replace(/^RCPT TO:\s*/i, '').replace(/[<>]/g, '').split(' ')[0] ?? '';
+          if (rejected.has(address.toLowerCase())) {
+            reply('550 5.1.1 Mailbox unavailable');
+          } else if (deferred.has(address.toLowerCase())) {
+            reply('451 4.3.0 Try again later');
+          } else {
+            current.to.push(address);
+            reply('250 2.1.5 OK');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'RSET') {
+          current = { from: '', to: [], data: '' };
+          reply('250 OK');
+        } else if (command === 'NOOP') {
+          reply('250 OK');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('502 5.5.2 Command not implemented');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    port,
+    messages,
+    deferRecipients: deferred,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
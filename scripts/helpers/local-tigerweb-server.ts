@@ -0,0 +1,81 @@
+/**
+ * Local TIGERweb Stand-in
+ * A minimal in-process TIGERweb map service for testing county and ZIP areas without the Census Bureau.
+ *
+ * Answers `GET .../MapServer/{layer}/query` for the `where` clauses TigerWebClient sends:
+ * `STATE='fips' AND UPPER(BASENAME)='NAME'` and `BASENAME='zip'`. Matching
+ * features come back as a GeoJSON FeatureCollection. Every where clause
+ * received is kept for inspection.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import type { GeoPolygon } from '../../src/modules/discovery/index.js';
+
+export interface TigerWebFeature {
+  layer: number;
+  basename: string;
+  state?: string;                // FIPS code
+  boundary: GeoPolygon[];
+}
+
+export interface LocalTigerWebServer {
+  url: string;
+  queries: string[];
+  close(): Promise<void>;
+}
+
+const CONDITION = /^(UPPER\()?(\w+)\)?\s*=\s*'((?:[^']|'')*)'$/i;
+
+function matches(feature: TigerWebFeature, where: string): boolean {
+  return where.split(/\s+AND\s+/i).every((clause) => {
+    const match = CONDITION.exec(clause.trim());
+    if (!match) return false;
+    const [, upper, field, rawValue] = match;
+    const value = rawValue!.replace(/''/g, "'");
+    const actual = field!.toUpperCase() === 'STATE' ? feature.state : feature.basename;
+    return actual !== undefined && (upper ? actual.toUpperCase() : actual) === value;
+  });
+}
+
+export async function startLocalTigerWebServer(features: TigerWebFeature[]): Promise<LocalTigerWebServer> {
+  const queries: string[] = [];
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const layer = /\/MapServer\/(\d+)\/query$/.exec(url.pathname);
+    const where = url.searchParams.get('where');
+    if (req.method !== 'GET' || !layer || !where || url.searchParams.get('f') !== 'geojson') {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Expected GET .../MapServer/{layer}/query with a "where" clause and f=geojson');
+      return;
+    }
+
+    queries.push(where);
+    const found = features.filter((feature) => feature.layer === Number(layer[1]) && matches(feature, where));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      type: 'FeatureCollection',
+      features: found.map((feature) => ({
+        type: 'Feature',
+        properties: { BASENAME: feature.basename, NAME: feature.basename },
+        geometry: feature.boundary.length === 1
+          ? { type: 'Polygon', coordinates: feature.boundary[0] }
+          : { type: 'MultiPolygon', coordinates: feature.boundary },
+      })),
+    }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}/arcgis/rest/services/TIGERweb/tigerWMS_Current/MapServer`,
+    queries,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * OSM PBF Writer
+ * Writes a tiny .osm.pbf extract for testing the PBF reader.
+ *
+ * Emits one OSMHeader blob and one zlib-compressed OSMData blob holding a
+ * DenseNodes group and a ways group, with default granularity and offsets.
+ */
+
+import { writeFileSync } from 'fs';
+import { deflateSync } from 'zlib';
+
+export interface PbfNode {
+  id: number;
+  lat: number;
+  lon: number;
+  tags?: Record<string, string>;
+}
+
+export interface PbfWay {
+  id: number;
+  refs: number[];
+  tags: Record<string, string>;
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 128) {
+    bytes.push((remaining % 128) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function key(field: number, wire: number): Buffer {
+  return varint(field * 8 + wire);
+}
+
+function bytesField(field: number, data: Buffer | string): Buffer {
+  const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+  return Buffer.concat([key(field, 2), varint(buffer.length), buffer]);
+}
+
+function varintField(field: number, value: number): Buffer {
+  return Buffer.concat([key(field, 0), varint(value)]);
+}
+
+function packedField(field: number, values: number[]): Buffer {
+  return bytesField(field, Buffer.concat(values.map(varint)));
+}
+
+function deltas(values: number[]): number[] {
+  return values.map((value, i) => zigzag(value - (i > 0 ? values[i - 1]! : 0)));
+}
+
+function fileBlock(type: string, data: Buffer): Buffer {
+  const blob = Buffer.concat([varintField(2, data.length), bytesField(3, deflateSync(data))]);
+  const header = Buffer.concat([bytesField(1, type), varintField(3, blob.length)]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(header.length, 0);
+  return Buffer.concat([length, header, blob]);
+}
+
+export function writeOsmPbf(path: string, nodes: PbfNode[], ways: PbfWay[]): void {
+  const strings = [''];
+  const index = (value: string): number => {
+    let i = strings.indexOf(value);
+    if (i === -1) i = strings.push(value) - 1;
+    return i;
+  };
+
+  const keysVals = nodes.flatMap((node) => [
+    ...Object.entries(node.tags ?? {}).flatMap(([k, v]) => [index(k), index(v)]),
+    0,
+  ]);
+  const dense = Buffer.concat([
+    packedField(1, deltas(nodes.map((node) => node.id))),
+    packedField(8, deltas(nodes.map((node) => Math.round(node.lat * 1e7)))),
+    packedField(9, deltas(nodes.map((node) => Math.round(node.lon * 1e7)))),
+    packedField(10, keysVals),
+  ]);
+
+  const wayMessages = ways.map((way) => {
+    const entries = Object.entries(way.tags);
+    return bytesField(3, Buffer.concat([
+      varintField(1, way.id),
+      packedField(2, entries.map(([k]) => index(k))),
+      packedField(3, entries.map(([, v]) => index(v))),
+      packedField(8, deltas(way.refs)),
+    ]));
+  });
+
+  const stringTable = Buffer.concat(strings.map((value) => bytesField(1, value)));
+  const block = Buffer.concat([
+    bytesField(1, stringTable),
+    bytesField(2, bytesField(2, dense)),
+    bytesField(2, Buffer.concat(wayMessages)),
+  ]);
+
+  const header = Buffer.concat([bytesField(4, 'OsmSchema-V0.6'), bytesField(4, 'DenseNodes')]);
+
+  writeFileSync(path, Buffer.concat([fileBlock('OSMHeader', header), fileBlock('OSMData', block)]));
+}
@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+/**
+ * Migration Script
+ * Show and apply database schema migrations
+ *
+ * Usage:
+ *   npm run migrate                          # Show the schema version and pending migrations
+ *   npm run migrate -- apply [--no-backup]   # Apply pending migrations
+ *
+ * Uses DATABASE_PATH. Every other script applies pending migrations when it
+ * opens the database, so "apply" is for upgrading deliberately (and seeing
+ * where the backup went) before anything else touches an existing file.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import { logger } from '../src/utils/index.js';
+
+async function main(): Promise<void> {
+  db.initialize({ migrate: false });
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'status';
+
+  try {
+    switch (command) {
+      case 'status': {
+        const status = db.getMigrationStatus();
+        logger.info(`Schema version ${status.currentVersion} (latest ${status.latestVersion})`);
+        for (const migration of status.applied) {
+          logger.info(`  [applied] ${migration.version}: ${migration.name} (${migration.applied_at})`);
+        }
+        for (const migration of status.pending) {
+          logger.info(`  [pending] ${migration.version}: ${migration.name}`);
+        }
+        if (status.currentVersion > status.latestVersion) {
+          logger.warn('Database is newer than this code. Update the code before using it.');
+        } else if (status.pending.length > 0) {
+          logger.info('Run "npm run migrate -- apply" to upgrade.');
+        }
+        break;
+      }
+
+      case 'apply': {
+        const result = db.migrate({ backup: !args.includes('--no-backup') });
+        if (result.applied.length === 0) {
+          logger.info(`Already up to date at version ${result.to}`);
+          break;
+        }
+        logger.info(`Migrated from version ${result.from} to ${result.to}`);
+        if (result.backupPath) {
+          logger.info(`Backup: ${result.backupPath}`);
+        }
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -9,6 +9,9 @@
  *   npm run pipeline -- --category=restaurant                 # Discover restaurants only
  *   npm run pipeline -- --category=restaurant,salon           # Multiple categories
  *   npm run pipeline -- --city="Holly Springs, MS"            # One city only
+ *   npm run pipeline -- --county=Marshall                     # A whole county (--state=TN for other states)
+ *   npm run pipeline -- --zip=38635                           # A ZIP code area
+ *   npm run pipeline -- --area-file=./territory.geojson       # Any GeoJSON polygon
  *   npm run pipeline -- --category=restaurant --limit=10      # Combined
  *   npm run pipeline -- --discover-only                       # Just run discovery
  *   npm run pipeline -- --generate-only                       # Just run generation
@@ -25,8 +28,11 @@ import { logger } from '../src/utils/index.js';
 import {
   DiscoveryService,
   BusinessCategory,
+  type CitySearchArea,
   type SearchArea,
   type DiscoverySummary,
+  describeSearchArea,
+  searchAreasFromFlags,
 } from '../src/modules/discovery/index.js';
 import {
   GeneratorService,
@@ -47,6 +53,7 @@ interface PipelineConfig {
   dryRun: boolean;
   categories?: BusinessCategory[];
   city?: string;
+  areas: SearchArea[];            // From --county, --zip and --area-file
 }
 
 interface PipelineResults {
@@ -67,7 +74,7 @@ interface StepResult<T> {
 // ==================== CONFIGURATION ====================
 
 // Default discovery configuration - customize these for your target markets
-const DEFAULT_AREAS: SearchArea[] = [
+const DEFAULT_AREAS: CitySearchArea[] = [
   { city: 'Holly Springs', state: 'MS', radiusMiles: 15 },
   { city: 'Oxford',        state: 'MS', radiusMiles: 10 },
   { city: 'Tupelo',        state: 'MS', radiusMiles: 15 },
@@ -113,8 +120,8 @@ async function runDiscovery(
   logger.info('[STEP 1/3] DISCOVERY');
   logger.info('='.repeat(60));
 
-  // Resolve areas from --city flag, or use all defaults
-  const areas: SearchArea[] = config.city
+  // Resolve areas from --city and the other area flags, or use all defaults
+  const cityAreas: SearchArea[] = config.city
     ? (() => {
         const parts = config.city.split(',').map(s => s.trim());
         const city = parts[0] ?? config.city;
@@ -124,14 +131,15 @@ async function runDiscovery(
         );
         return [{ city, state, radiusMiles: known?.radiusMiles ?? 10 }];
       })()
-    : DEFAULT_AREAS;
+    : [];
+  const areas = cityAreas.length + config.areas.length > 0 ? [...cityAreas, ...config.areas] : DEFAULT_AREAS;
 
   const categories = config.categories ?? DEFAULT_CATEGORIES;
 
   if (config.dryRun) {
     logger.info('[DRY RUN] Would search for businesses in:');
     for (const area of areas) {
-      logger.info(`  - ${area.city}, ${area.state} (${area.radiusMiles} mile radius)`);
+      logger.info(`  - ${describeSearchArea(area)}`);
     }
     logger.info('Categories:', categories.join(', '));
     return { success: true };
@@ -151,6 +159,11 @@ async function runDiscovery(
     logger.info(`  Without websites: ${summary.withoutWebsite}`);
     logger.info(`  Newly saved: ${summary.newlySaved}`);
     logger.info(`  Already existed: ${summary.alreadyExists}`);
+    logger.info(`  New since last run: ${summary.changes.new_place}, gained a website: ${summary.changes.gained_website}, closed: ${summary.changes.closed}`);
+    logger.info(`  Places spend: $${summary.spend.costUsd.toFixed(2)} (${summary.spend.calls} live, ${summary.spend.cachedCalls} cached)`);
+    if (summary.stoppedEarly) {
+      logger.warn(`  Stopped early: ${summary.stoppedEarly}`);
+    }
 
     return { success: true, data: summary };
   } catch (error) {
@@ -171,8 +184,23 @@ async function runGeneration(
   logger.info('[STEP 2/3] GENERATION');
   logger.info('='.repeat(60));
 
-  // Get businesses that need website generation
-  const businessesNeedingWebsites = db.getBusinessesNeedingWebsites(config.limit);
+  const generator = new GeneratorService({
+    templatesPerBusiness: 1, // Generate 1 template per business for speed
+    includeFeatures: ['contact_form', 'about_section', 'services_list', 'call_to_action', 'hours_of_operation'],
+  });
+
+  // Get verified businesses that need website generation, best leads first.
+  // Verifying and scoring probe sites and write rows, so a dry run only reads.
+  const businessesNeedingWebsites = config.dryRun
+    ? db.getBusinessesNeedingWebsites(config.limit)
+    : await generator.getBusinessesNeedingGeneration(config.limit);
+
+  if (config.dryRun) {
+    const unverified = db.getBusinessesAwaitingVerification(config.limit).length;
+    if (unverified > 0) {
+      logger.info(`[DRY RUN] ${unverified} lead(s) would be verified and scored first`);
+    }
+  }
 
   if (businessesNeedingWebsites.length === 0) {
     logger.info('No businesses need website generation.');
@@ -203,11 +231,6 @@ async function runGeneration(
   }
 
   try {
-    const generator = new GeneratorService({
-      templatesPerBusiness: 1, // Generate 1 template per business for speed
-      includeFeatures: ['contact_form', 'about_section', 'services_list', 'call_to_action', 'hours_of_operation'],
-    });
-
     const summary = await generator.generateForBusinesses(businessesNeedingWebsites);
 
     logger.info('\nGeneration Results:');
@@ -316,7 +339,11 @@ function generateReport(config: PipelineConfig, results: PipelineResults): strin
   lines.push(`│   • Website Generated:${String(stats.byStatus.website_generated).padStart(5)}                              │`);
   lines.push(`│   • Deployed:         ${String(stats.byStatus.deployed).padStart(5)}                              │`);
   lines.push(`│   • Contacted:        ${String(stats.byStatus.contacted).padStart(5)}                              │`);
+  lines.push(`│   • Interested:       ${String(stats.byStatus.interested).padStart(5)}                              │`);
   lines.push(`│   • Sold:             ${String(stats.byStatus.sold).padStart(5)}                              │`);
+  lines.push(`│   • Rejected:         ${String(stats.byStatus.rejected).padStart(5)}                              │`);
+  lines.push(`│   • Lost:             ${String(stats.byStatus.lost).padStart(5)}                              │`);
+  lines.push(`│   • Archived:         ${String(stats.byStatus.archived).padStart(5)}                              │`);
   lines.push('│                                                             │');
   lines.push(`│ Total Websites:      ${String(stats.totalWebsites).padStart(6)}                              │`);
   lines.push('└─────────────────────────────────────────────────────────────┘');
@@ -443,6 +470,22 @@ function parseArgs(): PipelineConfig {
     ? (cityArg.split('=')[1] ?? '').replace(/^["']|["']$/g, '').trim()
     : undefined;
 
+  // --county=Marshall, --zip=38635, --area-file=./territory.geojson (--state=TN outside MS)
+  const flagValue = (name: string): string | undefined =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+  let areas: SearchArea[];
+  try {
+    areas = searchAreasFromFlags({
+      county: flagValue('county'),
+      zip: flagValue('zip'),
+      areaFile: flagValue('area-file'),
+      state: flagValue('state'),
+    });
+  } catch (error) {
+    logger.error(`Invalid area: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
   return {
     limit,
     discoverOnly: args.includes('--discover-only'),
@@ -451,6 +494,7 @@ function parseArgs(): PipelineConfig {
     dryRun: args.includes('--dry-run'),
     categories,
     city,
+    areas,
   };
 }
 
@@ -7,10 +7,15 @@
  *   npm run preview                     # Preview the latest generated website
  *   npm run preview -- --id=<id>        # Preview a specific website by ID
  *   npm run preview -- --list           # List all generated websites
+ *   npm run preview -- --placeholders [--id=<id>]  # List invented content to review before outreach
+ *   npm run preview -- --audit [--id=<id>]  # Audit structure and accessibility (and store the result)
  */
 
 import 'dotenv/config';
 import { db } from '../src/database/index.js';
+import { auditSavedWebsite } from '../src/modules/generator/index.js';
+import { countPlaceholders, findPlaceholders } from '../src/modules/generator/placeholders.js';
+import type { AuditFinding } from '../src/modules/generator/types.js';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { execSync } from 'child_process';
 import { join } from 'path';
@@ -18,6 +23,8 @@ import { join } from 'path';
 function main(): void {
   const args = process.argv.slice(2);
   const listMode = args.includes('--list');
+  const placeholdersMode = args.includes('--placeholders');
+  const auditMode = args.includes('--audit');
   const idArg = args.find((arg) => arg.startsWith('--id='));
   const websiteId = idArg?.split('=')[1];
 
@@ -30,15 +37,18 @@ function main(): void {
       // List all generated websites with business names
       const websites = rawDb.prepare(`
         SELECT gw.id, gw.template_name, gw.variation_number, gw.created_at,
-               LENGTH(gw.html_content) as size_chars,
-               b.name as business_name, b.city, b.state, b.business_type
+               LENGTH(gw.html_content) as size_chars, gw.html_content,
+               b.name as business_name, b.city, b.state, b.business_type,
+               wa.errors as audit_errors, wa.warnings as audit_warnings
         FROM generated_websites gw
         JOIN businesses b ON gw.business_id = b.id
+        LEFT JOIN website_audits wa ON wa.website_id = gw.id
         ORDER BY gw.created_at DESC
       `).all() as Array<{
         id: string; template_name: string; variation_number: number;
-        created_at: string; size_chars: number;
+        created_at: string; size_chars: number; html_content: string;
         business_name: string; city: string; state: string; business_type: string;
+        audit_errors: number | null; audit_warnings: number | null;
       }>;
 
       if (websites.length === 0) {
@@ -47,21 +57,26 @@ function main(): void {
       }
 
       console.log('Generated Websites:\n');
-      console.log(`${'ID'.padEnd(38)} ${'Business'.padEnd(25)} ${'Template'.padEnd(22)} ${'Size'.padEnd(8)} Created`);
-      console.log('-'.repeat(110));
+      console.log(`${'ID'.padEnd(38)} ${'Business'.padEnd(25)} ${'Template'.padEnd(22)} ${'Size'.padEnd(8)} ${'Placeholders'.padEnd(13)} ${'Audit'.padEnd(12)} Created`);
+      console.log('-'.repeat(137));
 
       for (const w of websites) {
+        const placeholders = Object.values(countPlaceholders(w.html_content)).reduce((sum, n) => sum + n, 0);
+        const audit = w.audit_errors === null ? 'not run' : `${w.audit_errors}E ${w.audit_warnings}W`;
         console.log(
-          `${w.id.padEnd(38)} ${w.business_name.padEnd(25)} ${w.template_name.padEnd(22)} ${String(w.size_chars).padEnd(8)} ${w.created_at.slice(0, 10)}`
+          `${w.id.padEnd(38)} ${w.business_name.padEnd(25)} ${w.template_name.padEnd(22)} ${String(w.size_chars).padEnd(8)} ${String(placeholders).padEnd(13)} ${audit.padEnd(12)} ${w.created_at.slice(0, 10)}`
         );
       }
 
       console.log(`\nTotal: ${websites.length} website(s)`);
       console.log('\nTo preview one: npm run preview -- --id=<ID>');
+      console.log('To review its invented content: npm run preview -- --placeholders --id=<ID>');
+      console.log('To see its audit (E = errors, W = warnings): npm run preview -- --audit --id=<ID>');
       return;
     }
 
     // Get the website to preview
+    let id: string;
     let html: string;
     let filename: string;
 
@@ -71,7 +86,7 @@ function main(): void {
         FROM generated_websites gw
         JOIN businesses b ON gw.business_id = b.id
         WHERE gw.id = ?
-      `).get(websiteId) as { html_content: string; business_name: string; template_name: string } | undefined;
+      `).get(websiteId) as { id: string; html_content: string; business_name: string; template_name: string } | undefined;
 
       if (!website) {
         console.log(`Website with ID "${websiteId}" not found.`);
@@ -79,6 +94,7 @@ function main(): void {
         return;
       }
 
+      id = website.id;
       html = website.html_content;
       filename = `${website.business_name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${website.template_name}.html`;
       console.log(`Previewing: ${website.business_name} (${website.template_name})`);
@@ -90,18 +106,50 @@ function main(): void {
         JOIN businesses b ON gw.business_id = b.id
         ORDER BY gw.created_at DESC
         LIMIT 1
-      `).get() as { html_content: string; business_name: string; template_name: string } | undefined;
+      `).get() as { id: string; html_content: string; business_name: string; template_name: string } | undefined;
 
       if (!website) {
         console.log('No generated websites found. Run "npm run generate" first.');
         return;
       }
 
+      id = website.id;
       html = website.html_content;
       filename = `${website.business_name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${website.template_name}.html`;
       console.log(`Previewing latest: ${website.business_name} (${website.template_name})`);
     }
 
+    if (placeholdersMode) {
+      const placeholders = findPlaceholders(html);
+      if (placeholders.length === 0) {
+        console.log('\nNo placeholders marked. Everything on the page is from verified business data.');
+        return;
+      }
+
+      console.log(`\n${placeholders.length} placeholder(s) to review before outreach:\n`);
+      for (const placeholder of placeholders) {
+        const text = placeholder.text.length > 90 ? `${placeholder.text.slice(0, 87)}...` : placeholder.text;
+        console.log(`  [${placeholder.kind}] <${placeholder.tag}> ${text}`);
+      }
+      return;
+    }
+
+    if (auditMode) {
+      const audit = auditSavedWebsite(id)!;
+      const findings = JSON.parse(audit.findings) as AuditFinding[];
+      if (findings.length === 0) {
+        console.log('\nAudit clean: no structural or accessibility problems found.');
+        return;
+      }
+
+      console.log(`\nAudit: ${audit.errors} error(s), ${audit.warnings} warning(s)\n`);
+      for (const finding of findings) {
+        const where = finding.line ? `line ${finding.line}`.padEnd(11) : ''.padEnd(11);
+        console.log(`  ${finding.severity === 'error' ? '✗' : '⚠'} ${where} [${finding.check}] ${finding.message}`);
+      }
+      return;
+    }
+
     // Save to output/preview.html
     const outputDir = './output';
     if (!existsSync(outputDir)) {
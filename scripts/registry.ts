@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+/**
+ * Registry Import Script
+ * Import newly registered businesses from Secretary of State bulk exports
+ *
+ * Usage:
+ *   npm run registry -- sources                                  # List supported registries
+ *   npm run registry -- import --source=ms_sos --file=./ms.csv   # Import an export file
+ *   npm run registry -- import --source=tn_sos --file=./tn.csv --formed-after=2026-09-01
+ *   npm run registry -- import ... --formed-before=2026-10-01
+ *   npm run registry -- import ... --kinds=llc,corporation       # Entity kinds (default: for-profit)
+ *   npm run registry -- import ... --include-inactive --include-foreign
+ *   npm run registry -- import ... --limit=100 --dry-run
+ *
+ * Filings are checked against existing businesses with the same duplicate
+ * matching as Places discovery; matches get the filing details instead.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import { EntityKind, RegistryImportService, RegistrySource } from '../src/modules/registry/index.js';
+import { logger } from '../src/utils/index.js';
+
+const ENTITY_KINDS: EntityKind[] = ['llc', 'corporation', 'partnership', 'sole_proprietorship', 'nonprofit', 'other'];
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'sources';
+  const service = new RegistryImportService();
+
+  try {
+    switch (command) {
+      case 'sources': {
+        for (const importer of service.listImporters()) {
+          logger.info(`${importer.source.padEnd(8)} ${importer.label} (${importer.format})`);
+        }
+        break;
+      }
+
+      case 'import': {
+        const source = getArg(args, 'source');
+        const file = getArg(args, 'file');
+        if (!source || !file) {
+          logger.error('"import" needs --source=<registry> and --file=<export>');
+          process.exitCode = 1;
+          break;
+        }
+
+        const kinds = getArg(args, 'kinds')?.split(',').map((kind) => kind.trim()) as EntityKind[] | undefined;
+        const unknown = kinds?.filter((kind) => !ENTITY_KINDS.includes(kind)) ?? [];
+        if (unknown.length > 0) {
+          logger.error(`Unknown entity kind(s): ${unknown.join(', ')} (use ${ENTITY_KINDS.join(', ')})`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const limit = getArg(args, 'limit');
+        const summary = service.importFile(source as RegistrySource, file, {
+          formedAfter: getArg(args, 'formed-after'),
+          formedBefore: getArg(args, 'formed-before'),
+          entityKinds: kinds,
+          includeInactive: args.includes('--include-inactive'),
+          includeForeign: args.includes('--include-foreign'),
+          limit: limit ? parseInt(limit, 10) : undefined,
+          dryRun: args.includes('--dry-run'),
+        });
+
+        if (summary.linked > 0) {
+          logger.info(`Added filing details to ${summary.linked} existing business(es)`);
+        }
+        if (summary.saved > 0 && !args.includes('--dry-run')) {
+          logger.info('Run "npm run enrich" to check them for websites.');
+        }
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Registry import failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+/**
+ * Replies Script
+ * Ingest replies to outreach emails from a local maildir and list them
+ *
+ * Usage:
+ *   npm run replies -- ingest [--maildir=./data/mailbox]   # Process new messages
+ *   npm run replies -- list [--class=interested] [--limit=50]
+ *
+ * The maildir defaults to REPLY_MAILDIR. Point a local MDA (fetchmail, getmail,
+ * offlineimap...) at it, or drop .eml files into its new/ folder for testing.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import type { ReplyClassification } from '../src/database/types.js';
+import { MaildirMailbox, ReplyIngester } from '../src/modules/outreach/index.js';
+import { config } from '../src/config/index.js';
+import { logger } from '../src/utils/index.js';
+
+const CLASSIFICATIONS: ReplyClassification[] = ['interested', 'not_interested', 'unsubscribe', 'out_of_office', 'unknown'];
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'ingest';
+
+  try {
+    switch (command) {
+      case 'ingest': {
+        const maildir = getArg(args, 'maildir') ?? config.get('REPLY_MAILDIR') ?? './data/mailbox';
+        logger.info(`Reading replies from ${maildir}`);
+
+        const result = await new ReplyIngester(new MaildirMailbox(maildir)).ingest();
+        logger.info(`Processed: ${result.processed}, matched: ${result.matched}, unmatched: ${result.unmatched}, already ingested: ${result.duplicates}`);
+        if (result.bounces > 0 || result.complaints > 0) {
+          logger.info(`Bounces: ${result.bounces}, complaints: ${result.complaints}`);
+        }
+        for (const classification of CLASSIFICATIONS) {
+          if (result.byClassification[classification] > 0) {
+            logger.info(`  ${classification}: ${result.byClassification[classification]}`);
+          }
+        }
+        break;
+      }
+
+      case 'list': {
+        const classification = getArg(args, 'class') as ReplyClassification | undefined;
+        if (classification && !CLASSIFICATIONS.includes(classification)) {
+          logger.error(`Unknown class "${classification}". Use one of: ${CLASSIFICATIONS.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const replies = db.getEmailReplies(classification, parseInt(getArg(args, 'limit') ?? '50', 10));
+        if (replies.length === 0) {
+          logger.info('No replies found.');
+          break;
+        }
+
+        for (const reply of replies) {
+          const business = db.getBusinessById(reply.business_id);
+          logger.info(`[${reply.classification}] ${business?.name ?? reply.business_id} <${reply.from_email}> ${reply.received_at}`);
+          logger.info(`  ${reply.body.split('\n')[0]?.slice(0, 100) ?? ''}`);
+        }
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Replies command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,211 @@
+#!/usr/bin/env tsx
+/**
+ * Sales Script
+ * Proposals, payments and production handoff for businesses that said yes
+ *
+ * Usage:
+ *   npm run sales -- propose --business=ID --website=ID --price=499 [--notes="..."]
+ *   npm run sales -- accept --proposal=ID
+ *   npm run sales -- decline --proposal=ID
+ *   npm run sales -- list [--status=sent|accepted|declined|withdrawn]
+ *   npm run sales -- status --proposal=ID                 # Ledger and balance
+ *   npm run sales -- serve [--port=8788]                   # Payment webhook server (Ctrl+C to stop)
+ *   npm run sales -- pay --proposal=ID [--amount=499] [--type=payment.succeeded|payment.failed|refund.succeeded]
+ *                        [--url=http://localhost:8788]     # Post a signed test event to the webhook
+ *   npm run sales -- handoff --proposal=ID --domain=marcusbarbers.com
+ *
+ * Amounts are in dollars. "pay" plays the part of the payment provider, so the
+ * webhook server must be running. Both need PAYMENT_WEBHOOK_SECRET.
+ */
+
+import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { db } from '../src/database/index.js';
+import type { ProposalStatus } from '../src/database/types.js';
+import {
+  HandoffService,
+  PaymentService,
+  PaymentWebhookServer,
+  ProposalService,
+  formatMoney,
+} from '../src/modules/sales/index.js';
+import type { PaymentWebhookEvent } from '../src/modules/sales/index.js';
+import { logger } from '../src/utils/index.js';
+
+const STATUSES: ProposalStatus[] = ['sent', 'accepted', 'declined', 'withdrawn'];
+const EVENT_TYPES: PaymentWebhookEvent['type'][] = ['payment.succeeded', 'payment.failed', 'refund.succeeded'];
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function toCents(dollars: string): number {
+  return Math.round(parseFloat(dollars) * 100);
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'list';
+  const proposalId = getArg(args, 'proposal');
+  const proposals = new ProposalService();
+  const payments = new PaymentService(undefined, proposals);
+
+  const requireArg = (name: string): string => {
+    const value = getArg(args, name);
+    if (!value) {
+      logger.error(`"${command}" needs --${name}=...`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  if (command === 'serve') {
+    if (!payments.hasSecret()) {
+      logger.error('PAYMENT_WEBHOOK_SECRET not set - refusing to start the payment webhook server');
+      process.exitCode = 1;
+      db.close();
+      return;
+    }
+
+    const portArg = getArg(args, 'port');
+    const server = new PaymentWebhookServer(payments);
+    await server.start(portArg ? parseInt(portArg, 10) : undefined);
+
+    const shutdown = async (): Promise<void> => {
+      logger.info('Stopping payment webhook server...');
+      await server.stop();
+      db.close();
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
+  }
+
+  try {
+    switch (command) {
+      case 'propose': {
+        const proposal = proposals.createProposal({
+          businessId: requireArg('business'),
+          websiteId: requireArg('website'),
+          priceCents: toCents(requireArg('price')),
+          notes: getArg(args, 'notes'),
+        });
+        logger.info(`Created proposal ${proposal.id}`);
+        break;
+      }
+
+      case 'accept':
+        proposals.accept(proposalId ?? requireArg('proposal'));
+        break;
+
+      case 'decline':
+        proposals.decline(proposalId ?? requireArg('proposal'));
+        break;
+
+      case 'list': {
+        const status = getArg(args, 'status') as ProposalStatus | undefined;
+        if (status && !STATUSES.includes(status)) {
+          logger.error(`Unknown status "${status}". Use one of: ${STATUSES.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const list = proposals.listProposals(status);
+        if (list.length === 0) {
+          logger.info('No proposals found.');
+          break;
+        }
+        for (const proposal of list) {
+          const business = db.getBusinessById(proposal.business_id);
+          const summary = payments.getSummary(proposal.id);
+          logger.info(`${proposal.id} [${proposal.status}] ${business?.name ?? proposal.business_id} - ${formatMoney(proposal.price_cents, proposal.currency)} (paid ${formatMoney(summary.paidCents, proposal.currency)})`);
+        }
+        break;
+      }
+
+      case 'status': {
+        const summary = payments.getSummary(proposalId ?? requireArg('proposal'));
+        const { proposal } = summary;
+        logger.info(`Proposal ${proposal.id} [${proposal.status}]`);
+        logger.info(`  Price: ${formatMoney(proposal.price_cents, proposal.currency)}, paid: ${formatMoney(summary.paidCents, proposal.currency)}, owed: ${formatMoney(summary.balanceCents, proposal.currency)}`);
+        for (const payment of summary.payments) {
+          logger.info(`  ${payment.received_at} ${payment.kind} ${payment.status} ${formatMoney(payment.amount_cents, payment.currency)} (${payment.provider} ${payment.provider_event_id})`);
+        }
+        for (const deployment of db.getProductionDeploymentsByBusinessId(proposal.business_id)) {
+          logger.info(`  Production: ${deployment.domain} [${deployment.status}] ${deployment.url ?? ''}`);
+          if (deployment.detail) logger.info(`    ${deployment.detail.replace(/\n/g, '\n    ')}`);
+        }
+        break;
+      }
+
+      case 'pay': {
+        const id = proposalId ?? requireArg('proposal');
+        const proposal = proposals.getProposal(id);
+        if (!proposal) {
+          logger.error(`Proposal not found: ${id}`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const type = (getArg(args, 'type') ?? 'payment.succeeded') as PaymentWebhookEvent['type'];
+        if (!EVENT_TYPES.includes(type)) {
+          logger.error(`Unknown event type "${type}". Use one of: ${EVENT_TYPES.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const amountArg = getArg(args, 'amount');
+        const event: PaymentWebhookEvent = {
+          id: `evt_${randomUUID()}`,
+          type,
+          data: {
+            proposal_id: proposal.id,
+            amount_cents: amountArg ? toCents(amountArg) : proposal.price_cents,
+            currency: proposal.currency,
+          },
+        };
+
+        const url = getArg(args, 'url') ?? `http://localhost:${payments.getConfig().port}`;
+        const body = JSON.stringify(event);
+        const response = await fetch(`${url}/webhooks/payments`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Payment-Signature': payments.sign(body) },
+          body,
+        });
+        logger.info(`Webhook responded ${response.status}: ${await response.text()}`);
+        if (!response.ok) process.exitCode = 1;
+        break;
+      }
+
+      case 'handoff': {
+        const result = await new HandoffService(undefined, payments).handoff(
+          proposalId ?? requireArg('proposal'),
+          requireArg('domain')
+        );
+        if (!result.success) {
+          logger.error(`Handoff failed: ${result.error}`);
+          process.exitCode = 1;
+          break;
+        }
+        logger.info(`Production deployment: ${result.deployment!.url} [${result.deployment!.status}]`);
+        if (result.deployment!.detail) {
+          logger.info(`DNS records for the client to add:\n${result.deployment!.detail}`);
+        }
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Sales command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,94 @@
+#!/usr/bin/env tsx
+/**
+ * Lead Scoring Script
+ * Score leads and see which ones generation and deployment will pick first
+ *
+ * Usage:
+ *   npm run score                                 # Rescore every active lead
+ *   npm run score -- rescore --unscored           # Score only leads never scored
+ *   npm run score -- top [--limit=20]             # Best leads first
+ *   npm run score -- explain --business=ID        # Score breakdown for one lead
+ *
+ * Set LEAD_BASE_LATITUDE / LEAD_BASE_LONGITUDE to factor in distance.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import { getLeadScoreDetails, LeadScoringService } from '../src/modules/scoring/index.js';
+import { logger } from '../src/utils/index.js';
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'rescore';
+  const scoring = new LeadScoringService();
+
+  try {
+    switch (command) {
+      case 'rescore': {
+        const summary = scoring.rescore({ onlyUnscored: args.includes('--unscored') });
+        if (summary.scored === 0) {
+          logger.info('No leads to score');
+        }
+        if (!scoring.getConfig().base) {
+          logger.info('No base location set (LEAD_BASE_LATITUDE/LEAD_BASE_LONGITUDE); distance was not scored.');
+        }
+        break;
+      }
+
+      case 'top': {
+        const limit = parseInt(getArg(args, 'limit') ?? '20', 10);
+        const leads = db.getTopLeads(limit);
+        if (leads.length === 0) {
+          logger.info('No scored leads. Run "npm run score" first.');
+          break;
+        }
+        for (const lead of leads) {
+          const place = [lead.city, lead.state].filter(Boolean).join(', ');
+          logger.info(`${String(lead.lead_score).padStart(5)}  ${lead.name} (${place}) [${lead.status}] ${lead.id}`);
+        }
+        break;
+      }
+
+      case 'explain': {
+        const businessId = getArg(args, 'business');
+        const business = businessId ? db.getBusinessById(businessId) : null;
+        if (!business) {
+          logger.error(businessId ? `Business not found: ${businessId}` : '"explain" needs --business=ID');
+          process.exitCode = 1;
+          break;
+        }
+
+        const { score, details } = scoring.scoreAndSave(business);
+        logger.info(`${business.name}: ${score}`);
+        if (details.disqualified) {
+          logger.info(`  Disqualified: ${details.disqualified}`);
+        }
+        for (const [factor, component] of Object.entries(details.components)) {
+          const known = component.known ? '' : ' (no data, neutral value)';
+          logger.info(`  ${factor.padEnd(12)} ${component.value.toFixed(2)} x ${component.weight}  ${component.note}${known}`);
+        }
+        if (getLeadScoreDetails(business) === null) {
+          logger.info('  (first time this lead was scored)');
+        }
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Scoring failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+/**
+ * Business Status Script
+ * Move a business through the pipeline by hand and audit how it got where it is
+ *
+ * Usage:
+ *   npm run status -- history --business=ID
+ *   npm run status -- set --business=ID --status=rejected|lost|archived|... [--reason="..."] [--actor=NAME]
+ *   npm run status -- transitions                           # Print the allowed moves
+ *
+ * Illegal moves (e.g. sold -> contacted) are refused.
+ */
+
+import 'dotenv/config';
+import { BUSINESS_STATUSES, BUSINESS_STATUS_TRANSITIONS, db } from '../src/database/index.js';
+import type { BusinessStatus } from '../src/database/types.js';
+import { logger } from '../src/utils/index.js';
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'transitions';
+  const businessId = getArg(args, 'business');
+
+  try {
+    if (command !== 'transitions' && !businessId) {
+      logger.error(`"${command}" needs --business=ID`);
+      process.exitCode = 1;
+      return;
+    }
+
+    switch (command) {
+      case 'transitions':
+        for (const status of BUSINESS_STATUSES) {
+          const next = BUSINESS_STATUS_TRANSITIONS[status];
+          logger.info(`${status.padEnd(18)} -> ${next.length > 0 ? next.join(', ') : '(final)'}`);
+        }
+        break;
+
+      case 'history': {
+        const business = db.getBusinessById(businessId!);
+        if (!business) {
+          logger.error(`Business not found: ${businessId}`);
+          process.exitCode = 1;
+          break;
+        }
+        logger.info(`${business.name} [${business.status}]`);
+        for (const change of db.getBusinessStatusHistory(business.id)) {
+          const reason = change.reason ? ` - ${change.reason}` : '';
+          logger.info(`  ${change.changed_at} ${change.from_status ?? '(new)'} -> ${change.to_status} by ${change.actor}${reason}`);
+        }
+        break;
+      }
+
+      case 'set': {
+        const status = getArg(args, 'status') as BusinessStatus | undefined;
+        if (!status || !BUSINESS_STATUSES.includes(status)) {
+          logger.error(`"set" needs --status=one of: ${BUSINESS_STATUSES.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const business = db.updateBusinessStatus(businessId!, status, {
+          actor: getArg(args, 'actor') ?? 'cli',
+          reason: getArg(args, 'reason') ?? null,
+        });
+        if (!business) {
+          logger.error(`Business not found: ${businessId}`);
+          process.exitCode = 1;
+          break;
+        }
+        logger.info(`${business.name} is now ${business.status}`);
+        break;
+      }
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Status command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
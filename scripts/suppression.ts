@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Suppression Script
+ * Manage the email suppression list
+ *
+ * Usage:
+ *   npm run suppression                                      # List suppressed addresses
+ *   npm run suppression -- add --email=a@b.com [--reason=manual|unsubscribe|hard_bounce|complaint]
+ *   npm run suppression -- complaint --email=a@b.com         # Record a spam complaint
+ *   npm run suppression -- remove --email=a@b.com            # Take an address off the list
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import type { SuppressionReason } from '../src/database/types.js';
+import { SuppressionService } from '../src/modules/outreach/index.js';
+import { logger } from '../src/utils/index.js';
+
+const REASONS: SuppressionReason[] = ['unsubscribe', 'hard_bounce', 'complaint', 'manual'];
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'list';
+  const email = args.find((arg) => arg.startsWith('--email='))?.split('=')[1];
+  const reason = (args.find((arg) => arg.startsWith('--reason='))?.split('=')[1] ?? 'manual') as SuppressionReason;
+  const suppression = new SuppressionService();
+
+  try {
+    if (command !== 'list' && !email) {
+      logger.error(`"${command}" needs --email=ADDRESS`);
+      process.exitCode = 1;
+      return;
+    }
+
+    switch (command) {
+      case 'list': {
+        const entries = suppression.list();
+        if (entries.length === 0) {
+          logger.info('Suppression list is empty.');
+          break;
+        }
+        logger.info(`${entries.length} suppressed address(es):`);
+        for (const entry of entries) {
+          logger.info(`  ${entry.email} - ${entry.reason} (${entry.created_at})${entry.detail ? `: ${entry.detail}` : ''}`);
+        }
+        break;
+      }
+
+      case 'add':
+        if (!REASONS.includes(reason)) {
+          logger.error(`Unknown reason "${reason}". Use one of: ${REASONS.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+        suppression.suppress(email!, reason);
+        break;
+
+      case 'complaint':
+        suppression.recordComplaint(email!);
+        break;
+
+      case 'remove':
+        if (suppression.unsuppress(email!)) {
+          logger.info(`Removed ${email} from the suppression list`);
+        } else {
+          logger.info(`${email} was not on the suppression list`);
+        }
+        break;
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+/**
+ * Tasks Script
+ * Phone and in-person outreach queue for the sales rep
+ *
+ * Usage:
+ *   npm run tasks -- build [--method=phone|in_person] [--limit=100]   # Queue deployed businesses with a phone
+ *   npm run tasks -- calls [--city=Oxford] [--state=MS] [--limit=20]   # Calls due now, with scripts
+ *   npm run tasks -- routes [--state=MS]                               # Due visits grouped by city
+ *   npm run tasks -- script --task=ID                                  # Script for one task
+ *   npm run tasks -- outcome --task=ID --result=no_answer|voicemail|callback|interested|declined
+ *                            [--at="2025-03-05 15:00"] [--notes="Talked to Jane"]
+ *   npm run tasks -- cancel --task=ID
+ *
+ * Callbacks need --at (local time). Unanswered calls are retried the next day, up to 3 attempts.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import type { OutreachTaskMethod, OutreachTaskOutcome } from '../src/database/types.js';
+import { TaskQueueService } from '../src/modules/outreach/index.js';
+import type { TaskSheetEntry } from '../src/modules/outreach/index.js';
+import { logger } from '../src/utils/index.js';
+
+const METHODS: OutreachTaskMethod[] = ['phone', 'in_person'];
+const OUTCOMES: OutreachTaskOutcome[] = ['no_answer', 'voicemail', 'callback', 'interested', 'declined'];
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function printEntry(entry: TaskSheetEntry): void {
+  console.log('-'.repeat(60));
+  console.log(`Task ${entry.task.id} (due ${entry.task.due_at})`);
+  console.log(entry.script);
+}
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'calls';
+  const taskId = getArg(args, 'task');
+  const queue = new TaskQueueService();
+
+  const requireTaskId = (): string => {
+    if (!taskId) {
+      logger.error(`"${command}" needs --task=ID`);
+      process.exit(1);
+    }
+    return taskId;
+  };
+
+  try {
+    switch (command) {
+      case 'build': {
+        const method = (getArg(args, 'method') ?? 'phone') as OutreachTaskMethod;
+        if (!METHODS.includes(method)) {
+          logger.error(`Unknown method "${method}". Use one of: ${METHODS.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+        queue.buildQueue(method, parseInt(getArg(args, 'limit') ?? '100', 10));
+        break;
+      }
+
+      case 'calls': {
+        const due = queue.getDueTasks('phone', {
+          city: getArg(args, 'city'),
+          state: getArg(args, 'state'),
+          limit: parseInt(getArg(args, 'limit') ?? '20', 10),
+        });
+        if (due.length === 0) {
+          logger.info('No calls due.');
+          break;
+        }
+        logger.info(`${due.length} call(s) due:\n`);
+        due.forEach(printEntry);
+        break;
+      }
+
+      case 'routes': {
+        const routes = queue.routeVisits({ state: getArg(args, 'state') });
+        if (routes.length === 0) {
+          logger.info('No visits due.');
+          break;
+        }
+        for (const route of routes) {
+          console.log(`\n${route.city}${route.state ? `, ${route.state}` : ''} - ${route.stops.length} stop(s)`);
+          route.stops.forEach((stop, i) => {
+            console.log(`  ${i + 1}. ${stop.business.name} - ${stop.business.address ?? 'no street address'} (task ${stop.task.id})`);
+          });
+        }
+        break;
+      }
+
+      case 'script': {
+        const entry = queue.getTask(requireTaskId());
+        if (!entry) {
+          logger.error(`Task not found: ${taskId}`);
+          process.exitCode = 1;
+          break;
+        }
+        printEntry(entry);
+        break;
+      }
+
+      case 'outcome': {
+        const outcome = getArg(args, 'result') as OutreachTaskOutcome | undefined;
+        if (!outcome || !OUTCOMES.includes(outcome)) {
+          logger.error(`--result must be one of: ${OUTCOMES.join(', ')}`);
+          process.exitCode = 1;
+          break;
+        }
+        const at = getArg(args, 'at');
+        const task = queue.recordOutcome(requireTaskId(), {
+          outcome,
+          callbackAt: at ? new Date(at) : undefined,
+          notes: getArg(args, 'notes'),
+        });
+        logger.info(task.status === 'pending' ? `Next attempt: ${task.due_at}` : `Task ${task.status}`);
+        break;
+      }
+
+      case 'cancel':
+        logger.info(queue.cancel(requireTaskId()) ? 'Task cancelled' : 'Task not found or not pending');
+        break;
+
+      default:
+        logger.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Tasks command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
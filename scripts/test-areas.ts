@@ -0,0 +1,215 @@
+#!/usr/bin/env tsx
+/**
+ * Search Area Test Script
+ * Resolves county, ZIP and GeoJSON polygon areas and checks discovery is clipped to them
+ *
+ * Usage:
+ *   npm run test:areas
+ *
+ * Uses its own test database, a local TIGERweb stand-in, a stand-in Places
+ * client and the fixture files in scripts/fixtures/areas; no network access needed.
+ */
+
+import { rmSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { db } from '../src/database/index.js';
+import {
+  boundingCircle,
+  BusinessCategory,
+  describeSearchArea,
+  DiscoveryService,
+  GeoPolygon,
+  GooglePlacesClient,
+  GooglePlacesSource,
+  loadAreaFile,
+  parseGeoJsonBoundary,
+  PlacesBusinessResult,
+  pointInBoundary,
+  resolveSearchArea,
+  SearchCircle,
+  searchAreasFromFlags,
+  TigerWebClient,
+} from '../src/modules/discovery/index.js';
+import { distanceKm } from '../src/utils/index.js';
+import { startLocalTigerWebServer } from './helpers/local-tigerweb-server.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-areas.db';
+const TERRITORY_FILE = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'areas', 'territory.geojson');
+const KM_PER_MILE = 1.609344;
+
+// An L-shaped county: a square with its northeast quarter cut out
+const BENTON: GeoPolygon[] = [[[
+  [-89.3, 34.6], [-89.0, 34.6], [-89.0, 34.75], [-89.15, 34.75], [-89.15, 34.9], [-89.3, 34.9], [-89.3, 34.6],
+]]];
+const ZIP_38603: GeoPolygon[] = [[[
+  [-89.2, 34.8], [-89.17, 34.8], [-89.17, 34.83], [-89.2, 34.83], [-89.2, 34.8],
+]]];
+
+// Deterministic pseudo-random numbers so runs are repeatable
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+/**
+ * Answers Nearby Search like the real API: places within the radius, in a
+ * fixed order, cut off at the requested maximum (at most 60).
+ */
+class StandInPlacesClient extends GooglePlacesClient {
+  searches: SearchCircle[] = [];
+
+  constructor(private places: PlacesBusinessResult[]) {
+    super();
+  }
+
+  override isInMockMode(): boolean {
+    return false;
+  }
+
+  override async geocodeCity(): Promise<{ lat: number; lng: number } | null> {
+    throw new Error('bounded areas should not be geocoded');
+  }
+
+  override async searchBusinesses(area: SearchCircle, _category: BusinessCategory, maxResults = 20): Promise<PlacesBusinessResult[]> {
+    this.searches.push(area);
+    const center = { latitude: area.latitude!, longitude: area.longitude! };
+    return this.places
+      .filter((place) => distanceKm(center, { latitude: place.geometry!.lat, longitude: place.geometry!.lng }) <= area.radiusMiles * KM_PER_MILE)
+      .slice(0, Math.min(maxResults, 60));
+  }
+
+  override async getPlaceDetailsBatch(placeIds: string[]): Promise<PlacesBusinessResult[]> {
+    return placeIds.map((id) => ({ ...this.places.find((place) => place.place_id === id)! }));
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('SEARCH AREA TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  const tigerWeb = await startLocalTigerWebServer([
+    { layer: TigerWebClient.COUNTY_LAYER, basename: 'Benton', state: '28', boundary: BENTON },
+    { layer: TigerWebClient.COUNTY_LAYER, basename: 'Benton', state: '47', boundary: ZIP_38603 },
+    { layer: TigerWebClient.ZCTA_LAYER, basename: '38603', boundary: ZIP_38603 },
+  ]);
+
+  try {
+    // 1. Geometry
+    console.log('\n--- GEOMETRY ---');
+    const territory = loadAreaFile(TERRITORY_FILE);
+    assert(territory.name === 'Downtown Territory' && territory.state === 'MS', 'the name and state should come from feature properties');
+    assert(pointInBoundary(34.24, -88.73, territory.boundary), 'points inside the polygon should be in the area');
+    assert(!pointInBoundary(34.255, -88.705, territory.boundary), 'points in a hole should be outside the area');
+    assert(!pointInBoundary(34.3, -88.73, territory.boundary), 'points beyond the polygon should be outside the area');
+    assert(!pointInBoundary(34.85, -89.05, BENTON) && pointInBoundary(34.85, -89.25, BENTON), 'the cut-out corner should be outside the county');
+
+    const circle = boundingCircle(BENTON);
+    assert(Math.abs(circle.latitude - 34.75) < 1e-9 && Math.abs(circle.longitude + 89.15) < 1e-9, 'the circle should be centered on the bounding box');
+    const corners = BENTON[0]![0]!.map(([lon, lat]) => distanceKm(circle, { latitude: lat, longitude: lon }) / KM_PER_MILE);
+    assert(corners.every((miles) => miles <= circle.radiusMiles + 1e-9), 'the circle should enclose every vertex');
+
+    const multi = parseGeoJsonBoundary({ type: 'Feature', properties: { name: 'Two Parts' }, geometry: { type: 'MultiPolygon', coordinates: [BENTON[0], ZIP_38603[0]] } });
+    assert(multi.boundary.length === 2 && multi.properties['name'] === 'Two Parts', 'MultiPolygon features should keep every part');
+    assert(parseGeoJsonBoundary({ type: 'Polygon', coordinates: BENTON[0] }).boundary.length === 1, 'bare geometries should parse');
+    let rejected = false;
+    try {
+      parseGeoJsonBoundary({ type: 'Feature', geometry: { type: 'Point', coordinates: [-89, 34] } });
+    } catch {
+      rejected = true;
+    }
+    assert(rejected, 'GeoJSON without a polygon should be rejected');
+    console.log('Geometry OK');
+
+    // 2. Flags and names
+    console.log('\n--- FLAGS ---');
+    const flagged = searchAreasFromFlags({ county: 'Benton, "Marshall County"', zip: '38603', areaFile: TERRITORY_FILE });
+    console.log(flagged.map(describeSearchArea).join(' | '));
+    assert(
+      flagged.map(describeSearchArea).join(' | ') === 'Benton County, MS | Marshall County, MS | ZIP 38603 | Downtown Territory',
+      'counties, ZIPs and area files should each become an area'
+    );
+    assert(searchAreasFromFlags({ county: 'Benton', state: 'tn' })[0]!.state === 'TN', 'the state flag should apply to counties');
+    assert(describeSearchArea({ city: 'Tupelo', state: 'MS', radiusMiles: 10 }) === 'Tupelo, MS', 'cities should be named as before');
+    assert(describeSearchArea({ kind: 'county', county: 'Orleans Parish', state: 'LA' }) === 'Orleans Parish, LA', 'parishes should keep their suffix');
+    console.log('Flags OK');
+
+    // 3. Boundaries from TIGERweb
+    console.log('\n--- RESOLUTION ---');
+    const client = new TigerWebClient(tigerWeb.url);
+    const county = await resolveSearchArea({ kind: 'county', county: 'Benton County', state: 'MS' }, client);
+    assert(county && county.kind === 'county' && county.county === 'Benton' && county.label === 'Benton County, MS', 'the county should resolve with its name');
+    assert(county.boundary?.[0]?.[0]?.length === 7, 'the county should get the Mississippi boundary, not Tennessee\'s');
+    assert(county.radiusMiles >= circle.radiusMiles && county.latitude === circle.latitude, 'the county should be searched from its bounding circle');
+    assert(tigerWeb.queries[0] === "STATE='28' AND UPPER(BASENAME)='BENTON'", 'counties should be looked up by state FIPS and name');
+
+    const zip = await resolveSearchArea({ kind: 'zip', zip: '38603', state: 'MS' }, client);
+    assert(zip?.kind === 'zip' && zip.radiusMiles < 2 && zip.county === undefined, 'ZIPs should resolve to a small area');
+    assert(await resolveSearchArea({ kind: 'county', county: 'Nowhere', state: 'MS' }, client) === null, 'unknown counties should not resolve');
+    const polygon = await resolveSearchArea(territory, client);
+    assert(polygon?.boundary === territory.boundary && tigerWeb.queries.length === 3, 'polygons should not need TIGERweb');
+    console.log('Resolution OK');
+
+    // 4. Discovery clipped to the county
+    console.log('\n--- CLIPPED DISCOVERY ---');
+    const rand = random(11);
+    const places: PlacesBusinessResult[] = [];
+    for (let i = 0; i < 300; i++) {
+      const lat = 34.55 + 0.4 * rand();
+      const lng = -89.35 + 0.4 * rand();
+      places.push({ place_id: `place-${i}`, name: `Place ${i}`, formatted_address: '', geometry: { lat, lng }, business_status: 'OPERATIONAL' });
+    }
+    const inside = places.filter((place) => pointInBoundary(place.geometry!.lat, place.geometry!.lng, BENTON));
+    assert(inside.length > 100 && inside.length < 250, 'the sample should straddle the county line');
+
+    const standIn = new StandInPlacesClient(places);
+    const direct = await new GooglePlacesSource(standIn).findBusinesses(county, BusinessCategory.RESTAURANT, 60);
+    console.log(JSON.stringify(direct.coverage));
+    assert(direct.places.length === inside.length, `every place in the county should be found (got ${direct.places.length} of ${inside.length})`);
+    assert(direct.places.every((place) => pointInBoundary(place.geometry!.lat, place.geometry!.lng, BENTON)), 'places outside the county should be dropped');
+    assert(direct.coverage.outsideArea > 0 && direct.coverage.saturatedCells === 0, 'overhang should be counted');
+    assert(direct.coverage.cells > 1, 'a county should be searched in cells even without --tile');
+    assert(!standIn.searches.some((search) => search.latitude! > 34.8 && search.longitude! > -89.05), 'cells entirely in the cut-out corner should be skipped');
+
+    process.env['TIGERWEB_URL'] = tigerWeb.url;
+    const summary = await new DiscoveryService(
+      {
+        areas: [{ kind: 'county', county: 'Benton', state: 'MS' }, { kind: 'county', county: 'Nowhere', state: 'MS' }],
+        categories: [BusinessCategory.RESTAURANT],
+        maxResultsPerSearch: 60,
+      },
+      [new GooglePlacesSource(new StandInPlacesClient(places))]
+    ).run();
+    console.log(JSON.stringify(summary.coverage));
+    assert(summary.newlySaved === inside.length && summary.byArea['Benton County, MS']?.saved === inside.length, 'the county should be counted as one area');
+    assert(summary.coverage['Benton County, MS']!.complete, 'the county search should be complete');
+    assert(!summary.coverage['Nowhere County, MS']!.complete, 'an area that could not be resolved should be reported incomplete');
+
+    const saved = db.getBusinessBySourceId('google_places', inside[0]!.place_id)!;
+    assert(saved.county === 'Benton' && saved.state === 'MS' && saved.city === null, 'businesses should get the county, not a made-up city');
+    console.log('Discovery stayed inside the county');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    delete process.env['TIGERWEB_URL'];
+    await tigerWeb.close();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
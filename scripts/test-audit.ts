@@ -0,0 +1,199 @@
+#!/usr/bin/env tsx
+/**
+ * Website Audit Test Script
+ * Checks the HTML parser and the structural/accessibility audit against
+ * hand-built pages and the mock-mode sites, and that audits are stored per website
+ *
+ * Usage:
+ *   npm run test:audit
+ *
+ * Uses its own test database; no API keys or network needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  AuditFinding,
+  auditSavedWebsite,
+  auditWebsite,
+  BusinessInfo,
+  ClaudeClient,
+  contrastRatio,
+  parseHtml,
+  WebsiteTemplate,
+} from '../src/modules/generator/index.js';
+import { getIndustryData } from '../src/modules/generator/templates/industry/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-audit.db';
+
+const PALETTE = {
+  primary: '#d4a853',
+  accent: '#8b5a2b',
+  background: '#0a0a0a',
+  surface: '#1a1a1a',
+  text: '#f5f5f5',
+  textMuted: '#a3a3a3',
+};
+
+const STRUCTURAL = ['unclosed_tag', 'stray_end_tag', 'duplicate_id', 'missing_alt', 'form_label', 'missing_lang', 'missing_viewport'];
+
+/**
+ * A page with a lang, a viewport and one <h1>, around the given body
+ */
+function page(body: string, head = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  ${head}
+</head>
+<body class="bg-white text-gray-900">
+  <h1>Fade Factory</h1>
+  ${body}
+</body>
+</html>`;
+}
+
+function checks(findings: AuditFinding[]): string {
+  return findings.map((finding) => finding.check).join(',');
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('WEBSITE AUDIT TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    // 1. Parser
+    console.log('\n--- PARSER ---');
+    const parsed = parseHtml('<div>\n<section>\n<p>One\n</div>\n</span>\n<ul><li>A<li>B</ul>\n<svg><path d="M0 0" /></svg>');
+    assert(parsed.problems.length === 2, `expected two problems, got ${JSON.stringify(parsed.problems)}`);
+    assert(parsed.problems[0]!.kind === 'unclosed' && parsed.problems[0]!.tag === 'section' && parsed.problems[0]!.line === 2 && parsed.problems[0]!.closedBy === 'div', 'an unclosed tag should be reported where it opened');
+    assert(parsed.problems[1]!.kind === 'stray_end' && parsed.problems[1]!.tag === 'span' && parsed.problems[1]!.line === 5, 'a stray end tag should be reported with its line');
+
+    const list = parsed.root.children.find((node) => node.tag === 'ul')!;
+    assert(list.children.map((node) => `${node.tag}:${node.text}`).join(',') === 'li:A,li:B', 'an <li> should close the one before it');
+    const svg = parsed.root.children.find((node) => node.tag === 'svg')!;
+    assert(svg.children.length === 1 && svg.children[0]!.children.length === 0, 'self-closed SVG tags should not swallow what follows');
+
+    const raw = parseHtml('<script>if (a < b) { document.write("<div>"); }</script><p>Hi');
+    assert(raw.problems.length === 0 && raw.root.children[0]!.text.includes('<div>'), 'script contents should be read as text');
+    assert(raw.root.children[1]!.text === 'Hi', 'an unclosed <p> is allowed');
+    console.log('Tags, implied ends and raw text OK');
+
+    // 2. A clean page
+    console.log('\n--- CLEAN PAGE ---');
+    const clean = auditWebsite(page('<h2>Services</h2><img src="/cut.jpg" alt="A skin fade"><p>Fresh fades.</p>'));
+    assert(clean.errors === 0 && clean.warnings === 0 && clean.findings.length === 0, `a clean page should have no findings: ${JSON.stringify(clean.findings)}`);
+
+    const bare = auditWebsite('<html><body><h1>Hi</h1></body></html>');
+    assert(checks(bare.findings) === 'missing_viewport,missing_lang', 'a page without lang or viewport should be flagged');
+    console.log('No findings on a clean page');
+
+    // 3. IDs, images and headings
+    console.log('\n--- IDS / IMAGES / HEADINGS ---');
+    const ids = auditWebsite(page('<section id="book"></section>\n<section id="book"></section>\n<section id="book"></section>'));
+    assert(ids.errors === 1 && ids.findings[0]!.message === 'id="book" is used 3 times', 'a repeated id should be flagged once');
+
+    const images = auditWebsite(page('<img src="/a.jpg">\n<img src="/b.jpg" alt="">\n<img src="/c.jpg" aria-hidden="true">'));
+    assert(checks(images.findings) === 'missing_alt' && images.findings[0]!.message.includes('/a.jpg'), 'only the image without alt should be flagged');
+
+    const headings = auditWebsite(page('<h2>Services</h2>\n<h4>Fades</h4>\n<h3>Beards</h3>\n<h1>Again</h1>'));
+    assert(headings.errors === 0 && headings.warnings === 2, 'heading problems should be warnings');
+    assert(headings.findings.some((finding) => finding.message === '<h4> follows <h2>, skipping a level'), 'a skipped level should be flagged');
+    assert(headings.findings.some((finding) => finding.message.startsWith('2 <h1> headings')), 'a second <h1> should be flagged');
+    assert(checks(auditWebsite(page('').replace('<h1>Fade Factory</h1>', '')).findings) === 'heading_order', 'a page without an <h1> should be flagged');
+    console.log('Duplicate IDs, alt text and headings OK');
+
+    // 4. Form labels
+    console.log('\n--- FORM LABELS ---');
+    const form = auditWebsite(page(`<form>
+  <label for="name">Name</label><input id="name" name="name">
+  <label>Phone <input name="phone" type="tel"></label>
+  <input name="email" aria-label="Email">
+  <input type="hidden" name="source"><button type="submit">Send</button>
+  <select name="service"><option>Fade</option></select>
+  <textarea name="notes"></textarea>
+</form>`));
+    assert(checks(form.findings) === 'form_label,form_label', `two unlabelled fields should be flagged: ${JSON.stringify(form.findings)}`);
+    assert(form.findings[0]!.message === '<select name="service"> has no label' && form.findings[0]!.line === 14, 'findings should name the field and its line');
+    console.log('Labels by for, wrapping and aria OK');
+
+    // 5. Contrast
+    console.log('\n--- CONTRAST ---');
+    assert(Math.abs(contrastRatio('#ffffff', '#000000') - 21) < 0.01 && contrastRatio('#777', '#777') === 1, 'contrast ratios should run from 1 to 21');
+
+    const dark = auditWebsite(page('<p>Light on dark</p><p class="text-text-muted">Muted</p><a class="bg-primary text-white">Book</a>').replace('bg-white text-gray-900', ''), { palette: PALETTE });
+    assert(checks(dark.findings) === 'color_contrast', `only the button should fail: ${JSON.stringify(dark.findings)}`);
+    assert(dark.findings[0]!.message.startsWith('Text #ffffff on #d4a853'), 'palette colors should be resolved by name');
+
+    const config = '<script>tailwind.config = { theme: { extend: { colors: { brand: { DEFAULT: "#ffeb3b", dark: "#333333" }, "cream": "#faf8f5" } } } }</script>';
+    const configured = auditWebsite(page('<p class="text-brand">Yellow</p><p class="text-brand-dark">Dark</p><p class="bg-cream text-gray-500">Gray</p>', config));
+    assert(configured.findings.length === 1 && configured.findings[0]!.message.startsWith('Text #ffeb3b on #ffffff'), `the page's own colors should be used: ${JSON.stringify(configured.findings)}`);
+
+    const sized = auditWebsite(page('<h2 class="text-3xl text-[#949494]">Big</h2><p class="text-[#949494]">Small</p><h2 class="text-4xl text-[#aaaaaa]">Too light</h2>'));
+    assert(sized.findings.length === 2 && sized.findings.every((finding) => finding.check === 'color_contrast'), 'large text should get the lower threshold');
+    assert(sized.findings.some((finding) => finding.message.endsWith('below 4.5:1 (1 element(s))')) && sized.findings.some((finding) => finding.message.includes('below 3:1')), 'each threshold should be reported');
+
+    const overlay = auditWebsite(page('<div class="bg-black/50 text-white"><p>On the overlay</p><p>And again</p></div>'));
+    assert(overlay.findings.length === 1 && overlay.findings[0]!.message.includes('on #808080') && overlay.findings[0]!.message.endsWith('(2 element(s))'), 'opacity should blend over the background, and repeats be counted');
+
+    const unknown = auditWebsite(page('<p class="text-red-500">Red</p><div class="bg-gradient-to-r from-black text-white"><p>Over a gradient</p></div><p class="text-white hover:text-black sr-only">Hidden</p>'));
+    assert(unknown.findings.length === 0, 'colors that can\'t be worked out should not be flagged');
+    console.log('Palette, tailwind.config, sizes and opacity OK');
+
+    // 6. Mock sites are well formed
+    console.log('\n--- MOCK SITES ---');
+    delete process.env['ANTHROPIC_API_KEY'];
+    delete process.env['ANTHROPIC_BASE_URL'];
+    delete process.env['HTTP_CASSETTES'];
+    const client = new ClaudeClient();
+    for (const businessType of ['Barber Shop', 'Restaurant', 'Auto Repair', 'Hair Salon', 'Florist']) {
+      for (const template of [WebsiteTemplate.SUSPENDED_DARK, WebsiteTemplate.SUSPENDED_LIGHT]) {
+        const business: BusinessInfo = { id: 'test', name: 'Test Business', businessType, category: businessType, city: 'Holly Springs', state: 'MS' };
+        const html = await client.generateWebsite(business, template);
+        const result = auditWebsite(html, { palette: getIndustryData(businessType).colorPalette });
+        const structural = result.findings.filter((finding) => STRUCTURAL.includes(finding.check));
+        assert(structural.length === 0, `the ${businessType} ${template} mock should be well formed: ${JSON.stringify(structural)}`);
+      }
+      console.log(`  ${businessType}: OK`);
+    }
+
+    // 7. Stored audits
+    console.log('\n--- STORED AUDITS ---');
+    const business = db.insertBusiness({ name: 'Fade Factory Barbershop', business_type: 'Barber Shop', city: 'Holly Springs', state: 'MS', source: 'google_places', source_id: 'FADE' });
+    const website = db.insertWebsite({ business_id: business.id, template_name: 'test', html_content: page('<img src="/a.jpg"><h3>Skip</h3>') });
+
+    const first = auditSavedWebsite(website.id)!;
+    assert(first.errors === 1 && first.warnings === 1, 'the audit should be stored with its counts');
+    const findings = JSON.parse(first.findings) as AuditFinding[];
+    assert(checks(findings) === 'missing_alt,heading_order', 'the findings should be stored as JSON');
+
+    db.updateWebsite(website.id, { html_content: page('<img src="/a.jpg" alt="A fade">') });
+    const second = auditSavedWebsite(website.id)!;
+    assert(second.errors === 0 && second.warnings === 0 && db.getWebsiteAudit(website.id)!.errors === 0, 'a re-audit should replace the earlier one');
+    assert(auditSavedWebsite('no-such-website') === null, 'an unknown website should not be audited');
+
+    db.deleteWebsite(website.id);
+    assert(db.getWebsiteAudit(website.id) === null, 'the audit should go with its website');
+    console.log('Saved, replaced and removed with the website');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
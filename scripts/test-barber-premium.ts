@@ -16,7 +16,7 @@ import { execSync } from 'child_process';
 import { join } from 'path';
 import type { BusinessInfo } from '../src/modules/generator/types.js';
 import { WebsiteTemplate } from '../src/modules/generator/types.js';
-import { checkWebsiteQuality } from '../src/modules/generator/templates/restaurant-premium.js';
+import { checkWebsiteQuality } from '../src/modules/generator/templates/quality/index.js';
 import { db } from '../src/database/index.js';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -121,12 +121,12 @@ async function main(): Promise<void> {
   // ── Quality check ─────────────────────────────────────────────────────────
   console.log('');
   console.log('Running quality check...');
-  const quality = checkWebsiteQuality(html);
+  const quality = checkWebsiteQuality(html, 'barber_shop');
 
   if (quality.passed) {
-    console.log('  PASSED — no hard failures detected');
+    console.log(`  PASSED — no hard failures detected (score ${quality.score}/100)`);
   } else {
-    console.log(`  FAILED — ${quality.issues.length} issue(s):`);
+    console.log(`  FAILED — ${quality.issues.length} issue(s), score ${quality.score}/100:`);
     for (const issue of quality.issues) {
       console.log(`    ✗ ${issue}`);
     }
@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+/**
+ * Campaign Test Script
+ * Checks campaign enrollment and status changes, and runs the scheduler
+ * through a local SMTP stand-in: sending hours, the daily cap, retries of
+ * temporary failures and completion
+ *
+ * Usage:
+ *   npm run test:campaigns
+ *
+ * Uses its own test database and never talks to a real mail server.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  CampaignScheduler,
+  CampaignService,
+  DEFAULT_TEMPLATE,
+  EmailRecipient,
+  InvalidCampaignTransitionError,
+  isTransientSendError,
+  OutreachService,
+  SmtpClient,
+  startOfLocalDay,
+  SuppressionService,
+} from '../src/modules/outreach/index.js';
+import { startLocalSmtpServer } from './helpers/local-smtp-server.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-campaigns.db';
+const HOUR = 60 * 60_000;
+
+function recipient(name: string, email: string): EmailRecipient {
+  const business = db.insertBusiness({ name, city: 'Oxford', state: 'MS', source: 'ms_sos', source_id: `CAMPAIGN-${email}` });
+  return { businessId: business.id, email, name, websitePreviewUrl: 'https://example.test' };
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('CAMPAIGN TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  const smtp = await startLocalSmtpServer({ rejectRecipients: ['gone@example.com'], deferRecipients: ['busy@example.com'] });
+  const client = new SmtpClient({ host: '127.0.0.1', port: smtp.port, secure: false, from: 'outreach@example.com' });
+  const outreach = new OutreachService(client);
+  const campaigns = new CampaignService();
+  const scheduler = new CampaignScheduler(outreach, { sendDelayMs: 0, retryDelayMs: 60_000, maxSendAttempts: 3 });
+
+  try {
+    const template = outreach.createTemplate({ ...DEFAULT_TEMPLATE, physicalAddress: '123 Main St, Oxford, MS 38655' });
+    assert(template, 'template should be created');
+
+    // 1. Days and error kinds
+    console.log('\n--- HELPERS ---');
+    const chicagoDay = startOfLocalDay('America/Chicago', new Date('2026-03-10T04:30:00Z'));
+    assert(chicagoDay.toISOString() === '2026-03-09T05:00:00.000Z', `11:30pm in Chicago is still the 9th: ${chicagoDay.toISOString()}`);
+    assert(startOfLocalDay('Asia/Tokyo', new Date('2026-03-10T04:30:00Z')).toISOString() === '2026-03-09T15:00:00.000Z', 'Tokyo is already on the 10th');
+    assert(startOfLocalDay('America/New_York', new Date('2026-03-08T20:00:00Z')).toISOString() === '2026-03-08T05:00:00.000Z', 'a DST start day began on standard time');
+    assert(startOfLocalDay('America/New_York', new Date('2026-11-01T20:00:00Z')).toISOString() === '2026-11-01T04:00:00.000Z', 'a DST end day began on daylight time');
+
+    assert(isTransientSendError({ code: 'EENVELOPE', responseCode: 451 }), 'a 4xx reply should be temporary');
+    assert(!isTransientSendError({ code: 'EENVELOPE', responseCode: 550 }), 'a 5xx reply should be permanent');
+    assert(isTransientSendError({ code: 'ESOCKET' }) && isTransientSendError({ code: 'ECONNECTION' }), 'connection failures should be temporary');
+    assert(!isTransientSendError(new Error('Template exploded')), 'other errors should be permanent');
+    console.log('Local midnights and temporary errors OK');
+
+    // 2. Creating and enrolling
+    console.log('\n--- ENROLLMENT ---');
+    const marcus = recipient("Marcus's Barber Shop", 'marcus@example.com');
+    const dana = recipient('Dana Nails', 'dana@example.com');
+    const blocked = recipient('Blocked Bakery', 'blocked@example.com');
+    new SuppressionService().suppress(blocked.email, 'manual');
+
+    const campaign = campaigns.createCampaign({ name: 'March launch', templateId: template.id, timezone: 'America/Los_Angeles' });
+    assert(campaign.status === 'draft' && campaign.timezone === 'America/Los_Angeles' && campaign.dailyCap === 50, 'a new campaign should be a draft with defaults');
+    assert(campaigns.addRecipients(campaign.id, [marcus, dana, blocked]) === 2, 'the suppressed address should be skipped');
+    assert(campaigns.addRecipients(campaign.id, [marcus]) === 0, 'a business should only be queued once per campaign');
+    assert(campaigns.getCampaign(campaign.id)!.queuedCount === 2, 'two recipients should be queued');
+
+    for (const bad of [{ dailyCap: 0 }, { sendWindowStart: 18, sendWindowEnd: 9 }, { timezone: 'Mars/Olympus' }, { templateId: 'missing' }]) {
+      let threw = false;
+      try {
+        campaigns.createCampaign({ name: 'Bad', templateId: template.id, ...bad });
+      } catch {
+        threw = true;
+      }
+      assert(threw, `createCampaign should reject ${JSON.stringify(bad)}`);
+    }
+    console.log('Duplicates, suppressed addresses and bad settings rejected');
+
+    // 3. Status changes
+    console.log('\n--- STATUS ---');
+    let rejected: unknown = null;
+    try {
+      campaigns.pause(campaign.id);
+    } catch (error) {
+      rejected = error;
+    }
+    assert(rejected instanceof InvalidCampaignTransitionError && rejected.from === 'draft' && rejected.to === 'paused', 'a draft cannot be paused');
+    assert((await scheduler.tick()).sent === 0, 'drafts should not send');
+
+    assert(campaigns.activate(campaign.id).status === 'active', 'draft -> active');
+    assert(campaigns.pause(campaign.id).status === 'paused', 'active -> paused');
+    assert((await scheduler.tick()).sent === 0, 'paused campaigns should not send');
+    assert(campaigns.activate(campaign.id).status === 'active', 'paused -> active');
+    console.log('draft -> active <-> paused');
+
+    // 4. Sending hours are the recipient's local time
+    console.log('\n--- SENDING HOURS ---');
+    const night = new Date('2026-03-10T08:00:00Z'); // 3am in Mississippi
+    const deferred = await scheduler.tick(night);
+    assert(deferred.sent === 0 && deferred.deferred === 2, 'nobody should be emailed at night');
+
+    const morning = new Date(Date.now() - (Date.now() % (24 * HOUR)) + 15 * HOUR); // 9 or 10am in Mississippi
+    const sent = await scheduler.tick(morning);
+    assert(sent.sent === 2 && smtp.messages.length === 2, `both recipients should be emailed in the morning: ${JSON.stringify(sent)}`);
+    assert(sent.completed.length === 0, 'the campaign finishes on the pass after its queue empties');
+
+    const done = await scheduler.tick(morning);
+    assert(done.completed.includes(campaign.id) && campaigns.getCampaign(campaign.id)!.status === 'completed', 'an empty queue should complete the campaign');
+    let addedLate = true;
+    try {
+      campaigns.addRecipients(campaign.id, [recipient('Late Lounge', 'late@example.com')]);
+    } catch {
+      addedLate = false;
+    }
+    assert(!addedLate, 'a completed campaign should not take recipients');
+    console.log('Deferred at night, sent in the morning, then completed');
+
+    // 5. Daily cap counts the campaign's own calendar day
+    console.log('\n--- DAILY CAP ---');
+    const capped = campaigns.createCampaign({ name: 'Capped', templateId: template.id, dailyCap: 1, sendWindowStart: 0, sendWindowEnd: 24, timezone: 'Asia/Tokyo' });
+    campaigns.addRecipients(capped.id, [recipient('First Florist', 'first@example.com'), recipient('Second Salon', 'second@example.com')]);
+    campaigns.activate(capped.id);
+
+    const today = await scheduler.tick();
+    assert(today.sent === 1 && today.capped.includes(capped.id), 'the cap should stop the second send');
+    assert((await scheduler.tick()).sent === 0, 'the cap should hold for the rest of the day');
+
+    const tokyoTomorrow = new Date(startOfLocalDay('Asia/Tokyo').getTime() + 24 * HOUR + 60_000);
+    const tomorrow = await scheduler.tick(tokyoTomorrow);
+    assert(tomorrow.sent === 1, 'the cap should reset at midnight in the campaign timezone');
+    console.log('One send per Tokyo day');
+
+    // 6. Temporary failures are retried with backoff, permanent ones are not
+    console.log('\n--- RETRIES ---');
+    const retry = campaigns.createCampaign({ name: 'Retry', templateId: template.id, sendWindowStart: 0, sendWindowEnd: 24 });
+    campaigns.addRecipients(retry.id, [recipient('Busy Bistro', 'busy@example.com'), recipient('Gone Garage', 'gone@example.com')]);
+    campaigns.activate(retry.id);
+
+    const start = new Date();
+    const first = await scheduler.tick(start);
+    assert(first.retrying === 1 && first.failed === 1, `the 451 should be retried and the 550 failed: ${JSON.stringify(first)}`);
+    const [busy] = db.getQueuedCampaignRecipients(retry.id);
+    assert(busy?.email === 'busy@example.com' && busy.attempts === 1, 'the deferred recipient should stay queued');
+    assert(busy.next_attempt_at === new Date(start.getTime() + 60_000).toISOString(), 'the first retry should wait retryDelayMs');
+
+    assert((await scheduler.tick(new Date(start.getTime() + 30_000))).deferred === 1, 'no retry before the backoff is over');
+    const second = await scheduler.tick(new Date(start.getTime() + 60_000));
+    assert(second.retrying === 1, 'the second attempt should fail temporarily too');
+    const waiting = db.getQueuedCampaignRecipients(retry.id)[0]!;
+    assert(waiting.attempts === 2 && waiting.next_attempt_at === new Date(start.getTime() + 3 * 60_000).toISOString(), 'the backoff should double');
+
+    smtp.deferRecipients.clear();
+    const third = await scheduler.tick(new Date(start.getTime() + 3 * 60_000));
+    assert(third.sent === 1 && db.getQueuedCampaignRecipients(retry.id).length === 0, 'the recipient should be sent to once the server recovers');
+    console.log('451 retried after 1 and 2 minutes, then delivered');
+
+    const offline = campaigns.createCampaign({ name: 'Offline', templateId: template.id, sendWindowStart: 0, sendWindowEnd: 24 });
+    campaigns.addRecipients(offline.id, [recipient('Quiet Cafe', 'quiet@example.com')]);
+    campaigns.activate(offline.id);
+    await smtp.close();
+
+    let at = Date.now();
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const pass = await scheduler.tick(new Date(at));
+      assert(attempt < 3 ? pass.retrying === 1 : pass.failed === 1, `attempt ${attempt}: ${JSON.stringify(pass)}`);
+      at += 10 * 60_000;
+    }
+    const counts = campaigns.getCampaign(offline.id)!;
+    assert(counts.queuedCount === 0 && counts.failedCount === 1, 'the recipient should fail after maxSendAttempts');
+    console.log('Unreachable server given up on after 3 attempts');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    await smtp.close();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+/**
+ * HTTP Cassette Test Script
+ * Replays the recorded Places, Vercel, Claude and Gemini cassettes through the real clients,
+ * and records a local Places stand-in to check what gets written
+ *
+ * Usage:
+ *   npm run test:cassettes
+ *
+ * Uses its own test database and the cassettes in scripts/fixtures/cassettes; no API keys
+ * or network needed.
+ */
+
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import { VercelClient } from '../src/modules/deployment/index.js';
+import {
+  BusinessCategory,
+  DiscoveryService,
+  GooglePlacesClient,
+  GooglePlacesSource,
+} from '../src/modules/discovery/index.js';
+import { BusinessInfo, ClaudeClient, GeminiClient, WebsiteTemplate } from '../src/modules/generator/index.js';
+import { CassetteFile, CassetteMissError, httpCassettes } from '../src/utils/cassettes.js';
+import { startLocalPlacesServer } from './helpers/local-places-server.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-cassettes.db';
+const FIXTURE_DIR = './scripts/fixtures/cassettes';
+const RECORD_DIR = './data/test-cassettes';
+const AREA = { city: 'Holly Springs', state: 'MS', radiusMiles: 10 };
+
+const FADE_FACTORY: BusinessInfo = {
+  id: 'test',
+  name: 'Fade Factory Barbershop',
+  businessType: 'Barber Shop',
+  category: BusinessCategory.BARBER_SHOP,
+  city: 'Holly Springs',
+  state: 'MS',
+  phone: '(662) 555-0140',
+  address: '150 East Van Dorn Avenue',
+};
+
+function readCassette(name: string): CassetteFile {
+  return JSON.parse(readFileSync(`${RECORD_DIR}/${name}.json`, 'utf-8')) as CassetteFile;
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('HTTP CASSETTE TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  rmSync(RECORD_DIR, { recursive: true, force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  for (const key of ['GOOGLE_PLACES_API_KEY', 'VERCEL_TOKEN', 'VERCEL_TEAM_ID', 'ANTHROPIC_API_KEY', 'ANTHROPIC_BASE_URL', 'GEMINI_API_KEY', 'GOOGLE_MAPS_API_URL']) {
+    delete process.env[key];
+  }
+  const liveFetch = globalThis.fetch;
+
+  try {
+    // 1. Replaying the recorded cassettes, with the network off limits
+    console.log('\n--- REPLAY ---');
+    process.env['HTTP_CASSETTES'] = 'replay';
+    process.env['HTTP_CASSETTE_DIR'] = FIXTURE_DIR;
+    globalThis.fetch = () => Promise.reject(new Error('replays should not use the network'));
+
+    const places = new GooglePlacesClient();
+    assert(!places.isInMockMode(), 'replaying clients should not need an API key');
+    const summary = await new DiscoveryService(
+      { areas: [AREA], categories: [BusinessCategory.BARBER_SHOP], maxResultsPerSearch: 20 },
+      [new GooglePlacesSource(places)]
+    ).run();
+    console.log(JSON.stringify(summary.spend));
+    assert(summary.totalFound === 8 && summary.withoutWebsite === 5 && summary.newlySaved === 5, 'discovery should replay the recorded search');
+    assert(summary.spend.calls === 10 && summary.spend.costUsd === 0, 'replayed requests should cost nothing');
+
+    const placeId = await places.findPlaceId('Fade Factory Barbershop', '150 East Van Dorn Avenue, Holly Springs, MS');
+    const fade = db.getBusinessBySourceId('google_places', placeId!)!;
+    assert(fade.name === 'Fade Factory Barbershop' && fade.phone === '(662) 555-0140', 'recorded details should be saved');
+    assert(fade.rating === 4.8 && db.getBusinessReviews(fade.id).length === 3, 'ratings and reviews should come through');
+
+    const claudeHtml = await new ClaudeClient().generateWebsite(FADE_FACTORY, WebsiteTemplate.SUSPENDED_DARK);
+    assert(claudeHtml.startsWith('<!DOCTYPE html>') && claudeHtml.includes('Fade Factory Barbershop'), 'Claude should replay the recorded site');
+    const geminiHtml = await new GeminiClient().generateWebsite(FADE_FACTORY, WebsiteTemplate.SUSPENDED_DARK);
+    assert(geminiHtml === claudeHtml, 'Gemini should replay the same site, without its code fences');
+    const otherHtml = await new ClaudeClient().generateWebsite({ ...FADE_FACTORY, name: 'Another Shop' }, WebsiteTemplate.SUSPENDED_DARK);
+    assert(otherHtml === claudeHtml, 'a different prompt should get the recorded site');
+    console.log(`Replayed a ${claudeHtml.length} character site`);
+
+    const vercel = new VercelClient();
+    const project = await vercel.createProject('Fade Factory Barbershop', 1);
+    assert(project.projectId.startsWith('prj_'), 'project creation should replay');
+    const deployed = await vercel.deployWebsite(project.name, claudeHtml, 'Fade Factory Barbershop');
+    assert(deployed.success && deployed.url.endsWith('.vercel.app'), 'the deployment should replay through to READY');
+
+    const prod = await vercel.ensureProject('fadefactorybarbershop-com-prod');
+    const existing = await vercel.ensureProject('fadefactorybarbershop-com-prod');
+    assert(existing.projectId === prod.projectId, 'the recorded conflict should fall back to fetching the project');
+    const domain = await vercel.addDomain(prod.name, 'fadefactorybarbershop.com');
+    assert(!domain.verified && domain.verification[0]?.type === 'TXT', 'domain verification records should replay');
+
+    let missed: unknown = null;
+    try {
+      await vercel.getDeploymentStatus('dpl_never_recorded');
+    } catch (error) {
+      missed = error;
+    }
+    assert(missed instanceof CassetteMissError && missed.cassette === 'vercel', 'unrecorded requests should fail');
+    globalThis.fetch = liveFetch;
+    console.log('All four clients replayed');
+
+    // 2. Recording through axios, against a local Places stand-in
+    console.log('\n--- RECORD ---');
+    process.env['HTTP_CASSETTES'] = 'record';
+    process.env['HTTP_CASSETTE_DIR'] = RECORD_DIR;
+    process.env['GOOGLE_PLACES_API_KEY'] = 'test-key';
+    process.env['PLACES_CACHE'] = 'off';
+
+    const server = await startLocalPlacesServer(
+      Array.from({ length: 25 }, (_, i) => ({ place_id: `P${i}`, name: `Place ${i}`, lat: 34.25 + i * 0.001, lng: -88.7 })),
+      { lat: 34.2576, lng: -88.7034 }
+    );
+    const circle = { city: 'Tupelo', state: 'MS', latitude: 34.2576, longitude: -88.7034, radiusMiles: 5 };
+    let recorded: Awaited<ReturnType<GooglePlacesClient['searchBusinesses']>>;
+    try {
+      const recorder = new GooglePlacesClient(server.url);
+      assert((await recorder.geocodeCity('Tupelo', 'MS'))?.lat === 34.2576, 'recording should pass requests through');
+      recorded = await recorder.searchBusinesses(circle, BusinessCategory.RESTAURANT, 25);
+      assert(await recorder.getPlaceDetails('missing') === null, 'error responses should pass through');
+    } finally {
+      await server.close();
+    }
+
+    const file = readCassette('google-places');
+    const raw = readFileSync(`${RECORD_DIR}/google-places.json`, 'utf-8');
+    assert(file.interactions.length === 4, 'every request should be recorded');
+    assert(!raw.includes('test-key') && file.interactions.every((i) => i.request.url.includes('key=REDACTED')), 'API keys should be redacted');
+    assert(file.interactions.some((i) => i.request.url.includes('pagetoken=page-20')), 'page requests should be recorded');
+    assert((file.interactions[3]!.response.body as { status: string }).status === 'NOT_FOUND', 'response bodies should be stored as JSON');
+
+    process.env['HTTP_CASSETTES'] = 'replay';
+    delete process.env['GOOGLE_PLACES_API_KEY'];
+    const replayer = new GooglePlacesClient(server.url);
+    const replayed = await replayer.searchBusinesses(circle, BusinessCategory.RESTAURANT, 25);
+    assert(JSON.stringify(replayed) === JSON.stringify(recorded), 'a recording should replay with the server gone');
+    console.log(`Recorded and replayed ${file.interactions.length} Places requests`);
+
+    // 3. Recording through fetch: secrets, repeats and errors
+    console.log('\n--- FETCH ---');
+    process.env['HTTP_CASSETTES'] = 'record';
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test-secret';
+    let polls = 0;
+    const stub = ((_input: string | URL | Request, init?: RequestInit) => {
+      polls++;
+      const failing = String(init?.body ?? '').includes('fail');
+      return Promise.resolve(new Response(
+        JSON.stringify({ poll: polls, echoed: 'sk-ant-test-secret' }),
+        { status: failing ? 500 : 200, headers: { 'content-type': 'application/json', 'set-cookie': 'session=abc' } }
+      ));
+    }) as typeof fetch;
+
+    const recordFetch = httpCassettes.fetch('stub', stub);
+    const post = { method: 'POST', body: JSON.stringify({ prompt: 'hello' }) };
+    await recordFetch('https://api.example.com/v1/poll?token=abc', post);
+    await recordFetch('https://api.example.com/v1/poll?token=abc', post);
+    assert((await recordFetch('https://api.example.com/v1/poll?token=abc', { method: 'POST', body: 'fail' })).status === 500, 'errors should pass through');
+
+    const stubFile = readFileSync(`${RECORD_DIR}/stub.json`, 'utf-8');
+    assert(!stubFile.includes('sk-ant-test-secret') && !stubFile.includes('token=abc'), 'secrets in URLs and responses should be redacted');
+    assert(!stubFile.includes('set-cookie') && !stubFile.includes('"prompt"'), 'only the content type and a body hash should be kept');
+
+    process.env['HTTP_CASSETTES'] = 'replay';
+    const replayFetch = httpCassettes.fetch('stub', () => Promise.reject(new Error('replays should not use the network')));
+    const first = await (await replayFetch('https://api.example.com/v1/poll?token=xyz', post)).json() as { poll: number; echoed: string };
+    const second = await (await replayFetch('https://api.example.com/v1/poll?token=xyz', post)).json() as { poll: number };
+    const third = await (await replayFetch('https://api.example.com/v1/poll?token=xyz', post)).json() as { poll: number };
+    assert(first.poll === 1 && second.poll === 2 && third.poll === 2, 'repeated requests should replay in order, then repeat the last');
+    assert(first.echoed === 'REDACTED', 'echoed secrets should be replaced');
+    assert((await replayFetch('https://api.example.com/v1/poll?token=xyz', { method: 'POST', body: 'fail' })).status === 500, 'error responses should replay');
+
+    delete process.env['HTTP_CASSETTES'];
+    assert(httpCassettes.credential(undefined) === null, 'without cassettes a missing key should mean mock mode');
+    assert(!existsSync(`${RECORD_DIR}/claude.json`), 'cassettes should only be written while recording');
+    console.log('Fetch recording OK');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    globalThis.fetch = liveFetch;
+    db.close();
+    rmSync(RECORD_DIR, { recursive: true, force: true });
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
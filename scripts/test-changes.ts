@@ -0,0 +1,169 @@
+#!/usr/bin/env tsx
+/**
+ * Discovery Change Detection Test Script
+ * Runs discovery repeatedly over a changing set of places and checks what each run flags
+ *
+ * Usage:
+ *   npm run test:changes
+ *
+ * Uses its own test database and a stand-in discovery source; no API keys needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  BusinessCategory,
+  detectPlaceChanges,
+  DiscoveryResults,
+  DiscoveryService,
+  DiscoverySource,
+  PlacesBusinessResult,
+  ResolvedSearchArea,
+} from '../src/modules/discovery/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-changes.db';
+const AREA = { city: 'Holly Springs', state: 'MS', radiusMiles: 10 };
+
+/**
+ * Returns whatever places it currently holds, so a test can change them between runs
+ */
+class StandInSource implements DiscoverySource {
+  readonly name = 'google_places';
+  readonly label = 'Stand-in Places';
+  places = new Map<string, PlacesBusinessResult>();
+
+  isInMockMode(): boolean {
+    return false;
+  }
+
+  async findBusinesses(_area: ResolvedSearchArea, _category: BusinessCategory): Promise<DiscoveryResults> {
+    return {
+      places: [...this.places.values()].map((place) => ({ ...place })),
+      coverage: { searches: 1, cells: 1, saturatedCells: 0, duplicates: 0, outsideArea: 0 },
+    };
+  }
+
+  set(id: string, fields: Partial<PlacesBusinessResult>): void {
+    const existing = this.places.get(id);
+    this.places.set(id, {
+      place_id: id,
+      name: `Place ${id}`,
+      formatted_address: '',
+      business_status: 'OPERATIONAL',
+      ...existing,
+      ...fields,
+    });
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('CHANGE DETECTION TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    // 1. Comparing snapshots
+    console.log('\n--- DETECTION ---');
+    const base = { name: 'Fade Masters', address: '150 East Van Dorn Avenue', phone: '(662) 555-0140', website: null, business_status: 'OPERATIONAL' };
+    assert(detectPlaceChanges(null, base, false).length === 0, 'places on a first search should not be flagged as new');
+    assert(detectPlaceChanges(null, base, true)[0]?.type === 'new_place', 'places missing from an earlier search should be new');
+    assert(detectPlaceChanges(null, { ...base, business_status: 'CLOSED_PERMANENTLY' }, true).length === 0, 'places that appear already closed are not new');
+    assert(detectPlaceChanges(base, { ...base, address: '150 E Van Dorn Ave', phone: '+1 662-555-0140' }, true).length === 0, 'reformatted addresses and phones are not changes');
+    assert(detectPlaceChanges(base, { ...base, phone: null, address: null }, true).length === 0, 'missing values are not changes');
+    const types = detectPlaceChanges(base, { ...base, website: 'https://fade.example', business_status: 'CLOSED_PERMANENTLY', phone: '662-555-0199', address: '200 Market St' }, true)
+      .map((change) => change.type);
+    assert(types.join(',') === 'gained_website,closed,phone_changed,address_changed', 'every kind of change should be detected');
+    console.log('Detection OK');
+
+    // 2. A first run records everything and flags nothing
+    console.log('\n--- FIRST RUN ---');
+    const source = new StandInSource();
+    source.set('A', { name: 'Fade Masters', formatted_address: '150 E Van Dorn Ave, Holly Springs, MS' });
+    source.set('B', { name: 'Rebel Burger', formatted_address: '10 Market St, Holly Springs, MS', formatted_phone_number: '(662) 555-0101' });
+    source.set('C', { name: 'Chain Diner', formatted_address: '20 Market St, Holly Springs, MS', website: 'https://chain.example' });
+    source.set('D', { name: 'Corner Grill', formatted_address: '30 Market St, Holly Springs, MS' });
+
+    const service = new DiscoveryService(
+      { areas: [AREA], categories: [BusinessCategory.RESTAURANT, BusinessCategory.BARBER_SHOP], maxResultsPerSearch: 20 },
+      [source]
+    );
+    const first = await service.run();
+    assert(first.newlySaved === 3 && Object.values(first.changes).every((count) => count === 0), 'a first run should save without flagging changes');
+    assert(db.getPlaceSnapshot('google_places', 'C')?.website === 'https://chain.example', 'places with websites should be snapshotted too');
+    assert(JSON.parse(db.getPlaceSnapshot('google_places', 'A')!.details).name === 'Fade Masters', 'the full details should be stored');
+
+    const run = db.getDiscoveryRunById(first.runId)!;
+    assert(run.completed_at !== null && run.saved === 3 && JSON.parse(run.areas)[0] === 'Holly Springs, MS', 'the run should be recorded with its counts');
+    const searches = db.getDiscoverySearches(first.runId);
+    assert(searches.length === 2 && searches[0]!.category === BusinessCategory.RESTAURANT && searches[0]!.found === 4, 'each search should be recorded');
+    console.log('First run recorded');
+
+    // 3. A later run flags what changed and updates the businesses
+    console.log('\n--- CHANGES ---');
+    const fade = db.getBusinessBySourceId('google_places', 'A')!;
+    db.insertOutreachTasks([{ business_id: fade.id, method: 'phone' }]);
+    const grill = db.getBusinessBySourceId('google_places', 'D')!;
+    db.updateBusinessStatus(grill.id, 'contacted', { actor: 'test' });
+
+    source.set('A', { website: 'https://fademasters.example' });
+    source.set('B', { formatted_phone_number: '(662) 555-0199', formatted_address: '12 Market St, Holly Springs, MS' });
+    source.set('D', { business_status: 'CLOSED_PERMANENTLY' });
+    source.set('E', { name: 'New Nails', formatted_address: '40 Market St, Holly Springs, MS' });
+
+    const second = await service.run();
+    console.log(JSON.stringify(second.changes));
+    assert(second.changes.new_place === 1 && second.changes.gained_website === 1 && second.changes.closed === 1, 'new, website and closed changes should be counted');
+    assert(second.changes.phone_changed === 1 && second.changes.address_changed === 1, 'phone and address changes should be counted');
+    assert(second.newlySaved === 1, 'the new place should be saved');
+
+    const feed = db.getDiscoveryChanges({ runId: second.runId });
+    assert(feed.length === 5, 'each change should be flagged once, not once per category');
+    const opened = db.getDiscoveryChanges({ types: ['new_place'] });
+    assert(opened.length === 1 && opened[0]!.name === 'New Nails' && opened[0]!.business_id === db.getBusinessBySourceId('google_places', 'E')!.id, 'new places should link to their business');
+
+    const fadeNow = db.getBusinessById(fade.id)!;
+    assert(fadeNow.status === 'rejected' && fadeNow.has_website === 1 && fadeNow.website_url === 'https://fademasters.example', 'a business that gained a website should be rejected');
+    assert(db.getPendingOutreachTasks().every((task) => task.business_id !== fade.id), 'its queued calls should be cancelled');
+    assert(db.getBusinessStatusHistory(fade.id).some((change) => change.actor === 'discovery' && change.reason?.includes('website')), 'the reason should be recorded');
+    assert(db.getBusinessById(grill.id)!.status === 'lost', 'a contacted business that closed should be lost');
+
+    const burger = db.getBusinessBySourceId('google_places', 'B')!;
+    assert(burger.phone === '(662) 555-0199' && burger.address?.startsWith('12 Market St'), 'new phone numbers and addresses should be copied over');
+    console.log('Changes flagged and applied');
+
+    // 4. Nothing changed
+    console.log('\n--- QUIET RUN ---');
+    const third = await service.run();
+    assert(Object.values(third.changes).every((count) => count === 0), 'an unchanged area should flag nothing');
+    assert(db.getDiscoveryRuns().length === 3 && db.getDiscoveryRuns()[0]!.id === third.runId, 'runs should be listed newest first');
+    console.log('Quiet run flagged nothing');
+
+    // 5. Snapshots follow merged businesses
+    console.log('\n--- MERGE ---');
+    const nails = db.getBusinessBySourceId('google_places', 'E')!;
+    db.mergeBusinesses(burger.id, nails.id, { actor: 'test' });
+    assert(db.getPlaceSnapshot('google_places', 'E')!.business_id === burger.id, 'snapshots should move to the surviving business');
+    source.set('E', { formatted_phone_number: '(662) 555-0123' });
+    await service.run();
+    assert(db.getBusinessById(burger.id)!.phone === '(662) 555-0123', 'changes to a merged place should reach the survivor');
+    console.log('Merged snapshots OK');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
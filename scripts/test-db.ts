@@ -4,7 +4,7 @@
  * Tests basic CRUD operations for businesses, websites, and outreach
  */
 
-import { db } from '../src/database/index.js';
+import { db, InvalidStatusTransitionError } from '../src/database/index.js';
 
 async function main(): Promise<void> {
   console.log('='.repeat(50));
@@ -95,11 +95,70 @@ async function main(): Promise<void> {
       console.log(`    Preview: ${w.preview_url ?? 'Not deployed'}`);
     }
 
-    // Check business status was updated
-    const afterWebsite = db.getBusinessById(business.id);
+    // Inserting a website leaves the status alone; the generator moves it explicitly
+    const afterWebsite = db.updateBusinessStatus(business.id, 'website_generated', {
+      actor: 'test',
+      reason: 'Website inserted',
+    });
     console.log(`\nBusiness status after website insert: ${afterWebsite?.status}`);
 
-    // 7. Get database stats
+    // 7. Status transitions
+    console.log('\n--- STATUS TRANSITIONS ---');
+    try {
+      db.updateBusinessStatus(business.id, 'interested');
+      throw new Error('website_generated -> interested should have been rejected');
+    } catch (error) {
+      if (!(error instanceof InvalidStatusTransitionError)) throw error;
+      console.log(`Rejected: ${error.message}`);
+    }
+
+    db.updateBusinessStatus(business.id, 'archived', { actor: 'test', reason: 'Cleanup' });
+    console.log('Status history:');
+    for (const change of db.getBusinessStatusHistory(business.id)) {
+      console.log(`  ${change.changed_at} ${change.from_status ?? '(new)'} -> ${change.to_status} by ${change.actor}${change.reason ? ` (${change.reason})` : ''}`);
+    }
+
+    // 8. Places metadata and filters
+    console.log('\n--- PLACES METADATA ---');
+    const rated = db.insertBusiness({
+      name: 'Holly Springs Diner',
+      city: 'Holly Springs',
+      state: 'MS',
+      source: 'google_places',
+      source_id: 'TEST-PLACE-001',
+      rating: 4.6,
+      user_ratings_total: 87,
+      latitude: 34.7676,
+      longitude: -89.4487,
+      opening_hours: JSON.stringify(['Monday: 7:00 AM – 2:00 PM', 'Tuesday: Closed']),
+      place_types: JSON.stringify(['restaurant', 'food']),
+      place_status: 'OPERATIONAL',
+    });
+    console.log(`Rating: ${rated.rating} (${rated.user_ratings_total} reviews) at ${rated.latitude}, ${rated.longitude}`);
+    console.log(`Hours: ${rated.opening_hours}`);
+
+    const matches = db.queryBusinesses({ minRating: 4.5, minReviews: 50, placeType: 'restaurant', placeStatus: 'OPERATIONAL', hasHours: true });
+    console.log(`Filtered: ${matches.map((b) => b.name).join(', ')}`);
+    if (matches.length !== 1 || matches[0]?.id !== rated.id) {
+      throw new Error('Places filters should match only the rated restaurant');
+    }
+    if (db.queryBusinesses({ placeType: 'food_truck' }).length !== 0) {
+      throw new Error('Unknown place type should match nothing');
+    }
+
+    db.replaceBusinessReviews(rated.id, 'google_places', [
+      { author_name: 'Dana K.', rating: 4, text: 'Biscuits worth the drive.' },
+      { author_name: 'Lee M.', rating: 5, text: 'Best breakfast in town.', published_at: '2025-03-01T00:00:00.000Z' },
+    ]);
+    const reviews = db.replaceBusinessReviews(rated.id, 'google_places', [
+      { author_name: 'Lee M.', rating: 5, text: 'Best breakfast in town.' },
+    ]);
+    console.log(`Reviews: ${reviews.map((r) => `${r.author_name} (${r.rating}★)`).join(', ')}`);
+    if (reviews.length !== 1 || reviews[0]?.author_name !== 'Lee M.') {
+      throw new Error('Refreshing reviews should replace the previous set');
+    }
+
+    // 9. Get database stats
     console.log('\n--- DATABASE STATS ---');
     const stats = db.getStats();
     console.log(`Total businesses: ${stats.totalBusinesses}`);
@@ -108,13 +167,13 @@ async function main(): Promise<void> {
     console.log('By status:', stats.byStatus);
     console.log('By source:', stats.bySource);
 
-    // 8. Clean up - delete test data
+    // 10. Clean up - delete test data
     console.log('\n--- CLEANUP ---');
     const websiteDeleted = db.deleteWebsite(website.id);
     console.log(`Website deleted: ${websiteDeleted}`);
 
-    const businessDeleted = db.deleteBusiness(business.id);
-    console.log(`Business deleted: ${businessDeleted}`);
+    const businessDeleted = db.deleteBusiness(business.id) && db.deleteBusiness(rated.id);
+    console.log(`Businesses deleted: ${businessDeleted}`);
 
     // Verify cleanup
     const finalStats = db.getStats();
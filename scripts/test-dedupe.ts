@@ -0,0 +1,160 @@
+#!/usr/bin/env tsx
+/**
+ * Dedupe Test Script
+ * Checks fuzzy duplicate matching and that merging moves everything to one record
+ *
+ * Usage:
+ *   npm run test:dedupe
+ *
+ * Uses its own test database.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import type { BusinessInsert } from '../src/database/types.js';
+import {
+  DuplicateDetector,
+  dismissDuplicate,
+  mergeDuplicate,
+  nameKey,
+  normalizeAddress,
+  normalizePhone,
+} from '../src/modules/dedupe/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-dedupe.db';
+
+function business(name: string, sourceId: string, data: Partial<BusinessInsert> = {}): string {
+  return db.insertBusiness({
+    name,
+    city: 'Holly Springs',
+    state: 'MS',
+    source: 'google_places',
+    source_id: sourceId,
+    ...data,
+  }).id;
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('DEDUPE TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    // 1. Normalization
+    console.log('\n--- NORMALIZATION ---');
+    assert(nameKey("Joe's Barber Shop") === nameKey('Joes Barbershop, L.L.C.'), 'names should match without punctuation and suffixes');
+    assert(nameKey('The Corner Cafe & Grill') === nameKey('Corner Cafe and Grill Inc'), '"&" and "and" should match');
+    assert(normalizeAddress('120 North Main Street, Suite 4') === '120 n main st', 'address should be abbreviated without the unit');
+    assert(normalizeAddress('120 N. Main St #4') === '120 n main st', 'abbreviated address should match');
+    assert(normalizePhone('+1 (662) 555-0101') === '6625550101', 'phone should be ten digits');
+    assert(normalizePhone('555-0101') === null, 'short phone numbers should not match anything');
+    console.log('Names, addresses and phones normalize as expected');
+
+    // 2. Candidate pairs
+    console.log('\n--- CANDIDATES ---');
+    const original = business("Joe's Barber Shop", 'PLACE-1', {
+      address: '120 North Main Street',
+      latitude: 34.7673,
+      longitude: -89.4487,
+    });
+    const duplicate = business('Joes Barbershop LLC', 'SOS-1', {
+      source: 'manual',
+      address: '120 N Main St, Suite 4',
+      phone: '(662) 555-0101',
+      email: 'joe@example.com',
+    });
+    const branchA = business('Quick Lube', 'PLACE-2', { address: '10 Highway 7', latitude: 34.75, longitude: -89.44 });
+    const branchB = business('Quick Lube', 'PLACE-3', { address: '900 Salem Avenue', latitude: 34.79, longitude: -89.47 });
+    const sharedPhoneA = business('Main Street Tacos', 'PLACE-4', { phone: '662-555-0199' });
+    const sharedPhoneB = business('Main St Taco Shop', 'PLACE-5', { city: 'Byhalia', phone: '+1 662 555 0199' });
+    business('Holly Springs Florist', 'PLACE-6', { address: '5 Center St' });
+
+    const detector = new DuplicateDetector();
+    const candidates = detector.findCandidates();
+    for (const candidate of candidates) {
+      console.log(`${candidate.score.toFixed(2)}  ${candidate.a.name} / ${candidate.b.name}: ${candidate.reasons.join(', ')}`);
+    }
+    const pair = (x: string, y: string) => candidates.find((c) => (c.a.id === x && c.b.id === y) || (c.a.id === y && c.b.id === x));
+
+    const joes = pair(original, duplicate);
+    assert(joes && joes.score >= 0.8, 'same name and address should be a strong candidate');
+    assert(joes.suggestedSurvivorId === original, 'the older record should be suggested as the survivor');
+    assert(!pair(branchA, branchB), 'two branches of a chain at different addresses should not be candidates');
+    assert(pair(sharedPhoneA, sharedPhoneB), 'similar names sharing a phone should match across cities');
+    assert(candidates.length === 2, 'unrelated businesses should not be paired');
+
+    // 3. Matching a new place before insert
+    console.log('\n--- NEW PLACE CHECK ---');
+    const existing = detector.findExisting({ name: 'Joes Barber Shop', address: '120 Main St', city: 'holly springs', state: 'ms' });
+    assert(existing?.id === original, 'a new place with the same name should match the saved business');
+    assert(
+      detector.findExisting({ name: 'Quick Lube', address: '44 Market St', city: 'Holly Springs', state: 'MS' }) === null,
+      'a chain branch at a new address should not match'
+    );
+    console.log('New places are matched against saved businesses');
+
+    // 4. Dismissals
+    console.log('\n--- DISMISS ---');
+    dismissDuplicate(sharedPhoneB, sharedPhoneA, 'Different owners');
+    assert(!detector.findCandidates().some((c) => c.a.id === sharedPhoneA || c.b.id === sharedPhoneA), 'dismissed pairs should not be suggested again');
+    console.log('Dismissed pair is no longer suggested');
+
+    // 5. Merge
+    console.log('\n--- MERGE ---');
+    const site = db.insertWebsite({ business_id: duplicate, template_name: 'barber-premium', html_content: '<html></html>' });
+    db.updateBusinessStatus(original, 'enriched');
+    db.logOutreach({ business_id: duplicate, method: 'phone', notes: 'Left a voicemail' });
+    db.insertOutreachTasks([
+      { business_id: original, method: 'phone' },
+      { business_id: duplicate, method: 'phone' },
+      { business_id: duplicate, method: 'in_person' },
+    ]);
+
+    const result = mergeDuplicate(original, duplicate, { reason: 'Same shop' });
+    assert(db.getBusinessById(duplicate) === null, 'the duplicate should be deleted');
+    assert(db.getWebsitesByBusinessId(original).some((w) => w.id === site.id), 'websites should move to the survivor');
+    assert(db.getOutreachByBusinessId(original).length === 1, 'outreach logs should move to the survivor');
+    assert(result.moved['generated_websites'] === 1 && result.moved['outreach_log'] === 1, 'moved counts should be reported');
+
+    const tasks = db.raw().prepare("SELECT method FROM outreach_tasks WHERE business_id = ? AND status = 'pending'").all(original) as { method: string }[];
+    assert(tasks.length === 2, 'only one pending task per method should be left');
+
+    const survivor = result.survivor;
+    assert(survivor.phone === '(662) 555-0101' && survivor.email === 'joe@example.com', 'missing fields should be filled from the duplicate');
+    assert(survivor.address === '120 North Main Street', 'fields the survivor has should be kept');
+    assert(result.statusChange?.to === 'contacted' && survivor.status === 'contacted', 'the survivor should take the further status');
+    assert(survivor.lead_score !== null, 'the survivor should be rescored');
+
+    const merges = db.getBusinessMerges(original);
+    assert(merges.length === 1 && merges[0]!.merged_name === 'Joes Barbershop LLC', 'the merge should be recorded');
+    const snapshot = JSON.parse(merges[0]!.merged_snapshot) as { business: { source_id: string } };
+    assert(snapshot.business.source_id === 'SOS-1', 'the merged record should be kept in the snapshot');
+    console.log(`Merged: moved ${JSON.stringify(result.moved)}, filled ${result.filledFields.join(', ')}`);
+
+    let selfMergeFailed = false;
+    try {
+      db.mergeBusinesses(original, original);
+    } catch {
+      selfMergeFailed = true;
+    }
+    assert(selfMergeFailed, 'merging a business into itself should fail');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
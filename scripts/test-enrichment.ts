@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+/**
+ * Enrichment Test Script
+ * Runs EnrichmentService against a local Places stand-in and checks what it
+ * saves for each business
+ *
+ * Usage:
+ *   npm run test:enrichment
+ *
+ * Uses its own test database, a local Places stand-in and an offline website
+ * verifier; no API key or network needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import { GooglePlacesClient } from '../src/modules/discovery/index.js';
+import { EnrichmentService, OfflineHttpProbe, WebsiteVerifier } from '../src/modules/enrichment/index.js';
+import { startLocalPlacesServer, StandInPlace } from './helpers/local-places-server.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-enrichment.db';
+const OXFORD = { lat: 34.3665, lng: -89.5192 };
+
+const PLACES: StandInPlace[] = [
+  {
+    place_id: 'FADE',
+    name: 'Fade Factory',
+    lat: OXFORD.lat,
+    lng: OXFORD.lng,
+    formatted_phone_number: '(662) 555-0140',
+    rating: 4.7,
+    user_ratings_total: 86,
+    types: ['hair_care', 'point_of_interest', 'establishment'],
+  },
+  {
+    place_id: 'GRILL',
+    name: 'Square Grill',
+    lat: OXFORD.lat,
+    lng: OXFORD.lng,
+    website: ' https://squaregrill.example ',
+    rating: 4.2,
+    user_ratings_total: 310,
+    types: ['restaurant'],
+  },
+  {
+    place_id: 'TIRES',
+    name: 'Lafayette Tire & Lube',
+    lat: OXFORD.lat,
+    lng: OXFORD.lng,
+    rating: 3.9,
+    user_ratings_total: 12,
+    types: ['car_repair'],
+  },
+];
+
+function service(client: GooglePlacesClient, options?: { includeRatings?: boolean }): EnrichmentService {
+  return new EnrichmentService(options, client, new WebsiteVerifier({ resolvers: [], probe: new OfflineHttpProbe() }));
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('ENRICHMENT TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  const server = await startLocalPlacesServer(PLACES, OXFORD);
+  process.env['GOOGLE_PLACES_API_KEY'] = 'test-key';
+  delete process.env['HTTP_CASSETTES'];
+  delete process.env['PLACES_MONTHLY_BUDGET_USD'];
+
+  try {
+    const client = new GooglePlacesClient(server.url);
+    assert(!client.isInMockMode(), 'the client should use the stand-in, not mock data');
+
+    // 1. A Places lead without a website
+    console.log('\n--- PLACES LEAD ---');
+    const fade = db.insertBusiness({ name: 'Fade Factory', city: 'Oxford', state: 'MS', source: 'google_places', source_id: 'FADE' });
+    const enriched = await service(client).enrichBusiness(fade);
+    assert(enriched && !enriched.hasWebsite && enriched.placeId === 'FADE', 'the place should be found by its source ID');
+    assert(enriched.rating === 4.7 && enriched.reviewCount === 86, 'the result should carry the rating');
+
+    const saved = db.getBusinessById(fade.id)!;
+    assert(saved.status === 'enriched' && saved.enriched_at !== null, 'the business should be marked enriched');
+    assert(saved.phone === '(662) 555-0140' && saved.has_website === 0, 'the phone number should be saved');
+    assert(saved.rating === 4.7 && saved.user_ratings_total === 86, 'the rating and review count should be saved');
+    assert(saved.place_types === JSON.stringify(['hair_care', 'point_of_interest', 'establishment']), 'the place types should be saved');
+    assert(saved.google_place_id === 'FADE' && server.count('/place/findplacefromtext/json') === 0, 'a known place ID should skip Find Place');
+    assert(db.getLatestWebsiteVerification(fade.id)?.verdict === 'no_website', 'the lead should be verified');
+    console.log(`Saved ${saved.rating} stars, ${saved.user_ratings_total} reviews`);
+
+    // 2. A place that lists a website
+    console.log('\n--- LISTED WEBSITE ---');
+    const grill = db.insertBusiness({ name: 'Square Grill', city: 'Oxford', state: 'MS', source: 'google_places', source_id: 'GRILL' });
+    const withSite = await service(client).enrichBusiness(grill);
+    assert(withSite?.hasWebsite && withSite.websiteUrl === 'https://squaregrill.example', 'the listed website should be trimmed and reported');
+    const grillSaved = db.getBusinessById(grill.id)!;
+    assert(grillSaved.has_website === 1 && grillSaved.website_url === 'https://squaregrill.example', 'the website should be saved');
+    assert(db.getLatestWebsiteVerification(grill.id) === null, 'a listed website needs no verification');
+
+    // 3. Ratings left out when not asked for
+    console.log('\n--- WITHOUT RATINGS ---');
+    const tires = db.insertBusiness({ name: 'Lafayette Tire & Lube', city: 'Oxford', state: 'MS', source: 'ms_sos', source_id: 'SOS-1' });
+    const noRatings = await service(client, { includeRatings: false }).enrichBusiness(tires);
+    assert(noRatings?.placeId === 'TIRES' && noRatings.rating === undefined, 'the rating should be left out');
+    const tiresSaved = db.getBusinessById(tires.id)!;
+    assert(tiresSaved.rating === null && tiresSaved.user_ratings_total === null, 'no rating should be saved');
+    assert(tiresSaved.place_types === JSON.stringify(['car_repair']), 'the place types should still be saved');
+    assert(tiresSaved.google_place_id === 'TIRES' && server.count('/place/findplacefromtext/json') === 1, 'a registry lead should be matched with Find Place');
+    console.log('Registry lead matched by name');
+
+    // 4. Batches count what they found
+    console.log('\n--- BATCH ---');
+    const missing = db.insertBusiness({ name: 'Nowhere Nails', city: 'Oxford', state: 'MS', source: 'ms_sos', source_id: 'SOS-2' });
+    const summary = await service(client).enrichBatch([db.getBusinessById(fade.id)!, db.getBusinessById(grill.id)!, missing]);
+    assert(summary.totalBusinesses === 3 && summary.enriched === 2 && summary.notFound === 1, 'an unmatched business should be counted as not found');
+    assert(summary.withWebsite === 1 && summary.withoutWebsite === 1 && summary.lowConfidence === 0, 'website counts should add up');
+    assert(db.getBusinessById(missing.id)!.status === 'discovered', 'an unmatched business should stay discovered');
+    console.log(`${summary.enriched} enriched, ${summary.notFound} not found`);
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    await server.close();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
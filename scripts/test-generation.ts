@@ -0,0 +1,229 @@
+#!/usr/bin/env tsx
+/**
+ * Quality-Gated Generation Test Script
+ * Drives GeneratorService through cut-off and failing drafts, and checks how the
+ * Claude and Gemini clients ask for a continuation or a repair
+ *
+ * Usage:
+ *   npm run test:generation
+ *
+ * Uses its own test database, a scripted stand-in client and a stubbed fetch;
+ * no API keys or network needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  BusinessInfo,
+  ClaudeClient,
+  GeminiClient,
+  GenerationFeedback,
+  GeneratorService,
+  WebsiteDraft,
+  WebsiteQualityError,
+  WebsiteQualityReport,
+  WebsiteTemplate,
+} from '../src/modules/generator/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-generation.db';
+
+// A page long enough to pass the quality check, and the same page cut off halfway
+const GOOD_HTML = `<!DOCTYPE html>\n<html lang="en">\n<body>\n${'<p class="text-lg">Fresh fades, beard trims and hot towel shaves.</p>\n'.repeat(420)}</body>\n</html>`;
+const CUT_AT = GOOD_HTML.indexOf('towel', GOOD_HTML.length / 2) + 2;
+
+const BUSINESS: BusinessInfo = {
+  id: 'test',
+  name: 'Fade Factory Barbershop',
+  businessType: 'Barber Shop',
+  category: 'barber_shop',
+  city: 'Holly Springs',
+  state: 'MS',
+};
+
+/**
+ * Returns scripted drafts in order and keeps the feedback it was given
+ */
+class ScriptedClient extends ClaudeClient {
+  feedback: Array<GenerationFeedback | undefined> = [];
+
+  constructor(private drafts: WebsiteDraft[]) {
+    super();
+  }
+
+  override isInMockMode(): boolean {
+    return false;
+  }
+
+  override async generateDraft(
+    _business: BusinessInfo,
+    _template: WebsiteTemplate,
+    feedback?: GenerationFeedback
+  ): Promise<WebsiteDraft> {
+    this.feedback.push(feedback);
+    return this.drafts.shift() ?? { html: GOOD_HTML.replace('Fresh fades', 'Lorem ipsum fades'), truncated: false };
+  }
+}
+
+/**
+ * Stands in for the Claude and Gemini APIs, answering each request with the
+ * next scripted reply and keeping the request bodies
+ */
+function stubFetch(replies: unknown[], bodies: unknown[]): typeof fetch {
+  return ((_input: string | URL | Request, init?: RequestInit) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    return Promise.resolve(new Response(JSON.stringify(replies.shift()), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    }));
+  }) as typeof fetch;
+}
+
+function claudeReply(text: string, stopReason: string): unknown {
+  return {
+    id: 'msg_test',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-6',
+    content: [{ type: 'text', text }],
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 10 },
+  };
+}
+
+function geminiReply(text: string, finishReason: string): unknown {
+  return { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason, index: 0 }] };
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('QUALITY-GATED GENERATION TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  for (const key of ['ANTHROPIC_API_KEY', 'ANTHROPIC_BASE_URL', 'GEMINI_API_KEY', 'HTTP_CASSETTES', 'GENERATION_MAX_ATTEMPTS']) {
+    delete process.env[key];
+  }
+  const liveFetch = globalThis.fetch;
+
+  try {
+    // 1. A cut-off draft is continued, then repaired, then saved
+    console.log('\n--- RETRIES ---');
+    const business = db.insertBusiness({ name: 'Fade Factory Barbershop', business_type: 'Barber Shop', city: 'Holly Springs', state: 'MS', source: 'google_places', source_id: 'FADE' });
+    const client = new ScriptedClient([
+      { html: GOOD_HTML.slice(0, CUT_AT), truncated: true },
+      { html: GOOD_HTML.replace('Fresh fades', 'Lorem ipsum fades'), truncated: false },
+      { html: GOOD_HTML, truncated: false },
+    ]);
+    const service = new GeneratorService({ templatesPerBusiness: 1 }, client);
+    assert(service.getConfig().maxAttempts === 3, 'the default budget should be three attempts');
+
+    const result = await service.generateForBusiness(business);
+    assert(result.success && result.websitesGenerated === 1, 'the site should be saved once it passes');
+    assert(client.feedback[0] === undefined, 'the first attempt should start from scratch');
+    assert(client.feedback[1]?.truncated && client.feedback[1].html === GOOD_HTML.slice(0, CUT_AT), 'a cut-off draft should be sent back to continue');
+    assert(!client.feedback[2]?.truncated && client.feedback[2]?.issues.some((issue) => issue.includes('Lorem ipsum')), 'a failing draft should be sent back with its issues');
+
+    const website = db.getWebsiteById(result.websiteIds[0]!)!;
+    const report = JSON.parse(website.quality_report!) as WebsiteQualityReport;
+    console.log(report.attempts.map((a) => `${a.attempt}:${a.action}:${a.issues.length}`).join(' '));
+    assert(website.html_content === GOOD_HTML && website.generation_attempts === 3, 'the passing HTML and attempt count should be stored');
+    assert(report.passed && report.issues.length === 0, 'the report should be for the saved site');
+    assert(report.attempts.map((a) => a.action).join(',') === 'generate,continue,repair', 'each attempt should be recorded');
+    assert(report.attempts[0]!.truncated && report.attempts[0]!.issues.some((issue) => issue.includes('</html>')), 'the cut-off attempt should be recorded as such');
+    assert(db.getBusinessById(business.id)!.status === 'website_generated', 'the business should move on');
+    console.log('Retried to a passing site');
+
+    // 2. Out of attempts: nothing is saved
+    console.log('\n--- BUDGET ---');
+    const other = db.insertBusiness({ name: 'Lorem Cuts', city: 'Holly Springs', state: 'MS', source: 'google_places', source_id: 'LOREM' });
+    const failing = new ScriptedClient([]);
+    const strict = new GeneratorService({ templatesPerBusiness: 1, maxAttempts: 2 }, failing);
+    const failed = await strict.generateForBusiness(other);
+    assert(!failed.success && failing.feedback.length === 2, 'generation should stop at the attempt budget');
+    assert(db.getWebsitesByBusinessId(other.id).length === 0, 'a site that never passes should not be saved');
+    assert(db.getBusinessById(other.id)!.status === 'discovered', 'the business should stay where it was');
+
+    let thrown: unknown = null;
+    try {
+      await new GeneratorService({ maxAttempts: 1 }, new ScriptedClient([])).generateWithQualityGate(BUSINESS, WebsiteTemplate.SUSPENDED_DARK);
+    } catch (error) {
+      thrown = error;
+    }
+    assert(thrown instanceof WebsiteQualityError && thrown.report.attempts.length === 1 && !thrown.report.passed, 'the error should carry the report');
+
+    process.env['GENERATION_MAX_ATTEMPTS'] = '5';
+    assert(new GeneratorService({}, failing).getConfig().maxAttempts === 5, 'GENERATION_MAX_ATTEMPTS should set the default');
+    for (const bad of ['abc', '0', '-2', '2.5']) {
+      process.env['GENERATION_MAX_ATTEMPTS'] = bad;
+      assert(new GeneratorService({}, failing).getConfig().maxAttempts === 3, `GENERATION_MAX_ATTEMPTS="${bad}" should fall back to 3`);
+    }
+    delete process.env['GENERATION_MAX_ATTEMPTS'];
+    console.log('Budget respected');
+
+    // 3. Claude: continuation and repair requests
+    console.log('\n--- CLAUDE ---');
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test-key';
+    const claudeBodies: Array<{ messages: Array<{ role: string; content: string }> }> = [];
+    globalThis.fetch = stubFetch([
+      claudeReply('```html\n' + GOOD_HTML.slice(0, CUT_AT), 'max_tokens'),
+      claudeReply(GOOD_HTML.slice(CUT_AT), 'end_turn'),
+      claudeReply(GOOD_HTML, 'end_turn'),
+      claudeReply(GOOD_HTML.slice(0, CUT_AT), 'max_tokens'),
+    ], claudeBodies);
+
+    const claude = new ClaudeClient();
+    const cut = await claude.generateDraft(BUSINESS, WebsiteTemplate.SUSPENDED_DARK);
+    assert(cut.truncated && !cut.html.includes('</html>'), 'a cut-off draft should be left open');
+    const continued = await claude.generateDraft(BUSINESS, WebsiteTemplate.SUSPENDED_DARK, { html: cut.html, truncated: true, issues: [] });
+    assert(!continued.truncated && continued.html === GOOD_HTML.trim(), 'the continuation should be joined on where it stopped');
+
+    const continuation = claudeBodies[1]!.messages;
+    assert(continuation.map((m) => m.role).join(',') === 'user,assistant,user', 'the draft should be sent as the assistant turn');
+    assert(continuation[1]!.content === cut.html && continuation[2]!.content.includes('cut off'), 'Claude should be asked to continue');
+
+    await claude.generateDraft(BUSINESS, WebsiteTemplate.SUSPENDED_DARK, { html: GOOD_HTML, truncated: false, issues: ['Contains "Lorem ipsum" placeholder text'] });
+    assert(claudeBodies[2]!.messages[2]!.content.includes('- Contains "Lorem ipsum" placeholder text'), 'the repair prompt should list the issues');
+
+    const closed = await claude.generateWebsite(BUSINESS, WebsiteTemplate.SUSPENDED_DARK);
+    assert(closed.endsWith('</body>\n</html>'), 'generateWebsite should still close cut-off output');
+    console.log('Claude requests OK');
+
+    // 4. Gemini: the same, as model and user turns
+    console.log('\n--- GEMINI ---');
+    process.env['GEMINI_API_KEY'] = 'gemini-test-key';
+    const geminiBodies: Array<{ contents: Array<{ role: string; parts: Array<{ text: string }> }> }> = [];
+    globalThis.fetch = stubFetch([
+      geminiReply(GOOD_HTML.slice(0, CUT_AT), 'MAX_TOKENS'),
+      geminiReply('```html\n' + GOOD_HTML.slice(CUT_AT) + '\n```', 'STOP'),
+    ], geminiBodies);
+
+    const gemini = new GeminiClient();
+    const geminiCut = await gemini.generateDraft(BUSINESS, WebsiteTemplate.SUSPENDED_DARK);
+    assert(geminiCut.truncated, 'MAX_TOKENS should mark the draft as cut off');
+    const geminiDone = await gemini.generateDraft(BUSINESS, WebsiteTemplate.SUSPENDED_DARK, { html: geminiCut.html, truncated: true, issues: [] });
+    assert(!geminiDone.truncated && geminiDone.html === GOOD_HTML.trim(), 'the continuation should lose its code fences');
+
+    const contents = geminiBodies[1]!.contents;
+    assert(contents.map((c) => c.role).join(',') === 'user,model,user', 'the draft should be sent as the model turn');
+    assert(contents[1]!.parts[0]!.text === geminiCut.html && contents[2]!.parts[0]!.text.includes('cut off'), 'Gemini should be asked to continue');
+    console.log('Gemini requests OK');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    globalThis.fetch = liveFetch;
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Migrations Test Script
+ * Upgrades a pre-versioning database and checks the data survives
+ *
+ * Usage:
+ *   npm run test:migrations
+ *
+ * Uses its own databases under ./data/test-migrations.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync, readdirSync, rmSync } from 'fs';
+import { db, LATEST_SCHEMA_VERSION, MIGRATIONS } from '../src/database/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DIR = './data/test-migrations';
+const LEGACY_DB_PATH = `${TEST_DIR}/legacy.db`;
+
+// A database as the team's copies looked before schema_version existed
+function createLegacyDatabase(): void {
+  const legacy = new Database(LEGACY_DB_PATH);
+  legacy.exec(`
+    CREATE TABLE businesses (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      business_type TEXT,
+      category TEXT,
+      address TEXT,
+      city TEXT,
+      state TEXT,
+      county TEXT,
+      phone TEXT,
+      email TEXT,
+      website_url TEXT,
+      has_website INTEGER DEFAULT 0,
+      source TEXT NOT NULL,
+      source_id TEXT,
+      google_place_id TEXT,
+      discovered_at TEXT NOT NULL,
+      enriched_at TEXT,
+      status TEXT DEFAULT 'discovered',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE email_templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      subject TEXT NOT NULL,
+      html_body TEXT NOT NULL,
+      text_body TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    INSERT INTO businesses (id, name, source, source_id, discovered_at, status, created_at, updated_at)
+    VALUES ('legacy-1', 'Old Town Diner', 'ms_sos', 'LEGACY-001', '2024-01-01T00:00:00.000Z', 'deployed',
+            '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z');
+
+    INSERT INTO email_templates (id, name, subject, html_body, text_body, created_at, updated_at)
+    VALUES ('tpl-1', 'intro', 'Hi', '<p>Hi</p>', 'Hi', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z');
+  `);
+  legacy.close();
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('MIGRATIONS TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DIR, { recursive: true, force: true });
+  mkdirSync(TEST_DIR, { recursive: true });
+
+  try {
+    // 1. Fresh database
+    console.log('\n--- FRESH DATABASE ---');
+    db.initialize({ path: `${TEST_DIR}/fresh.db` });
+    let status = db.getMigrationStatus();
+    assert(status.currentVersion === LATEST_SCHEMA_VERSION && status.pending.length === 0, 'fresh database should be fully migrated');
+    db.close();
+    assert(!readdirSync(TEST_DIR).some((f) => f.endsWith('.bak')), 'fresh database should not be backed up');
+    console.log(`Fresh database at version ${status.currentVersion}`);
+
+    // 2. Pre-versioning database
+    console.log('\n--- LEGACY UPGRADE ---');
+    createLegacyDatabase();
+    db.initialize({ path: LEGACY_DB_PATH, migrate: false });
+    status = db.getMigrationStatus();
+    assert(status.currentVersion === 0 && status.pending.length === MIGRATIONS.length, 'legacy database should start at version 0');
+
+    const result = db.migrate();
+    console.log('Migration result:', result);
+    assert(result.from === 0 && result.to === LATEST_SCHEMA_VERSION, 'legacy database should reach the latest version');
+    assert(result.backupPath && existsSync(result.backupPath), 'legacy database should be backed up first');
+
+    const backup = new Database(result.backupPath, { readonly: true });
+    const backedUp = backup.prepare('SELECT COUNT(*) as count FROM businesses').get() as { count: number };
+    backup.close();
+    assert(backedUp.count === 1, 'backup should hold the original data');
+
+    const business = db.getBusinessById('legacy-1');
+    assert(business?.name === 'Old Town Diner' && business.status === 'deployed', 'existing rows should be untouched');
+    assert(db.getEmailTemplateById('tpl-1')?.physical_address === '', 'missing columns should be added with their default');
+    db.updateBusinessStatus('legacy-1', 'contacted', { actor: 'test' });
+    assert(db.getBusinessStatusHistory('legacy-1').length === 1, 'tables added since should exist');
+
+    const again = db.migrate();
+    assert(again.applied.length === 0 && again.backupPath === null, 'second run should be a no-op');
+    console.log('Legacy database upgraded');
+
+    // 3. Database from newer code
+    console.log('\n--- NEWER DATABASE ---');
+    db.raw().prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)')
+      .run(LATEST_SCHEMA_VERSION + 1, 'from the future', new Date().toISOString());
+    db.close();
+
+    let refused = false;
+    try {
+      db.initialize({ path: LEGACY_DB_PATH });
+    } catch (error) {
+      refused = error instanceof Error && error.message.includes('newer than this code');
+    }
+    assert(refused, 'a database newer than the code should be refused');
+    console.log('Newer database refused');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+main();
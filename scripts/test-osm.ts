@@ -0,0 +1,181 @@
+#!/usr/bin/env tsx
+/**
+ * OpenStreetMap Discovery Test Script
+ * Runs discovery against a local Overpass stand-in and a generated .osm.pbf extract
+ *
+ * Usage:
+ *   npm run test:osm
+ *
+ * Uses its own test database; no network access or API keys needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  BusinessCategory,
+  buildOverpassQuery,
+  CATEGORY_TO_OSM_TAGS,
+  DiscoveryService,
+  matchesOsmTags,
+  OsmDiscoverySource,
+  OsmElement,
+  osmElementToResult,
+  ResolvedSearchArea,
+} from '../src/modules/discovery/index.js';
+import { startLocalOverpassServer } from './helpers/local-overpass-server.js';
+import { writeOsmPbf } from './helpers/osm-pbf-writer.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-osm.db';
+const TEST_PBF_PATH = './data/test-osm.osm.pbf';
+const AREA = { city: 'Holly Springs', state: 'MS', radiusMiles: 10 };
+const RESOLVED: ResolvedSearchArea = { ...AREA, kind: 'city', label: 'Holly Springs, MS' };
+
+// Holly Springs town center, plus a hamlet of the same name elsewhere
+const ELEMENTS: OsmElement[] = [
+  { type: 'node', id: 100, lat: 34.7676, lon: -89.4487, tags: { place: 'town', name: 'Holly Springs' } },
+  { type: 'node', id: 101, lat: 33.9, lon: -88.9, tags: { place: 'hamlet', name: 'Holly Springs' } },
+  {
+    type: 'node', id: 200, lat: 34.7681, lon: -89.4478,
+    tags: {
+      shop: 'hairdresser', hairdresser: 'barber', name: 'Fade Masters',
+      'addr:housenumber': '150', 'addr:street': 'East Van Dorn Avenue', phone: '+1 662-555-0140',
+      opening_hours: 'Tu-Sa 09:00-18:00',
+    },
+  },
+  {
+    type: 'node', id: 201, lat: 34.7702, lon: -89.4455,
+    tags: { amenity: 'fast_food', name: 'Rebel Burger', website: 'https://rebelburger.example' },
+  },
+  { type: 'node', id: 202, lat: 34.3665, lon: -89.5192, tags: { amenity: 'restaurant', name: 'Oxford Diner' } },
+  { type: 'node', id: 203, lat: 34.7690, lon: -89.4490, tags: { amenity: 'restaurant' } },
+  // Already found on Google Places under a slightly different name
+  {
+    type: 'node', id: 204, lat: 34.7665, lon: -89.4481,
+    tags: { amenity: 'restaurant', name: "Phillips Grocery", 'addr:housenumber': '541', 'addr:street': 'East Van Dorn Avenue' },
+  },
+  // Building outline; its location is the center of its nodes
+  {
+    type: 'way', id: 300, center: { lat: 34.7655, lon: -89.4501 },
+    tags: { amenity: 'restaurant', name: 'Marshall County Catfish', 'addr:city': 'Holly Springs' },
+  },
+];
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('OSM DISCOVERY TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  const overpass = await startLocalOverpassServer(ELEMENTS);
+
+  try {
+    // 1. Tag mappings and query building
+    console.log('\n--- TAG MAPPING ---');
+    const barber = { shop: 'hairdresser', hairdresser: 'barber', name: 'Fade Masters' };
+    assert(matchesOsmTags(barber, CATEGORY_TO_OSM_TAGS[BusinessCategory.BARBER_SHOP]), 'barbers should map to barber shops');
+    assert(matchesOsmTags({ shop: 'hairdresser', name: "Tony's Barbershop" }, CATEGORY_TO_OSM_TAGS[BusinessCategory.BARBER_SHOP]), 'barber names should map to barber shops');
+    assert(!matchesOsmTags({ shop: 'hairdresser', name: 'Curl Up & Dye' }, CATEGORY_TO_OSM_TAGS[BusinessCategory.BARBER_SHOP]), 'hair salons are not barber shops');
+    assert(matchesOsmTags({ amenity: 'fast_food' }, CATEGORY_TO_OSM_TAGS[BusinessCategory.RESTAURANT]), 'fast food should map to restaurants');
+    assert(!matchesOsmTags({ shop: 'car_repair' }, CATEGORY_TO_OSM_TAGS[BusinessCategory.RESTAURANT]), 'garages are not restaurants');
+    for (const [category, alternatives] of Object.entries(CATEGORY_TO_OSM_TAGS)) {
+      assert(alternatives.length > 0 && alternatives.every((a) => a.length > 0), `${category} should have a tag mapping`);
+    }
+
+    const ql = buildOverpassQuery(CATEGORY_TO_OSM_TAGS[BusinessCategory.PLUMBER], { lat: 34.7676, lon: -89.4487 }, 16093.4, 20);
+    assert(ql.includes('nwr["craft"="plumber"]["name"](around:16093,34.7676,-89.4487);'), 'plumbers should be queried by craft within the radius');
+    assert(ql.trim().endsWith('out tags center 20;'), 'the result count should be limited');
+
+    const way = osmElementToResult(ELEMENTS.find((e) => e.id === 300)!, RESOLVED)!;
+    assert(way.place_id === 'way/300' && way.geometry?.lat === 34.7655, 'ways should use their center');
+    assert(way.types?.[0] === 'amenity=restaurant' && way.website === null, 'tags should map to types and website');
+    assert(osmElementToResult(ELEMENTS.find((e) => e.id === 203)!, RESOLVED) === null, 'unnamed places should be skipped');
+    console.log('Tag mapping OK');
+
+    // 2. Discovery through the Overpass stand-in
+    console.log('\n--- OVERPASS ---');
+    const existing = db.insertBusiness({
+      name: "Phillip's Grocery",
+      address: '541 E Van Dorn Ave',
+      city: 'Holly Springs',
+      state: 'MS',
+      latitude: 34.7666,
+      longitude: -89.4480,
+      source: 'google_places',
+      source_id: 'PLACE-PHILLIPS',
+      google_place_id: 'PLACE-PHILLIPS',
+    });
+
+    const service = new DiscoveryService(
+      { areas: [AREA], categories: [BusinessCategory.BARBER_SHOP, BusinessCategory.RESTAURANT], maxResultsPerSearch: 20 },
+      [new OsmDiscoverySource({ overpassUrl: overpass.url })]
+    );
+    const summary = await service.run();
+    console.log(JSON.stringify(summary.bySource));
+
+    assert(overpass.queries.some((q) => q.includes('area["ISO3166-2"="US-MS"]')), 'the town should be looked up within the state');
+    assert(summary.totalFound === 4, 'the barber and three nearby named restaurants should be found (not the one in Oxford)');
+    assert(summary.withoutWebsite === 3, 'the restaurant with a website should be dropped');
+    assert(summary.newlySaved === 2 && summary.alreadyExists === 1, 'the business already found on Places should not be saved again');
+    assert(summary.bySource['osm']?.saved === 2, 'results should be counted by source');
+
+    const fade = db.getBusinessBySourceId('osm', 'node/200')!;
+    assert(fade.name === 'Fade Masters' && fade.category === BusinessCategory.BARBER_SHOP, 'the barber should be saved from OSM');
+    assert(fade.google_place_id === null, 'OSM businesses should not get a Google place ID');
+    assert(fade.address === '150 East Van Dorn Avenue' && fade.phone === '+1 662-555-0140', 'address and phone should come from tags');
+    assert(fade.opening_hours === JSON.stringify(['Tu-Sa 09:00-18:00']), 'opening hours should be kept');
+    assert(fade.lead_score !== null, 'OSM businesses should be scored');
+    assert(db.getBusinessBySourceId('osm', 'way/300')?.latitude === 34.7655, 'ways should be saved at their center');
+    assert(db.getBusinessBySourceId('osm', 'node/204') === null && db.getBusinessById(existing.id), 'the Places business should be kept as is');
+
+    const again = await service.run();
+    assert(again.newlySaved === 0 && again.alreadyExists === 3, 'a second run should find everything already saved');
+    console.log('Overpass discovery saved OSM businesses and skipped duplicates');
+
+    // 3. Discovery from a local extract
+    console.log('\n--- PBF EXTRACT ---');
+    writeOsmPbf(
+      TEST_PBF_PATH,
+      [
+        ...ELEMENTS.filter((e) => e.type === 'node').map((e) => ({ id: e.id, lat: e.lat!, lon: e.lon!, tags: e.tags })),
+        { id: 400, lat: 34.7650, lon: -89.4505 },
+        { id: 401, lat: 34.7650, lon: -89.4497 },
+        { id: 402, lat: 34.7660, lon: -89.4497 },
+        { id: 403, lat: 34.7660, lon: -89.4505 },
+      ],
+      [{ id: 300, refs: [400, 401, 402, 403, 400], tags: ELEMENTS.find((e) => e.id === 300)!.tags }]
+    );
+
+    const extract = new OsmDiscoverySource({ pbfPath: TEST_PBF_PATH });
+    const { places: restaurants, coverage } = await extract.findBusinesses(RESOLVED, BusinessCategory.RESTAURANT, 20);
+    const ids = restaurants.map((r) => r.place_id).sort();
+    console.log(ids.join(', '));
+    assert(ids.join(',') === 'node/201,node/204,way/300', 'nearby named restaurants should be read from the extract');
+    assert(coverage.searches === 1 && coverage.saturatedCells === 0, 'one search under the limit covers the area');
+
+    const catfish = restaurants.find((r) => r.place_id === 'way/300')!;
+    assert(Math.abs(catfish.geometry!.lat - 34.7655) < 1e-6 && Math.abs(catfish.geometry!.lng + 89.4501) < 1e-6, 'way centers should be computed from their nodes');
+
+    const { places: barbers } = await extract.findBusinesses(RESOLVED, BusinessCategory.BARBER_SHOP, 20);
+    assert(barbers.length === 1 && barbers[0]!.formatted_phone_number === '+1 662-555-0140', 'node tags should be decoded');
+    assert(overpass.queries.length === 5, 'the extract should be used instead of Overpass');
+    console.log('Extract read OK');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    await overpass.close();
+    db.close();
+    rmSync(TEST_PBF_PATH, { force: true });
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
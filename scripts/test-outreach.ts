@@ -0,0 +1,187 @@
+#!/usr/bin/env tsx
+/**
+ * Outreach Module Test Script
+ * Sends outreach emails through a local SMTP stand-in and checks what was delivered and logged
+ *
+ * Usage:
+ *   npm run test:outreach
+ *
+ * Uses its own test database and never talks to a real mail server.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import { OutreachService, SmtpClient, SuppressionService, DEFAULT_TEMPLATE } from '../src/modules/outreach/index.js';
+import { startLocalSmtpServer } from './helpers/local-smtp-server.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-outreach.db';
+const TEST_TEMPLATE = { ...DEFAULT_TEMPLATE, physicalAddress: '123 Main St, Oxford, MS 38655' };
+
+// Undo quoted-printable soft line breaks and escapes so we can search the body
+function decodeQuotedPrintable(data: string): string {
+  return data
+    .replace(/=\r\n/g, '')
+    .replace(/=([0-9A-F]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('OUTREACH MODULE TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  const smtp = await startLocalSmtpServer({ rejectRecipients: ['bounce@example.com'] });
+  console.log(`\nLocal SMTP stand-in listening on port ${smtp.port}`);
+
+  const client = new SmtpClient({
+    host: '127.0.0.1',
+    port: smtp.port,
+    secure: false,
+    from: 'outreach@example.com',
+  });
+  const service = new OutreachService(client);
+
+  try {
+    // Business with a deployed website
+    const business = db.insertBusiness({
+      name: "Marcus's Barber Shop",
+      city: 'Holly Springs',
+      state: 'MS',
+      source: 'ms_sos',
+      source_id: 'OUTREACH-TEST-001',
+    });
+    const website = db.insertWebsite({
+      business_id: business.id,
+      template_name: 'barber-premium',
+      html_content: '<html></html>',
+    });
+    db.updateBusinessStatus(business.id, 'website_generated');
+    db.markWebsiteDeployed(website.id, 'https://marcuss-barber-shop-v1.vercel.app');
+
+    // 1. Create a template
+    console.log('\n--- CREATE TEMPLATE ---');
+    const template = service.createTemplate(TEST_TEMPLATE);
+    assert(template, 'template should be created');
+    console.log(`Created template: ${template.name} (${template.id})`);
+
+    const invalid = service.createTemplate({ ...TEST_TEMPLATE, subject: 'Hi {{owner_shoe_size}}' });
+    assert(invalid === null, 'templates with unknown merge fields should be rejected');
+    console.log('Template with unknown merge field rejected');
+
+    const noAddress = service.createTemplate({ ...TEST_TEMPLATE, physicalAddress: '  ' });
+    assert(noAddress === null, 'templates without a physical address should be rejected');
+    console.log('Template without a physical address rejected');
+
+    // 2. Send an email
+    console.log('\n--- SEND EMAIL ---');
+    const result = await service.sendEmail(
+      {
+        businessId: business.id,
+        email: 'owner@example.com',
+        name: 'Marcus',
+        websitePreviewUrl: '',
+      },
+      template.id
+    );
+    console.log('Send result:', result);
+    assert(result.success, `send should succeed: ${result.error}`);
+    assert(smtp.messages.length === 1, 'stand-in should receive one message');
+
+    const delivered = smtp.messages[0]!;
+    const body = decodeQuotedPrintable(delivered.data);
+    assert(delivered.to.includes('owner@example.com'), 'message should be addressed to the recipient');
+    assert(body.includes('Subject: We built a website for Marcus\'s Barber Shop'), 'subject should be rendered');
+    assert(body.includes('Holly Springs'), 'city should be rendered');
+    assert(body.includes('https://marcuss-barber-shop-v1.vercel.app'), 'deployed preview URL should be rendered');
+    assert(body.includes('Marcus&#39;s Barber Shop'), 'HTML body should escape merge values');
+    assert(!body.includes('{{'), 'no merge fields should be left unrendered');
+    assert(body.includes('123 Main St, Oxford, MS 38655'), 'footer should include the physical address');
+    assert(body.includes('List-Unsubscribe: <mailto:outreach@example.com?subject=unsubscribe>'), 'List-Unsubscribe header should be set');
+    assert(body.includes('Unsubscribe: mailto:outreach@example.com?subject=unsubscribe'), 'text footer should include the unsubscribe link');
+    console.log('Delivered message rendered correctly');
+
+    // 3. Outreach log and Message-ID link
+    console.log('\n--- OUTREACH LOG ---');
+    const logs = db.getOutreachByBusinessId(business.id);
+    assert(logs.length === 1 && logs[0]?.method === 'email', 'one email outreach should be logged');
+    const message = db.getEmailMessageByMessageId(result.messageId!);
+    assert(message?.outreach_id === logs[0]?.id, 'Message-ID should link to the outreach log row');
+    assert(db.getBusinessById(business.id)?.status === 'contacted', 'business should be marked contacted');
+    console.log(`Logged outreach ${logs[0]?.id} for Message-ID ${result.messageId}`);
+
+    // 4. Rejected recipient (hard bounce)
+    console.log('\n--- HARD BOUNCE ---');
+    const bounced = await service.sendEmail(
+      { businessId: business.id, email: 'bounce@example.com', name: 'Marcus', websitePreviewUrl: '' },
+      template.id
+    );
+    console.log('Send result:', bounced);
+    assert(!bounced.success, 'send to a rejected recipient should fail');
+    assert(db.getOutreachByBusinessId(business.id).length === 1, 'failed sends should not be logged');
+    assert(db.getEmailSuppression('Bounce@Example.com')?.reason === 'hard_bounce', 'hard bounce should suppress the address');
+
+    const retry = await service.sendEmail(
+      { businessId: business.id, email: 'bounce@example.com', name: 'Marcus', websitePreviewUrl: '' },
+      template.id
+    );
+    assert(!retry.success && retry.suppressed, 'suppressed address should not be sent to');
+    console.log('Bounced address suppressed');
+
+    // 5. Unsubscribe and do-not-contact
+    console.log('\n--- SUPPRESSION ---');
+    const suppression = new SuppressionService();
+    suppression.suppress('owner@example.com', 'unsubscribe');
+    const unsubscribed = await service.sendEmail(
+      { businessId: business.id, email: 'owner@example.com', name: 'Marcus', websitePreviewUrl: '' },
+      template.id
+    );
+    assert(unsubscribed.suppressed, 'unsubscribed address should not be sent to');
+    console.log('Unsubscribed address blocked');
+
+    const firstLog = db.getOutreachByBusinessId(business.id)[0]!;
+    db.updateOutreachResponse(firstLog.id, 'Please do not contact us again');
+    const otherAddress = await service.sendEmail(
+      { businessId: business.id, email: 'manager@example.com', name: 'Marcus', websitePreviewUrl: '' },
+      template.id
+    );
+    assert(otherAddress.suppressed, 'do-not-contact business should be blocked for every address');
+    assert(smtp.messages.length === 1, 'nothing else should have been delivered');
+    console.log('Do-not-contact business blocked');
+
+    // 6. No preview URL available
+    console.log('\n--- MISSING PREVIEW URL ---');
+    const undeployed = db.insertBusiness({
+      name: 'Fresh Cuts',
+      city: 'Oxford',
+      state: 'MS',
+      source: 'ms_sos',
+      source_id: 'OUTREACH-TEST-002',
+    });
+    const missing = await service.sendEmail(
+      { businessId: undeployed.id, email: 'owner@freshcuts.com', name: '', websitePreviewUrl: '' },
+      template.id
+    );
+    console.log('Send result:', missing);
+    assert(!missing.success && missing.error?.includes('preview_url'), 'send without a preview URL should fail');
+    assert(smtp.messages.length === 1, 'nothing should be sent without a preview URL');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    client.close();
+    await smtp.close();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -0,0 +1,180 @@
+#!/usr/bin/env tsx
+/**
+ * Places Cache & Cost Test Script
+ * Runs the Places client against a local stand-in to check response caching, cost accounting and budgets
+ *
+ * Usage:
+ *   npm run test:places-cache
+ *
+ * Uses its own test database and a local Places stand-in; no real API key needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  BusinessCategory,
+  DiscoveryService,
+  GooglePlacesClient,
+  GooglePlacesSource,
+  PlacesBudgetExceededError,
+  placesCacheKey,
+  placesLedger,
+} from '../src/modules/discovery/index.js';
+import { startLocalPlacesServer, StandInPlace } from './helpers/local-places-server.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-places-cache.db';
+const TUPELO = { lat: 34.2576, lng: -88.7034 };
+const AREA = { city: 'Tupelo', state: 'MS', radiusMiles: 5 };
+
+// 25 places, so a search for more than 20 takes two pages
+const PLACES: StandInPlace[] = Array.from({ length: 25 }, (_, i) => ({
+  place_id: `P${i}`,
+  name: `Place ${i}`,
+  lat: TUPELO.lat + i * 0.001,
+  lng: TUPELO.lng,
+  website: i % 5 === 0 ? `https://place${i}.example` : undefined,
+  formatted_phone_number: `(662) 555-01${String(i).padStart(2, '0')}`,
+}));
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('PLACES CACHE & COST TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  const server = await startLocalPlacesServer(PLACES, TUPELO);
+  process.env['GOOGLE_PLACES_API_KEY'] = 'test-key';
+  delete process.env['PLACES_CACHE'];
+  delete process.env['PLACES_CACHE_TTL_HOURS'];
+  delete process.env['PLACES_MONTHLY_BUDGET_USD'];
+
+  try {
+    const client = new GooglePlacesClient(server.url);
+    assert(!client.isInMockMode(), 'the client should use the stand-in, not mock data');
+
+    // 1. Cache keys
+    console.log('\n--- CACHE KEYS ---');
+    assert(
+      placesCacheKey('place_details', { place_id: 'P1', fields: 'name', key: 'a' }) === placesCacheKey('place_details', { fields: 'name', place_id: 'P1', key: 'b' }),
+      'keys should ignore the API key and parameter order'
+    );
+    assert(placesCacheKey('place_details', { place_id: 'P1' }) !== placesCacheKey('find_place', { place_id: 'P1' }), 'keys should include the endpoint');
+    assert(!placesCacheKey('geocode', { address: 'x', key: 'secret' }).includes('secret'), 'keys should never contain the API key');
+    console.log('Cache keys OK');
+
+    // 2. Repeat requests are answered from the cache
+    console.log('\n--- CACHING ---');
+    const first = await client.geocodeCity('Tupelo', 'MS');
+    const second = await client.geocodeCity('Tupelo', 'MS');
+    assert(first?.lat === TUPELO.lat && second?.lat === TUPELO.lat, 'cached and live responses should match');
+    assert(server.count('/geocode/json') === 1, 'a repeated geocode should be one live request');
+
+    const circle = { ...AREA, latitude: TUPELO.lat, longitude: TUPELO.lng };
+    const all = await client.searchBusinesses(circle, BusinessCategory.RESTAURANT, 25);
+    assert(all.length === 25 && server.count('/place/nearbysearch/json') === 2, 'a 25 result search should take two pages');
+    const again = await client.searchBusinesses(circle, BusinessCategory.RESTAURANT, 25);
+    assert(again.length === 25 && again[24]!.place_id === 'P24', 'the whole search should come back from the cache');
+    assert(server.count('/place/nearbysearch/json') === 2, 'no page should be requested again');
+    await client.searchBusinesses(circle, BusinessCategory.RESTAURANT, 20);
+    assert(server.count('/place/nearbysearch/json') === 3, 'a search for a different number of results is a different request');
+
+    const details = await client.getPlaceDetails('P1');
+    await client.getPlaceDetails('P1');
+    assert(details?.formatted_phone_number === '(662) 555-0101' && server.count('/place/details/json') === 1, 'details should be cached');
+    await client.getPlaceDetails('missing');
+    assert(await client.getPlaceDetails('missing') === null, 'unknown places should not be found');
+    assert(server.count('/place/details/json') === 3, 'error responses should not be cached');
+
+    assert(await client.findPlaceId('Place 3', '1 Main St') === 'P3', 'find place should return the place ID');
+    await client.findPlaceId('Place 3', '1 Main St');
+    assert(server.count('/place/findplacefromtext/json') === 1, 'find place should be cached');
+    assert(server.requests.every((request) => request.params['key'] === 'test-key'), 'every live request should carry the API key');
+    console.log(`${server.requests.length} live requests`);
+
+    // 3. Lifetimes, expiry and turning the cache off
+    console.log('\n--- LIFETIMES ---');
+    process.env['PLACES_CACHE_TTL_HOURS'] = 'place_details=0';
+    await client.getPlaceDetails('P2');
+    await client.getPlaceDetails('P2');
+    assert(server.count('/place/details/json') === 5, 'an endpoint with no lifetime should not be cached');
+    assert(db.getApiCacheEntry(placesCacheKey('geocode', { address: 'Tupelo, MS' })) !== null, 'other endpoints keep their lifetime');
+    delete process.env['PLACES_CACHE_TTL_HOURS'];
+
+    process.env['PLACES_CACHE'] = 'off';
+    await client.geocodeCity('Tupelo', 'MS');
+    assert(server.count('/geocode/json') === 2, 'PLACES_CACHE=off should always call the API');
+    delete process.env['PLACES_CACHE'];
+
+    db.getInstance().prepare("UPDATE api_cache SET expires_at = '2000-01-01T00:00:00.000Z' WHERE endpoint = 'geocode'").run();
+    await client.geocodeCity('Tupelo', 'MS');
+    assert(server.count('/geocode/json') === 3, 'an expired response should be fetched again');
+    db.getInstance().prepare("UPDATE api_cache SET expires_at = '2000-01-01T00:00:00.000Z' WHERE endpoint = 'find_place'").run();
+    assert(db.clearApiCache() === 1, 'clearing should drop only expired responses');
+    assert(db.getApiCacheEntry(placesCacheKey('geocode', { address: 'Tupelo, MS' })) !== null, 'fresh responses should survive clearing');
+    console.log('Lifetimes OK');
+
+    // 4. Cost accounting
+    console.log('\n--- COSTS ---');
+    const month = placesLedger.getMonthTotals();
+    console.log(JSON.stringify(month));
+    const live = server.requests.length;
+    assert(month.calls === live, 'every live request should be recorded');
+    assert(month.cachedCalls === 4, 'cache hits should be recorded too');
+    const expected = ['geocode', 'nearby_search', 'place_details', 'find_place'] as const;
+    const priced = expected.reduce((total, endpoint) => {
+      const path = { geocode: '/geocode/json', nearby_search: '/place/nearbysearch/json', place_details: '/place/details/json', find_place: '/place/findplacefromtext/json' }[endpoint];
+      return total + server.count(path) * placesLedger.priceOf(endpoint);
+    }, 0);
+    assert(Math.abs(month.costUsd - priced) < 1e-9, 'live requests should be priced by SKU and cache hits should be free');
+
+    // 5. Budgets
+    console.log('\n--- BUDGETS ---');
+    process.env['PLACES_MONTHLY_BUDGET_USD'] = String(month.costUsd + 0.001);
+    let blocked: unknown = null;
+    try {
+      await client.geocodeCity('Oxford', 'MS');
+    } catch (error) {
+      blocked = error;
+    }
+    assert(blocked instanceof PlacesBudgetExceededError && blocked.scope === 'month', 'a request past the monthly budget should be refused');
+    assert(server.count('/geocode/json') === 3, 'the refused request should not be made');
+    assert((await client.geocodeCity('Tupelo', 'MS'))?.lat === TUPELO.lat, 'cached responses should still be served over budget');
+    delete process.env['PLACES_MONTHLY_BUDGET_USD'];
+    console.log('Monthly budget enforced');
+
+    const service = new DiscoveryService(
+      { areas: [AREA], categories: [BusinessCategory.BARBER_SHOP, BusinessCategory.PLUMBER], maxResultsPerSearch: 25, budgetUsd: 0.1 },
+      [new GooglePlacesSource(client)]
+    );
+    const summary = await service.run();
+    console.log(JSON.stringify(summary.spend), summary.stoppedEarly);
+    assert(summary.stoppedEarly?.includes('per-run budget'), 'the run should stop at its budget');
+    assert(summary.spend.costUsd > 0 && summary.spend.costUsd <= 0.1, 'the run should not spend past its budget');
+    assert(summary.spend.cachedCalls > 0, 'the run should use cached responses');
+    assert(db.getDiscoverySearches(summary.runId).length === 0, 'searches after the budget ran out should not be recorded');
+
+    const runs = db.getApiCostsBy('run', 'google_places');
+    assert(runs.length === 1 && runs[0]!.period === summary.runId && Math.abs(runs[0]!.costUsd - summary.spend.costUsd) < 1e-9, 'spend should be reported per run');
+    const months = db.getApiCostsBy('month', 'google_places');
+    assert(months.length === 1 && months[0]!.period === new Date().toISOString().slice(0, 7), 'spend should be reported per month');
+    assert(Math.abs(months[0]!.costUsd - (month.costUsd + summary.spend.costUsd)) < 1e-9, 'the month should include the run');
+    console.log('Run budget enforced');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    await server.close();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
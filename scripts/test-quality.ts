@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+/**
+ * Website Quality Rules Test Script
+ * Checks the industry rule packs, severities and scores against hand-built pages
+ * and the mock-mode sites
+ *
+ * Usage:
+ *   npm run test:quality
+ *
+ * No database, API keys or network needed.
+ */
+
+import {
+  BusinessInfo,
+  checkWebsiteQuality,
+  ClaudeClient,
+  getQualityRules,
+  IndustryCategory,
+  SEVERITY_PENALTIES,
+  WebsiteTemplate,
+} from '../src/modules/generator/index.js';
+import { assert } from './helpers/assert.js';
+
+const CATEGORIES: IndustryCategory[] = ['barber_shop', 'restaurant', 'auto_repair', 'salon', 'general'];
+
+/**
+ * A page with everything the common rules look for, around the given body
+ */
+function page(body: string): string {
+  return `<!DOCTYPE html>
+<!-- BUSINESS CONFIG: name, phone, address -->
+<html lang="en">
+<head>
+  <meta property="og:title" content="Test">
+  <meta property="og:description" content="Test">
+  <style>html { scroll-behavior: smooth; }</style>
+  <script type="application/ld+json">{"@type": "LocalBusiness"}</script>
+</head>
+<body>
+  <img src="https://images.unsplash.com/photo-1" alt="">
+  ${body}
+  <a href="tel:+16625550140" data-track="call">Call (662) 555-0140</a>
+  <a href="https://www.google.com/maps/dir/?api=1">Directions</a>
+  <form action="https://formspree.io/f/test"></form>
+  ${'<p>Friendly local service since day one, right here in town.</p>\n'.repeat(320)}
+</body>
+</html>`;
+}
+
+function ruleIds(html: string, category: IndustryCategory): string[] {
+  return checkWebsiteQuality(html, category).findings.map((finding) => finding.rule);
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('WEBSITE QUALITY RULES TEST');
+  console.log('='.repeat(50));
+
+  try {
+    // 1. Rule packs
+    console.log('\n--- PACKS ---');
+    for (const category of CATEGORIES) {
+      const rules = getQualityRules(category);
+      assert(new Set(rules.map((rule) => rule.id)).size === rules.length, `${category} rule IDs should be unique`);
+      assert(rules.some((rule) => rule.id === 'common.lorem_ipsum'), `${category} should include the common rules`);
+      assert(rules.some((rule) => rule.id.endsWith('.generic_heading') && rule.severity === 'critical'), `${category} should reject its generic heading`);
+    }
+    assert(!getQualityRules('general').some((rule) => rule.id.startsWith('restaurant.')), 'restaurant rules should stay with restaurants');
+    console.log('Five packs, common rules first');
+
+    // 2. Scores and severities
+    console.log('\n--- SCORING ---');
+    const clean = checkWebsiteQuality(page('<section id="services">Our services</section>'));
+    assert(clean.passed && clean.score === 100 && clean.findings.length === 0 && clean.category === 'general', 'a complete page should score 100');
+
+    const noPhone = checkWebsiteQuality(page('<section id="services">Our services</section>').replace('href="tel:', 'href="sms:'));
+    assert(noPhone.passed && noPhone.score === 100 - SEVERITY_PENALTIES.major, 'a major finding should cost its penalty without failing');
+    assert(noPhone.warnings.length === 1 && noPhone.issues.length === 0, 'non-critical findings should be warnings');
+
+    const lorem = checkWebsiteQuality(page('<section id="services">Lorem ipsum dolor</section>'));
+    assert(!lorem.passed && lorem.issues[0] === 'Contains "Lorem ipsum" placeholder text', 'critical findings should fail the check');
+    assert(checkWebsiteQuality('', 'restaurant').score === 0, 'the score should not go below zero');
+    console.log(`Clean 100, one major ${noPhone.score}, lorem ${lorem.score}`);
+
+    // 3. Restaurants
+    console.log('\n--- RESTAURANT ---');
+    const menu = '<section id="menu"><h3>Catfish Plate</h3><span>$14</span></section>';
+    assert(ruleIds(page(menu), 'restaurant').length === 0, 'a menu with prices should pass');
+    assert(ruleIds(page('<section id="menu">Catfish Plate</section>'), 'restaurant').includes('restaurant.menu_prices'), 'a menu without prices should be flagged');
+    const generic = page(`<h1>Welcome to Our Restaurant</h1>${menu}`);
+    assert(!checkWebsiteQuality(generic, 'restaurant').passed, 'the generic restaurant heading should fail a restaurant');
+    assert(!ruleIds(generic, 'barber_shop').includes('restaurant.generic_heading'), 'other industries should not use the restaurant rules');
+
+    // 4. Barber shops
+    console.log('\n--- BARBER SHOP ---');
+    const services = '<ul><li>Skin Fade $25</li><li>Beard Trim $15</li><li>Hot Towel Shave $30</li></ul>';
+    assert(ruleIds(page(`<a href="#book" class="btn"><i data-lucide="scissors"></i> Book Your Cut</a>${services}`), 'barber_shop').length === 0, 'a booking button, prices and services should pass');
+    const noBooking = ruleIds(page(services), 'barber_shop');
+    assert(noBooking.join(',') === 'barber.booking_cta', 'a page without a booking link should be flagged');
+    assert(ruleIds(page(`<a href="https://booksy.com/en-us/123">Reserve</a>${services}`), 'barber_shop').length === 0, 'a booking service link should count');
+    assert(ruleIds(page('<a href="#book">Book Now</a><p>Great cuts</p>'), 'barber_shop').join(',') === 'barber.service_prices,barber.services', 'missing prices and services should be flagged');
+
+    // 5. Auto repair
+    console.log('\n--- AUTO REPAIR ---');
+    const repairs = '<ul><li>Oil Change</li><li>Brake Repair</li><li>Engine Diagnostics</li></ul><a href="#quote">Get a Free Estimate</a>';
+    const marked = page(`${repairs}<p data-placeholder="claim">ASE-certified technicians</p>`);
+    assert(ruleIds(marked, 'auto_repair').length === 0, 'a marked certification claim should pass');
+    assert(ruleIds(page(`${repairs}<p>ASE-certified technicians</p>`), 'auto_repair').join(',') === 'auto.certifications_marked', 'an unmarked certification claim should be flagged');
+    assert(ruleIds(page(repairs), 'auto_repair').join(',') === 'auto.certifications', 'a missing certifications section should be flagged');
+    assert(ruleIds(page('<p data-placeholder="claim">ASE certified</p><p>Oil changes</p>'), 'auto_repair').join(',') === 'auto.services,auto.estimate_cta', 'thin services and no estimate CTA should be flagged');
+
+    // 6. Salons and everything else
+    console.log('\n--- SALON / GENERAL ---');
+    const salon = page('<button>Book an Appointment</button><p>Cut & Style from $45</p><p>Color and highlights</p>');
+    assert(ruleIds(salon, 'salon').length === 0, 'a salon with booking, prices and services should pass');
+    assert(ruleIds(page('<p>Color and highlights</p>'), 'salon').join(',') === 'salon.booking_cta,salon.service_prices', 'a salon without booking or prices should be flagged');
+    assert(ruleIds(page('<p>We do it all.</p>'), 'general').join(',') === 'general.services', 'a general business without services should be flagged');
+
+    // 7. Mock sites pass their own pack
+    console.log('\n--- MOCK SITES ---');
+    delete process.env['ANTHROPIC_API_KEY'];
+    delete process.env['HTTP_CASSETTES'];
+    const client = new ClaudeClient();
+    const types: Record<IndustryCategory, string> = {
+      barber_shop: 'Barber Shop', restaurant: 'Restaurant', auto_repair: 'Auto Repair', salon: 'Hair Salon', general: 'Florist',
+    };
+    for (const category of CATEGORIES) {
+      const business: BusinessInfo = { id: 'test', name: 'Test Business', businessType: types[category], category, city: 'Holly Springs', state: 'MS' };
+      const result = checkWebsiteQuality(await client.generateWebsite(business, WebsiteTemplate.SUSPENDED_DARK), category);
+      console.log(`  ${category}: score ${result.score}`);
+      assert(result.passed, `the ${category} mock site should pass (${result.issues.join('; ')})`);
+    }
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+/**
+ * Registry Import Test Script
+ * Parses each state's fixture export and imports filings into a test database
+ *
+ * Usage:
+ *   npm run test:registry
+ *
+ * Uses its own test database and the fixture files in scripts/fixtures/registry.
+ */
+
+import { readFileSync, rmSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { db } from '../src/database/index.js';
+import {
+  classifyEntityType,
+  displayName,
+  parseDelimited,
+  parseRegistryDate,
+  REGISTRY_IMPORTERS,
+  RegistryImportService,
+  RegistrySource,
+} from '../src/modules/registry/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-registry.db';
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'registry');
+const FIXTURE_FILES: Record<RegistrySource, string> = {
+  ms_sos: 'ms_sos.csv',
+  tn_sos: 'tn_sos.csv',
+  al_sos: 'al_sos.txt',
+  la_sos: 'la_sos.txt',
+  ar_sos: 'ar_sos.txt',
+};
+
+function fixture(source: RegistrySource): string {
+  return readFileSync(join(FIXTURES, FIXTURE_FILES[source]), 'utf-8');
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('REGISTRY IMPORT TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    // 1. Parsing helpers
+    console.log('\n--- PARSERS ---');
+    const rows = parseDelimited('a,"b, ""c""",d\r\n\r\n"multi\nline",2,3\n');
+    assert(rows.length === 2 && rows[0]![1] === 'b, "c"' && rows[1]![0] === 'multi\nline', 'CSV quoting should be handled');
+    assert(parseRegistryDate('9/5/2026', 'MM/DD/YYYY') === '2026-09-05', 'US dates should parse');
+    assert(parseRegistryDate('20261004', 'YYYYMMDD') === '2026-10-04', 'compact dates should parse');
+    assert(parseRegistryDate('02/30/2026', 'MM/DD/YYYY') === null, 'impossible dates should be rejected');
+    assert(classifyEntityType('Foreign Limited Liability Company').kind === 'llc', 'foreign LLCs are still LLCs');
+    assert(classifyEntityType('Foreign Limited Liability Company').foreign, 'foreign filings should be flagged');
+    assert(classifyEntityType('Registered Limited Liability Partnership').kind === 'partnership', 'LLPs are partnerships');
+    assert(classifyEntityType('Nonprofit Corporation').kind === 'nonprofit', 'nonprofits should be recognized');
+    assert(displayName("JOE'S BARBER SHOP, LLC") === "Joe's Barber Shop", 'all-caps names should be tidied');
+    assert(displayName('Bayou Lawn Care, L.L.C.') === 'Bayou Lawn Care', 'designators should be dropped');
+    console.log('Parsers OK');
+
+    // 2. Every state's fixture parses
+    console.log('\n--- FIXTURES ---');
+    const expected: Record<RegistrySource, { records: number; invalid: number }> = {
+      ms_sos: { records: 8, invalid: 1 },
+      tn_sos: { records: 3, invalid: 0 },
+      al_sos: { records: 3, invalid: 0 },
+      la_sos: { records: 3, invalid: 0 },
+      ar_sos: { records: 3, invalid: 0 },
+    };
+    for (const [source, importer] of Object.entries(REGISTRY_IMPORTERS) as [RegistrySource, typeof REGISTRY_IMPORTERS[RegistrySource]][]) {
+      const { records, invalid } = importer.parse(fixture(source));
+      console.log(`${source}: ${records.length} filing(s), ${invalid} unreadable (${importer.format})`);
+      assert(records.length === expected[source].records, `${source} should parse ${expected[source].records} filings`);
+      assert(invalid === expected[source].invalid, `${source} should have ${expected[source].invalid} unreadable rows`);
+      assert(records.every((r) => r.source === source && r.filingId && r.formationDate), `${source} filings should have IDs and dates`);
+    }
+
+    const al = REGISTRY_IMPORTERS.al_sos.parse(fixture('al_sos')).records[1]!;
+    assert(al.name === 'TENNESSEE VALLEY TIRE & AUTO INC' && al.principalAddress?.city === 'MUSCLE SHOALS', 'fixed-width fields should line up');
+    assert(al.county === 'COLBERT' && al.registeredAgent?.name === 'RAY TURNER', 'fixed-width county and agent should be read');
+    const taco = REGISTRY_IMPORTERS.ms_sos.parse(fixture('ms_sos')).records.find((r) => r.filingId === '1400109')!;
+    assert(taco.name === 'THE "BIG" TACO TRUCK, LLC' && taco.principalAddress?.street === '88 HWY 178, LOT 2', 'quoted CSV fields should be read');
+
+    // 3. Import with filters and dedupe
+    console.log('\n--- IMPORT ---');
+    const placesBarber = db.insertBusiness({
+      name: "Joe's Barber Shop",
+      address: '120 North Main Street',
+      city: 'Holly Springs',
+      state: 'MS',
+      source: 'google_places',
+      source_id: 'PLACE-JOES',
+    });
+
+    const service = new RegistryImportService();
+    const ms = service.importFile('ms_sos', join(FIXTURES, FIXTURE_FILES.ms_sos), { formedAfter: '2026-09-01' });
+    console.log(JSON.stringify(ms));
+    assert(ms.saved === 3, 'three new Mississippi filings should be saved');
+    assert(ms.filteredOut === 4, 'the nonprofit, old, foreign and dissolved filings should be filtered out');
+    assert(ms.duplicates === 1 && ms.linked === 1, 'the barber shop already found on Places should be linked, not duplicated');
+
+    const linked = db.getBusinessById(placesBarber.id)!;
+    assert(linked.formation_date === '2026-09-15' && linked.registered_agent_name === 'JOE SMITH', 'the Places record should get the filing details');
+    assert(linked.county === 'Marshall', 'missing county should be filled from the filing');
+
+    const plumber = db.getBusinessBySourceId('ms_sos', '1400102')!;
+    assert(plumber.name === 'Magnolia Plumbing & Drain', 'the name should be tidied');
+    assert(plumber.category === 'plumber', 'the category should be inferred from the name');
+    assert(plumber.address === '45 OAK AVE' && plumber.city === 'Holly Springs', 'an individual agent\'s address should stand in for a missing principal address');
+    assert(plumber.lead_score !== null, 'imported businesses should be scored');
+
+    const holdings = db.getBusinessBySourceId('ms_sos', '1400103')!;
+    assert(holdings.address === null && holdings.state === 'MS', 'a commercial agent\'s address should not be used as the location');
+    assert(holdings.registered_agent_name === 'CT CORPORATION SYSTEM', 'the agent should still be recorded');
+
+    const again = service.importFile('ms_sos', join(FIXTURES, FIXTURE_FILES.ms_sos), { formedAfter: '2026-09-01' });
+    assert(again.saved === 0 && again.alreadyImported === 3 && again.linked === 0, 'importing the same file twice should add nothing');
+
+    const dryRun = service.importContent('tn_sos', fixture('tn_sos'), { dryRun: true });
+    assert(dryRun.saved === 2 && db.getBusinessBySourceId('tn_sos', '001234567') === null, 'a dry run should not write');
+
+    const kinds = service.importContent('tn_sos', fixture('tn_sos'), { entityKinds: ['llc'] });
+    assert(kinds.saved === 1 && kinds.filteredOut === 2, 'entity kind filters should apply');
+
+    for (const source of ['al_sos', 'la_sos', 'ar_sos'] as const) {
+      const summary = service.importContent(source, fixture(source), { formedAfter: '2026-01-01' });
+      assert(summary.saved === 2 && summary.filteredOut === 1, `${source} should save two filings`);
+    }
+
+    assert(db.getBusinessBySourceId('ms_sos', '1400109')!.name === 'The "Big" Taco Truck', 'quoted words should be title cased');
+
+    const caterer = db.getBusinessBySourceId('la_sos', '43210988D')!;
+    assert(caterer.county === 'Bossier' && caterer.category === 'restaurant', 'parish and category should be mapped');
+    assert(caterer.city === 'Bossier City', 'multi-word cities should be title cased');
+    console.log('Imports filtered, mapped and deduped as expected');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -0,0 +1,334 @@
+#!/usr/bin/env tsx
+/**
+ * Reply Ingestion Test Script
+ * Drops reply fixtures into a temporary maildir and checks how they're matched, classified and recorded,
+ * and that bounce and complaint reports suppress the address they're about
+ *
+ * Usage:
+ *   npm run test:replies
+ *
+ * Uses its own test database and maildir under ./data.
+ */
+
+import { readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { db } from '../src/database/index.js';
+import { MaildirMailbox, ReplyIngester, classifyReply, stripQuotedText } from '../src/modules/outreach/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-replies.db';
+const TEST_MAILDIR = './data/test-mailbox';
+
+// Record a sent outreach email the way OutreachService does
+function recordSentEmail(businessId: string, to: string, messageId: string): void {
+  const log = db.logOutreach({ business_id: businessId, method: 'email', notes: `Sent to ${to}` });
+  db.insertEmailMessage({
+    outreach_id: log.id,
+    business_id: businessId,
+    template_id: null,
+    message_id: messageId,
+    to_email: to,
+    subject: 'We built a website for you',
+    sent_at: log.sent_at,
+  });
+}
+
+function deliver(file: string, lines: string[]): void {
+  writeFileSync(join(TEST_MAILDIR, 'new', file), lines.join('\r\n'));
+}
+
+const QUOTED_FOOTER = [
+  'On Mon, Mar 3, 2025 at 10:00 AM Outreach <outreach@example.com> wrote:',
+  '> We built a website for your business. Not interested? Unsubscribe:',
+  '> https://track.example.com/u/abc',
+];
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('REPLY INGESTION TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  rmSync(TEST_MAILDIR, { recursive: true, force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    const businesses = ['Magnolia Bakery', 'Delta Auto Repair', 'Riverside Salon', 'Oak Street Diner'].map((name, i) => {
+      const business = db.insertBusiness({
+        name,
+        city: 'Oxford',
+        state: 'MS',
+        source: 'ms_sos',
+        source_id: `REPLY-TEST-00${i + 1}`,
+      });
+      recordSentEmail(business.id, `owner${i + 1}@example.com`, `<sent-${i + 1}@outreach.example.com>`);
+      return business;
+    });
+
+    // 1. Classifier and quote stripping
+    console.log('\n--- CLASSIFIER ---');
+    const plain = { headers: {}, subject: 'Re: We built a website for you' };
+    assert(classifyReply(plain, 'Yes! How much would it cost?') === 'interested', 'pricing question is interested');
+    assert(classifyReply(plain, "Thanks but we're not interested.") === 'not_interested', '"not interested" is not interested');
+    assert(classifyReply(plain, 'Please remove me from your list') === 'unsubscribe', 'removal request is unsubscribe');
+    assert(classifyReply({ headers: {}, subject: 'Automatic reply: We built...' }, 'Thanks for your email') === 'out_of_office', 'auto reply subject is out of office');
+    assert(classifyReply(plain, 'Who is this?') === 'unknown', 'unclear reply is unknown');
+    assert(stripQuotedText(['Sounds great', '', ...QUOTED_FOOTER].join('\n')) === 'Sounds great', 'quoted history is removed');
+    console.log('Classifier checks passed');
+
+    // 2. Deliver fixtures
+    console.log('\n--- INGEST ---');
+    const mailbox = new MaildirMailbox(TEST_MAILDIR);
+
+    deliver('1.eml', [
+      'From: "Jane Owner" <Owner1@Example.com>',
+      'To: outreach@example.com',
+      'Subject: Re: We built a website for you',
+      'Date: Tue, 4 Mar 2025 09:15:00 -0600',
+      'Message-ID: <reply-1@mail.example.com>',
+      'In-Reply-To: <sent-1@outreach.example.com>',
+      '',
+      'Love it! Can you call me this afternoon?',
+      '',
+      ...QUOTED_FOOTER,
+    ]);
+
+    deliver('2.eml', [
+      'From: owner2@example.com',
+      'Subject: Re: We built a website for you',
+      'Date: Tue, 4 Mar 2025 10:00:00 -0600',
+      'Message-ID: <reply-2@mail.example.com>',
+      'References: <unrelated@elsewhere.example.com> <sent-2@outreach.example.com>',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'No thanks, we already have a website =E2=80=94 good luck.',
+    ]);
+
+    deliver('3.eml', [
+      'From: owner3@example.com',
+      'Subject: =?UTF-8?B?UmU6IFdlIGJ1aWx0IGEgd2Vic2l0ZQ==?=',
+      'Message-ID: <reply-3@mail.example.com>',
+      'In-Reply-To: <sent-3@outreach.example.com>',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('Please stop emailing us.').toString('base64'),
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Please stop emailing us.</p>',
+      '--b1--',
+    ]);
+
+    deliver('4.eml', [
+      'From: owner4@example.com',
+      'Subject: Out of Office',
+      'Auto-Submitted: auto-replied',
+      'Message-ID: <reply-4@mail.example.com>',
+      'In-Reply-To: <sent-4@outreach.example.com>',
+      '',
+      'I am out of the office until Monday.',
+    ]);
+
+    deliver('5.eml', [
+      'From: stranger@example.com',
+      'Subject: Hello',
+      'Message-ID: <reply-5@mail.example.com>',
+      '',
+      'Are you hiring?',
+    ]);
+
+    deliver('6.eml', [
+      'From: someone@example.com',
+      'Subject: unsubscribe',
+      'Message-ID: <reply-6@mail.example.com>',
+      '',
+      '',
+    ]);
+
+    const result = await new ReplyIngester(mailbox).ingest();
+    console.log('Ingest result:', result);
+    assert(result.processed === 6, 'all six messages should be processed');
+    assert(result.matched === 4 && result.unmatched === 2, 'four replies should match sent emails');
+    assert(result.byClassification.interested === 1, 'one interested reply');
+    assert(result.byClassification.not_interested === 1, 'one not interested reply');
+    assert(result.byClassification.unsubscribe === 1, 'one unsubscribe reply');
+    assert(result.byClassification.out_of_office === 1, 'one out of office reply');
+
+    // 3. Effects
+    console.log('\n--- EFFECTS ---');
+    const [interested, declined, unsubscribed, away] = businesses.map((b) => ({
+      business: db.getBusinessById(b.id)!,
+      outreach: db.getOutreachByBusinessId(b.id)[0]!,
+      replies: db.getEmailRepliesByBusinessId(b.id),
+    }));
+
+    assert(interested!.business.status === 'interested', 'interested business should move to "interested"');
+    assert(interested!.outreach.response === 'Love it! Can you call me this afternoon?', 'response should be the unquoted reply');
+    assert(interested!.outreach.notes?.startsWith('Sent to owner1@example.com'), 'existing notes should be kept');
+    assert(interested!.replies[0]?.from_email === 'owner1@example.com', 'sender should be stored lowercased');
+
+    assert(declined!.business.status === 'lost', 'declined business should be marked lost');
+    assert(db.getBusinessStatusHistory(declined!.business.id).at(-1)?.actor === 'replies', 'reply should be recorded as the actor');
+    assert(declined!.outreach.response?.includes('already have a website — good luck'), 'quoted-printable body should be decoded');
+
+    assert(unsubscribed!.outreach.response === 'Please stop emailing us.', 'base64 text part should be used');
+    assert(db.getEmailSuppression('owner3@example.com')?.reason === 'unsubscribe', 'unsubscribe reply should suppress the address');
+    assert(unsubscribed!.replies[0]?.subject === 'Re: We built a website', 'encoded subject should be decoded');
+
+    assert(away!.outreach.response === null, 'out of office should not count as a response');
+    assert(away!.replies[0]?.classification === 'out_of_office', 'out of office reply should still be stored');
+
+    assert(db.getEmailSuppression('someone@example.com')?.reason === 'unsubscribe', 'mailto: unsubscribe should suppress the sender');
+    assert(db.getEmailSuppression('stranger@example.com') === null, 'other unmatched mail should be ignored');
+    console.log('Responses, statuses and suppressions recorded');
+
+    // 4. Processed messages aren't read again; re-delivered replies aren't duplicated
+    console.log('\n--- RE-RUN ---');
+    assert(readdirSync(join(TEST_MAILDIR, 'new')).length === 0, 'new/ should be empty');
+    assert(readdirSync(join(TEST_MAILDIR, 'cur')).every((f) => f.endsWith(':2,S')), 'processed messages should be marked seen');
+
+    deliver('1-again.eml', [
+      'From: owner1@example.com',
+      'Subject: Re: We built a website for you',
+      'Message-ID: <reply-1@mail.example.com>',
+      'In-Reply-To: <sent-1@outreach.example.com>',
+      '',
+      'Love it!',
+    ]);
+    const rerun = await new ReplyIngester(mailbox).ingest();
+    console.log('Re-run result:', rerun);
+    assert(rerun.processed === 1 && rerun.duplicates === 1, 're-delivered reply should be a duplicate');
+    assert(db.getEmailRepliesByBusinessId(businesses[0]!.id).length === 1, 'duplicate should not be stored');
+
+    // 5. Bounce (DSN) and complaint (ARF) reports
+    console.log('\n--- REPORTS ---');
+    const [bounced, complained, delayed] = ['Hilltop Hardware', 'Square Books', 'Lamar Lounge'].map((name, i) => {
+      const business = db.insertBusiness({ name, city: 'Oxford', state: 'MS', source: 'ms_sos', source_id: `REPLY-REPORT-00${i + 1}` });
+      recordSentEmail(business.id, `report${i + 1}@example.com`, `<report-${i + 1}@outreach.example.com>`);
+      return business;
+    });
+
+    deliver('7.eml', [
+      'From: Mail Delivery System <MAILER-DAEMON@mx.example.com>',
+      'To: outreach@example.com',
+      'Subject: Undelivered Mail Returned to Sender',
+      'Message-ID: <dsn-1@mx.example.com>',
+      'Auto-Submitted: auto-replied',
+      'Content-Type: multipart/report; report-type=delivery-status; boundary="dsn"',
+      '',
+      '--dsn',
+      'Content-Type: text/plain',
+      '',
+      'I\'m sorry to have to inform you that your message could not be delivered.',
+      '',
+      '--dsn',
+      'Content-Type: message/delivery-status',
+      '',
+      'Reporting-MTA: dns; mx.example.com',
+      '',
+      'Final-Recipient: rfc822; Report1@Example.com',
+      'Original-Recipient: rfc822;report1@example.com',
+      'Action: failed',
+      'Status: 5.1.1',
+      'Diagnostic-Code: smtp; 550 5.1.1 <report1@example.com>: Recipient address',
+      '  rejected: User unknown',
+      '',
+      '--dsn',
+      'Content-Type: text/rfc822-headers',
+      '',
+      'From: outreach@example.com',
+      'To: report1@example.com',
+      'Subject: We built a website for you',
+      'Message-ID: <report-1@outreach.example.com>',
+      '',
+      '--dsn--',
+    ]);
+
+    deliver('8.eml', [
+      'From: staff@feedback.example.net',
+      'To: abuse@outreach.example.com',
+      'Subject: FW: We built a website for you',
+      'Message-ID: <arf-1@feedback.example.net>',
+      'Content-Type: multipart/report; report-type=feedback-report;',
+      '  boundary="arf"',
+      '',
+      '--arf',
+      'Content-Type: text/plain',
+      '',
+      'This is an email abuse report for an email message received from IP 203.0.113.5.',
+      '',
+      '--arf',
+      'Content-Type: message/feedback-report',
+      '',
+      'Feedback-Type: abuse',
+      'User-Agent: SomeGenerator/1.0',
+      'Version: 1',
+      '',
+      '--arf',
+      'Content-Type: message/rfc822',
+      '',
+      'From: outreach@example.com',
+      'To: redacted',
+      'Subject: We built a website for you',
+      'Message-ID: <report-2@outreach.example.com>',
+      '',
+      'We built a website for your business.',
+      '',
+      '--arf--',
+    ]);
+
+    deliver('9.eml', [
+      'From: MAILER-DAEMON@mx.example.com',
+      'Subject: Delivery Status Notification (Delay)',
+      'Message-ID: <dsn-2@mx.example.com>',
+      'Content-Type: multipart/report; report-type=delivery-status; boundary="delay"',
+      '',
+      '--delay',
+      'Content-Type: message/delivery-status',
+      '',
+      'Reporting-MTA: dns; mx.example.com',
+      '',
+      'Final-Recipient: rfc822; report3@example.com',
+      'Action: delayed',
+      'Status: 4.2.2',
+      '',
+      '--delay--',
+    ]);
+
+    const reports = await new ReplyIngester(mailbox).ingest();
+    console.log('Report result:', reports);
+    assert(reports.bounces === 2 && reports.complaints === 1 && reports.matched === 0 && reports.unmatched === 0, 'reports should be counted, not treated as replies');
+
+    const bounce = db.getEmailSuppression('report1@example.com');
+    assert(bounce?.reason === 'hard_bounce' && bounce.business_id === bounced!.id, 'a failed DSN should suppress the recipient as a hard bounce');
+    assert(bounce.detail?.includes('5.1.1') && bounce.detail.includes('User unknown'), 'the bounce should keep the status and diagnostic code');
+
+    const complaint = db.getEmailSuppression('report2@example.com');
+    assert(complaint?.reason === 'complaint' && complaint.business_id === complained!.id, 'an ARF report should suppress the address we sent the quoted email to');
+    assert(db.getEmailSuppression('redacted') === null, 'a redacted recipient should not be suppressed');
+
+    assert(db.getEmailSuppression('report3@example.com') === null, 'a delayed delivery should not suppress the address');
+    assert(db.getEmailRepliesByBusinessId(delayed!.id).length === 0 && db.getEmailRepliesByBusinessId(bounced!.id).length === 0, 'reports should not be stored as replies');
+    console.log('Hard bounce and complaint suppressed, delay only logged');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_MAILDIR, { recursive: true, force: true });
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -16,7 +16,8 @@ import { execSync } from 'child_process';
 import { join } from 'path';
 import type { BusinessInfo } from '../src/modules/generator/types.js';
 import { WebsiteTemplate } from '../src/modules/generator/types.js';
-import { buildRestaurantPremiumPrompt, checkWebsiteQuality } from '../src/modules/generator/templates/restaurant-premium.js';
+import { buildRestaurantPremiumPrompt } from '../src/modules/generator/templates/restaurant-premium.js';
+import { checkWebsiteQuality } from '../src/modules/generator/templates/quality/index.js';
 import { db } from '../src/database/index.js';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -129,12 +130,12 @@ async function main(): Promise<void> {
   // ── Quality check ─────────────────────────────────────────────────────────
   console.log('');
   console.log('Running quality check...');
-  const quality = checkWebsiteQuality(html);
+  const quality = checkWebsiteQuality(html, 'restaurant');
 
   if (quality.passed) {
-    console.log('  PASSED — no hard failures detected');
+    console.log(`  PASSED — no hard failures detected (score ${quality.score}/100)`);
   } else {
-    console.log(`  FAILED — ${quality.issues.length} issue(s):`);
+    console.log(`  FAILED — ${quality.issues.length} issue(s), score ${quality.score}/100:`);
     for (const issue of quality.issues) {
       console.log(`    ✗ ${issue}`);
     }
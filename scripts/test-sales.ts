@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+/**
+ * Sales Module Test Script
+ * Walks a business from proposal through webhook payments to production handoff
+ *
+ * Usage:
+ *   npm run test:sales
+ *
+ * Uses its own test database, a local webhook server on a free port, and the
+ * Vercel client in mock mode or replaying scripts/fixtures/handoff.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import { DeploymentService, VercelClient } from '../src/modules/deployment/index.js';
+import {
+  HandoffService,
+  InvalidProposalTransitionError,
+  PaymentService,
+  PaymentWebhookServer,
+  ProposalService,
+  WebhookSecretMissingError,
+} from '../src/modules/sales/index.js';
+import type { PaymentWebhookEvent } from '../src/modules/sales/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-sales.db';
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('SALES MODULE TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  const proposals = new ProposalService();
+  const payments = new PaymentService({ secret: 'test-secret', port: 0 }, proposals);
+  const server = new PaymentWebhookServer(payments);
+  const port = await server.start(0, '127.0.0.1');
+
+  const post = async (event: PaymentWebhookEvent, signature?: string): Promise<number> => {
+    const body = JSON.stringify(event);
+    const response = await fetch(`http://127.0.0.1:${port}/webhooks/payments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Payment-Signature': signature ?? payments.sign(body) },
+      body,
+    });
+    return response.status;
+  };
+
+  try {
+    const business = db.insertBusiness({
+      name: "Marcus's Barber Shop",
+      city: 'Holly Springs',
+      state: 'MS',
+      source: 'ms_sos',
+      source_id: 'SALES-TEST-001',
+    });
+    const v1 = db.insertWebsite({ business_id: business.id, template_name: 'barber-premium', variation_number: 1, html_content: '<html>v1</html>' });
+    const v2 = db.insertWebsite({ business_id: business.id, template_name: 'barber-premium', variation_number: 2, html_content: '<html>v2</html>' });
+    db.updateBusinessStatus(business.id, 'website_generated');
+    db.markWebsiteDeployed(v2.id, 'https://marcuss-barber-shop-v2.vercel.app');
+    db.logOutreach({ business_id: business.id, method: 'in_person' });
+    db.updateBusinessStatus(business.id, 'interested');
+
+    // 1. Proposals
+    console.log('\n--- PROPOSALS ---');
+    const first = proposals.createProposal({ businessId: business.id, websiteId: v1.id, priceCents: 39900 });
+    const proposal = proposals.createProposal({ businessId: business.id, websiteId: v2.id, priceCents: 49900 });
+    assert(db.getProposalById(first.id)?.status === 'withdrawn', 'new proposal should withdraw the open one');
+
+    let rejected = false;
+    try {
+      proposals.createProposal({ businessId: business.id, websiteId: v2.id, priceCents: 0 });
+    } catch {
+      rejected = true;
+    }
+    assert(rejected, 'zero price should be rejected');
+
+    let invalid: unknown = null;
+    try {
+      proposals.accept(first.id);
+    } catch (error) {
+      invalid = error;
+    }
+    assert(invalid instanceof InvalidProposalTransitionError, 'withdrawn proposal cannot be accepted');
+    console.log(`Proposal ${proposal.id} sent for variation 2`);
+
+    // 2. Handoff before payment
+    const deployment = new DeploymentService(new VercelClient({ vercelToken: '' }));
+    const handoff = new HandoffService(deployment, payments);
+    const early = await handoff.handoff(proposal.id, 'marcusbarbers.com');
+    assert(!early.success && early.error?.includes('not accepted'), 'unaccepted proposal cannot be handed off');
+
+    // 3. Payments through the webhook
+    console.log('\n--- PAYMENTS ---');
+    const deposit: PaymentWebhookEvent = {
+      id: 'evt_deposit',
+      type: 'payment.succeeded',
+      data: { proposal_id: proposal.id, amount_cents: 20000, currency: 'usd' },
+    };
+
+    assert(await post(deposit, 'bad-signature') === 401, 'bad signature should be rejected');
+    assert(await post(deposit) === 200, 'signed deposit should be accepted');
+    assert(await post(deposit) === 200, 'redelivered event should still return 200');
+    assert(db.getPaymentsByProposalId(proposal.id).length === 1, 'redelivered event should not be recorded twice');
+    assert(db.getProposalById(proposal.id)?.status === 'accepted', 'payment should accept the proposal');
+    assert(db.getBusinessById(business.id)?.status === 'sold', 'accepted proposal should mark the business sold');
+
+    await post({ id: 'evt_failed', type: 'payment.failed', data: { proposal_id: proposal.id, amount_cents: 29900 } });
+    assert(await post({ id: 'evt_eur', type: 'payment.succeeded', data: { proposal_id: proposal.id, amount_cents: 29900, currency: 'eur' } }) === 400, 'wrong currency should be rejected');
+
+    let summary = payments.getSummary(proposal.id);
+    assert(summary.paidCents === 20000 && summary.balanceCents === 29900 && !summary.paid, 'failed payment should not count');
+
+    const partial = await handoff.handoff(proposal.id, 'marcusbarbers.com');
+    assert(!partial.success && partial.error?.includes('$299.00 outstanding'), 'partly paid proposal cannot be handed off');
+
+    await post({ id: 'evt_balance', type: 'payment.succeeded', data: { proposal_id: proposal.id, amount_cents: 29900 } });
+    await post({ id: 'evt_refund', type: 'refund.succeeded', data: { proposal_id: proposal.id, amount_cents: 1000 } });
+    summary = payments.getSummary(proposal.id);
+    assert(summary.paidCents === 48900 && !summary.paid, 'refund should be subtracted');
+    await post({ id: 'evt_topup', type: 'payment.succeeded', data: { proposal_id: proposal.id, amount_cents: 1000 } });
+    summary = payments.getSummary(proposal.id);
+    assert(summary.paid && summary.payments.length === 5, 'proposal should be paid in full');
+    console.log(`Ledger has ${summary.payments.length} entries, paid in full`);
+
+    // Without a secret nothing is signed or accepted
+    const unsigned = new PaymentService({ secret: '', port: 0 }, proposals);
+    const body = JSON.stringify({ ...deposit, id: 'evt_forged' });
+    let refused: unknown = null;
+    try {
+      await new PaymentWebhookServer(unsigned).start(0, '127.0.0.1');
+    } catch (error) {
+      refused = error;
+    }
+    assert(refused instanceof WebhookSecretMissingError, 'the webhook server should not start without a secret');
+    assert(!unsigned.handleWebhook(body, payments.sign(body)).accepted, 'events should be rejected without a secret');
+    let signed = true;
+    try {
+      unsigned.sign(body);
+    } catch (error) {
+      signed = !(error instanceof WebhookSecretMissingError);
+    }
+    assert(!signed && db.getPaymentsByProposalId(proposal.id).length === 5, 'nothing should be signed or recorded without a secret');
+    console.log('No secret: server refused, events rejected');
+
+    // 4. Handoff
+    console.log('\n--- HANDOFF ---');
+    const bad = await handoff.handoff(proposal.id, 'not a domain');
+    assert(!bad.success, 'invalid domain should be rejected');
+
+    const result = await handoff.handoff(proposal.id, 'https://MarcusBarbers.com/');
+    console.log('Handoff result:', result);
+    assert(result.success && result.deployment?.status === 'live', 'paid proposal should be handed off');
+    assert(result.deployment.domain === 'marcusbarbers.com', 'domain should be normalised');
+    assert(result.deployment.website_id === v2.id, 'the chosen variation should be deployed');
+    assert(result.deployment.project_name === 'marcusbarbers-com-prod', 'production should use its own project');
+    assert(db.getWebsiteById(v2.id)?.preview_url === 'https://marcuss-barber-shop-v2.vercel.app', 'preview deployment should be untouched');
+
+    // 5. Handoff while DNS is pending, then re-run until the domain verifies
+    console.log('\n--- DNS PENDING ---');
+    delete process.env['VERCEL_TOKEN'];
+    delete process.env['VERCEL_TEAM_ID'];
+    process.env['HTTP_CASSETTES'] = 'replay';
+    process.env['HTTP_CASSETTE_DIR'] = './scripts/fixtures/handoff';
+    const vercel = new VercelClient();
+    const replayed = new HandoffService(new DeploymentService(vercel), payments);
+
+    const pending = await replayed.handoff(proposal.id, 'marcusbarbers.com');
+    assert(pending.success && pending.deployment?.status === 'pending_dns', `an unverified domain should wait for DNS: ${pending.error}`);
+    assert(pending.deployment.detail === 'TXT _vercel.marcusbarbers.com vc-domain-verify=marcusbarbers.com,4c1d8e0b7a9f2e6d3b5a', 'the DNS records should be recorded');
+
+    const stillPending = await replayed.handoff(proposal.id, 'marcusbarbers.com');
+    assert(stillPending.success && stillPending.deployment?.status === 'pending_dns', `a re-run before DNS is fixed should stay pending: ${stillPending.error}`);
+    assert(stillPending.deployment.detail === pending.deployment.detail, 'the re-run should repeat the same records');
+
+    const live = await replayed.handoff(proposal.id, 'marcusbarbers.com');
+    assert(live.success && live.deployment?.status === 'live', `the domain already on the project should verify on re-run: ${live.error}`);
+    const attempts = db.getProductionDeploymentsByBusinessId(business.id).map((record) => record.status);
+    assert(attempts.filter((status) => status === 'pending_dns').length === 2 && attempts.filter((status) => status === 'live').length === 2, `each attempt should be recorded: ${attempts.join(',')}`);
+
+    const taken = await vercel.addDomain('marcusbarbers-com-prod', 'taken.com');
+    assert(taken.error === 'Domain is already in use by another project', 'a domain on another project should still be an error');
+    console.log('pending_dns -> pending_dns -> live');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    await server.stop();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -0,0 +1,125 @@
+#!/usr/bin/env tsx
+/**
+ * Lead Scoring Test Script
+ * Scores a handful of test leads and checks generation and deployment pick the best first
+ *
+ * Usage:
+ *   npm run test:scoring
+ *
+ * Uses its own test database.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import type { BusinessInsert } from '../src/database/types.js';
+import { getLeadScoreDetails, LeadScoringService } from '../src/modules/scoring/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-scoring.db';
+const BASE = { latitude: 34.7673, longitude: -89.4487 }; // Holly Springs, MS
+
+function lead(name: string, data: Partial<BusinessInsert>): string {
+  return db.insertBusiness({
+    name,
+    city: 'Holly Springs',
+    state: 'MS',
+    source: 'google_places',
+    source_id: `SCORE-TEST-${name}`,
+    ...data,
+  }).id;
+}
+
+// Record a clean website check so the lead can be queued for generation
+function verified(id: string): void {
+  db.insertWebsiteVerification({ business_id: id, confidence: 1, verdict: 'no_website', evidence: '[]' });
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('LEAD SCORING TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    const strong = lead('Busy Plumbing', {
+      category: 'plumber',
+      phone: '662-555-0111',
+      rating: 4.8,
+      user_ratings_total: 120,
+      latitude: 34.77,
+      longitude: -89.45,
+      place_status: 'OPERATIONAL',
+    });
+    const middling = lead('Quiet Diner', {
+      category: 'restaurant',
+      rating: 3.6,
+      user_ratings_total: 6,
+      latitude: 35.15,
+      longitude: -90.05,
+      place_status: 'OPERATIONAL',
+    });
+    const unknown = lead('Mystery Shop', {});
+    const closed = lead('Gone Barbers', { category: 'barber_shop', phone: '662-555-0112', rating: 4.9, place_status: 'CLOSED_PERMANENTLY' });
+
+    // 1. Scores
+    console.log('\n--- SCORES ---');
+    const scoring = new LeadScoringService({ base: BASE });
+    const summary = scoring.rescore();
+    assert(summary.scored === 4 && summary.disqualified === 1, 'all four leads should be scored, one disqualified');
+
+    const scoreOf = (id: string): number => db.getBusinessById(id)!.lead_score!;
+    for (const id of [strong, middling, unknown, closed]) {
+      console.log(`${db.getBusinessById(id)!.name.padEnd(16)} ${scoreOf(id)}`);
+    }
+    assert(scoreOf(strong) > scoreOf(middling), 'a well-reviewed nearby plumber should beat a weak distant diner');
+    assert(scoreOf(middling) > 0 && scoreOf(unknown) > 0, 'open leads should score above zero');
+    assert(scoreOf(closed) === 0, 'permanently closed leads should score zero');
+
+    const details = getLeadScoreDetails(db.getBusinessById(strong)!);
+    assert(details?.components.distance?.known === true, 'distance should be scored when a base is set');
+    assert(getLeadScoreDetails(db.getBusinessById(closed)!)?.disqualified === 'Permanently closed', 'disqualification reason should be stored');
+    console.log('Scores ranked as expected');
+
+    // 2. Generation order
+    console.log('\n--- GENERATION ORDER ---');
+    [strong, middling, unknown, closed].forEach(verified);
+    const queue = db.getBusinessesNeedingWebsites(10, 0.6, 1).map((b) => b.id);
+    assert(queue[0] === strong, 'the best lead should be generated first');
+    assert(!queue.includes(closed), 'disqualified leads should not be generated');
+    assert(queue.length === 3, 'the other open leads should still be queued');
+    console.log(`Generation order: ${queue.map((id) => db.getBusinessById(id)!.name).join(', ')}`);
+
+    // 3. Deployment order
+    console.log('\n--- DEPLOYMENT ORDER ---');
+    db.insertWebsite({ business_id: middling, template_name: 'restaurant-premium', html_content: '<html></html>' });
+    db.insertWebsite({ business_id: strong, template_name: 'suspended_dark', html_content: '<html></html>' });
+    const pending = db.getWebsitesPendingDeployment(10);
+    assert(pending[0]?.business_id === strong, 'the best lead\'s site should deploy first even if generated later');
+    console.log('Deployment picks the best lead first');
+
+    // 4. Rescoring after new data
+    console.log('\n--- RESCORE ---');
+    const before = scoreOf(middling);
+    db.updateBusiness(middling, { rating: 4.9, user_ratings_total: 300, phone: '662-555-0113' });
+    scoring.scoreAndSave(db.getBusinessById(middling)!);
+    assert(scoreOf(middling) > before, 'better data should raise the score');
+    assert(scoring.rescore({ onlyUnscored: true }).scored === 0, 'nothing should be left unscored');
+    console.log(`Quiet Diner: ${before} -> ${scoreOf(middling)}`);
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
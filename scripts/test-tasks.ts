@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+/**
+ * Call/Visit Queue Test Script
+ * Builds the phone and in-person queue from test businesses and walks tasks through each outcome
+ *
+ * Usage:
+ *   npm run test:tasks
+ *
+ * Uses its own test database.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import { TaskQueueService } from '../src/modules/outreach/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-tasks.db';
+
+function deployedBusiness(name: string, city: string, address: string, phone: string | null): string {
+  const business = db.insertBusiness({
+    name,
+    city,
+    state: 'MS',
+    address,
+    phone,
+    category: 'barber_shop',
+    source: 'ms_sos',
+    source_id: `TASK-TEST-${name}`,
+  });
+  const website = db.insertWebsite({ business_id: business.id, template_name: 'barber-premium', html_content: '<html></html>' });
+  db.updateBusinessStatus(business.id, 'website_generated');
+  db.markWebsiteDeployed(website.id, `https://${name.toLowerCase().replace(/\W+/g, '-')}.vercel.app`);
+  return business.id;
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('CALL/VISIT QUEUE TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    const fade = deployedBusiness('Fade Masters', 'Oxford', '200 Jackson Ave', '662-555-0101');
+    const clip = deployedBusiness('Clip Joint', 'Oxford', '15 Jackson Ave', '662-555-0102');
+    const sharp = deployedBusiness('Sharp Edges', 'Tupelo', '9 Main St', '662-555-0103');
+    deployedBusiness('No Phone Cuts', 'Oxford', '1 Lamar Blvd', null);
+    db.insertBusiness({ name: 'Not Deployed', city: 'Oxford', state: 'MS', phone: '662-555-0104', source: 'ms_sos', source_id: 'TASK-TEST-X' });
+
+    // Do-not-contact business is never queued
+    const blocked = deployedBusiness('Blocked Barbers', 'Oxford', '3 Van Buren Ave', '662-555-0105');
+    const log = db.logOutreach({ business_id: blocked, method: 'email' });
+    db.updateOutreachResponse(log.id, 'Do not contact us');
+
+    const queue = new TaskQueueService(undefined, { maxAttempts: 2, retryAfterMs: 60 * 60 * 1000 });
+
+    // 1. Build
+    console.log('\n--- BUILD QUEUE ---');
+    assert(queue.buildQueue('phone') === 3, 'three deployed, reachable businesses should be queued for calls');
+    assert(queue.buildQueue('phone') === 0, 'building again should not duplicate tasks');
+    assert(queue.buildQueue('in_person') === 3, 'the same businesses should be queued for visits');
+    console.log('Queued 3 calls and 3 visits');
+
+    // 2. Scripts and routing
+    console.log('\n--- SCRIPTS & ROUTES ---');
+    const calls = queue.getDueTasks('phone');
+    assert(calls.length === 3, 'all calls should be due');
+    const script = calls.find((c) => c.business.id === fade)!.script;
+    assert(script.includes('Fade Masters') && script.includes('662-555-0101'), 'script should include the business and phone');
+    assert(script.includes('https://fade-masters.vercel.app'), 'script should include the preview URL');
+    console.log(script);
+
+    const routes = queue.routeVisits();
+    assert(routes.length === 2 && routes[0]!.city === 'Oxford', 'visits should be grouped by city, busiest first');
+    assert(routes[0]!.stops.map((s) => s.business.id).join() === [clip, fade].join(), 'stops should be ordered by street then number');
+    assert(queue.getDueTasks('phone', { city: 'tupelo' })[0]?.business.id === sharp, 'calls can be filtered by city');
+    console.log(`Routes: ${routes.map((r) => `${r.city} (${r.stops.length})`).join(', ')}`);
+
+    // 3. Outcomes
+    console.log('\n--- OUTCOMES ---');
+    const taskFor = (businessId: string) => calls.find((c) => c.business.id === businessId)!.task;
+
+    const noAnswer = queue.recordOutcome(taskFor(fade).id, { outcome: 'no_answer' });
+    assert(noAnswer.status === 'pending' && noAnswer.attempts === 1, 'unanswered call should stay pending');
+    assert(new Date(noAnswer.due_at).getTime() > Date.now() + 59 * 60 * 1000, 'unanswered call should be retried later');
+    assert(!queue.getDueTasks('phone').some((c) => c.task.id === noAnswer.id), 'retried call should not be due yet');
+
+    const gaveUp = queue.recordOutcome(noAnswer.id, { outcome: 'voicemail' });
+    assert(gaveUp.status === 'completed' && gaveUp.last_outcome === 'voicemail', 'call should be given up on after maxAttempts');
+    assert(db.getOutreachByBusinessId(fade)[0]?.response === 'Left a voicemail', 'the voicemail should be logged');
+    assert(db.getOutreachByBusinessId(fade).length === 2, 'every attempt should be logged');
+    assert(db.getBusinessById(fade)?.status === 'deployed', 'no answer or a voicemail should not mark the business contacted');
+
+    const callbackAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const callback = queue.recordOutcome(taskFor(clip).id, { outcome: 'callback', callbackAt, notes: 'Owner is with a client' });
+    assert(callback.status === 'pending' && callback.due_at === callbackAt.toISOString(), 'callback should be rescheduled to the requested time');
+    assert(queue.getDueTasks('phone', { dueBefore: new Date(callbackAt.getTime() + 1000) }).some((c) => c.task.id === callback.id), 'callback should be due at its time');
+
+    let threw = false;
+    try {
+      queue.recordOutcome(callback.id, { outcome: 'callback' });
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'callback without a time should be rejected');
+
+    const interested = queue.recordOutcome(callback.id, { outcome: 'interested' });
+    assert(interested.status === 'completed', 'interested task should be completed');
+    assert(db.getBusinessById(clip)?.status === 'interested', 'business should move to interested');
+    assert(!queue.routeVisits().some((r) => r.stops.some((s) => s.business.id === clip)), 'interested business visit should be cancelled');
+
+    queue.recordOutcome(taskFor(sharp).id, { outcome: 'declined' });
+    assert(db.getOutreachByBusinessId(sharp)[0]?.response === 'Declined', 'declined outcome should be logged as the response');
+    assert(db.getBusinessById(sharp)?.status === 'lost', 'declined business should be marked lost');
+    assert(
+      db.getBusinessStatusHistory(sharp).map((h) => h.to_status).join(',') === 'discovered,website_generated,deployed,contacted,lost',
+      'every move should be recorded in the status history'
+    );
+
+    const logged = db.getOutreachByBusinessId(clip);
+    assert(logged.length === 2 && logged.every((l) => l.method === 'phone'), 'each outcome should be logged as phone outreach');
+
+    // A later no-answer call doesn't move an interested business back to contacted
+    db.logOutreach({ business_id: clip, method: 'phone', notes: 'Follow-up' });
+    assert(db.getBusinessById(clip)?.status === 'interested', 'logging outreach should not undo "interested"');
+    console.log('Outcomes logged and rescheduled correctly');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
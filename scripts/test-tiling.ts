@@ -0,0 +1,170 @@
+#!/usr/bin/env tsx
+/**
+ * Tiled Search Test Script
+ * Runs Places discovery over a dense synthetic area to check grid search and coverage
+ *
+ * Usage:
+ *   npm run test:tiling
+ *
+ * Uses its own test database and a stand-in Places client; no API key needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import {
+  BusinessCategory,
+  DiscoveryService,
+  GooglePlacesClient,
+  GooglePlacesSource,
+  PlacesBusinessResult,
+  ResolvedSearchArea,
+  SearchCircle,
+  tileArea,
+} from '../src/modules/discovery/index.js';
+import { distanceKm } from '../src/utils/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-tiling.db';
+const TUPELO = { latitude: 34.2576, longitude: -88.7034 };
+const AREA = { city: 'Tupelo', state: 'MS', radiusMiles: 15 };
+const RESOLVED: ResolvedSearchArea = { ...AREA, kind: 'city', label: 'Tupelo, MS' };
+const KM_PER_MILE = 1.609344;
+
+// Deterministic pseudo-random numbers so runs are repeatable
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function placeAt(id: string, miles: number, bearing: number): PlacesBusinessResult {
+  const lat = TUPELO.latitude + (miles * Math.cos(bearing)) / 69.0;
+  const lng = TUPELO.longitude + (miles * Math.sin(bearing)) / (69.0 * Math.cos((TUPELO.latitude * Math.PI) / 180));
+  return { place_id: id, name: `Place ${id}`, formatted_address: '', geometry: { lat, lng }, business_status: 'OPERATIONAL' };
+}
+
+/**
+ * Answers Nearby Search like the real API: places within the radius, in a
+ * fixed order, cut off at the requested maximum (at most 60).
+ */
+class StandInPlacesClient extends GooglePlacesClient {
+  searches: SearchCircle[] = [];
+
+  constructor(private places: PlacesBusinessResult[]) {
+    super();
+  }
+
+  override isInMockMode(): boolean {
+    return false;
+  }
+
+  override async geocodeCity(): Promise<{ lat: number; lng: number } | null> {
+    return { lat: TUPELO.latitude, lng: TUPELO.longitude };
+  }
+
+  override async searchBusinesses(area: SearchCircle, _category: BusinessCategory, maxResults = 20): Promise<PlacesBusinessResult[]> {
+    this.searches.push(area);
+    const center = { latitude: area.latitude!, longitude: area.longitude! };
+    return this.places
+      .filter((place) => distanceKm(center, { latitude: place.geometry!.lat, longitude: place.geometry!.lng }) <= area.radiusMiles * KM_PER_MILE)
+      .slice(0, Math.min(maxResults, 60));
+  }
+
+  override async getPlaceDetailsBatch(placeIds: string[]): Promise<PlacesBusinessResult[]> {
+    return placeIds.map((id) => ({ ...this.places.find((place) => place.place_id === id)!, website: 'https://example.com' }));
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('TILED SEARCH TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  try {
+    // 1. Grid layout
+    console.log('\n--- GRID ---');
+    const cells = tileArea({ ...TUPELO, radiusMiles: 15 }, 3);
+    console.log(`${cells.length} cells for a 15 mile radius`);
+    assert(cells.length > 20 && cells.every((cell) => cell.radiusMiles === 3 && cell.depth === 0), 'a 15 mile area should be split into 3 mile cells');
+    assert(tileArea({ ...TUPELO, radiusMiles: 2 }, 3).length === 1, 'an area smaller than a cell should be one search');
+
+    const rand = random(7);
+    for (let i = 0; i < 500; i++) {
+      const point = placeAt('probe', 15 * Math.sqrt(rand()), rand() * 2 * Math.PI).geometry!;
+      const covered = cells.some((cell) =>
+        distanceKm(cell, { latitude: point.lat, longitude: point.lng }) <= cell.radiusMiles * KM_PER_MILE
+      );
+      assert(covered, `every point in the area should be inside a cell (${point.lat}, ${point.lng})`);
+    }
+    console.log('Grid covers the area');
+
+    // 2. A downtown too dense for one search, plus places beyond the area
+    const placeRand = random(42);
+    const places: PlacesBusinessResult[] = [];
+    for (let i = 0; i < 120; i++) places.push(placeAt(`downtown-${i}`, 0.4 * Math.sqrt(placeRand()), placeRand() * 2 * Math.PI));
+    for (let i = 0; i < 200; i++) places.push(placeAt(`county-${i}`, 15 * Math.sqrt(placeRand()), placeRand() * 2 * Math.PI));
+    for (let i = 0; i < 20; i++) places.push(placeAt(`beyond-${i}`, 16 + 3 * placeRand(), placeRand() * 2 * Math.PI));
+    const inside = places.filter((place) => !place.place_id.startsWith('beyond-')).length;
+
+    console.log('\n--- SINGLE SEARCH ---');
+    const single = await new GooglePlacesSource(new StandInPlacesClient(places)).findBusinesses(RESOLVED, BusinessCategory.RESTAURANT, 60);
+    assert(single.places.length === 60, 'one search should stop at the cap');
+    assert(single.coverage.searches === 1 && single.coverage.saturatedCells === 1, 'a search at the cap should be reported as saturated');
+    console.log(JSON.stringify(single.coverage));
+
+    console.log('\n--- TILED SEARCH ---');
+    const client = new StandInPlacesClient(places);
+    const tiled = await new GooglePlacesSource(client, { cellRadiusMiles: 3, maxDepth: 4 }).findBusinesses(RESOLVED, BusinessCategory.RESTAURANT, 60);
+    console.log(JSON.stringify(tiled.coverage));
+    const ids = new Set(tiled.places.map((place) => place.place_id));
+    assert(ids.size === tiled.places.length, 'places found by overlapping cells should be kept once');
+    assert(tiled.places.length === inside, `all ${inside} places in the area should be found (got ${tiled.places.length})`);
+    assert(![...ids].some((id) => id.startsWith('beyond-')), 'places beyond the radius should be dropped');
+    assert(tiled.coverage.saturatedCells === 0, 'split cells should end up under the cap');
+    assert(tiled.coverage.searches > tiled.coverage.cells, 'the dense downtown cell should have been split');
+    assert(tiled.coverage.duplicates > 0 && tiled.coverage.outsideArea > 0, 'overlap and overhang should be counted');
+    assert(client.searches.some((search) => search.radiusMiles < 3), 'split cells should be searched with a smaller radius');
+
+    const shallow = await new GooglePlacesSource(new StandInPlacesClient(places), { cellRadiusMiles: 3, maxDepth: 0 })
+      .findBusinesses(RESOLVED, BusinessCategory.RESTAURANT, 60);
+    assert(shallow.coverage.saturatedCells > 0 && shallow.places.length < inside, 'cells past the maximum depth should stay saturated');
+    console.log('Tiled search found every place once');
+
+    // 3. Coverage in the discovery summary
+    console.log('\n--- SUMMARY ---');
+    const summary = await new DiscoveryService(
+      { areas: [AREA], categories: [BusinessCategory.RESTAURANT], maxResultsPerSearch: 60 },
+      [new GooglePlacesSource(new StandInPlacesClient(places), { cellRadiusMiles: 3, maxDepth: 0 })]
+    ).run();
+    const coverage = summary.coverage['Tupelo, MS']!;
+    console.log(JSON.stringify(coverage));
+    assert(!coverage.complete && coverage.saturated[0] === 'Restaurants via Google Places', 'saturated searches should be named');
+    assert(coverage.cells === shallow.coverage.cells, 'cells should be counted per area');
+
+    const complete = await new DiscoveryService(
+      { areas: [AREA], categories: [BusinessCategory.RESTAURANT], maxResultsPerSearch: 60 },
+      [new GooglePlacesSource(new StandInPlacesClient(places), { cellRadiusMiles: 3, maxDepth: 4 })]
+    ).run();
+    assert(complete.coverage['Tupelo, MS']!.complete && complete.totalFound === inside, 'a fully split search should report complete coverage');
+    console.log('Coverage reported per area');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
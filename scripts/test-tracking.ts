@@ -0,0 +1,168 @@
+#!/usr/bin/env tsx
+/**
+ * Tracking Test Script
+ * Checks link signing and runs the tracking server on a free port: the open
+ * pixel, click redirects, unsubscribe pages and site beacons
+ *
+ * Usage:
+ *   npm run test:tracking
+ *
+ * Uses its own test database; no network needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import { SuppressionService } from '../src/modules/outreach/index.js';
+import { TrackingLinks, TrackingSecretMissingError, TrackingServer, TrackingService } from '../src/modules/tracking/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-tracking.db';
+const BASE_URL = 'https://t.example.test';
+
+function throwsMissingSecret(run: () => unknown): boolean {
+  try {
+    run();
+    return false;
+  } catch (error) {
+    return error instanceof TrackingSecretMissingError;
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('TRACKING TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+
+  const links = new TrackingLinks({ baseUrl: `${BASE_URL}/`, secret: 'test-secret' });
+  const server = new TrackingServer(new TrackingService(), links);
+
+  try {
+    // 1. Signing
+    console.log('\n--- SIGNING ---');
+    const destination = 'https://fade-factory.vercel.app/?ref=email';
+    const click = new URL(links.clickUrl('token-1', destination));
+    const signature = click.searchParams.get('s')!;
+    assert(click.pathname === '/c/token-1' && click.searchParams.get('u') === destination, 'the click URL should carry the destination');
+    assert(links.verify('token-1', destination, signature), 'a click signature should verify');
+    assert(!links.verify('token-2', destination, signature), 'a signature should not carry over to another token');
+    assert(!links.verify('token-1', 'https://evil.example', signature), 'a signature should not carry over to another destination');
+    assert(!new TrackingLinks({ baseUrl: BASE_URL, secret: 'other-secret' }).verify('token-1', destination, signature), 'another secret should not verify');
+
+    const unsubscribe = links.unsubscribeUrl(' Owner@Example.com ')!;
+    const unsubscribeToken = unsubscribe.slice(`${BASE_URL}/u/`.length);
+    assert(links.parseUnsubscribeToken(unsubscribeToken) === 'owner@example.com', 'the unsubscribe token should carry the normalized address');
+    const forged = `${Buffer.from('someone@else.com').toString('base64url')}.${unsubscribeToken.split('.')[1]}`;
+    assert(links.parseUnsubscribeToken(forged) === null && links.parseUnsubscribeToken('garbage') === null, 'tampered unsubscribe tokens should be rejected');
+
+    const html = links.instrumentEmailHtml(`<p><a href="${destination.replace('&', '&amp;')}">See it</a> <a href="${unsubscribe}">Unsubscribe</a></p></body>`, 'token-1');
+    assert(html.includes(`href="${BASE_URL}/c/token-1?`) && html.includes(`href="${unsubscribe}"`), 'links should be rewritten, except unsubscribe');
+    assert(html.includes(`<img src="${BASE_URL}/o/token-1.gif"`), 'the open pixel should be added');
+    assert(new TrackingLinks({ baseUrl: '' }).instrumentEmailHtml('<p>Hi</p>', 'token-1') === '<p>Hi</p>', 'disabled tracking should leave emails alone');
+    console.log('Click and unsubscribe signatures OK');
+
+    // 2. No secret, no tracking
+    console.log('\n--- NO SECRET ---');
+    const unsigned = new TrackingLinks({ baseUrl: BASE_URL, secret: '' });
+    assert(!unsigned.hasSecret() && unsigned.isEnabled(), 'an empty secret should count as unset');
+    assert(throwsMissingSecret(() => unsigned.clickUrl('token-1', destination)), 'links should not be signed without a secret');
+    assert(throwsMissingSecret(() => unsigned.instrumentEmailHtml('<p>Hi</p>', 'token-1')), 'emails should not be instrumented without a secret');
+    assert(throwsMissingSecret(() => unsigned.instrumentSiteHtml('<p>Hi</p>', 'website-1')), 'sites should not be instrumented without a secret');
+    assert(throwsMissingSecret(() => unsigned.unsubscribeUrl('owner@example.com')), 'unsubscribe links should not be built without a secret');
+    assert(!unsigned.verify('token-1', destination, signature) && unsigned.parseUnsubscribeToken(unsubscribeToken) === null, 'nothing should verify without a secret');
+
+    let refused = false;
+    try {
+      await new TrackingServer(new TrackingService(), unsigned).start(0, '127.0.0.1');
+    } catch (error) {
+      refused = error instanceof TrackingSecretMissingError;
+    }
+    assert(refused, 'the server should refuse to start without a secret');
+    console.log('Signing, instrumenting and the server all refuse');
+
+    // 3. Tracking server
+    console.log('\n--- SERVER ---');
+    const port = await server.start(0, '127.0.0.1');
+    const url = (path: string): string => `http://127.0.0.1:${port}${path}`;
+
+    const business = db.insertBusiness({ name: 'Fade Factory', city: 'Oxford', state: 'MS', source: 'google_places', source_id: 'FADE' });
+    const log = db.logOutreach({ business_id: business.id, method: 'email' });
+    const message = db.insertEmailMessage({ outreach_id: log.id, business_id: business.id, message_id: '<m1@example.com>', to_email: 'owner@example.com', subject: 'Your new website' });
+    const website = db.insertWebsite({ business_id: business.id, template_name: 'test', html_content: '<html></html>' });
+    const engagement = (): string => {
+      const [row] = new TrackingService().getEngagement(business.id);
+      return row ? `${row.emailOpens}/${row.emailClicks}/${row.pageViews}/${row.trackedActions}` : 'none';
+    };
+
+    const health = await fetch(url('/health'));
+    assert(health.status === 200 && (await health.text()) === 'ok', 'health check should answer');
+
+    const pixel = await fetch(url(`/o/${message.id}.gif`));
+    assert(pixel.status === 200 && pixel.headers.get('content-type') === 'image/gif', 'the pixel should be a GIF');
+    await pixel.arrayBuffer();
+    const unknownPixel = await fetch(url('/o/unknown.gif'));
+    assert(unknownPixel.status === 200, 'unknown tokens still get the pixel');
+    await unknownPixel.arrayBuffer();
+
+    const clickPath = new URL(links.clickUrl(message.id, destination));
+    const redirect = await fetch(url(`${clickPath.pathname}${clickPath.search}`), { redirect: 'manual' });
+    assert(redirect.status === 302 && redirect.headers.get('location') === destination, 'a signed click should redirect');
+
+    const tampered = new URLSearchParams(clickPath.search);
+    tampered.set('u', 'https://evil.example');
+    const openRedirect = await fetch(url(`${clickPath.pathname}?${tampered.toString()}`), { redirect: 'manual' });
+    assert(openRedirect.status === 400 && !openRedirect.headers.get('location'), 'a tampered destination should not redirect');
+    const otherToken = await fetch(url(`/c/other${clickPath.search}`), { redirect: 'manual' });
+    assert(otherToken.status === 400, 'a signature for another token should not redirect');
+    const javascript = new URL(links.clickUrl(message.id, 'javascript:alert(1)'));
+    assert((await fetch(url(`${javascript.pathname}${javascript.search}`), { redirect: 'manual' })).status === 400, 'only http(s) destinations should redirect');
+    assert(engagement() === '1/1/0/0', `one open and one click should be recorded: ${engagement()}`);
+    console.log('Pixel, redirect and rejected clicks OK');
+
+    // 4. Unsubscribe
+    console.log('\n--- UNSUBSCRIBE ---');
+    const suppression = new SuppressionService();
+    const page = await fetch(url(`/u/${unsubscribeToken}`));
+    const pageHtml = await page.text();
+    assert(page.status === 200 && pageHtml.includes('owner@example.com') && pageHtml.includes('method="POST"'), 'GET should ask for confirmation');
+    assert(!suppression.isSuppressed('owner@example.com'), 'GET alone should not unsubscribe');
+
+    const forgedPost = await fetch(url(`/u/${forged}`), { method: 'POST' });
+    assert(forgedPost.status === 400 && !suppression.isSuppressed('someone@else.com'), 'a forged token should not unsubscribe anyone');
+    await forgedPost.text();
+
+    const confirmed = await fetch(url(`/u/${unsubscribeToken}`), { method: 'POST' });
+    assert(confirmed.status === 200 && (await confirmed.text()).includes('has been unsubscribed'), 'POST should confirm');
+    assert(suppression.isSuppressed('owner@example.com'), 'the address should be suppressed');
+    console.log('Confirmation page, forged token and unsubscribe OK');
+
+    // 5. Beacon
+    console.log('\n--- BEACON ---');
+    const beacon = (body: string): Promise<Response> => fetch(url('/e'), { method: 'POST', body });
+    assert((await beacon(JSON.stringify({ w: website.id, e: 'page_view', p: '/' }))).status === 204, 'a page view should be recorded');
+    assert((await beacon(JSON.stringify({ w: website.id, e: 'track', t: 'call' }))).status === 204, 'a tracked action should be recorded');
+    assert((await beacon(JSON.stringify({ w: 'unknown', e: 'page_view' }))).status === 400, 'an unknown website should be rejected');
+    assert((await beacon('not json')).status === 400, 'a bad body should be rejected');
+    assert((await fetch(url('/e'), { method: 'OPTIONS' })).headers.get('access-control-allow-origin') === '*', 'preflight should allow any origin');
+    assert(engagement() === '1/1/1/1', `site events should be recorded: ${engagement()}`);
+    assert((await fetch(url('/nowhere'))).status === 404, 'unknown paths should 404');
+    console.log('Page views and actions OK');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    await server.stop();
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
@@ -0,0 +1,166 @@
+#!/usr/bin/env tsx
+/**
+ * Website Verifier Test Script
+ * Checks the name and phone matching, the domain/profile resolvers, the
+ * verifier's confidence scores and how verification gates generation
+ *
+ * Usage:
+ *   npm run test:verifier
+ *
+ * Uses its own test database and a scripted HTTP probe; no network needed.
+ */
+
+import { rmSync } from 'fs';
+import { db } from '../src/database/index.js';
+import type { Business } from '../src/database/types.js';
+import {
+  DomainGuessResolver,
+  guessDomains,
+  HttpProbe,
+  nameSlugs,
+  ProbeResponse,
+  SocialProfileResolver,
+  WebsiteResolver,
+  WebsiteVerifier,
+} from '../src/modules/enrichment/index.js';
+import { isParkedPage, nameTokens, pageMentionsBusiness } from '../src/modules/enrichment/resolvers.js';
+import { GeneratorService } from '../src/modules/generator/index.js';
+import { assert } from './helpers/assert.js';
+
+const TEST_DB_PATH = './data/test-verifier.db';
+
+/**
+ * Serves scripted pages by URL; a host resolves if any of its pages is scripted
+ */
+class ScriptedProbe implements HttpProbe {
+  fetched: string[] = [];
+
+  constructor(private pages: Record<string, Partial<ProbeResponse>>) {}
+
+  resolves(hostname: string): Promise<boolean> {
+    return Promise.resolve(Object.keys(this.pages).some((url) => new URL(url).hostname === hostname));
+  }
+
+  fetchPage(url: string): Promise<ProbeResponse | null> {
+    this.fetched.push(url);
+    const page = this.pages[url];
+    return Promise.resolve(page ? { status: 200, finalUrl: url, body: '', ...page } : null);
+  }
+}
+
+function page(body: string): ProbeResponse {
+  return { status: 200, finalUrl: 'https://example.test', body };
+}
+
+function lead(name: string, phone: string | null = null): Business {
+  return db.insertBusiness({ name, phone, city: 'Holly Springs', state: 'MS', source: 'google_places', source_id: `VERIFY-${name}` });
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(50));
+  console.log('WEBSITE VERIFIER TEST');
+  console.log('='.repeat(50));
+
+  rmSync(TEST_DB_PATH, { force: true });
+  db.initialize({ path: TEST_DB_PATH });
+  delete process.env['MIN_LEAD_CONFIDENCE'];
+
+  try {
+    // 1. Names, slugs and domain guesses
+    console.log('\n--- NAMES ---');
+    assert(nameTokens("Joe's Barber Shop, LLC").join(' ') === 'joes barber shop', 'legal suffixes and punctuation should be dropped');
+    assert(nameSlugs("The Joe's Diner").join(',') === 'thejoesdiner,joesdiner,the-joes-diner,joes-diner', 'slugs should come with and without the article');
+    const diner = lead("Joe's Diner", '(662) 555-0140');
+    assert(
+      guessDomains(diner).join(',') === 'joesdiner.com,joesdiner.net,joes-diner.com,joes-diner.net,joesdinerhollysprings.com,joesdinerms.com',
+      `unexpected domain guesses: ${guessDomains(diner).join(',')}`
+    );
+    assert(guessDomains(diner, 2).length === 2, 'guesses should stop at the limit');
+    console.log('Tokens, slugs and domains OK');
+
+    // 2. Does a page mention the business?
+    console.log('\n--- PAGE MATCHING ---');
+    assert(pageMentionsBusiness(page("<h1>Welcome to JOE'S DINER</h1>"), diner), 'the name should match case-insensitively');
+    assert(!pageMentionsBusiness(page('<h1>Diner of the month</h1>'), diner), 'part of the name is not enough');
+    for (const written of ['Call (662) 555-0140', 'Call 662.555.0140 today', 'Tel: +1 662 555 0140', '6625550140', 'tel:16625550140']) {
+      assert(pageMentionsBusiness(page(written), diner), `the phone number should match in "${written}"`);
+    }
+    for (const scattered of ['<p>Since 662</p><p>Open 555 days</p><p>Suite 0140</p>', 'Order #66255501401', 'Room 662, 555 guests, 0140 hours']) {
+      assert(!pageMentionsBusiness(page(scattered), diner), `digits that aren't next to each other should not match: "${scattered}"`);
+    }
+    assert(!pageMentionsBusiness(page('662-555-0140'), { ...diner, name: 'Nameless', phone: null }), 'a business without a phone can only match by name');
+    assert(isParkedPage(page('This domain may be for sale!')) && !isParkedPage(page("Joe's Diner menu")), 'parked pages should be recognised');
+    console.log('Names and adjacent phone digits OK');
+
+    // 3. Resolvers
+    console.log('\n--- RESOLVERS ---');
+    const probe = new ScriptedProbe({
+      'https://joesdiner.com': { body: "Joe's Diner - breakfast all day", finalUrl: 'https://www.joesdiner.com/' },
+      'http://joesdiner.net': { body: 'Some other business entirely' },
+      'https://joes-diner.com': { body: 'Buy this domain today' },
+      'https://joesdinerms.com': { status: 404, body: "Joe's Diner" },
+      'https://www.facebook.com/joesdiner': { body: 'Call us at (662) 555-0140' },
+    });
+    const domains = await new DomainGuessResolver().resolve(diner, probe);
+    assert(domains.length === 2, `expected two domain findings, got ${JSON.stringify(domains)}`);
+    assert(domains[0]!.weight === 0.9 && domains[0]!.url === 'https://www.joesdiner.com/', 'a live domain about the business should be strong evidence');
+    assert(domains[1]!.weight === 0.2 && domains[1]!.url === 'http://joesdiner.net', 'a live domain about something else should be weak, found over http');
+
+    const social = await new SocialProfileResolver().resolve(diner, probe);
+    assert(social.length === 1 && social[0]!.kind === 'social' && social[0]!.weight === 0.5, 'the Facebook page should match by phone number');
+    assert(probe.fetched.filter((url) => url.includes('facebook.com')).length === 1, 'one match per platform is enough');
+    console.log('Domain and profile evidence OK');
+
+    // 4. Confidence and verdicts
+    console.log('\n--- VERIFIER ---');
+    const quiet = lead('Quiet Shop');
+    const none = await new WebsiteVerifier({ probe: new ScriptedProbe({}) }).verify(quiet);
+    assert(none.confidence === 1 && none.verdict === 'no_website' && none.evidence.length === 0, 'no evidence should be a solid lead');
+
+    const facebookOnly = new WebsiteVerifier({ resolvers: [new SocialProfileResolver()], probe, minConfidence: 0.6 });
+    const uncertain = await facebookOnly.verify(diner);
+    assert(uncertain.confidence === 0.5 && uncertain.verdict === 'uncertain', 'a Facebook page alone should leave the lead uncertain');
+
+    const broken: WebsiteResolver = { name: 'broken', resolve: () => Promise.reject(new Error('boom')) };
+    const full = new WebsiteVerifier({ resolvers: [broken, new DomainGuessResolver(), new SocialProfileResolver()], probe });
+    const found = await full.verifyAndRecord(diner);
+    assert(found.verdict === 'has_website' && found.websiteUrl === 'https://www.joesdiner.com/', 'a matching domain should mean the business has a website');
+    assert(found.evidence[0]!.weight === 0.9 && found.confidence < 0.1, 'evidence should be strongest first');
+    const flagged = db.getBusinessById(diner.id)!;
+    assert(flagged.has_website === 1 && flagged.website_url === 'https://www.joesdiner.com/', 'the website should be recorded on the business');
+    assert(db.getLatestWebsiteVerification(diner.id)?.verdict === 'has_website', 'the verification should be stored');
+    console.log(`Confidence ${none.confidence} / ${uncertain.confidence} / ${found.confidence}`);
+
+    // 5. Only verified, confident leads reach generation
+    console.log('\n--- GENERATION GATE ---');
+    const corner = lead('Corner Cuts');
+    const gateProbe = new ScriptedProbe({ 'https://www.facebook.com/cornercuts': { body: 'Corner Cuts barbershop' } });
+    const queued = (): string[] => db.getBusinessesNeedingWebsites(10, 0.6, 1).map((business) => business.id);
+
+    assert(queued().length === 0, 'unverified leads should not be queued');
+    const awaiting = db.getBusinessesAwaitingVerification(10).map((business) => business.id);
+    assert(awaiting.includes(quiet.id) && awaiting.includes(corner.id) && !awaiting.includes(diner.id), 'unverified leads should await verification');
+
+    const generator = new GeneratorService({}, undefined, new WebsiteVerifier({ probe: gateProbe, minConfidence: 0.6 }));
+    const ready = (await generator.getBusinessesNeedingGeneration(10)).map((business) => business.id);
+    assert(ready.length === 1 && ready[0] === quiet.id, 'generation should verify new leads and keep only the confident ones');
+    assert(db.getLatestWebsiteVerification(corner.id)?.verdict === 'uncertain', 'the low-confidence lead should be recorded');
+    assert(db.getBusinessesAwaitingVerification(10).length === 0, 'every lead should now be verified');
+    assert(queued().join(',') === quiet.id, 'low-confidence leads should stay out of the queue');
+    console.log('Unverified and low-confidence leads held back');
+
+    console.log('\n' + '='.repeat(50));
+    console.log('ALL TESTS PASSED!');
+    console.log('='.repeat(50));
+  } catch (error) {
+    console.error('\nTEST FAILED:', error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+    rmSync(TEST_DB_PATH, { force: true });
+    rmSync(`${TEST_DB_PATH}-wal`, { force: true });
+    rmSync(`${TEST_DB_PATH}-shm`, { force: true });
+  }
+}
+
+main();
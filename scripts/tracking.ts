@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+/**
+ * Tracking Script
+ * Run the open/click tracking server or report who engaged with their email and preview
+ *
+ * Usage:
+ *   npm run tracking -- serve [--port=8787]       # Start the tracking server (Ctrl+C to stop)
+ *   npm run tracking -- report [--business=ID]    # Show engagement per business
+ *
+ * Set TRACKING_BASE_URL to the server's public URL so outreach emails and
+ * deployed previews point at it. The server won't start without TRACKING_SECRET.
+ */
+
+import 'dotenv/config';
+import { db } from '../src/database/index.js';
+import { TrackingService, TrackingServer, trackingLinks } from '../src/modules/tracking/index.js';
+import { logger } from '../src/utils/index.js';
+
+async function main(): Promise<void> {
+  db.initialize();
+
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'report';
+  const service = new TrackingService();
+
+  if (command === 'serve') {
+    if (!trackingLinks.hasSecret()) {
+      logger.error('TRACKING_SECRET not set - refusing to start the tracking server');
+      process.exitCode = 1;
+      db.close();
+      return;
+    }
+    if (!trackingLinks.isEnabled()) {
+      logger.warn('TRACKING_BASE_URL not set - emails and previews will not link to this server');
+    }
+
+    const portArg = args.find((arg) => arg.startsWith('--port='))?.split('=')[1];
+    const server = new TrackingServer(service, trackingLinks);
+    await server.start(portArg ? parseInt(portArg, 10) : undefined);
+
+    const shutdown = async (): Promise<void> => {
+      logger.info('Stopping tracking server...');
+      await server.stop();
+      db.close();
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
+  }
+
+  try {
+    if (command !== 'report') {
+      logger.error(`Unknown command: ${command}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const businessId = args.find((arg) => arg.startsWith('--business='))?.split('=')[1];
+    const engagement = service.getEngagement(businessId);
+
+    if (engagement.length === 0) {
+      logger.info('No tracked activity yet.');
+      return;
+    }
+
+    logger.info(`${engagement.length} business(es) with tracked activity:\n`);
+    for (const row of engagement) {
+      logger.info(`${row.businessName}`);
+      logger.info(`  Email: ${row.emailOpens} open(s), ${row.emailClicks} click(s)`);
+      logger.info(`  Preview: ${row.pageViews} page view(s), ${row.trackedActions} tracked action(s)`);
+      logger.info(`  Last seen: ${row.lastSeenAt ?? 'never'}`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -9,11 +9,23 @@ import 'dotenv/config';
 export interface AppConfig {
   // Google Places API
   googlePlacesApiKey: string;
+  googleMapsApiUrl: string;                     // Places/Geocoding API base URL (default: Google's)
+  placesCache: boolean;                         // Cache responses in the database (PLACES_CACHE=off to disable)
+  placesCacheTtlHours: Record<string, number>;  // Per-endpoint overrides, e.g. {"nearby_search": 12}
+  placesMonthlyBudgetUsd: number;               // Stop calling Places once this month's spend would pass it
+
+  // OpenStreetMap discovery
+  overpassUrl: string;            // Overpass API endpoint (default: public instance)
+  osmPbfPath: string;             // Local .osm.pbf extract; used instead of Overpass when set
+  tigerWebUrl: string;            // Census TIGERweb map service, for county and ZIP boundaries
 
   // AI API Keys
   openaiApiKey: string;
   anthropicApiKey: string;
 
+  // Website generation
+  generationMaxAttempts: number;  // Tries per site before giving up on the quality check (default: 3)
+
   // Vercel
   vercelToken: string;
   vercelOrgId: string;
@@ -29,6 +41,16 @@ export interface AppConfig {
   // Database
   databasePath: string;
 
+  // Lead quality
+  minLeadConfidence: number;
+  minLeadScore: number;
+  leadBaseLatitude: number;       // Where we work from, for distance scoring
+  leadBaseLongitude: number;
+
+  // HTTP cassettes (record/replay of API traffic)
+  httpCassettes: 'record' | 'replay';  // Unset: requests go to the APIs as usual
+  httpCassetteDir: string;             // Where cassette files live (default: ./data/cassettes)
+
   // App Settings
   environment: 'development' | 'staging' | 'production';
   debug: boolean;
@@ -65,12 +87,37 @@ export const getRequired = (key: string): string => {
   return value;
 };
 
+// Parse "a=1,b=2" into {a: 1, b: 2}, skipping entries that aren't numbers
+const parseNumberMap = (value: string | undefined): Record<string, number> => {
+  const map: Record<string, number> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [key, raw] = entry.split('=').map((part) => part.trim());
+    const number = raw ? parseFloat(raw) : NaN;
+    if (key && Number.isFinite(number)) map[key] = number;
+  }
+  return map;
+};
+
+// Parse a whole number of at least 1, or undefined so callers use their default
+const parsePositiveInteger = (value: string | undefined): number | undefined => {
+  const number = value?.trim() ? Number(value) : NaN;
+  return Number.isInteger(number) && number >= 1 ? number : undefined;
+};
+
 // Get all config as typed object
 export const getAll = (): Partial<AppConfig> => {
   return {
     googlePlacesApiKey: process.env['GOOGLE_PLACES_API_KEY'],
+    googleMapsApiUrl: process.env['GOOGLE_MAPS_API_URL'] || undefined,
+    placesCache: process.env['PLACES_CACHE'] !== 'off',
+    placesCacheTtlHours: parseNumberMap(process.env['PLACES_CACHE_TTL_HOURS']),
+    placesMonthlyBudgetUsd: process.env['PLACES_MONTHLY_BUDGET_USD'] ? parseFloat(process.env['PLACES_MONTHLY_BUDGET_USD']) : undefined,
+    overpassUrl: process.env['OVERPASS_URL'] || undefined,
+    osmPbfPath: process.env['OSM_PBF_PATH'] || undefined,
+    tigerWebUrl: process.env['TIGERWEB_URL'] || undefined,
     openaiApiKey: process.env['OPENAI_API_KEY'],
     anthropicApiKey: process.env['ANTHROPIC_API_KEY'],
+    generationMaxAttempts: parsePositiveInteger(process.env['GENERATION_MAX_ATTEMPTS']),
     vercelToken: process.env['VERCEL_TOKEN'],
     vercelOrgId: process.env['VERCEL_ORG_ID'],
     vercelProjectId: process.env['VERCEL_PROJECT_ID'],
@@ -80,6 +127,12 @@ export const getAll = (): Partial<AppConfig> => {
     smtpPass: process.env['SMTP_PASS'],
     emailFrom: process.env['EMAIL_FROM'],
     databasePath: process.env['DATABASE_PATH'] ?? './data/local-biz-agent.db',
+    minLeadConfidence: process.env['MIN_LEAD_CONFIDENCE'] ? parseFloat(process.env['MIN_LEAD_CONFIDENCE']) : 0.6,
+    minLeadScore: process.env['MIN_LEAD_SCORE'] ? parseFloat(process.env['MIN_LEAD_SCORE']) : 1,
+    leadBaseLatitude: process.env['LEAD_BASE_LATITUDE'] ? parseFloat(process.env['LEAD_BASE_LATITUDE']) : undefined,
+    leadBaseLongitude: process.env['LEAD_BASE_LONGITUDE'] ? parseFloat(process.env['LEAD_BASE_LONGITUDE']) : undefined,
+    httpCassettes: (process.env['HTTP_CASSETTES'] || undefined) as AppConfig['httpCassettes'] | undefined,
+    httpCassetteDir: process.env['HTTP_CASSETTE_DIR'] || undefined,
     environment: (process.env['NODE_ENV'] as AppConfig['environment']) ?? 'development',
     debug: process.env['DEBUG'] === 'true',
   };
@@ -6,26 +6,125 @@ import { randomUUID } from 'crypto';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import { config } from '../config/index.js';
+import { logger } from '../utils/index.js';
 import type {
   Business,
   BusinessInsert,
   BusinessUpdate,
   BusinessQueryOptions,
   BusinessStatus,
+  BusinessStatusChange,
+  StatusChangeOptions,
   GeneratedWebsite,
   WebsiteInsert,
   WebsiteUpdate,
+  WebsiteAudit,
+  WebsiteAuditSave,
   OutreachLog,
   OutreachInsert,
+  WebsiteVerification,
+  WebsiteVerificationInsert,
+  BusinessReview,
+  BusinessReviewInsert,
+  BusinessMerge,
+  MergeOptions,
+  MergeResult,
+  DuplicateDismissal,
+  DiscoveryRun,
+  DiscoveryRunInsert,
+  DiscoveryRunTotals,
+  DiscoverySearch,
+  DiscoverySearchInsert,
+  PlaceSnapshot,
+  PlaceSnapshotUpsert,
+  DiscoveryChange,
+  DiscoveryChangeInsert,
+  DiscoveryChangeQueryOptions,
+  ApiCacheEntry,
+  ApiCacheEntryInsert,
+  ApiCall,
+  ApiCallInsert,
+  ApiCallQueryOptions,
+  ApiCallTotals,
+  ApiCostPeriod,
+  EmailTemplateRecord,
+  EmailTemplateInsert,
+  EmailMessage,
+  EmailMessageInsert,
+  Campaign,
+  CampaignInsert,
+  CampaignStatus,
+  CampaignRecipient,
+  CampaignRecipientInsert,
+  CampaignCounts,
+  EmailEvent,
+  EmailEventInsert,
+  SiteEvent,
+  SiteEventInsert,
+  BusinessEngagement,
+  EmailSuppression,
+  EmailSuppressionInsert,
+  EmailReply,
+  EmailReplyInsert,
+  ReplyClassification,
+  OutreachTask,
+  OutreachTaskInsert,
+  OutreachTaskMethod,
+  OutreachTaskOutcome,
+  OutreachTaskQueryOptions,
+  OutreachTaskStatus,
+  Proposal,
+  ProposalInsert,
+  ProposalStatus,
+  Payment,
+  PaymentInsert,
+  ProductionDeployment,
+  ProductionDeploymentInsert,
   DatabaseStats,
+  MigrationResult,
+  MigrationStatus,
+  SchemaMigration,
 } from './types.js';
-
-// Re-export types
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations.js';
+import { BUSINESS_STATUS_PROGRESS, canTransitionBusinessStatus, InvalidStatusTransitionError } from './status.js';
+
+// Tables whose rows follow a business when it's merged into another
+const MERGED_TABLES = [
+  'generated_websites',
+  'outreach_log',
+  'website_verifications',
+  'email_messages',
+  'campaign_recipients',
+  'site_events',
+  'email_replies',
+  'outreach_tasks',
+  'proposals',
+  'payments',
+  'production_deployments',
+  'business_reviews',
+  'place_snapshots',
+  'discovery_changes',
+] as const;
+
+// Business fields a merge fills in on the survivor when it has none
+const MERGE_FILL_FIELDS = [
+  'business_type', 'category', 'address', 'city', 'state', 'county', 'phone', 'email',
+  'website_url', 'google_place_id', 'enriched_at', 'rating', 'user_ratings_total',
+  'latitude', 'longitude', 'opening_hours', 'photo_url', 'place_types', 'place_status',
+  'entity_type', 'formation_date', 'registered_agent_name', 'registered_agent_address',
+] as const satisfies ReadonlyArray<keyof Business>;
+
+// Re-export types, the status machine and migrations
 export * from './types.js';
+export * from './status.js';
+export { MIGRATIONS, LATEST_SCHEMA_VERSION } from './migrations.js';
+export type { Migration } from './migrations.js';
 
 export interface DatabaseConfig {
   path?: string;
   verbose?: boolean;
+  migrate?: boolean;   // Apply pending migrations on open (default true)
+  backup?: boolean;    // Back up an existing database before migrating it (default true)
 }
 
 class DatabaseManager {
@@ -58,7 +157,14 @@ class DatabaseManager {
     this.db.pragma('journal_mode = WAL');
     this.db.pragma('foreign_keys = ON');
 
-    this.createTables();
+    if (dbConfig?.migrate !== false) {
+      try {
+        this.migrate({ backup: dbConfig?.backup });
+      } catch (error) {
+        this.close();
+        throw error;
+      }
+    }
 
     return this.db;
   }
@@ -71,81 +177,96 @@ class DatabaseManager {
     return this.db;
   }
 
-  // Create all tables
-  private createTables(): void {
+  // ==================== MIGRATIONS ====================
+
+  // Schema version the database is at (0 for a new or pre-versioning database)
+  getSchemaVersion(): number {
     const db = this.getInstance();
+    this.ensureSchemaVersionTable();
+    const row = db.prepare('SELECT MAX(version) as version FROM schema_version').get() as { version: number | null };
+    return row.version ?? 0;
+  }
 
-    db.exec(`
-      -- Businesses table
-      CREATE TABLE IF NOT EXISTS businesses (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        business_type TEXT,
-        category TEXT,
-        address TEXT,
-        city TEXT,
-        state TEXT,
-        county TEXT,
-        phone TEXT,
-        email TEXT,
-        website_url TEXT,
-        has_website INTEGER DEFAULT 0,
-        source TEXT NOT NULL,
-        source_id TEXT,
-        google_place_id TEXT,
-        discovered_at TEXT NOT NULL,
-        enriched_at TEXT,
-        status TEXT DEFAULT 'discovered',
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
+  // Applied and pending migrations
+  getMigrationStatus(): MigrationStatus {
+    const db = this.getInstance();
+    const currentVersion = this.getSchemaVersion();
+    const applied = db.prepare('SELECT * FROM schema_version ORDER BY version ASC').all() as SchemaMigration[];
 
-      -- Generated websites table
-      CREATE TABLE IF NOT EXISTS generated_websites (
-        id TEXT PRIMARY KEY,
-        business_id TEXT NOT NULL,
-        template_name TEXT NOT NULL,
-        variation_number INTEGER DEFAULT 1,
-        html_content TEXT NOT NULL,
-        preview_url TEXT,
-        deployed_at TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
-      );
+    return {
+      currentVersion,
+      latestVersion: LATEST_SCHEMA_VERSION,
+      applied,
+      pending: MIGRATIONS.filter((m) => m.version > currentVersion).map(({ version, name }) => ({ version, name })),
+    };
+  }
 
-      -- Outreach log table
-      CREATE TABLE IF NOT EXISTS outreach_log (
-        id TEXT PRIMARY KEY,
-        business_id TEXT NOT NULL,
-        method TEXT NOT NULL,
-        sent_at TEXT NOT NULL,
-        response TEXT,
-        notes TEXT,
-        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+  // Apply pending migrations in order, each in its own transaction.
+  // An existing database is copied to a backup file first (unless backup is false).
+  // Throws if the database is newer than this code.
+  migrate(options: { backup?: boolean } = {}): MigrationResult {
+    const db = this.getInstance();
+    const from = this.getSchemaVersion();
+
+    if (from > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `Database ${this.dbPath} is at schema version ${from}, newer than this code (${LATEST_SCHEMA_VERSION}). Update the code before using it.`
       );
+    }
+
+    const pending = MIGRATIONS.filter((m) => m.version > from);
+    const result: MigrationResult = { from, to: from, applied: [], backupPath: null };
+    if (pending.length === 0) return result;
 
-      -- Indexes for performance
-      CREATE INDEX IF NOT EXISTS idx_businesses_status ON businesses(status);
-      CREATE INDEX IF NOT EXISTS idx_businesses_source ON businesses(source);
-      CREATE INDEX IF NOT EXISTS idx_businesses_state ON businesses(state);
-      CREATE INDEX IF NOT EXISTS idx_businesses_city ON businesses(city);
-      CREATE INDEX IF NOT EXISTS idx_businesses_category ON businesses(category);
-      CREATE INDEX IF NOT EXISTS idx_businesses_has_website ON businesses(has_website);
-      CREATE INDEX IF NOT EXISTS idx_businesses_discovered_at ON businesses(discovered_at);
-      CREATE INDEX IF NOT EXISTS idx_businesses_google_place_id ON businesses(google_place_id);
-      CREATE INDEX IF NOT EXISTS idx_generated_websites_business_id ON generated_websites(business_id);
-      CREATE INDEX IF NOT EXISTS idx_outreach_log_business_id ON outreach_log(business_id);
+    if (options.backup !== false && this.hasUserTables()) {
+      result.backupPath = this.backup(from);
+      logger.info(`Backed up ${this.dbPath} to ${result.backupPath}`);
+    }
+
+    const record = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+
+      result.applied.push(migration.version);
+      result.to = migration.version;
+      logger.info(`Applied migration ${migration.version}: ${migration.name}`);
+    }
 
-      -- Unique constraint to prevent duplicate source records
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_businesses_source_unique
-        ON businesses(source, source_id) WHERE source_id IS NOT NULL;
+    return result;
+  }
 
-      -- Unique constraint for Google Place ID
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_businesses_google_place_id_unique
-        ON businesses(google_place_id) WHERE google_place_id IS NOT NULL;
+  private ensureSchemaVersionTable(): void {
+    this.getInstance().exec(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
     `);
   }
 
+  // Whether the database holds anything besides schema_version (i.e. it isn't brand new)
+  private hasUserTables(): boolean {
+    const row = this.getInstance().prepare(`
+      SELECT COUNT(*) as count FROM sqlite_master
+      WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version'
+    `).get() as { count: number };
+    return row.count > 0;
+  }
+
+  // Copy the database next to itself before changing its schema
+  private backup(version: number): string | null {
+    if (this.dbPath === ':memory:') return null;
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${this.dbPath}.v${version}-${stamp}.bak`;
+    this.getInstance().prepare('VACUUM INTO ?').run(backupPath);
+    return backupPath;
+  }
+
   // Close database connection
   close(): void {
     if (this.db) {
@@ -166,11 +287,15 @@ class DatabaseManager {
       INSERT INTO businesses (
         id, name, business_type, category, address, city, state, county,
         phone, email, website_url, has_website, source, source_id, google_place_id,
-        discovered_at, enriched_at, status, created_at, updated_at
+        discovered_at, enriched_at, status, created_at, updated_at,
+        rating, user_ratings_total, latitude, longitude, opening_hours, photo_url, place_types, place_status,
+        entity_type, formation_date, registered_agent_name, registered_agent_address
       ) VALUES (
         @id, @name, @business_type, @category, @address, @city, @state, @county,
         @phone, @email, @website_url, @has_website, @source, @source_id, @google_place_id,
-        @discovered_at, @enriched_at, @status, @created_at, @updated_at
+        @discovered_at, @enriched_at, @status, @created_at, @updated_at,
+        @rating, @user_ratings_total, @latitude, @longitude, @opening_hours, @photo_url, @place_types, @place_status,
+        @entity_type, @formation_date, @registered_agent_name, @registered_agent_address
       )
     `);
 
@@ -195,8 +320,22 @@ class DatabaseManager {
       status: data.status ?? 'discovered',
       created_at: now,
       updated_at: now,
+      rating: data.rating ?? null,
+      user_ratings_total: data.user_ratings_total ?? null,
+      latitude: data.latitude ?? null,
+      longitude: data.longitude ?? null,
+      opening_hours: data.opening_hours ?? null,
+      photo_url: data.photo_url ?? null,
+      place_types: data.place_types ?? null,
+      place_status: data.place_status ?? null,
+      entity_type: data.entity_type ?? null,
+      formation_date: data.formation_date ?? null,
+      registered_agent_name: data.registered_agent_name ?? null,
+      registered_agent_address: data.registered_agent_address ?? null,
     });
 
+    this.recordStatusChange(id, null, data.status ?? 'discovered', { actor: 'discovery', reason: `Found via ${data.source}` }, now);
+
     return this.getBusinessById(id)!;
   }
 
@@ -209,19 +348,24 @@ class DatabaseManager {
       INSERT OR IGNORE INTO businesses (
         id, name, business_type, category, address, city, state, county,
         phone, email, website_url, has_website, source, source_id, google_place_id,
-        discovered_at, enriched_at, status, created_at, updated_at
+        discovered_at, enriched_at, status, created_at, updated_at,
+        rating, user_ratings_total, latitude, longitude, opening_hours, photo_url, place_types, place_status,
+        entity_type, formation_date, registered_agent_name, registered_agent_address
       ) VALUES (
         @id, @name, @business_type, @category, @address, @city, @state, @county,
         @phone, @email, @website_url, @has_website, @source, @source_id, @google_place_id,
-        @discovered_at, @enriched_at, @status, @created_at, @updated_at
+        @discovered_at, @enriched_at, @status, @created_at, @updated_at,
+        @rating, @user_ratings_total, @latitude, @longitude, @opening_hours, @photo_url, @place_types, @place_status,
+        @entity_type, @formation_date, @registered_agent_name, @registered_agent_address
       )
     `);
 
     const insertMany = db.transaction((items: BusinessInsert[]) => {
       let count = 0;
       for (const data of items) {
+        const id = data.id ?? randomUUID();
         const result = stmt.run({
-          id: data.id ?? randomUUID(),
+          id,
           name: data.name,
           business_type: data.business_type ?? null,
           category: data.category ?? null,
@@ -241,8 +385,23 @@ class DatabaseManager {
           status: data.status ?? 'discovered',
           created_at: now,
           updated_at: now,
+          rating: data.rating ?? null,
+          user_ratings_total: data.user_ratings_total ?? null,
+          latitude: data.latitude ?? null,
+          longitude: data.longitude ?? null,
+          opening_hours: data.opening_hours ?? null,
+          photo_url: data.photo_url ?? null,
+          place_types: data.place_types ?? null,
+          place_status: data.place_status ?? null,
+          entity_type: data.entity_type ?? null,
+          formation_date: data.formation_date ?? null,
+          registered_agent_name: data.registered_agent_name ?? null,
+          registered_agent_address: data.registered_agent_address ?? null,
         });
-        if (result.changes > 0) count++;
+        if (result.changes > 0) {
+          this.recordStatusChange(id, null, data.status ?? 'discovered', { actor: 'discovery', reason: `Found via ${data.source}` }, now);
+          count++;
+        }
       }
       return count;
     });
@@ -306,6 +465,25 @@ class DatabaseManager {
       conditions.push('has_website = ?');
       params.push(options.hasWebsite ? 1 : 0);
     }
+    if (options.minRating !== undefined) {
+      conditions.push('rating >= ?');
+      params.push(options.minRating);
+    }
+    if (options.minReviews !== undefined) {
+      conditions.push('user_ratings_total >= ?');
+      params.push(options.minReviews);
+    }
+    if (options.placeType) {
+      conditions.push('EXISTS (SELECT 1 FROM json_each(place_types) WHERE value = ?)');
+      params.push(options.placeType);
+    }
+    if (options.placeStatus) {
+      conditions.push('place_status = ?');
+      params.push(options.placeStatus);
+    }
+    if (options.hasHours !== undefined) {
+      conditions.push(options.hasHours ? 'opening_hours IS NOT NULL' : 'opening_hours IS NULL');
+    }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const limit = options.limit ?? 100;
@@ -321,19 +499,88 @@ class DatabaseManager {
     return stmt.all(...params, limit, offset) as Business[];
   }
 
-  // Get businesses without websites that need website generation
-  getBusinessesNeedingWebsites(limit = 100): Business[] {
+  // Get businesses without websites that need website generation, best
+  // lead score first (unscored leads last, newest first).
+  // Only leads whose latest website verification meets the confidence
+  // threshold are included: unverified and low-confidence leads are held back
+  // (see getBusinessesAwaitingVerification). Scored leads below minLeadScore
+  // (e.g. permanently closed, scored 0) are held back too.
+  getBusinessesNeedingWebsites(
+    limit = 100,
+    minLeadConfidence = config.getAll().minLeadConfidence ?? 0.6,
+    minLeadScore = config.getAll().minLeadScore ?? 1
+  ): Business[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM businesses b
+      WHERE b.has_website = 0
+        AND b.status IN ('discovered', 'enriched')
+        AND (
+          SELECT v.confidence FROM website_verifications v
+          WHERE v.business_id = b.id
+          ORDER BY v.checked_at DESC
+          LIMIT 1
+        ) >= ?
+        AND (b.lead_score IS NULL OR b.lead_score >= ?)
+      ORDER BY b.lead_score DESC NULLS LAST, b.discovered_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(minLeadConfidence, minLeadScore, limit) as Business[];
+  }
+
+  // Leads without a website that have never been through the website
+  // verifier, best lead score first
+  getBusinessesAwaitingVerification(limit = 100): Business[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM businesses b
+      WHERE b.has_website = 0
+        AND b.status IN ('discovered', 'enriched')
+        AND NOT EXISTS (SELECT 1 FROM website_verifications v WHERE v.business_id = b.id)
+      ORDER BY b.lead_score DESC NULLS LAST, b.discovered_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as Business[];
+  }
+
+  // Store a business's lead score. Leaves updated_at alone: the score is
+  // derived from the row, not a change to it.
+  setLeadScore(id: string, score: number, details: string): void {
+    const db = this.getInstance();
+    db.prepare(`
+      UPDATE businesses
+      SET lead_score = ?, lead_score_details = ?, lead_scored_at = ?
+      WHERE id = ?
+    `).run(score, details, new Date().toISOString(), id);
+  }
+
+  // Businesses still worth scoring (not sold or archived), optionally only
+  // those that have never been scored
+  getBusinessesToScore(onlyUnscored = false, limit = 10000): Business[] {
     const db = this.getInstance();
     const stmt = db.prepare(`
       SELECT * FROM businesses
-      WHERE has_website = 0
-        AND status IN ('discovered', 'enriched')
+      WHERE status NOT IN ('sold', 'archived')
+        ${onlyUnscored ? 'AND lead_score IS NULL' : ''}
       ORDER BY discovered_at DESC
       LIMIT ?
     `);
     return stmt.all(limit) as Business[];
   }
 
+  // Get the best-scored leads
+  getTopLeads(limit = 20): Business[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM businesses
+      WHERE lead_score IS NOT NULL
+        AND status NOT IN ('sold', 'archived')
+      ORDER BY lead_score DESC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as Business[];
+  }
+
   // Update business
   updateBusiness(id: string, data: BusinessUpdate): Business | null {
     const db = this.getInstance();
@@ -361,9 +608,62 @@ class DatabaseManager {
     return this.getBusinessById(id);
   }
 
-  // Update business status
-  updateBusinessStatus(id: string, status: BusinessStatus): Business | null {
-    return this.updateBusiness(id, { status });
+  // Move a business to a new status, enforcing BUSINESS_STATUS_TRANSITIONS and
+  // recording the change in business_status_history. Moving to the current
+  // status is a no-op. Throws InvalidStatusTransitionError for illegal moves.
+  updateBusinessStatus(id: string, status: BusinessStatus, change: StatusChangeOptions = {}): Business | null {
+    const db = this.getInstance();
+
+    const move = db.transaction((): Business | null => {
+      const business = this.getBusinessById(id);
+      if (!business || business.status === status) return business;
+
+      if (!canTransitionBusinessStatus(business.status, status)) {
+        throw new InvalidStatusTransitionError(id, business.status, status);
+      }
+
+      const now = new Date().toISOString();
+      db.prepare('UPDATE businesses SET status = ?, updated_at = ? WHERE id = ?').run(status, now, id);
+      this.recordStatusChange(id, business.status, status, change, now);
+      return this.getBusinessById(id);
+    });
+
+    return move();
+  }
+
+  // Move a business forward only if the transition is allowed from where it is now;
+  // used where a step implies progress but shouldn't undo a later stage.
+  private advanceBusinessStatus(id: string, status: BusinessStatus, change: StatusChangeOptions): void {
+    const business = this.getBusinessById(id);
+    if (business && canTransitionBusinessStatus(business.status, status)) {
+      this.updateBusinessStatus(id, status, change);
+    }
+  }
+
+  // Record one status change
+  private recordStatusChange(
+    businessId: string,
+    from: BusinessStatus | null,
+    to: BusinessStatus,
+    change: StatusChangeOptions,
+    changedAt: string
+  ): void {
+    const db = this.getInstance();
+    db.prepare(`
+      INSERT INTO business_status_history (id, business_id, from_status, to_status, actor, reason, changed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(randomUUID(), businessId, from, to, change.actor ?? 'system', change.reason ?? null, changedAt);
+  }
+
+  // Get a business's status changes, oldest first
+  getBusinessStatusHistory(businessId: string): BusinessStatusChange[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM business_status_history
+      WHERE business_id = ?
+      ORDER BY changed_at ASC, rowid ASC
+    `);
+    return stmt.all(businessId) as BusinessStatusChange[];
   }
 
   // Mark business as enriched
@@ -377,14 +677,22 @@ class DatabaseManager {
       address?: string | null;
       city?: string | null;
       state?: string | null;
+      county?: string | null;
+      rating?: number | null;
+      user_ratings_total?: number | null;
+      place_types?: string | null;
     }
   ): Business | null {
-    return this.updateBusiness(id, {
+    const business = this.updateBusiness(id, {
       ...enrichmentData,
       has_website: enrichmentData.has_website ? 1 : 0,
       enriched_at: new Date().toISOString(),
-      status: 'enriched',
     });
+    if (!business) return null;
+
+    // Re-enriching a lead further down the pipeline leaves its status alone
+    this.advanceBusinessStatus(id, 'enriched', { actor: 'enrichment', reason: 'Enrichment data recorded' });
+    return this.getBusinessById(id);
   }
 
   // Delete business
@@ -411,7 +719,11 @@ class DatabaseManager {
       website_generated: 0,
       deployed: 0,
       contacted: 0,
+      interested: 0,
       sold: 0,
+      rejected: 0,
+      lost: 0,
+      archived: 0,
     };
 
     for (const row of rows) {
@@ -432,10 +744,12 @@ class DatabaseManager {
     const stmt = db.prepare(`
       INSERT INTO generated_websites (
         id, business_id, template_name, variation_number,
-        html_content, preview_url, deployed_at, created_at
+        html_content, preview_url, deployed_at,
+        generation_attempts, quality_report, created_at
       ) VALUES (
         @id, @business_id, @template_name, @variation_number,
-        @html_content, @preview_url, @deployed_at, @created_at
+        @html_content, @preview_url, @deployed_at,
+        @generation_attempts, @quality_report, @created_at
       )
     `);
 
@@ -447,12 +761,11 @@ class DatabaseManager {
       html_content: data.html_content,
       preview_url: data.preview_url ?? null,
       deployed_at: null,
+      generation_attempts: data.generation_attempts ?? null,
+      quality_report: data.quality_report ?? null,
       created_at: now,
     });
 
-    // Update business status
-    this.updateBusinessStatus(data.business_id, 'website_generated');
-
     return this.getWebsiteById(id)!;
   }
 
@@ -489,10 +802,12 @@ class DatabaseManager {
   // Get websites pending deployment
   getWebsitesPendingDeployment(limit = 100): GeneratedWebsite[] {
     const db = this.getInstance();
+    // Best leads first; oldest first among equals
     const stmt = db.prepare(`
-      SELECT * FROM generated_websites
-      WHERE deployed_at IS NULL
-      ORDER BY created_at ASC
+      SELECT gw.* FROM generated_websites gw
+      LEFT JOIN businesses b ON b.id = gw.business_id
+      WHERE gw.deployed_at IS NULL
+      ORDER BY b.lead_score DESC NULLS LAST, gw.created_at ASC
       LIMIT ?
     `);
     return stmt.all(limit) as GeneratedWebsite[];
@@ -534,12 +849,24 @@ class DatabaseManager {
     });
 
     if (website) {
-      this.updateBusinessStatus(website.business_id, 'deployed');
+      this.advanceBusinessStatus(website.business_id, 'deployed', { actor: 'deployment', reason: `Preview at ${previewUrl}` });
     }
 
     return website;
   }
 
+  // Get the most recently deployed website for a business
+  getLatestDeployedWebsiteForBusiness(businessId: string): GeneratedWebsite | null {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM generated_websites
+      WHERE business_id = ? AND preview_url IS NOT NULL AND deployed_at IS NOT NULL
+      ORDER BY deployed_at DESC
+      LIMIT 1
+    `);
+    return (stmt.get(businessId) as GeneratedWebsite) ?? null;
+  }
+
   // Delete website
   deleteWebsite(id: string): boolean {
     const db = this.getInstance();
@@ -548,10 +875,32 @@ class DatabaseManager {
     return result.changes > 0;
   }
 
+  // Store a website's audit, replacing any earlier one
+  saveWebsiteAudit(data: WebsiteAuditSave): WebsiteAudit {
+    const db = this.getInstance();
+    db.prepare(`
+      INSERT INTO website_audits (website_id, errors, warnings, findings, audited_at)
+      VALUES (@website_id, @errors, @warnings, @findings, @audited_at)
+      ON CONFLICT (website_id) DO UPDATE SET
+        errors = @errors,
+        warnings = @warnings,
+        findings = @findings,
+        audited_at = @audited_at
+    `).run({ ...data, audited_at: new Date().toISOString() });
+
+    return this.getWebsiteAudit(data.website_id)!;
+  }
+
+  getWebsiteAudit(websiteId: string): WebsiteAudit | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM website_audits WHERE website_id = ?');
+    return (stmt.get(websiteId) as WebsiteAudit) ?? null;
+  }
+
   // ==================== OUTREACH CRUD ====================
 
-  // Log an outreach attempt
-  logOutreach(data: OutreachInsert): OutreachLog {
+  // Log an outreach attempt. contactMade: false (nobody picked up, a voicemail) leaves the status alone.
+  logOutreach(data: OutreachInsert, options?: { contactMade?: boolean }): OutreachLog {
     const db = this.getInstance();
     const now = new Date().toISOString();
     const id = data.id ?? randomUUID();
@@ -573,8 +922,10 @@ class DatabaseManager {
       notes: data.notes ?? null,
     });
 
-    // Update business status if first contact
-    this.updateBusinessStatus(data.business_id, 'contacted');
+    // Mark contacted on first contact (or re-contact of a lost lead); later stages stay put
+    if (options?.contactMade ?? true) {
+      this.advanceBusinessStatus(data.business_id, 'contacted', { actor: 'outreach', reason: `${data.method} outreach` });
+    }
 
     return this.getOutreachById(id)!;
   }
@@ -612,6 +963,1320 @@ class DatabaseManager {
     return this.getOutreachById(id);
   }
 
+  // ==================== EMAIL TEMPLATES & MESSAGES ====================
+
+  // Insert an email template
+  insertEmailTemplate(data: EmailTemplateInsert): EmailTemplateRecord {
+    const db = this.getInstance();
+    const now = new Date().toISOString();
+    const id = data.id ?? randomUUID();
+
+    const stmt = db.prepare(`
+      INSERT INTO email_templates (
+        id, name, subject, html_body, text_body, physical_address, created_at, updated_at
+      ) VALUES (
+        @id, @name, @subject, @html_body, @text_body, @physical_address, @created_at, @updated_at
+      )
+    `);
+
+    stmt.run({
+      id,
+      name: data.name,
+      subject: data.subject,
+      html_body: data.html_body,
+      text_body: data.text_body,
+      physical_address: data.physical_address,
+      created_at: now,
+      updated_at: now,
+    });
+
+    return this.getEmailTemplateById(id)!;
+  }
+
+  // Get email template by ID
+  getEmailTemplateById(id: string): EmailTemplateRecord | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_templates WHERE id = ?');
+    return (stmt.get(id) as EmailTemplateRecord) ?? null;
+  }
+
+  // List all email templates
+  getEmailTemplates(): EmailTemplateRecord[] {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_templates ORDER BY created_at DESC');
+    return stmt.all() as EmailTemplateRecord[];
+  }
+
+  // Record a sent email
+  insertEmailMessage(data: EmailMessageInsert): EmailMessage {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    const stmt = db.prepare(`
+      INSERT INTO email_messages (
+        id, outreach_id, business_id, template_id, message_id, to_email, subject, sent_at
+      ) VALUES (
+        @id, @outreach_id, @business_id, @template_id, @message_id, @to_email, @subject, @sent_at
+      )
+    `);
+
+    stmt.run({
+      id,
+      outreach_id: data.outreach_id,
+      business_id: data.business_id,
+      template_id: data.template_id ?? null,
+      message_id: data.message_id,
+      to_email: data.to_email,
+      subject: data.subject,
+      sent_at: data.sent_at ?? new Date().toISOString(),
+    });
+
+    return db.prepare('SELECT * FROM email_messages WHERE id = ?').get(id) as EmailMessage;
+  }
+
+  // Get a sent email by its row ID (also used as its tracking token)
+  getEmailMessageById(id: string): EmailMessage | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_messages WHERE id = ?');
+    return (stmt.get(id) as EmailMessage) ?? null;
+  }
+
+  // Get a sent email by its SMTP Message-ID
+  getEmailMessageByMessageId(messageId: string): EmailMessage | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_messages WHERE message_id = ?');
+    return (stmt.get(messageId) as EmailMessage) ?? null;
+  }
+
+  // Get emails sent to a business
+  getEmailMessagesByBusinessId(businessId: string): EmailMessage[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM email_messages
+      WHERE business_id = ?
+      ORDER BY sent_at DESC
+    `);
+    return stmt.all(businessId) as EmailMessage[];
+  }
+
+  // ==================== CAMPAIGNS ====================
+
+  // Insert a campaign (always starts as a draft)
+  insertCampaign(data: CampaignInsert): Campaign {
+    const db = this.getInstance();
+    const now = new Date().toISOString();
+    const id = data.id ?? randomUUID();
+
+    const stmt = db.prepare(`
+      INSERT INTO outreach_campaigns (
+        id, name, template_id, status, daily_cap, send_window_start, send_window_end, timezone,
+        created_at, updated_at, started_at, completed_at
+      ) VALUES (
+        @id, @name, @template_id, 'draft', @daily_cap, @send_window_start, @send_window_end, @timezone,
+        @created_at, @updated_at, NULL, NULL
+      )
+    `);
+
+    stmt.run({
+      id,
+      name: data.name,
+      template_id: data.template_id,
+      daily_cap: data.daily_cap,
+      send_window_start: data.send_window_start,
+      send_window_end: data.send_window_end,
+      timezone: data.timezone,
+      created_at: now,
+      updated_at: now,
+    });
+
+    return this.getCampaignById(id)!;
+  }
+
+  // Get campaign by ID
+  getCampaignById(id: string): Campaign | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM outreach_campaigns WHERE id = ?');
+    return (stmt.get(id) as Campaign) ?? null;
+  }
+
+  // List campaigns, optionally filtered by status
+  getCampaigns(status?: CampaignStatus): Campaign[] {
+    const db = this.getInstance();
+    if (status) {
+      return db
+        .prepare('SELECT * FROM outreach_campaigns WHERE status = ? ORDER BY created_at ASC')
+        .all(status) as Campaign[];
+    }
+    return db.prepare('SELECT * FROM outreach_campaigns ORDER BY created_at ASC').all() as Campaign[];
+  }
+
+  // Set campaign status, stamping started_at / completed_at
+  updateCampaignStatus(id: string, status: CampaignStatus): Campaign | null {
+    const db = this.getInstance();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      UPDATE outreach_campaigns
+      SET status = @status,
+          updated_at = @now,
+          started_at = CASE WHEN @status = 'active' THEN COALESCE(started_at, @now) ELSE started_at END,
+          completed_at = CASE WHEN @status = 'completed' THEN @now ELSE completed_at END
+      WHERE id = @id
+    `);
+
+    const result = stmt.run({ id, status, now });
+    if (result.changes === 0) return null;
+
+    return this.getCampaignById(id);
+  }
+
+  // Queue recipients for a campaign (skips businesses already queued)
+  insertCampaignRecipients(recipients: CampaignRecipientInsert[]): number {
+    const db = this.getInstance();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT OR IGNORE INTO campaign_recipients (
+        id, campaign_id, business_id, email, name, website_preview_url,
+        status, message_id, error, queued_at, sent_at
+      ) VALUES (
+        @id, @campaign_id, @business_id, @email, @name, @website_preview_url,
+        'queued', NULL, NULL, @queued_at, NULL
+      )
+    `);
+
+    const insertMany = db.transaction((items: CampaignRecipientInsert[]) => {
+      let count = 0;
+      for (const data of items) {
+        const result = stmt.run({
+          id: data.id ?? randomUUID(),
+          campaign_id: data.campaign_id,
+          business_id: data.business_id,
+          email: data.email,
+          name: data.name,
+          website_preview_url: data.website_preview_url,
+          queued_at: now,
+        });
+        if (result.changes > 0) count++;
+      }
+      return count;
+    });
+
+    return insertMany(recipients);
+  }
+
+  // Get queued recipients for a campaign, oldest first
+  getQueuedCampaignRecipients(campaignId: string, limit = 100): CampaignRecipient[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM campaign_recipients
+      WHERE campaign_id = ? AND status = 'queued'
+      ORDER BY queued_at ASC
+      LIMIT ?
+    `);
+    return stmt.all(campaignId, limit) as CampaignRecipient[];
+  }
+
+  // Mark a recipient as sent
+  markCampaignRecipientSent(id: string, messageId: string): void {
+    const db = this.getInstance();
+    db.prepare(`
+      UPDATE campaign_recipients
+      SET status = 'sent', message_id = ?, error = NULL, attempts = attempts + 1, next_attempt_at = NULL, sent_at = ?
+      WHERE id = ?
+    `).run(messageId, new Date().toISOString(), id);
+  }
+
+  // Mark a recipient as suppressed (blocked by the suppression list or a do-not-contact response)
+  markCampaignRecipientSuppressed(id: string, reason: string): void {
+    const db = this.getInstance();
+    db.prepare(`
+      UPDATE campaign_recipients
+      SET status = 'suppressed', error = ?
+      WHERE id = ?
+    `).run(reason, id);
+  }
+
+  // Mark a recipient as failed for good
+  markCampaignRecipientFailed(id: string, error: string): void {
+    const db = this.getInstance();
+    db.prepare(`
+      UPDATE campaign_recipients
+      SET status = 'failed', error = ?, attempts = attempts + 1, next_attempt_at = NULL
+      WHERE id = ?
+    `).run(error, id);
+  }
+
+  // Keep a recipient queued after a temporary failure, to be tried again at nextAttemptAt
+  markCampaignRecipientRetry(id: string, error: string, nextAttemptAt: string): void {
+    const db = this.getInstance();
+    db.prepare(`
+      UPDATE campaign_recipients
+      SET error = ?, attempts = attempts + 1, next_attempt_at = ?
+      WHERE id = ?
+    `).run(error, nextAttemptAt, id);
+  }
+
+  // Count emails a campaign has sent since a point in time
+  countCampaignSentSince(campaignId: string, since: string): number {
+    const db = this.getInstance();
+    const row = db.prepare(`
+      SELECT COUNT(*) as count FROM campaign_recipients
+      WHERE campaign_id = ? AND status = 'sent' AND sent_at >= ?
+    `).get(campaignId, since) as { count: number };
+    return row.count;
+  }
+
+  // Recipient and engagement counts for a campaign
+  getCampaignCounts(campaignId: string): CampaignCounts {
+    const db = this.getInstance();
+
+    const statusRows = db.prepare(`
+      SELECT status, COUNT(*) as count FROM campaign_recipients
+      WHERE campaign_id = ?
+      GROUP BY status
+    `).all(campaignId) as Array<{ status: string; count: number }>;
+
+    const engagement = db.prepare(`
+      SELECT
+        COUNT(DISTINCT CASE WHEN e.event_type = 'open' THEN r.id END) as opened,
+        COUNT(DISTINCT CASE WHEN e.event_type = 'click' THEN r.id END) as clicked
+      FROM campaign_recipients r
+      JOIN email_events e ON e.message_id = r.message_id
+      WHERE r.campaign_id = ?
+    `).get(campaignId) as { opened: number; clicked: number };
+
+    const counts: CampaignCounts = {
+      queued: 0,
+      sent: 0,
+      failed: 0,
+      suppressed: 0,
+      opened: engagement.opened,
+      clicked: engagement.clicked,
+    };
+
+    for (const row of statusRows) {
+      if (row.status === 'queued' || row.status === 'sent' || row.status === 'failed' || row.status === 'suppressed') {
+        counts[row.status] = row.count;
+      }
+    }
+
+    return counts;
+  }
+
+  // Record an email open or click
+  insertEmailEvent(data: EmailEventInsert): EmailEvent {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    db.prepare(`
+      INSERT INTO email_events (id, message_id, event_type, url, occurred_at)
+      VALUES (@id, @message_id, @event_type, @url, @occurred_at)
+    `).run({
+      id,
+      message_id: data.message_id,
+      event_type: data.event_type,
+      url: data.url ?? null,
+      occurred_at: data.occurred_at ?? new Date().toISOString(),
+    });
+
+    return db.prepare('SELECT * FROM email_events WHERE id = ?').get(id) as EmailEvent;
+  }
+
+  // ==================== SUPPRESSION ====================
+
+  // Add an address to the suppression list (keeps the original reason if already listed)
+  addEmailSuppression(data: EmailSuppressionInsert): EmailSuppression {
+    const db = this.getInstance();
+    const email = data.email.trim().toLowerCase();
+
+    db.prepare(`
+      INSERT INTO email_suppressions (email, reason, business_id, detail, created_at)
+      VALUES (@email, @reason, @business_id, @detail, @created_at)
+      ON CONFLICT(email) DO NOTHING
+    `).run({
+      email,
+      reason: data.reason,
+      business_id: data.business_id ?? null,
+      detail: data.detail ?? null,
+      created_at: new Date().toISOString(),
+    });
+
+    return this.getEmailSuppression(email)!;
+  }
+
+  // Get the suppression entry for an address
+  getEmailSuppression(email: string): EmailSuppression | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_suppressions WHERE email = ?');
+    return (stmt.get(email.trim().toLowerCase()) as EmailSuppression) ?? null;
+  }
+
+  // Remove an address from the suppression list
+  removeEmailSuppression(email: string): boolean {
+    const db = this.getInstance();
+    const result = db.prepare('DELETE FROM email_suppressions WHERE email = ?').run(email.trim().toLowerCase());
+    return result.changes > 0;
+  }
+
+  // List suppressed addresses, newest first
+  getEmailSuppressions(limit = 1000): EmailSuppression[] {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_suppressions ORDER BY created_at DESC LIMIT ?');
+    return stmt.all(limit) as EmailSuppression[];
+  }
+
+  // Find an outreach_log response asking us not to contact a business again
+  getDoNotContactOutreach(businessId: string): OutreachLog | null {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM outreach_log
+      WHERE business_id = ?
+        AND response IS NOT NULL
+        AND (
+          LOWER(response) LIKE '%do not contact%'
+          OR LOWER(response) LIKE '%do-not-contact%'
+          OR LOWER(TRIM(response)) = 'dnc'
+        )
+      ORDER BY sent_at DESC
+      LIMIT 1
+    `);
+    return (stmt.get(businessId) as OutreachLog) ?? null;
+  }
+
+  // ==================== REPLIES ====================
+
+  // Record an inbound reply. Returns null if this reply was already ingested.
+  insertEmailReply(data: EmailReplyInsert): EmailReply | null {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    const result = db.prepare(`
+      INSERT INTO email_replies (
+        id, source_message_id, email_message_id, outreach_id, business_id,
+        from_email, subject, body, classification, received_at, ingested_at
+      ) VALUES (
+        @id, @source_message_id, @email_message_id, @outreach_id, @business_id,
+        @from_email, @subject, @body, @classification, @received_at, @ingested_at
+      )
+      ON CONFLICT(source_message_id) DO NOTHING
+    `).run({
+      id,
+      source_message_id: data.source_message_id,
+      email_message_id: data.email_message_id,
+      outreach_id: data.outreach_id,
+      business_id: data.business_id,
+      from_email: data.from_email.toLowerCase(),
+      subject: data.subject ?? null,
+      body: data.body,
+      classification: data.classification,
+      received_at: data.received_at ?? new Date().toISOString(),
+      ingested_at: new Date().toISOString(),
+    });
+
+    if (result.changes === 0) return null;
+    return db.prepare('SELECT * FROM email_replies WHERE id = ?').get(id) as EmailReply;
+  }
+
+  // Get a reply by its own Message-ID
+  getEmailReplyBySourceMessageId(sourceMessageId: string): EmailReply | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM email_replies WHERE source_message_id = ?');
+    return (stmt.get(sourceMessageId) as EmailReply) ?? null;
+  }
+
+  // Get replies from a business, newest first
+  getEmailRepliesByBusinessId(businessId: string): EmailReply[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM email_replies
+      WHERE business_id = ?
+      ORDER BY received_at DESC
+    `);
+    return stmt.all(businessId) as EmailReply[];
+  }
+
+  // List replies, newest first, optionally by classification
+  getEmailReplies(classification?: ReplyClassification, limit = 100): EmailReply[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM email_replies
+      WHERE (@classification IS NULL OR classification = @classification)
+      ORDER BY received_at DESC
+      LIMIT @limit
+    `);
+    return stmt.all({ classification: classification ?? null, limit }) as EmailReply[];
+  }
+
+  // ==================== OUTREACH TASKS ====================
+
+  // Queue calls/visits. Businesses that already have a pending task for the method are skipped.
+  insertOutreachTasks(tasks: OutreachTaskInsert[]): number {
+    const db = this.getInstance();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT OR IGNORE INTO outreach_tasks (
+        id, business_id, method, status, due_at, attempts, created_at
+      ) VALUES (
+        @id, @business_id, @method, 'pending', @due_at, 0, @created_at
+      )
+    `);
+
+    const insertMany = db.transaction((items: OutreachTaskInsert[]) => {
+      let count = 0;
+      for (const data of items) {
+        const result = stmt.run({
+          id: data.id ?? randomUUID(),
+          business_id: data.business_id,
+          method: data.method,
+          due_at: data.due_at ?? now,
+          created_at: now,
+        });
+        if (result.changes > 0) count++;
+      }
+      return count;
+    });
+
+    return insertMany(tasks);
+  }
+
+  // Get an outreach task by ID
+  getOutreachTaskById(id: string): OutreachTask | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM outreach_tasks WHERE id = ?');
+    return (stmt.get(id) as OutreachTask) ?? null;
+  }
+
+  // Pending tasks, soonest first, optionally due by a time and in a city/state
+  getPendingOutreachTasks(options: OutreachTaskQueryOptions = {}): OutreachTask[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT t.* FROM outreach_tasks t
+      JOIN businesses b ON b.id = t.business_id
+      WHERE t.status = 'pending'
+        AND (@method IS NULL OR t.method = @method)
+        AND (@due_before IS NULL OR t.due_at <= @due_before)
+        AND (@city IS NULL OR LOWER(b.city) = LOWER(@city))
+        AND (@state IS NULL OR UPPER(b.state) = UPPER(@state))
+      ORDER BY t.due_at ASC
+      LIMIT @limit
+    `);
+    return stmt.all({
+      method: options.method ?? null,
+      due_before: options.dueBefore ?? null,
+      city: options.city ?? null,
+      state: options.state ?? null,
+      limit: options.limit ?? 100,
+    }) as OutreachTask[];
+  }
+
+  // Move a pending task to a new due time after an attempt
+  rescheduleOutreachTask(id: string, dueAt: string, outcome: OutreachTaskOutcome, notes?: string | null): OutreachTask | null {
+    const db = this.getInstance();
+    const result = db.prepare(`
+      UPDATE outreach_tasks
+      SET due_at = @due_at, attempts = attempts + 1, last_outcome = @outcome, notes = @notes
+      WHERE id = @id AND status = 'pending'
+    `).run({ id, due_at: dueAt, outcome, notes: notes ?? null });
+
+    if (result.changes === 0) return null;
+    return this.getOutreachTaskById(id);
+  }
+
+  // Close a pending task
+  closeOutreachTask(
+    id: string,
+    status: Exclude<OutreachTaskStatus, 'pending'>,
+    outcome: OutreachTaskOutcome | null,
+    notes?: string | null
+  ): OutreachTask | null {
+    const db = this.getInstance();
+    const result = db.prepare(`
+      UPDATE outreach_tasks
+      SET status = @status, attempts = attempts + @attempted, last_outcome = COALESCE(@outcome, last_outcome),
+          notes = COALESCE(@notes, notes), completed_at = @completed_at
+      WHERE id = @id AND status = 'pending'
+    `).run({
+      id,
+      status,
+      attempted: outcome ? 1 : 0,
+      outcome,
+      notes: notes ?? null,
+      completed_at: new Date().toISOString(),
+    });
+
+    if (result.changes === 0) return null;
+    return this.getOutreachTaskById(id);
+  }
+
+  // Cancel every pending task for a business (e.g. once it has said yes or no)
+  cancelOutreachTasksForBusiness(businessId: string): number {
+    const db = this.getInstance();
+    const result = db.prepare(`
+      UPDATE outreach_tasks
+      SET status = 'cancelled', completed_at = ?
+      WHERE business_id = ? AND status = 'pending'
+    `).run(new Date().toISOString(), businessId);
+    return result.changes;
+  }
+
+  // Businesses with a deployed website and a phone number that have no pending task for the method
+  getOutreachTaskCandidates(method: OutreachTaskMethod, limit = 100): Business[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT b.* FROM businesses b
+      WHERE b.status IN ('deployed', 'contacted')
+        AND b.phone IS NOT NULL AND b.phone != ''
+        AND (@method != 'in_person' OR (b.city IS NOT NULL AND b.city != ''))
+        AND EXISTS (
+          SELECT 1 FROM generated_websites w
+          WHERE w.business_id = b.id AND w.preview_url IS NOT NULL AND w.deployed_at IS NOT NULL
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM outreach_tasks t
+          WHERE t.business_id = b.id AND t.method = @method AND t.status = 'pending'
+        )
+      ORDER BY b.discovered_at DESC
+      LIMIT @limit
+    `);
+    return stmt.all({ method, limit }) as Business[];
+  }
+
+  // ==================== SALES ====================
+
+  // Insert a proposal (status "sent")
+  insertProposal(data: ProposalInsert): Proposal {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    db.prepare(`
+      INSERT INTO proposals (
+        id, business_id, website_id, price_cents, currency, status, notes, created_at
+      ) VALUES (
+        @id, @business_id, @website_id, @price_cents, @currency, 'sent', @notes, @created_at
+      )
+    `).run({
+      id,
+      business_id: data.business_id,
+      website_id: data.website_id,
+      price_cents: data.price_cents,
+      currency: (data.currency ?? 'usd').toLowerCase(),
+      notes: data.notes ?? null,
+      created_at: new Date().toISOString(),
+    });
+
+    return this.getProposalById(id)!;
+  }
+
+  // Get a proposal by ID
+  getProposalById(id: string): Proposal | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM proposals WHERE id = ?');
+    return (stmt.get(id) as Proposal) ?? null;
+  }
+
+  // Get proposals for a business, newest first
+  getProposalsByBusinessId(businessId: string): Proposal[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM proposals
+      WHERE business_id = ?
+      ORDER BY created_at DESC
+    `);
+    return stmt.all(businessId) as Proposal[];
+  }
+
+  // List proposals, newest first, optionally by status
+  getProposals(status?: ProposalStatus, limit = 100): Proposal[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM proposals
+      WHERE (@status IS NULL OR status = @status)
+      ORDER BY created_at DESC
+      LIMIT @limit
+    `);
+    return stmt.all({ status: status ?? null, limit }) as Proposal[];
+  }
+
+  // Update proposal status (records when the client responded)
+  updateProposalStatus(id: string, status: ProposalStatus): Proposal | null {
+    const db = this.getInstance();
+    const result = db.prepare(`
+      UPDATE proposals
+      SET status = @status, responded_at = CASE WHEN @status = 'sent' THEN NULL ELSE @now END
+      WHERE id = @id
+    `).run({ id, status, now: new Date().toISOString() });
+
+    if (result.changes === 0) return null;
+    return this.getProposalById(id);
+  }
+
+  // Record a payment provider event. Returns null if the event was already recorded.
+  insertPayment(data: PaymentInsert): Payment | null {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    const result = db.prepare(`
+      INSERT INTO payments (
+        id, proposal_id, business_id, provider, provider_event_id,
+        kind, status, amount_cents, currency, received_at
+      ) VALUES (
+        @id, @proposal_id, @business_id, @provider, @provider_event_id,
+        @kind, @status, @amount_cents, @currency, @received_at
+      )
+      ON CONFLICT(provider, provider_event_id) DO NOTHING
+    `).run({
+      id,
+      proposal_id: data.proposal_id,
+      business_id: data.business_id,
+      provider: data.provider,
+      provider_event_id: data.provider_event_id,
+      kind: data.kind,
+      status: data.status,
+      amount_cents: data.amount_cents,
+      currency: (data.currency ?? 'usd').toLowerCase(),
+      received_at: data.received_at ?? new Date().toISOString(),
+    });
+
+    if (result.changes === 0) return null;
+    return db.prepare('SELECT * FROM payments WHERE id = ?').get(id) as Payment;
+  }
+
+  // Get ledger entries for a proposal, oldest first
+  getPaymentsByProposalId(proposalId: string): Payment[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM payments
+      WHERE proposal_id = ?
+      ORDER BY received_at ASC
+    `);
+    return stmt.all(proposalId) as Payment[];
+  }
+
+  // Net amount paid on a proposal (succeeded payments minus succeeded refunds)
+  getProposalAmountPaid(proposalId: string): number {
+    const db = this.getInstance();
+    const row = db.prepare(`
+      SELECT COALESCE(SUM(CASE WHEN kind = 'refund' THEN -amount_cents ELSE amount_cents END), 0) as paid
+      FROM payments
+      WHERE proposal_id = ? AND status = 'succeeded'
+    `).get(proposalId) as { paid: number };
+    return row.paid;
+  }
+
+  // Record a production deployment attempt
+  insertProductionDeployment(data: ProductionDeploymentInsert): ProductionDeployment {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    db.prepare(`
+      INSERT INTO production_deployments (
+        id, business_id, website_id, proposal_id, domain, project_name,
+        deployment_id, url, status, detail, created_at
+      ) VALUES (
+        @id, @business_id, @website_id, @proposal_id, @domain, @project_name,
+        @deployment_id, @url, @status, @detail, @created_at
+      )
+    `).run({
+      id,
+      business_id: data.business_id,
+      website_id: data.website_id,
+      proposal_id: data.proposal_id,
+      domain: data.domain.toLowerCase(),
+      project_name: data.project_name,
+      deployment_id: data.deployment_id ?? null,
+      url: data.url ?? null,
+      status: data.status,
+      detail: data.detail ?? null,
+      created_at: new Date().toISOString(),
+    });
+
+    return db.prepare('SELECT * FROM production_deployments WHERE id = ?').get(id) as ProductionDeployment;
+  }
+
+  // Get production deployments for a business, newest first
+  getProductionDeploymentsByBusinessId(businessId: string): ProductionDeployment[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM production_deployments
+      WHERE business_id = ?
+      ORDER BY created_at DESC
+    `);
+    return stmt.all(businessId) as ProductionDeployment[];
+  }
+
+  // ==================== TRACKING ====================
+
+  // Record a preview site event
+  insertSiteEvent(data: SiteEventInsert): SiteEvent {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    db.prepare(`
+      INSERT INTO site_events (id, business_id, website_id, event_type, target, path, occurred_at)
+      VALUES (@id, @business_id, @website_id, @event_type, @target, @path, @occurred_at)
+    `).run({
+      id,
+      business_id: data.business_id,
+      website_id: data.website_id,
+      event_type: data.event_type,
+      target: data.target ?? null,
+      path: data.path ?? null,
+      occurred_at: data.occurred_at ?? new Date().toISOString(),
+    });
+
+    return db.prepare('SELECT * FROM site_events WHERE id = ?').get(id) as SiteEvent;
+  }
+
+  // Get site events for a website, newest first
+  getSiteEventsByWebsiteId(websiteId: string, limit = 100): SiteEvent[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM site_events
+      WHERE website_id = ?
+      ORDER BY occurred_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(websiteId, limit) as SiteEvent[];
+  }
+
+  // Email and preview site engagement for businesses with any activity
+  getBusinessEngagement(businessId?: string): BusinessEngagement[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      WITH email AS (
+        SELECT m.business_id,
+          SUM(CASE WHEN e.event_type = 'open' THEN 1 ELSE 0 END) as email_opens,
+          SUM(CASE WHEN e.event_type = 'click' THEN 1 ELSE 0 END) as email_clicks,
+          MAX(e.occurred_at) as last_seen_at
+        FROM email_events e
+        JOIN email_messages m ON m.message_id = e.message_id
+        GROUP BY m.business_id
+      ),
+      site AS (
+        SELECT business_id,
+          SUM(CASE WHEN event_type = 'page_view' THEN 1 ELSE 0 END) as page_views,
+          SUM(CASE WHEN event_type = 'track' THEN 1 ELSE 0 END) as tracked_actions,
+          MAX(occurred_at) as last_seen_at
+        FROM site_events
+        GROUP BY business_id
+      )
+      SELECT b.id as business_id,
+        COALESCE(email.email_opens, 0) as email_opens,
+        COALESCE(email.email_clicks, 0) as email_clicks,
+        COALESCE(site.page_views, 0) as page_views,
+        COALESCE(site.tracked_actions, 0) as tracked_actions,
+        MAX(COALESCE(email.last_seen_at, ''), COALESCE(site.last_seen_at, '')) as last_seen_at
+      FROM businesses b
+      LEFT JOIN email ON email.business_id = b.id
+      LEFT JOIN site ON site.business_id = b.id
+      WHERE (email.business_id IS NOT NULL OR site.business_id IS NOT NULL)
+        AND (@business_id IS NULL OR b.id = @business_id)
+      ORDER BY last_seen_at DESC
+    `);
+    return stmt.all({ business_id: businessId ?? null }) as BusinessEngagement[];
+  }
+
+  // ==================== WEBSITE VERIFICATION ====================
+
+  // Record the result of a website verification run
+  insertWebsiteVerification(data: WebsiteVerificationInsert): WebsiteVerification {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    const stmt = db.prepare(`
+      INSERT INTO website_verifications (
+        id, business_id, confidence, verdict, evidence, checked_at
+      ) VALUES (
+        @id, @business_id, @confidence, @verdict, @evidence, @checked_at
+      )
+    `);
+
+    stmt.run({
+      id,
+      business_id: data.business_id,
+      confidence: data.confidence,
+      verdict: data.verdict,
+      evidence: data.evidence,
+      checked_at: data.checked_at ?? new Date().toISOString(),
+    });
+
+    return db.prepare('SELECT * FROM website_verifications WHERE id = ?').get(id) as WebsiteVerification;
+  }
+
+  // Get the most recent website verification for a business
+  getLatestWebsiteVerification(businessId: string): WebsiteVerification | null {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM website_verifications
+      WHERE business_id = ?
+      ORDER BY checked_at DESC
+      LIMIT 1
+    `);
+    return (stmt.get(businessId) as WebsiteVerification) ?? null;
+  }
+
+  // ==================== BUSINESS REVIEWS ====================
+
+  // Replace a business's reviews from one source with a fresh set
+  replaceBusinessReviews(businessId: string, source: string, reviews: BusinessReviewInsert[]): BusinessReview[] {
+    const db = this.getInstance();
+    const insert = db.prepare(`
+      INSERT INTO business_reviews (
+        id, business_id, source, author_name, rating, text, published_at, fetched_at
+      ) VALUES (
+        @id, @business_id, @source, @author_name, @rating, @text, @published_at, @fetched_at
+      )
+    `);
+
+    const fetchedAt = new Date().toISOString();
+    db.transaction(() => {
+      db.prepare('DELETE FROM business_reviews WHERE business_id = ? AND source = ?').run(businessId, source);
+      for (const review of reviews) {
+        insert.run({
+          id: randomUUID(),
+          business_id: businessId,
+          source,
+          author_name: review.author_name,
+          rating: review.rating ?? null,
+          text: review.text,
+          published_at: review.published_at ?? null,
+          fetched_at: fetchedAt,
+        });
+      }
+    })();
+
+    return this.getBusinessReviews(businessId);
+  }
+
+  // Get a business's stored reviews, best rated and newest first
+  getBusinessReviews(businessId: string): BusinessReview[] {
+    const db = this.getInstance();
+    const stmt = db.prepare(`
+      SELECT * FROM business_reviews
+      WHERE business_id = ?
+      ORDER BY rating DESC, published_at DESC
+    `);
+    return stmt.all(businessId) as BusinessReview[];
+  }
+
+  // ==================== DUPLICATES & MERGES ====================
+
+  // Merge a duplicate business into a survivor, in one transaction:
+  // - websites, outreach, emails, campaigns, events, replies, tasks, sales
+  //   records, verifications and reviews move to the survivor
+  // - blank survivor fields are filled from the duplicate
+  // - the survivor takes the duplicate's status if the duplicate got further
+  //   (e.g. was already contacted) and the move is allowed
+  // - the duplicate is deleted, with a snapshot kept in business_merges
+  mergeBusinesses(survivorId: string, duplicateId: string, options: MergeOptions = {}): MergeResult {
+    if (survivorId === duplicateId) {
+      throw new Error('Cannot merge a business into itself');
+    }
+
+    const db = this.getInstance();
+    const actor = options.actor ?? 'dedupe';
+
+    const merge = db.transaction((): MergeResult => {
+      const survivor = this.getBusinessById(survivorId);
+      const duplicate = this.getBusinessById(duplicateId);
+      if (!survivor) throw new Error(`Business not found: ${survivorId}`);
+      if (!duplicate) throw new Error(`Business not found: ${duplicateId}`);
+
+      const now = new Date().toISOString();
+      const history = this.getBusinessStatusHistory(duplicateId);
+      const moved: Record<string, number> = {};
+      const move = (table: string): void => {
+        const result = db.prepare(`UPDATE ${table} SET business_id = ? WHERE business_id = ?`).run(survivorId, duplicateId);
+        if (result.changes > 0) moved[table] = result.changes;
+      };
+
+      // One campaign entry and one pending task per method per business
+      db.prepare(`
+        DELETE FROM campaign_recipients
+        WHERE business_id = ?
+          AND campaign_id IN (SELECT campaign_id FROM campaign_recipients WHERE business_id = ?)
+      `).run(duplicateId, survivorId);
+      db.prepare(`
+        UPDATE outreach_tasks SET status = 'cancelled', completed_at = ?, notes = 'Merged duplicate'
+        WHERE business_id = ? AND status = 'pending'
+          AND method IN (SELECT method FROM outreach_tasks WHERE business_id = ? AND status = 'pending')
+      `).run(now, duplicateId, survivorId);
+
+      for (const table of MERGED_TABLES) move(table);
+      db.prepare('UPDATE email_suppressions SET business_id = ? WHERE business_id = ?').run(survivorId, duplicateId);
+
+      // Fill in what the survivor is missing. The duplicate's unique keys are
+      // cleared first so they can move.
+      const fill: Record<string, unknown> = {};
+      for (const field of MERGE_FILL_FIELDS) {
+        if ((survivor[field] === null || survivor[field] === '') && duplicate[field] !== null && duplicate[field] !== '') {
+          fill[field] = duplicate[field];
+        }
+      }
+      if (!survivor.has_website && duplicate.has_website) fill['has_website'] = 1;
+      if (fill['google_place_id'] !== undefined) {
+        db.prepare('UPDATE businesses SET google_place_id = NULL WHERE id = ?').run(duplicateId);
+      }
+      if (Object.keys(fill).length > 0) {
+        this.updateBusiness(survivorId, fill as BusinessUpdate);
+      }
+
+      let statusChange: MergeResult['statusChange'] = null;
+      if (
+        BUSINESS_STATUS_PROGRESS[duplicate.status] > BUSINESS_STATUS_PROGRESS[survivor.status] &&
+        canTransitionBusinessStatus(survivor.status, duplicate.status)
+      ) {
+        db.prepare('UPDATE businesses SET status = ?, updated_at = ? WHERE id = ?').run(duplicate.status, now, survivorId);
+        this.recordStatusChange(survivorId, survivor.status, duplicate.status, {
+          actor,
+          reason: `Merged with duplicate "${duplicate.name}" (${duplicate.status})`,
+        }, now);
+        statusChange = { from: survivor.status, to: duplicate.status };
+      }
+
+      db.prepare('DELETE FROM businesses WHERE id = ?').run(duplicateId);
+      db.prepare('DELETE FROM duplicate_dismissals WHERE business_a = ? OR business_b = ?').run(duplicateId, duplicateId);
+
+      const record: BusinessMerge = {
+        id: randomUUID(),
+        survivor_id: survivorId,
+        merged_id: duplicateId,
+        merged_name: duplicate.name,
+        merged_snapshot: JSON.stringify({ business: duplicate, statusHistory: history }),
+        moved: JSON.stringify(moved),
+        actor,
+        reason: options.reason ?? null,
+        merged_at: now,
+      };
+      db.prepare(`
+        INSERT INTO business_merges (
+          id, survivor_id, merged_id, merged_name, merged_snapshot, moved, actor, reason, merged_at
+        ) VALUES (
+          @id, @survivor_id, @merged_id, @merged_name, @merged_snapshot, @moved, @actor, @reason, @merged_at
+        )
+      `).run(record);
+
+      return {
+        survivor: this.getBusinessById(survivorId)!,
+        merge: record,
+        moved,
+        filledFields: Object.keys(fill),
+        statusChange,
+      };
+    });
+
+    return merge();
+  }
+
+  // Get merges, newest first (optionally only those into one survivor)
+  getBusinessMerges(survivorId?: string, limit = 100): BusinessMerge[] {
+    const db = this.getInstance();
+    if (survivorId) {
+      return db.prepare(`
+        SELECT * FROM business_merges WHERE survivor_id = ? ORDER BY merged_at DESC LIMIT ?
+      `).all(survivorId, limit) as BusinessMerge[];
+    }
+    return db.prepare('SELECT * FROM business_merges ORDER BY merged_at DESC LIMIT ?').all(limit) as BusinessMerge[];
+  }
+
+  // Record that two businesses were reviewed and are not duplicates
+  dismissDuplicate(businessA: string, businessB: string, reason: string | null = null): void {
+    const db = this.getInstance();
+    const [a, b] = businessA < businessB ? [businessA, businessB] : [businessB, businessA];
+    db.prepare(`
+      INSERT OR REPLACE INTO duplicate_dismissals (business_a, business_b, reason, dismissed_at)
+      VALUES (?, ?, ?, ?)
+    `).run(a, b, reason, new Date().toISOString());
+  }
+
+  // Businesses to compare for duplicates, optionally limited to one city
+  // and/or state (case-insensitive), oldest first
+  getBusinessesForDedupe(filter: { city?: string | null; state?: string | null } = {}): Business[] {
+    const db = this.getInstance();
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.city) {
+      conditions.push('LOWER(city) = LOWER(?)');
+      params.push(filter.city);
+    }
+    if (filter.state) {
+      conditions.push('LOWER(state) = LOWER(?)');
+      params.push(filter.state);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return db.prepare(`SELECT * FROM businesses ${where} ORDER BY discovered_at ASC`).all(...params) as Business[];
+  }
+
+  // Get every dismissed pair
+  getDuplicateDismissals(): DuplicateDismissal[] {
+    const db = this.getInstance();
+    return db.prepare('SELECT * FROM duplicate_dismissals').all() as DuplicateDismissal[];
+  }
+
+  // ==================== DISCOVERY RUNS ====================
+
+  // Start recording a discovery run
+  insertDiscoveryRun(data: DiscoveryRunInsert): DiscoveryRun {
+    const db = this.getInstance();
+    const id = data.id ?? randomUUID();
+
+    db.prepare(`
+      INSERT INTO discovery_runs (id, areas, categories, sources, started_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, JSON.stringify(data.areas), JSON.stringify(data.categories), JSON.stringify(data.sources), new Date().toISOString());
+
+    return this.getDiscoveryRunById(id)!;
+  }
+
+  // Record a run's totals and mark it finished
+  completeDiscoveryRun(id: string, totals: DiscoveryRunTotals): DiscoveryRun | null {
+    const db = this.getInstance();
+    db.prepare(`
+      UPDATE discovery_runs
+      SET found = @found, without_website = @without_website, saved = @saved,
+          already_exists = @already_exists, changes = @changes, completed_at = @completed_at
+      WHERE id = @id
+    `).run({ ...totals, id, completed_at: new Date().toISOString() });
+    return this.getDiscoveryRunById(id);
+  }
+
+  getDiscoveryRunById(id: string): DiscoveryRun | null {
+    const db = this.getInstance();
+    return (db.prepare('SELECT * FROM discovery_runs WHERE id = ?').get(id) as DiscoveryRun) ?? null;
+  }
+
+  // Get runs, newest first
+  getDiscoveryRuns(limit = 20): DiscoveryRun[] {
+    const db = this.getInstance();
+    return db.prepare('SELECT * FROM discovery_runs ORDER BY started_at DESC, rowid DESC LIMIT ?').all(limit) as DiscoveryRun[];
+  }
+
+  // Record one area/category/source search within a run
+  insertDiscoverySearch(data: DiscoverySearchInsert): DiscoverySearch {
+    const db = this.getInstance();
+    const id = randomUUID();
+
+    db.prepare(`
+      INSERT INTO discovery_searches (
+        id, run_id, area, category, source, found, without_website, saved, already_exists, changes, complete, searched_at
+      ) VALUES (
+        @id, @run_id, @area, @category, @source, @found, @without_website, @saved, @already_exists, @changes, @complete, @searched_at
+      )
+    `).run({ ...data, id, complete: data.complete ? 1 : 0, searched_at: new Date().toISOString() });
+
+    return db.prepare('SELECT * FROM discovery_searches WHERE id = ?').get(id) as DiscoverySearch;
+  }
+
+  // Get the searches made in a run
+  getDiscoverySearches(runId: string): DiscoverySearch[] {
+    const db = this.getInstance();
+    return db.prepare('SELECT * FROM discovery_searches WHERE run_id = ? ORDER BY searched_at, rowid').all(runId) as DiscoverySearch[];
+  }
+
+  // Has this source searched this area and category before (in another run)?
+  hasPreviousDiscoverySearch(source: string, area: string, category: string, excludeRunId: string): boolean {
+    const db = this.getInstance();
+    const row = db.prepare(`
+      SELECT 1 FROM discovery_searches
+      WHERE source = ? AND area = ? AND category = ? AND run_id != ?
+      LIMIT 1
+    `).get(source, area, category, excludeRunId);
+    return row !== undefined;
+  }
+
+  getPlaceSnapshot(source: string, sourceId: string): PlaceSnapshot | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM place_snapshots WHERE source = ? AND source_id = ?');
+    return (stmt.get(source, sourceId) as PlaceSnapshot) ?? null;
+  }
+
+  // Store the latest details seen for a place, keeping when it was first seen
+  upsertPlaceSnapshot(data: PlaceSnapshotUpsert): PlaceSnapshot {
+    const db = this.getInstance();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO place_snapshots (
+        source, source_id, business_id, name, address, phone, website, business_status, details,
+        first_seen_run_id, last_seen_run_id, first_seen_at, last_seen_at
+      ) VALUES (
+        @source, @source_id, @business_id, @name, @address, @phone, @website, @business_status, @details,
+        @run_id, @run_id, @now, @now
+      )
+      ON CONFLICT (source, source_id) DO UPDATE SET
+        business_id = COALESCE(@business_id, business_id),
+        name = @name,
+        address = @address,
+        phone = @phone,
+        website = @website,
+        business_status = @business_status,
+        details = @details,
+        last_seen_run_id = @run_id,
+        last_seen_at = @now
+    `).run({ ...data, business_id: data.business_id ?? null, now });
+
+    return this.getPlaceSnapshot(data.source, data.source_id)!;
+  }
+
+  // Flag a change noticed by a discovery run
+  insertDiscoveryChange(data: DiscoveryChangeInsert): DiscoveryChange {
+    const db = this.getInstance();
+    const id = randomUUID();
+
+    db.prepare(`
+      INSERT INTO discovery_changes (
+        id, run_id, source, source_id, business_id, name, change_type, old_value, new_value, detected_at
+      ) VALUES (
+        @id, @run_id, @source, @source_id, @business_id, @name, @change_type, @old_value, @new_value, @detected_at
+      )
+    `).run({
+      ...data,
+      id,
+      old_value: data.old_value ?? null,
+      new_value: data.new_value ?? null,
+      detected_at: new Date().toISOString(),
+    });
+
+    return db.prepare('SELECT * FROM discovery_changes WHERE id = ?').get(id) as DiscoveryChange;
+  }
+
+  // Get flagged changes, newest first
+  getDiscoveryChanges(options: DiscoveryChangeQueryOptions = {}): DiscoveryChange[] {
+    const db = this.getInstance();
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (options.runId) {
+      conditions.push('run_id = ?');
+      params.push(options.runId);
+    }
+    if (options.types && options.types.length > 0) {
+      conditions.push(`change_type IN (${options.types.map(() => '?').join(', ')})`);
+      params.push(...options.types);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(options.limit ?? 100);
+    return db.prepare(`
+      SELECT * FROM discovery_changes ${where} ORDER BY detected_at DESC, rowid DESC LIMIT ?
+    `).all(...params) as DiscoveryChange[];
+  }
+
+  // ==================== API CACHE & COSTS ====================
+
+  // Get a cached API response if it hasn't expired
+  getApiCacheEntry(key: string): ApiCacheEntry | null {
+    const db = this.getInstance();
+    const stmt = db.prepare('SELECT * FROM api_cache WHERE key = ? AND expires_at > ?');
+    return (stmt.get(key, new Date().toISOString()) as ApiCacheEntry) ?? null;
+  }
+
+  // Store (or refresh) a cached API response
+  putApiCacheEntry(data: ApiCacheEntryInsert): void {
+    const db = this.getInstance();
+    const now = new Date();
+
+    db.prepare(`
+      INSERT INTO api_cache (key, api, endpoint, params, response, fetched_at, expires_at)
+      VALUES (@key, @api, @endpoint, @params, @response, @fetched_at, @expires_at)
+      ON CONFLICT (key) DO UPDATE SET
+        response = @response, fetched_at = @fetched_at, expires_at = @expires_at
+    `).run({
+      key: data.key,
+      api: data.api,
+      endpoint: data.endpoint,
+      params: data.params,
+      response: data.response,
+      fetched_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + data.ttlHours * 3600 * 1000).toISOString(),
+    });
+  }
+
+  // Drop expired (or, with an API given, all of that API's) cached responses
+  clearApiCache(options: { api?: string; all?: boolean } = {}): number {
+    const db = this.getInstance();
+    const conditions = options.all ? [] : ['expires_at <= @now'];
+    if (options.api) conditions.push('api = @api');
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return db.prepare(`DELETE FROM api_cache ${where}`).run({ now: new Date().toISOString(), api: options.api ?? null }).changes;
+  }
+
+  // Record a paid API request in the cost ledger
+  insertApiCall(data: ApiCallInsert): ApiCall {
+    const db = this.getInstance();
+    const call: ApiCall = {
+      id: randomUUID(),
+      api: data.api,
+      endpoint: data.endpoint,
+      sku: data.sku,
+      cost_usd: data.cost_usd,
+      cached: data.cached ? 1 : 0,
+      run_id: data.run_id ?? null,
+      called_at: new Date().toISOString(),
+    };
+
+    db.prepare(`
+      INSERT INTO api_calls (id, api, endpoint, sku, cost_usd, cached, run_id, called_at)
+      VALUES (@id, @api, @endpoint, @sku, @cost_usd, @cached, @run_id, @called_at)
+    `).run(call);
+
+    return call;
+  }
+
+  // Total API usage, optionally for one API, run or since a time
+  getApiCallTotals(options: ApiCallQueryOptions = {}): ApiCallTotals {
+    const db = this.getInstance();
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (options.api) {
+      conditions.push('api = ?');
+      params.push(options.api);
+    }
+    if (options.runId) {
+      conditions.push('run_id = ?');
+      params.push(options.runId);
+    }
+    if (options.since) {
+      conditions.push('called_at >= ?');
+      params.push(options.since);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return db.prepare(`
+      SELECT
+        COALESCE(SUM(CASE WHEN cached = 0 THEN 1 ELSE 0 END), 0) as calls,
+        COALESCE(SUM(cached), 0) as cachedCalls,
+        COALESCE(SUM(cost_usd), 0) as costUsd
+      FROM api_calls ${where}
+    `).get(...params) as ApiCallTotals;
+  }
+
+  // API usage per calendar month (UTC) or per discovery run, newest first
+  getApiCostsBy(period: 'month' | 'run', api?: string, limit = 12): ApiCostPeriod[] {
+    const db = this.getInstance();
+    const group = period === 'month' ? 'substr(called_at, 1, 7)' : 'run_id';
+    const conditions = [period === 'run' ? 'run_id IS NOT NULL' : '1 = 1'];
+    if (api) conditions.push('api = @api');
+
+    return db.prepare(`
+      SELECT
+        ${group} as period,
+        MIN(called_at) as started_at,
+        SUM(CASE WHEN cached = 0 THEN 1 ELSE 0 END) as calls,
+        SUM(cached) as cachedCalls,
+        SUM(cost_usd) as costUsd
+      FROM api_calls
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY ${group}
+      ORDER BY started_at DESC
+      LIMIT @limit
+    `).all({ api: api ?? null, limit }) as ApiCostPeriod[];
+  }
+
   // ==================== STATS & UTILITIES ====================
 
   // Get database statistics
@@ -0,0 +1,564 @@
+// Database Migrations
+// Numbered schema changes, applied in order and recorded in schema_version
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Add a column to an existing table if it's missing. For columns that some
+ * databases already gained before migrations existed.
+ */
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Append new migrations to the end with the next version number. Never edit
+// or reorder one that has shipped: existing databases have already run it.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // Everything created before versioning. Uses IF NOT EXISTS throughout so it
+    // also brings older, unversioned databases up to date without touching data.
+    name: 'baseline',
+    up: (db) => {
+      db.exec(`
+      -- Businesses table
+      CREATE TABLE IF NOT EXISTS businesses (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        business_type TEXT,
+        category TEXT,
+        address TEXT,
+        city TEXT,
+        state TEXT,
+        county TEXT,
+        phone TEXT,
+        email TEXT,
+        website_url TEXT,
+        has_website INTEGER DEFAULT 0,
+        source TEXT NOT NULL,
+        source_id TEXT,
+        google_place_id TEXT,
+        discovered_at TEXT NOT NULL,
+        enriched_at TEXT,
+        status TEXT DEFAULT 'discovered',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      -- Generated websites table
+      CREATE TABLE IF NOT EXISTS generated_websites (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        template_name TEXT NOT NULL,
+        variation_number INTEGER DEFAULT 1,
+        html_content TEXT NOT NULL,
+        preview_url TEXT,
+        deployed_at TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Outreach log table
+      CREATE TABLE IF NOT EXISTS outreach_log (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        method TEXT NOT NULL,
+        sent_at TEXT NOT NULL,
+        response TEXT,
+        notes TEXT,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Business status history (one row per status change)
+      CREATE TABLE IF NOT EXISTS business_status_history (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        reason TEXT,
+        changed_at TEXT NOT NULL,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Website verification table
+      CREATE TABLE IF NOT EXISTS website_verifications (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        verdict TEXT NOT NULL,
+        evidence TEXT NOT NULL,
+        checked_at TEXT NOT NULL,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Email templates table
+      CREATE TABLE IF NOT EXISTS email_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        html_body TEXT NOT NULL,
+        text_body TEXT NOT NULL,
+        physical_address TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      -- Sent emails table
+      CREATE TABLE IF NOT EXISTS email_messages (
+        id TEXT PRIMARY KEY,
+        outreach_id TEXT NOT NULL,
+        business_id TEXT NOT NULL,
+        template_id TEXT,
+        message_id TEXT NOT NULL,
+        to_email TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        sent_at TEXT NOT NULL,
+        FOREIGN KEY (outreach_id) REFERENCES outreach_log(id) ON DELETE CASCADE,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE,
+        FOREIGN KEY (template_id) REFERENCES email_templates(id) ON DELETE SET NULL
+      );
+
+      -- Outreach campaigns table
+      CREATE TABLE IF NOT EXISTS outreach_campaigns (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        template_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'draft',
+        daily_cap INTEGER NOT NULL,
+        send_window_start INTEGER NOT NULL,
+        send_window_end INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT,
+        FOREIGN KEY (template_id) REFERENCES email_templates(id)
+      );
+
+      -- Campaign recipients (send queue)
+      CREATE TABLE IF NOT EXISTS campaign_recipients (
+        id TEXT PRIMARY KEY,
+        campaign_id TEXT NOT NULL,
+        business_id TEXT NOT NULL,
+        email TEXT NOT NULL,
+        name TEXT NOT NULL,
+        website_preview_url TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        message_id TEXT,
+        error TEXT,
+        queued_at TEXT NOT NULL,
+        sent_at TEXT,
+        FOREIGN KEY (campaign_id) REFERENCES outreach_campaigns(id) ON DELETE CASCADE,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Email open/click events
+      CREATE TABLE IF NOT EXISTS email_events (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        url TEXT,
+        occurred_at TEXT NOT NULL
+      );
+
+      -- Preview site events (page views and data-track beacons)
+      CREATE TABLE IF NOT EXISTS site_events (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        website_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        target TEXT,
+        path TEXT,
+        occurred_at TEXT NOT NULL,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE,
+        FOREIGN KEY (website_id) REFERENCES generated_websites(id) ON DELETE CASCADE
+      );
+
+      -- Email suppression list
+      CREATE TABLE IF NOT EXISTS email_suppressions (
+        email TEXT PRIMARY KEY,
+        reason TEXT NOT NULL,
+        business_id TEXT,
+        detail TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE SET NULL
+      );
+
+      -- Inbound replies to outreach emails
+      CREATE TABLE IF NOT EXISTS email_replies (
+        id TEXT PRIMARY KEY,
+        source_message_id TEXT NOT NULL UNIQUE,
+        email_message_id TEXT NOT NULL,
+        outreach_id TEXT NOT NULL,
+        business_id TEXT NOT NULL,
+        from_email TEXT NOT NULL,
+        subject TEXT,
+        body TEXT NOT NULL,
+        classification TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        ingested_at TEXT NOT NULL,
+        FOREIGN KEY (email_message_id) REFERENCES email_messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (outreach_id) REFERENCES outreach_log(id) ON DELETE CASCADE,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Phone calls and in-person visits waiting on the sales rep
+      CREATE TABLE IF NOT EXISTS outreach_tasks (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        method TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        due_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_outcome TEXT,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        completed_at TEXT,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Price quotes for a chosen website variation
+      CREATE TABLE IF NOT EXISTS proposals (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        website_id TEXT NOT NULL,
+        price_cents INTEGER NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'usd',
+        status TEXT NOT NULL DEFAULT 'sent',
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        responded_at TEXT,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE,
+        FOREIGN KEY (website_id) REFERENCES generated_websites(id) ON DELETE CASCADE
+      );
+
+      -- Payment ledger (one row per payment provider event)
+      CREATE TABLE IF NOT EXISTS payments (
+        id TEXT PRIMARY KEY,
+        proposal_id TEXT NOT NULL,
+        business_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        provider_event_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        status TEXT NOT NULL,
+        amount_cents INTEGER NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'usd',
+        received_at TEXT NOT NULL,
+        FOREIGN KEY (proposal_id) REFERENCES proposals(id) ON DELETE CASCADE,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+      );
+
+      -- Paid websites deployed on the client's own domain
+      CREATE TABLE IF NOT EXISTS production_deployments (
+        id TEXT PRIMARY KEY,
+        business_id TEXT NOT NULL,
+        website_id TEXT NOT NULL,
+        proposal_id TEXT NOT NULL,
+        domain TEXT NOT NULL,
+        project_name TEXT NOT NULL,
+        deployment_id TEXT,
+        url TEXT,
+        status TEXT NOT NULL,
+        detail TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE,
+        FOREIGN KEY (website_id) REFERENCES generated_websites(id) ON DELETE CASCADE,
+        FOREIGN KEY (proposal_id) REFERENCES proposals(id) ON DELETE CASCADE
+      );
+
+      -- Indexes for performance
+      CREATE INDEX IF NOT EXISTS idx_businesses_status ON businesses(status);
+      CREATE INDEX IF NOT EXISTS idx_businesses_source ON businesses(source);
+      CREATE INDEX IF NOT EXISTS idx_businesses_state ON businesses(state);
+      CREATE INDEX IF NOT EXISTS idx_businesses_city ON businesses(city);
+      CREATE INDEX IF NOT EXISTS idx_businesses_category ON businesses(category);
+      CREATE INDEX IF NOT EXISTS idx_businesses_has_website ON businesses(has_website);
+      CREATE INDEX IF NOT EXISTS idx_businesses_discovered_at ON businesses(discovered_at);
+      CREATE INDEX IF NOT EXISTS idx_businesses_google_place_id ON businesses(google_place_id);
+      CREATE INDEX IF NOT EXISTS idx_generated_websites_business_id ON generated_websites(business_id);
+      CREATE INDEX IF NOT EXISTS idx_outreach_log_business_id ON outreach_log(business_id);
+      CREATE INDEX IF NOT EXISTS idx_business_status_history_business_id ON business_status_history(business_id, changed_at);
+      CREATE INDEX IF NOT EXISTS idx_website_verifications_business_id ON website_verifications(business_id, checked_at);
+      CREATE INDEX IF NOT EXISTS idx_email_messages_business_id ON email_messages(business_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_email_messages_message_id ON email_messages(message_id);
+      CREATE INDEX IF NOT EXISTS idx_outreach_campaigns_status ON outreach_campaigns(status);
+      CREATE INDEX IF NOT EXISTS idx_campaign_recipients_queue ON campaign_recipients(campaign_id, status, queued_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_recipients_unique ON campaign_recipients(campaign_id, business_id);
+      CREATE INDEX IF NOT EXISTS idx_email_events_message_id ON email_events(message_id, event_type);
+      CREATE INDEX IF NOT EXISTS idx_site_events_business_id ON site_events(business_id, occurred_at);
+      CREATE INDEX IF NOT EXISTS idx_site_events_website_id ON site_events(website_id);
+      CREATE INDEX IF NOT EXISTS idx_email_replies_business_id ON email_replies(business_id, received_at);
+      CREATE INDEX IF NOT EXISTS idx_outreach_tasks_due ON outreach_tasks(status, method, due_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_outreach_tasks_pending
+        ON outreach_tasks(business_id, method) WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_proposals_business_id ON proposals(business_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_payments_proposal_id ON payments(proposal_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_event
+        ON payments(provider, provider_event_id);
+      CREATE INDEX IF NOT EXISTS idx_production_deployments_business_id
+        ON production_deployments(business_id, created_at);
+
+      -- Unique constraint to prevent duplicate source records
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_businesses_source_unique
+        ON businesses(source, source_id) WHERE source_id IS NOT NULL;
+
+      -- Unique constraint for Google Place ID
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_businesses_google_place_id_unique
+        ON businesses(google_place_id) WHERE google_place_id IS NOT NULL;
+      `);
+
+      // Added to email_templates after the table first shipped
+      addColumnIfMissing(db, 'email_templates', 'physical_address', "TEXT NOT NULL DEFAULT ''");
+    },
+  },
+  {
+    version: 2,
+    name: 'places_metadata',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE businesses ADD COLUMN rating REAL;
+        ALTER TABLE businesses ADD COLUMN user_ratings_total INTEGER;
+        ALTER TABLE businesses ADD COLUMN latitude REAL;
+        ALTER TABLE businesses ADD COLUMN longitude REAL;
+        ALTER TABLE businesses ADD COLUMN opening_hours TEXT;
+        ALTER TABLE businesses ADD COLUMN photo_url TEXT;
+        ALTER TABLE businesses ADD COLUMN place_types TEXT;
+        ALTER TABLE businesses ADD COLUMN place_status TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_businesses_rating ON businesses(rating);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'business_reviews',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS business_reviews (
+          id TEXT PRIMARY KEY,
+          business_id TEXT NOT NULL,
+          source TEXT NOT NULL,
+          author_name TEXT NOT NULL,
+          rating INTEGER,
+          text TEXT NOT NULL,
+          published_at TEXT,
+          fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_business_reviews_business_id ON business_reviews(business_id, source);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'lead_scores',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE businesses ADD COLUMN lead_score REAL;
+        ALTER TABLE businesses ADD COLUMN lead_score_details TEXT;
+        ALTER TABLE businesses ADD COLUMN lead_scored_at TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_businesses_lead_score ON businesses(lead_score);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'business_merges',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS business_merges (
+          id TEXT PRIMARY KEY,
+          survivor_id TEXT NOT NULL,
+          merged_id TEXT NOT NULL,
+          merged_name TEXT NOT NULL,
+          merged_snapshot TEXT NOT NULL,
+          moved TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          reason TEXT,
+          merged_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+          business_a TEXT NOT NULL,
+          business_b TEXT NOT NULL,
+          reason TEXT,
+          dismissed_at TEXT NOT NULL,
+          PRIMARY KEY (business_a, business_b)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_business_merges_survivor_id ON business_merges(survivor_id, merged_at);
+        CREATE INDEX IF NOT EXISTS idx_business_merges_merged_id ON business_merges(merged_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'registry_filings',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE businesses ADD COLUMN entity_type TEXT;
+        ALTER TABLE businesses ADD COLUMN formation_date TEXT;
+        ALTER TABLE businesses ADD COLUMN registered_agent_name TEXT;
+        ALTER TABLE businesses ADD COLUMN registered_agent_address TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_businesses_formation_date ON businesses(formation_date);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'discovery_runs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS discovery_runs (
+          id TEXT PRIMARY KEY,
+          areas TEXT NOT NULL,
+          categories TEXT NOT NULL,
+          sources TEXT NOT NULL,
+          found INTEGER NOT NULL DEFAULT 0,
+          without_website INTEGER NOT NULL DEFAULT 0,
+          saved INTEGER NOT NULL DEFAULT 0,
+          already_exists INTEGER NOT NULL DEFAULT 0,
+          changes INTEGER NOT NULL DEFAULT 0,
+          started_at TEXT NOT NULL,
+          completed_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS discovery_searches (
+          id TEXT PRIMARY KEY,
+          run_id TEXT NOT NULL,
+          area TEXT NOT NULL,
+          category TEXT NOT NULL,
+          source TEXT NOT NULL,
+          found INTEGER NOT NULL,
+          without_website INTEGER NOT NULL,
+          saved INTEGER NOT NULL,
+          already_exists INTEGER NOT NULL,
+          changes INTEGER NOT NULL,
+          complete INTEGER NOT NULL,
+          searched_at TEXT NOT NULL,
+          FOREIGN KEY (run_id) REFERENCES discovery_runs(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS place_snapshots (
+          source TEXT NOT NULL,
+          source_id TEXT NOT NULL,
+          business_id TEXT,
+          name TEXT NOT NULL,
+          address TEXT,
+          phone TEXT,
+          website TEXT,
+          business_status TEXT,
+          details TEXT NOT NULL,
+          first_seen_run_id TEXT NOT NULL,
+          last_seen_run_id TEXT NOT NULL,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL,
+          PRIMARY KEY (source, source_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS discovery_changes (
+          id TEXT PRIMARY KEY,
+          run_id TEXT NOT NULL,
+          source TEXT NOT NULL,
+          source_id TEXT NOT NULL,
+          business_id TEXT,
+          name TEXT NOT NULL,
+          change_type TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          detected_at TEXT NOT NULL,
+          FOREIGN KEY (run_id) REFERENCES discovery_runs(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_discovery_searches_key ON discovery_searches(source, area, category);
+        CREATE INDEX IF NOT EXISTS idx_place_snapshots_business_id ON place_snapshots(business_id);
+        CREATE INDEX IF NOT EXISTS idx_discovery_changes_run_id ON discovery_changes(run_id, change_type);
+        CREATE INDEX IF NOT EXISTS idx_discovery_changes_business_id ON discovery_changes(business_id);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'api_cache_and_costs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_cache (
+          key TEXT PRIMARY KEY,
+          api TEXT NOT NULL,
+          endpoint TEXT NOT NULL,
+          params TEXT NOT NULL,
+          response TEXT NOT NULL,
+          fetched_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS api_calls (
+          id TEXT PRIMARY KEY,
+          api TEXT NOT NULL,
+          endpoint TEXT NOT NULL,
+          sku TEXT NOT NULL,
+          cost_usd REAL NOT NULL,
+          cached INTEGER NOT NULL DEFAULT 0,
+          run_id TEXT,
+          called_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_api_cache_expires_at ON api_cache(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_api_calls_called_at ON api_calls(api, called_at);
+        CREATE INDEX IF NOT EXISTS idx_api_calls_run_id ON api_calls(run_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'website_quality',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE generated_websites ADD COLUMN generation_attempts INTEGER;
+        ALTER TABLE generated_websites ADD COLUMN quality_report TEXT;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'website_audits',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS website_audits (
+          website_id TEXT PRIMARY KEY,
+          errors INTEGER NOT NULL,
+          warnings INTEGER NOT NULL,
+          findings TEXT NOT NULL,
+          audited_at TEXT NOT NULL,
+          FOREIGN KEY (website_id) REFERENCES generated_websites(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'campaign_retries',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE outreach_campaigns ADD COLUMN timezone TEXT NOT NULL DEFAULT 'America/Chicago';
+        ALTER TABLE campaign_recipients ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE campaign_recipients ADD COLUMN next_attempt_at TEXT;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
@@ -0,0 +1,60 @@
+// Business Status Machine
+// Allowed moves between business statuses
+
+import type { BusinessStatus } from './types.js';
+
+// Allowed business status changes.
+// Leads can be contacted before a site exists (phone, in person) and a sale
+// can close without a logged reply, so the pipeline allows skipping ahead.
+// rejected = disqualified before contact, lost = contacted but went nowhere.
+export const BUSINESS_STATUS_TRANSITIONS: Record<BusinessStatus, BusinessStatus[]> = {
+  discovered: ['enriched', 'website_generated', 'contacted', 'rejected', 'archived'],
+  enriched: ['website_generated', 'contacted', 'rejected', 'archived'],
+  website_generated: ['deployed', 'contacted', 'sold', 'rejected', 'archived'],
+  deployed: ['contacted', 'sold', 'rejected', 'archived'],
+  contacted: ['interested', 'sold', 'lost', 'archived'],
+  interested: ['sold', 'lost', 'archived'],
+  sold: ['archived'],
+  rejected: ['discovered', 'archived'],
+  lost: ['contacted', 'interested', 'sold', 'archived'],
+  archived: [],
+};
+
+export const BUSINESS_STATUSES = Object.keys(BUSINESS_STATUS_TRANSITIONS) as BusinessStatus[];
+
+// How far along the pipeline each status is, for deciding which record of a
+// duplicated business reflects where we really are with it. A decline (lost)
+// counts as further than a first contact; archived never wins.
+export const BUSINESS_STATUS_PROGRESS: Record<BusinessStatus, number> = {
+  archived: 0,
+  rejected: 1,
+  discovered: 2,
+  enriched: 3,
+  website_generated: 4,
+  deployed: 5,
+  contacted: 6,
+  lost: 7,
+  interested: 8,
+  sold: 9,
+};
+
+/**
+ * Whether a business can move from one status to another.
+ */
+export function canTransitionBusinessStatus(from: BusinessStatus, to: BusinessStatus): boolean {
+  return BUSINESS_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Thrown when a business is moved to a status it can't reach from its current one.
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly businessId: string,
+    public readonly from: BusinessStatus,
+    public readonly to: BusinessStatus
+  ) {
+    super(`Business ${businessId} cannot go from "${from}" to "${to}"`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
@@ -8,10 +8,14 @@ export type BusinessStatus =
   | 'website_generated'
   | 'deployed'
   | 'contacted'
-  | 'sold';
+  | 'interested'
+  | 'sold'
+  | 'rejected'
+  | 'lost'
+  | 'archived';
 
 // Source registries / discovery sources
-export type BusinessSource = 'google_places' | 'ms_sos' | 'tn_sos' | 'al_sos' | 'la_sos' | 'ar_sos' | string;
+export type BusinessSource = 'google_places' | 'osm' | 'ms_sos' | 'tn_sos' | 'al_sos' | 'la_sos' | 'ar_sos' | string;
 
 // Outreach methods
 export type OutreachMethod = 'email' | 'phone' | 'in_person';
@@ -38,6 +42,24 @@ export interface Business {
   status: BusinessStatus;
   created_at: string;
   updated_at: string;
+  // Google Places metadata (null for businesses Places hasn't seen)
+  rating: number | null;               // 1-5 stars
+  user_ratings_total: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  opening_hours: string | null;        // JSON array of weekday lines, e.g. "Monday: 9:00 AM – 5:00 PM"
+  photo_url: string | null;            // Place Photo URL without the API key
+  place_types: string | null;          // JSON array of Places types
+  place_status: string | null;         // OPERATIONAL, CLOSED_TEMPORARILY, CLOSED_PERMANENTLY
+  // Lead score (null until scored; see the scoring module)
+  lead_score: number | null;           // 0-100, higher = better lead
+  lead_score_details: string | null;   // JSON LeadScoreDetails
+  lead_scored_at: string | null;
+  // Secretary of State filing (null for businesses not from a state registry)
+  entity_type: string | null;              // e.g. "Limited Liability Company"
+  formation_date: string | null;           // YYYY-MM-DD
+  registered_agent_name: string | null;
+  registered_agent_address: string | null;
 }
 
 // Business insert (without auto-generated fields)
@@ -59,6 +81,18 @@ export interface BusinessInsert {
   google_place_id?: string | null; // Google Places API place_id
   discovered_at?: string;
   status?: BusinessStatus;
+  rating?: number | null;
+  user_ratings_total?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  opening_hours?: string | null;
+  photo_url?: string | null;
+  place_types?: string | null;
+  place_status?: string | null;
+  entity_type?: string | null;
+  formation_date?: string | null;
+  registered_agent_name?: string | null;
+  registered_agent_address?: string | null;
 }
 
 // Business update (all fields optional)
@@ -78,7 +112,35 @@ export interface BusinessUpdate {
   source_id?: string | null;
   google_place_id?: string | null;
   enriched_at?: string | null;
-  status?: BusinessStatus;
+  rating?: number | null;
+  user_ratings_total?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  opening_hours?: string | null;
+  photo_url?: string | null;
+  place_types?: string | null;
+  place_status?: string | null;
+  entity_type?: string | null;
+  formation_date?: string | null;
+  registered_agent_name?: string | null;
+  registered_agent_address?: string | null;
+}
+
+// Business status change (from_status is null for the status a business was created with)
+export interface BusinessStatusChange {
+  id: string;
+  business_id: string;
+  from_status: BusinessStatus | null;
+  to_status: BusinessStatus;
+  actor: string;                  // Who made the change, e.g. "generator", "replies", "cli"
+  reason: string | null;
+  changed_at: string;
+}
+
+// Who and why, recorded with a status change
+export interface StatusChangeOptions {
+  actor?: string;                 // Defaults to "system"
+  reason?: string | null;
 }
 
 // Generated website entity
@@ -90,6 +152,8 @@ export interface GeneratedWebsite {
   html_content: string;
   preview_url: string | null;
   deployed_at: string | null;
+  generation_attempts: number | null;  // Generation attempts it took to pass the quality check
+  quality_report: string | null;       // JSON quality report (see generator WebsiteQualityReport)
   created_at: string;
 }
 
@@ -101,6 +165,8 @@ export interface WebsiteInsert {
   variation_number?: number;
   html_content: string;
   preview_url?: string | null;
+  generation_attempts?: number | null;
+  quality_report?: string | null;
 }
 
 // Website update
@@ -112,6 +178,23 @@ export interface WebsiteUpdate {
   deployed_at?: string | null;
 }
 
+// Latest structural/accessibility audit of a generated website
+export interface WebsiteAudit {
+  website_id: string;
+  errors: number;
+  warnings: number;
+  findings: string;     // JSON: AuditFinding[] (see generator audit)
+  audited_at: string;
+}
+
+// Website audit save (replaces the website's earlier audit)
+export interface WebsiteAuditSave {
+  website_id: string;
+  errors: number;
+  warnings: number;
+  findings: string;
+}
+
 // Outreach log entity
 export interface OutreachLog {
   id: string;
@@ -132,6 +215,621 @@ export interface OutreachInsert {
   notes?: string | null;
 }
 
+// Website verification verdicts
+export type WebsiteVerdict = 'no_website' | 'uncertain' | 'has_website';
+
+// Website verification entity (one row per verification run)
+export interface WebsiteVerification {
+  id: string;
+  business_id: string;
+  confidence: number;             // 0-1 confidence that the business has NO website
+  verdict: WebsiteVerdict;
+  evidence: string;               // JSON array of WebPresenceEvidence
+  checked_at: string;
+}
+
+// Website verification insert
+export interface WebsiteVerificationInsert {
+  id?: string;
+  business_id: string;
+  confidence: number;
+  verdict: WebsiteVerdict;
+  evidence: string;
+  checked_at?: string;
+}
+
+// Review snippet pulled from a listing (Google returns up to five per place)
+export interface BusinessReview {
+  id: string;
+  business_id: string;
+  source: string;                 // e.g. 'google_places'
+  author_name: string;
+  rating: number | null;          // 1-5 stars
+  text: string;
+  published_at: string | null;
+  fetched_at: string;
+}
+
+// Business review insert
+export interface BusinessReviewInsert {
+  author_name: string;
+  rating?: number | null;
+  text: string;
+  published_at?: string | null;
+}
+
+// Record of one business merged into another (the merged row is deleted)
+export interface BusinessMerge {
+  id: string;
+  survivor_id: string;
+  merged_id: string;
+  merged_name: string;
+  merged_snapshot: string;        // JSON: the merged business row and its status history
+  moved: string;                  // JSON: rows moved per table, e.g. {"generated_websites": 2}
+  actor: string;
+  reason: string | null;
+  merged_at: string;
+}
+
+// Options for merging two businesses
+export interface MergeOptions {
+  actor?: string;
+  reason?: string | null;
+}
+
+// Result of merging two businesses
+export interface MergeResult {
+  survivor: Business;
+  merge: BusinessMerge;
+  moved: Record<string, number>;
+  filledFields: string[];         // Survivor fields filled in from the merged business
+  statusChange: { from: BusinessStatus; to: BusinessStatus } | null;
+}
+
+// A candidate pair someone reviewed and decided is not a duplicate
+export interface DuplicateDismissal {
+  business_a: string;             // The lower of the two IDs
+  business_b: string;
+  reason: string | null;
+  dismissed_at: string;
+}
+
+// What a discovery run noticed about a place since it was last seen
+export type DiscoveryChangeType = 'new_place' | 'gained_website' | 'closed' | 'phone_changed' | 'address_changed';
+
+// One discovery run (every area, category and source searched in one go)
+export interface DiscoveryRun {
+  id: string;
+  areas: string;                  // JSON: area names, e.g. ["Benton County, MS"]
+  categories: string;             // JSON: category labels
+  sources: string;                // JSON: source names
+  found: number;
+  without_website: number;
+  saved: number;
+  already_exists: number;
+  changes: number;
+  started_at: string;
+  completed_at: string | null;    // Null while running (or if the run died)
+}
+
+// Discovery run insert
+export interface DiscoveryRunInsert {
+  id?: string;
+  areas: string[];
+  categories: string[];
+  sources: string[];
+}
+
+// Counts recorded when a run finishes
+export interface DiscoveryRunTotals {
+  found: number;
+  without_website: number;
+  saved: number;
+  already_exists: number;
+  changes: number;
+}
+
+// One area/category/source search within a run
+export interface DiscoverySearch extends DiscoveryRunTotals {
+  id: string;
+  run_id: string;
+  area: string;
+  category: string;
+  source: string;
+  complete: number;               // SQLite boolean: 0 if any search hit the result limit
+  searched_at: string;
+}
+
+// Discovery search insert
+export interface DiscoverySearchInsert extends DiscoveryRunTotals {
+  run_id: string;
+  area: string;
+  category: string;
+  source: string;
+  complete: boolean;
+}
+
+// Latest details seen for a place, per source (kept for places with websites too)
+export interface PlaceSnapshot {
+  source: string;
+  source_id: string;
+  business_id: string | null;     // The business it was saved as or matched to, if any
+  name: string;
+  address: string | null;
+  phone: string | null;
+  website: string | null;
+  business_status: string | null;
+  details: string;                // JSON: the full details result
+  first_seen_run_id: string;
+  last_seen_run_id: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// Place snapshot upsert
+export interface PlaceSnapshotUpsert {
+  source: string;
+  source_id: string;
+  business_id?: string | null;    // Left as is when not given
+  name: string;
+  address: string | null;
+  phone: string | null;
+  website: string | null;
+  business_status: string | null;
+  details: string;
+  run_id: string;
+}
+
+// A change flagged by a discovery run
+export interface DiscoveryChange {
+  id: string;
+  run_id: string;
+  source: string;
+  source_id: string;
+  business_id: string | null;
+  name: string;
+  change_type: DiscoveryChangeType;
+  old_value: string | null;
+  new_value: string | null;
+  detected_at: string;
+}
+
+// Discovery change insert
+export interface DiscoveryChangeInsert {
+  run_id: string;
+  source: string;
+  source_id: string;
+  business_id: string | null;
+  name: string;
+  change_type: DiscoveryChangeType;
+  old_value?: string | null;
+  new_value?: string | null;
+}
+
+// Query options for the change feed
+export interface DiscoveryChangeQueryOptions {
+  runId?: string;
+  types?: DiscoveryChangeType[];
+  limit?: number;
+}
+
+// Cached response from a paid API
+export interface ApiCacheEntry {
+  key: string;                    // API, endpoint and request parameters
+  api: string;
+  endpoint: string;
+  params: string;                 // JSON: the request parameters (without the API key)
+  response: string;               // JSON
+  fetched_at: string;
+  expires_at: string;
+}
+
+// API cache insert
+export interface ApiCacheEntryInsert {
+  key: string;
+  api: string;
+  endpoint: string;
+  params: string;
+  response: string;
+  ttlHours: number;
+}
+
+// One paid API request, live or served from the cache (cost 0)
+export interface ApiCall {
+  id: string;
+  api: string;                    // e.g. "google_places"
+  endpoint: string;               // e.g. "place_details"
+  sku: string;                    // The billing SKU the request is priced under
+  cost_usd: number;
+  cached: number;                 // SQLite boolean
+  run_id: string | null;          // The discovery run that made it, if any
+  called_at: string;
+}
+
+// API call insert
+export interface ApiCallInsert {
+  api: string;
+  endpoint: string;
+  sku: string;
+  cost_usd: number;
+  cached?: boolean;
+  run_id?: string | null;
+}
+
+// Filters for API cost totals
+export interface ApiCallQueryOptions {
+  api?: string;
+  runId?: string;
+  since?: string;                 // ISO timestamp, inclusive
+}
+
+// API usage over some period or run
+export interface ApiCallTotals {
+  calls: number;                  // Live requests
+  cachedCalls: number;            // Requests answered from the cache
+  costUsd: number;
+}
+
+// API usage for one month or one run
+export interface ApiCostPeriod extends ApiCallTotals {
+  period: string;                 // "2026-10", or a discovery run ID
+  started_at: string;             // First call in the period
+}
+
+// Stored email template (merge fields are left unrendered)
+export interface EmailTemplateRecord {
+  id: string;
+  name: string;
+  subject: string;
+  html_body: string;
+  text_body: string;
+  physical_address: string;       // Sender's postal address for the compliance footer
+  created_at: string;
+  updated_at: string;
+}
+
+// Email template insert
+export interface EmailTemplateInsert {
+  id?: string;
+  name: string;
+  subject: string;
+  html_body: string;
+  text_body: string;
+  physical_address: string;
+}
+
+// Sent email entity (links an SMTP Message-ID to its outreach_log row)
+export interface EmailMessage {
+  id: string;
+  outreach_id: string;
+  business_id: string;
+  template_id: string | null;
+  message_id: string;
+  to_email: string;
+  subject: string;
+  sent_at: string;
+}
+
+// Sent email insert
+export interface EmailMessageInsert {
+  id?: string;
+  outreach_id: string;
+  business_id: string;
+  template_id?: string | null;
+  message_id: string;
+  to_email: string;
+  subject: string;
+  sent_at?: string;
+}
+
+// Outreach campaign lifecycle
+export type CampaignStatus = 'draft' | 'active' | 'paused' | 'completed';
+
+// Campaign recipient states
+export type CampaignRecipientStatus = 'queued' | 'sent' | 'failed' | 'suppressed';
+
+// Outreach campaign entity
+export interface Campaign {
+  id: string;
+  name: string;
+  template_id: string;
+  status: CampaignStatus;
+  daily_cap: number;              // Max emails per day across the campaign
+  send_window_start: number;      // Local hour (0-23) sending may begin, in the business's timezone
+  send_window_end: number;        // Local hour (1-24) sending must stop
+  timezone: string;               // IANA timezone whose midnight resets the daily cap
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// Campaign insert
+export interface CampaignInsert {
+  id?: string;
+  name: string;
+  template_id: string;
+  daily_cap: number;
+  send_window_start: number;
+  send_window_end: number;
+  timezone: string;
+}
+
+// Campaign recipient entity (one queued EmailRecipient)
+export interface CampaignRecipient {
+  id: string;
+  campaign_id: string;
+  business_id: string;
+  email: string;
+  name: string;
+  website_preview_url: string;
+  status: CampaignRecipientStatus;
+  message_id: string | null;
+  error: string | null;
+  attempts: number;               // Sends tried so far
+  next_attempt_at: string | null; // Set after a temporary failure; not retried before then
+  queued_at: string;
+  sent_at: string | null;
+}
+
+// Campaign recipient insert
+export interface CampaignRecipientInsert {
+  id?: string;
+  campaign_id: string;
+  business_id: string;
+  email: string;
+  name: string;
+  website_preview_url: string;
+}
+
+// Email engagement events
+export type EmailEventType = 'open' | 'click';
+
+// Email event entity
+export interface EmailEvent {
+  id: string;
+  message_id: string;
+  event_type: EmailEventType;
+  url: string | null;
+  occurred_at: string;
+}
+
+// Email event insert
+export interface EmailEventInsert {
+  id?: string;
+  message_id: string;
+  event_type: EmailEventType;
+  url?: string | null;
+  occurred_at?: string;
+}
+
+// Preview site events sent by the tracking beacon
+export type SiteEventType = 'page_view' | 'track';
+
+// Site event entity
+export interface SiteEvent {
+  id: string;
+  business_id: string;
+  website_id: string;
+  event_type: SiteEventType;
+  target: string | null;          // data-track name for 'track' events
+  path: string | null;
+  occurred_at: string;
+}
+
+// Site event insert
+export interface SiteEventInsert {
+  id?: string;
+  business_id: string;
+  website_id: string;
+  event_type: SiteEventType;
+  target?: string | null;
+  path?: string | null;
+  occurred_at?: string;
+}
+
+// Engagement counts for one business
+export interface BusinessEngagement {
+  business_id: string;
+  email_opens: number;
+  email_clicks: number;
+  page_views: number;
+  tracked_actions: number;
+  last_seen_at: string | null;
+}
+
+// Campaign counts
+export interface CampaignCounts {
+  queued: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  opened: number;
+  clicked: number;
+}
+
+// Why an address is on the suppression list
+export type SuppressionReason = 'unsubscribe' | 'hard_bounce' | 'complaint' | 'manual';
+
+// Suppressed email address (never emailed again)
+export interface EmailSuppression {
+  email: string;                  // Lowercased
+  reason: SuppressionReason;
+  business_id: string | null;
+  detail: string | null;
+  created_at: string;
+}
+
+// Suppression insert
+export interface EmailSuppressionInsert {
+  email: string;
+  reason: SuppressionReason;
+  business_id?: string | null;
+  detail?: string | null;
+}
+
+// How an inbound reply was classified
+export type ReplyClassification = 'interested' | 'not_interested' | 'unsubscribe' | 'out_of_office' | 'unknown';
+
+// Inbound reply to an outreach email
+export interface EmailReply {
+  id: string;
+  source_message_id: string;      // Message-ID of the reply itself (dedupes re-ingestion)
+  email_message_id: string;       // email_messages row it answers
+  outreach_id: string;
+  business_id: string;
+  from_email: string;
+  subject: string | null;
+  body: string;                   // Reply text with quoted history removed
+  classification: ReplyClassification;
+  received_at: string;
+  ingested_at: string;
+}
+
+// Email reply insert
+export interface EmailReplyInsert {
+  id?: string;
+  source_message_id: string;
+  email_message_id: string;
+  outreach_id: string;
+  business_id: string;
+  from_email: string;
+  subject?: string | null;
+  body: string;
+  classification: ReplyClassification;
+  received_at?: string;
+}
+
+// Outreach methods handled by the sales rep's task queue
+export type OutreachTaskMethod = Exclude<OutreachMethod, 'email'>;
+
+// Phone / in-person task lifecycle
+export type OutreachTaskStatus = 'pending' | 'completed' | 'cancelled';
+
+// What happened on a call or visit
+export type OutreachTaskOutcome = 'no_answer' | 'voicemail' | 'callback' | 'interested' | 'declined';
+
+// Call or visit the sales rep still has to make
+export interface OutreachTask {
+  id: string;
+  business_id: string;
+  method: OutreachTaskMethod;
+  status: OutreachTaskStatus;
+  due_at: string;
+  attempts: number;
+  last_outcome: OutreachTaskOutcome | null;
+  notes: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// Outreach task insert
+export interface OutreachTaskInsert {
+  id?: string;
+  business_id: string;
+  method: OutreachTaskMethod;
+  due_at?: string;
+}
+
+// Query options for due tasks
+export interface OutreachTaskQueryOptions {
+  method?: OutreachTaskMethod;
+  dueBefore?: string;
+  city?: string;
+  state?: string;
+  limit?: number;
+}
+
+// Proposal lifecycle
+export type ProposalStatus = 'sent' | 'accepted' | 'declined' | 'withdrawn';
+
+// Price quote for one chosen website variation
+export interface Proposal {
+  id: string;
+  business_id: string;
+  website_id: string;             // Chosen generated_websites row (variation)
+  price_cents: number;
+  currency: string;
+  status: ProposalStatus;
+  notes: string | null;
+  created_at: string;
+  responded_at: string | null;
+}
+
+// Proposal insert
+export interface ProposalInsert {
+  id?: string;
+  business_id: string;
+  website_id: string;
+  price_cents: number;
+  currency?: string;
+  notes?: string | null;
+}
+
+// Ledger entry kinds and states
+export type PaymentKind = 'payment' | 'refund';
+export type PaymentStatus = 'succeeded' | 'failed';
+
+// Payment ledger entry (one provider event)
+export interface Payment {
+  id: string;
+  proposal_id: string;
+  business_id: string;
+  provider: string;
+  provider_event_id: string;      // Dedupes webhook retries
+  kind: PaymentKind;
+  status: PaymentStatus;
+  amount_cents: number;           // Always positive; refunds are subtracted
+  currency: string;
+  received_at: string;
+}
+
+// Payment insert
+export interface PaymentInsert {
+  id?: string;
+  proposal_id: string;
+  business_id: string;
+  provider: string;
+  provider_event_id: string;
+  kind: PaymentKind;
+  status: PaymentStatus;
+  amount_cents: number;
+  currency?: string;
+  received_at?: string;
+}
+
+// Production deployment states
+export type ProductionDeploymentStatus = 'live' | 'pending_dns' | 'failed';
+
+// Paid website deployed on the client's own domain
+export interface ProductionDeployment {
+  id: string;
+  business_id: string;
+  website_id: string;
+  proposal_id: string;
+  domain: string;
+  project_name: string;
+  deployment_id: string | null;
+  url: string | null;
+  status: ProductionDeploymentStatus;
+  detail: string | null;          // DNS instructions or error
+  created_at: string;
+}
+
+// Production deployment insert
+export interface ProductionDeploymentInsert {
+  id?: string;
+  business_id: string;
+  website_id: string;
+  proposal_id: string;
+  domain: string;
+  project_name: string;
+  deployment_id?: string | null;
+  url?: string | null;
+  status: ProductionDeploymentStatus;
+  detail?: string | null;
+}
+
 // Query options
 export interface BusinessQueryOptions {
   status?: BusinessStatus;
@@ -140,6 +838,11 @@ export interface BusinessQueryOptions {
   city?: string;
   category?: string;
   hasWebsite?: boolean;
+  minRating?: number;
+  minReviews?: number;
+  placeType?: string;          // Places type, e.g. "hair_care"
+  placeStatus?: string;        // Places business_status, e.g. "OPERATIONAL"
+  hasHours?: boolean;
   limit?: number;
   offset?: number;
 }
@@ -152,3 +855,26 @@ export interface DatabaseStats {
   totalWebsites: number;
   totalOutreach: number;
 }
+
+// Applied migration (schema_version row)
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+// Where the schema stands
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: SchemaMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+// Outcome of DatabaseManager.migrate
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: number[];
+  backupPath: string | null;   // Copy of the database taken before migrating
+}
@@ -8,12 +8,25 @@ export { enrichment } from './modules/enrichment/index.js';
 export { generator } from './modules/generator/index.js';
 export { deployment } from './modules/deployment/index.js';
 export { outreach } from './modules/outreach/index.js';
-export { db, DatabaseManager } from './database/index.js';
+export { tracking } from './modules/tracking/index.js';
+export { sales } from './modules/sales/index.js';
+export { scoring } from './modules/scoring/index.js';
+export { dedupe } from './modules/dedupe/index.js';
+export { registry } from './modules/registry/index.js';
+export {
+  db,
+  DatabaseManager,
+  BUSINESS_STATUS_TRANSITIONS,
+  InvalidStatusTransitionError,
+  canTransitionBusinessStatus,
+} from './database/index.js';
 export type {
   Business,
   BusinessInsert,
   BusinessUpdate,
   BusinessStatus,
+  BusinessStatusChange,
+  StatusChangeOptions,
   BusinessSource,
   BusinessQueryOptions,
   GeneratedWebsite,
@@ -22,6 +35,30 @@ export type {
   OutreachLog,
   OutreachInsert,
   OutreachMethod,
+  WebsiteVerification,
+  WebsiteVerdict,
+  BusinessReview,
+  BusinessMerge,
+  MergeResult,
+  EmailTemplateRecord,
+  EmailMessage,
+  Campaign,
+  CampaignStatus,
+  CampaignRecipient,
+  EmailEvent,
+  SiteEvent,
+  BusinessEngagement,
+  EmailSuppression,
+  SuppressionReason,
+  EmailReply,
+  ReplyClassification,
+  OutreachTask,
+  OutreachTaskMethod,
+  OutreachTaskOutcome,
+  Proposal,
+  ProposalStatus,
+  Payment,
+  ProductionDeployment,
   DatabaseStats,
 } from './database/index.js';
 export { config } from './config/index.js';
@@ -0,0 +1,231 @@
+// Dedupe Module
+// Finds businesses saved more than once and merges them into one record
+
+import { db } from '../../database/index.js';
+import { BUSINESS_STATUS_PROGRESS } from '../../database/status.js';
+import type { Business, MergeOptions, MergeResult } from '../../database/types.js';
+import { LeadScoringService } from '../scoring/index.js';
+import { distanceKm, logger } from '../../utils/index.js';
+import { nameKey, nameSimilarity, normalizeAddress, normalizePhone } from './normalize.js';
+import { DEFAULT_DEDUPE_OPTIONS, DedupeOptions, DedupeRecord, DuplicateCandidate } from './types.js';
+
+// Re-export types and normalizers
+export * from './types.js';
+export * from './normalize.js';
+
+/**
+ * DuplicateDetector - Scores pairs of businesses as possible duplicates
+ *
+ * Names are compared after stripping punctuation and legal suffixes
+ * ("Joe's Barber Shop" vs "Joes Barbershop LLC"), addresses after
+ * abbreviating street suffixes and dropping units, phones by digits, and
+ * locations by distance. Two branches of a chain (same name, different
+ * addresses far apart) score low.
+ *
+ * Usage:
+ * ```typescript
+ * const detector = new DuplicateDetector({ state: 'MS' });
+ * const candidates = detector.findCandidates();
+ * ```
+ */
+export class DuplicateDetector {
+  private options: DedupeOptions;
+
+  constructor(options?: Partial<DedupeOptions>) {
+    this.options = { ...DEFAULT_DEDUPE_OPTIONS, ...options };
+  }
+
+  /**
+   * Score two records. Returns null when they share nothing but a city.
+   */
+  compare(a: DedupeRecord, b: DedupeRecord): Omit<DuplicateCandidate, 'a' | 'b' | 'suggestedSurvivorId'> | null {
+    const similarity = Math.round(nameSimilarity(a.name, b.name) * 100) / 100;
+    const reasons: string[] = [];
+
+    const phoneA = normalizePhone(a.phone);
+    const phoneB = normalizePhone(b.phone);
+    const samePhone = phoneA !== null && phoneA === phoneB;
+
+    // Different names are only worth a look when the phone number is shared
+    if (similarity < 0.5 && !samePhone) {
+      return null;
+    }
+
+    let score = similarity * 0.6;
+    reasons.push(nameKey(a.name) === nameKey(b.name) ? 'same name' : `similar name (${similarity})`);
+
+    if (samePhone) {
+      score += 0.25;
+      reasons.push('same phone');
+    }
+
+    const addressA = normalizeAddress(a.address);
+    const addressB = normalizeAddress(b.address);
+    const sameAddress = addressA !== null && addressA === addressB;
+    if (sameAddress) {
+      score += 0.25;
+      reasons.push('same address');
+    }
+
+    let distanceMeters: number | null = null;
+    if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+      distanceMeters = Math.round(distanceKm(
+        { latitude: a.latitude, longitude: a.longitude },
+        { latitude: b.latitude, longitude: b.longitude }
+      ) * 1000);
+    }
+    const nearby = distanceMeters !== null && distanceMeters <= this.options.maxDistanceMeters;
+    if (nearby) {
+      score += 0.15;
+      reasons.push(`${distanceMeters}m apart`);
+    }
+
+    if (sameLocality(a, b)) {
+      score += 0.2;
+      reasons.push('same city');
+    }
+
+    // Same name at two known, different places: probably a chain. Addresses
+    // that only differ after the street number ("120 Main St" vs "120 N Main
+    // St") are more likely the same place written differently.
+    const differentPlace = addressA !== null && addressB !== null && addressA.split(' ')[0] !== addressB.split(' ')[0];
+    if (differentPlace && !nearby && !samePhone) {
+      score -= 0.3;
+      reasons.push('different address');
+    }
+
+    return {
+      score: Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100,
+      nameSimilarity: similarity,
+      reasons,
+      distanceMeters,
+    };
+  }
+
+  /**
+   * Find likely duplicate pairs among saved businesses, best first.
+   * Pairs already reviewed and dismissed are skipped.
+   */
+  findCandidates(options?: Partial<DedupeOptions>): DuplicateCandidate[] {
+    const opts = { ...this.options, ...options };
+    const businesses = db.getBusinessesForDedupe({ city: opts.city, state: opts.state });
+    const dismissed = new Set(db.getDuplicateDismissals().map((d) => pairKey(d.business_a, d.business_b)));
+
+    // Only compare within a city, or across cities when the phone matches
+    const blocks = new Map<string, Business[]>();
+    const addToBlock = (key: string, business: Business): void => {
+      const block = blocks.get(key);
+      if (block) block.push(business);
+      else blocks.set(key, [business]);
+    };
+    for (const business of businesses) {
+      addToBlock(`place:${localityKey(business)}`, business);
+      const phone = normalizePhone(business.phone);
+      if (phone) addToBlock(`phone:${phone}`, business);
+    }
+
+    const seen = new Set<string>();
+    const candidates: DuplicateCandidate[] = [];
+    for (const block of blocks.values()) {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const a = block[i]!;
+          const b = block[j]!;
+          const key = pairKey(a.id, b.id);
+          if (seen.has(key) || dismissed.has(key)) continue;
+          seen.add(key);
+
+          const match = this.compare(a, b);
+          if (match && match.score >= opts.minScore) {
+            candidates.push({ a, b, ...match, suggestedSurvivorId: suggestSurvivor(a, b).id });
+          }
+        }
+      }
+    }
+
+    return candidates.sort((x, y) => y.score - x.score);
+  }
+
+  /**
+   * Find a saved business that is confidently the same as a new record,
+   * for checking a place before inserting it.
+   */
+  findExisting(record: DedupeRecord): Business | null {
+    const pool = db.getBusinessesForDedupe({ city: record.city, state: record.state });
+    let best: { business: Business; score: number } | null = null;
+
+    for (const business of pool) {
+      const match = this.compare(record, business);
+      if (match && match.score >= this.options.autoMatchScore && (!best || match.score > best.score)) {
+        best = { business, score: match.score };
+      }
+    }
+
+    return best?.business ?? null;
+  }
+
+  /**
+   * Get the current thresholds.
+   */
+  getOptions(): DedupeOptions {
+    return { ...this.options };
+  }
+}
+
+function localityKey(record: DedupeRecord): string {
+  return `${(record.city ?? '').trim().toLowerCase()}|${(record.state ?? '').trim().toLowerCase()}`;
+}
+
+function sameLocality(a: DedupeRecord, b: DedupeRecord): boolean {
+  return Boolean(a.city && b.city) && localityKey(a) === localityKey(b);
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Pick which of two duplicates to keep: the one further along the pipeline,
+ * else the one discovered first.
+ */
+export function suggestSurvivor(a: Business, b: Business): Business {
+  const progressA = BUSINESS_STATUS_PROGRESS[a.status];
+  const progressB = BUSINESS_STATUS_PROGRESS[b.status];
+  if (progressA !== progressB) return progressA > progressB ? a : b;
+  return a.discovered_at <= b.discovered_at ? a : b;
+}
+
+/**
+ * Convenience function to list likely duplicates.
+ */
+export function findDuplicates(options?: Partial<DedupeOptions>): DuplicateCandidate[] {
+  return new DuplicateDetector(options).findCandidates();
+}
+
+/**
+ * Merge a duplicate into the business we keep and rescore the survivor.
+ */
+export function mergeDuplicate(survivorId: string, duplicateId: string, options?: MergeOptions): MergeResult {
+  const result = db.mergeBusinesses(survivorId, duplicateId, options);
+  new LeadScoringService().scoreAndSave(result.survivor);
+
+  const moved = Object.entries(result.moved).map(([table, count]) => `${count} ${table}`).join(', ');
+  logger.info(`Merged "${result.merge.merged_name}" into "${result.survivor.name}"${moved ? ` (moved ${moved})` : ''}`);
+  return { ...result, survivor: db.getBusinessById(survivorId)! };
+}
+
+/**
+ * Mark a pair as reviewed and not duplicates so it stops being suggested.
+ */
+export function dismissDuplicate(businessA: string, businessB: string, reason?: string): void {
+  db.dismissDuplicate(businessA, businessB, reason ?? null);
+}
+
+// Module export object
+export const dedupe = {
+  DuplicateDetector,
+  findDuplicates,
+  mergeDuplicate,
+  dismissDuplicate,
+  suggestSurvivor,
+};
@@ -0,0 +1,110 @@
+// Dedupe Normalization
+// Canonical forms of names, addresses and phone numbers for duplicate matching
+
+// Legal and filler words that don't tell two businesses apart
+const NAME_NOISE = new Set([
+  'the', 'llc', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company',
+  'ltd', 'limited', 'pllc', 'pc', 'lp', 'llp', 'dba', 'and',
+]);
+
+// USPS-style street suffix and direction abbreviations
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', av: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd',
+  lane: 'ln', court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', circle: 'cir',
+  terrace: 'ter', square: 'sq', trail: 'trl', way: 'way', suite: 'ste', apartment: 'apt',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw',
+};
+
+// Unit designators; the unit is dropped so "Suite 4" and "#4" still match
+const UNIT_PATTERN = /\b(?:ste|apt|unit|bldg|rm|fl)\b.*$|#.*$/;
+
+/**
+ * Lowercase, strip accents and apostrophes, turn other punctuation into spaces.
+ */
+function simplify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2019`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Name with legal suffixes and filler removed, as words:
+ * "Joe's Barber Shop, LLC" -> "joes barber shop".
+ */
+export function normalizeName(name: string): string {
+  return simplify(name.replace(/\bl\.\s*l\.\s*c\b\.?/gi, 'llc'))
+    .split(' ')
+    .filter((word) => word && !NAME_NOISE.has(word))
+    .join(' ');
+}
+
+/**
+ * Name key for exact comparison, ignoring spacing:
+ * "Joes Barbershop LLC" and "Joe's Barber Shop" both give "joesbarbershop".
+ */
+export function nameKey(name: string): string {
+  return normalizeName(name).replace(/ /g, '');
+}
+
+/**
+ * Street address with abbreviations applied and the unit dropped:
+ * "120 North Main Street, Suite 4" -> "120 n main st".
+ */
+export function normalizeAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+  const words = simplify(address.replace(UNIT_PATTERN, '').split(',')[0] ?? '')
+    .split(' ')
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word);
+  const normalized = words.join(' ').replace(UNIT_PATTERN, '').trim();
+  return normalized || null;
+}
+
+/**
+ * Ten-digit US phone number, or null if there aren't enough digits.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length === 10 ? national : null;
+}
+
+/**
+ * Name similarity from 0 to 1 (Dice coefficient over character bigrams of the name keys).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const keyA = nameKey(a);
+  const keyB = nameKey(b);
+  if (!keyA || !keyB) return 0;
+  if (keyA === keyB) return 1;
+
+  const bigramsA = bigrams(keyA);
+  const bigramsB = bigrams(keyB);
+  if (bigramsA.length === 0 || bigramsB.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of bigramsA) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+
+  let shared = 0;
+  for (const gram of bigramsB) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (bigramsA.length + bigramsB.length);
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2));
+  return grams;
+}
@@ -0,0 +1,59 @@
+// Dedupe Module Types
+// Types and interfaces for finding and merging duplicate businesses
+
+import type { Business } from '../../database/types.js';
+
+/**
+ * A pair of businesses that look like the same place
+ */
+export interface DuplicateCandidate {
+  a: Business;
+  b: Business;
+  score: number;                 // 0-1
+  nameSimilarity: number;        // 0-1
+  reasons: string[];             // What matched, e.g. "same phone"
+  distanceMeters: number | null; // Between the two, when both have coordinates
+  suggestedSurvivorId: string;   // The record further along the pipeline, else the older one
+}
+
+/**
+ * The fields compared when matching; a Business or a not-yet-saved insert
+ */
+export interface DedupeRecord {
+  id?: string;
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  phone?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+/**
+ * Matching thresholds
+ */
+export interface DedupeOptions {
+  // Pairs scoring below this aren't reported
+  minScore: number;
+
+  // Pairs scoring at least this are treated as the same business when
+  // discovery checks a new place
+  autoMatchScore: number;
+
+  // Two places within this distance count as the same location
+  maxDistanceMeters: number;
+
+  // Only compare businesses in this city/state
+  city?: string;
+  state?: string;
+}
+
+/**
+ * Default thresholds
+ */
+export const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+  minScore: 0.6,
+  autoMatchScore: 0.8,
+  maxDistanceMeters: 150,
+};
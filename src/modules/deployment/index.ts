@@ -3,11 +3,14 @@
 
 import { db } from '../../database/index.js';
 import { logger } from '../../utils/index.js';
+import { TrackingLinks, trackingLinks } from '../tracking/links.js';
 import { VercelClient, vercelClient } from './vercel-client.js';
 import type {
   DeploymentResult,
   DeployOptions,
   BatchDeploymentResult,
+  ProductionDeployOptions,
+  ProductionDeployResult,
 } from './types.js';
 
 // Re-export types and client
@@ -22,6 +25,8 @@ export { VercelClient, vercelClient } from './vercel-client.js';
  * 2. Deploys them to Vercel with custom subdomains
  * 3. Updates the database with live preview URLs
  * 4. Updates business status to "deployed"
+ * 5. Injects the tracking beacon into the deployed copy when TRACKING_BASE_URL is set
+ * 6. Deploys sold websites to production on the client's own domain
  *
  * Usage:
  * ```typescript
@@ -41,9 +46,11 @@ export { VercelClient, vercelClient } from './vercel-client.js';
  */
 export class DeploymentService {
   private client: VercelClient;
+  private links: TrackingLinks;
 
-  constructor(client?: VercelClient) {
+  constructor(client?: VercelClient, links?: TrackingLinks) {
     this.client = client ?? vercelClient;
+    this.links = links ?? trackingLinks;
   }
 
   /**
@@ -58,15 +65,15 @@ export class DeploymentService {
     logger.info(`Deploying website ${websiteId} for "${businessName}" (v${variationNumber})...`);
 
     try {
+      // Instrument first: without a tracking secret this throws before anything is created.
+      // The stored HTML stays untracked.
+      const trackedHtml = this.links.instrumentSiteHtml(htmlContent, websiteId);
+
       // Create or get the Vercel project
       const project = await this.client.createProject(businessName, variationNumber);
 
       // Deploy the website
-      const result = await this.client.deployWebsite(
-        project.name,
-        htmlContent,
-        businessName
-      );
+      const result = await this.client.deployWebsite(project.name, trackedHtml, businessName);
 
       if (result.success) {
         // Update database with preview URL and deployed status
@@ -126,7 +133,7 @@ export class DeploymentService {
   }
 
   /**
-   * Deploy all pending websites (websites with no preview_url).
+   * Deploy all pending websites (websites with no preview_url), best leads first.
    *
    * @param limit - Maximum number of websites to deploy
    * @returns Batch deployment result summary
@@ -217,6 +224,49 @@ export class DeploymentService {
     return summary;
   }
 
+  /**
+   * Deploy a website to its own production project and attach the client's domain.
+   * Production copies are never instrumented with the tracking beacon, and the
+   * preview deployment is left as it is.
+   */
+  async deployProduction(options: ProductionDeployOptions): Promise<ProductionDeployResult> {
+    const { websiteId, businessName, htmlContent, domain } = options;
+    const projectName = `${this.client.sanitizeSubdomain(domain)}-prod`;
+
+    logger.info(`Deploying website ${websiteId} for "${businessName}" to production on ${domain}...`);
+
+    try {
+      const project = await this.client.ensureProject(projectName);
+      const result = await this.client.deployWebsite(project.name, htmlContent, businessName);
+
+      if (!result.success) {
+        logger.error(`Production deployment failed for ${websiteId}: ${result.error}`);
+        return { ...result, projectName: project.name, domain: null };
+      }
+
+      const domainResult = await this.client.addDomain(project.name, domain);
+      if (domainResult.error) {
+        logger.error(`Could not add ${domain}: ${domainResult.error}`);
+      } else if (!domainResult.verified) {
+        logger.warn(`${domain} is attached but DNS isn't pointing at Vercel yet`);
+      }
+
+      return { ...result, projectName: project.name, domain: domainResult };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Error deploying website ${websiteId} to production: ${errorMessage}`);
+
+      return {
+        success: false,
+        url: '',
+        deploymentId: '',
+        error: errorMessage,
+        projectName,
+        domain: null,
+      };
+    }
+  }
+
   /**
    * Get deployment status for a specific deployment.
    */
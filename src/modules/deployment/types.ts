@@ -104,3 +104,48 @@ export interface BatchDeploymentResult {
     result: DeploymentResult;
   }>;
 }
+
+/**
+ * Result of attaching a custom domain to a project
+ */
+export interface DomainResult {
+  /** The domain that was added */
+  domain: string;
+
+  /** Whether DNS already points at Vercel */
+  verified: boolean;
+
+  /** DNS records to add when the domain isn't verified yet */
+  verification: Array<{ type: string; domain: string; value: string; reason: string }>;
+
+  /** Error message if the domain couldn't be added */
+  error?: string;
+}
+
+/**
+ * Options for deploying a sold website on the client's domain
+ */
+export interface ProductionDeployOptions {
+  /** Website ID from database */
+  websiteId: string;
+
+  /** Business name (for logging) */
+  businessName: string;
+
+  /** HTML content to deploy */
+  htmlContent: string;
+
+  /** Client's domain, e.g. "marcusbarbershop.com" */
+  domain: string;
+}
+
+/**
+ * Result of a production deployment
+ */
+export interface ProductionDeployResult extends DeploymentResult {
+  /** Vercel project the production site lives in */
+  projectName: string;
+
+  /** Custom domain result, or null if the deployment itself failed */
+  domain: DomainResult | null;
+}
@@ -5,14 +5,23 @@ import axios, { AxiosError, AxiosInstance } from 'axios';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/index.js';
 import { sleep, retry } from '../../utils/index.js';
+import { httpCassettes } from '../../utils/cassettes.js';
 import type {
   DeploymentConfig,
   DeploymentResult,
   ProjectInfo,
   DeploymentStatus,
   DeploymentFile,
+  DomainResult,
 } from './types.js';
 
+// A domain as the project domains API returns it
+interface ProjectDomainResponse {
+  name: string;
+  verified: boolean;
+  verification?: DomainResult['verification'];
+}
+
 /**
  * VercelClient - Wrapper for the Vercel API
  *
@@ -20,10 +29,13 @@ import type {
  * 1. Creates new Vercel projects for businesses
  * 2. Deploys HTML content as static sites
  * 3. Tracks deployment status
+ * 4. Attaches custom domains for production handoff
  *
  * MOCK MODE:
  * When VERCEL_TOKEN is not set, the client operates in mock mode.
  * This simulates deployments and returns fake URLs for testing.
+ * With HTTP_CASSETTES=replay it answers from recorded responses instead
+ * (cassette "vercel").
  */
 export class VercelClient {
   private client: AxiosInstance | null = null;
@@ -36,7 +48,7 @@ export class VercelClient {
   private static readonly MOCK_DOMAIN = 'mock-deploy.local';
 
   constructor(configOverride?: Partial<DeploymentConfig>) {
-    this.token = configOverride?.vercelToken ?? config.get('VERCEL_TOKEN') ?? null;
+    this.token = httpCassettes.credential(configOverride?.vercelToken ?? config.get('VERCEL_TOKEN'));
     this.teamId = configOverride?.teamId ?? config.get('VERCEL_TEAM_ID') ?? null;
     this.domain = configOverride?.domain ?? config.get('DEPLOYMENT_DOMAIN') ?? 'vercel.app';
     this.isMockMode = !this.token;
@@ -52,6 +64,7 @@ export class VercelClient {
           'Content-Type': 'application/json',
         },
         timeout: 60000, // 60 second timeout for deployments
+        adapter: httpCassettes.axiosAdapter('vercel'),
       });
     }
   }
@@ -88,8 +101,14 @@ export class VercelClient {
    * Create a new Vercel project for a business.
    */
   async createProject(businessName: string, variationNumber: number = 1): Promise<ProjectInfo> {
-    const subdomain = this.generateSubdomain(businessName, variationNumber);
-    const projectName = subdomain;
+    return this.ensureProject(this.generateSubdomain(businessName, variationNumber));
+  }
+
+  /**
+   * Create a Vercel project with an exact name, or fetch it if it already exists.
+   */
+  async ensureProject(projectName: string): Promise<ProjectInfo> {
+    const subdomain = projectName;
 
     logger.info(`Creating Vercel project: ${projectName}`);
 
@@ -293,6 +312,93 @@ export class VercelClient {
     return 'ERROR';
   }
 
+  /**
+   * Attach a custom domain to a project.
+   * Unverified domains come back with the DNS records the owner needs to add.
+   * A domain that's already on this project is verified again, so this can be
+   * re-run once the owner has updated their DNS.
+   */
+  async addDomain(projectName: string, domain: string): Promise<DomainResult> {
+    logger.info(`Adding domain ${domain} to project ${projectName}...`);
+
+    if (this.isMockMode) {
+      logger.info(`[MOCK] Added domain: ${domain}`);
+      return { domain, verified: true, verification: [] };
+    }
+
+    try {
+      const params = this.teamId ? { teamId: this.teamId } : {};
+
+      const response = await this.client!.post(
+        `/v10/projects/${encodeURIComponent(projectName)}/domains`,
+        { name: domain },
+        { params }
+      );
+
+      return this.toDomainResult(response.data as ProjectDomainResponse);
+    } catch (error) {
+      if (this.isAxiosError(error)) {
+        // Already attached, to this project or another one
+        if (error.response?.status === 409) {
+          return this.recheckDomain(projectName, domain);
+        }
+      }
+      return this.domainFailure(domain, error, 'add domain');
+    }
+  }
+
+  /**
+   * Re-check a domain that's already attached somewhere.
+   * On this project it's verified again; on any other it's an error.
+   */
+  private async recheckDomain(projectName: string, domain: string): Promise<DomainResult> {
+    const params = this.teamId ? { teamId: this.teamId } : {};
+    const path = `/v9/projects/${encodeURIComponent(projectName)}/domains/${encodeURIComponent(domain)}`;
+
+    let attached: ProjectDomainResponse;
+    try {
+      const response = await this.client!.get(path, { params });
+      attached = response.data as ProjectDomainResponse;
+    } catch (error) {
+      if (this.isAxiosError(error) && error.response?.status === 404) {
+        return { domain, verified: false, verification: [], error: 'Domain is already in use by another project' };
+      }
+      return this.domainFailure(domain, error, 'get domain');
+    }
+
+    if (attached.verified) {
+      logger.info(`${domain} is already on ${projectName} and verified`);
+      return this.toDomainResult(attached);
+    }
+
+    try {
+      const response = await this.client!.post(`${path}/verify`, {}, { params });
+      return this.toDomainResult(response.data as ProjectDomainResponse);
+    } catch (error) {
+      // Vercel answers 4xx while the records are still missing; the owner needs the same ones as before
+      if (this.isAxiosError(error) && error.response && error.response.status < 500) {
+        logger.info(`${domain} is already on ${projectName} but still not verified`);
+        return this.toDomainResult(attached);
+      }
+      return this.domainFailure(domain, error, 'verify domain');
+    }
+  }
+
+  private toDomainResult(data: ProjectDomainResponse): DomainResult {
+    return {
+      domain: data.name,
+      verified: data.verified,
+      verification: data.verification ?? [],
+    };
+  }
+
+  private domainFailure(domain: string, error: unknown, operation: string): DomainResult {
+    const message = this.isAxiosError(error)
+      ? this.handleApiError(error, operation)
+      : error instanceof Error ? error.message : String(error);
+    return { domain, verified: false, verification: [], error: message };
+  }
+
   /**
    * Delete a Vercel project.
    */
@@ -0,0 +1,196 @@
+// Search Areas
+// Resolves city, county, ZIP and polygon areas to the circle and boundary sources search
+
+import axios, { AxiosInstance } from 'axios';
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { config } from '../../config/index.js';
+import { logger, RateLimiter } from '../../utils/index.js';
+import { boundingCircle, parseGeoJsonBoundary } from './geo.js';
+import { GeoPolygon, PolygonSearchArea, ResolvedSearchArea, SearchArea } from './types.js';
+
+// Census TIGERweb map service, used when TIGERWEB_URL isn't set
+export const DEFAULT_TIGERWEB_URL = 'https://tigerweb.geo.census.gov/arcgis/rest/services/TIGERweb/tigerWMS_Current/MapServer';
+
+// State FIPS codes, which TIGERweb uses instead of postal abbreviations
+const STATE_FIPS: Record<string, string> = {
+  AL: '01', AK: '02', AZ: '04', AR: '05', CA: '06', CO: '08', CT: '09', DE: '10', DC: '11', FL: '12',
+  GA: '13', HI: '15', ID: '16', IL: '17', IN: '18', IA: '19', KS: '20', KY: '21', LA: '22', ME: '23',
+  MD: '24', MA: '25', MI: '26', MN: '27', MS: '28', MO: '29', MT: '30', NE: '31', NV: '32', NH: '33',
+  NJ: '34', NM: '35', NY: '36', NC: '37', ND: '38', OH: '39', OK: '40', OR: '41', PA: '42', RI: '44',
+  SC: '45', SD: '46', TN: '47', TX: '48', UT: '49', VT: '50', VA: '51', WA: '53', WV: '54', WI: '55',
+  WY: '56',
+};
+
+// "Marshall County" -> "Marshall"
+const COUNTY_SUFFIX = /\s+(county|parish|borough|census area|municipality)$/i;
+
+/**
+ * A readable name for an area, e.g. "Marshall County, MS" or "ZIP 38635"
+ */
+export function describeSearchArea(area: SearchArea): string {
+  switch (area.kind) {
+    case 'county': {
+      const county = area.county.trim();
+      return `${COUNTY_SUFFIX.test(county) ? county : `${county} County`}, ${area.state}`;
+    }
+    case 'zip':
+      return `ZIP ${area.zip}`;
+    case 'polygon':
+      return area.name;
+    default:
+      return `${area.city}, ${area.state}`;
+  }
+}
+
+/**
+ * A polygon search area from a GeoJSON file. The name comes from the
+ * first feature's "name" property (or the file name); the state from its
+ * "state" property unless given.
+ */
+export function loadAreaFile(path: string, options: { name?: string; state?: string } = {}): PolygonSearchArea {
+  const { boundary, properties } = parseGeoJsonBoundary(JSON.parse(readFileSync(path, 'utf-8')));
+  const property = (...keys: string[]): string | undefined => {
+    const key = keys.find((k) => typeof properties[k] === 'string' && (properties[k] as string).trim());
+    return key ? (properties[key] as string).trim() : undefined;
+  };
+
+  const state = options.state ?? property('state', 'STATE', 'STUSPS');
+  if (!state) {
+    throw new Error(`No state for area file ${path} (add a "state" property or pass one)`);
+  }
+
+  return {
+    kind: 'polygon',
+    name: options.name ?? property('name', 'NAME') ?? basename(path, extname(path)),
+    state: state.toUpperCase(),
+    boundary,
+  };
+}
+
+/**
+ * Search areas from command-line flags: comma-separated counties and ZIPs,
+ * and a GeoJSON file. Counties and ZIPs are in `state` (default MS).
+ */
+export function searchAreasFromFlags(flags: {
+  county?: string;
+  zip?: string;
+  areaFile?: string;
+  state?: string;
+}): SearchArea[] {
+  const state = (flags.state ?? 'MS').toUpperCase();
+  const list = (value?: string): string[] =>
+    (value ?? '').split(',').map((item) => item.trim().replace(/^["']|["']$/g, '').trim()).filter(Boolean);
+
+  return [
+    ...list(flags.county).map((county): SearchArea => ({ kind: 'county', county, state })),
+    ...list(flags.zip).map((zip): SearchArea => ({ kind: 'zip', zip, state })),
+    ...(flags.areaFile ? [loadAreaFile(flags.areaFile, { state: flags.state?.toUpperCase() })] : []),
+  ];
+}
+
+/**
+ * TigerWebClient - Looks up county and ZIP boundaries from the Census Bureau
+ *
+ * Queries the TIGERweb ArcGIS map service (no API key). Set TIGERWEB_URL to
+ * use a mirror or a local stand-in.
+ */
+export class TigerWebClient {
+  private client: AxiosInstance;
+  private rateLimiter: RateLimiter;
+
+  // Layer IDs in the tigerWMS_Current service (see its ?f=json listing)
+  static readonly COUNTY_LAYER = 82;
+  static readonly ZCTA_LAYER = 2;
+
+  constructor(private url: string = config.getAll().tigerWebUrl ?? DEFAULT_TIGERWEB_URL) {
+    this.rateLimiter = new RateLimiter(2);
+    this.client = axios.create({ timeout: 60000 });
+  }
+
+  /**
+   * A county's boundary, or null if there's no such county in the state.
+   */
+  async getCountyBoundary(county: string, state: string): Promise<GeoPolygon[] | null> {
+    const fips = STATE_FIPS[state.toUpperCase()];
+    if (!fips) {
+      throw new Error(`Unknown state: ${state}`);
+    }
+
+    const name = county.trim().replace(COUNTY_SUFFIX, '').toUpperCase();
+    return this.query(TigerWebClient.COUNTY_LAYER, `STATE='${fips}' AND UPPER(BASENAME)='${escapeSql(name)}'`);
+  }
+
+  /**
+   * A ZIP Code Tabulation Area's boundary, or null if there's none.
+   */
+  async getZipBoundary(zip: string): Promise<GeoPolygon[] | null> {
+    if (!/^\d{5}$/.test(zip)) {
+      throw new Error(`Invalid ZIP code: ${zip}`);
+    }
+    return this.query(TigerWebClient.ZCTA_LAYER, `BASENAME='${zip}'`);
+  }
+
+  private async query(layer: number, where: string): Promise<GeoPolygon[] | null> {
+    await this.rateLimiter.acquire();
+    const response = await this.client.get<unknown>(`${this.url}/${layer}/query`, {
+      params: { where, outFields: 'BASENAME,NAME', returnGeometry: 'true', outSR: '4326', f: 'geojson' },
+    });
+
+    const features = (response.data as { features?: unknown[] }).features;
+    if (!features || features.length === 0) {
+      return null;
+    }
+    return parseGeoJsonBoundary(response.data).boundary;
+  }
+}
+
+function escapeSql(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Resolve any search area to the circle sources search. City areas pass
+ * through (sources geocode the city); counties and ZIPs get their boundary
+ * from TIGERweb; polygons already have one. Returns null if the boundary
+ * can't be found.
+ */
+export async function resolveSearchArea(
+  area: SearchArea,
+  tigerWeb: TigerWebClient = new TigerWebClient()
+): Promise<ResolvedSearchArea | null> {
+  const label = describeSearchArea(area);
+
+  let boundary: GeoPolygon[] | null;
+  switch (area.kind) {
+    case 'county':
+      boundary = await tigerWeb.getCountyBoundary(area.county, area.state);
+      break;
+    case 'zip':
+      boundary = await tigerWeb.getZipBoundary(area.zip);
+      break;
+    case 'polygon':
+      boundary = area.boundary;
+      break;
+    default:
+      return { ...area, kind: 'city', label };
+  }
+
+  if (!boundary) {
+    logger.error(`Could not find a boundary for ${label}`);
+    return null;
+  }
+
+  const circle = boundingCircle(boundary);
+  return {
+    kind: area.kind,
+    label,
+    city: label,
+    state: area.state,
+    county: area.kind === 'county' ? area.county.trim().replace(COUNTY_SUFFIX, '') : undefined,
+    radiusMiles: Math.ceil(circle.radiusMiles * 10) / 10,
+    latitude: circle.latitude,
+    longitude: circle.longitude,
+    boundary,
+  };
+}
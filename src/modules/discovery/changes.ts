@@ -0,0 +1,76 @@
+// Change Detection
+// Compares a place's latest details with the snapshot from earlier discovery runs
+
+import type { DiscoveryChangeType, PlaceSnapshot } from '../../database/types.js';
+import { normalizeAddress, normalizePhone } from '../dedupe/index.js';
+import { PlaceChange, PlaceFields, PlacesBusinessResult } from './types.js';
+
+export const DISCOVERY_CHANGE_TYPES: DiscoveryChangeType[] = [
+  'new_place', 'gained_website', 'closed', 'phone_changed', 'address_changed',
+];
+
+export const CHANGE_LABELS: Record<DiscoveryChangeType, string> = {
+  new_place: 'Newly opened',
+  gained_website: 'Gained a website',
+  closed: 'Closed permanently',
+  phone_changed: 'Phone changed',
+  address_changed: 'Address changed',
+};
+
+function hasText(value: string | null | undefined): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * The compared fields of a details result
+ */
+export function toPlaceFields(place: PlacesBusinessResult): PlaceFields {
+  return {
+    name: place.name,
+    address: place.address_components?.street_address ?? (hasText(place.formatted_address) ? place.formatted_address : null),
+    phone: place.formatted_phone_number ?? null,
+    website: hasText(place.website) ? place.website.trim() : null,
+    business_status: place.business_status ?? null,
+  };
+}
+
+/**
+ * What changed since a place was last seen.
+ *
+ * A place with no snapshot is only "new" if the same search has run before
+ * (`searchedBefore`); otherwise it's just the first run over the area.
+ * Phone and address changes compare normalized values, so "St" vs "Street"
+ * or a reformatted number isn't a change, and a missing value isn't either.
+ */
+export function detectPlaceChanges(
+  previous: Pick<PlaceSnapshot, keyof PlaceFields> | null,
+  current: PlaceFields,
+  searchedBefore: boolean
+): PlaceChange[] {
+  if (!previous) {
+    const open = current.business_status !== 'CLOSED_PERMANENTLY';
+    return searchedBefore && open ? [{ type: 'new_place', oldValue: null, newValue: current.address }] : [];
+  }
+
+  const changes: PlaceChange[] = [];
+
+  if (!hasText(previous.website) && hasText(current.website)) {
+    changes.push({ type: 'gained_website', oldValue: null, newValue: current.website });
+  }
+
+  if (current.business_status === 'CLOSED_PERMANENTLY' && previous.business_status !== 'CLOSED_PERMANENTLY') {
+    changes.push({ type: 'closed', oldValue: previous.business_status, newValue: current.business_status });
+  }
+
+  const phone = normalizePhone(current.phone);
+  if (phone && phone !== normalizePhone(previous.phone)) {
+    changes.push({ type: 'phone_changed', oldValue: previous.phone, newValue: current.phone });
+  }
+
+  const address = normalizeAddress(current.address);
+  if (address && address !== normalizeAddress(previous.address)) {
+    changes.push({ type: 'address_changed', oldValue: previous.address, newValue: current.address });
+  }
+
+  return changes;
+}
@@ -0,0 +1,125 @@
+// Geometry Helpers
+// Point-in-polygon, bounding circles and GeoJSON parsing for bounded search areas
+//
+// Polygons are small enough (a county at most) to treat longitude/latitude as
+// planar for containment and intersection tests.
+
+import { distanceKm } from '../../utils/index.js';
+import { GeoPolygon, GeoPosition } from './types.js';
+
+const KM_PER_MILE = 1.609344;
+
+/**
+ * Is a point inside a ring? (Ray casting; points on an edge may go either way.)
+ */
+function inRing(lon: number, lat: number, ring: GeoPosition[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!;
+    const [xj, yj] = ring[j]!;
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Is a point inside any of the polygons (and outside their holes)?
+ */
+export function pointInBoundary(latitude: number, longitude: number, boundary: GeoPolygon[]): boolean {
+  return boundary.some(([outer, ...holes]) =>
+    outer !== undefined && inRing(longitude, latitude, outer) && !holes.some((hole) => inRing(longitude, latitude, hole))
+  );
+}
+
+function segmentsCross(a: GeoPosition, b: GeoPosition, c: GeoPosition, d: GeoPosition): boolean {
+  const side = (p: GeoPosition, q: GeoPosition, r: GeoPosition): number =>
+    Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  return side(a, b, c) !== side(a, b, d) && side(c, d, a) !== side(c, d, b);
+}
+
+/**
+ * Does a longitude/latitude box overlap the boundary?
+ */
+export function boxIntersectsBoundary(
+  box: { west: number; south: number; east: number; north: number },
+  boundary: GeoPolygon[]
+): boolean {
+  const corners: GeoPosition[] = [
+    [box.west, box.south], [box.east, box.south], [box.east, box.north], [box.west, box.north],
+  ];
+  if (corners.some(([lon, lat]) => pointInBoundary(lat, lon, boundary))) return true;
+
+  return boundary.some((polygon) => polygon.some((ring) =>
+    ring.some(([lon, lat], i) => {
+      if (lon >= box.west && lon <= box.east && lat >= box.south && lat <= box.north) return true;
+      const next = ring[(i + 1) % ring.length]!;
+      return corners.some((corner, k) => segmentsCross([lon, lat], next, corner, corners[(k + 1) % 4]!));
+    })
+  ));
+}
+
+/**
+ * The smallest circle (about) that encloses the boundary: centered on its
+ * bounding box, out to the farthest vertex.
+ */
+export function boundingCircle(boundary: GeoPolygon[]): { latitude: number; longitude: number; radiusMiles: number } {
+  const points = boundary.flatMap((polygon) => polygon[0] ?? []);
+  if (points.length === 0) {
+    throw new Error('Boundary has no points');
+  }
+
+  const lons = points.map(([lon]) => lon);
+  const lats = points.map(([, lat]) => lat);
+  const center = {
+    latitude: (Math.min(...lats) + Math.max(...lats)) / 2,
+    longitude: (Math.min(...lons) + Math.max(...lons)) / 2,
+  };
+  const radiusKm = Math.max(...points.map(([lon, lat]) => distanceKm(center, { latitude: lat, longitude: lon })));
+
+  return { ...center, radiusMiles: radiusKm / KM_PER_MILE };
+}
+
+/**
+ * Polygons from GeoJSON: a Polygon or MultiPolygon geometry, a Feature, or
+ * a FeatureCollection (all polygon features combined). Also returns the
+ * first feature's properties, for naming the area.
+ */
+export function parseGeoJsonBoundary(geojson: unknown): { boundary: GeoPolygon[]; properties: Record<string, unknown> } {
+  const boundary: GeoPolygon[] = [];
+  let properties: Record<string, unknown> | null = null;
+
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') return;
+    const object = node as { type?: string; coordinates?: unknown; geometry?: unknown; features?: unknown[]; properties?: Record<string, unknown> };
+    switch (object.type) {
+      case 'FeatureCollection':
+        (object.features ?? []).forEach(visit);
+        break;
+      case 'Feature':
+        properties ??= object.properties ?? {};
+        visit(object.geometry);
+        break;
+      case 'Polygon':
+        boundary.push(object.coordinates as GeoPolygon);
+        break;
+      case 'MultiPolygon':
+        boundary.push(...(object.coordinates as GeoPolygon[]));
+        break;
+    }
+  };
+  visit(geojson);
+
+  const valid = boundary.filter((polygon) =>
+    Array.isArray(polygon) && polygon.every((ring) =>
+      Array.isArray(ring) && ring.length >= 3 &&
+      ring.every((point) => Array.isArray(point) && Number.isFinite(point[0]) && Number.isFinite(point[1]))
+    )
+  );
+  if (valid.length === 0) {
+    throw new Error('GeoJSON has no Polygon or MultiPolygon geometry');
+  }
+
+  return { boundary: valid, properties: properties ?? {} };
+}
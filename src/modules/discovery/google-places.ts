@@ -4,13 +4,19 @@
 import axios, { AxiosInstance } from 'axios';
 import { config } from '../../config/index.js';
 import { logger, sleep, RateLimiter } from '../../utils/index.js';
+import { httpCassettes } from '../../utils/cassettes.js';
+import { placesCache } from './places-cache.js';
+import { PlacesBudgetExceededError, placesLedger } from './places-costs.js';
 import {
-  SearchArea,
+  SearchCircle,
   BusinessCategory,
   PlacesBusinessResult,
+  PlacesMetadata,
+  PlacesReviews,
   GooglePlacesSearchResponse,
   GooglePlacesDetailsResponse,
   GooglePlacesResult,
+  PlacesEndpoint,
   CATEGORY_TO_PLACES_PARAMS,
   CATEGORY_LABELS,
 } from './types.js';
@@ -33,9 +39,16 @@ import {
  * - Default: 1000 requests per day (can be increased with billing)
  * - We implement client-side rate limiting to be safe
  *
+ * Costs:
+ * Responses are cached in the database (see places-cache.ts) and every
+ * request is priced in the cost ledger (see places-costs.ts). A request that
+ * would go over budget throws PlacesBudgetExceededError instead of being made.
+ *
  * MOCK MODE:
  * When GOOGLE_PLACES_API_KEY is not set, the client operates in mock mode.
  * This returns realistic fake data for testing the pipeline without API costs.
+ * With HTTP_CASSETTES=replay it answers from recorded responses instead
+ * (cassette "google-places").
  */
 export class GooglePlacesClient {
   private client: AxiosInstance;
@@ -43,16 +56,22 @@ export class GooglePlacesClient {
   private rateLimiter: RateLimiter;
   private isMockMode: boolean;
 
-  // Google Places API endpoints
-  private static readonly NEARBY_SEARCH_URL = 'https://maps.googleapis.com/maps/api/place/nearbysearch/json';
-  private static readonly PLACE_DETAILS_URL = 'https://maps.googleapis.com/maps/api/place/details/json';
-  private static readonly GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+  // Google Places API endpoints, under GOOGLE_MAPS_API_URL when it's set
+  static readonly DEFAULT_BASE_URL = 'https://maps.googleapis.com/maps/api';
+  private static readonly PATHS: Record<PlacesEndpoint, string> = {
+    nearby_search: 'place/nearbysearch/json',
+    place_details: 'place/details/json',
+    geocode: 'geocode/json',
+    find_place: 'place/findplacefromtext/json',
+  };
+  // Place Photo requests need &key= appended; it's left off stored URLs
+  static readonly PHOTO_URL = 'https://maps.googleapis.com/maps/api/place/photo';
 
   // Miles to meters conversion
   private static readonly MILES_TO_METERS = 1609.34;
 
-  constructor() {
-    this.apiKey = config.get('GOOGLE_PLACES_API_KEY') ?? null;
+  constructor(private baseUrl: string = config.getAll().googleMapsApiUrl ?? GooglePlacesClient.DEFAULT_BASE_URL) {
+    this.apiKey = httpCassettes.credential(config.get('GOOGLE_PLACES_API_KEY'));
     this.isMockMode = !this.apiKey;
 
     if (this.isMockMode) {
@@ -65,6 +84,7 @@ export class GooglePlacesClient {
 
     this.client = axios.create({
       timeout: 30000,
+      adapter: httpCassettes.axiosAdapter('google-places'),
     });
   }
 
@@ -87,7 +107,7 @@ export class GooglePlacesClient {
    * @returns Array of business results (without website field populated)
    */
   async searchBusinesses(
-    area: SearchArea,
+    area: SearchCircle,
     category: BusinessCategory,
     maxResults = 20
   ): Promise<PlacesBusinessResult[]> {
@@ -100,8 +120,10 @@ export class GooglePlacesClient {
     const categoryLabel = CATEGORY_LABELS[category];
 
     try {
-      // First, geocode the city to get lat/lng
-      const location = await this.geocodeCity(area.city, area.state);
+      // First, geocode the city to get lat/lng (unless the area gives a center)
+      const location = area.latitude !== undefined && area.longitude !== undefined
+        ? { lat: area.latitude, lng: area.longitude }
+        : await this.geocodeCity(area.city, area.state);
       if (!location) {
         logger.error(`Could not geocode location: ${area.city}, ${area.state}`);
         return [];
@@ -113,7 +135,6 @@ export class GooglePlacesClient {
       const params: Record<string, string> = {
         location: `${location.lat},${location.lng}`,
         radius: String(Math.round(area.radiusMiles * GooglePlacesClient.MILES_TO_METERS)),
-        key: this.apiKey!,
       };
 
       // Add type and/or keyword based on category
@@ -124,50 +145,50 @@ export class GooglePlacesClient {
         params['keyword'] = categoryParams.keyword;
       }
 
+      // The pages of one search are cached together; page tokens expire
+      const cacheParams = { ...params, max_results: String(maxResults) };
+      const cached = placesCache.get<GooglePlacesResult[]>('nearby_search', cacheParams);
+      if (cached) {
+        placesLedger.record('nearby_search', true);
+        logger.debug(`Nearby Search for ${categoryLabel} in ${area.city} answered from cache`);
+        return cached.slice(0, maxResults).map((place) => this.transformPlaceResult(place, area));
+      }
+
       // Make initial request
-      await this.rateLimiter.acquire();
-      const response = await this.client.get<GooglePlacesSearchResponse>(
-        GooglePlacesClient.NEARBY_SEARCH_URL,
-        { params }
-      );
-
-      if (response.data.status !== 'OK' && response.data.status !== 'ZERO_RESULTS') {
-        logger.error(`Places API error: ${response.data.status} - ${response.data.error_message}`);
+      const response = await this.requestLive<GooglePlacesSearchResponse>('nearby_search', params);
+
+      if (response.status !== 'OK' && response.status !== 'ZERO_RESULTS') {
+        logger.error(`Places API error: ${response.status} - ${response.error_message}`);
         return [];
       }
 
       // Process results
-      for (const place of response.data.results) {
-        if (results.length >= maxResults) break;
-        results.push(this.transformPlaceResult(place, area));
-      }
+      const raw = response.results.slice(0, maxResults);
 
       // Handle pagination if we need more results
-      let pageToken = response.data.next_page_token;
-      while (pageToken && results.length < maxResults) {
+      let pageToken = response.next_page_token;
+      while (pageToken && raw.length < maxResults) {
         // Google requires a short delay before using page token
         await sleep(2000);
-        await this.rateLimiter.acquire();
 
-        const nextResponse = await this.client.get<GooglePlacesSearchResponse>(
-          GooglePlacesClient.NEARBY_SEARCH_URL,
-          { params: { pagetoken: pageToken, key: this.apiKey } }
-        );
+        const nextResponse = await this.requestLive<GooglePlacesSearchResponse>('nearby_search', { pagetoken: pageToken });
 
-        if (nextResponse.data.status !== 'OK') break;
+        if (nextResponse.status !== 'OK') break;
 
-        for (const place of nextResponse.data.results) {
-          if (results.length >= maxResults) break;
-          results.push(this.transformPlaceResult(place, area));
-        }
-
-        pageToken = nextResponse.data.next_page_token;
+        raw.push(...nextResponse.results.slice(0, maxResults - raw.length));
+        pageToken = nextResponse.next_page_token;
       }
 
+      placesCache.put('nearby_search', cacheParams, raw);
+      results.push(...raw.map((place) => this.transformPlaceResult(place, area)));
+
       logger.info(`Found ${results.length} ${categoryLabel} in ${area.city}`);
       return results;
 
     } catch (error) {
+      if (error instanceof PlacesBudgetExceededError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         logger.error(`Google Places API request failed: ${error.message}`);
         if (error.response?.status === 403) {
@@ -195,8 +216,6 @@ export class GooglePlacesClient {
     }
 
     try {
-      await this.rateLimiter.acquire();
-
       // Request specific fields to minimize API cost
       // Website, phone, and address are the key fields we need
       const fields = [
@@ -212,27 +231,23 @@ export class GooglePlacesClient {
         'rating',
         'user_ratings_total',
         'opening_hours',
+        'photos',
+        'reviews',
       ].join(',');
 
-      const response = await this.client.get<GooglePlacesDetailsResponse>(
-        GooglePlacesClient.PLACE_DETAILS_URL,
-        {
-          params: {
-            place_id: placeId,
-            fields,
-            key: this.apiKey,
-          },
-        }
-      );
+      const response = await this.request<GooglePlacesDetailsResponse>('place_details', { place_id: placeId, fields });
 
-      if (response.data.status !== 'OK') {
-        logger.error(`Place Details API error: ${response.data.status} - ${response.data.error_message}`);
+      if (response.status !== 'OK') {
+        logger.error(`Place Details API error: ${response.status} - ${response.error_message}`);
         return null;
       }
 
-      return this.transformPlaceResult(response.data.result);
+      return this.transformPlaceResult(response.result);
 
     } catch (error) {
+      if (error instanceof PlacesBudgetExceededError) {
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         logger.error(`Place Details request failed for ${placeId}: ${error.message}`);
       }
@@ -240,6 +255,55 @@ export class GooglePlacesClient {
     }
   }
 
+  /**
+   * Find the Google Place ID for a business we only know by name and address.
+   *
+   * Used for businesses that came from non-Places sources (e.g. state registries)
+   * so they can be enriched through Place Details.
+   *
+   * @param name - Business name
+   * @param address - Street address and/or "City, ST" to narrow the match
+   * @returns The best-matching place_id, or null if nothing matched
+   */
+  async findPlaceId(name: string, address?: string): Promise<string | null> {
+    const query = address ? `${name}, ${address}` : name;
+
+    if (this.isMockMode) {
+      return this.mockFindPlaceId(query);
+    }
+
+    try {
+      const response = await this.request<{
+        candidates: Array<{ place_id: string }>;
+        status: string;
+        error_message?: string;
+      }>('find_place', {
+        input: query,
+        inputtype: 'textquery',
+        fields: 'place_id',
+      });
+
+      if (response.status === 'ZERO_RESULTS') {
+        return null;
+      }
+
+      if (response.status !== 'OK') {
+        logger.error(`Find Place API error: ${response.status} - ${response.error_message}`);
+        return null;
+      }
+
+      return response.candidates[0]?.place_id ?? null;
+    } catch (error) {
+      if (error instanceof PlacesBudgetExceededError) {
+        throw error;
+      }
+      if (axios.isAxiosError(error)) {
+        logger.error(`Find Place request failed for "${query}": ${error.message}`);
+      }
+      return null;
+    }
+  }
+
   /**
    * Batch get details for multiple places.
    * Includes progress logging and respects rate limits.
@@ -280,7 +344,7 @@ export class GooglePlacesClient {
   /**
    * Geocode a city/state to get lat/lng coordinates.
    */
-  private async geocodeCity(city: string, state: string): Promise<{ lat: number; lng: number } | null> {
+  async geocodeCity(city: string, state: string): Promise<{ lat: number; lng: number } | null> {
     if (this.isMockMode) {
       // Return mock coordinates for known test cities
       const mockCoords: Record<string, { lat: number; lng: number }> = {
@@ -294,34 +358,61 @@ export class GooglePlacesClient {
     }
 
     try {
-      await this.rateLimiter.acquire();
-
-      const response = await this.client.get<{
+      const response = await this.request<{
         results: Array<{ geometry: { location: { lat: number; lng: number } } }>;
         status: string;
-      }>(GooglePlacesClient.GEOCODE_URL, {
-        params: {
-          address: `${city}, ${state}`,
-          key: this.apiKey,
-        },
-      });
+      }>('geocode', { address: `${city}, ${state}` });
 
-      if (response.data.status === 'OK' && response.data.results[0]) {
-        return response.data.results[0].geometry.location;
+      if (response.status === 'OK' && response.results[0]) {
+        return response.results[0].geometry.location;
       }
 
-      logger.error(`Geocoding API returned status: ${response.data.status} for "${city}, ${state}"`);
+      logger.error(`Geocoding API returned status: ${response.status} for "${city}, ${state}"`);
       return null;
     } catch (error) {
+      if (error instanceof PlacesBudgetExceededError) {
+        throw error;
+      }
       logger.error(`Geocoding failed for ${city}, ${state}:`, error);
       return null;
     }
   }
 
+  /**
+   * Call an endpoint, answering from the cache when it has a fresh response.
+   * Only successful responses are cached.
+   */
+  private async request<T extends { status: string }>(endpoint: PlacesEndpoint, params: Record<string, string>): Promise<T> {
+    const cached = placesCache.get<T>(endpoint, params);
+    if (cached) {
+      placesLedger.record(endpoint, true);
+      return cached;
+    }
+
+    const data = await this.requestLive<T>(endpoint, params);
+    if (data.status === 'OK' || data.status === 'ZERO_RESULTS') {
+      placesCache.put(endpoint, params, data);
+    }
+    return data;
+  }
+
+  /**
+   * Call an endpoint live, if the budget allows, and record what it cost.
+   */
+  private async requestLive<T>(endpoint: PlacesEndpoint, params: Record<string, string>): Promise<T> {
+    placesLedger.assertWithinBudget(endpoint);
+    await this.rateLimiter.acquire();
+
+    const url = `${this.baseUrl}/${GooglePlacesClient.PATHS[endpoint]}`;
+    const response = await this.client.get<T>(url, { params: { ...params, key: this.apiKey } });
+    placesLedger.record(endpoint, false);
+    return response.data;
+  }
+
   /**
    * Transform Google Places API result to our PlacesBusinessResult format.
    */
-  private transformPlaceResult(place: GooglePlacesResult, area?: SearchArea): PlacesBusinessResult {
+  private transformPlaceResult(place: GooglePlacesResult, area?: SearchCircle): PlacesBusinessResult {
     // Parse address components if available
     let addressComponents: PlacesBusinessResult['address_components'];
     if (place.address_components) {
@@ -360,6 +451,15 @@ export class GooglePlacesClient {
         open_now: place.opening_hours.open_now,
         weekday_text: place.opening_hours.weekday_text,
       } : undefined,
+      photo_url: place.photos?.[0]
+        ? `${GooglePlacesClient.PHOTO_URL}?maxwidth=1200&photo_reference=${encodeURIComponent(place.photos[0].photo_reference)}`
+        : undefined,
+      reviews: place.reviews?.map((review) => ({
+        author_name: review.author_name,
+        rating: review.rating,
+        text: review.text,
+        time: review.time,
+      })),
     };
   }
 
@@ -381,7 +481,7 @@ export class GooglePlacesClient {
    * Returns realistic fake businesses in the specified area.
    */
   private mockSearchBusinesses(
-    area: SearchArea,
+    area: SearchCircle,
     category: BusinessCategory,
     maxResults: number
   ): Promise<PlacesBusinessResult[]> {
@@ -415,19 +515,63 @@ export class GooglePlacesClient {
       formatted_address: `${100 + index} Main Street`,
       website: hasWebsite ? `https://mockbusiness${index}.com` : null,
       formatted_phone_number: `(555) ${String(100 + index).padStart(3, '0')}-${String(1000 + index).slice(-4)}`,
+      types: ['point_of_interest', 'establishment'],
       business_status: 'OPERATIONAL',
       rating: 3.5 + (index % 3) * 0.5,
       user_ratings_total: 10 + index * 5,
+      geometry: {
+        lat: 34.7673 + (index % 10) * 0.005,
+        lng: -89.4487 - (index % 10) * 0.005,
+      },
+      opening_hours: {
+        weekday_text: [
+          'Monday: 9:00 AM – 6:00 PM',
+          'Tuesday: 9:00 AM – 6:00 PM',
+          'Wednesday: 9:00 AM – 6:00 PM',
+          'Thursday: 9:00 AM – 6:00 PM',
+          'Friday: 9:00 AM – 7:00 PM',
+          'Saturday: 10:00 AM – 4:00 PM',
+          'Sunday: Closed',
+        ],
+      },
+      reviews: [
+        {
+          author_name: 'Jordan P.',
+          rating: 5,
+          text: `Friendly staff and fair prices. Mock Business ${index} has been my go-to for years.`,
+          time: 1_700_000_000 + index * 86_400,
+        },
+        {
+          author_name: 'Casey R.',
+          rating: 4,
+          text: 'Quick service and they remembered my name on the second visit.',
+          time: 1_690_000_000 + index * 86_400,
+        },
+      ],
     };
 
     return Promise.resolve(mockResult);
   }
 
+  /**
+   * Generate a mock place ID for a text query.
+   * Derives a stable index from the query so repeated lookups agree.
+   */
+  private mockFindPlaceId(query: string): Promise<string | null> {
+    let hash = 0;
+    for (const char of query.toLowerCase()) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+
+    logger.info(`[MOCK] Found place for "${query}"`);
+    return Promise.resolve(`mock_find_${hash % 100}`);
+  }
+
   /**
    * Generate an array of mock businesses for a given area and category.
    */
   private generateMockBusinesses(
-    area: SearchArea,
+    area: SearchCircle,
     category: BusinessCategory,
     count: number
   ): PlacesBusinessResult[] {
@@ -450,9 +594,10 @@ export class GooglePlacesClient {
         business_status: 'OPERATIONAL',
         rating: 3.0 + Math.random() * 2,
         user_ratings_total: Math.floor(10 + Math.random() * 100),
+        // Near the search center when there is one (tiled searches drop far-off results)
         geometry: {
-          lat: 34.7673 + (Math.random() - 0.5) * 0.1,
-          lng: -89.4487 + (Math.random() - 0.5) * 0.1,
+          lat: (area.latitude ?? 34.7673) + (Math.random() - 0.5) * 0.1,
+          lng: (area.longitude ?? -89.4487) + (Math.random() - 0.5) * 0.1,
         },
       });
     }
@@ -537,3 +682,33 @@ export class GooglePlacesClient {
 
 // Export singleton instance
 export const googlePlaces = new GooglePlacesClient();
+
+/**
+ * Places fields to store on a business row. Lists are stored as JSON text.
+ */
+export function toPlacesMetadata(place: PlacesBusinessResult): PlacesMetadata {
+  return {
+    rating: place.rating ?? null,
+    user_ratings_total: place.user_ratings_total ?? null,
+    latitude: place.geometry?.lat ?? null,
+    longitude: place.geometry?.lng ?? null,
+    opening_hours: place.opening_hours?.weekday_text?.length ? JSON.stringify(place.opening_hours.weekday_text) : null,
+    photo_url: place.photo_url ?? null,
+    place_types: place.types?.length ? JSON.stringify(place.types) : null,
+    place_status: place.business_status ?? null,
+  };
+}
+
+/**
+ * Review snippets to store for a business. Reviews without text are dropped.
+ */
+export function toBusinessReviews(place: PlacesBusinessResult): PlacesReviews {
+  return (place.reviews ?? [])
+    .filter((review) => review.text.trim().length > 0)
+    .map((review) => ({
+      author_name: review.author_name,
+      rating: review.rating,
+      text: review.text.trim(),
+      published_at: review.time ? new Date(review.time * 1000).toISOString() : null,
+    }));
+}
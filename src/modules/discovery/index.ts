@@ -1,38 +1,70 @@
 // Discovery Module
-// Discovers businesses without websites using Google Places API
+// Discovers businesses without websites using Google Places and OpenStreetMap
 
 import { db } from '../../database/index.js';
+import { canTransitionBusinessStatus } from '../../database/status.js';
+import type { DiscoveryChange, DiscoveryChangeType } from '../../database/types.js';
 import { logger } from '../../utils/index.js';
-import { GooglePlacesClient, googlePlaces } from './google-places.js';
+import { DuplicateDetector } from '../dedupe/index.js';
+import { LeadScoringService } from '../scoring/index.js';
+import { describeSearchArea, resolveSearchArea, TigerWebClient } from './areas.js';
+import { CHANGE_LABELS, detectPlaceChanges, DISCOVERY_CHANGE_TYPES, toPlaceFields } from './changes.js';
+import { googlePlaces, toBusinessReviews, toPlacesMetadata } from './google-places.js';
+import { PlacesBudgetExceededError, placesLedger } from './places-costs.js';
+import { createDiscoverySource } from './sources.js';
 import {
+  AreaCoverage,
   BusinessCategory,
-  SearchArea,
+  ResolvedSearchArea,
+  DEFAULT_TILING_OPTIONS,
   DiscoveryConfig,
+  DiscoverySource,
   DiscoverySummary,
   PlacesBusinessResult,
+  SearchCoverage,
   CATEGORY_LABELS,
 } from './types.js';
 
-// Re-export types and client
+// Re-export types, clients and sources
 export * from './types.js';
-export { GooglePlacesClient, googlePlaces } from './google-places.js';
+export { GooglePlacesClient, googlePlaces, toBusinessReviews, toPlacesMetadata } from './google-places.js';
+export { OverpassClient, OsmDiscoverySource, buildOverpassQuery, matchesOsmTags, osmElementToResult } from './osm.js';
+export { readOsmPbf } from './osm-pbf.js';
+export { GooglePlacesSource, createDiscoverySource, DISCOVERY_SOURCE_NAMES } from './sources.js';
+export { searchTiled, tileArea } from './tiling.js';
+export { describeSearchArea, loadAreaFile, resolveSearchArea, searchAreasFromFlags, TigerWebClient } from './areas.js';
+export { boundingCircle, parseGeoJsonBoundary, pointInBoundary } from './geo.js';
+export { CHANGE_LABELS, detectPlaceChanges, DISCOVERY_CHANGE_TYPES, toPlaceFields } from './changes.js';
+export { DEFAULT_PLACES_CACHE_TTL_HOURS, placesCache, placesCacheKey, PlacesResponseCache } from './places-cache.js';
+export { PLACES_SKUS, PlacesBudgetExceededError, PlacesCostLedger, placesLedger } from './places-costs.js';
 
 /**
  * DiscoveryService - Main service for discovering businesses without websites
  *
  * This service:
- * 1. Uses Google Places API to find businesses in target areas
- * 2. Gets detailed info to check if they have websites
- * 3. Filters to ONLY businesses WITHOUT websites (our targets)
- * 4. Checks database to avoid duplicates
- * 5. Saves new discoveries to database
+ * 1. Asks each discovery source (Google Places, OpenStreetMap) for businesses in target areas
+ * 2. Filters to ONLY businesses WITHOUT websites (our targets)
+ * 3. Checks database to avoid duplicates, including ones another source found
+ * 4. Saves new discoveries to database
+ * 5. Records the run and a snapshot of every place, and flags what changed since
+ *    earlier runs: newly opened places, places that gained a website or closed
+ *    (which we stop pursuing), and new phone numbers or addresses
+ *
+ * Places requests are cached and priced; the run stops early, keeping what it
+ * found so far, if the next request would go over budget.
  *
  * Usage:
  * ```typescript
  * const discovery = new DiscoveryService({
- *   areas: [{ city: 'Holly Springs', state: 'MS', radiusMiles: 10 }],
+ *   areas: [
+ *     { city: 'Holly Springs', state: 'MS', radiusMiles: 10 },
+ *     { kind: 'county', county: 'Benton', state: 'MS' },   // Clipped to the county line
+ *   ],
  *   categories: [BusinessCategory.BARBER_SHOP, BusinessCategory.RESTAURANT],
  *   maxResultsPerSearch: 20,
+ *   sources: ['google_places', 'osm'],
+ *   tiling: { cellRadiusMiles: 3 },   // Grid search for areas past the 60-result cap
+ *   budgetUsd: 5,                     // Stop before this run spends more on Places
  * });
  *
  * const summary = await discovery.run();
@@ -41,15 +73,23 @@ export { GooglePlacesClient, googlePlaces } from './google-places.js';
  */
 export class DiscoveryService {
   private config: DiscoveryConfig;
-  private placesClient: GooglePlacesClient;
+  private sources: DiscoverySource[];
+  private scoring: LeadScoringService;
+  private duplicates: DuplicateDetector;
+  private tigerWeb: TigerWebClient;
 
-  constructor(config: DiscoveryConfig, placesClient?: GooglePlacesClient) {
+  constructor(config: DiscoveryConfig, sources?: DiscoverySource[]) {
     this.config = {
       ...config,
       maxResultsPerSearch: config.maxResultsPerSearch ?? 20,
       onlyOperational: config.onlyOperational ?? true,
+      sources: sources?.map((source) => source.name) ?? config.sources ?? ['google_places'],
     };
-    this.placesClient = placesClient ?? googlePlaces;
+    const tiling = config.tiling ? { ...DEFAULT_TILING_OPTIONS, ...config.tiling } : null;
+    this.sources = sources ?? this.config.sources!.map((name) => createDiscoverySource(name, { tiling }));
+    this.scoring = new LeadScoringService();
+    this.duplicates = new DuplicateDetector();
+    this.tigerWeb = new TigerWebClient();
   }
 
   /**
@@ -58,16 +98,25 @@ export class DiscoveryService {
    */
   async run(): Promise<DiscoverySummary> {
     logger.info('Starting business discovery...');
-    logger.info(`Areas: ${this.config.areas.map(a => `${a.city}, ${a.state}`).join(', ')}`);
+    logger.info(`Areas: ${this.config.areas.map(describeSearchArea).join(', ')}`);
     logger.info(`Categories: ${this.config.categories.map(c => CATEGORY_LABELS[c]).join(', ')}`);
+    logger.info(`Sources: ${this.sources.map(s => s.label).join(', ')}`);
 
-    if (this.placesClient.isInMockMode()) {
-      logger.warn('Running in MOCK MODE - results are simulated');
+    for (const source of this.sources) {
+      if (source.isInMockMode()) {
+        logger.warn(`${source.label} running in MOCK MODE - results are simulated`);
+      }
     }
 
     // Ensure database is initialized
     db.initialize();
 
+    const run = db.insertDiscoveryRun({
+      areas: this.config.areas.map(describeSearchArea),
+      categories: this.config.categories,
+      sources: this.sources.map((source) => source.name),
+    });
+
     const summary: DiscoverySummary = {
       totalFound: 0,
       withoutWebsite: 0,
@@ -75,40 +124,107 @@ export class DiscoveryService {
       alreadyExists: 0,
       byCategory: {},
       byArea: {},
+      bySource: {},
+      coverage: {},
+      runId: run.id,
+      changes: Object.fromEntries(DISCOVERY_CHANGE_TYPES.map((type) => [type, 0])) as Record<DiscoveryChangeType, number>,
+      spend: { calls: 0, cachedCalls: 0, costUsd: 0 },
+      stoppedEarly: null,
     };
+    placesLedger.startRun(run.id, this.config.budgetUsd ?? null);
 
     // Process each area and category combination
-    for (const area of this.config.areas) {
-      const areaKey = `${area.city}, ${area.state}`;
+    for (const searchArea of this.config.areas) {
+      if (summary.stoppedEarly) break;
+      const areaKey = describeSearchArea(searchArea);
       summary.byArea[areaKey] = { found: 0, withoutWebsite: 0, saved: 0 };
+      const coverage: AreaCoverage = {
+        searches: 0, cells: 0, saturatedCells: 0, duplicates: 0, outsideArea: 0, complete: true, saturated: [],
+      };
+      summary.coverage[areaKey] = coverage;
+
+      // Counties, ZIPs and polygons become the circle around their boundary
+      let area: ResolvedSearchArea | null;
+      try {
+        area = await resolveSearchArea(searchArea, this.tigerWeb);
+      } catch (error) {
+        logger.error(`Error resolving ${areaKey}:`, error);
+        area = null;
+      }
+      if (!area) {
+        coverage.complete = false;
+        continue;
+      }
+      if (area.boundary) {
+        logger.info(`${areaKey}: searching within its boundary (up to ${area.radiusMiles} miles from its center)`);
+      }
 
       for (const category of this.config.categories) {
+        if (summary.stoppedEarly) break;
         const categoryKey = CATEGORY_LABELS[category];
         if (!summary.byCategory[categoryKey]) {
           summary.byCategory[categoryKey] = { found: 0, withoutWebsite: 0, saved: 0 };
         }
 
-        logger.info(`\nSearching: ${categoryKey} in ${areaKey}`);
-
-        try {
-          const results = await this.discoverForAreaAndCategory(area, category);
-
-          // Update summary stats
-          summary.totalFound += results.found;
-          summary.withoutWebsite += results.withoutWebsite;
-          summary.newlySaved += results.saved;
-          summary.alreadyExists += results.alreadyExists;
-
-          summary.byArea[areaKey]!.found += results.found;
-          summary.byArea[areaKey]!.withoutWebsite += results.withoutWebsite;
-          summary.byArea[areaKey]!.saved += results.saved;
-
-          summary.byCategory[categoryKey]!.found += results.found;
-          summary.byCategory[categoryKey]!.withoutWebsite += results.withoutWebsite;
-          summary.byCategory[categoryKey]!.saved += results.saved;
-
-        } catch (error) {
-          logger.error(`Error discovering ${categoryKey} in ${areaKey}:`, error);
+        for (const source of this.sources) {
+          if (summary.stoppedEarly) break;
+          if (!summary.bySource[source.name]) {
+            summary.bySource[source.name] = { found: 0, withoutWebsite: 0, saved: 0 };
+          }
+
+          logger.info(`\nSearching: ${categoryKey} in ${areaKey} via ${source.label}`);
+
+          try {
+            const results = await this.discoverForAreaAndCategory(run.id, source, area, category);
+
+            // Update summary stats
+            summary.totalFound += results.found;
+            summary.withoutWebsite += results.withoutWebsite;
+            summary.newlySaved += results.saved;
+            summary.alreadyExists += results.alreadyExists;
+
+            for (const bucket of [summary.byArea[areaKey]!, summary.byCategory[categoryKey]!, summary.bySource[source.name]!]) {
+              bucket.found += results.found;
+              bucket.withoutWebsite += results.withoutWebsite;
+              bucket.saved += results.saved;
+            }
+
+            coverage.searches += results.coverage.searches;
+            coverage.cells += results.coverage.cells;
+            coverage.saturatedCells += results.coverage.saturatedCells;
+            coverage.duplicates += results.coverage.duplicates;
+            coverage.outsideArea += results.coverage.outsideArea;
+            if (results.coverage.saturatedCells > 0) {
+              coverage.complete = false;
+              coverage.saturated.push(`${categoryKey} via ${source.label}`);
+              logger.warn(`  ${results.coverage.saturatedCells} search(es) hit the result limit - some businesses may be missing`);
+            }
+
+            for (const change of results.changes) {
+              summary.changes[change.change_type]++;
+            }
+            db.insertDiscoverySearch({
+              run_id: run.id,
+              area: areaKey,
+              category,
+              source: source.name,
+              found: results.found,
+              without_website: results.withoutWebsite,
+              saved: results.saved,
+              already_exists: results.alreadyExists,
+              changes: results.changes.length,
+              complete: results.coverage.saturatedCells === 0,
+            });
+
+          } catch (error) {
+            if (error instanceof PlacesBudgetExceededError) {
+              summary.stoppedEarly = error.message;
+              coverage.complete = false;
+              logger.error(`Stopping discovery: ${error.message}`);
+            } else {
+              logger.error(`Error discovering ${categoryKey} in ${areaKey} via ${source.label}:`, error);
+            }
+          }
         }
       }
     }
@@ -121,53 +237,83 @@ export class DiscoveryService {
     logger.info(`Newly saved: ${summary.newlySaved}`);
     logger.info(`Already in database: ${summary.alreadyExists}`);
 
+    summary.spend = placesLedger.endRun();
+    if (summary.spend.calls + summary.spend.cachedCalls > 0) {
+      logger.info(`Places requests: ${summary.spend.calls} live ($${summary.spend.costUsd.toFixed(2)}), ${summary.spend.cachedCalls} from cache`);
+    }
+    if (summary.stoppedEarly) {
+      logger.warn(`Stopped early: ${summary.stoppedEarly}`);
+    }
+
+    const changeCount = Object.values(summary.changes).reduce((total, count) => total + count, 0);
+    for (const type of DISCOVERY_CHANGE_TYPES) {
+      if (summary.changes[type] > 0) {
+        logger.info(`${CHANGE_LABELS[type]}: ${summary.changes[type]}`);
+      }
+    }
+    db.completeDiscoveryRun(run.id, {
+      found: summary.totalFound,
+      without_website: summary.withoutWebsite,
+      saved: summary.newlySaved,
+      already_exists: summary.alreadyExists,
+      changes: changeCount,
+    });
+
+    const incomplete = Object.entries(summary.coverage).filter(([, coverage]) => !coverage.complete);
+    for (const [areaKey, coverage] of incomplete) {
+      logger.warn(`Incomplete coverage for ${areaKey}: ${coverage.saturated.join(', ') || (summary.stoppedEarly ? 'stopped at the budget' : 'area could not be searched')}`);
+    }
+    if (incomplete.some(([, coverage]) => coverage.saturated.length > 0) && !this.config.tiling) {
+      logger.warn('Tiled search (npm run discover -- --tile) splits busy areas into smaller searches');
+    }
+
     return summary;
   }
 
   /**
-   * Discover businesses for a specific area and category.
+   * Discover businesses for a specific source, area and category.
    */
   private async discoverForAreaAndCategory(
-    area: SearchArea,
+    runId: string,
+    source: DiscoverySource,
+    area: ResolvedSearchArea,
     category: BusinessCategory
-  ): Promise<{ found: number; withoutWebsite: number; saved: number; alreadyExists: number }> {
-    const stats = { found: 0, withoutWebsite: 0, saved: 0, alreadyExists: 0 };
-
-    // Step 1: Search for businesses in the area
-    const searchResults = await this.placesClient.searchBusinesses(
+  ): Promise<{
+    found: number;
+    withoutWebsite: number;
+    saved: number;
+    alreadyExists: number;
+    coverage: SearchCoverage;
+    changes: DiscoveryChange[];
+  }> {
+    // Step 1: Find businesses in the area, with website details
+    const { places: detailedResults, coverage } = await source.findBusinesses(
       area,
       category,
       this.config.maxResultsPerSearch
     );
 
-    stats.found = searchResults.length;
+    const stats = {
+      found: detailedResults.length,
+      withoutWebsite: 0,
+      saved: 0,
+      alreadyExists: 0,
+      coverage,
+      changes: [] as DiscoveryChange[],
+    };
 
-    if (searchResults.length === 0) {
+    if (detailedResults.length === 0) {
       logger.info('  No results found');
       return stats;
     }
 
-    // Step 2: Get details for each place to check website status
-    // Note: Nearby Search doesn't return website field, we need Place Details
-    logger.info(`  Getting details for ${searchResults.length} places...`);
-
-    const placeIds = searchResults.map(r => r.place_id);
-    const detailedResults = await this.placesClient.getPlaceDetailsBatch(
-      placeIds,
-      (current, total) => {
-        if (current % 10 === 0 || current === total) {
-          logger.debug(`  Progress: ${current}/${total}`);
-        }
-      }
-    );
-
-    // Step 3: Filter to businesses WITHOUT websites
+    // Step 2: Filter to businesses WITHOUT websites
     const withoutWebsites = detailedResults.filter(place => {
       // Check if website is null, undefined, or empty string
       const hasWebsite = place.website && place.website.trim().length > 0;
 
-      // Also filter by operational status if configured
-      if (this.config.onlyOperational && place.business_status !== 'OPERATIONAL') {
+      // Also filter by operational status if configured (OSM doesn't report one)
+      if (this.config.onlyOperational && place.business_status && place.business_status !== 'OPERATIONAL') {
         return false;
       }
 
@@ -182,9 +328,11 @@ export class DiscoveryService {
     stats.withoutWebsite = withoutWebsites.length;
     logger.info(`  Found ${withoutWebsites.length} without websites (out of ${detailedResults.length})`);
 
-    // Step 4: Check database and save new businesses
+    // Step 3: Check database and save new businesses
+    const businessIds = new Map<string, string>();
     for (const place of withoutWebsites) {
-      const saved = await this.saveIfNew(place, category, area);
+      const { saved, businessId } = await this.saveIfNew(source, place, category, area);
+      if (businessId) businessIds.set(place.place_id, businessId);
       if (saved) {
         stats.saved++;
       } else {
@@ -192,70 +340,186 @@ export class DiscoveryService {
       }
     }
 
+    // Step 4: Compare with what earlier runs saw (every place, not just the ones we saved)
+    stats.changes = this.recordSnapshots(runId, source, area, category, detailedResults, businessIds);
+
     if (stats.saved > 0) {
       logger.info(`  Saved ${stats.saved} new businesses to database`);
     }
     if (stats.alreadyExists > 0) {
       logger.info(`  Skipped ${stats.alreadyExists} (already in database)`);
     }
+    if (stats.changes.length > 0) {
+      logger.info(`  Flagged ${stats.changes.length} change(s) since the last run`);
+    }
 
     return stats;
   }
 
+  /**
+   * Store the latest snapshot of each place and flag what changed since it
+   * was last seen. Businesses we saved for a place are kept up to date: new
+   * phone numbers and addresses are copied over, and a business that gained
+   * a website or closed is taken out of the pipeline.
+   */
+  private recordSnapshots(
+    runId: string,
+    source: DiscoverySource,
+    area: ResolvedSearchArea,
+    category: BusinessCategory,
+    places: PlacesBusinessResult[],
+    businessIds: Map<string, string>
+  ): DiscoveryChange[] {
+    const searchedBefore = db.hasPreviousDiscoverySearch(source.name, area.label, category, runId);
+    const changes: DiscoveryChange[] = [];
+
+    for (const place of places) {
+      const previous = db.getPlaceSnapshot(source.name, place.place_id);
+      if (previous?.last_seen_run_id === runId) continue; // Already seen this run (another category)
+
+      const fields = toPlaceFields(place);
+      const businessId = businessIds.get(place.place_id)
+        ?? previous?.business_id
+        ?? db.getBusinessBySourceId(source.name, place.place_id)?.id
+        ?? null;
+
+      for (const change of detectPlaceChanges(previous, fields, searchedBefore)) {
+        changes.push(db.insertDiscoveryChange({
+          run_id: runId,
+          source: source.name,
+          source_id: place.place_id,
+          business_id: businessId,
+          name: place.name,
+          change_type: change.type,
+          old_value: change.oldValue,
+          new_value: change.newValue,
+        }));
+        logger.info(`  ${CHANGE_LABELS[change.type]}: "${place.name}"${change.newValue && change.type !== 'closed' ? ` (${change.newValue})` : ''}`);
+        if (businessId) this.applyChange(businessId, change.type, change.newValue);
+      }
+
+      db.upsertPlaceSnapshot({
+        source: source.name,
+        source_id: place.place_id,
+        business_id: businessId,
+        ...fields,
+        details: JSON.stringify(place),
+        run_id: runId,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Bring a saved business in line with a change to its place.
+   */
+  private applyChange(businessId: string, type: DiscoveryChangeType, value: string | null): void {
+    const business = db.getBusinessById(businessId);
+    if (!business) return;
+
+    switch (type) {
+      case 'phone_changed':
+        db.updateBusiness(businessId, { phone: value });
+        break;
+      case 'address_changed':
+        db.updateBusiness(businessId, { address: value });
+        break;
+      case 'gained_website':
+        db.updateBusiness(businessId, { website_url: value, has_website: 1 });
+        this.stopPursuing(businessId, `Now has a website: ${value}`);
+        break;
+      case 'closed':
+        db.updateBusiness(businessId, { place_status: 'CLOSED_PERMANENTLY' });
+        this.stopPursuing(businessId, 'Closed permanently');
+        break;
+    }
+  }
+
+  /**
+   * Reject a lead we haven't reached yet, or mark one we have as lost, and
+   * cancel any calls or visits still queued. Sold businesses are left alone.
+   */
+  private stopPursuing(businessId: string, reason: string): void {
+    const business = db.getBusinessById(businessId)!;
+    const status = canTransitionBusinessStatus(business.status, 'rejected') ? 'rejected'
+      : canTransitionBusinessStatus(business.status, 'lost') ? 'lost'
+      : null;
+    if (!status) return;
+
+    db.updateBusinessStatus(businessId, status, { actor: 'discovery', reason });
+    db.cancelOutreachTasksForBusiness(businessId);
+  }
+
   /**
    * Save a business to the database if it doesn't already exist.
-   * Checks by google_place_id first, then by name+city+state combination.
+   * Checks by the source's own ID first, then for a fuzzy match on name,
+   * address, phone and location in the same city (which also catches a
+   * business another source already found).
    *
-   * @returns true if saved, false if already exists
+   * @returns whether it was saved, and the business it was saved as or matched
    */
   private async saveIfNew(
+    source: DiscoverySource,
     place: PlacesBusinessResult,
     category: BusinessCategory,
-    area: SearchArea
-  ): Promise<boolean> {
-    // Check if already exists by place_id
-    if (db.businessExistsBySource('google_places', place.place_id)) {
-      return false;
+    area: ResolvedSearchArea
+  ): Promise<{ saved: boolean; businessId: string | null }> {
+    // Check if already exists by the source's ID, or was merged into another business
+    const linkedId = db.getPlaceSnapshot(source.name, place.place_id)?.business_id;
+    const known = db.getBusinessBySourceId(source.name, place.place_id) ?? (linkedId ? db.getBusinessById(linkedId) : null);
+    if (known) {
+      return { saved: false, businessId: known.id };
     }
 
-    // Also check by name + city + state to catch duplicates from different sources
-    // Use raw query since queryBusinesses doesn't support name filter
-    const rawDb = db.raw();
-    const existingByName = rawDb.prepare(`
-      SELECT 1 FROM businesses
-      WHERE LOWER(name) = LOWER(?)
-        AND LOWER(city) = LOWER(?)
-        AND LOWER(state) = LOWER(?)
-      LIMIT 1
-    `).get(
-      place.name,
-      place.address_components?.city ?? area.city,
-      place.address_components?.state ?? area.state
-    );
+    // Also check for the same business saved under a different place ID or
+    // source (e.g. "Joe's Barber Shop" vs "Joes Barbershop LLC" at the same address)
+    const city = place.address_components?.city ?? (area.kind === 'city' ? area.city : null);
+    const state = place.address_components?.state ?? area.state;
+    const address = place.address_components?.street_address ?? place.formatted_address;
+    const existing = this.duplicates.findExisting({
+      name: place.name,
+      address,
+      city,
+      state,
+      phone: place.formatted_phone_number ?? null,
+      latitude: place.geometry?.lat ?? null,
+      longitude: place.geometry?.lng ?? null,
+    });
 
-    if (existingByName) {
-      return false;
+    if (existing) {
+      logger.debug(`  "${place.name}" matches existing business "${existing.name}" (${existing.id})`);
+      return { saved: false, businessId: existing.id };
     }
 
     // Insert new business
-    db.insertBusiness({
+    const business = db.insertBusiness({
       name: place.name,
       business_type: CATEGORY_LABELS[category],
-      address: place.address_components?.street_address ?? place.formatted_address,
-      city: place.address_components?.city ?? area.city,
-      state: place.address_components?.state ?? area.state,
-      county: place.address_components?.county ?? null,
+      address,
+      city,
+      state,
+      county: place.address_components?.county ?? area.county ?? null,
       phone: place.formatted_phone_number ?? null,
       website_url: null, // We specifically target businesses WITHOUT websites
       has_website: 0,
-      source: 'google_places',
+      source: source.name,
       source_id: place.place_id,
       category: category,
-      google_place_id: place.place_id,
+      google_place_id: source.name === 'google_places' ? place.place_id : null,
       status: 'discovered',
+      ...toPlacesMetadata(place),
     });
 
-    return true;
+    // Real review snippets for the generated site's testimonials
+    const reviews = toBusinessReviews(place);
+    if (reviews.length > 0) {
+      db.replaceBusinessReviews(business.id, source.name, reviews);
+    }
+
+    this.scoring.scoreAndSave(business);
+
+    return { saved: true, businessId: business.id };
   }
 
   /**
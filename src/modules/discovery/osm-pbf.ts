@@ -0,0 +1,335 @@
+// OSM PBF Reader
+// Reads tagged nodes and ways from a .osm.pbf extract (no extra dependencies)
+//
+// Format: a sequence of [4-byte length][BlobHeader][Blob] records, where each
+// OSMData blob is a zlib-compressed PrimitiveBlock protobuf.
+// See: https://wiki.openstreetmap.org/wiki/PBF_Format
+
+import { closeSync, fstatSync, openSync, readSync } from 'fs';
+import { inflateSync } from 'zlib';
+import type { OsmElement } from './types.js';
+
+// Features we can read; extracts needing anything else are rejected
+const SUPPORTED_FEATURES = new Set(['OsmSchema-V0.6', 'DenseNodes']);
+
+const TWO_POW_63 = 2 ** 63;
+const TWO_POW_64 = 2 ** 64;
+
+/**
+ * Minimal protobuf reader. Numbers above 2^53 lose precision, which is fine
+ * for OSM IDs and coordinates.
+ */
+class ProtoReader {
+  private pos = 0;
+
+  constructor(private buf: Buffer) {}
+
+  done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  tag(): { field: number; wire: number } {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), wire: key % 8 };
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.buf[this.pos++]!;
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  int64(): number {
+    const value = this.varint();
+    return value >= TWO_POW_63 ? value - TWO_POW_64 : value;
+  }
+
+  sint64(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  bytes(): Buffer {
+    const length = this.varint();
+    const bytes = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  packed(read: (reader: ProtoReader) => number): number[] {
+    const reader = new ProtoReader(this.bytes());
+    const values: number[] = [];
+    while (!reader.done()) values.push(read(reader));
+    return values;
+  }
+
+  skip(wire: number): void {
+    switch (wire) {
+      case 0: this.varint(); break;
+      case 1: this.pos += 8; break;
+      case 2: this.pos += this.varint(); break;
+      case 5: this.pos += 4; break;
+      default: throw new Error(`Unsupported protobuf wire type ${wire}`);
+    }
+  }
+}
+
+interface BlockVisitor {
+  node(id: number, lat: number, lon: number, tags: Record<string, string> | null): void;
+  way(id: number, tags: Record<string, string>, refs: number[]): void;
+}
+
+/**
+ * Yield each decompressed PrimitiveBlock in the file.
+ */
+function* readDataBlocks(path: string): Generator<Buffer> {
+  const fd = openSync(path, 'r');
+  try {
+    const size = fstatSync(fd).size;
+    let position = 0;
+    const read = (length: number): Buffer => {
+      const buffer = Buffer.alloc(length);
+      const bytesRead = readSync(fd, buffer, 0, length, position);
+      if (bytesRead !== length) throw new Error(`Truncated OSM PBF file: ${path}`);
+      position += length;
+      return buffer;
+    };
+
+    while (position < size) {
+      const headerLength = read(4).readUInt32BE(0);
+      const header = new ProtoReader(read(headerLength));
+      let type = '';
+      let dataSize = 0;
+      while (!header.done()) {
+        const { field, wire } = header.tag();
+        if (field === 1) type = header.bytes().toString('utf8');
+        else if (field === 3) dataSize = header.varint();
+        else header.skip(wire);
+      }
+
+      const blob = new ProtoReader(read(dataSize));
+      let data: Buffer | null = null;
+      while (!blob.done()) {
+        const { field, wire } = blob.tag();
+        if (field === 1) data = blob.bytes();
+        else if (field === 3) data = inflateSync(blob.bytes());
+        else if (field === 4 || field === 6 || field === 7) throw new Error('Unsupported OSM PBF compression (only zlib and raw)');
+        else blob.skip(wire);
+      }
+      if (!data) continue;
+
+      if (type === 'OSMHeader') {
+        checkHeader(data);
+      } else if (type === 'OSMData') {
+        yield data;
+      }
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function checkHeader(data: Buffer): void {
+  const header = new ProtoReader(data);
+  while (!header.done()) {
+    const { field, wire } = header.tag();
+    if (field === 4) {
+      const feature = header.bytes().toString('utf8');
+      if (!SUPPORTED_FEATURES.has(feature)) {
+        throw new Error(`OSM PBF extract needs unsupported feature "${feature}"`);
+      }
+    } else {
+      header.skip(wire);
+    }
+  }
+}
+
+/**
+ * Decode one PrimitiveBlock, calling the visitor for each node and way.
+ */
+function decodeBlock(data: Buffer, visitor: BlockVisitor): void {
+  const block = new ProtoReader(data);
+  let strings: string[] = [];
+  const groups: Buffer[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  while (!block.done()) {
+    const { field, wire } = block.tag();
+    if (field === 1) {
+      const table = new ProtoReader(block.bytes());
+      strings = [];
+      while (!table.done()) {
+        const entry = table.tag();
+        if (entry.field === 1) strings.push(table.bytes().toString('utf8'));
+        else table.skip(entry.wire);
+      }
+    } else if (field === 2) {
+      groups.push(block.bytes());
+    } else if (field === 17) {
+      granularity = block.varint();
+    } else if (field === 19) {
+      latOffset = block.int64();
+    } else if (field === 20) {
+      lonOffset = block.int64();
+    } else {
+      block.skip(wire);
+    }
+  }
+
+  const toLat = (value: number): number => 1e-9 * (latOffset + granularity * value);
+  const toLon = (value: number): number => 1e-9 * (lonOffset + granularity * value);
+  const tagsOf = (keys: number[], values: number[]): Record<string, string> => {
+    const tags: Record<string, string> = {};
+    keys.forEach((key, i) => { tags[strings[key]!] = strings[values[i]!]!; });
+    return tags;
+  };
+
+  for (const groupData of groups) {
+    const group = new ProtoReader(groupData);
+    while (!group.done()) {
+      const { field, wire } = group.tag();
+      if (field === 1) {
+        decodeNode(group.bytes(), visitor, toLat, toLon, tagsOf);
+      } else if (field === 2) {
+        decodeDenseNodes(group.bytes(), visitor, toLat, toLon, strings);
+      } else if (field === 3) {
+        decodeWay(group.bytes(), visitor, tagsOf);
+      } else {
+        group.skip(wire);
+      }
+    }
+  }
+}
+
+function decodeNode(
+  data: Buffer,
+  visitor: BlockVisitor,
+  toLat: (value: number) => number,
+  toLon: (value: number) => number,
+  tagsOf: (keys: number[], values: number[]) => Record<string, string>
+): void {
+  const node = new ProtoReader(data);
+  let id = 0, lat = 0, lon = 0;
+  let keys: number[] = [], values: number[] = [];
+  while (!node.done()) {
+    const { field, wire } = node.tag();
+    if (field === 1) id = node.sint64();
+    else if (field === 2) keys = node.packed((r) => r.varint());
+    else if (field === 3) values = node.packed((r) => r.varint());
+    else if (field === 8) lat = node.sint64();
+    else if (field === 9) lon = node.sint64();
+    else node.skip(wire);
+  }
+  visitor.node(id, toLat(lat), toLon(lon), keys.length > 0 ? tagsOf(keys, values) : null);
+}
+
+function decodeDenseNodes(
+  data: Buffer,
+  visitor: BlockVisitor,
+  toLat: (value: number) => number,
+  toLon: (value: number) => number,
+  strings: string[]
+): void {
+  const dense = new ProtoReader(data);
+  let ids: number[] = [], lats: number[] = [], lons: number[] = [], keysVals: number[] = [];
+  while (!dense.done()) {
+    const { field, wire } = dense.tag();
+    if (field === 1) ids = dense.packed((r) => r.sint64());
+    else if (field === 8) lats = dense.packed((r) => r.sint64());
+    else if (field === 9) lons = dense.packed((r) => r.sint64());
+    else if (field === 10) keysVals = dense.packed((r) => r.varint());
+    else dense.skip(wire);
+  }
+
+  // IDs and coordinates are delta-coded; keys_vals is key,value,...,0 per node
+  let id = 0, lat = 0, lon = 0, kv = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i]!;
+    lat += lats[i]!;
+    lon += lons[i]!;
+
+    let tags: Record<string, string> | null = null;
+    while (kv < keysVals.length && keysVals[kv] !== 0) {
+      tags ??= {};
+      tags[strings[keysVals[kv]!]!] = strings[keysVals[kv + 1]!]!;
+      kv += 2;
+    }
+    kv++;
+
+    visitor.node(id, toLat(lat), toLon(lon), tags);
+  }
+}
+
+function decodeWay(
+  data: Buffer,
+  visitor: BlockVisitor,
+  tagsOf: (keys: number[], values: number[]) => Record<string, string>
+): void {
+  const way = new ProtoReader(data);
+  let id = 0;
+  let keys: number[] = [], values: number[] = [], deltas: number[] = [];
+  while (!way.done()) {
+    const { field, wire } = way.tag();
+    if (field === 1) id = way.int64();
+    else if (field === 2) keys = way.packed((r) => r.varint());
+    else if (field === 3) values = way.packed((r) => r.varint());
+    else if (field === 8) deltas = way.packed((r) => r.sint64());
+    else way.skip(wire);
+  }
+  if (keys.length === 0) return;
+
+  let ref = 0;
+  const refs = deltas.map((delta) => (ref += delta));
+  visitor.way(id, tagsOf(keys, values), refs);
+}
+
+/**
+ * Read the nodes and ways whose tags match from an extract. Ways get a
+ * center (the average of their nodes), which takes a second pass.
+ */
+export function readOsmPbf(path: string, matches: (tags: Record<string, string>) => boolean): OsmElement[] {
+  const elements: OsmElement[] = [];
+  const ways: Array<{ id: number; tags: Record<string, string>; refs: number[] }> = [];
+
+  for (const data of readDataBlocks(path)) {
+    decodeBlock(data, {
+      node: (id, lat, lon, tags) => {
+        if (tags && matches(tags)) elements.push({ type: 'node', id, lat, lon, tags });
+      },
+      way: (id, tags, refs) => {
+        if (matches(tags)) ways.push({ id, tags, refs });
+      },
+    });
+  }
+
+  if (ways.length > 0) {
+    const wanted = new Set(ways.flatMap((way) => way.refs));
+    const coordinates = new Map<number, [number, number]>();
+    for (const data of readDataBlocks(path)) {
+      decodeBlock(data, {
+        node: (id, lat, lon) => {
+          if (wanted.has(id)) coordinates.set(id, [lat, lon]);
+        },
+        way: () => undefined,
+      });
+    }
+
+    for (const way of ways) {
+      const points = [...new Set(way.refs)].map((ref) => coordinates.get(ref)).filter((point) => point !== undefined);
+      if (points.length === 0) continue;
+      const lat = points.reduce((sum, [pointLat]) => sum + pointLat, 0) / points.length;
+      const lon = points.reduce((sum, [, pointLon]) => sum + pointLon, 0) / points.length;
+      elements.push({ type: 'way', id: way.id, center: { lat, lon }, tags: way.tags });
+    }
+  }
+
+  return elements;
+}
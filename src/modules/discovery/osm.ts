@@ -0,0 +1,282 @@
+// OpenStreetMap Discovery Source
+// Finds businesses in OSM data via an Overpass API endpoint or a local .osm.pbf extract
+
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../../config/index.js';
+import { distanceKm, logger, RateLimiter } from '../../utils/index.js';
+import { pointInBoundary } from './geo.js';
+import { readOsmPbf } from './osm-pbf.js';
+import {
+  BusinessCategory,
+  CATEGORY_LABELS,
+  CATEGORY_TO_OSM_TAGS,
+  DiscoveryResults,
+  DiscoverySource,
+  OsmElement,
+  OsmTagCondition,
+  PlacesBusinessResult,
+  ResolvedSearchArea,
+} from './types.js';
+
+// Public Overpass instance, used when OVERPASS_URL isn't set
+export const DEFAULT_OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+const MILES_TO_METERS = 1609.34;
+
+// Settlement types used to find a city's center, largest first
+const PLACE_TYPES = ['city', 'town', 'village', 'hamlet'];
+
+/**
+ * Whether tags satisfy any of the alternatives (all conditions of one).
+ */
+export function matchesOsmTags(tags: Record<string, string>, alternatives: OsmTagCondition[][]): boolean {
+  return alternatives.some((conditions) =>
+    conditions.every((condition) => {
+      const value = tags[condition.key];
+      if (value === undefined) return false;
+      if ('value' in condition) return value === condition.value;
+      if ('pattern' in condition) return new RegExp(condition.pattern, 'i').test(value);
+      return true;
+    })
+  );
+}
+
+/**
+ * Overpass QL for businesses matching any alternative within a radius.
+ */
+export function buildOverpassQuery(
+  alternatives: OsmTagCondition[][],
+  center: { lat: number; lon: number },
+  radiusMeters: number,
+  maxResults: number
+): string {
+  const around = `(around:${Math.round(radiusMeters)},${center.lat},${center.lon})`;
+  const statements = alternatives.map((conditions) =>
+    `  nwr${conditions.map(overpassFilter).join('')}["name"]${around};`
+  );
+  return ['[out:json][timeout:60];', '(', ...statements, ');', `out tags center ${maxResults};`].join('\n');
+}
+
+function overpassFilter(condition: OsmTagCondition): string {
+  if ('value' in condition) return `["${quote(condition.key)}"="${quote(condition.value)}"]`;
+  if ('pattern' in condition) return `["${quote(condition.key)}"~"${quote(condition.pattern)}",i]`;
+  return `["${quote(condition.key)}"]`;
+}
+
+function quote(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Convert an OSM element to the Places result shape, or null if it has no
+ * name or location. OSM has no open/closed status, ratings or reviews.
+ * Untagged cities are assumed to be the searched city (for city areas).
+ */
+export function osmElementToResult(element: OsmElement, area: ResolvedSearchArea): PlacesBusinessResult | null {
+  const tags = element.tags;
+  const name = tags['name']?.trim();
+  const lat = element.lat ?? element.center?.lat;
+  const lon = element.lon ?? element.center?.lon;
+  if (!name || lat === undefined || lon === undefined) return null;
+
+  const street = [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' ') || undefined;
+  const city = tags['addr:city'] ?? (area.kind === 'city' ? area.city : undefined);
+  const state = tags['addr:state'] ?? area.state;
+  const postalCode = tags['addr:postcode'];
+  const website = tags['website'] ?? tags['contact:website'] ?? tags['url'] ?? null;
+
+  return {
+    place_id: `${element.type}/${element.id}`,
+    name,
+    formatted_address: [street, city, [state, postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+    address_components: {
+      city,
+      state,
+      postal_code: postalCode,
+      street_address: street,
+    },
+    website,
+    formatted_phone_number: tags['phone'] ?? tags['contact:phone'],
+    types: primaryTags(tags),
+    geometry: { lat, lng: lon },
+    opening_hours: tags['opening_hours'] ? { weekday_text: [tags['opening_hours']] } : undefined,
+  };
+}
+
+// The tags that say what kind of place this is, e.g. ["shop=hairdresser"]
+function primaryTags(tags: Record<string, string>): string[] {
+  return ['amenity', 'shop', 'craft', 'leisure', 'office', 'hairdresser']
+    .filter((key) => tags[key] !== undefined)
+    .map((key) => `${key}=${tags[key]}`);
+}
+
+/**
+ * OverpassClient - Queries an Overpass API endpoint
+ *
+ * Works with the public instance, a self-hosted one, or any
+ * Overpass-compatible stand-in (set OVERPASS_URL).
+ */
+export class OverpassClient {
+  private client: AxiosInstance;
+  private rateLimiter: RateLimiter;
+
+  constructor(private url: string = config.getAll().overpassUrl ?? DEFAULT_OVERPASS_URL) {
+    // The public instance asks for no more than a couple of requests at a time
+    this.rateLimiter = new RateLimiter(1);
+    this.client = axios.create({ timeout: 90000 });
+  }
+
+  /**
+   * Run an Overpass QL query and return its elements.
+   */
+  async query(ql: string): Promise<OsmElement[]> {
+    await this.rateLimiter.acquire();
+    const response = await this.client.post<{ elements?: OsmElement[] }>(
+      this.url,
+      `data=${encodeURIComponent(ql)}`,
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+    return (response.data.elements ?? []).map((element) => ({ ...element, tags: element.tags ?? {} }));
+  }
+
+  /**
+   * Center of a city, town or village in a US state.
+   */
+  async findPlace(city: string, state: string): Promise<{ lat: number; lon: number } | null> {
+    const ql = [
+      '[out:json][timeout:25];',
+      `area["ISO3166-2"="US-${quote(state.toUpperCase())}"]->.state;`,
+      `node["place"~"^(${PLACE_TYPES.join('|')})$"]["name"="${quote(city)}"](area.state);`,
+      'out 5;',
+    ].join('\n');
+    return pickPlace(await this.query(ql));
+  }
+
+  /**
+   * Get the endpoint URL.
+   */
+  getUrl(): string {
+    return this.url;
+  }
+}
+
+// The largest settlement among matches (a city over a hamlet of the same name)
+function pickPlace(elements: OsmElement[]): { lat: number; lon: number } | null {
+  const ranked = elements
+    .filter((element) => element.lat !== undefined && element.lon !== undefined)
+    .sort((a, b) => rank(a) - rank(b));
+  const best = ranked[0];
+  return best ? { lat: best.lat!, lon: best.lon! } : null;
+}
+
+function rank(element: OsmElement): number {
+  const index = PLACE_TYPES.indexOf(element.tags['place'] ?? '');
+  return index === -1 ? PLACE_TYPES.length : index;
+}
+
+/**
+ * OsmDiscoverySource - Discovery from OpenStreetMap
+ *
+ * Uses a local .osm.pbf extract when OSM_PBF_PATH (or pbfPath) is set,
+ * otherwise an Overpass endpoint (OVERPASS_URL, default the public instance).
+ * The extract is read once and kept in memory for the rest of the run.
+ *
+ * OSM has no ratings or open/closed status, but has businesses Google
+ * doesn't list, and costs nothing per request.
+ */
+export class OsmDiscoverySource implements DiscoverySource {
+  readonly name = 'osm' as const;
+  readonly label: string;
+  private overpass: OverpassClient | null;
+  private pbfPath: string | null;
+  private extract: OsmElement[] | null = null;
+  private centers = new Map<string, { lat: number; lon: number } | null>();
+
+  constructor(options: { overpassUrl?: string; pbfPath?: string } = {}) {
+    const appConfig = config.getAll();
+    this.pbfPath = options.pbfPath ?? appConfig.osmPbfPath ?? null;
+    this.overpass = this.pbfPath ? null : new OverpassClient(options.overpassUrl ?? appConfig.overpassUrl ?? DEFAULT_OVERPASS_URL);
+    this.label = this.pbfPath ? `OpenStreetMap (${this.pbfPath})` : `OpenStreetMap (${this.overpass!.getUrl()})`;
+  }
+
+  isInMockMode(): boolean {
+    return false;
+  }
+
+  async findBusinesses(area: ResolvedSearchArea, category: BusinessCategory, maxResults: number): Promise<DiscoveryResults> {
+    const alternatives = CATEGORY_TO_OSM_TAGS[category];
+    const radiusMeters = area.radiusMiles * MILES_TO_METERS;
+
+    const center = await this.findCenter(area);
+    if (!center) {
+      logger.error(`Could not find ${area.label} in OpenStreetMap`);
+      return { places: [], coverage: { searches: 0, cells: 0, saturatedCells: 0, duplicates: 0, outsideArea: 0 } };
+    }
+
+    logger.info(`Searching OpenStreetMap for ${CATEGORY_LABELS[category]} in ${area.label} (${area.radiusMiles} mile radius)`);
+
+    let elements: OsmElement[];
+    if (this.overpass) {
+      elements = await this.overpass.query(buildOverpassQuery(alternatives, center, radiusMeters, maxResults));
+    } else {
+      elements = this.loadExtract().filter((element) => {
+        const lat = element.lat ?? element.center?.lat;
+        const lon = element.lon ?? element.center?.lon;
+        return lat !== undefined && lon !== undefined &&
+          element.tags['name'] !== undefined &&
+          matchesOsmTags(element.tags, alternatives) &&
+          distanceKm({ latitude: center.lat, longitude: center.lon }, { latitude: lat, longitude: lon }) * 1000 <= radiusMeters;
+      });
+    }
+
+    // One query covers the whole area; it's only incomplete if the limit was hit
+    const results = elements
+      .map((element) => osmElementToResult(element, area))
+      .filter((result) => result !== null);
+    const inside = area.boundary
+      ? results.filter((result) => pointInBoundary(result.geometry!.lat, result.geometry!.lng, area.boundary!))
+      : results;
+    const saturated = elements.length >= maxResults;
+
+    return {
+      places: inside.slice(0, maxResults),
+      coverage: {
+        searches: 1,
+        cells: 1,
+        saturatedCells: saturated ? 1 : 0,
+        duplicates: 0,
+        outsideArea: results.length - inside.length,
+      },
+    };
+  }
+
+  private async findCenter(area: ResolvedSearchArea): Promise<{ lat: number; lon: number } | null> {
+    if (area.latitude !== undefined && area.longitude !== undefined) {
+      return { lat: area.latitude, lon: area.longitude };
+    }
+
+    const key = `${area.city}, ${area.state}`.toLowerCase();
+    if (!this.centers.has(key)) {
+      const city = area.city.toLowerCase();
+      this.centers.set(key, this.overpass
+        ? await this.overpass.findPlace(area.city, area.state)
+        : pickPlace(this.loadExtract().filter((element) =>
+          element.type === 'node' && element.tags['place'] !== undefined && element.tags['name']?.toLowerCase() === city
+        )));
+    }
+    return this.centers.get(key)!;
+  }
+
+  // Every business of any category, plus settlements, from the extract
+  private loadExtract(): OsmElement[] {
+    if (!this.extract) {
+      const allCategories = Object.values(CATEGORY_TO_OSM_TAGS).flat();
+      logger.info(`Reading OSM extract ${this.pbfPath}...`);
+      this.extract = readOsmPbf(this.pbfPath!, (tags) =>
+        PLACE_TYPES.includes(tags['place'] ?? '') || (tags['name'] !== undefined && matchesOsmTags(tags, allCategories))
+      );
+      logger.info(`  Loaded ${this.extract.length} places from the extract`);
+    }
+    return this.extract;
+  }
+}
@@ -0,0 +1,64 @@
+// Places Response Cache
+// Keeps Places API responses in the database so repeat requests don't go to Google
+
+import { db } from '../../database/index.js';
+import { config } from '../../config/index.js';
+import { PlacesEndpoint } from './types.js';
+
+// How long each endpoint's responses stay fresh, in hours. Google allows
+// keeping Places content for up to 30 days.
+export const DEFAULT_PLACES_CACHE_TTL_HOURS: Record<PlacesEndpoint, number> = {
+  geocode: 24 * 30,          // Cities don't move
+  find_place: 24 * 30,       // Place IDs are stable
+  nearby_search: 24,         // Short, so new businesses show up in the next day's run
+  place_details: 24 * 7,
+};
+
+/**
+ * Cache key for a request: the endpoint plus its parameters in a fixed order
+ * (never the API key).
+ */
+export function placesCacheKey(endpoint: PlacesEndpoint, params: Record<string, string>): string {
+  const sorted = Object.keys(params).sort().filter((key) => key !== 'key').map((key) => [key, params[key]]);
+  return `google_places:${endpoint}:${JSON.stringify(sorted)}`;
+}
+
+/**
+ * PlacesResponseCache - Database-backed cache of Places API responses
+ *
+ * Lifetimes come from DEFAULT_PLACES_CACHE_TTL_HOURS, overridden per
+ * endpoint by PLACES_CACHE_TTL_HOURS. PLACES_CACHE=off turns it off.
+ */
+export class PlacesResponseCache {
+  isEnabled(): boolean {
+    return config.getAll().placesCache !== false;
+  }
+
+  ttlHours(endpoint: PlacesEndpoint): number {
+    return config.getAll().placesCacheTtlHours?.[endpoint] ?? DEFAULT_PLACES_CACHE_TTL_HOURS[endpoint];
+  }
+
+  /**
+   * A fresh cached response, or null.
+   */
+  get<T>(endpoint: PlacesEndpoint, params: Record<string, string>): T | null {
+    if (!this.isEnabled() || this.ttlHours(endpoint) <= 0) return null;
+    const entry = db.getApiCacheEntry(placesCacheKey(endpoint, params));
+    return entry ? (JSON.parse(entry.response) as T) : null;
+  }
+
+  put(endpoint: PlacesEndpoint, params: Record<string, string>, response: unknown): void {
+    if (!this.isEnabled() || this.ttlHours(endpoint) <= 0) return;
+    db.putApiCacheEntry({
+      key: placesCacheKey(endpoint, params),
+      api: 'google_places',
+      endpoint,
+      params: JSON.stringify(Object.fromEntries(Object.entries(params).filter(([key]) => key !== 'key'))),
+      response: JSON.stringify(response),
+      ttlHours: this.ttlHours(endpoint),
+    });
+  }
+}
+
+// Export singleton instance
+export const placesCache = new PlacesResponseCache();
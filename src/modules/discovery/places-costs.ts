@@ -0,0 +1,119 @@
+// Places API Costs
+// Prices each Places request by SKU, records it in the cost ledger and enforces the budget
+
+import { db } from '../../database/index.js';
+import type { ApiCallTotals } from '../../database/types.js';
+import { config } from '../../config/index.js';
+import { httpCassettes } from '../../utils/cassettes.js';
+import { PlacesEndpoint } from './types.js';
+
+// List prices in USD per 1,000 requests, before volume discounts and the
+// monthly credit. Details requests are billed for the Contact (website,
+// phone) and Atmosphere (rating, hours, reviews) fields we ask for.
+export const PLACES_SKUS: Record<PlacesEndpoint, { sku: string; usdPer1000: number }> = {
+  geocode: { sku: 'Geocoding', usdPer1000: 5 },
+  find_place: { sku: 'Find Place', usdPer1000: 17 },
+  nearby_search: { sku: 'Nearby Search', usdPer1000: 32 },
+  place_details: { sku: 'Place Details + Contact Data + Atmosphere Data', usdPer1000: 25 },
+};
+
+/**
+ * Thrown instead of making a Places request that would go over budget.
+ */
+export class PlacesBudgetExceededError extends Error {
+  constructor(
+    public readonly scope: 'month' | 'run',
+    public readonly spentUsd: number,
+    public readonly budgetUsd: number
+  ) {
+    super(`Places ${scope === 'month' ? 'monthly' : 'per-run'} budget of $${budgetUsd.toFixed(2)} reached ($${spentUsd.toFixed(2)} spent)`);
+    this.name = 'PlacesBudgetExceededError';
+  }
+}
+
+/**
+ * Start of the current calendar month (UTC), as an ISO timestamp
+ */
+function monthStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * PlacesCostLedger - Records what Places requests cost and stops before the budget runs out
+ *
+ * Every request goes in the api_calls table: live ones at their SKU price,
+ * cached and replayed (HTTP_CASSETTES=replay) ones at no cost. A discovery run tags its requests with its run ID
+ * and can set its own budget on top of the monthly one.
+ */
+export class PlacesCostLedger {
+  private runId: string | null = null;
+  private runBudgetUsd: number | null = null;
+
+  priceOf(endpoint: PlacesEndpoint): number {
+    return PLACES_SKUS[endpoint].usdPer1000 / 1000;
+  }
+
+  /**
+   * Tag requests with a discovery run until endRun, optionally capping its spend.
+   */
+  startRun(runId: string, budgetUsd: number | null = null): void {
+    this.runId = runId;
+    this.runBudgetUsd = budgetUsd;
+  }
+
+  /**
+   * Stop tagging requests; returns what the run used.
+   */
+  endRun(): ApiCallTotals {
+    const totals = this.runId ? this.getRunTotals(this.runId) : { calls: 0, cachedCalls: 0, costUsd: 0 };
+    this.runId = null;
+    this.runBudgetUsd = null;
+    return totals;
+  }
+
+  /**
+   * Throw PlacesBudgetExceededError if a live request would take spend past
+   * the monthly or run budget.
+   */
+  assertWithinBudget(endpoint: PlacesEndpoint): void {
+    if (httpCassettes.isReplaying()) return;
+    const price = this.priceOf(endpoint);
+
+    const monthlyBudget = config.getAll().placesMonthlyBudgetUsd;
+    if (monthlyBudget !== undefined) {
+      const spent = this.getMonthTotals().costUsd;
+      if (spent + price > monthlyBudget + 1e-9) {
+        throw new PlacesBudgetExceededError('month', spent, monthlyBudget);
+      }
+    }
+
+    if (this.runId && this.runBudgetUsd !== null) {
+      const spent = this.getRunTotals(this.runId).costUsd;
+      if (spent + price > this.runBudgetUsd + 1e-9) {
+        throw new PlacesBudgetExceededError('run', spent, this.runBudgetUsd);
+      }
+    }
+  }
+
+  record(endpoint: PlacesEndpoint, cached: boolean): void {
+    db.insertApiCall({
+      api: 'google_places',
+      endpoint,
+      sku: PLACES_SKUS[endpoint].sku,
+      cost_usd: cached || httpCassettes.isReplaying() ? 0 : this.priceOf(endpoint),
+      cached,
+      run_id: this.runId,
+    });
+  }
+
+  getMonthTotals(): ApiCallTotals {
+    return db.getApiCallTotals({ api: 'google_places', since: monthStart() });
+  }
+
+  getRunTotals(runId: string): ApiCallTotals {
+    return db.getApiCallTotals({ api: 'google_places', runId });
+  }
+}
+
+// Export singleton instance
+export const placesLedger = new PlacesCostLedger();
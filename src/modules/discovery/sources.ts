@@ -0,0 +1,100 @@
+// Discovery Sources
+// Providers DiscoveryService searches, and how to create them by name
+
+import { logger } from '../../utils/index.js';
+import { GooglePlacesClient, googlePlaces } from './google-places.js';
+import { OsmDiscoverySource } from './osm.js';
+import { searchTiled } from './tiling.js';
+import {
+  BusinessCategory,
+  DiscoveryResults,
+  DiscoverySource,
+  DiscoverySourceName,
+  PLACES_RESULT_CAP,
+  ResolvedSearchArea,
+  TilingOptions,
+} from './types.js';
+
+/**
+ * GooglePlacesSource - Discovery from Google Places
+ *
+ * Nearby Search doesn't return websites, so every result is looked up with
+ * Place Details before it's returned.
+ *
+ * With tiling, areas larger than one cell are searched as a grid of cells,
+ * and cells that hit the result cap are split until they don't (or reach
+ * the maximum depth). Without it, each city area is one Nearby Search;
+ * county, ZIP and polygon areas are always tiled to their boundary.
+ */
+export class GooglePlacesSource implements DiscoverySource {
+  readonly name = 'google_places' as const;
+  readonly label = 'Google Places';
+
+  constructor(
+    private client: GooglePlacesClient = googlePlaces,
+    private tiling: TilingOptions | null = null
+  ) {}
+
+  isInMockMode(): boolean {
+    return this.client.isInMockMode();
+  }
+
+  async findBusinesses(area: ResolvedSearchArea, category: BusinessCategory, maxResults: number): Promise<DiscoveryResults> {
+    const center = area.latitude !== undefined && area.longitude !== undefined
+      ? { lat: area.latitude, lng: area.longitude }
+      : await this.client.geocodeCity(area.city, area.state);
+    if (!center) {
+      logger.error(`Could not geocode location: ${area.label}`);
+      return { places: [], coverage: { searches: 0, cells: 0, saturatedCells: 0, duplicates: 0, outsideArea: 0 } };
+    }
+
+    const cap = Math.min(maxResults, PLACES_RESULT_CAP);
+    const { places, coverage } = await searchTiled(
+      { latitude: center.lat, longitude: center.lng, radiusMiles: area.radiusMiles, boundary: area.boundary },
+      cap,
+      this.tiling,
+      (cell) => this.client.searchBusinesses(
+        { city: area.city, state: area.state, latitude: cell.latitude, longitude: cell.longitude, radiusMiles: cell.radiusMiles },
+        category,
+        cap
+      )
+    );
+
+    if (coverage.searches > 1) {
+      logger.info(`  ${places.length} unique places from ${coverage.searches} searches over ${coverage.cells} cells`);
+    }
+    if (places.length === 0) {
+      return { places, coverage };
+    }
+
+    // Nearby Search doesn't return the website field, so get Place Details
+    logger.info(`  Getting details for ${places.length} places...`);
+    const detailed = await this.client.getPlaceDetailsBatch(
+      places.map((place) => place.place_id),
+      (current, total) => {
+        if (current % 10 === 0 || current === total) {
+          logger.debug(`  Progress: ${current}/${total}`);
+        }
+      }
+    );
+
+    return { places: detailed, coverage };
+  }
+}
+
+export const DISCOVERY_SOURCE_NAMES: DiscoverySourceName[] = ['google_places', 'osm'];
+
+/**
+ * Create a discovery source by name.
+ */
+export function createDiscoverySource(
+  name: DiscoverySourceName,
+  options: { tiling?: TilingOptions | null } = {}
+): DiscoverySource {
+  switch (name) {
+    case 'google_places':
+      return new GooglePlacesSource(googlePlaces, options.tiling ?? null);
+    case 'osm':
+      return new OsmDiscoverySource();
+  }
+}
@@ -0,0 +1,176 @@
+// Tiled Search
+// Splits a search area into a grid of overlapping cells so no one search hits the result cap
+//
+// Each cell's circle circumscribes a square; the squares tile the area with no
+// gaps, so the circles overlap their neighbours. A cell that comes back full is
+// split into four half-size cells and searched again. Areas with a boundary
+// only get the cells that overlap it.
+
+import { distanceKm } from '../../utils/index.js';
+import { boxIntersectsBoundary, pointInBoundary } from './geo.js';
+import {
+  DEFAULT_TILING_OPTIONS,
+  GeoPolygon,
+  PlacesBusinessResult,
+  SearchCell,
+  SearchCoverage,
+  TilingOptions,
+} from './types.js';
+
+const MILES_PER_DEGREE_LATITUDE = 69.0;
+const KM_PER_MILE = 1.609344;
+
+// Where a cell sits relative to the area center, in miles (x east, y north)
+interface LocalCell {
+  x: number;
+  y: number;
+  radiusMiles: number;
+  depth: number;
+}
+
+/**
+ * Does the square covered by a cell reach into the area's circle?
+ */
+function intersectsArea(cell: LocalCell, areaRadiusMiles: number): boolean {
+  const half = cell.radiusMiles / Math.SQRT2;
+  const dx = Math.max(Math.abs(cell.x) - half, 0);
+  const dy = Math.max(Math.abs(cell.y) - half, 0);
+  return Math.hypot(dx, dy) < areaRadiusMiles;
+}
+
+function milesPerDegreeLongitude(latitude: number): number {
+  return MILES_PER_DEGREE_LATITUDE * Math.cos((latitude * Math.PI) / 180);
+}
+
+function toSearchCell(center: { latitude: number; longitude: number }, cell: LocalCell): SearchCell {
+  return {
+    latitude: center.latitude + cell.y / MILES_PER_DEGREE_LATITUDE,
+    longitude: center.longitude + cell.x / milesPerDegreeLongitude(center.latitude),
+    radiusMiles: cell.radiusMiles,
+    depth: cell.depth,
+  };
+}
+
+/**
+ * Does the square covered by a cell overlap the boundary?
+ */
+function intersectsBoundary(center: { latitude: number; longitude: number }, cell: LocalCell, boundary: GeoPolygon[]): boolean {
+  const { latitude, longitude } = toSearchCell(center, cell);
+  const half = cell.radiusMiles / Math.SQRT2;
+  const halfLat = half / MILES_PER_DEGREE_LATITUDE;
+  const halfLon = half / milesPerDegreeLongitude(center.latitude);
+  return boxIntersectsBoundary(
+    { west: longitude - halfLon, south: latitude - halfLat, east: longitude + halfLon, north: latitude + halfLat },
+    boundary
+  );
+}
+
+function gridCells(areaRadiusMiles: number, cellRadiusMiles: number, keep: (cell: LocalCell) => boolean = () => true): LocalCell[] {
+  if (areaRadiusMiles <= cellRadiusMiles) {
+    return [{ x: 0, y: 0, radiusMiles: areaRadiusMiles, depth: 0 }];
+  }
+
+  const spacing = cellRadiusMiles * Math.SQRT2;
+  const steps = Math.ceil(areaRadiusMiles / spacing);
+  const cells: LocalCell[] = [];
+  for (let row = -steps; row <= steps; row++) {
+    for (let col = -steps; col <= steps; col++) {
+      const cell = { x: col * spacing, y: row * spacing, radiusMiles: cellRadiusMiles, depth: 0 };
+      if (intersectsArea(cell, areaRadiusMiles) && keep(cell)) cells.push(cell);
+    }
+  }
+  return cells;
+}
+
+function splitCell(cell: LocalCell, areaRadiusMiles: number, keep: (cell: LocalCell) => boolean): LocalCell[] {
+  const offset = cell.radiusMiles / (2 * Math.SQRT2);
+  return [[-1, -1], [1, -1], [-1, 1], [1, 1]]
+    .map(([dx, dy]) => ({
+      x: cell.x + dx! * offset,
+      y: cell.y + dy! * offset,
+      radiusMiles: cell.radiusMiles / 2,
+      depth: cell.depth + 1,
+    }))
+    .filter((child) => intersectsArea(child, areaRadiusMiles) && keep(child));
+}
+
+/**
+ * A circular area to tile, optionally clipped to a boundary
+ */
+export interface TiledArea {
+  latitude: number;
+  longitude: number;
+  radiusMiles: number;
+  boundary?: GeoPolygon[];
+}
+
+/**
+ * The initial grid of cells covering an area. Areas no larger than one
+ * cell are a single cell.
+ */
+export function tileArea(area: TiledArea, cellRadiusMiles: number): SearchCell[] {
+  const keep = area.boundary ? (cell: LocalCell) => intersectsBoundary(area, cell, area.boundary!) : undefined;
+  return gridCells(area.radiusMiles, cellRadiusMiles, keep).map((cell) => toSearchCell(area, cell));
+}
+
+/**
+ * Search an area cell by cell, splitting cells that return `cap` results,
+ * and merge the results. Results found by several cells are kept once;
+ * results outside the area (from cell overhang) are dropped.
+ *
+ * Pass `tiling: null` to search the whole area as one cell. Areas with a
+ * boundary are always tiled (with the default options if none are given).
+ */
+export async function searchTiled(
+  area: TiledArea,
+  cap: number,
+  tiling: TilingOptions | null,
+  search: (cell: SearchCell) => Promise<PlacesBusinessResult[]>
+): Promise<{ places: PlacesBusinessResult[]; coverage: SearchCoverage }> {
+  const coverage: SearchCoverage = { searches: 0, cells: 0, saturatedCells: 0, duplicates: 0, outsideArea: 0 };
+  const found = new Map<string, PlacesBusinessResult>();
+  const dropped = new Set<string>();
+  const { radiusMiles, boundary } = area;
+
+  const options = tiling ?? (boundary ? DEFAULT_TILING_OPTIONS : null);
+  const keep = (cell: LocalCell): boolean => !boundary || intersectsBoundary(area, cell, boundary);
+  const queue = options
+    ? gridCells(radiusMiles, options.cellRadiusMiles, keep)
+    : [{ x: 0, y: 0, radiusMiles, depth: 0 }];
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    const results = await search(toSearchCell(area, cell));
+    coverage.searches++;
+
+    const saturated = results.length >= cap;
+    if (saturated && options && cell.depth < options.maxDepth) {
+      queue.push(...splitCell(cell, radiusMiles, keep));
+    } else {
+      coverage.cells++;
+      if (saturated) coverage.saturatedCells++;
+    }
+
+    for (const place of results) {
+      const outside = place.geometry !== undefined && isOutside(area, options !== null, place.geometry);
+
+      if (found.has(place.place_id) || (outside && dropped.has(place.place_id))) {
+        coverage.duplicates++;
+      } else if (outside) {
+        dropped.add(place.place_id);
+        coverage.outsideArea++;
+      } else {
+        found.set(place.place_id, place);
+      }
+    }
+  }
+
+  return { places: [...found.values()], coverage };
+}
+
+function isOutside(area: TiledArea, tiled: boolean, point: { lat: number; lng: number }): boolean {
+  if (area.boundary) {
+    return !pointInBoundary(point.lat, point.lng, area.boundary);
+  }
+  return tiled && distanceKm(area, { latitude: point.lat, longitude: point.lng }) > area.radiusMiles * KM_PER_MILE;
+}
@@ -1,5 +1,7 @@
 // Discovery Module Types
-// Types and interfaces for Google Places-based business discovery
+// Types and interfaces for business discovery (Google Places, OpenStreetMap)
+
+import type { ApiCallTotals, BusinessReviewInsert, BusinessUpdate, DiscoveryChangeType } from '../../database/types.js';
 
 /**
  * Business categories we target for website generation.
@@ -40,6 +42,60 @@ export const CATEGORY_TO_PLACES_PARAMS: Record<BusinessCategory, { type?: string
   [BusinessCategory.OTHER]: { type: 'establishment' },
 };
 
+/**
+ * One OSM tag condition: an exact value, a case-insensitive regex, or just
+ * the key being present
+ */
+export type OsmTagCondition =
+  | { key: string; value: string }
+  | { key: string; pattern: string }
+  | { key: string };
+
+/**
+ * Maps our BusinessCategory enum to OpenStreetMap tags. Each entry is one
+ * alternative; all conditions in an entry must match.
+ * See: https://wiki.openstreetmap.org/wiki/Map_features
+ */
+export const CATEGORY_TO_OSM_TAGS: Record<BusinessCategory, OsmTagCondition[][]> = {
+  [BusinessCategory.RESTAURANT]: [
+    [{ key: 'amenity', pattern: '^(restaurant|fast_food|cafe)$' }],
+  ],
+  [BusinessCategory.BARBER_SHOP]: [
+    [{ key: 'shop', value: 'hairdresser' }, { key: 'hairdresser', value: 'barber' }],
+    [{ key: 'shop', value: 'hairdresser' }, { key: 'name', pattern: 'barber' }],
+  ],
+  [BusinessCategory.AUTO_REPAIR]: [
+    [{ key: 'shop', pattern: '^(car_repair|tyres)$' }],
+  ],
+  [BusinessCategory.SALON]: [
+    [{ key: 'shop', pattern: '^(beauty|hairdresser|nail_salon)$' }],
+  ],
+  [BusinessCategory.GYM]: [
+    [{ key: 'leisure', value: 'fitness_centre' }],
+  ],
+  [BusinessCategory.RETAIL]: [
+    [{ key: 'shop', pattern: '^(clothes|boutique|gift|florist|jewelry|shoes|furniture|hardware|books)$' }],
+  ],
+  [BusinessCategory.PLUMBER]: [
+    [{ key: 'craft', value: 'plumber' }],
+  ],
+  [BusinessCategory.ELECTRICIAN]: [
+    [{ key: 'craft', value: 'electrician' }],
+  ],
+  [BusinessCategory.LANDSCAPING]: [
+    [{ key: 'craft', pattern: '^(gardener|landscaper)$' }],
+  ],
+  [BusinessCategory.CLEANING_SERVICE]: [
+    [{ key: 'craft', value: 'cleaning' }],
+    [{ key: 'shop', value: 'dry_cleaning' }],
+  ],
+  [BusinessCategory.OTHER]: [
+    [{ key: 'shop' }],
+    [{ key: 'craft' }],
+    [{ key: 'office', pattern: '^(company|estate_agent|insurance|accountant)$' }],
+  ],
+};
+
 /**
  * Human-readable labels for categories (for logging and UI)
  */
@@ -58,12 +114,122 @@ export const CATEGORY_LABELS: Record<BusinessCategory, string> = {
 };
 
 /**
- * Geographic area to search for businesses
+ * A circle to search, named for the city it's around
  */
-export interface SearchArea {
+export interface SearchCircle {
   city: string;
   state: string;
   radiusMiles: number;
+
+  // Optional center; looked up from the city name when not set
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * A circle around a city (the default kind of search area)
+ */
+export interface CitySearchArea extends SearchCircle {
+  kind?: 'city';
+}
+
+/**
+ * A county, searched up to its boundary (from the Census TIGER files)
+ */
+export interface CountySearchArea {
+  kind: 'county';
+  county: string;             // With or without "County"/"Parish"
+  state: string;
+}
+
+/**
+ * A ZIP code, searched up to its ZIP Code Tabulation Area boundary
+ */
+export interface ZipSearchArea {
+  kind: 'zip';
+  zip: string;
+  state: string;
+}
+
+/**
+ * Any GeoJSON polygon, e.g. a sales territory drawn on a map
+ */
+export interface PolygonSearchArea {
+  kind: 'polygon';
+  name: string;
+  state: string;
+  boundary: GeoPolygon[];
+}
+
+/**
+ * Geographic area to search for businesses
+ */
+export type SearchArea = CitySearchArea | CountySearchArea | ZipSearchArea | PolygonSearchArea;
+
+// GeoJSON [longitude, latitude]
+export type GeoPosition = [number, number];
+
+// GeoJSON polygon coordinates: an outer ring, then any holes
+export type GeoPolygon = GeoPosition[][];
+
+/**
+ * An area as discovery sources search it: the circle enclosing the area,
+ * plus the boundary results are clipped to (county, ZIP and polygon areas)
+ */
+export interface ResolvedSearchArea extends SearchCircle {
+  kind: NonNullable<SearchArea['kind']>;
+  label: string;              // e.g. "Oxford, MS", "Marshall County, MS", "ZIP 38635"
+  county?: string;
+  boundary?: GeoPolygon[];    // Results outside are dropped
+}
+
+/**
+ * One circle of a tiled search. Each cell covers the square inscribed in
+ * its circle; neighbouring circles overlap so the squares tile the area.
+ */
+export interface SearchCell {
+  latitude: number;
+  longitude: number;
+  radiusMiles: number;
+  depth: number;              // 0 for the initial grid, +1 per subdivision
+}
+
+/**
+ * How to split large areas into cells (see tiling.ts)
+ */
+export interface TilingOptions {
+  // Radius of the initial grid's cells; smaller areas are searched whole
+  cellRadiusMiles: number;
+
+  // How many times a cell that hits the result cap may be split in four
+  maxDepth: number;
+}
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+  cellRadiusMiles: 3,
+  maxDepth: 3,
+};
+
+// Nearby Search stops paginating after 60 results
+export const PLACES_RESULT_CAP = 60;
+
+/**
+ * How thoroughly one search covered its area
+ */
+export interface SearchCoverage {
+  searches: number;           // Requests made (one per cell, including split ones)
+  cells: number;              // Cells whose results are final
+  saturatedCells: number;     // Final cells that still hit the result cap
+  duplicates: number;         // Results already seen in an overlapping cell
+  outsideArea: number;        // Results from cell overhang, beyond the area's radius
+}
+
+/**
+ * What a discovery source found for one area and category
+ */
+export interface DiscoveryResults {
+  places: PlacesBusinessResult[];
+  coverage: SearchCoverage;
 }
 
 /**
@@ -116,14 +282,77 @@ export interface PlacesBusinessResult {
     weekday_text?: string[];
   };
 
-  // Photos (first photo URL if available)
+  // Photos (first photo as a Place Photo URL, without the API key)
   photo_url?: string;
+
+  // Review snippets (details only; Google returns up to five)
+  reviews?: PlaceReview[];
+}
+
+/**
+ * A customer review as returned by Place Details
+ */
+export interface PlaceReview {
+  author_name: string;
+  rating: number;
+  text: string;
+  time: number;               // Unix seconds
+}
+
+/**
+ * Places fields stored on the businesses row (see toPlacesMetadata)
+ */
+export type PlacesMetadata = Pick<
+  BusinessUpdate,
+  'rating' | 'user_ratings_total' | 'latitude' | 'longitude' | 'opening_hours' | 'photo_url' | 'place_types' | 'place_status'
+>;
+
+/**
+ * Place reviews ready for db.replaceBusinessReviews (see toBusinessReviews)
+ */
+export type PlacesReviews = BusinessReviewInsert[];
+
+/**
+ * Where discovery finds businesses (stored as businesses.source)
+ */
+export type DiscoverySourceName = 'google_places' | 'osm';
+
+/**
+ * A provider of businesses for DiscoveryService. Results use the Places
+ * result shape with website and contact details already filled in;
+ * place_id holds the provider's own ID (e.g. "node/123" for OSM).
+ */
+export interface DiscoverySource {
+  readonly name: DiscoverySourceName;
+  readonly label: string;
+
+  // True when results are simulated
+  isInMockMode(): boolean;
+
+  // Businesses of a category in an area; maxResults is per request
+  findBusinesses(area: ResolvedSearchArea, category: BusinessCategory, maxResults: number): Promise<DiscoveryResults>;
+}
+
+/**
+ * An OpenStreetMap node or way, as returned by Overpass (`out tags center`)
+ * or read from a .osm.pbf extract
+ */
+export interface OsmElement {
+  type: 'node' | 'way';
+  id: number;
+  lat?: number;                 // Nodes
+  lon?: number;
+  center?: { lat: number; lon: number };   // Ways (centroid)
+  tags: Record<string, string>;
 }
 
 /**
  * Configuration for the discovery service
  */
 export interface DiscoveryConfig {
+  // Providers to search, in order (default: google_places)
+  sources?: DiscoverySourceName[];
+
   // Geographic areas to search
   areas: SearchArea[];
 
@@ -138,13 +367,21 @@ export interface DiscoveryConfig {
 
   // Optional: only include currently operating businesses
   onlyOperational?: boolean;
+
+  // Optional: split areas larger than one cell into a grid of searches, so
+  // dense areas aren't cut off at the 60-result cap (Google Places only)
+  tiling?: Partial<TilingOptions>;
+
+  // Optional: most this run may spend on Places requests, in USD (the monthly
+  // budget, PLACES_MONTHLY_BUDGET_USD, applies too)
+  budgetUsd?: number;
 }
 
 /**
  * Summary of a discovery run
  */
 export interface DiscoverySummary {
-  // Total places found from Google Places API
+  // Total places found across sources
   totalFound: number;
 
   // Places that don't have a website
@@ -169,6 +406,62 @@ export interface DiscoverySummary {
     withoutWebsite: number;
     saved: number;
   }>;
+
+  // Breakdown by source
+  bySource: Record<string, {
+    found: number;
+    withoutWebsite: number;
+    saved: number;
+  }>;
+
+  // Search coverage by area, across categories and sources
+  coverage: Record<string, AreaCoverage>;
+
+  // The stored run (see db.getDiscoveryRuns) and what changed since earlier runs
+  runId: string;
+  changes: Record<DiscoveryChangeType, number>;
+
+  // Places API requests made by this run and what they cost
+  spend: ApiCallTotals;
+
+  // Why the run stopped before searching everything (e.g. the budget ran out)
+  stoppedEarly: string | null;
+}
+
+/**
+ * Places API endpoints the client calls, each priced and cached separately
+ */
+export type PlacesEndpoint = 'geocode' | 'find_place' | 'nearby_search' | 'place_details';
+
+/**
+ * The fields of a place compared between discovery runs
+ */
+export interface PlaceFields {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  website: string | null;
+  business_status: string | null;
+}
+
+/**
+ * A difference between a place's stored snapshot and its latest details
+ */
+export interface PlaceChange {
+  type: DiscoveryChangeType;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * Search coverage for one area of a discovery run
+ */
+export interface AreaCoverage extends SearchCoverage {
+  // False if any search hit the result cap, so some businesses may be missing
+  complete: boolean;
+
+  // Searches that hit the cap, e.g. "Restaurants via Google Places"
+  saturated: string[];
 }
 
 /**
@@ -212,6 +505,13 @@ export interface GooglePlacesResult {
     width: number;
   }>;
   // These fields come from Place Details API, not Nearby Search
+  reviews?: Array<{
+    author_name: string;
+    rating: number;
+    text: string;
+    time: number;
+    relative_time_description?: string;
+  }>;
   website?: string;
   formatted_phone_number?: string;
   address_components?: Array<{
@@ -220,3 +520,4 @@ export interface GooglePlacesResult {
     types: string[];
   }>;
 }
+
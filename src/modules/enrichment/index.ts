@@ -1,46 +1,312 @@
 // Enrichment Module
-// Responsible for enriching business data using Google Places API
-// and checking if businesses already have websites
-
-// TODO: Implement Google Places API integration
-// - Search for business by name and address
-// - Check if business has a website
-// - Get additional business details (phone, hours, etc.)
-
-export interface EnrichedBusiness {
-  businessId: string;
-  placeId?: string;
-  hasWebsite: boolean;
-  websiteUrl?: string;
-  phoneNumber?: string;
-  formattedAddress?: string;
-  businessTypes?: string[];
-  rating?: number;
-  reviewCount?: number;
+// Enriches discovered businesses with Google Places details
+// and checks whether they already have a website
+
+import { db } from '../../database/index.js';
+import type { Business } from '../../database/types.js';
+import { logger, sleep } from '../../utils/index.js';
+import { LeadScoringService } from '../scoring/index.js';
+import { GooglePlacesClient, googlePlaces, toBusinessReviews, toPlacesMetadata } from '../discovery/google-places.js';
+import type { PlacesBusinessResult } from '../discovery/types.js';
+import { WebsiteVerifier, OfflineHttpProbe } from './website-verifier.js';
+import type { EnrichedBusiness, EnrichmentOptions, EnrichmentSummary } from './types.js';
+
+// Re-export types and verifier
+export * from './types.js';
+export { WebsiteVerifier, NetworkHttpProbe, OfflineHttpProbe } from './website-verifier.js';
+export {
+  DomainGuessResolver,
+  SocialProfileResolver,
+  BookingPlatformResolver,
+  ProfileResolver,
+  defaultResolvers,
+  guessDomains,
+  nameSlugs,
+} from './resolvers.js';
+
+/**
+ * EnrichmentService - Fills in business details from Google Places
+ *
+ * This service:
+ * 1. Resolves a Google Place ID for each business (stored, or via Find Place)
+ * 2. Fetches Place Details (phone, address, rating, types, website)
+ * 3. Saves the details and marks the business as enriched
+ * 4. Flags businesses that turn out to already have a website
+ * 5. Runs the website verifier to score how sure we are there's no website
+ *
+ * Works in the Places client's mock mode, so it can be run offline
+ * (the verifier skips network checks in mock mode).
+ *
+ * Usage:
+ * ```typescript
+ * const enrichment = new EnrichmentService();
+ * const businesses = db.getBusinessesByStatus('discovered', 50);
+ *
+ * const summary = await enrichment.enrichBatch(businesses);
+ * console.log(`${summary.withoutWebsite} businesses still need a website`);
+ * ```
+ */
+export class EnrichmentService {
+  private options: EnrichmentOptions;
+  private placesClient: GooglePlacesClient;
+  private verifier: WebsiteVerifier;
+  private scoring: LeadScoringService;
+
+  constructor(
+    options?: Partial<EnrichmentOptions>,
+    placesClient?: GooglePlacesClient,
+    verifier?: WebsiteVerifier
+  ) {
+    this.options = {
+      includeRatings: options?.includeRatings ?? true,
+      includeReviews: options?.includeReviews ?? false,
+      verifyWebsites: options?.verifyWebsites ?? true,
+    };
+    this.placesClient = placesClient ?? googlePlaces;
+    this.verifier = verifier ?? new WebsiteVerifier(
+      this.placesClient.isInMockMode() ? { probe: new OfflineHttpProbe() } : undefined
+    );
+    this.scoring = new LeadScoringService();
+  }
+
+  /**
+   * Enrich a single business and save the results to the database.
+   *
+   * @returns Enrichment data, or null if no matching place was found
+   */
+  async enrichBusiness(business: Business): Promise<EnrichedBusiness | null> {
+    const details = await this.lookupPlace(business);
+    if (!details) {
+      logger.warn(`  No Places match for "${business.name}"`);
+      return null;
+    }
+
+    const enriched = this.toEnrichedBusiness(business.id, details);
+
+    const updated = db.markBusinessEnriched(business.id, {
+      website_url: enriched.websiteUrl ?? business.website_url,
+      has_website: enriched.hasWebsite,
+      phone: enriched.phoneNumber ?? business.phone,
+      address: details.address_components?.street_address?.trim() || details.formatted_address || business.address,
+      city: details.address_components?.city || business.city,
+      state: details.address_components?.state || business.state,
+      county: details.address_components?.county || business.county,
+      rating: enriched.rating ?? business.rating,
+      user_ratings_total: enriched.reviewCount ?? business.user_ratings_total,
+      place_types: enriched.businessTypes?.length ? JSON.stringify(enriched.businessTypes) : business.place_types,
+    });
+
+    // Keep the place ID so later runs skip the Find Place lookup
+    if (!business.google_place_id && !db.businessExistsByGooglePlaceId(details.place_id)) {
+      db.updateBusiness(business.id, { google_place_id: details.place_id });
+    }
+
+    // Hours, location, photo and status for scoring and generation
+    const { latitude, longitude, opening_hours, photo_url, place_status } = toPlacesMetadata(details);
+    db.updateBusiness(business.id, { latitude, longitude, opening_hours, photo_url, place_status });
+    const reviews = toBusinessReviews(details);
+    if (reviews.length > 0) {
+      db.replaceBusinessReviews(business.id, 'google_places', reviews);
+    }
+
+    // Look for a web presence Google doesn't list
+    if (this.options.verifyWebsites && updated && !enriched.hasWebsite) {
+      const verification = await this.verifier.verifyAndRecord(updated);
+      enriched.verification = verification;
+
+      if (verification.verdict === 'has_website') {
+        enriched.hasWebsite = true;
+        enriched.websiteUrl = verification.websiteUrl;
+      }
+    }
+
+    // Rating, status and phone may have changed, so rank the lead again
+    const latest = db.getBusinessById(business.id);
+    if (latest) {
+      this.scoring.scoreAndSave(latest);
+    }
+
+    return enriched;
+  }
+
+  /**
+   * Enrich multiple businesses, one at a time.
+   */
+  async enrichBatch(businesses: Business[]): Promise<EnrichmentSummary> {
+    logger.info(`Starting enrichment for ${businesses.length} businesses...`);
+
+    if (this.placesClient.isInMockMode()) {
+      logger.warn('Running in MOCK MODE - details are simulated');
+    }
+
+    const summary: EnrichmentSummary = {
+      totalBusinesses: businesses.length,
+      enriched: 0,
+      withWebsite: 0,
+      withoutWebsite: 0,
+      lowConfidence: 0,
+      notFound: 0,
+      results: [],
+    };
+
+    for (let i = 0; i < businesses.length; i++) {
+      const business = businesses[i];
+      if (!business) continue;
+
+      logger.info(`Enriching (${i + 1}/${businesses.length}): ${business.name}`);
+
+      try {
+        const enriched = await this.enrichBusiness(business);
+
+        if (enriched) {
+          summary.enriched++;
+          summary.results.push(enriched);
+          if (enriched.hasWebsite) {
+            summary.withWebsite++;
+            logger.info(`  Has website: ${enriched.websiteUrl}`);
+          } else {
+            summary.withoutWebsite++;
+            if (enriched.verification?.verdict === 'uncertain') {
+              summary.lowConfidence++;
+              logger.info(`  Low confidence lead (${enriched.verification.confidence}) - held back from generation`);
+            }
+          }
+        } else {
+          summary.notFound++;
+        }
+      } catch (error) {
+        summary.notFound++;
+        logger.error(`  Error enriching ${business.name}:`, error);
+      }
+
+      // Small delay between businesses to be nice to the API
+      if (i < businesses.length - 1 && !this.placesClient.isInMockMode()) {
+        await sleep(100);
+      }
+    }
+
+    logger.info('\n' + '='.repeat(50));
+    logger.info('ENRICHMENT COMPLETE');
+    logger.info('='.repeat(50));
+    logger.info(`Businesses processed: ${summary.totalBusinesses}`);
+    logger.info(`Enriched: ${summary.enriched}`);
+    logger.info(`Already have a website: ${summary.withWebsite}`);
+    logger.info(`Without website: ${summary.withoutWebsite}`);
+    logger.info(`Low confidence (held back): ${summary.lowConfidence}`);
+    logger.info(`Not found: ${summary.notFound}`);
+
+    return summary;
+  }
+
+  /**
+   * Check whether Google lists a website for a business.
+   * Does not save anything to the database.
+   */
+  async hasExistingWebsite(business: Business): Promise<boolean> {
+    const details = await this.lookupPlace(business);
+    return this.placeHasWebsite(details);
+  }
+
+  /**
+   * Get businesses that are waiting to be enriched.
+   */
+  getBusinessesNeedingEnrichment(limit = 100): Business[] {
+    return db.getBusinessesByStatus('discovered', limit);
+  }
+
+  /**
+   * Resolve the place for a business and fetch its details.
+   * Uses the stored place ID when we have one, otherwise searches by name and address.
+   */
+  private async lookupPlace(business: Business): Promise<PlacesBusinessResult | null> {
+    let placeId = business.google_place_id
+      ?? (business.source === 'google_places' ? business.source_id : null);
+
+    if (!placeId) {
+      const location = [business.address, business.city, business.state].filter(Boolean).join(', ');
+      placeId = await this.placesClient.findPlaceId(business.name, location || undefined);
+    }
+
+    if (!placeId) {
+      return null;
+    }
+
+    return this.placesClient.getPlaceDetails(placeId);
+  }
+
+  /**
+   * Check if a Places result has a non-empty website.
+   */
+  private placeHasWebsite(place: PlacesBusinessResult | null): boolean {
+    return Boolean(place?.website && place.website.trim().length > 0);
+  }
+
+  /**
+   * Convert Place Details into our enrichment result.
+   */
+  private toEnrichedBusiness(businessId: string, place: PlacesBusinessResult): EnrichedBusiness {
+    const hasWebsite = this.placeHasWebsite(place);
+
+    return {
+      businessId,
+      placeId: place.place_id,
+      hasWebsite,
+      websiteUrl: hasWebsite ? place.website!.trim() : undefined,
+      phoneNumber: place.formatted_phone_number,
+      formattedAddress: place.formatted_address || undefined,
+      businessTypes: place.types,
+      rating: this.options.includeRatings ? place.rating : undefined,
+      reviewCount: this.options.includeRatings ? place.user_ratings_total : undefined,
+    };
+  }
+
+  /**
+   * Get the current options.
+   */
+  getOptions(): EnrichmentOptions {
+    return { ...this.options };
+  }
 }
 
-export interface EnrichmentOptions {
-  includeRatings: boolean;
-  includeReviews: boolean;
+/**
+ * Convenience function to enrich all businesses in "discovered" status.
+ */
+export async function enrichDiscovered(limit = 100): Promise<EnrichmentSummary> {
+  const service = new EnrichmentService();
+  const businesses = service.getBusinessesNeedingEnrichment(limit);
+
+  if (businesses.length === 0) {
+    logger.info('No businesses found needing enrichment');
+    return {
+      totalBusinesses: 0,
+      enriched: 0,
+      withWebsite: 0,
+      withoutWebsite: 0,
+      lowConfidence: 0,
+      notFound: 0,
+      results: [],
+    };
+  }
+
+  return service.enrichBatch(businesses);
 }
 
-// TODO: Implement enrichment functions
+const defaultService = new EnrichmentService();
+
+// Legacy export for backwards compatibility
 export const enrichment = {
+  EnrichmentService,
+  enrichDiscovered,
+
   // Enrich a single business with Google Places data
-  enrichBusiness: async (_businessName: string, _address?: string): Promise<EnrichedBusiness | null> => {
-    // TODO: Implement
-    return null;
-  },
+  enrichBusiness: (business: Business): Promise<EnrichedBusiness | null> =>
+    defaultService.enrichBusiness(business),
 
   // Batch enrich multiple businesses
-  enrichBatch: async (_businesses: Array<{ name: string; address?: string }>): Promise<EnrichedBusiness[]> => {
-    // TODO: Implement
-    return [];
-  },
+  enrichBatch: (businesses: Business[]): Promise<EnrichmentSummary> =>
+    defaultService.enrichBatch(businesses),
 
   // Check if a business already has a website
-  hasExistingWebsite: async (_businessName: string, _address?: string): Promise<boolean> => {
-    // TODO: Implement
-    return false;
-  },
+  hasExistingWebsite: (business: Business): Promise<boolean> =>
+    defaultService.hasExistingWebsite(business),
 };
@@ -0,0 +1,267 @@
+// Website Resolvers
+// Pluggable checks for web presence that Google Places doesn't list
+
+import type { Business } from '../../database/types.js';
+import type { HttpProbe, ProbeResponse, WebPresenceEvidence, WebsiteResolver } from './types.js';
+
+// Words that don't identify a specific business
+const GENERIC_WORDS = new Set([
+  'the', 'and', 'of', 'llc', 'inc', 'co', 'corp', 'ltd', 'company',
+]);
+
+// Legal suffixes dropped when building slugs
+const LEGAL_SUFFIXES = /\s*\b(llc|inc|incorporated|co|corp|corporation|ltd|pllc)$/;
+
+// Digit groups joined by the separators phone numbers are written with
+const PHONE_LIKE = /\d+(?:[\s().+-]{1,3}\d+)*/g;
+
+// Phrases that identify a parked or for-sale domain rather than a real site
+const PARKED_PATTERNS = /domain (is )?for sale|buy this domain|this domain may be for sale|parked free|domain parking|future home of/i;
+
+/**
+ * Split a business name into lowercase word tokens.
+ * "Joe's Barber Shop, LLC" -> ["joes", "barber", "shop"]
+ */
+export function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(LEGAL_SUFFIXES, '')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Build URL-safe slugs for a business name, most likely first.
+ * "The Joe's Diner" -> ["thejoesdiner", "joesdiner", "the-joes-diner", "joes-diner"]
+ */
+export function nameSlugs(name: string): string[] {
+  const tokens = nameTokens(name).filter((t) => t !== 'and');
+  const withoutArticle = tokens[0] === 'the' ? tokens.slice(1) : tokens;
+
+  const slugs = [
+    tokens.join(''),
+    withoutArticle.join(''),
+    tokens.join('-'),
+    withoutArticle.join('-'),
+  ];
+
+  return [...new Set(slugs.filter((s) => s.length >= 3))];
+}
+
+/**
+ * Guess candidate domains for a business from its name, city and state.
+ */
+export function guessDomains(business: Business, maxCandidates = 8): string[] {
+  const slugs = nameSlugs(business.name);
+  const [primary, secondary] = slugs;
+  const city = business.city ? nameTokens(business.city).join('') : '';
+  const state = business.state?.toLowerCase().replace(/[^a-z]/g, '') ?? '';
+
+  const candidates: string[] = [];
+  for (const slug of [primary, secondary]) {
+    if (!slug) continue;
+    candidates.push(`${slug}.com`, `${slug}.net`);
+  }
+  if (primary && city) candidates.push(`${primary}${city}.com`);
+  if (primary && state) candidates.push(`${primary}${state}.com`);
+  for (const slug of slugs.slice(2)) {
+    candidates.push(`${slug}.com`);
+  }
+
+  return [...new Set(candidates)].slice(0, maxCandidates);
+}
+
+/**
+ * Check whether a fetched page is about this business.
+ * Requires every distinctive name token, or the business phone number, to appear.
+ */
+export function pageMentionsBusiness(page: ProbeResponse, business: Business): boolean {
+  const body = page.body.toLowerCase().replace(/['’]/g, '');
+
+  const distinctive = nameTokens(business.name).filter((t) => !GENERIC_WORDS.has(t));
+  if (distinctive.length > 0 && distinctive.every((t) => body.includes(t))) {
+    return true;
+  }
+
+  const phoneDigits = business.phone?.replace(/\D/g, '').slice(-10);
+  if (phoneDigits && phoneDigits.length === 10) {
+    return pageShowsPhone(body, phoneDigits);
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a page shows a ten-digit phone number: some run of digit
+ * groups next to each other ("(662) 555-0140", "662.555.0140",
+ * "+1 662 555 0140") must spell exactly those digits. Digits scattered
+ * across the page don't count.
+ */
+function pageShowsPhone(body: string, phoneDigits: string): boolean {
+  for (const run of body.match(PHONE_LIKE) ?? []) {
+    const groups = run.split(/\D+/);
+    for (let start = 0; start < groups.length; start++) {
+      let digits = '';
+      for (let end = start; end < groups.length && digits.length < 11; end++) {
+        digits += groups[end];
+        if (digits === phoneDigits || digits === `1${phoneDigits}`) return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Check whether a fetched page looks like a parked or for-sale domain.
+ */
+export function isParkedPage(page: ProbeResponse): boolean {
+  return PARKED_PATTERNS.test(page.body);
+}
+
+/**
+ * Treat any 2xx response as a live page.
+ */
+function isLive(page: ProbeResponse | null): page is ProbeResponse {
+  return page !== null && page.status >= 200 && page.status < 300;
+}
+
+// ==================== RESOLVERS ====================
+
+/**
+ * Guesses domains from the business name (joesdiner.com, joesdinerms.com...)
+ * and checks whether any of them serve a page about the business.
+ */
+export class DomainGuessResolver implements WebsiteResolver {
+  readonly name = 'domain-guess';
+
+  constructor(private maxCandidates = 8) {}
+
+  async resolve(business: Business, probe: HttpProbe): Promise<WebPresenceEvidence[]> {
+    const evidence: WebPresenceEvidence[] = [];
+
+    for (const domain of guessDomains(business, this.maxCandidates)) {
+      if (!(await probe.resolves(domain))) continue;
+
+      const page = await probe.fetchPage(`https://${domain}`) ?? await probe.fetchPage(`http://${domain}`);
+      if (!isLive(page) || isParkedPage(page)) continue;
+
+      if (pageMentionsBusiness(page, business)) {
+        evidence.push({
+          resolver: this.name,
+          kind: 'domain',
+          url: page.finalUrl,
+          weight: 0.9,
+          detail: `${domain} is live and mentions the business`,
+        });
+      } else {
+        evidence.push({
+          resolver: this.name,
+          kind: 'domain',
+          url: page.finalUrl,
+          weight: 0.2,
+          detail: `${domain} is live but does not mention the business`,
+        });
+      }
+    }
+
+    return evidence;
+  }
+}
+
+/**
+ * Profile URL patterns checked by the profile resolvers.
+ * `{slug}` is replaced with each candidate slug for the business name.
+ */
+export interface ProfilePattern {
+  platform: string;
+  url: string;
+  weight: number;
+}
+
+/**
+ * Checks profile pages on a set of platforms for each name slug.
+ * Base for the social and booking-platform resolvers.
+ */
+export class ProfileResolver implements WebsiteResolver {
+  constructor(
+    readonly name: string,
+    private kind: 'social' | 'booking',
+    private patterns: ProfilePattern[]
+  ) {}
+
+  async resolve(business: Business, probe: HttpProbe): Promise<WebPresenceEvidence[]> {
+    const evidence: WebPresenceEvidence[] = [];
+    const slugs = nameSlugs(business.name).slice(0, 2);
+
+    for (const pattern of this.patterns) {
+      for (const slug of slugs) {
+        const url = pattern.url.replace(/\{slug\}/g, slug);
+        const host = new URL(url).hostname;
+        if (!(await probe.resolves(host))) continue;
+
+        const page = await probe.fetchPage(url);
+        if (!isLive(page) || !pageMentionsBusiness(page, business)) continue;
+
+        evidence.push({
+          resolver: this.name,
+          kind: this.kind,
+          url: page.finalUrl,
+          weight: pattern.weight,
+          detail: `${pattern.platform} profile mentions the business`,
+        });
+        break; // One match per platform is enough
+      }
+    }
+
+    return evidence;
+  }
+}
+
+/**
+ * Social profiles. A Facebook or Instagram page is a weaker signal than a
+ * real site — plenty of owners with only a Facebook page still want a website.
+ */
+export class SocialProfileResolver extends ProfileResolver {
+  constructor(patterns: ProfilePattern[] = SocialProfileResolver.DEFAULT_PATTERNS) {
+    super('social-profile', 'social', patterns);
+  }
+
+  static readonly DEFAULT_PATTERNS: ProfilePattern[] = [
+    { platform: 'Facebook', url: 'https://www.facebook.com/{slug}', weight: 0.5 },
+    { platform: 'Instagram', url: 'https://www.instagram.com/{slug}/', weight: 0.35 },
+  ];
+}
+
+/**
+ * Site builders and booking platforms. These are websites in all but name,
+ * so a match is a strong signal the business doesn't need one from us.
+ */
+export class BookingPlatformResolver extends ProfileResolver {
+  constructor(patterns: ProfilePattern[] = BookingPlatformResolver.DEFAULT_PATTERNS) {
+    super('booking-platform', 'booking', patterns);
+  }
+
+  static readonly DEFAULT_PATTERNS: ProfilePattern[] = [
+    { platform: 'Square Online', url: 'https://{slug}.square.site', weight: 0.9 },
+    { platform: 'Wix', url: 'https://{slug}.wixsite.com/{slug}', weight: 0.85 },
+    { platform: 'GoDaddy Sites', url: 'https://{slug}.godaddysites.com', weight: 0.85 },
+    { platform: 'Weebly', url: 'https://{slug}.weebly.com', weight: 0.85 },
+    { platform: 'GlossGenius', url: 'https://{slug}.glossgenius.com', weight: 0.8 },
+    { platform: 'Setmore', url: 'https://{slug}.setmore.com', weight: 0.7 },
+  ];
+}
+
+/**
+ * Default resolver set used by the website verifier.
+ */
+export function defaultResolvers(): WebsiteResolver[] {
+  return [
+    new DomainGuessResolver(),
+    new SocialProfileResolver(),
+    new BookingPlatformResolver(),
+  ];
+}
@@ -0,0 +1,132 @@
+// Enrichment Module Types
+// Types and interfaces for enriching discovered businesses with Google Places data
+
+import type { Business, WebsiteVerdict } from '../../database/types.js';
+
+/**
+ * Enrichment data gathered for a single business
+ */
+export interface EnrichedBusiness {
+  businessId: string;
+  placeId?: string;
+  hasWebsite: boolean;
+  websiteUrl?: string;
+  phoneNumber?: string;
+  formattedAddress?: string;
+  businessTypes?: string[];
+  rating?: number;
+  reviewCount?: number;
+
+  // Result of checking for a web presence Google doesn't list
+  verification?: WebsiteVerificationResult;
+}
+
+/**
+ * Options for the enrichment service
+ */
+export interface EnrichmentOptions {
+  includeRatings: boolean;
+  includeReviews: boolean;
+
+  // Run the website verifier after Place Details (default: true)
+  verifyWebsites?: boolean;
+}
+
+/**
+ * Summary of a batch enrichment run
+ */
+export interface EnrichmentSummary {
+  // Businesses we attempted to enrich
+  totalBusinesses: number;
+
+  // Businesses successfully looked up and saved
+  enriched: number;
+
+  // Of those, businesses that already have a website
+  withWebsite: number;
+
+  // Of those, businesses still without a website (our targets)
+  withoutWebsite: number;
+
+  // Of those without a website, leads the verifier scored below the threshold
+  lowConfidence: number;
+
+  // Businesses with no matching place or a failed lookup
+  notFound: number;
+
+  // Per-business results
+  results: EnrichedBusiness[];
+}
+
+// ==================== WEBSITE VERIFICATION ====================
+
+/**
+ * Where a piece of web presence evidence came from
+ */
+export type EvidenceKind = 'places' | 'domain' | 'social' | 'booking';
+
+/**
+ * A single sign that a business already has a web presence.
+ */
+export interface WebPresenceEvidence {
+  // Resolver that produced this evidence
+  resolver: string;
+
+  kind: EvidenceKind;
+
+  // URL that was found
+  url: string;
+
+  // How strongly this indicates the business already has a website (0-1)
+  weight: number;
+
+  // Human-readable explanation
+  detail: string;
+}
+
+/**
+ * Outcome of verifying a single business
+ */
+export interface WebsiteVerificationResult {
+  businessId: string;
+
+  // Confidence (0-1) that the business has NO website — 1 means a solid lead
+  confidence: number;
+
+  verdict: WebsiteVerdict;
+
+  // All evidence found, strongest first
+  evidence: WebPresenceEvidence[];
+
+  // Best URL to record as the business's website, if the verdict is has_website
+  websiteUrl?: string;
+}
+
+/**
+ * Response from probing a URL
+ */
+export interface ProbeResponse {
+  status: number;
+  finalUrl: string;
+  body: string;
+}
+
+/**
+ * Network access used by resolvers. Swappable so verification can run offline.
+ */
+export interface HttpProbe {
+  // Check whether a hostname resolves in DNS
+  resolves(hostname: string): Promise<boolean>;
+
+  // Fetch a page, following redirects. Returns null on network failure.
+  fetchPage(url: string): Promise<ProbeResponse | null>;
+}
+
+/**
+ * A pluggable check for one kind of web presence (guessed domains,
+ * social profiles, booking platforms...).
+ */
+export interface WebsiteResolver {
+  readonly name: string;
+  resolve(business: Business, probe: HttpProbe): Promise<WebPresenceEvidence[]>;
+}
@@ -0,0 +1,218 @@
+// Website Verifier
+// Checks for web presence beyond Google's `website` field and scores each lead
+
+import axios, { AxiosInstance } from 'axios';
+import { promises as dns } from 'dns';
+import { config } from '../../config/index.js';
+import { db } from '../../database/index.js';
+import type { Business } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import { defaultResolvers } from './resolvers.js';
+import type {
+  HttpProbe,
+  ProbeResponse,
+  WebPresenceEvidence,
+  WebsiteResolver,
+  WebsiteVerificationResult,
+} from './types.js';
+
+// Evidence at or above this weight from a site-like source means the business has a website
+const HAS_WEBSITE_WEIGHT = 0.85;
+
+/**
+ * HttpProbe backed by real DNS lookups and HTTP requests.
+ */
+export class NetworkHttpProbe implements HttpProbe {
+  private client: AxiosInstance;
+
+  // Don't download more than this per page
+  private static readonly MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+  constructor(timeoutMs = 8000) {
+    this.client = axios.create({
+      timeout: timeoutMs,
+      maxRedirects: 5,
+      maxContentLength: NetworkHttpProbe.MAX_BODY_BYTES,
+      responseType: 'text',
+      validateStatus: () => true,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LocalBizAgent/1.0)',
+        Accept: 'text/html,application/xhtml+xml',
+      },
+    });
+  }
+
+  async resolves(hostname: string): Promise<boolean> {
+    try {
+      await dns.lookup(hostname);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchPage(url: string): Promise<ProbeResponse | null> {
+    try {
+      const response = await this.client.get<string>(url);
+      const finalUrl = (response.request as { res?: { responseUrl?: string } } | undefined)?.res?.responseUrl ?? url;
+
+      return {
+        status: response.status,
+        finalUrl,
+        body: typeof response.data === 'string' ? response.data : '',
+      };
+    } catch (error) {
+      logger.debug(`Probe failed for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+}
+
+/**
+ * HttpProbe that never finds anything. Used in mock mode so enrichment runs offline.
+ */
+export class OfflineHttpProbe implements HttpProbe {
+  resolves(_hostname: string): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+
+  fetchPage(_url: string): Promise<ProbeResponse | null> {
+    return Promise.resolve(null);
+  }
+}
+
+/**
+ * WebsiteVerifier - Decides how sure we are that a business has no website
+ *
+ * Google's `website` field is often empty for businesses that do have a web
+ * presence. The verifier runs a set of pluggable resolvers (guessed domains,
+ * social profiles, booking platforms), combines their evidence into a
+ * confidence score, and records the result against the business.
+ *
+ * Confidence is the probability the business has NO website:
+ *   confidence = Π (1 - weight) over all evidence
+ * so one strong signal (a live matching domain) drops it close to zero, while
+ * a Facebook page alone only halves it.
+ *
+ * Only leads with a recorded verification at or above MIN_LEAD_CONFIDENCE
+ * reach website generation, which verifies unchecked leads first (verifyPending).
+ *
+ * Usage:
+ * ```typescript
+ * const verifier = new WebsiteVerifier();
+ * const result = await verifier.verifyAndRecord(business);
+ * console.log(`${business.name}: ${result.verdict} (${result.confidence})`);
+ * ```
+ */
+export class WebsiteVerifier {
+  private resolvers: WebsiteResolver[];
+  private probe: HttpProbe;
+  private minConfidence: number;
+
+  constructor(options?: {
+    resolvers?: WebsiteResolver[];
+    probe?: HttpProbe;
+    minConfidence?: number;
+  }) {
+    this.resolvers = options?.resolvers ?? defaultResolvers();
+    this.probe = options?.probe ?? new NetworkHttpProbe();
+    this.minConfidence = options?.minConfidence ?? config.getAll().minLeadConfidence ?? 0.6;
+  }
+
+  /**
+   * Add a resolver to the verifier.
+   */
+  addResolver(resolver: WebsiteResolver): void {
+    this.resolvers.push(resolver);
+  }
+
+  /**
+   * Verify a business without saving anything.
+   */
+  async verify(business: Business): Promise<WebsiteVerificationResult> {
+    const evidence: WebPresenceEvidence[] = [];
+
+    if (business.website_url && business.website_url.trim().length > 0) {
+      evidence.push({
+        resolver: 'places',
+        kind: 'places',
+        url: business.website_url.trim(),
+        weight: 1,
+        detail: 'Website listed in Google Places',
+      });
+    }
+
+    for (const resolver of this.resolvers) {
+      try {
+        const found = await resolver.resolve(business, this.probe);
+        evidence.push(...found);
+      } catch (error) {
+        logger.warn(`  Resolver ${resolver.name} failed for "${business.name}":`, error);
+      }
+    }
+
+    evidence.sort((a, b) => b.weight - a.weight);
+
+    const confidence = evidence.reduce((acc, e) => acc * (1 - Math.min(Math.max(e.weight, 0), 1)), 1);
+    const siteEvidence = evidence.find((e) => e.kind !== 'social' && e.weight >= HAS_WEBSITE_WEIGHT);
+
+    let verdict: WebsiteVerificationResult['verdict'];
+    if (siteEvidence) {
+      verdict = 'has_website';
+    } else if (confidence < this.minConfidence) {
+      verdict = 'uncertain';
+    } else {
+      verdict = 'no_website';
+    }
+
+    return {
+      businessId: business.id,
+      confidence: Math.round(confidence * 1000) / 1000,
+      verdict,
+      evidence,
+      websiteUrl: siteEvidence?.url,
+    };
+  }
+
+  /**
+   * Verify a business and record the result in the database.
+   * Businesses found to have a website are flagged so generation skips them.
+   */
+  async verifyAndRecord(business: Business): Promise<WebsiteVerificationResult> {
+    const result = await this.verify(business);
+
+    db.insertWebsiteVerification({
+      business_id: business.id,
+      confidence: result.confidence,
+      verdict: result.verdict,
+      evidence: JSON.stringify(result.evidence),
+    });
+
+    if (result.verdict === 'has_website' && result.websiteUrl && !business.has_website) {
+      db.updateBusiness(business.id, {
+        website_url: result.websiteUrl,
+        has_website: 1,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify and record leads that have never been checked, best lead first.
+   */
+  async verifyPending(limit = 100): Promise<WebsiteVerificationResult[]> {
+    const results: WebsiteVerificationResult[] = [];
+    for (const business of db.getBusinessesAwaitingVerification(limit)) {
+      results.push(await this.verifyAndRecord(business));
+    }
+    return results;
+  }
+
+  /**
+   * Minimum confidence for a lead to reach generation.
+   */
+  getMinConfidence(): number {
+    return this.minConfidence;
+  }
+}
@@ -0,0 +1,281 @@
+// Website Audit
+// Offline structural and accessibility checks on generated HTML: broken tags,
+// duplicate IDs, alt text, heading order, form labels, contrast, lang/viewport
+
+import { allElements, HtmlElement, parseHtml } from './html-parser.js';
+import type { AuditFinding, IndustryPromptData, WebsiteAuditResult } from './types.js';
+
+type ColorPalette = IndustryPromptData['colorPalette'];
+type Rgb = [number, number, number];
+
+// WCAG AA minimum contrast for body text, and for large text (24px+, or bold 18.7px+)
+export const MIN_CONTRAST = 4.5;
+export const MIN_CONTRAST_LARGE = 3;
+
+// Inputs that don't need a label
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+
+// Elements whose text isn't shown as page text
+const NON_VISUAL = new Set(['script', 'style', 'title', 'template', 'noscript', 'svg', 'head']);
+
+// ==================== COLORS ====================
+
+// Tailwind's default grays, which generated pages use for most body text
+const SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+const TAILWIND_GRAYS: Record<string, string[]> = {
+  slate: ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617'],
+  gray: ['#f9fafb', '#f3f4f6', '#e5e7eb', '#d1d5db', '#9ca3af', '#6b7280', '#4b5563', '#374151', '#1f2937', '#111827', '#030712'],
+  zinc: ['#fafafa', '#f4f4f5', '#e4e4e7', '#d4d4d8', '#a1a1aa', '#71717a', '#52525b', '#3f3f46', '#27272a', '#18181b', '#09090b'],
+  neutral: ['#fafafa', '#f5f5f5', '#e5e5e5', '#d4d4d4', '#a3a3a3', '#737373', '#525252', '#404040', '#262626', '#171717', '#0a0a0a'],
+  stone: ['#fafaf9', '#f5f5f4', '#e7e5e4', '#d6d3d1', '#a8a29e', '#78716c', '#57534e', '#44403c', '#292524', '#1c1917', '#0c0a09'],
+};
+
+// text-* and bg-* utilities that aren't colors
+const TEXT_UTILITIES = /^(?:xs|sm|base|lg|[2-9]?xl|left|center|right|justify|start|end|wrap|nowrap|balance|pretty|ellipsis|clip)$/;
+const BG_UTILITIES = /^(?:auto|cover|contain|center|top|bottom|left|right|fixed|local|scroll|repeat|no-repeat|repeat-x|repeat-y|none|(?:clip|origin|blend|opacity|left|right)-.+)$/;
+
+function parseHex(hex: string): Rgb | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1]!.length === 3 ? match[1]!.replace(/./g, '$&$&') : match[1]!;
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+}
+
+function toHex(rgb: Rgb): string {
+  return `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function relativeLuminance([r, g, b]: Rgb): number {
+  const linear = (channel: number): number => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+/**
+ * WCAG contrast ratio between two hex colors, from 1 to 21
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const a = parseHex(foreground);
+  const b = parseHex(background);
+  if (!a || !b) return 21;
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light! + 0.05) / (dark! + 0.05);
+}
+
+// A color at `alpha` over a background
+function blend(color: string, alpha: number, background: string): string {
+  const top = parseHex(color)!;
+  const under = parseHex(background)!;
+  return toHex(top.map((channel, i) => channel * alpha + under[i]! * (1 - alpha)) as Rgb);
+}
+
+/**
+ * Named colors the page's classes can use: the palette (as primary,
+ * text-muted...), then whatever its inline tailwind.config defines.
+ */
+function colorNames(root: HtmlElement, palette?: ColorPalette): Map<string, string> {
+  const names = new Map<string, string>([['white', '#ffffff'], ['black', '#000000']]);
+  for (const [family, hexes] of Object.entries(TAILWIND_GRAYS)) {
+    hexes.forEach((hex, i) => names.set(`${family}-${SHADES[i]}`, hex));
+  }
+  for (const [key, value] of Object.entries(palette ?? {})) {
+    names.set(key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`), value);
+  }
+
+  const config = allElements(root).find((node) => node.tag === 'script' && node.text.includes('tailwind.config'));
+  const colors = config ? /colors\s*:\s*\{((?:[^{}]|\{[^{}]*\})*)\}/.exec(config.text)?.[1] : undefined;
+  if (colors) {
+    const entry = /['"]?([\w-]+)['"]?\s*:\s*(?:['"](#[0-9a-fA-F]{3,6})['"]|\{([^{}]*)\})/g;
+    for (const [, name, hex, nested] of colors.matchAll(entry)) {
+      if (hex) {
+        names.set(name!, hex);
+      }
+      for (const [, shade, shadeHex] of (nested ?? '').matchAll(/['"]?([\w-]+)['"]?\s*:\s*['"](#[0-9a-fA-F]{3,6})['"]/g)) {
+        names.set(shade === 'DEFAULT' ? name! : `${name}-${shade}`, shadeHex!);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * The color a text-* or bg-* class value sets, over the current background:
+ * null for a color that can't be resolved (e.g. text-transparent, or a
+ * Tailwind color outside the grays), so no contrast is claimed for it.
+ */
+function classColor(value: string, names: Map<string, string>, background: string | null): string | null {
+  const [name, opacity] = value.split('/');
+  const hex = /^\[(#[0-9a-fA-F]{3,6})\]$/.exec(name!)?.[1] ?? names.get(name!);
+  if (!hex || !parseHex(hex)) return null;
+  if (!opacity) return hex;
+  return background ? blend(hex, Math.min(100, parseInt(opacity, 10)) / 100, background) : null;
+}
+
+// ==================== CHECKS ====================
+
+function checkContrast(root: HtmlElement, palette?: ColorPalette): AuditFinding[] {
+  const names = colorNames(root, palette);
+  const failures = new Map<string, { foreground: string; background: string; ratio: number; required: number; count: number; line: number }>();
+
+  // A color is null when it can't be worked out (under a gradient or image,
+  // or from a class it doesn't know), and nothing is checked against it
+  const visit = (node: HtmlElement, foreground: string | null, background: string | null): void => {
+    if (NON_VISUAL.has(node.tag)) return;
+
+    let large = /^h[12]$/.test(node.tag);
+    const classes = (node.attributes['class'] ?? '').split(/\s+/).filter((name) => name && !name.includes(':'));
+    if (classes.includes('sr-only')) return;
+
+    for (const name of classes) {
+      if (name.startsWith('bg-gradient') || name.startsWith('bg-[url')) {
+        background = null;
+      } else if (name.startsWith('bg-') && !BG_UTILITIES.test(name.slice(3))) {
+        background = classColor(name.slice(3), names, background);
+      } else if (name.startsWith('text-')) {
+        const value = name.slice(5);
+        if (/^[2-9]xl$/.test(value)) large = true;
+        else if (/^(?:xs|sm|base|lg|xl)$/.test(value)) large = false;
+        if (!TEXT_UTILITIES.test(value)) foreground = classColor(value, names, background);
+      }
+    }
+
+    if (foreground && background && node.text) {
+      const ratio = contrastRatio(foreground, background);
+      const required = large ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+      if (ratio < required) {
+        const key = `${foreground}|${background}|${required}`;
+        const failure = failures.get(key);
+        if (failure) failure.count++;
+        else failures.set(key, { foreground, background, ratio, required, count: 1, line: node.line });
+      }
+    }
+
+    for (const child of node.children) visit(child, foreground, background);
+  };
+
+  visit(root, palette?.text ?? '#000000', palette?.background ?? '#ffffff');
+
+  return [...failures.values()].map((failure) => ({
+    check: 'color_contrast',
+    severity: 'error',
+    message: `Text ${failure.foreground} on ${failure.background} has contrast ${failure.ratio.toFixed(2)}:1, below ${failure.required}:1 (${failure.count} element(s))`,
+    line: failure.line,
+  }));
+}
+
+function checkHeadings(elements: HtmlElement[]): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const headings = elements.filter((node) => /^h[1-6]$/.test(node.tag));
+  const h1s = headings.filter((node) => node.tag === 'h1');
+
+  if (h1s.length === 0) {
+    findings.push({ check: 'heading_order', severity: 'warning', message: 'No <h1> heading' });
+  } else if (h1s.length > 1) {
+    findings.push({ check: 'heading_order', severity: 'warning', message: `${h1s.length} <h1> headings — use one per page`, line: h1s[1]!.line });
+  }
+
+  let previous = 0;
+  for (const heading of headings) {
+    const level = Number(heading.tag[1]);
+    if (previous > 0 && level > previous + 1) {
+      findings.push({
+        check: 'heading_order',
+        severity: 'warning',
+        message: `<${heading.tag}> follows <h${previous}>, skipping a level`,
+        line: heading.line,
+      });
+    }
+    previous = level;
+  }
+  return findings;
+}
+
+function checkFormLabels(elements: HtmlElement[]): AuditFinding[] {
+  const labelled = new Set(elements.filter((node) => node.tag === 'label').map((node) => node.attributes['for']).filter(Boolean));
+
+  const insideLabel = (node: HtmlElement): boolean => {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (parent.tag === 'label') return true;
+    }
+    return false;
+  };
+
+  return elements
+    .filter((node) => ['input', 'select', 'textarea'].includes(node.tag))
+    .filter((node) => !UNLABELLED_INPUT_TYPES.has((node.attributes['type'] ?? 'text').toLowerCase()))
+    .filter((node) => {
+      const { id, title } = node.attributes;
+      const ariaLabel = node.attributes['aria-label'];
+      return !(id && labelled.has(id)) && !insideLabel(node) && !ariaLabel?.trim() && !node.attributes['aria-labelledby'] && !title?.trim();
+    })
+    .map((node) => ({
+      check: 'form_label',
+      severity: 'error',
+      message: `<${node.tag}${node.attributes['name'] ? ` name="${node.attributes['name']}"` : ''}> has no label`,
+      line: node.line,
+    }));
+}
+
+/**
+ * Audit generated HTML. Pass the template palette the site was built from to
+ * check its text colors; the page's own tailwind.config colors are used too.
+ */
+export function auditWebsite(html: string, options: { palette?: ColorPalette } = {}): WebsiteAuditResult {
+  const { root, problems } = parseHtml(html);
+  const elements = allElements(root);
+  const findings: AuditFinding[] = [];
+
+  for (const problem of problems) {
+    findings.push(problem.kind === 'unclosed'
+      ? {
+          check: 'unclosed_tag',
+          severity: 'error',
+          message: problem.closedBy ? `<${problem.tag}> is not closed before </${problem.closedBy}>` : `<${problem.tag}> is never closed`,
+          line: problem.line,
+        }
+      : { check: 'stray_end_tag', severity: 'error', message: `</${problem.tag}> has no matching open tag`, line: problem.line });
+  }
+
+  const ids = new Map<string, HtmlElement[]>();
+  for (const node of elements) {
+    const id = node.attributes['id'];
+    if (id) ids.set(id, [...(ids.get(id) ?? []), node]);
+  }
+  for (const [id, nodes] of ids) {
+    if (nodes.length > 1) {
+      findings.push({ check: 'duplicate_id', severity: 'error', message: `id="${id}" is used ${nodes.length} times`, line: nodes[1]!.line });
+    }
+  }
+
+  for (const image of elements.filter((node) => node.tag === 'img')) {
+    if (!('alt' in image.attributes) && image.attributes['aria-hidden'] !== 'true' && image.attributes['role'] !== 'presentation') {
+      const src = image.attributes['src'] ?? '';
+      findings.push({
+        check: 'missing_alt',
+        severity: 'error',
+        message: `<img> has no alt text${src ? ` (${src.length > 60 ? `${src.slice(0, 57)}...` : src})` : ''}`,
+        line: image.line,
+      });
+    }
+  }
+
+  findings.push(...checkHeadings(elements), ...checkFormLabels(elements), ...checkContrast(root, options.palette));
+
+  const htmlElement = elements.find((node) => node.tag === 'html');
+  if (!htmlElement?.attributes['lang']?.trim()) {
+    findings.push({ check: 'missing_lang', severity: 'error', message: '<html> has no lang attribute', line: htmlElement?.line });
+  }
+  if (!elements.some((node) => node.tag === 'meta' && node.attributes['name']?.toLowerCase() === 'viewport')) {
+    findings.push({ check: 'missing_viewport', severity: 'error', message: 'No <meta name="viewport"> — the page won\'t scale on phones' });
+  }
+
+  findings.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return {
+    errors: findings.filter((finding) => finding.severity === 'error').length,
+    warnings: findings.filter((finding) => finding.severity === 'warning').length,
+    findings,
+  };
+}
+
@@ -4,10 +4,19 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/index.js';
-import { WebsiteTemplate, BusinessInfo, TEMPLATE_LABELS } from './types.js';
-import { buildWebsitePrompt } from './templates/base-prompt.js';
-import { getIndustryData } from './templates/industry/index.js';
-import { checkWebsiteQuality } from './templates/restaurant-premium.js';
+import { httpCassettes } from '../../utils/cassettes.js';
+import { WebsiteTemplate, BusinessInfo, TEMPLATE_LABELS, GenerationFeedback, WebsiteDraft } from './types.js';
+import {
+  appendContinuation,
+  buildContinuationPrompt,
+  buildRepairPrompt,
+  buildWebsitePrompt,
+} from './templates/base-prompt.js';
+import { describeRating, getHoursLines, getQuotableReviews, splitHoursLine } from './templates/business-facts.js';
+import { placeholderAttr } from './placeholders.js';
+import { escapeHtml } from '../outreach/templates.js';
+import { detectIndustryCategory, getIndustryData } from './templates/industry/index.js';
+import { checkWebsiteQuality } from './templates/quality/index.js';
 
 /**
  * ClaudeClient - Wrapper for the Anthropic Claude API
@@ -20,6 +29,8 @@ import { checkWebsiteQuality } from './templates/restaurant-premium.js';
  * MOCK MODE:
  * When ANTHROPIC_API_KEY is not set, the client operates in mock mode.
  * This returns premium Tailwind-based HTML websites for testing without API costs.
+ * With HTTP_CASSETTES=replay it answers from recorded responses instead
+ * (cassette "claude").
  */
 export class ClaudeClient {
   private client: Anthropic | null = null;
@@ -33,7 +44,7 @@ export class ClaudeClient {
   private static readonly MAX_TOKENS = 20000;
 
   constructor() {
-    this.apiKey = config.get('ANTHROPIC_API_KEY') ?? null;
+    this.apiKey = httpCassettes.credential(config.get('ANTHROPIC_API_KEY'));
     this.isMockMode = !this.apiKey;
 
     if (this.isMockMode) {
@@ -42,6 +53,7 @@ export class ClaudeClient {
     } else {
       this.client = new Anthropic({
         apiKey: this.apiKey,
+        fetch: httpCassettes.fetch('claude'),
       });
     }
   }
@@ -55,6 +67,8 @@ export class ClaudeClient {
 
   /**
    * Generate a website for a business using Claude.
+   * Output that was cut off is closed off; quality issues are only logged
+   * (GeneratorService retries on them).
    *
    * @param business - Business information
    * @param template - Visual style template to use
@@ -62,24 +76,71 @@ export class ClaudeClient {
    */
   async generateWebsite(business: BusinessInfo, template: WebsiteTemplate): Promise<string> {
     const templateLabel = TEMPLATE_LABELS[template];
-    logger.info(`Generating ${templateLabel} website for "${business.name}"...`);
+    const draft = await this.generateDraft(business, template);
+    const html = this.closeHtml(draft.html);
+    logger.info(`Successfully generated ${templateLabel} website (${html.length} chars)`);
+
+    // Run the industry's quality checks and log results
+    const quality = checkWebsiteQuality(html, detectIndustryCategory(business.businessType || business.category));
+    if (!quality.passed) {
+      logger.warn(`Quality check FAILED for "${business.name}" (score ${quality.score}, ${quality.issues.length} issue(s)):`);
+      for (const issue of quality.issues) {
+        logger.warn(`  ✗ ${issue}`);
+      }
+    }
+    if (quality.warnings.length > 0) {
+      for (const warning of quality.warnings) {
+        logger.warn(`  ⚠ ${warning}`);
+      }
+    }
+    if (quality.passed && quality.warnings.length === 0) {
+      logger.info(`Quality check PASSED for "${business.name}" (score ${quality.score})`);
+    }
+
+    return html;
+  }
+
+  /**
+   * Generate one draft of a website. With feedback on the previous draft,
+   * Claude is shown that draft and asked to continue it (if it was cut off)
+   * or to fix the listed quality issues.
+   *
+   * @param business - Business information
+   * @param template - Visual style template to use
+   * @param feedback - The previous draft and what was wrong with it
+   * @returns The cleaned HTML, left open if it was cut off
+   */
+  async generateDraft(
+    business: BusinessInfo,
+    template: WebsiteTemplate,
+    feedback?: GenerationFeedback
+  ): Promise<WebsiteDraft> {
+    const templateLabel = TEMPLATE_LABELS[template];
+    const action = !feedback ? 'Generating' : feedback.truncated ? 'Continuing' : 'Repairing';
+    logger.info(`${action} ${templateLabel} website for "${business.name}"...`);
 
     if (this.isMockMode) {
-      return this.generateMockWebsite(business, template);
+      return { html: await this.generateMockWebsite(business, template), truncated: false };
     }
 
     try {
-      const prompt = buildWebsitePrompt(business, template);
+      const messages: Anthropic.MessageParam[] = [
+        {
+          role: 'user',
+          content: buildWebsitePrompt(business, template),
+        },
+      ];
+      if (feedback) {
+        messages.push(
+          { role: 'assistant', content: feedback.html },
+          { role: 'user', content: feedback.truncated ? buildContinuationPrompt() : buildRepairPrompt(feedback.issues) }
+        );
+      }
 
       const response = await this.client!.messages.create({
         model: ClaudeClient.MODEL,
         max_tokens: ClaudeClient.MAX_TOKENS,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        messages,
       });
 
       // Extract the text content from the response
@@ -88,27 +149,11 @@ export class ClaudeClient {
         throw new Error('Unexpected response format from Claude');
       }
 
-      const html = this.cleanHtmlResponse(content.text);
-      logger.info(`Successfully generated ${templateLabel} website (${html.length} chars)`);
-
-      // Run quality check and log results
-      const quality = checkWebsiteQuality(html);
-      if (!quality.passed) {
-        logger.warn(`Quality check FAILED for "${business.name}" (${quality.issues.length} issue(s)):`);
-        for (const issue of quality.issues) {
-          logger.warn(`  ✗ ${issue}`);
-        }
-      }
-      if (quality.warnings.length > 0) {
-        for (const warning of quality.warnings) {
-          logger.warn(`  ⚠ ${warning}`);
-        }
-      }
-      if (quality.passed && quality.warnings.length === 0) {
-        logger.info(`Quality check PASSED for "${business.name}"`);
-      }
-
-      return html;
+      const text = feedback?.truncated ? appendContinuation(feedback.html, content.text) : content.text;
+      return {
+        html: this.cleanHtmlResponse(text),
+        truncated: response.stop_reason === 'max_tokens',
+      };
     } catch (error) {
       if (error instanceof Anthropic.APIError) {
         logger.error(`Claude API error: ${error.status} - ${error.message}`);
@@ -148,22 +193,27 @@ export class ClaudeClient {
       html = html.slice(doctypeIndex);
     }
 
-    // Ensure it ends with </html>
+    // Drop anything after </html>; a draft that was cut off is left open
     const htmlEndIndex = html.toLowerCase().lastIndexOf('</html>');
     if (htmlEndIndex !== -1) {
       html = html.slice(0, htmlEndIndex + 7);
-    } else {
-      // Generation was cut off before </html> — close it gracefully
-      if (!html.includes('</body>')) html += '\n</body>';
-      html += '\n</html>';
     }
 
     return html.trim();
   }
 
+  /**
+   * Close off a draft that was cut off before </html>.
+   */
+  private closeHtml(html: string): string {
+    if (/<\/html>/i.test(html)) return html;
+    return html + (html.includes('</body>') ? '' : '\n</body>') + '\n</html>';
+  }
+
   /**
    * Generate a premium mock website using Tailwind CSS, Lucide icons, and Google Fonts.
-   * Returns an Awwwards-quality HTML website for testing.
+   * Returns an Awwwards-quality HTML website for testing. Industry sample
+   * content is marked with data-placeholder, like a generated site.
    */
   private generateMockWebsite(business: BusinessInfo, template: WebsiteTemplate): Promise<string> {
     logger.info(`[MOCK] Generating premium ${TEMPLATE_LABELS[template]} website for "${business.name}"`);
@@ -176,6 +226,30 @@ export class ClaudeClient {
     const email = business.email || 'info@example.com';
     const address = business.address || `${business.city}, ${business.state}`;
     const year = new Date().getFullYear();
+    const phoneMark = business.phone ? '' : ` ${placeholderAttr('contact')}`;
+    const emailMark = business.email ? '' : ` ${placeholderAttr('contact')}`;
+    const rating = describeRating(business);
+    const realHours = getHoursLines(business);
+    const hoursMark = realHours ? '' : ` ${placeholderAttr('hours')}`;
+    // Real reviews first, topped up with the industry samples (marked)
+    const testimonials = [
+      ...getQuotableReviews(business).map((review) => ({
+        text: escapeHtml(review.text),
+        author: escapeHtml(review.author),
+        rating: review.rating ?? 5,
+        mark: '',
+      })),
+      ...industry.testimonials.map((t) => ({ ...t, mark: ` ${placeholderAttr('testimonial')}` })),
+    ].slice(0, 3);
+    const hours = realHours?.map(splitHoursLine) ?? [
+      { day: 'Monday', hours: '9:00 AM - 7:00 PM' },
+      { day: 'Tuesday', hours: '9:00 AM - 7:00 PM' },
+      { day: 'Wednesday', hours: '9:00 AM - 7:00 PM' },
+      { day: 'Thursday', hours: '9:00 AM - 7:00 PM' },
+      { day: 'Friday', hours: '9:00 AM - 7:00 PM' },
+      { day: 'Saturday', hours: '8:00 AM - 5:00 PM' },
+      { day: 'Sunday', hours: 'Closed' },
+    ];
 
     const html = `<!DOCTYPE html>
 <html lang="en" style="scroll-behavior: smooth;">
@@ -306,7 +380,7 @@ export class ClaudeClient {
           <div class="animate-on-scroll">
             <p class="text-primary font-medium tracking-[0.15em] uppercase text-sm mb-4">Our Story</p>
             <h2 class="font-heading text-3xl sm:text-4xl font-bold ${colors.heading} mb-6">About ${business.name}</h2>
-            <p class="${colors.bodyText} text-lg leading-relaxed mb-6">
+            <p class="${colors.bodyText} text-lg leading-relaxed mb-6" ${placeholderAttr('story')}>
               ${industry.aboutText}
             </p>
             <p class="${colors.mutedText} leading-relaxed">
@@ -336,13 +410,13 @@ export class ClaudeClient {
         </div>
         <div class="grid sm:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8">
           ${industry.services.map((s, i) => `
-          <div class="animate-on-scroll group ${colors.cardBg} rounded-2xl p-8 ${colors.cardBorder} hover:-translate-y-1 hover:shadow-xl ${colors.cardHoverShadow} transition-all duration-300" style="transition-delay: ${i * 0.1}s;">
+          <div class="animate-on-scroll group ${colors.cardBg} rounded-2xl p-8 ${colors.cardBorder} hover:-translate-y-1 hover:shadow-xl ${colors.cardHoverShadow} transition-all duration-300" style="transition-delay: ${i * 0.1}s;" ${placeholderAttr('service')}>
             <div class="w-14 h-14 rounded-xl ${colors.iconBg} flex items-center justify-center mb-6 group-hover:scale-110 transition-transform duration-300">
               <i data-lucide="${s.icon}" class="w-6 h-6 text-primary"></i>
             </div>
             <div class="flex items-baseline justify-between mb-3">
               <h3 class="font-heading text-xl font-semibold ${colors.heading}">${s.name}</h3>
-              <span class="text-primary font-bold text-lg">${s.price}</span>
+              <span class="text-primary font-bold text-lg" ${placeholderAttr('price')}>${s.price}</span>
             </div>
             <p class="${colors.mutedText} leading-relaxed">${s.description}</p>
           </div>
@@ -356,11 +430,12 @@ export class ClaudeClient {
       <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div class="text-center mb-16 animate-on-scroll">
           <p class="text-primary font-medium tracking-[0.15em] uppercase text-sm mb-4">Testimonials</p>
-          <h2 class="font-heading text-3xl sm:text-4xl font-bold ${colors.heading} mb-4">What Our Clients Say</h2>
+          <h2 class="font-heading text-3xl sm:text-4xl font-bold ${colors.heading} mb-4">What Our Clients Say</h2>${rating ? `
+          <p class="${colors.mutedText} flex items-center justify-center gap-2"><i data-lucide="star" class="w-4 h-4 text-primary fill-primary"></i>${rating}</p>` : ''}
         </div>
         <div class="grid md:grid-cols-3 gap-8">
-          ${industry.testimonials.map((t, i) => `
-          <div class="animate-on-scroll ${colors.cardBg} rounded-2xl p-8 ${colors.cardBorder} relative" style="transition-delay: ${i * 0.15}s;">
+          ${testimonials.map((t, i) => `
+          <div class="animate-on-scroll ${colors.cardBg} rounded-2xl p-8 ${colors.cardBorder} relative" style="transition-delay: ${i * 0.15}s;"${t.mark}>
             <i data-lucide="quote" class="w-10 h-10 text-primary/30 mb-4"></i>
             <div class="flex gap-1 mb-4">
               ${'<i data-lucide="star" class="w-4 h-4 text-primary fill-primary"></i>'.repeat(t.rating)}
@@ -381,16 +456,8 @@ export class ClaudeClient {
           <h2 class="font-heading text-3xl sm:text-4xl font-bold ${colors.heading} mb-4">Hours of Operation</h2>
         </div>
         <div class="animate-on-scroll ${colors.cardBg} rounded-2xl p-8 sm:p-10 ${colors.cardBorder}">
-          <div class="space-y-4">
-            ${[
-              { day: 'Monday', hours: '9:00 AM - 7:00 PM' },
-              { day: 'Tuesday', hours: '9:00 AM - 7:00 PM' },
-              { day: 'Wednesday', hours: '9:00 AM - 7:00 PM' },
-              { day: 'Thursday', hours: '9:00 AM - 7:00 PM' },
-              { day: 'Friday', hours: '9:00 AM - 7:00 PM' },
-              { day: 'Saturday', hours: '8:00 AM - 5:00 PM' },
-              { day: 'Sunday', hours: 'Closed' },
-            ].map(h => `
+          <div class="space-y-4"${hoursMark}>
+            ${hours.map(h => `
             <div class="flex justify-between items-center py-3 border-b ${colors.borderColor} last:border-0">
               <span class="font-medium ${colors.heading}">${h.day}</span>
               <span class="${h.hours === 'Closed' ? 'text-red-400' : colors.mutedText}">${h.hours}</span>
@@ -418,7 +485,7 @@ export class ClaudeClient {
               </div>
               <div>
                 <h3 class="font-semibold ${colors.heading} mb-1">Phone</h3>
-                <a href="tel:${phoneRaw}" class="${colors.mutedText} hover:text-primary transition-colors text-lg">${phone}</a>
+                <a href="tel:${phoneRaw}" class="${colors.mutedText} hover:text-primary transition-colors text-lg"${phoneMark}>${phone}</a>
               </div>
             </div>
             <div class="flex items-start gap-4">
@@ -427,7 +494,7 @@ export class ClaudeClient {
               </div>
               <div>
                 <h3 class="font-semibold ${colors.heading} mb-1">Email</h3>
-                <a href="mailto:${email}" class="${colors.mutedText} hover:text-primary transition-colors text-lg">${email}</a>
+                <a href="mailto:${email}" class="${colors.mutedText} hover:text-primary transition-colors text-lg"${emailMark}>${email}</a>
               </div>
             </div>
             <div class="flex items-start gap-4">
@@ -494,7 +561,7 @@ export class ClaudeClient {
         <div class="animate-on-scroll flex flex-col sm:flex-row gap-4 justify-center">
           <a href="tel:${phoneRaw}" class="bg-primary text-${colors.btnText} px-10 py-4 rounded-lg text-lg font-semibold hover:bg-accent transition-all duration-300 hover:-translate-y-1 hover:shadow-xl hover:shadow-primary/20 inline-flex items-center justify-center gap-2">
             <i data-lucide="phone" class="w-5 h-5"></i>
-            Call Now: ${phone}
+            Call Now: <span${phoneMark}>${phone}</span>
           </a>
         </div>
       </div>
@@ -533,8 +600,8 @@ export class ClaudeClient {
           <div>
             <h4 class="font-heading font-semibold ${colors.heading} mb-4">Contact</h4>
             <ul class="space-y-3">
-              <li><a href="tel:${phoneRaw}" class="${colors.mutedText} hover:text-primary transition-colors">${phone}</a></li>
-              <li><a href="mailto:${email}" class="${colors.mutedText} hover:text-primary transition-colors">${email}</a></li>
+              <li><a href="tel:${phoneRaw}" class="${colors.mutedText} hover:text-primary transition-colors"${phoneMark}>${phone}</a></li>
+              <li><a href="mailto:${email}" class="${colors.mutedText} hover:text-primary transition-colors"${emailMark}>${email}</a></li>
               <li><span class="${colors.mutedText}">${address}</span></li>
             </ul>
           </div>
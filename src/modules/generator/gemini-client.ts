@@ -1,12 +1,19 @@
 // Gemini API Client for Website Generation
 // Wraps the Google Generative AI SDK to generate websites using Gemini
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { FinishReason, GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/index.js';
-import { WebsiteTemplate, BusinessInfo, TEMPLATE_LABELS } from './types.js';
-import { buildWebsitePrompt } from './templates/base-prompt.js';
-import { checkWebsiteQuality } from './templates/restaurant-premium.js';
+import { httpCassettes } from '../../utils/cassettes.js';
+import { WebsiteTemplate, BusinessInfo, TEMPLATE_LABELS, GenerationFeedback, WebsiteDraft } from './types.js';
+import {
+  appendContinuation,
+  buildContinuationPrompt,
+  buildRepairPrompt,
+  buildWebsitePrompt,
+} from './templates/base-prompt.js';
+import { detectIndustryCategory } from './templates/industry/index.js';
+import { checkWebsiteQuality } from './templates/quality/index.js';
 
 /**
  * GeminiClient - Wrapper for the Google Gemini API
@@ -16,7 +23,8 @@ import { checkWebsiteQuality } from './templates/restaurant-premium.js';
  *
  * MOCK MODE:
  * When GEMINI_API_KEY is not set, falls back to a notice — no mock generation
- * (use ClaudeClient mock mode for that).
+ * (use ClaudeClient mock mode for that). With HTTP_CASSETTES=replay it
+ * answers from recorded responses (cassette "gemini").
  */
 export class GeminiClient {
   private client: GoogleGenerativeAI | null = null;
@@ -28,7 +36,7 @@ export class GeminiClient {
   private static readonly DEFAULT_MODEL = 'gemini-2.5-pro';
 
   constructor(model?: string) {
-    this.apiKey = config.get('GEMINI_API_KEY') ?? null;
+    this.apiKey = httpCassettes.credential(config.get('GEMINI_API_KEY'));
     this.isMockMode = !this.apiKey;
     this.model = model ?? GeminiClient.DEFAULT_MODEL;
 
@@ -58,7 +66,43 @@ export class GeminiClient {
    */
   async generateWebsite(business: BusinessInfo, template: WebsiteTemplate): Promise<string> {
     const templateLabel = TEMPLATE_LABELS[template];
-    logger.info(`[Gemini] Generating ${templateLabel} website for "${business.name}"...`);
+    const draft = await this.generateDraft(business, template);
+    const html = this.closeHtml(draft.html);
+    logger.info(`[Gemini] Successfully generated ${templateLabel} website (${html.length} chars)`);
+
+    // Run the industry's quality checks and log results
+    const quality = checkWebsiteQuality(html, detectIndustryCategory(business.businessType || business.category));
+    if (!quality.passed) {
+      logger.warn(`[Gemini] Quality check FAILED for "${business.name}" (score ${quality.score}, ${quality.issues.length} issue(s)):`);
+      for (const issue of quality.issues) {
+        logger.warn(`  ✗ ${issue}`);
+      }
+    }
+    if (quality.warnings.length > 0) {
+      for (const warning of quality.warnings) {
+        logger.warn(`  ⚠ ${warning}`);
+      }
+    }
+    if (quality.passed && quality.warnings.length === 0) {
+      logger.info(`[Gemini] Quality check PASSED for "${business.name}" (score ${quality.score})`);
+    }
+
+    return html;
+  }
+
+  /**
+   * Generate one draft of a website; the same contract as
+   * ClaudeClient.generateDraft(). Feedback is sent as a model turn with the
+   * previous draft, then the continuation or repair prompt.
+   */
+  async generateDraft(
+    business: BusinessInfo,
+    template: WebsiteTemplate,
+    feedback?: GenerationFeedback
+  ): Promise<WebsiteDraft> {
+    const templateLabel = TEMPLATE_LABELS[template];
+    const action = !feedback ? 'Generating' : feedback.truncated ? 'Continuing' : 'Repairing';
+    logger.info(`[Gemini] ${action} ${templateLabel} website for "${business.name}"...`);
 
     if (this.isMockMode) {
       throw new Error('GEMINI_API_KEY is not set. Add it to your .env file.');
@@ -75,7 +119,18 @@ export class GeminiClient {
         },
       });
 
-      const result = await generativeModel.generateContent(prompt);
+      const request = feedback
+        ? {
+            contents: [
+              { role: 'user', parts: [{ text: prompt }] },
+              { role: 'model', parts: [{ text: feedback.html }] },
+              { role: 'user', parts: [{ text: feedback.truncated ? buildContinuationPrompt() : buildRepairPrompt(feedback.issues) }] },
+            ],
+          }
+        : prompt;
+
+      // The SDK calls the global fetch and takes no fetch option
+      const result = await httpCassettes.withGlobalFetch('gemini', () => generativeModel.generateContent(request));
       const response = result.response;
       const text = response.text();
 
@@ -83,27 +138,10 @@ export class GeminiClient {
         throw new Error('Empty response from Gemini API');
       }
 
-      const html = this.cleanHtmlResponse(text);
-      logger.info(`[Gemini] Successfully generated ${templateLabel} website (${html.length} chars)`);
-
-      // Run quality check and log results
-      const quality = checkWebsiteQuality(html);
-      if (!quality.passed) {
-        logger.warn(`[Gemini] Quality check FAILED for "${business.name}" (${quality.issues.length} issue(s)):`);
-        for (const issue of quality.issues) {
-          logger.warn(`  ✗ ${issue}`);
-        }
-      }
-      if (quality.warnings.length > 0) {
-        for (const warning of quality.warnings) {
-          logger.warn(`  ⚠ ${warning}`);
-        }
-      }
-      if (quality.passed && quality.warnings.length === 0) {
-        logger.info(`[Gemini] Quality check PASSED for "${business.name}"`);
-      }
-
-      return html;
+      return {
+        html: this.cleanHtmlResponse(feedback?.truncated ? appendContinuation(feedback.html, text) : text),
+        truncated: response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS,
+      };
     } catch (error) {
       logger.error(`[Gemini] Error generating website:`, error);
       throw error;
@@ -134,18 +172,22 @@ export class GeminiClient {
       html = html.slice(doctypeIndex);
     }
 
-    // Ensure it ends with </html>
+    // Drop anything after </html>; a draft that was cut off is left open
     const htmlEndIndex = html.toLowerCase().lastIndexOf('</html>');
     if (htmlEndIndex !== -1) {
       html = html.slice(0, htmlEndIndex + 7);
-    } else {
-      // Generation was cut off before </html> — close it gracefully
-      if (!html.includes('</body>')) html += '\n</body>';
-      html += '\n</html>';
     }
 
     return html.trim();
   }
+
+  /**
+   * Close off a draft that was cut off before </html>.
+   */
+  private closeHtml(html: string): string {
+    if (/<\/html>/i.test(html)) return html;
+    return html + (html.includes('</body>') ? '' : '\n</body>') + '\n</html>';
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,193 @@
+// HTML Parser
+// A small, forgiving HTML parser for auditing generated sites offline. It
+// builds an element tree and notes the tags a browser would have to repair.
+
+/**
+ * An element in the parsed document
+ */
+export interface HtmlElement {
+  tag: string;                          // Lowercase tag name
+  attributes: Record<string, string>;   // Lowercase names; valueless attributes are ""
+  children: HtmlElement[];
+  parent: HtmlElement | null;
+  text: string;                         // Text directly inside, whitespace collapsed
+  line: number;
+}
+
+/**
+ * A tag that had to be repaired: never closed, or closed without being open
+ */
+export interface HtmlParseProblem {
+  kind: 'unclosed' | 'stray_end';
+  tag: string;
+  line: number;
+  closedBy?: string;                    // For unclosed tags, the end tag that closed it
+}
+
+export interface ParsedHtml {
+  root: HtmlElement;                    // A "#document" element holding the top-level elements
+  problems: HtmlParseProblem[];
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Contents are text up to the matching end tag
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// End tags HTML lets you leave out
+const OPTIONAL_END = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup',
+  'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'colgroup',
+]);
+
+// Opening one of these closes an open <p>
+const CLOSES_P = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'ul',
+]);
+
+// Opening the key closes an open element in the set
+const CLOSES_SIBLING: Record<string, Set<string>> = {
+  li: new Set(['li']),
+  dt: new Set(['dt', 'dd']),
+  dd: new Set(['dt', 'dd']),
+  tr: new Set(['tr', 'td', 'th']),
+  td: new Set(['td', 'th']),
+  th: new Set(['td', 'th']),
+  option: new Set(['option']),
+  thead: new Set(['thead', 'tbody', 'tfoot']),
+  tbody: new Set(['thead', 'tbody', 'tfoot']),
+  tfoot: new Set(['thead', 'tbody', 'tfoot']),
+};
+
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+function element(tag: string, attributes: Record<string, string>, parent: HtmlElement | null, line: number): HtmlElement {
+  return { tag, attributes, children: [], parent, text: '', line };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1]!.toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+  }
+  return attributes;
+}
+
+function appendText(target: HtmlElement, text: string): void {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  if (collapsed) {
+    target.text = target.text ? `${target.text} ${collapsed}` : collapsed;
+  }
+}
+
+/**
+ * Parse HTML into an element tree. Like a browser, it never fails: missing
+ * optional end tags are implied, and anything else it has to repair is
+ * listed in `problems`. Self-closed tags (`<path />`) are treated as closed,
+ * so inline SVG parses cleanly.
+ */
+export function parseHtml(html: string): ParsedHtml {
+  const root = element('#document', {}, null, 1);
+  const problems: HtmlParseProblem[] = [];
+  const stack: HtmlElement[] = [root];
+  const current = (): HtmlElement => stack[stack.length - 1]!;
+
+  // Line numbers, counted forward as tokens are read
+  let line = 1;
+  let counted = 0;
+  const lineAt = (index: number): number => {
+    for (; counted < index; counted++) {
+      if (html.charCodeAt(counted) === 10) line++;
+    }
+    return line;
+  };
+
+  const closeTo = (depth: number, closedBy?: string): void => {
+    while (stack.length > depth) {
+      const open = stack.pop()!;
+      if (!OPTIONAL_END.has(open.tag)) {
+        problems.push({ kind: 'unclosed', tag: open.tag, line: open.line, closedBy });
+      }
+    }
+  };
+
+  TOKEN.lastIndex = 0;
+  let last = 0;
+  for (let match = TOKEN.exec(html); match; match = TOKEN.exec(html)) {
+    appendText(current(), html.slice(last, match.index));
+    last = TOKEN.lastIndex;
+
+    const [token, endTag, startTag, attributeSource, selfClosing] = match;
+    if (token.startsWith('<!')) continue;
+
+    if (endTag) {
+      const tag = endTag.toLowerCase();
+      if (VOID_ELEMENTS.has(tag)) continue;
+
+      const depth = stack.map((open) => open.tag).lastIndexOf(tag);
+      if (depth <= 0) {
+        problems.push({ kind: 'stray_end', tag, line: lineAt(match.index) });
+      } else {
+        closeTo(depth + 1, tag);
+        stack.pop();
+      }
+      continue;
+    }
+
+    const tag = startTag!.toLowerCase();
+    const top = current();
+    if (top.tag === 'p' && CLOSES_P.has(tag)) {
+      stack.pop();
+    } else if (CLOSES_SIBLING[tag]?.has(top.tag)) {
+      stack.pop();
+    }
+
+    const parent = current();
+    const child = element(tag, parseAttributes(attributeSource ?? ''), parent, lineAt(match.index));
+    parent.children.push(child);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, last);
+      const stop = end === -1 ? html.length : end;
+      child.text = html.slice(last, stop);
+      if (end === -1) {
+        problems.push({ kind: 'unclosed', tag, line: child.line });
+        last = html.length;
+      } else {
+        const close = html.indexOf('>', end);
+        last = close === -1 ? html.length : close + 1;
+      }
+      TOKEN.lastIndex = last;
+    } else if (!VOID_ELEMENTS.has(tag) && !selfClosing) {
+      stack.push(child);
+    }
+  }
+
+  appendText(current(), html.slice(last));
+  closeTo(1);
+  return { root, problems };
+}
+
+/**
+ * Every element under `root`, in document order
+ */
+export function allElements(root: HtmlElement): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+  const visit = (node: HtmlElement): void => {
+    for (const child of node.children) {
+      elements.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return elements;
+}
+
@@ -1,11 +1,18 @@
 // Generator Module
 // AI-powered website generation for local businesses
 
-import { db } from '../../database/index.js';
-import type { Business } from '../../database/types.js';
+import { config } from '../../config/index.js';
+import { canTransitionBusinessStatus, db } from '../../database/index.js';
+import type { Business, WebsiteAudit } from '../../database/types.js';
 import { logger } from '../../utils/index.js';
+import { scoreUnscoredLeads } from '../scoring/index.js';
+import { OfflineHttpProbe, WebsiteVerifier } from '../enrichment/website-verifier.js';
+import { googlePlaces } from '../discovery/google-places.js';
 import { ClaudeClient, claudeClient } from './claude-client.js';
 import { GeminiClient, geminiClient } from './gemini-client.js';
+import { auditWebsite } from './audit.js';
+import { detectIndustryCategory, getIndustryData } from './templates/industry/index.js';
+import { checkWebsiteQuality } from './templates/quality/index.js';
 import {
   WebsiteTemplate,
   GeneratorConfig,
@@ -14,7 +21,11 @@ import {
   GenerationSummary,
   BusinessInfo,
   DEFAULT_FEATURES,
+  GenerationFeedback,
+  QualityAttempt,
+  QualityCheckResult,
   TEMPLATE_LABELS,
+  WebsiteQualityReport,
 } from './types.js';
 
 // Re-export types and clients
@@ -22,6 +33,22 @@ export * from './types.js';
 export { ClaudeClient, claudeClient } from './claude-client.js';
 export { GeminiClient, geminiClient } from './gemini-client.js';
 export { buildWebsitePrompt } from './templates/base-prompt.js';
+export { detectIndustryCategory } from './templates/industry/index.js';
+export { checkWebsiteQuality, getQualityRules, SEVERITY_PENALTIES } from './templates/quality/index.js';
+export * from './placeholders.js';
+export { auditWebsite, contrastRatio, MIN_CONTRAST, MIN_CONTRAST_LARGE } from './audit.js';
+export { parseHtml } from './html-parser.js';
+export type { HtmlElement, HtmlParseProblem, ParsedHtml } from './html-parser.js';
+
+/**
+ * Thrown when a website still fails the quality check after every attempt.
+ */
+export class WebsiteQualityError extends Error {
+  constructor(public readonly report: WebsiteQualityReport) {
+    super(`Website failed the quality check after ${report.attempts.length} attempt(s): ${report.issues.join('; ')}`);
+    this.name = 'WebsiteQualityError';
+  }
+}
 
 /**
  * GeneratorService - Main service for generating websites
@@ -29,8 +56,9 @@ export { buildWebsitePrompt } from './templates/base-prompt.js';
  * This service:
  * 1. Takes businesses from the database
  * 2. Generates multiple website variations using Claude
- * 3. Saves generated websites to the database
- * 4. Updates business status
+ * 3. Checks each one, and continues or repairs it until it passes
+ * 4. Saves generated websites to the database, with their quality report
+ * 5. Updates business status
  *
  * Usage:
  * ```typescript
@@ -46,6 +74,7 @@ export { buildWebsitePrompt } from './templates/base-prompt.js';
 export class GeneratorService {
   private config: GeneratorConfig;
   private client: ClaudeClient | GeminiClient;
+  private verifier: WebsiteVerifier;
 
   // Available templates in order of generation
   private static readonly TEMPLATE_ORDER: WebsiteTemplate[] = [
@@ -54,12 +83,18 @@ export class GeneratorService {
     WebsiteTemplate.SUSPENDED_BOLD,
   ];
 
-  constructor(config?: Partial<GeneratorConfig>, client?: ClaudeClient | GeminiClient) {
+  constructor(options?: Partial<GeneratorConfig>, client?: ClaudeClient | GeminiClient, verifier?: WebsiteVerifier) {
+    const envMaxAttempts = config.get('GENERATION_MAX_ATTEMPTS');
+    if (envMaxAttempts && config.getAll().generationMaxAttempts === undefined) {
+      logger.warn(`Ignoring GENERATION_MAX_ATTEMPTS "${envMaxAttempts}": use a whole number of at least 1`);
+    }
+
     this.config = {
-      templatesPerBusiness: config?.templatesPerBusiness ?? 2,
-      includeFeatures: config?.includeFeatures ?? DEFAULT_FEATURES,
-      templates: config?.templates,
-      provider: config?.provider ?? 'claude',
+      templatesPerBusiness: options?.templatesPerBusiness ?? 2,
+      includeFeatures: options?.includeFeatures ?? DEFAULT_FEATURES,
+      templates: options?.templates,
+      provider: options?.provider ?? 'claude',
+      maxAttempts: Math.max(1, options?.maxAttempts ?? config.getAll().generationMaxAttempts ?? 3),
     };
 
     if (client) {
@@ -71,6 +106,12 @@ export class GeneratorService {
       this.client = claudeClient;
       logger.info('Using Claude as AI provider');
     }
+
+    // Verification belongs to enrichment, so follow its Places mock mode
+    // rather than the AI client's
+    this.verifier = verifier ?? new WebsiteVerifier(
+      googlePlaces.isInMockMode() ? { probe: new OfflineHttpProbe() } : undefined
+    );
   }
 
   /**
@@ -145,7 +186,7 @@ export class GeneratorService {
         logger.info(`  Generating ${templateLabel} (${i + 1}/${templates.length})...`);
 
         try {
-          const html = await this.client.generateWebsite(businessInfo, template);
+          const { html, report } = await this.generateWithQualityGate(businessInfo, template);
 
           // Save to database
           const savedWebsite = db.insertWebsite({
@@ -153,19 +194,43 @@ export class GeneratorService {
             template_name: template,
             variation_number: i + 1,
             html_content: html,
+            generation_attempts: report.attempts.length,
+            quality_report: JSON.stringify(report),
           });
 
           result.websiteIds.push(savedWebsite.id);
           result.websitesGenerated++;
-          logger.info(`    Saved website (${html.length} chars)`);
+          logger.info(`    Saved website (${html.length} chars, ${report.attempts.length} attempt(s), quality score ${report.score})`);
+
+          // The site is saved either way; a failed audit can be rerun with preview --audit
+          try {
+            const audit = auditSavedWebsite(savedWebsite.id);
+            if (audit) {
+              logger.info(`    Audit: ${audit.errors} error(s), ${audit.warnings} warning(s)`);
+            } else {
+              logger.warn(`    Could not audit ${templateLabel}: website ${savedWebsite.id} not found`);
+            }
+          } catch (error) {
+            logger.error(`    Failed to audit ${templateLabel}:`, error);
+          }
         } catch (error) {
-          logger.error(`    Failed to generate ${templateLabel}:`, error);
+          if (error instanceof WebsiteQualityError) {
+            logger.error(`    Gave up on ${templateLabel}: ${error.message}`);
+          } else {
+            logger.error(`    Failed to generate ${templateLabel}:`, error);
+          }
         }
       }
 
       if (result.websitesGenerated > 0) {
         result.success = true;
-        // Status is updated by db.insertWebsite automatically
+        // Regenerating for a lead further down the pipeline leaves its status alone
+        if (canTransitionBusinessStatus(business.status, 'website_generated')) {
+          db.updateBusinessStatus(business.id, 'website_generated', {
+            actor: 'generator',
+            reason: `${result.websitesGenerated} variation(s) generated`,
+          });
+        }
         logger.info(`  Successfully generated ${result.websitesGenerated} website(s)`);
       } else {
         result.success = false;
@@ -181,6 +246,49 @@ export class GeneratorService {
     return result;
   }
 
+  /**
+   * Generate a website and hold it to the quality check. A draft that was
+   * cut off is continued from where it stopped; one with hard failures is
+   * sent back with the issues to fix. Each try counts against maxAttempts.
+   *
+   * @returns The passing HTML and its quality report
+   * @throws WebsiteQualityError if the last attempt still fails
+   */
+  async generateWithQualityGate(
+    business: BusinessInfo,
+    template: WebsiteTemplate
+  ): Promise<{ html: string; report: WebsiteQualityReport }> {
+    const maxAttempts = this.config.maxAttempts ?? 1;
+    const category = detectIndustryCategory(business.businessType || business.category);
+    const attempts: QualityAttempt[] = [];
+    let feedback: GenerationFeedback | undefined;
+    let quality: QualityCheckResult = { passed: false, score: 0, category, findings: [], issues: [], warnings: [] };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const action = !feedback ? 'generate' : feedback.truncated ? 'continue' : 'repair';
+      const draft = await this.client.generateDraft(business, template, feedback);
+
+      const truncated = draft.truncated || !/<\/html>/i.test(draft.html);
+      quality = checkWebsiteQuality(draft.html, category);
+      attempts.push({ attempt, action, length: draft.html.length, truncated, score: quality.score, issues: quality.issues });
+
+      if (quality.passed) {
+        for (const warning of quality.warnings) {
+          logger.debug(`    ⚠ ${warning}`);
+        }
+        return { html: draft.html, report: { ...quality, attempts } };
+      }
+
+      logger.warn(`    Attempt ${attempt}/${maxAttempts} failed the quality check (${quality.issues.length} issue(s)):`);
+      for (const issue of quality.issues) {
+        logger.warn(`      ✗ ${issue}`);
+      }
+      feedback = { html: draft.html, truncated, issues: quality.issues };
+    }
+
+    throw new WebsiteQualityError({ ...quality, attempts });
+  }
+
   /**
    * Generate a single website for a business with a specific template.
    * Does not save to database - returns the generated HTML.
@@ -190,7 +298,7 @@ export class GeneratorService {
     template: WebsiteTemplate
   ): Promise<GeneratedWebsite> {
     const businessInfo = this.toBusinessInfo(business);
-    const html = await this.client.generateWebsite(businessInfo, template);
+    const { html } = await this.generateWithQualityGate(businessInfo, template);
 
     return {
       html,
@@ -202,9 +310,19 @@ export class GeneratorService {
   }
 
   /**
-   * Get businesses that need website generation.
+   * Get businesses that need website generation, best lead score first.
+   * Leads that have never been verified are checked for a website first, and
+   * only those that pass the confidence threshold are returned. Unscored
+   * leads are scored so they rank fairly.
    */
-  getBusinessesNeedingGeneration(limit = 10): Business[] {
+  async getBusinessesNeedingGeneration(limit = 10): Promise<Business[]> {
+    const verified = await this.verifier.verifyPending(limit);
+    if (verified.length > 0) {
+      const held = verified.filter((result) => result.verdict !== 'no_website').length;
+      logger.info(`Verified ${verified.length} new lead(s), ${held} held back`);
+    }
+
+    scoreUnscoredLeads();
     return db.getBusinessesNeedingWebsites(limit);
   }
 
@@ -230,6 +348,17 @@ export class GeneratorService {
       phone: business.phone ?? undefined,
       email: business.email ?? undefined,
       address: business.address ?? undefined,
+      hours: business.opening_hours ? JSON.parse(business.opening_hours) as string[] : undefined,
+      rating: business.rating ?? undefined,
+      reviewCount: business.user_ratings_total ?? undefined,
+      reviews: db.getBusinessReviews(business.id).map((review) => ({
+        author: review.author_name,
+        rating: review.rating ?? undefined,
+        text: review.text,
+      })),
+      latitude: business.latitude ?? undefined,
+      longitude: business.longitude ?? undefined,
+      placeTypes: business.place_types ? JSON.parse(business.place_types) as string[] : undefined,
     };
   }
 
@@ -241,6 +370,27 @@ export class GeneratorService {
   }
 }
 
+/**
+ * Run the structural/accessibility audit on a saved website and store the
+ * result, replacing any earlier audit. Contrast is checked against the
+ * palette of the business's industry. Returns null if there's no such website.
+ */
+export function auditSavedWebsite(websiteId: string): WebsiteAudit | null {
+  const website = db.getWebsiteById(websiteId);
+  if (!website) return null;
+
+  const business = db.getBusinessById(website.business_id);
+  const palette = getIndustryData(business?.business_type || business?.category || '').colorPalette;
+  const result = auditWebsite(website.html_content, { palette });
+
+  return db.saveWebsiteAudit({
+    website_id: website.id,
+    errors: result.errors,
+    warnings: result.warnings,
+    findings: JSON.stringify(result.findings),
+  });
+}
+
 /**
  * Convenience function to generate websites for businesses.
  */
@@ -260,7 +410,7 @@ export async function generateForDiscovered(
   config?: Partial<GeneratorConfig>
 ): Promise<GenerationSummary> {
   const service = new GeneratorService(config);
-  const businesses = service.getBusinessesNeedingGeneration(limit);
+  const businesses = await service.getBusinessesNeedingGeneration(limit);
 
   if (businesses.length === 0) {
     logger.info('No businesses found needing website generation');
@@ -279,7 +429,9 @@ export async function generateForDiscovered(
 // Legacy export for backwards compatibility
 export const generator = {
   GeneratorService,
+  WebsiteQualityError,
   generateWebsites,
   generateForDiscovered,
+  auditSavedWebsite,
   claudeClient,
 };
@@ -0,0 +1,126 @@
+// Placeholder Markers
+// Generated sites tag anything not backed by verified business data so it can
+// be reviewed (and replaced) before the site is shown to the owner.
+
+/**
+ * Attribute put on the smallest element that wraps invented content,
+ * e.g. <p data-placeholder="testimonial">...</p>
+ */
+export const PLACEHOLDER_ATTRIBUTE = 'data-placeholder';
+
+/**
+ * Kinds of invented content a generated site may contain.
+ */
+export const PLACEHOLDER_KINDS = [
+  'testimonial', // review text or reviewer not taken from real reviews
+  'service',     // service or menu item names and descriptions
+  'price',       // prices
+  'story',       // about/history copy
+  'person',      // owner or staff names
+  'year',        // founding year, "Est. 2012"
+  'hours',       // opening hours not from the listing
+  'contact',     // phone, email or address not on file
+  'photo',       // stock photo standing in for the business
+  'claim',       // any other factual claim (awards, stats, "walk-ins welcome")
+] as const;
+
+export type PlaceholderKind = (typeof PLACEHOLDER_KINDS)[number];
+
+/**
+ * A marked piece of invented content found in generated HTML.
+ */
+export interface Placeholder {
+  kind: string;               // Usually a PlaceholderKind; the model may invent others
+  tag: string;
+  text: string;               // Visible text (or alt/src for images), whitespace collapsed
+}
+
+/**
+ * HTML attribute string for marking invented content in templates.
+ */
+export function placeholderAttr(kind: PlaceholderKind): string {
+  return `${PLACEHOLDER_ATTRIBUTE}="${kind}"`;
+}
+
+/**
+ * Prompt rules telling the model how to mark invented content.
+ */
+export function buildPlaceholderRules(): string {
+  return `## GROUND TRUTH VS. PLACEHOLDERS (MANDATORY)
+
+Everything under VERIFIED FACTS is true: use it exactly, never contradict it, never "improve" it.
+Anything else you write as a fact about the business is a placeholder, and MUST be marked with a
+\`${PLACEHOLDER_ATTRIBUTE}\` attribute on the smallest element that wraps it, so it can be reviewed before launch:
+
+${PLACEHOLDER_KINDS.map((kind) => `- ${PLACEHOLDER_ATTRIBUTE}="${kind}"`).join('\n')}
+
+Examples:
+- \`<blockquote ${placeholderAttr('testimonial')}>...</blockquote>\` for a review you wrote
+- \`<span ${placeholderAttr('price')}>$25</span>\` for a price you chose
+- \`<img ${placeholderAttr('photo')} src="..." alt="...">\` for a stock photo shown as the business
+- \`<ul ${placeholderAttr('hours')}>...</ul>\` for sample hours
+
+Do NOT mark verified facts, marketing taglines, headings or button labels.
+Never put placeholder values in JSON-LD or meta tags — leave unknown fields out instead.`;
+}
+
+/**
+ * Find every marked placeholder in generated HTML, in document order.
+ */
+export function findPlaceholders(html: string): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  const pattern = new RegExp(`<([a-zA-Z][\\w-]*)\\b([^>]*?)\\s${PLACEHOLDER_ATTRIBUTE}=["']([^"']*)["']([^>]*)>`, 'g');
+
+  for (const match of html.matchAll(pattern)) {
+    const tag = match[1]!.toLowerCase();
+    const attributes = `${match[2]} ${match[4]}`;
+    const start = match.index! + match[0].length;
+
+    let text: string;
+    if (VOID_ELEMENTS.has(tag) || match[0].endsWith('/>')) {
+      text = readAttribute(attributes, 'alt') ?? readAttribute(attributes, 'src') ?? '';
+    } else {
+      text = stripTags(html.slice(start, findClosingTag(html, tag, start)));
+    }
+
+    placeholders.push({ kind: match[3]!, tag, text });
+  }
+
+  return placeholders;
+}
+
+/**
+ * Count placeholders by kind, e.g. { testimonial: 3, price: 6 }.
+ */
+export function countPlaceholders(html: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const placeholder of findPlaceholders(html)) {
+    counts[placeholder.kind] = (counts[placeholder.kind] ?? 0) + 1;
+  }
+  return counts;
+}
+
+const VOID_ELEMENTS = new Set(['img', 'input', 'br', 'hr', 'meta', 'link', 'source', 'area']);
+
+// Index of the matching </tag>, allowing for nested elements with the same tag
+function findClosingTag(html: string, tag: string, from: number): number {
+  const pattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  pattern.lastIndex = from;
+  let depth = 1;
+
+  for (let match = pattern.exec(html); match; match = pattern.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index;
+  }
+
+  return html.length;
+}
+
+function stripTags(fragment: string): string {
+  return fragment.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}=["']([^"']*)["']`).exec(attributes);
+  return match?.[1] ?? null;
+}
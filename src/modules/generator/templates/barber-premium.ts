@@ -3,6 +3,16 @@
 // authentic service pricing, structured data, and masculine luxury design.
 
 import type { BusinessInfo } from '../types.js';
+import { buildPlaceholderRules, PLACEHOLDER_ATTRIBUTE } from '../placeholders.js';
+import {
+  aggregateRatingJson,
+  buildTestimonialInstructions,
+  buildVerifiedFacts,
+  describeRating,
+  getHoursLines,
+  mapsUrl,
+  openingHoursJson,
+} from './business-facts.js';
 
 // ==================== PREMIUM PROMPT BUILDER ====================
 
@@ -13,19 +23,27 @@ import type { BusinessInfo } from '../types.js';
  * The output should look like a $2,000–$3,000 custom agency website:
  * real Unsplash photography, authentic service menus with prices,
  * a genuine owner/barber story, smooth animations, and proper SEO markup.
+ * Verified facts are passed through as-is; everything invented is marked
+ * with data-placeholder for review.
  */
 export function buildBarberPremiumPrompt(business: BusinessInfo): string {
   const phone = business.phone ?? '(662) 555-0183';
   const address = business.address ?? `${business.city}, ${business.state}`;
   const year = new Date().getFullYear();
+  const rating = describeRating(business);
+  const hours = getHoursLines(business);
+  const hoursList = (hours ?? [
+    'Mon–Fri: 9:00 AM – 7:00 PM',
+    'Saturday: 8:00 AM – 5:00 PM',
+    'Sunday: Closed',
+  ]).map((line) => `    * ${line}`).join('\n');
 
   return `You are a senior frontend engineer at a top-tier digital agency. Your client is a local barbershop that needs a website that looks like it cost $3,000 to build — masculine luxury, precision craftsmanship, old-school meets modern. Every detail matters.
 
-## BUSINESS DETAILS
-- Name: ${business.name}
-- Location: ${business.city}, ${business.state}
-- Address: ${address}
-- Phone: ${phone}
+## VERIFIED FACTS
+${buildVerifiedFacts(business)}
+${business.phone ? '' : `\nNo phone on file: use ${phone} and mark every place it appears ${PLACEHOLDER_ATTRIBUTE}="contact".\n`}
+${buildPlaceholderRules()}
 
 ## MANDATORY TECH STACK
 
@@ -91,10 +109,8 @@ Add this in <head> with real values filled in:
     "addressRegion": "${business.state}",
     "addressCountry": "US"
   },
-  "telephone": "${phone}",
-  "priceRange": "$$",
-  "openingHours": ["Mo-Fr 09:00-19:00", "Sa 08:00-17:00"],
-  "url": "#"
+${business.phone ? `  "telephone": "${business.phone}",\n` : ''}  "priceRange": "$$",
+  "url": "#"${openingHoursJson(business)}${aggregateRatingJson(business)}
 }
 </script>
 \`\`\`
@@ -164,7 +180,7 @@ IMPORTANT: Do NOT use source.unsplash.com — it is shut down. Only use images.u
 - Full-bleed background image via inline style: background-image: url('https://images.unsplash.com/photo-1585747860715-2ba37e788b70?auto=format&fit=crop&w=1920&q=80'); background-size: cover; background-position: center;
 - Layered overlays: absolute inset-0 bg-gradient-to-r from-shop-black/90 via-shop-black/60 to-shop-black/30
 - Content aligned LEFT (max-w-2xl, pl-8 md:pl-16 lg:pl-24):
-  - Eyebrow: "Est. [pick a year between 2005–2018] · ${business.city}, ${business.state}" in gold tracking-widest text-xs uppercase
+  - Eyebrow: "Est. [pick a year between 2005–2018] · ${business.city}, ${business.state}" in gold tracking-widest text-xs uppercase; wrap the "Est. [year]" part in <span ${PLACEHOLDER_ATTRIBUTE}="year">
   - Gold accent line: \`<div class="w-16 h-px bg-gold my-6"></div>\`
   - Headline: font-display font-black text-5xl lg:text-7xl text-zinc-50 leading-none — write something SHORT and powerful (e.g., "Sharp. Clean. Legendary." or something specific to the city's culture — NOT generic)
   - Subtext: 1 punchy sentence, font-body text-zinc-400 text-lg max-w-md
@@ -176,15 +192,16 @@ IMPORTANT: Do NOT use source.unsplash.com — it is shut down. Only use images.u
 ### 3. ABOUT
 - Two-column grid (md:grid-cols-2), gap-16, py-28, bg-shop-surface
 - RIGHT column (image — image first on desktop, order-first on mobile):
-  - Full-height portrait: <img src="https://images.unsplash.com/photo-1599351431202-1e0f0137899a?auto=format&fit=crop&w=900&h=1100&q=80" alt="Master Barber at ${business.name}" class="w-full h-full object-cover">
+  - Full-height portrait: <img src="https://images.unsplash.com/photo-1599351431202-1e0f0137899a?auto=format&fit=crop&w=900&h=1100&q=80" alt="Master Barber at ${business.name}" class="w-full h-full object-cover" ${PLACEHOLDER_ATTRIBUTE}="photo">
   - Thin gold border offset: position relative with an absolutely positioned div: border border-gold/30 inset-0 translate-x-4 translate-y-4 -z-10 absolute
 - LEFT column (text):
   - Gold accent line: \`<div class="w-12 h-px bg-gold mb-8"></div>\`
   - Eyebrow: "The Craft"
   - Heading: "A Cut Above [something specific to ${business.city} or the shop's identity]"
   - Body: Write 2 real paragraphs. Mention: how ${business.name} started, the owner/master barber (invent a plausible name like "Marcus Webb" or "Darnell Johnson"), the neighborhood or community, the specific techniques they specialize in, what sets them apart. Be human and specific. Do NOT use the word "amazing" or "passion for excellence".
-  - Founded: mention a year (between 2005–2018 that sounds natural)
-  - Small stat row: "Est. [year]" | "[City]'s Own" | "Walk-Ins Welcome" in text-gold with border-r border-gold/30
+    Mark each paragraph ${PLACEHOLDER_ATTRIBUTE}="story" and wrap the barber's name in <span ${PLACEHOLDER_ATTRIBUTE}="person">.
+  - Founded: mention a year (between 2005–2018 that sounds natural), wrapped in <span ${PLACEHOLDER_ATTRIBUTE}="year">
+  - Small stat row: "Est. [year]" | "[City]'s Own" | "Walk-Ins Welcome" in text-gold with border-r border-gold/30; mark "Est. [year]" ${PLACEHOLDER_ATTRIBUTE}="year" and "Walk-Ins Welcome" ${PLACEHOLDER_ATTRIBUTE}="claim"
 
 ### 4. SERVICES — "The Menu"
 - Background: bg-shop-black
@@ -196,6 +213,7 @@ Generate exactly 6 services for a barbershop in ${business.city}, ${business.sta
 - Realistic service names (not "Service 1")
 - Prices in $X format, ranging $15–$50
 - Each: name, price, 2-sentence description, relevant Unsplash photo ID from the service library above
+- These are not the shop's real menu: mark each card ${PLACEHOLDER_ATTRIBUTE}="service", each price ${PLACEHOLDER_ATTRIBUTE}="price" and each image ${PLACEHOLDER_ATTRIBUTE}="photo"
 
 Card layout (grid sm:grid-cols-2 lg:grid-cols-3 gap-6):
 Each card:
@@ -210,15 +228,19 @@ Each card:
 - CSS column layout: columns-2 md:columns-3 gap-3
 - 6 images from gallery library above (varied portrait/landscape, break-inside-avoid)
 - Each: rounded-none overflow-hidden, hover:opacity-85 transition-opacity, cursor-zoom-in, loading="lazy", descriptive alt text
+- These are stock photos, not the shop: add ${PLACEHOLDER_ATTRIBUTE}="photo" to each <img>
 
 ### 6. REVIEWS
 - Background: bg-shop-black
 - Heading: "Word on the Street"
-- Grid: md:grid-cols-3 gap-8
-- 3 review cards. Each must:
+${rating ? `- Under the heading, show the real Google rating with star icons: "${rating}"\n` : ''}- Grid: md:grid-cols-3 gap-8
+- 3 review cards:
+${buildTestimonialInstructions(business, 3)}
+- Any review you write must:
   - Reference a SPECIFIC service or detail at ${business.name} (e.g., "The fade was so clean I went straight to church" or "First time getting a straight razor shave — felt like a new man")
   - Reviewer: "[First name] [Last initial]." with context (e.g., "— Regular since 2019" or "— Came in before my wedding")
-  - Star rating: 5 Lucide "star" icons with class text-gold fill-current (use fill-gold via inline style if needed)
+- Each card:
+  - Star rating: Lucide "star" icons (the review's own rating; 5 for written ones) with class text-gold fill-current (use fill-gold via inline style if needed)
   - Card: bg-shop-card border border-white/5 p-8
   - Large quote mark: font-display text-7xl text-gold/15 leading-none mb-2
 
@@ -227,13 +249,12 @@ Each card:
 - LEFT: Map placeholder
   - \`<div class="w-full aspect-video bg-shop-black border border-white/10 flex flex-col items-center justify-center gap-4">\`
   - Inside: Lucide "map-pin" w-10 h-10 text-gold, "Find the Shop" in font-display text-xl text-zinc-50, address in text-shop-muted
+  - Wrap it in <a href="${mapsUrl(business)}" target="_blank" rel="noopener noreferrer">
 - RIGHT: Info
   - Address with Lucide "map-pin": ${address}
   - Phone with Lucide "phone": <a href="tel:${phone.replace(/\D/g, '')}">${phone}</a>
-  - Hours in \`<dl>\` pattern, highlight today in text-gold font-semibold:
-    * Mon–Fri: 9:00 AM – 7:00 PM
-    * Saturday: 8:00 AM – 5:00 PM
-    * Sunday: Closed
+  - Hours in \`<dl>\` pattern, highlight today in text-gold font-semibold${hours ? ' (hours from Google — use exactly)' : ` — sample hours, so mark the <dl> ${PLACEHOLDER_ATTRIBUTE}="hours"`}:
+${hoursList}
 
 ### 8. BOOKING / CONTACT
 - Background: bg-shop-black
@@ -282,6 +303,7 @@ Add a <script> block before </body>:
 - NO emojis — Lucide icons or SVG only
 - NO generic headings like "Welcome to Our Barbershop" or "About Us"
 - NO placeholder prices like "$XX" — use real dollar amounts
+- EVERY invented fact carries a ${PLACEHOLDER_ATTRIBUTE} attribute (see GROUND TRUTH VS. PLACEHOLDERS); verified facts never do
 - ALL images: descriptive alt attributes + loading="lazy"
 - The <html> tag MUST include \`style="scroll-behavior: smooth;"\` — required
 - Semantic HTML: <header>, <nav>, <main>, <section>, <footer>
@@ -11,6 +11,14 @@ import {
 import { getIndustryData, detectIndustryCategory } from './industry/index.js';
 import { buildRestaurantPremiumPrompt } from './restaurant-premium.js';
 import { buildBarberPremiumPrompt } from './barber-premium.js';
+import {
+  buildTestimonialInstructions,
+  buildVerifiedFacts,
+  describeRating,
+  getHoursLines,
+  mapsUrl,
+} from './business-facts.js';
+import { buildPlaceholderRules, PLACEHOLDER_ATTRIBUTE } from '../placeholders.js';
 
 /**
  * Build a comprehensive prompt for Claude to generate a premium website.
@@ -36,7 +44,6 @@ export function buildWebsitePrompt(
   const templateDescription = TEMPLATE_DESCRIPTIONS[template];
   const industryData = getIndustryData(business.businessType || business.category);
   const featureInstructions = buildFeatureInstructions(features, business);
-  const businessContext = buildBusinessContext(business);
 
   return `You are a world-class web designer creating an Awwwards-quality website for a local business. Generate a complete, production-ready single-file HTML website that looks like it was designed by a premium agency.
 
@@ -77,14 +84,18 @@ Initialize Lucide icons at the end of body:
 <script>lucide.createIcons();</script>
 \`\`\`
 
-## BUSINESS INFORMATION
-${businessContext}
+## VERIFIED FACTS
+${buildVerifiedFacts(business)}
+
+${buildPlaceholderRules()}
 
 ## DESIGN STYLE: ${template.toUpperCase().replace(/_/g, ' ')}
 ${templateDescription}
 
 ## INDUSTRY CONTENT
-Use this specific content for the website:
+Starting copy for this kind of business. The headline, subtext and CTA are marketing copy;
+the services, prices and about text are NOT verified for ${business.name} and must be marked
+as placeholders (${PLACEHOLDER_ATTRIBUTE}="service", "price", "story").
 
 **Hero:**
 - Headline: "${industryData.heroHeadline}"
@@ -94,7 +105,7 @@ Use this specific content for the website:
 ${industryData.services.map(s => `- ${s.name} (${s.price}) — ${s.description} [Lucide icon: ${s.icon}]`).join('\n')}
 
 **Testimonials:**
-${industryData.testimonials.map(t => `- "${t.text}" — ${t.author} (${'★'.repeat(t.rating)})`).join('\n')}
+${buildTestimonialInstructions(business)}
 
 **About:** "${industryData.aboutText}"
 
@@ -150,29 +161,6 @@ Return ONLY the complete HTML code. No explanation, no markdown fences. Start wi
 Generate the complete premium HTML website now:`;
 }
 
-/**
- * Build the business context section of the prompt
- */
-function buildBusinessContext(business: BusinessInfo): string {
-  const lines: string[] = [
-    `- Business Name: ${business.name}`,
-    `- Type: ${business.businessType || business.category}`,
-    `- Location: ${business.city}, ${business.state}`,
-  ];
-
-  if (business.address) {
-    lines.push(`- Address: ${business.address}`);
-  }
-  if (business.phone) {
-    lines.push(`- Phone: ${business.phone}`);
-  }
-  if (business.email) {
-    lines.push(`- Email: ${business.email}`);
-  }
-
-  return lines.join('\n');
-}
-
 /**
  * Build feature-specific instructions
  */
@@ -208,21 +196,24 @@ function buildFeatureInstructions(features: GeneratorFeature[], business: Busine
   }
 
   if (features.includes('hours_of_operation')) {
+    const hours = getHoursLines(business);
     sections.push(`
 ### Hours of Operation
 - Clean grid with days and hours
 - Highlight today's hours if possible
-- Hours: Mon-Fri 9AM-7PM, Sat 8AM-5PM, Sun Closed
+${hours ? `- Use these exact hours (from the business's Google listing):\n${hours.map((h) => `  * ${h}`).join('\n')}` : `- Hours aren't on file: show Mon-Fri 9AM-7PM, Sat 8AM-5PM, Sun Closed and mark the hours grid ${PLACEHOLDER_ATTRIBUTE}="hours"`}
 `);
   }
 
   if (features.includes('testimonials')) {
+    const rating = describeRating(business);
     sections.push(`
 ### Testimonials Section
-- Use the provided testimonials
+- Use the testimonials described above (real reviews first)
 - Quote icon (Lucide "quote") at top of each card
 - Star rating display
 - Author name with subtle styling
+${rating ? `- Above the cards, show the real Google rating: "${rating}"` : ''}
 `);
   }
 
@@ -230,9 +221,9 @@ function buildFeatureInstructions(features: GeneratorFeature[], business: Busine
     sections.push(`
 ### Contact Section
 - Two-column: contact info left, form right
-- Phone: ${business.phone || '(555) 123-4567'} (clickable tel: link)
-- Email: ${business.email || 'info@example.com'} (clickable mailto: link)
-- Address: ${business.address || business.city + ', ' + business.state}
+- Phone: ${business.phone || `(555) 123-4567, marked ${PLACEHOLDER_ATTRIBUTE}="contact"`} (clickable tel: link)
+- Email: ${business.email || `info@example.com, marked ${PLACEHOLDER_ATTRIBUTE}="contact"`} (clickable mailto: link)
+- Address: ${business.address || business.city + ', ' + business.state}, linking to ${mapsUrl(business)}
 - Form: name, phone, email, message, submit button (action="#")
 - Each contact item has a Lucide icon (phone, mail, map-pin)
 `);
@@ -271,3 +262,35 @@ Use Tailwind CSS utility classes and this style: ${TEMPLATE_DESCRIPTIONS[templat
 
 Return only the HTML for this section, no full page structure.`;
 }
+
+/**
+ * Follow-up prompt for a site that failed the quality check, listing what to fix.
+ * Sent after the failing HTML so the model revises it rather than starting over.
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  return `The website above failed our quality check:
+
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Fix every issue listed and return the complete corrected HTML document, from <!DOCTYPE html> to </html>. Keep everything else as it is.
+
+Return ONLY the HTML code, no explanations or markdown.`;
+}
+
+/**
+ * Follow-up prompt for a site that was cut off at the output token limit
+ */
+export function buildContinuationPrompt(): string {
+  return `Your response was cut off. Continue the HTML exactly where it stopped — do not repeat anything already written, and do not start the document over. Finish every open section and end with </html>.
+
+Return ONLY the remaining HTML code, no explanations or markdown.`;
+}
+
+/**
+ * Join a continuation onto a cut-off draft, as is (the cut can fall mid-tag).
+ * A reply that starts the page over replaces the draft instead.
+ */
+export function appendContinuation(draft: string, continuation: string): string {
+  const text = continuation.replace(/^\s*```(?:html)?\n?/, '');
+  return /^\s*<!doctype html>/i.test(text) ? text : draft + text;
+}
@@ -0,0 +1,45 @@
+import type { QualityRule } from '../../types.js';
+import { findPlaceholders } from '../../placeholders.js';
+import { countMentions } from './common.js';
+
+const REPAIR_SERVICES = [
+  /\boil change/i, /\bbrakes?\b/i, /\btires?\b/i, /\bdiagnostic/i, /\btransmission/i,
+  /\balignment/i, /\bengine\b/i, /\bbatter(?:y|ies)\b/i, /\b(?:a\/c|air conditioning)\b/i,
+];
+
+const CERTIFICATION = /\bASE\b|certifi/i;
+
+export const autoRepairRules: QualityRule[] = [
+  {
+    id: 'auto.generic_heading',
+    severity: 'critical',
+    check: (html) => /welcome\s+to\s+our\s+(?:auto|repair|garage|shop)/i.test(html) ? 'Contains generic heading "Welcome to Our Shop"' : null,
+  },
+  {
+    id: 'auto.services',
+    severity: 'major',
+    check: (html) => countMentions(html, REPAIR_SERVICES) < 3
+      ? 'Fewer than 3 repair services listed — name the work done (oil changes, brakes, diagnostics...)'
+      : null,
+  },
+  {
+    // Certifications can't be verified from a listing, so any claim must be marked for review
+    id: 'auto.certifications_marked',
+    severity: 'major',
+    check: (html) => CERTIFICATION.test(html) && !findPlaceholders(html).some((placeholder) => CERTIFICATION.test(placeholder.text))
+      ? 'Certification claims aren\'t marked with data-placeholder="claim" — they must be confirmed before launch'
+      : null,
+  },
+  {
+    id: 'auto.certifications',
+    severity: 'minor',
+    check: (html) => !CERTIFICATION.test(html)
+      ? 'No certifications section — add ASE-certified technicians as a data-placeholder="claim" to confirm'
+      : null,
+  },
+  {
+    id: 'auto.estimate_cta',
+    severity: 'minor',
+    check: (html) => !/\b(?:estimate|quote|schedule)/i.test(html) ? 'No call to action for an estimate or service appointment' : null,
+  },
+];
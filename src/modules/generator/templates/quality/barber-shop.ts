@@ -0,0 +1,29 @@
+import type { QualityRule } from '../../types.js';
+import { countMentions, hasBookingCta } from './common.js';
+
+const BARBER_SERVICES = [/\bfades?\b/i, /\bbeard\b/i, /\bshaves?\b/i, /\bhaircuts?\b/i, /\bline[- ]?ups?\b/i, /\btapers?\b/i];
+
+export const barberShopRules: QualityRule[] = [
+  {
+    id: 'barber.generic_heading',
+    severity: 'critical',
+    check: (html) => /welcome\s+to\s+our\s+(?:barber\s*shop|shop)/i.test(html) ? 'Contains generic heading "Welcome to Our Barbershop"' : null,
+  },
+  {
+    id: 'barber.booking_cta',
+    severity: 'major',
+    check: (html) => !hasBookingCta(html) ? 'No booking call to action — add a "Book Your Cut" button or booking link' : null,
+  },
+  {
+    id: 'barber.service_prices',
+    severity: 'major',
+    check: (html) => !/\$\d+/.test(html) ? 'No service price list — cuts, fades and shaves should show prices' : null,
+  },
+  {
+    id: 'barber.services',
+    severity: 'minor',
+    check: (html) => countMentions(html, BARBER_SERVICES) < 2
+      ? 'Services don\'t name core barber services (fades, beard trims, shaves)'
+      : null,
+  },
+];
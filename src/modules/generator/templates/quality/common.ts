@@ -0,0 +1,115 @@
+import type { QualityRule } from '../../types.js';
+
+/**
+ * Whether a link or button's text asks the visitor to book, or it points at
+ * a booking service
+ */
+export function hasBookingCta(html: string): boolean {
+  const bookingLink = /<(?:a|button)\b[^>]*>(?:(?!<\/(?:a|button)>)[\s\S]){0,300}?\b(?:book|schedule|appointment)/i;
+  const bookingService = /href=["'][^"']*(?:booksy|vagaro|fresha|squareup|calendly|styleseat|schedulicity)\./i;
+  return bookingLink.test(html) || bookingService.test(html);
+}
+
+/**
+ * How many of the given terms appear in the page's text
+ */
+export function countMentions(html: string, terms: RegExp[]): number {
+  return terms.filter((term) => term.test(html)).length;
+}
+
+/**
+ * Rules every generated site is held to, whatever the industry
+ */
+export const commonRules: QualityRule[] = [
+  // ── Critical ───────────────────────────────────────────────────
+
+  {
+    id: 'common.lorem_ipsum',
+    severity: 'critical',
+    check: (html) => /lorem\s+ipsum/i.test(html) ? 'Contains "Lorem ipsum" placeholder text' : null,
+  },
+  {
+    // Covers most common Unicode emoji ranges
+    id: 'common.emoji',
+    severity: 'critical',
+    check: (html) => /[\u{1F300}-\u{1F9FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}\u{FE00}-\u{FE0F}]/u.test(html)
+      ? 'Contains emoji characters — use Lucide icons or SVG instead'
+      : null,
+  },
+  {
+    id: 'common.incomplete',
+    severity: 'critical',
+    check: (html) => !/<\/html>/i.test(html) ? 'HTML is incomplete — missing </html> closing tag (generation was cut off)' : null,
+  },
+  {
+    id: 'common.too_short',
+    severity: 'critical',
+    check: (html) => html.length < 18000
+      ? `Website too short (${html.length} chars) — likely incomplete generation, expected 20,000+ chars`
+      : null,
+  },
+  {
+    // Unfilled template slots
+    id: 'common.template_slots',
+    severity: 'critical',
+    check: (html) => /\[BUSINESS NAME\]|\[CITY\]|\[PHONE\]|\[ADDRESS\]/i.test(html)
+      ? 'Contains unfilled template placeholders like [BUSINESS NAME]'
+      : null,
+  },
+
+  // ── Major ──────────────────────────────────────────────────────
+
+  {
+    id: 'common.structured_data',
+    severity: 'major',
+    check: (html) => !html.includes('application/ld+json') ? 'Missing JSON-LD structured data — hurts local SEO' : null,
+  },
+  {
+    id: 'common.phone_link',
+    severity: 'major',
+    check: (html) => !/href=["']tel:/i.test(html) ? 'No tap-to-call tel: link — mobile visitors can\'t call in one tap' : null,
+  },
+  {
+    id: 'common.contact_form',
+    severity: 'major',
+    check: (html) => !html.includes('formspree.io') ? 'Missing Formspree form action — contact form will not submit' : null,
+  },
+
+  // ── Minor ──────────────────────────────────────────────────────
+
+  {
+    id: 'common.images',
+    severity: 'minor',
+    check: (html) => !html.includes('images.unsplash.com') ? 'No Unsplash images found — website may lack visual impact' : null,
+  },
+  {
+    id: 'common.og_title',
+    severity: 'minor',
+    check: (html) => !html.includes('og:title') ? 'Missing Open Graph meta tags — affects social sharing' : null,
+  },
+  {
+    id: 'common.og_description',
+    severity: 'minor',
+    check: (html) => !html.includes('og:description') ? 'Missing og:description meta tag' : null,
+  },
+  {
+    id: 'common.smooth_scroll',
+    severity: 'minor',
+    check: (html) => !html.includes('scroll-behavior') ? 'Missing smooth scroll behavior' : null,
+  },
+  {
+    id: 'common.analytics',
+    severity: 'minor',
+    check: (html) => !html.includes('data-track=') ? 'Missing data-track analytics attributes' : null,
+  },
+  {
+    id: 'common.config_block',
+    severity: 'minor',
+    check: (html) => !html.includes('BUSINESS CONFIG') ? 'Missing business config comment block at top of file' : null,
+  },
+  {
+    id: 'common.directions',
+    severity: 'minor',
+    check: (html) => !html.includes('maps.google.com') && !html.includes('google.com/maps') ? 'Missing Google Maps directions link' : null,
+  },
+];
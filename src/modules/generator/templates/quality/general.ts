@@ -0,0 +1,19 @@
+import type { QualityRule } from '../../types.js';
+
+export const generalRules: QualityRule[] = [
+  {
+    id: 'general.generic_heading',
+    severity: 'critical',
+    check: (html) => /welcome\s+to\s+our\s+(?:business|company|website)/i.test(html) ? 'Contains generic heading "Welcome to Our Business"' : null,
+  },
+  {
+    id: 'general.services',
+    severity: 'major',
+    check: (html) => !/id=["']services["']/i.test(html) ? 'No services section (id="services") — say what the business does' : null,
+  },
+  {
+    id: 'general.contact_cta',
+    severity: 'minor',
+    check: (html) => !/\b(?:call|contact|get in touch|visit)\b/i.test(html) ? 'No call to action asking visitors to call or visit' : null,
+  },
+];
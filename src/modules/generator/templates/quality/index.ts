@@ -0,0 +1,75 @@
+// Website Quality Checker
+// Scans generated HTML against an industry's rule pack and scores it
+
+import type {
+  IndustryCategory,
+  QualityCheckResult,
+  QualityFinding,
+  QualityRule,
+  QualitySeverity,
+} from '../../types.js';
+import { commonRules } from './common.js';
+import { restaurantRules } from './restaurant.js';
+import { barberShopRules } from './barber-shop.js';
+import { autoRepairRules } from './auto-repair.js';
+import { salonRules } from './salon.js';
+import { generalRules } from './general.js';
+
+export { commonRules } from './common.js';
+export { restaurantRules } from './restaurant.js';
+export { barberShopRules } from './barber-shop.js';
+export { autoRepairRules } from './auto-repair.js';
+export { salonRules } from './salon.js';
+export { generalRules } from './general.js';
+
+/**
+ * Points taken off the score of 100 for each finding
+ */
+export const SEVERITY_PENALTIES: Record<QualitySeverity, number> = {
+  critical: 25,
+  major: 8,
+  minor: 3,
+};
+
+const rulePacks: Record<IndustryCategory, QualityRule[]> = {
+  barber_shop: barberShopRules,
+  restaurant: restaurantRules,
+  auto_repair: autoRepairRules,
+  salon: salonRules,
+  general: generalRules,
+};
+
+/**
+ * The rules a site for this industry is held to: the common rules, then the
+ * industry's own.
+ */
+export function getQualityRules(category: IndustryCategory): QualityRule[] {
+  return [...commonRules, ...rulePacks[category]];
+}
+
+/**
+ * Scan generated HTML for quality red flags.
+ * Called after generation to catch AI shortcuts before saving; critical
+ * findings fail the check, and every finding lowers the score.
+ */
+export function checkWebsiteQuality(html: string, category: IndustryCategory = 'general'): QualityCheckResult {
+  const findings: QualityFinding[] = [];
+  for (const rule of getQualityRules(category)) {
+    const message = rule.check(html);
+    if (message) {
+      findings.push({ rule: rule.id, severity: rule.severity, message });
+    }
+  }
+
+  const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTIES[finding.severity], 0);
+  const issues = findings.filter((finding) => finding.severity === 'critical').map((finding) => finding.message);
+
+  return {
+    passed: issues.length === 0,
+    score: Math.max(0, 100 - penalty),
+    category,
+    findings,
+    issues,
+    warnings: findings.filter((finding) => finding.severity !== 'critical').map((finding) => finding.message),
+  };
+}
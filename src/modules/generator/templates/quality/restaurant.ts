@@ -0,0 +1,19 @@
+import type { QualityRule } from '../../types.js';
+
+export const restaurantRules: QualityRule[] = [
+  {
+    id: 'restaurant.generic_heading',
+    severity: 'critical',
+    check: (html) => /welcome\s+to\s+our\s+restaurant/i.test(html) ? 'Contains generic heading "Welcome to Our Restaurant"' : null,
+  },
+  {
+    id: 'restaurant.menu',
+    severity: 'major',
+    check: (html) => !/id=["']menu["']/i.test(html) ? 'No menu section (id="menu") — the first thing diners look for' : null,
+  },
+  {
+    id: 'restaurant.menu_prices',
+    severity: 'major',
+    check: (html) => !/\$\d+/.test(html) ? 'No prices found in menu section — dishes may lack pricing' : null,
+  },
+];
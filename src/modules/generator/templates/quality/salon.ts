@@ -0,0 +1,32 @@
+import type { QualityRule } from '../../types.js';
+import { countMentions, hasBookingCta } from './common.js';
+
+const SALON_SERVICES = [
+  /\bcolou?r\b/i, /\bhighlights\b/i, /\bbalayage\b/i, /\bblowouts?\b/i, /\bcuts?\b/i,
+  /\bmanicures?\b/i, /\bpedicures?\b/i, /\bfacials?\b/i, /\bstyling\b/i,
+];
+
+export const salonRules: QualityRule[] = [
+  {
+    id: 'salon.generic_heading',
+    severity: 'critical',
+    check: (html) => /welcome\s+to\s+our\s+(?:salon|spa)/i.test(html) ? 'Contains generic heading "Welcome to Our Salon"' : null,
+  },
+  {
+    id: 'salon.booking_cta',
+    severity: 'major',
+    check: (html) => !hasBookingCta(html) ? 'No booking call to action — add a "Book an Appointment" button or booking link' : null,
+  },
+  {
+    id: 'salon.service_prices',
+    severity: 'major',
+    check: (html) => !/\$\d+/.test(html) ? 'No service price list — services should show starting prices' : null,
+  },
+  {
+    id: 'salon.services',
+    severity: 'minor',
+    check: (html) => countMentions(html, SALON_SERVICES) < 2
+      ? 'Services don\'t name core salon services (cuts, color, styling)'
+      : null,
+  },
+];
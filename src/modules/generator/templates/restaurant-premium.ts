@@ -3,99 +3,16 @@
 // realistic menu items, structured data, and sophisticated animations.
 
 import type { BusinessInfo } from '../types.js';
-
-// ==================== QUALITY CHECKER ====================
-
-export interface QualityCheckResult {
-  passed: boolean;
-  issues: string[];    // Hard failures — website should be rejected/retried
-  warnings: string[];  // Soft issues — logged but not blocking
-}
-
-/**
- * Scan generated HTML for quality red flags.
- * Called after generation to catch AI shortcuts before saving.
- */
-export function checkWebsiteQuality(html: string): QualityCheckResult {
-  const issues: string[] = [];
-  const warnings: string[] = [];
-
-  // ── Hard failures ──────────────────────────────────────────────
-
-  if (/lorem\s+ipsum/i.test(html)) {
-    issues.push('Contains "Lorem ipsum" placeholder text');
-  }
-
-  // Emoji detection — covers most common Unicode emoji ranges
-  if (/[\u{1F300}-\u{1F9FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}\u{FE00}-\u{FE0F}]/u.test(html)) {
-    issues.push('Contains emoji characters — use Lucide icons or SVG instead');
-  }
-
-  if (/welcome\s+to\s+our\s+restaurant/i.test(html)) {
-    issues.push('Contains generic heading "Welcome to Our Restaurant"');
-  }
-
-  if (!/\<\/html\>/i.test(html)) {
-    issues.push('HTML is incomplete — missing </html> closing tag (generation was cut off)');
-  }
-
-  if (html.length < 18000) {
-    issues.push(`Website too short (${html.length} chars) — likely incomplete generation, expected 20,000+ chars`);
-  }
-
-  // Unfilled template slots
-  if (/\[BUSINESS NAME\]|\[CITY\]|\[PHONE\]|\[ADDRESS\]/i.test(html)) {
-    issues.push('Contains unfilled template placeholders like [BUSINESS NAME]');
-  }
-
-  // ── Soft warnings ──────────────────────────────────────────────
-
-  if (!html.includes('images.unsplash.com')) {
-    warnings.push('No Unsplash images found — website may lack visual impact');
-  }
-
-  if (!html.includes('application/ld+json')) {
-    warnings.push('Missing JSON-LD structured data — hurts local SEO');
-  }
-
-  if (!html.includes('og:title')) {
-    warnings.push('Missing Open Graph meta tags — affects social sharing');
-  }
-
-  if (!html.includes('og:description')) {
-    warnings.push('Missing og:description meta tag');
-  }
-
-  if (!/\$\d+/.test(html)) {
-    warnings.push('No prices found in menu section — dishes may lack pricing');
-  }
-
-  if (!html.includes('scroll-behavior')) {
-    warnings.push('Missing smooth scroll behavior');
-  }
-
-  if (!html.includes('formspree.io')) {
-    warnings.push('Missing Formspree form action — contact form will not submit');
-  }
-
-  if (!html.includes('data-track=')) {
-    warnings.push('Missing data-track analytics attributes');
-  }
-
-  if (!html.includes('BUSINESS CONFIG')) {
-    warnings.push('Missing business config comment block at top of file');
-  }
-
-  if (!html.includes('maps.google.com') && !html.includes('google.com/maps')) {
-    warnings.push('Missing Google Maps directions link');
-  }
-
-  return {
-    passed: issues.length === 0,
-    issues,
-    warnings,
-  };
-}
+import { buildPlaceholderRules, PLACEHOLDER_ATTRIBUTE } from '../placeholders.js';
+import {
+  aggregateRatingJson,
+  buildTestimonialInstructions,
+  buildVerifiedFacts,
+  describeRating,
+  getHoursLines,
+  mapsUrl as buildMapsUrl,
+  openingHoursJson,
+} from './business-facts.js';
 
 // ==================== PREMIUM PROMPT BUILDER ====================
 
@@ -106,22 +23,30 @@ export function checkWebsiteQuality(html: string): QualityCheckResult {
  * The output should look like a $2,000–$3,000 custom agency website:
  * real Unsplash photography, realistic menu items with prices,
  * a genuine chef story, smooth animations, and proper SEO markup.
+ * Verified facts are passed through as-is; everything invented is marked
+ * with data-placeholder for review.
  */
 export function buildRestaurantPremiumPrompt(business: BusinessInfo): string {
   const phone = business.phone ?? '(662) 555-0142';
   const address = business.address ?? `${business.city}, ${business.state}`;
   const year = new Date().getFullYear();
+  const rating = describeRating(business);
+  const hours = getHoursLines(business);
+  const hoursList = (hours ?? [
+    'Mon–Thu: 11:00 AM – 9:00 PM',
+    'Fri–Sat: 11:00 AM – 10:00 PM',
+    'Sunday: 10:00 AM – 8:00 PM',
+  ]).map((line) => `    * ${line}`).join('\n');
   const phoneDigits = phone.replace(/\D/g, '');
   const fullAddress = `${address}, ${business.city}, ${business.state}`;
-  const mapsUrl = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(fullAddress)}`;
+  const mapsUrl = buildMapsUrl(business);
 
   return `You are a senior frontend engineer at a top-tier digital agency (think Instrument, Fantasy Interactive, or Huge). Your client is a local restaurant that needs a website that looks like it cost $3,000 to build. Every detail matters.
 
-## BUSINESS DETAILS
-- Name: ${business.name}
-- Location: ${business.city}, ${business.state}
-- Address: ${address}
-- Phone: ${phone}
+## VERIFIED FACTS
+${buildVerifiedFacts(business)}
+${business.phone ? '' : `\nNo phone on file: use ${phone} and mark every place it appears ${PLACEHOLDER_ATTRIBUTE}="contact".\n`}
+${buildPlaceholderRules()}
 
 ## MANDATORY TECH STACK
 
@@ -187,11 +112,9 @@ Add this in <head> with real values filled in:
     "addressRegion": "${business.state}",
     "addressCountry": "US"
   },
-  "telephone": "${phone}",
-  "servesCuisine": "[cuisine type appropriate for ${business.city}, ${business.state}]",
+${business.phone ? `  "telephone": "${business.phone}",\n` : ''}  "servesCuisine": "[cuisine type appropriate for ${business.city}, ${business.state}]",
   "priceRange": "$$",
-  "openingHours": ["Mo-Th 11:00-21:00", "Fr-Sa 11:00-22:00", "Su 10:00-20:00"],
-  "url": "#"
+  "url": "#"${openingHoursJson(business)}${aggregateRatingJson(business)}
 }
 </script>
 \`\`\`
@@ -278,10 +201,11 @@ Use ONLY the photo IDs from the curated library below — do not invent IDs.
   - Eyebrow: "Our Story"
   - Heading: "A Kitchen Built on [something specific to ${business.city} culture or the restaurant's identity]"
   - Body: Write 2 real paragraphs. Mention: how ${business.name} started, the founder/head chef (invent a plausible name like "Chef Marcus Williams" or "Chef Rosa Delgado"), local ingredients or suppliers, what makes them different. Do NOT use the word "delicious" or "amazing". Be specific and human.
-  - Founding year: mention a year (pick something between 2008 and 2019 that sounds natural)
-  - A small detail stat row: "Est. [year]" | "[City] Grown" | "Family Owned" in gold with text-gold dividers
+    Mark each paragraph ${PLACEHOLDER_ATTRIBUTE}="story" and wrap the chef's name in <span ${PLACEHOLDER_ATTRIBUTE}="person">.
+  - Founding year: mention a year (pick something between 2008 and 2019 that sounds natural), wrapped in <span ${PLACEHOLDER_ATTRIBUTE}="year">
+  - A small detail stat row: "Est. [year]" | "[City] Grown" | "Family Owned" in gold with text-gold dividers; mark "Est. [year]" ${PLACEHOLDER_ATTRIBUTE}="year" and "Family Owned" ${PLACEHOLDER_ATTRIBUTE}="claim"
 - RIGHT column (image):
-  - Full-height image: <img src="https://images.unsplash.com/photo-1556909114-f6e7ad7d3136?auto=format&fit=crop&w=900&h=1100&q=80" alt="Chef at ${business.name}" class="w-full h-full object-cover rounded-sm" loading="lazy">
+  - Full-height image: <img src="https://images.unsplash.com/photo-1556909114-f6e7ad7d3136?auto=format&fit=crop&w=900&h=1100&q=80" alt="Chef at ${business.name}" class="w-full h-full object-cover rounded-sm" loading="lazy" ${PLACEHOLDER_ATTRIBUTE}="photo">
   - Subtle gold border offset: position relative, after pseudo-element or a div offset border in gold/20
 
 ### 4. MENU HIGHLIGHTS — "Signature Dishes"
@@ -294,6 +218,7 @@ Generate exactly 6 menu items appropriate for a restaurant in ${business.city},
 - Use realistic names (not "Dish 1")
 - Prices in $X.XX format, ranging $11.00–$34.00
 - Each item: name, price, 2-sentence description, search term for Unsplash food photo
+- These are not the restaurant's real menu: mark each card ${PLACEHOLDER_ATTRIBUTE}="service" and each price badge ${PLACEHOLDER_ATTRIBUTE}="price"
 
 Card layout (grid sm:grid-cols-2 lg:grid-cols-3 gap-6):
 Each card:
@@ -308,15 +233,19 @@ Each card:
 - 6 images from the Gallery library above (varied aspect ratios — some portrait, some landscape, add break-inside-avoid to each)
 - Each image: rounded-sm overflow-hidden, hover:opacity-90 transition, cursor-zoom-in
 - All images get loading="lazy" and descriptive alt text
+- These are stock photos, not the restaurant: add ${PLACEHOLDER_ATTRIBUTE}="photo" to each <img>
 
 ### 6. REVIEWS
 - Background: bg-warm-black
 - Heading: "What Guests Are Saying"
-- Grid: md:grid-cols-3 gap-8
-- 3 review cards. Each must:
+${rating ? `- Under the heading, show the real Google rating with star icons: "${rating}"\n` : ''}- Grid: md:grid-cols-3 gap-8
+- 3 review cards:
+${buildTestimonialInstructions(business, 3)}
+- Any review you write must:
   - Reference a SPECIFIC dish or experience at ${business.name} (e.g., "The smoked catfish was unlike anything I've had" or "We celebrated our daughter's graduation here")
   - Reviewer: "[First name] [Last initial]." with context (e.g., "— Local regular" or "— Visited for anniversary")
-  - Star rating: 5 filled Lucide "star" icons with class text-gold fill-current
+- Each card:
+  - Star rating: filled Lucide "star" icons (the review's own rating; 5 for written ones) with class text-gold fill-current
   - Card: bg-warm-card border border-warm-muted/20 p-8 rounded-sm
   - Gold quotation mark: font-display text-6xl text-gold/20 leading-none mb-4
 
@@ -330,10 +259,8 @@ Each card:
 - RIGHT: Info column
   - Address with Lucide "map-pin": \`<a href="${mapsUrl}" target="_blank" rel="noopener noreferrer" data-track="get-directions" class="hover:text-gold transition-colors">${address}</a>\`
   - Phone with Lucide "phone": \`<a href="tel:${phoneDigits}" data-track="contact-call" class="hover:text-gold transition-colors">${phone}</a>\`
-  - Hours table: use \`<dl>\` pattern with day/hours pairs, highlight today in text-gold font-semibold
-    * Mon–Thu: 11:00 AM – 9:00 PM
-    * Fri–Sat: 11:00 AM – 10:00 PM
-    * Sunday: 10:00 AM – 8:00 PM
+  - Hours table: use \`<dl>\` pattern with day/hours pairs, highlight today in text-gold font-semibold${hours ? ' (hours from Google — use exactly)' : ` — sample hours, so mark the <dl> ${PLACEHOLDER_ATTRIBUTE}="hours"`}
+${hoursList}
 
 ### 8. RESERVATION / CONTACT
 - Background: bg-warm-surface
@@ -404,6 +331,7 @@ Add a <script> block before </body> with:
 - NO emojis — use only Lucide icons or SVG
 - NO generic headings like "Welcome to Our Restaurant" or "About Us" (use specific, evocative headings)
 - NO placeholder prices like "$XX" — use real dollar amounts
+- EVERY invented fact carries a ${PLACEHOLDER_ATTRIBUTE} attribute (see GROUND TRUTH VS. PLACEHOLDERS); verified facts never do
 - ALL images must have descriptive alt attributes and loading="lazy"
 - The <html> opening tag MUST include \`style="scroll-behavior: smooth;"\` — this is non-negotiable
 - Semantic HTML: use <header>, <nav>, <main>, <section>, <footer>, <article>
@@ -134,6 +134,9 @@ export interface GeneratorConfig {
 
   /** Which AI provider to use for generation (default: claude) */
   provider?: AIProvider;
+
+  /** Tries per website before it's given up on for failing the quality check (default: GENERATION_MAX_ATTEMPTS or 3) */
+  maxAttempts?: number;
 }
 
 /**
@@ -174,6 +177,140 @@ export interface BusinessInfo {
   phone?: string;
   email?: string;
   address?: string;
+  hours?: string[];        // Places weekday lines, e.g. "Monday: 9:00 AM – 5:00 PM"
+  rating?: number;         // Google rating, 1-5
+  reviewCount?: number;    // Number of Google reviews behind the rating
+  reviews?: BusinessReviewSnippet[]; // Real review snippets, best first
+  latitude?: number;
+  longitude?: number;
+  placeTypes?: string[];   // Google types, e.g. ["barber_shop", "hair_care"]
+}
+
+/**
+ * A real customer review, quoted on the site instead of invented testimonials
+ */
+export interface BusinessReviewSnippet {
+  author: string;
+  rating?: number;
+  text: string;
+}
+
+/**
+ * How much a failed quality rule matters. Critical findings fail the check
+ * (the site is retried or rejected); major and minor ones lower the score.
+ */
+export type QualitySeverity = 'critical' | 'major' | 'minor';
+
+/**
+ * One check in an industry's quality rule pack
+ */
+export interface QualityRule {
+  id: string;                    // e.g. "barber.booking_cta"
+  severity: QualitySeverity;
+  check: (html: string) => string | null;  // What's wrong, or null if the page passes
+}
+
+/**
+ * A rule the page failed
+ */
+export interface QualityFinding {
+  rule: string;
+  severity: QualitySeverity;
+  message: string;
+}
+
+/**
+ * Result of checking a generated site against its industry's rule pack
+ */
+export interface QualityCheckResult {
+  passed: boolean;              // No critical findings
+  score: number;                // 0-100, less a penalty per finding by severity
+  category: IndustryCategory;   // Which rule pack was used
+  findings: QualityFinding[];
+  issues: string[];             // Critical findings — website should be rejected/retried
+  warnings: string[];           // Major and minor findings — logged but not blocking
+}
+
+/**
+ * One pass at a website, as the client returned it. Cut-off output is left
+ * open (no closing tags added) so it can be continued.
+ */
+export interface WebsiteDraft {
+  html: string;
+  truncated: boolean;  // The model stopped at its output token limit
+}
+
+/**
+ * What was wrong with the previous draft, so the next request can fix it
+ */
+export interface GenerationFeedback {
+  html: string;        // The previous draft
+  truncated: boolean;  // Cut off: continue it from where it stopped
+  issues: string[];    // Quality check failures to repair otherwise
+}
+
+/**
+ * How a draft was asked for: from scratch, continuing a cut-off draft, or
+ * repairing one that failed the quality check
+ */
+export type GenerationAction = 'generate' | 'continue' | 'repair';
+
+/**
+ * One attempt in a quality-gated generation
+ */
+export interface QualityAttempt {
+  attempt: number;
+  action: GenerationAction;
+  length: number;      // Characters of HTML after this attempt
+  truncated: boolean;
+  score: number;
+  issues: string[];    // Critical findings; empty once it passed
+}
+
+/**
+ * The quality check of the saved website, with every attempt it took.
+ * Stored as JSON in generated_websites.quality_report.
+ */
+export interface WebsiteQualityReport extends QualityCheckResult {
+  attempts: QualityAttempt[];
+}
+
+/**
+ * Structural and accessibility checks run on generated HTML
+ */
+export type AuditCheck =
+  | 'unclosed_tag'
+  | 'stray_end_tag'
+  | 'duplicate_id'
+  | 'missing_alt'
+  | 'heading_order'
+  | 'form_label'
+  | 'color_contrast'
+  | 'missing_lang'
+  | 'missing_viewport';
+
+/**
+ * Errors break the page or block assistive tech; warnings are worth fixing
+ */
+export type AuditSeverity = 'error' | 'warning';
+
+/**
+ * One problem found by the audit
+ */
+export interface AuditFinding {
+  check: AuditCheck;
+  severity: AuditSeverity;
+  message: string;
+  line?: number;       // Where in the HTML, when it points at one element
+}
+
+/**
+ * Result of auditing a generated site
+ */
+export interface WebsiteAuditResult {
+  errors: number;
+  warnings: number;
+  findings: AuditFinding[];
 }
 
 /**
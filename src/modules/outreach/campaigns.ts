@@ -0,0 +1,424 @@
+// Outreach Campaigns
+// Persistent campaigns with a send queue, daily cap, sending window and scheduler loop
+
+import { db } from '../../database/index.js';
+import type { Campaign, CampaignStatus, CampaignRecipient } from '../../database/types.js';
+import { logger, sleep } from '../../utils/index.js';
+import { SuppressionService } from './suppression.js';
+import { DEFAULT_TIMEZONE, isWithinSendWindow, startOfLocalDay, timezoneForBusiness } from './timezones.js';
+import type { OutreachService } from './index.js';
+import type {
+  CampaignOptions,
+  EmailRecipient,
+  OutreachCampaign,
+  SchedulerOptions,
+  SchedulerTickResult,
+} from './types.js';
+
+// Allowed campaign status changes
+export const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ['active'],
+  active: ['paused', 'completed'],
+  paused: ['active', 'completed'],
+  completed: [],
+};
+
+const DEFAULT_DAILY_CAP = 50;
+const DEFAULT_SEND_WINDOW_START = 9;
+const DEFAULT_SEND_WINDOW_END = 17;
+const DEFAULT_MAX_SEND_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 5 * 60_000;
+
+/**
+ * Thrown when a campaign is moved to a status it can't reach from its current one.
+ */
+export class InvalidCampaignTransitionError extends Error {
+  constructor(
+    public readonly campaignId: string,
+    public readonly from: CampaignStatus,
+    public readonly to: CampaignStatus
+  ) {
+    super(`Campaign ${campaignId} cannot go from "${from}" to "${to}"`);
+    this.name = 'InvalidCampaignTransitionError';
+  }
+}
+
+/**
+ * CampaignService - Creates campaigns and manages their lifecycle
+ *
+ * Campaigns start as drafts. Recipients can be queued at any point before
+ * the campaign completes; the CampaignScheduler drains the queue of active
+ * campaigns. Status changes:
+ *
+ *   draft -> active <-> paused
+ *            active/paused -> completed
+ *
+ * Usage:
+ * ```typescript
+ * const campaigns = new CampaignService();
+ * const campaign = campaigns.createCampaign({ name: 'March launch', templateId, dailyCap: 25 });
+ * campaigns.addRecipients(campaign.id, campaigns.recipientsFromDeployed());
+ * campaigns.activate(campaign.id);
+ * ```
+ */
+export class CampaignService {
+  private suppression: SuppressionService;
+
+  constructor(suppression?: SuppressionService) {
+    this.suppression = suppression ?? new SuppressionService();
+  }
+
+  /**
+   * Create a draft campaign.
+   * Throws if the template doesn't exist or the settings are out of range.
+   */
+  createCampaign(options: CampaignOptions): OutreachCampaign {
+    const dailyCap = options.dailyCap ?? DEFAULT_DAILY_CAP;
+    const start = options.sendWindowStart ?? DEFAULT_SEND_WINDOW_START;
+    const end = options.sendWindowEnd ?? DEFAULT_SEND_WINDOW_END;
+    const timezone = options.timezone ?? DEFAULT_TIMEZONE;
+
+    if (!db.getEmailTemplateById(options.templateId)) {
+      throw new Error(`Template not found: ${options.templateId}`);
+    }
+    if (!Number.isInteger(dailyCap) || dailyCap < 1) {
+      throw new Error(`Daily cap must be a positive whole number, got ${dailyCap}`);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > 24 || start >= end) {
+      throw new Error(`Invalid sending window ${start}-${end}; expected hours with 0 <= start < end <= 24`);
+    }
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+
+    const campaign = db.insertCampaign({
+      name: options.name,
+      template_id: options.templateId,
+      daily_cap: dailyCap,
+      send_window_start: start,
+      send_window_end: end,
+      timezone,
+    });
+
+    logger.info(`Created campaign "${campaign.name}" (${campaign.id})`);
+    return this.toOutreachCampaign(campaign);
+  }
+
+  /**
+   * Queue recipients for a campaign.
+   * Businesses already in the campaign, suppressed addresses and
+   * do-not-contact businesses are skipped.
+   *
+   * @returns Number of recipients queued
+   */
+  addRecipients(campaignId: string, recipients: EmailRecipient[]): number {
+    const campaign = this.requireCampaign(campaignId);
+    if (campaign.status === 'completed') {
+      throw new Error(`Campaign ${campaignId} is completed; create a new campaign instead`);
+    }
+
+    const allowed = recipients.filter((recipient) => {
+      const blocked = this.suppression.checkRecipient(recipient.businessId, recipient.email);
+      if (blocked) {
+        logger.info(`  Skipping ${recipient.email}: ${blocked}`);
+      }
+      return !blocked;
+    });
+
+    return db.insertCampaignRecipients(
+      allowed.map((recipient) => ({
+        campaign_id: campaignId,
+        business_id: recipient.businessId,
+        email: recipient.email,
+        name: recipient.name,
+        website_preview_url: recipient.websitePreviewUrl,
+      }))
+    );
+  }
+
+  /**
+   * Build recipients from deployed businesses that have an email address.
+   */
+  recipientsFromDeployed(limit = 100): EmailRecipient[] {
+    return db
+      .queryBusinesses({ status: 'deployed', limit })
+      .filter((business) => business.email)
+      .map((business) => ({
+        businessId: business.id,
+        email: business.email!,
+        name: business.name,
+        websitePreviewUrl: db.getLatestDeployedWebsiteForBusiness(business.id)?.preview_url ?? '',
+      }));
+  }
+
+  /**
+   * Start (or resume) sending.
+   */
+  activate(campaignId: string): OutreachCampaign {
+    return this.transition(campaignId, 'active');
+  }
+
+  /**
+   * Stop sending until the campaign is activated again.
+   */
+  pause(campaignId: string): OutreachCampaign {
+    return this.transition(campaignId, 'paused');
+  }
+
+  /**
+   * Finish the campaign. Anything still queued is never sent.
+   */
+  complete(campaignId: string): OutreachCampaign {
+    return this.transition(campaignId, 'completed');
+  }
+
+  /**
+   * Move a campaign to a new status, enforcing CAMPAIGN_TRANSITIONS.
+   */
+  transition(campaignId: string, to: CampaignStatus): OutreachCampaign {
+    const campaign = this.requireCampaign(campaignId);
+
+    if (!CAMPAIGN_TRANSITIONS[campaign.status].includes(to)) {
+      throw new InvalidCampaignTransitionError(campaignId, campaign.status, to);
+    }
+
+    const updated = db.updateCampaignStatus(campaignId, to)!;
+    logger.info(`Campaign "${updated.name}" is now ${to}`);
+    return this.toOutreachCampaign(updated);
+  }
+
+  /**
+   * Get a campaign with live counts.
+   */
+  getCampaign(campaignId: string): OutreachCampaign | null {
+    const campaign = db.getCampaignById(campaignId);
+    return campaign ? this.toOutreachCampaign(campaign) : null;
+  }
+
+  /**
+   * List campaigns with live counts.
+   */
+  listCampaigns(status?: CampaignStatus): OutreachCampaign[] {
+    return db.getCampaigns(status).map((campaign) => this.toOutreachCampaign(campaign));
+  }
+
+  private requireCampaign(campaignId: string): Campaign {
+    const campaign = db.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+    return campaign;
+  }
+
+  /**
+   * Convert a database row plus counts to an OutreachCampaign.
+   */
+  private toOutreachCampaign(campaign: Campaign): OutreachCampaign {
+    const counts = db.getCampaignCounts(campaign.id);
+
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      templateId: campaign.template_id,
+      status: campaign.status,
+      sentCount: counts.sent,
+      openCount: counts.opened,
+      clickCount: counts.clicked,
+      queuedCount: counts.queued,
+      failedCount: counts.failed,
+      suppressedCount: counts.suppressed,
+      dailyCap: campaign.daily_cap,
+      sendWindowStart: campaign.send_window_start,
+      sendWindowEnd: campaign.send_window_end,
+      timezone: campaign.timezone,
+    };
+  }
+}
+
+/**
+ * CampaignScheduler - Drains the send queue of active campaigns
+ *
+ * Each pass, for every active campaign:
+ * 1. Works out how much of today's cap is left
+ * 2. Sends to queued recipients whose local time is inside the sending window
+ * 3. Leaves everyone else queued for a later pass
+ * 4. Completes the campaign once nothing is left in the queue
+ *
+ * "Today" for the cap is the calendar day in the campaign's timezone.
+ *
+ * A send that fails temporarily (4xx reply, connection trouble) leaves the
+ * recipient queued and retries it after a backoff that doubles each time
+ * (5, 10, 20... minutes by default); after maxSendAttempts tries, or on a
+ * permanent failure, the recipient is marked failed.
+ *
+ * Usage:
+ * ```typescript
+ * const scheduler = new CampaignScheduler(new OutreachService());
+ * await scheduler.tick();      // one pass
+ * await scheduler.run();       // loop until stop() is called
+ * ```
+ */
+export class CampaignScheduler {
+  private outreachService: OutreachService;
+  private options: SchedulerOptions;
+  private running = false;
+
+  constructor(outreachService: OutreachService, options?: Partial<SchedulerOptions>) {
+    this.outreachService = outreachService;
+    this.options = {
+      intervalMs: options?.intervalMs ?? 60_000,
+      sendDelayMs: options?.sendDelayMs ?? 2_000,
+      maxSendAttempts: Math.max(1, options?.maxSendAttempts ?? DEFAULT_MAX_SEND_ATTEMPTS),
+      retryDelayMs: options?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    };
+  }
+
+  /**
+   * Run one pass over all active campaigns.
+   */
+  async tick(now: Date = new Date()): Promise<SchedulerTickResult> {
+    const result: SchedulerTickResult = { sent: 0, failed: 0, retrying: 0, deferred: 0, capped: [], completed: [] };
+
+    for (const campaign of db.getCampaigns('active')) {
+      await this.processCampaign(campaign, now, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run passes until stop() is called.
+   */
+  async run(): Promise<void> {
+    this.running = true;
+    logger.info(`Campaign scheduler started (every ${this.options.intervalMs / 1000}s)`);
+
+    while (this.running) {
+      try {
+        const result = await this.tick();
+        if (result.sent > 0 || result.failed > 0 || result.retrying > 0) {
+          logger.info(`Scheduler pass: ${result.sent} sent, ${result.failed} failed, ${result.retrying} to retry, ${result.deferred} waiting`);
+        }
+      } catch (error) {
+        logger.error('Scheduler pass failed:', error);
+      }
+
+      if (this.running) {
+        await sleep(this.options.intervalMs);
+      }
+    }
+
+    logger.info('Campaign scheduler stopped');
+  }
+
+  /**
+   * Stop the loop after the current pass.
+   */
+  stop(): void {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private async processCampaign(campaign: Campaign, now: Date, result: SchedulerTickResult): Promise<void> {
+    const queued = db.getQueuedCampaignRecipients(campaign.id, 1000);
+
+    if (queued.length === 0) {
+      db.updateCampaignStatus(campaign.id, 'completed');
+      result.completed.push(campaign.id);
+      logger.info(`Campaign "${campaign.name}" has no recipients left - completed`);
+      return;
+    }
+
+    let remaining = campaign.daily_cap - db.countCampaignSentSince(campaign.id, startOfLocalDay(campaign.timezone, now).toISOString());
+    if (remaining <= 0) {
+      result.capped.push(campaign.id);
+      return;
+    }
+
+    for (const recipient of queued) {
+      if (remaining <= 0) {
+        result.capped.push(campaign.id);
+        break;
+      }
+
+      // Paused from elsewhere mid-pass
+      if (db.getCampaignById(campaign.id)?.status !== 'active') {
+        break;
+      }
+
+      const business = db.getBusinessById(recipient.business_id);
+      if (!business) {
+        db.markCampaignRecipientFailed(recipient.id, 'Business no longer exists');
+        result.failed++;
+        continue;
+      }
+
+      const timezone = timezoneForBusiness(business);
+      const waitingToRetry = recipient.next_attempt_at !== null && recipient.next_attempt_at > now.toISOString();
+      if (waitingToRetry || !isWithinSendWindow(timezone, campaign.send_window_start, campaign.send_window_end, now)) {
+        result.deferred++;
+        continue;
+      }
+
+      const outcome = await this.send(campaign, recipient, now);
+      if (outcome === 'sent') {
+        result.sent++;
+        remaining--;
+      } else if (outcome === 'retrying') {
+        result.retrying++;
+      } else {
+        result.failed++;
+      }
+
+      if (this.options.sendDelayMs > 0) {
+        await sleep(this.options.sendDelayMs);
+      }
+    }
+  }
+
+  private async send(campaign: Campaign, recipient: CampaignRecipient, now: Date): Promise<'sent' | 'retrying' | 'failed'> {
+    const result = await this.outreachService.sendEmail(
+      {
+        businessId: recipient.business_id,
+        email: recipient.email,
+        name: recipient.name,
+        websitePreviewUrl: recipient.website_preview_url,
+      },
+      campaign.template_id
+    );
+
+    if (result.success && result.messageId) {
+      db.markCampaignRecipientSent(recipient.id, result.messageId);
+      return 'sent';
+    }
+
+    if (result.suppressed) {
+      db.markCampaignRecipientSuppressed(recipient.id, result.error ?? 'Suppressed');
+      return 'failed';
+    }
+
+    const attempts = recipient.attempts + 1;
+    if (result.retryable && attempts < this.options.maxSendAttempts) {
+      const delayMs = this.options.retryDelayMs * 2 ** (attempts - 1);
+      const nextAttemptAt = new Date(now.getTime() + delayMs).toISOString();
+      db.markCampaignRecipientRetry(recipient.id, result.error ?? 'Unknown error', nextAttemptAt);
+      logger.warn(`  Will retry ${recipient.email} after ${nextAttemptAt} (attempt ${attempts} of ${this.options.maxSendAttempts})`);
+      return 'retrying';
+    }
+
+    db.markCampaignRecipientFailed(recipient.id, result.error ?? 'Unknown error');
+    return 'failed';
+  }
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
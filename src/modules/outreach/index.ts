@@ -1,66 +1,303 @@
-// Outreach Module (Future Implementation)
+// Outreach Module
 // Responsible for contacting businesses about their generated websites
 
-// TODO: Implement email outreach
-// - Email template management
-// - Send outreach emails
-// - Track email opens and clicks
-// - Handle responses
-
-export interface EmailTemplate {
-  id: string;
-  name: string;
-  subject: string;
-  htmlBody: string;
-  textBody: string;
-}
+import { randomUUID } from 'crypto';
+import { db } from '../../database/index.js';
+import type { Business, EmailTemplateRecord } from '../../database/types.js';
+import { logger, isValidEmail } from '../../utils/index.js';
+import { TrackingLinks, trackingLinks } from '../tracking/links.js';
+import { SmtpClient, smtpClient } from './smtp-client.js';
+import { renderTemplate, validateTemplate, TemplateRenderError } from './templates.js';
+import { CampaignService } from './campaigns.js';
+import { SuppressionService, isHardBounce, isTransientSendError } from './suppression.js';
+import { MaildirMailbox } from './mailbox.js';
+import { ReplyIngester } from './replies.js';
+import type {
+  EmailTemplate,
+  EmailRecipient,
+  MergeFields,
+  OutreachCampaign,
+  ReplyIngestResult,
+  SendResult,
+} from './types.js';
 
-export interface OutreachCampaign {
-  id: string;
-  name: string;
-  templateId: string;
-  status: 'draft' | 'active' | 'paused' | 'completed';
-  sentCount: number;
-  openCount: number;
-  clickCount: number;
-}
+// Re-export types, client and template helpers
+export * from './types.js';
+export { SmtpClient, smtpClient } from './smtp-client.js';
+export {
+  renderTemplate,
+  validateTemplate,
+  findMergeFields,
+  escapeHtml,
+  TemplateRenderError,
+  DEFAULT_TEMPLATE,
+} from './templates.js';
+export {
+  CampaignService,
+  CampaignScheduler,
+  InvalidCampaignTransitionError,
+  CAMPAIGN_TRANSITIONS,
+} from './campaigns.js';
+export { SuppressionService, isHardBounce, isTransientSendError } from './suppression.js';
+export { MaildirMailbox, parseEmail } from './mailbox.js';
+export { ReplyIngester, classifyReply, stripQuotedText } from './replies.js';
+export { TaskQueueService, buildCallScript } from './tasks.js';
+export { timezoneForBusiness, localHour, isWithinSendWindow, startOfLocalDay, DEFAULT_TIMEZONE } from './timezones.js';
 
-export interface EmailRecipient {
-  businessId: string;
-  email: string;
-  name: string;
-  websitePreviewUrl: string;
-}
+/**
+ * OutreachService - Sends outreach emails about generated websites
+ *
+ * This service:
+ * 1. Stores email templates with merge fields ({{business_name}}, {{city}}, {{preview_url}}, ...)
+ * 2. Renders a template for a business using its deployed preview URL
+ * 3. Sends the email over SMTP
+ * 4. Logs the send in outreach_log and keeps the SMTP Message-ID for reply matching
+ * 5. Adds an open pixel and click-tracking links when TRACKING_BASE_URL is set
+ * 6. Refuses suppressed addresses and do-not-contact businesses, adds the
+ *    address/unsubscribe footer, and suppresses addresses that hard bounce
+ *
+ * Replies are handled separately by ReplyIngester (see replies.ts), and
+ * phone/in-person outreach by TaskQueueService (see tasks.ts).
+ *
+ * Usage:
+ * ```typescript
+ * const service = new OutreachService();
+ * const template = service.createTemplate(DEFAULT_TEMPLATE);
+ *
+ * const result = await service.sendEmail({
+ *   businessId: business.id,
+ *   email: 'owner@example.com',
+ *   name: 'Marcus',
+ *   websitePreviewUrl: '',   // looked up from generated_websites when deployed
+ * }, template!.id);
+ * ```
+ */
+export class OutreachService {
+  private client: SmtpClient;
+  private links: TrackingLinks;
+  private suppression: SuppressionService;
+
+  constructor(client?: SmtpClient, links?: TrackingLinks, suppression?: SuppressionService) {
+    this.client = client ?? smtpClient;
+    this.links = links ?? trackingLinks;
+    this.suppression = suppression ?? new SuppressionService();
+  }
+
+  /**
+   * Save a new email template.
+   *
+   * @returns The stored template, or null if it uses unknown merge fields
+   *          or has no physical address for the footer
+   */
+  createTemplate(template: Omit<EmailTemplate, 'id'>): EmailTemplate | null {
+    const unknown = validateTemplate(template);
+    if (unknown.length > 0) {
+      logger.error(`Template "${template.name}" uses unknown merge fields: ${unknown.join(', ')}`);
+      return null;
+    }
+
+    if (!template.physicalAddress?.trim()) {
+      logger.error(`Template "${template.name}" needs a physical address for the email footer (set EMAIL_PHYSICAL_ADDRESS)`);
+      return null;
+    }
+
+    const record = db.insertEmailTemplate({
+      name: template.name,
+      subject: template.subject,
+      html_body: template.htmlBody,
+      text_body: template.textBody,
+      physical_address: template.physicalAddress.trim(),
+    });
+
+    return this.toEmailTemplate(record);
+  }
+
+  /**
+   * Get a stored template by ID.
+   */
+  getTemplate(templateId: string): EmailTemplate | null {
+    const record = db.getEmailTemplateById(templateId);
+    return record ? this.toEmailTemplate(record) : null;
+  }
+
+  /**
+   * Render a template and send it to one recipient.
+   * Successful sends are logged to outreach_log (which marks the business contacted).
+   * Suppressed recipients are never sent to; the result has `suppressed: true`.
+   */
+  async sendEmail(recipient: EmailRecipient, templateId: string): Promise<SendResult> {
+    const template = this.getTemplate(templateId);
+    if (!template) {
+      return { success: false, error: `Template not found: ${templateId}` };
+    }
+
+    const business = db.getBusinessById(recipient.businessId);
+    if (!business) {
+      return { success: false, error: `Business not found: ${recipient.businessId}` };
+    }
+
+    if (!isValidEmail(recipient.email)) {
+      return { success: false, error: `Invalid email address: ${recipient.email}` };
+    }
+
+    const blocked = this.suppression.checkRecipient(business.id, recipient.email);
+    if (blocked) {
+      logger.info(`Not sending to ${business.name}: ${blocked}`);
+      return { success: false, suppressed: true, error: blocked };
+    }
+
+    let rendered;
+    try {
+      rendered = renderTemplate(template, this.buildMergeFields(business, recipient));
+    } catch (error) {
+      if (error instanceof TemplateRenderError) {
+        logger.warn(`Not sending to ${business.name}: ${error.message}`);
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+
+    // The email_messages row ID doubles as the tracking token
+    const emailMessageId = randomUUID();
+
+    try {
+      const sent = await this.client.send({
+        to: recipient.email,
+        subject: rendered.subject,
+        html: this.links.instrumentEmailHtml(rendered.html, emailMessageId),
+        text: rendered.text,
+        headers: this.listUnsubscribeHeaders(recipient.email),
+      });
+
+      if (sent.rejected.length > 0 && sent.accepted.length === 0) {
+        return { success: false, error: `Recipient rejected: ${sent.rejected.join(', ')}` };
+      }
 
-export interface SendResult {
-  success: boolean;
-  messageId?: string;
-  error?: string;
+      const log = db.logOutreach({
+        business_id: business.id,
+        method: 'email',
+        notes: `Template "${template.name}" sent to ${recipient.email} (Message-ID ${sent.messageId})`,
+      });
+
+      db.insertEmailMessage({
+        id: emailMessageId,
+        outreach_id: log.id,
+        business_id: business.id,
+        template_id: template.id,
+        message_id: sent.messageId,
+        to_email: recipient.email,
+        subject: rendered.subject,
+        sent_at: log.sent_at,
+      });
+
+      logger.info(`Email sent to ${business.name} <${recipient.email}>`);
+      return { success: true, messageId: sent.messageId };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to send email to ${recipient.email}: ${message}`);
+
+      if (isHardBounce(error)) {
+        this.suppression.recordBounce(recipient.email, { hard: true, detail: message, businessId: business.id });
+      }
+
+      return { success: false, error: message, retryable: isTransientSendError(error) };
+    }
+  }
+
+  /**
+   * Build merge field values for a business.
+   * Prefers the latest deployed preview URL over the one passed with the recipient.
+   */
+  buildMergeFields(business: Business, recipient: EmailRecipient): Partial<MergeFields> {
+    const deployed = db.getLatestDeployedWebsiteForBusiness(business.id);
+
+    return {
+      business_name: business.name,
+      city: business.city ?? '',
+      state: business.state ?? '',
+      preview_url: deployed?.preview_url ?? recipient.websitePreviewUrl,
+      recipient_name: recipient.name || business.name,
+      recipient_email: recipient.email,
+      unsubscribe_url: this.links.unsubscribeUrl(recipient.email) ?? this.mailtoUnsubscribe(),
+    };
+  }
+
+  /**
+   * List-Unsubscribe headers so mail clients can show their own unsubscribe button.
+   */
+  private listUnsubscribeHeaders(email: string): Record<string, string> {
+    const url = this.links.unsubscribeUrl(email);
+    if (!url) {
+      return { 'List-Unsubscribe': `<${this.mailtoUnsubscribe()}>` };
+    }
+
+    return {
+      'List-Unsubscribe': `<${url}>, <${this.mailtoUnsubscribe()}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  /**
+   * Reply-based unsubscribe, used when there's no tracking server for links.
+   */
+  private mailtoUnsubscribe(): string {
+    return `mailto:${this.client.getFromAddress()}?subject=unsubscribe`;
+  }
+
+  /**
+   * Check if the SMTP client is in mock mode.
+   */
+  isInMockMode(): boolean {
+    return this.client.isInMockMode();
+  }
+
+  /**
+   * Convert a database row to an EmailTemplate.
+   */
+  private toEmailTemplate(record: EmailTemplateRecord): EmailTemplate {
+    return {
+      id: record.id,
+      name: record.name,
+      subject: record.subject,
+      htmlBody: record.html_body,
+      textBody: record.text_body,
+      physicalAddress: record.physical_address,
+    };
+  }
 }
 
-// TODO: Implement outreach functions
+const defaultService = new OutreachService();
+const defaultCampaigns = new CampaignService();
+
+// Legacy export for backwards compatibility
 export const outreach = {
+  OutreachService,
+
   // Send an outreach email
-  sendEmail: async (_recipient: EmailRecipient, _templateId: string): Promise<SendResult> => {
-    // TODO: Implement
-    return { success: false, error: 'Not implemented' };
-  },
+  sendEmail: (recipient: EmailRecipient, templateId: string): Promise<SendResult> =>
+    defaultService.sendEmail(recipient, templateId),
 
   // Create a new email template
-  createTemplate: async (_template: Omit<EmailTemplate, 'id'>): Promise<EmailTemplate | null> => {
-    // TODO: Implement
-    return null;
-  },
+  createTemplate: async (template: Omit<EmailTemplate, 'id'>): Promise<EmailTemplate | null> =>
+    defaultService.createTemplate(template),
 
   // Get campaign statistics
-  getCampaignStats: async (_campaignId: string): Promise<OutreachCampaign | null> => {
-    // TODO: Implement
-    return null;
-  },
+  getCampaignStats: async (campaignId: string): Promise<OutreachCampaign | null> =>
+    defaultCampaigns.getCampaign(campaignId),
 
-  // Schedule outreach for a batch of businesses
-  scheduleBatch: async (_recipients: EmailRecipient[], _templateId: string): Promise<string> => {
-    // TODO: Implement - returns campaign ID
-    return '';
+  // Schedule outreach for a batch of businesses.
+  // Creates and activates a campaign with default settings; returns its ID.
+  scheduleBatch: async (recipients: EmailRecipient[], templateId: string): Promise<string> => {
+    const campaign = defaultCampaigns.createCampaign({
+      name: `Batch ${new Date().toISOString()}`,
+      templateId,
+    });
+    defaultCampaigns.addRecipients(campaign.id, recipients);
+    defaultCampaigns.activate(campaign.id);
+    return campaign.id;
   },
+
+  // Ingest replies from a local maildir and record them as outreach responses
+  ingestReplies: (maildir: string): Promise<ReplyIngestResult> =>
+    new ReplyIngester(new MaildirMailbox(maildir)).ingest(),
 };
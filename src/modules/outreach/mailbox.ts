@@ -0,0 +1,311 @@
+// Mailbox
+// Reads inbound email from a local maildir and parses RFC 5322 messages into InboundEmail,
+// including bounce (DSN) and complaint (ARF) reports
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync } from 'fs';
+import { join } from 'path';
+import { logger } from '../../utils/index.js';
+import type { InboundEmail, MailboxSource, MailReport } from './types.js';
+
+/**
+ * MaildirMailbox - Reads messages from a maildir (new/, cur/, tmp/)
+ *
+ * Unprocessed messages are the files in new/. Processing moves a file to
+ * cur/ with the "seen" flag, the same as a mail client reading it, so the
+ * directory can be shared with a local MDA (e.g. fetchmail/getmail delivering
+ * into it) or filled by hand with .eml files for testing.
+ *
+ * Usage:
+ * ```typescript
+ * const mailbox = new MaildirMailbox('./data/mailbox');
+ * for (const email of await mailbox.fetchUnprocessed()) {
+ *   console.log(email.from, email.subject);
+ *   await mailbox.markProcessed(email.key);
+ * }
+ * ```
+ */
+export class MaildirMailbox implements MailboxSource {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+    for (const dir of ['new', 'cur', 'tmp']) {
+      mkdirSync(join(root, dir), { recursive: true });
+    }
+  }
+
+  async fetchUnprocessed(): Promise<InboundEmail[]> {
+    const dir = join(this.root, 'new');
+    const emails: InboundEmail[] = [];
+
+    for (const file of readdirSync(dir).sort()) {
+      if (file.startsWith('.')) continue;
+
+      try {
+        emails.push(parseEmail(readFileSync(join(dir, file), 'utf-8'), file));
+      } catch (error) {
+        logger.warn(`Could not parse ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return emails;
+  }
+
+  async markProcessed(key: string): Promise<void> {
+    const source = join(this.root, 'new', key);
+    if (!existsSync(source)) return;
+
+    // Maildir info suffix: version 2, flag S (seen)
+    const target = key.includes(':2,') ? key : `${key}:2,S`;
+    renameSync(source, join(this.root, 'cur', target));
+  }
+}
+
+// ==================== PARSING ====================
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Parse a raw email into an InboundEmail.
+ * Handles folded headers, encoded words, multipart bodies and
+ * base64/quoted-printable transfer encodings.
+ */
+export function parseEmail(raw: string, key: string): InboundEmail {
+  const part = splitPart(raw);
+  const headers = part.headers;
+
+  const messageId = extractMessageIds(headers['message-id'] ?? '')[0] ?? `<${key}@local>`;
+  const inReplyTo = extractMessageIds(headers['in-reply-to'] ?? '');
+  const references = extractMessageIds(headers['references'] ?? '').reverse();
+  const date = headers['date'] ? new Date(headers['date']) : new Date();
+
+  return {
+    key,
+    messageId,
+    replyTo: [...new Set([...inReplyTo, ...references])],
+    from: extractAddress(decodeWords(headers['from'] ?? '')),
+    subject: decodeWords(headers['subject'] ?? ''),
+    date: isNaN(date.getTime()) ? new Date() : date,
+    text: extractText(part),
+    headers,
+    report: extractReport(part) ?? undefined,
+  };
+}
+
+/**
+ * Split a message (or MIME part) into headers and body.
+ */
+function splitPart(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const head = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? '' : normalized.slice(separator + 2);
+
+  return { headers: parseHeaders(head), body };
+}
+
+function parseHeaders(head: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Unfold continuation lines before splitting
+  for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(colon + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Read a multipart/report: a delivery status notification (RFC 3464) for
+ * bounces, or an abuse feedback report (RFC 5965) for spam complaints.
+ * Both carry a machine-readable part plus the original message or its headers.
+ */
+function extractReport(part: MimePart): MailReport | null {
+  const contentType = part.headers['content-type'] ?? '';
+  if (!/^multipart\/report\b/i.test(contentType)) return null;
+
+  const reportType = headerParam(contentType, 'report-type')?.toLowerCase();
+  const boundary = headerParam(contentType, 'boundary');
+  if (!boundary || (reportType !== 'delivery-status' && reportType !== 'feedback-report')) return null;
+
+  const parts = splitMultipart(part.body, boundary).map(splitPart);
+  const partBody = (type: string): string | null => {
+    const found = parts.find((p) => (p.headers['content-type'] ?? '').toLowerCase().startsWith(type));
+    return found ? decodeBody(found.body, found.headers['content-transfer-encoding'], null) : null;
+  };
+
+  // The original comes as a whole message or just its headers
+  const original = partBody('message/rfc822') ?? partBody('text/rfc822-headers');
+  const originalHeaders = original ? splitPart(original).headers : {};
+  const originalMessageId = extractMessageIds(originalHeaders['message-id'] ?? '')[0] ?? null;
+
+  if (reportType === 'delivery-status') {
+    // A per-message block, then one block per recipient
+    const blocks = (partBody('message/delivery-status') ?? '').trim().split(/\n\s*\n/).slice(1).map(parseHeaders);
+    const failed = blocks.filter((block) => {
+      const action = block['action']?.toLowerCase();
+      return action === 'failed' || action === 'delayed';
+    });
+    if (failed.length === 0) return null;
+
+    return {
+      kind: 'bounce',
+      recipients: [...new Set(failed.map((block) => reportAddress(block['final-recipient'] ?? block['original-recipient'] ?? '')).filter(Boolean))],
+      hard: failed.some((block) => block['action']?.toLowerCase() === 'failed' && /^5\./.test(block['status'] ?? '')),
+      detail: failed.map((block) => [block['status'], block['diagnostic-code']].filter(Boolean).join(' ')).join('; '),
+      originalMessageId,
+    };
+  }
+
+  const feedback = parseHeaders(partBody('message/feedback-report') ?? '');
+  const recipient = reportAddress(feedback['original-rcpt-to'] ?? '') || reportAddress(originalHeaders['to'] ?? '');
+
+  return {
+    kind: 'complaint',
+    recipients: recipient ? [recipient] : [],
+    hard: false,
+    detail: `Feedback-Type: ${feedback['feedback-type'] ?? 'unknown'}`,
+    originalMessageId,
+  };
+}
+
+// DSN and ARF address fields may carry a type prefix, e.g. "rfc822; owner@example.com"
+function reportAddress(value: string): string {
+  const address = extractAddress(value.replace(/^[a-z0-9-]+\s*;/i, ''));
+  return address.includes('@') ? address : '';
+}
+
+/**
+ * Find the best plain-text body: the first text/plain part, falling back
+ * to text/html with the markup stripped.
+ */
+function extractText(part: MimePart): string {
+  const contentType = part.headers['content-type'] ?? 'text/plain';
+  const mimeType = contentType.split(';')[0]!.trim().toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return '';
+
+    const parts = splitMultipart(part.body, boundary).map(splitPart);
+    const plain = parts.find((p) => (p.headers['content-type'] ?? 'text/plain').toLowerCase().startsWith('text/plain'));
+    if (plain) return extractText(plain);
+
+    for (const child of parts) {
+      const text = extractText(child);
+      if (text) return text;
+    }
+    return '';
+  }
+
+  if (mimeType !== 'text/plain' && mimeType !== 'text/html') {
+    return '';
+  }
+
+  const decoded = decodeBody(part.body, part.headers['content-transfer-encoding'], headerParam(contentType, 'charset'));
+  return mimeType === 'text/html' ? htmlToText(decoded) : decoded.trim();
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+
+  for (const chunk of body.split(delimiter).slice(1)) {
+    if (chunk.startsWith('--')) break;
+    parts.push(chunk.replace(/^[ \t]*\n/, ''));
+  }
+
+  return parts;
+}
+
+function decodeBody(body: string, encoding: string | undefined, charset: string | null): string {
+  const bufferEncoding = charsetToEncoding(charset);
+
+  switch ((encoding ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString(bufferEncoding);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body, bufferEncoding);
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(input: string, encoding: BufferEncoding): string {
+  const softBreaksRemoved = input.replace(/=\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < softBreaksRemoved.length; i++) {
+    const char = softBreaksRemoved[i]!;
+    const hex = softBreaksRemoved.slice(i + 1, i + 3);
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(char, 'utf-8'));
+    }
+  }
+
+  return Buffer.from(bytes).toString(encoding);
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. "=?UTF-8?B?...?=" or "=?iso-8859-1?Q?...?=".
+ */
+function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, type: string, text: string) => {
+      const encoding = charsetToEncoding(charset);
+      if (type.toUpperCase() === 'B') {
+        return Buffer.from(text, 'base64').toString(encoding);
+      }
+      return decodeQuotedPrintable(text.replace(/_/g, ' '), encoding);
+    });
+}
+
+function charsetToEncoding(charset: string | null): BufferEncoding {
+  const normalized = (charset ?? '').toLowerCase();
+  if (normalized === 'iso-8859-1' || normalized === 'latin1' || normalized === 'windows-1252' || normalized === 'us-ascii') {
+    return 'latin1';
+  }
+  return 'utf-8';
+}
+
+function headerParam(header: string, name: string): string | null {
+  const match = header.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? null) : null;
+}
+
+function extractMessageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) ?? [];
+}
+
+function extractAddress(value: string): string {
+  const bracketed = value.match(/<([^<>]+)>/);
+  return (bracketed ? bracketed[1]! : value).trim().toLowerCase();
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|blockquote|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,303 @@
+// Reply Ingestion
+// Matches inbound replies to sent outreach emails, classifies them and records the response
+
+import { canTransitionBusinessStatus, db } from '../../database/index.js';
+import type { BusinessStatus, EmailReply, ReplyClassification } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import { SuppressionService } from './suppression.js';
+import type { InboundEmail, MailboxSource, MailReport, ReplyIngestResult } from './types.js';
+
+// Where a reply moves the business, when the move is allowed from its current status
+const REPLY_STATUSES: Record<ReplyClassification, BusinessStatus | null> = {
+  interested: 'interested',
+  not_interested: 'lost',
+  unsubscribe: 'lost',
+  out_of_office: null,
+  unknown: null,
+};
+
+const UNSUBSCRIBE_PATTERNS = [
+  /\bunsubscribe\b/,
+  /\bremove (me|us)\b/,
+  /\btake (me|us) off\b/,
+  /\bstop (emailing|contacting|sending|messaging)\b/,
+  /\bdo not (contact|email)\b/,
+  /\bdon'?t (contact|email) (me|us)\b/,
+  /^\s*stop\s*$/,
+];
+
+const OUT_OF_OFFICE_SUBJECTS = [/^automatic reply\b/, /^auto(matic)?[- ]?reply\b/, /^auto:/, /^out of (the )?office\b/];
+
+const OUT_OF_OFFICE_PATTERNS = [
+  /\bout of (the )?office\b/,
+  /\b(on|currently on) (vacation|holiday|leave)\b/,
+  /\blimited access to (my )?e-?mail\b/,
+  /\bwill (be back|return) (on|in|after)\b/,
+  /\bautomated (response|reply)\b/,
+];
+
+const NOT_INTERESTED_PATTERNS = [
+  /\bnot interested\b/,
+  /\bno,? thanks?\b/,
+  /\bno,? thank you\b/,
+  /\bnot (at this time|right now|for us)\b/,
+  /\b(already|we) have a (web ?site|site)\b/,
+  /\bwe'?re (good|all set|set)\b/,
+  /\bpass on this\b/,
+];
+
+const INTERESTED_PATTERNS = [
+  /\binterested\b/,
+  /\byes\b/,
+  /\bsounds (good|great)\b/,
+  /\blove (it|the site|the website|this)\b/,
+  /\bhow much\b/,
+  /\b(price|pricing|cost)\b/,
+  /\bcall me\b/,
+  /\blet'?s (talk|chat|do it)\b/,
+  /\btell me more\b/,
+  /\bmore info(rmation)?\b/,
+];
+
+/**
+ * Remove quoted history from a reply, keeping only what the sender wrote.
+ * Cuts at the first "On ... wrote:" line, "Original Message" separator or
+ * forwarded header block, and drops ">"-quoted lines.
+ */
+export function stripQuotedText(text: string): string {
+  const kept: string[] = [];
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    if (
+      /^on .+wrote:$/i.test(trimmed) ||
+      /^-{2,}\s*original message\s*-{2,}$/i.test(trimmed) ||
+      /^_{10,}$/.test(trimmed) ||
+      (/^from:\s.+/i.test(trimmed) && kept.some((l) => l.trim()))
+    ) {
+      break;
+    }
+    if (trimmed.startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+/**
+ * Classify a reply by its headers, subject and (unquoted) text.
+ *
+ * Order matters: auto-responder headers win outright, then unsubscribe
+ * requests (so "not interested, remove me" suppresses the address), then
+ * out-of-office wording, then "not interested" (so it isn't read as
+ * "interested"), then interest.
+ */
+export function classifyReply(email: Pick<InboundEmail, 'headers' | 'subject'>, body: string): ReplyClassification {
+  const subject = email.subject.toLowerCase().trim();
+  const text = body.toLowerCase();
+
+  if (isAutoReply(email.headers) || OUT_OF_OFFICE_SUBJECTS.some((pattern) => pattern.test(subject))) {
+    return 'out_of_office';
+  }
+  if (UNSUBSCRIBE_PATTERNS.some((pattern) => pattern.test(text) || pattern.test(subject))) {
+    return 'unsubscribe';
+  }
+  if (OUT_OF_OFFICE_PATTERNS.some((pattern) => pattern.test(text))) {
+    return 'out_of_office';
+  }
+  if (NOT_INTERESTED_PATTERNS.some((pattern) => pattern.test(text))) {
+    return 'not_interested';
+  }
+  if (INTERESTED_PATTERNS.some((pattern) => pattern.test(text))) {
+    return 'interested';
+  }
+  return 'unknown';
+}
+
+function isAutoReply(headers: Record<string, string>): boolean {
+  const autoSubmitted = headers['auto-submitted']?.toLowerCase();
+  const precedence = headers['precedence']?.toLowerCase();
+
+  return (
+    (autoSubmitted !== undefined && autoSubmitted !== 'no') ||
+    'x-autoreply' in headers ||
+    'x-autorespond' in headers ||
+    precedence === 'auto_reply'
+  );
+}
+
+/**
+ * ReplyIngester - Turns inbound replies into outreach responses
+ *
+ * For each unprocessed message in the mailbox:
+ * 1. Matches it to the email we sent using In-Reply-To / References
+ *    against the Message-ID returned in SendResult
+ * 2. Classifies it (interested / not_interested / unsubscribe / out_of_office / unknown)
+ * 3. Stores it in email_replies and as the outreach_log response
+ *    (out-of-office auto-replies are stored but don't count as a response)
+ * 4. Moves interested businesses to "interested", declines and
+ *    unsubscribes to "lost", and suppresses addresses that asked to unsubscribe
+ * 5. Marks the message processed
+ *
+ * Unmatched messages are skipped, except unsubscribe requests (e.g. from
+ * the footer's mailto: link), which still suppress the sender.
+ *
+ * Bounce reports (DSNs from MAILER-DAEMON) and spam complaint reports (ARF)
+ * aren't replies: the address they name is suppressed as a hard bounce or
+ * complaint instead. Delayed-delivery notices are only logged.
+ *
+ * Usage:
+ * ```typescript
+ * const ingester = new ReplyIngester(new MaildirMailbox('./data/mailbox'));
+ * const result = await ingester.ingest();
+ * console.log(`${result.matched} replies, ${result.byClassification.interested} interested`);
+ * ```
+ */
+export class ReplyIngester {
+  private mailbox: MailboxSource;
+  private suppression: SuppressionService;
+
+  constructor(mailbox: MailboxSource, suppression?: SuppressionService) {
+    this.mailbox = mailbox;
+    this.suppression = suppression ?? new SuppressionService();
+  }
+
+  /**
+   * Process every unprocessed message in the mailbox.
+   */
+  async ingest(): Promise<ReplyIngestResult> {
+    const result: ReplyIngestResult = {
+      processed: 0,
+      matched: 0,
+      unmatched: 0,
+      duplicates: 0,
+      bounces: 0,
+      complaints: 0,
+      byClassification: { interested: 0, not_interested: 0, unsubscribe: 0, out_of_office: 0, unknown: 0 },
+    };
+
+    for (const email of await this.mailbox.fetchUnprocessed()) {
+      result.processed++;
+
+      const outcome = this.ingestEmail(email);
+      if (outcome === 'unmatched') {
+        result.unmatched++;
+      } else if (outcome === 'duplicate') {
+        result.duplicates++;
+      } else if (outcome === 'bounce') {
+        result.bounces++;
+      } else if (outcome === 'complaint') {
+        result.complaints++;
+      } else {
+        result.matched++;
+        result.byClassification[outcome.classification]++;
+      }
+
+      await this.mailbox.markProcessed(email.key);
+    }
+
+    return result;
+  }
+
+  /**
+   * Match, classify and store a single inbound email.
+   */
+  ingestEmail(email: InboundEmail): EmailReply | 'unmatched' | 'duplicate' | 'bounce' | 'complaint' {
+    if (email.report) {
+      return this.applyReport(email, email.report);
+    }
+
+    const original = email.replyTo
+      .map((id) => db.getEmailMessageByMessageId(id))
+      .find((message) => message !== null);
+
+    const body = stripQuotedText(email.text);
+    const classification = classifyReply(email, body);
+
+    if (!original) {
+      // The footer's mailto: unsubscribe link starts a new thread, so honour it without a match
+      if (classification === 'unsubscribe' && email.from) {
+        this.suppression.suppress(email.from, 'unsubscribe', { detail: `Emailed: ${email.subject}` });
+      }
+      logger.info(`No sent email matches reply from ${email.from} ("${email.subject}")`);
+      return 'unmatched';
+    }
+
+    const reply = db.insertEmailReply({
+      source_message_id: email.messageId,
+      email_message_id: original.id,
+      outreach_id: original.outreach_id,
+      business_id: original.business_id,
+      from_email: email.from,
+      subject: email.subject,
+      body,
+      classification,
+      received_at: email.date.toISOString(),
+    });
+
+    if (!reply) {
+      return 'duplicate';
+    }
+
+    logger.info(`Reply from ${email.from} classified as ${classification}`);
+    this.applyReply(reply, original.to_email);
+    return reply;
+  }
+
+  /**
+   * Suppress the addresses a bounce or complaint report is about. When the
+   * report doesn't name them, the email it quotes tells us who we sent to.
+   */
+  private applyReport(email: InboundEmail, report: MailReport): 'unmatched' | 'bounce' | 'complaint' {
+    const original = [report.originalMessageId, ...email.replyTo]
+      .map((id) => (id ? db.getEmailMessageByMessageId(id) : null))
+      .find((message) => message !== null);
+
+    const recipients = report.recipients.length > 0
+      ? report.recipients
+      : original ? [original.to_email.toLowerCase()] : [];
+    if (recipients.length === 0) {
+      logger.warn(`${report.kind === 'bounce' ? 'Bounce' : 'Complaint'} report from ${email.from} doesn't say which address it's about`);
+      return 'unmatched';
+    }
+
+    const businessId = original?.business_id;
+    for (const address of recipients) {
+      if (report.kind === 'bounce') {
+        this.suppression.recordBounce(address, { hard: report.hard, detail: report.detail, businessId });
+      } else {
+        this.suppression.recordComplaint(address, { businessId, detail: report.detail });
+      }
+    }
+    return report.kind;
+  }
+
+  /**
+   * Record the response on the outreach log and act on the classification.
+   */
+  private applyReply(reply: EmailReply, sentTo: string): void {
+    if (reply.classification === 'out_of_office') {
+      return;
+    }
+
+    const outreach = db.getOutreachById(reply.outreach_id);
+    const note = `Reply from ${reply.from_email} on ${reply.received_at}: ${reply.classification}`;
+    db.updateOutreachResponse(reply.outreach_id, reply.body, outreach?.notes ? `${outreach.notes}\n${note}` : note);
+
+    if (reply.classification === 'unsubscribe') {
+      for (const address of new Set([reply.from_email, sentTo.toLowerCase()])) {
+        this.suppression.suppress(address, 'unsubscribe', {
+          businessId: reply.business_id,
+          detail: `Replied: ${reply.body.slice(0, 200)}`,
+        });
+      }
+    }
+
+    const next = REPLY_STATUSES[reply.classification];
+    const business = db.getBusinessById(reply.business_id);
+    if (next && business && canTransitionBusinessStatus(business.status, next)) {
+      db.updateBusinessStatus(business.id, next, { actor: 'replies', reason: note });
+      logger.info(`${business.name} is ${next}`);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+// SMTP Client for Outreach Email
+// Wraps nodemailer to send outreach emails over SMTP
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/index.js';
+import type { SmtpConfig, OutgoingEmail, TransportResult } from './types.js';
+
+/**
+ * SmtpClient - Wrapper for an SMTP transport
+ *
+ * Reads SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS / EMAIL_FROM from the
+ * environment unless a config override is passed (tests point it at a local
+ * SMTP stand-in this way).
+ *
+ * MOCK MODE:
+ * When SMTP_HOST is not set, the client operates in mock mode.
+ * Messages are built but not sent, and a fake message ID is returned.
+ */
+export class SmtpClient {
+  private transporter: Transporter;
+  private from: string;
+  private isMockMode: boolean;
+
+  private static readonly DEFAULT_FROM = 'noreply@localhost';
+
+  constructor(configOverride?: Partial<SmtpConfig>) {
+    const appConfig = config.getAll();
+    const host = configOverride?.host ?? appConfig.smtpHost;
+    const port = configOverride?.port ?? appConfig.smtpPort ?? 587;
+    const user = configOverride?.user ?? appConfig.smtpUser;
+    const pass = configOverride?.pass ?? appConfig.smtpPass;
+
+    this.from = configOverride?.from ?? appConfig.emailFrom ?? SmtpClient.DEFAULT_FROM;
+    this.isMockMode = !host;
+
+    if (this.isMockMode) {
+      logger.warn('SMTP_HOST not set - outreach email running in MOCK MODE');
+      logger.warn('Mock mode builds messages without sending them. Set SMTP_HOST to send real email.');
+      this.transporter = nodemailer.createTransport({ jsonTransport: true });
+    } else {
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure: configOverride?.secure ?? port === 465,
+        auth: user && pass ? { user, pass } : undefined,
+      });
+    }
+  }
+
+  /**
+   * Check if running in mock mode
+   */
+  isInMockMode(): boolean {
+    return this.isMockMode;
+  }
+
+  /**
+   * Sender address used for outgoing mail
+   */
+  getFromAddress(): string {
+    return this.from;
+  }
+
+  /**
+   * Send an email.
+   * Throws if the server rejects the message or every recipient.
+   */
+  async send(email: OutgoingEmail): Promise<TransportResult> {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+    });
+
+    if (this.isMockMode) {
+      logger.info(`[MOCK] Email to ${email.to}: "${email.subject}"`);
+    }
+
+    return {
+      messageId: info.messageId,
+      accepted: (info.accepted ?? []).map(String),
+      rejected: (info.rejected ?? []).map(String),
+      response: String(info.response ?? ''),
+    };
+  }
+
+  /**
+   * Check the SMTP connection and credentials.
+   */
+  async verifyConnection(): Promise<boolean> {
+    if (this.isMockMode) {
+      return true;
+    }
+
+    try {
+      await this.transporter.verify();
+      return true;
+    } catch (error) {
+      logger.error('SMTP connection check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Close pooled connections.
+   */
+  close(): void {
+    this.transporter.close();
+  }
+}
+
+// Export singleton instance
+export const smtpClient = new SmtpClient();
@@ -0,0 +1,143 @@
+// Suppression List
+// Keeps unsubscribed, bounced and complaining addresses (and do-not-contact businesses) out of outreach
+
+import { db } from '../../database/index.js';
+import type { EmailSuppression, SuppressionReason } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+
+/**
+ * SuppressionService - Decides whether we're allowed to email someone
+ *
+ * An email is blocked when:
+ * - the address is on the suppression list (unsubscribed, hard bounce,
+ *   complaint, or added by hand), or
+ * - the business has an outreach_log response saying "do not contact"
+ *   (this blocks every address for that business, in every campaign)
+ *
+ * Usage:
+ * ```typescript
+ * const suppression = new SuppressionService();
+ * const blocked = suppression.checkRecipient(business.id, 'owner@example.com');
+ * if (blocked) console.log(`Not sending: ${blocked}`);
+ * ```
+ */
+export class SuppressionService {
+  /**
+   * Check whether we may email an address at a business.
+   *
+   * @returns Why the recipient is blocked, or null if sending is allowed
+   */
+  checkRecipient(businessId: string, email: string): string | null {
+    const suppression = db.getEmailSuppression(email);
+    if (suppression) {
+      return `${suppression.email} is suppressed (${suppression.reason})`;
+    }
+
+    const doNotContact = db.getDoNotContactOutreach(businessId);
+    if (doNotContact) {
+      return `Business asked not to be contacted (outreach ${doNotContact.id})`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether an address is on the suppression list.
+   */
+  isSuppressed(email: string): boolean {
+    return db.getEmailSuppression(email) !== null;
+  }
+
+  /**
+   * Check whether a business is blocked from all outreach.
+   */
+  isBusinessBlocked(businessId: string): boolean {
+    return db.getDoNotContactOutreach(businessId) !== null;
+  }
+
+  /**
+   * Add an address to the suppression list.
+   */
+  suppress(
+    email: string,
+    reason: SuppressionReason,
+    options?: { businessId?: string; detail?: string }
+  ): EmailSuppression {
+    const suppression = db.addEmailSuppression({
+      email,
+      reason,
+      business_id: options?.businessId ?? null,
+      detail: options?.detail ?? null,
+    });
+
+    logger.info(`Suppressed ${suppression.email} (${suppression.reason})`);
+    return suppression;
+  }
+
+  /**
+   * Remove an address from the suppression list (e.g. added by mistake).
+   */
+  unsuppress(email: string): boolean {
+    return db.removeEmailSuppression(email);
+  }
+
+  /**
+   * Record a bounce. Hard bounces suppress the address; soft bounces
+   * (full mailbox, greylisting) are only logged.
+   */
+  recordBounce(
+    email: string,
+    bounce: { hard: boolean; detail?: string; businessId?: string }
+  ): EmailSuppression | null {
+    if (!bounce.hard) {
+      logger.warn(`Soft bounce for ${email}: ${bounce.detail ?? 'no detail'}`);
+      return null;
+    }
+
+    return this.suppress(email, 'hard_bounce', { businessId: bounce.businessId, detail: bounce.detail });
+  }
+
+  /**
+   * Record a spam complaint. Always suppresses the address.
+   */
+  recordComplaint(email: string, options?: { businessId?: string; detail?: string }): EmailSuppression {
+    return this.suppress(email, 'complaint', options);
+  }
+
+  /**
+   * List suppressed addresses, newest first.
+   */
+  list(limit = 1000): EmailSuppression[] {
+    return db.getEmailSuppressions(limit);
+  }
+}
+
+/**
+ * Check whether an SMTP error is a permanent recipient failure (hard bounce).
+ * 5xx replies to RCPT TO (e.g. "550 mailbox unavailable") are permanent;
+ * 4xx replies are temporary.
+ */
+export function isHardBounce(error: unknown): boolean {
+  const smtpError = error as { responseCode?: number; code?: string } | null;
+  const code = smtpError?.responseCode;
+  return smtpError?.code === 'EENVELOPE' && typeof code === 'number' && code >= 500 && code < 600;
+}
+
+// Connection-level failures nodemailer (or the socket underneath) reports without an SMTP reply
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN',
+]);
+
+/**
+ * Check whether a send failed for a reason that may clear up on its own:
+ * a 4xx reply (greylisting, full mailbox, rate limiting) or a connection
+ * problem. 5xx replies and anything else are permanent.
+ */
+export function isTransientSendError(error: unknown): boolean {
+  const smtpError = error as { responseCode?: number; code?: string } | null;
+  const code = smtpError?.responseCode;
+  if (typeof code === 'number') {
+    return code >= 400 && code < 500;
+  }
+  return TRANSIENT_ERROR_CODES.has(smtpError?.code ?? '');
+}
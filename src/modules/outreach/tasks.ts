@@ -0,0 +1,282 @@
+// Call and Visit Queue
+// Phone and in-person outreach tasks for the sales rep: queueing, city routing, scripts and outcomes
+
+import { canTransitionBusinessStatus, db } from '../../database/index.js';
+import type {
+  Business,
+  BusinessStatus,
+  OutreachTask,
+  OutreachTaskMethod,
+  OutreachTaskOutcome,
+} from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import { SuppressionService } from './suppression.js';
+import type { TaskOutcomeInput, TaskQueueOptions, TaskSheetEntry, VisitRoute } from './types.js';
+
+const OUTCOME_RESPONSES: Record<OutreachTaskOutcome, string | null> = {
+  no_answer: null,
+  voicemail: 'Left a voicemail',
+  callback: 'Asked for a callback',
+  interested: 'Interested',
+  declined: 'Declined',
+};
+
+// Outcomes where nobody was reached; they're logged but don't mark the business contacted
+const NO_CONTACT_OUTCOMES = new Set<OutreachTaskOutcome>(['no_answer', 'voicemail']);
+
+/**
+ * TaskQueueService - Phone and in-person outreach queue for the sales rep
+ *
+ * This service:
+ * 1. Queues calls/visits for deployed businesses with a phone number
+ *    (skipping do-not-contact businesses and ones already queued)
+ * 2. Lists due tasks with a call script built from the business and its preview URL
+ * 3. Groups in-person visits by city so they can be done in one trip
+ * 4. Logs each outcome through db.logOutreach and reschedules the task:
+ *    - no_answer:  retried after retryAfterMs, given up after maxAttempts
+ *    - voicemail:  same as no_answer
+ *    - callback:   moved to the requested time
+ *    - interested: business moves to "interested", its other tasks are cancelled
+ *    - declined:   closed, business moves to "lost", its other tasks are cancelled
+ *    Only outcomes where someone was reached move the business to "contacted".
+ *
+ * Usage:
+ * ```typescript
+ * const queue = new TaskQueueService();
+ * queue.buildQueue('phone');
+ * for (const entry of queue.getDueTasks('phone')) {
+ *   console.log(entry.script);
+ * }
+ * queue.recordOutcome(taskId, { outcome: 'callback', callbackAt: new Date('2025-03-05T15:00:00') });
+ * ```
+ */
+export class TaskQueueService {
+  private suppression: SuppressionService;
+  private options: TaskQueueOptions;
+
+  constructor(suppression?: SuppressionService, options?: Partial<TaskQueueOptions>) {
+    this.suppression = suppression ?? new SuppressionService();
+    this.options = {
+      maxAttempts: options?.maxAttempts ?? 3,
+      retryAfterMs: options?.retryAfterMs ?? 24 * 60 * 60 * 1000,
+    };
+  }
+
+  /**
+   * Queue tasks for deployed businesses with a phone number.
+   * In-person visits also need a city to be routed.
+   *
+   * @returns Number of tasks queued
+   */
+  buildQueue(method: OutreachTaskMethod, limit = 100): number {
+    const candidates = db
+      .getOutreachTaskCandidates(method, limit)
+      .filter((business) => !this.suppression.isBusinessBlocked(business.id));
+
+    const queued = db.insertOutreachTasks(
+      candidates.map((business) => ({ business_id: business.id, method }))
+    );
+
+    logger.info(`Queued ${queued} ${method === 'phone' ? 'call' : 'visit'}(s)`);
+    return queued;
+  }
+
+  /**
+   * Tasks due now (or by `dueBefore`), soonest first, with scripts.
+   */
+  getDueTasks(
+    method: OutreachTaskMethod,
+    options?: { city?: string; state?: string; dueBefore?: Date; limit?: number }
+  ): TaskSheetEntry[] {
+    const tasks = db.getPendingOutreachTasks({
+      method,
+      city: options?.city,
+      state: options?.state,
+      dueBefore: (options?.dueBefore ?? new Date()).toISOString(),
+      limit: options?.limit,
+    });
+
+    return tasks
+      .map((task) => this.toSheetEntry(task))
+      .filter((entry): entry is TaskSheetEntry => entry !== null);
+  }
+
+  /**
+   * Group due in-person visits by city, busiest city first.
+   * Stops within a city are ordered by street address.
+   */
+  routeVisits(options?: { state?: string; dueBefore?: Date }): VisitRoute[] {
+    const routes = new Map<string, VisitRoute>();
+
+    for (const entry of this.getDueTasks('in_person', { ...options, limit: 1000 })) {
+      const city = entry.business.city?.trim() || 'Unknown';
+      const key = `${city.toLowerCase()}|${(entry.business.state ?? '').toUpperCase()}`;
+
+      let route = routes.get(key);
+      if (!route) {
+        route = { city, state: entry.business.state, stops: [] };
+        routes.set(key, route);
+      }
+      route.stops.push(entry);
+    }
+
+    for (const route of routes.values()) {
+      route.stops.sort((a, b) => streetKey(a.business.address).localeCompare(streetKey(b.business.address)));
+    }
+
+    return [...routes.values()].sort((a, b) => b.stops.length - a.stops.length || a.city.localeCompare(b.city));
+  }
+
+  /**
+   * Get a single task with its script.
+   */
+  getTask(taskId: string): TaskSheetEntry | null {
+    const task = db.getOutreachTaskById(taskId);
+    return task ? this.toSheetEntry(task) : null;
+  }
+
+  /**
+   * Log what happened on a call or visit and reschedule or close the task.
+   * Throws if the task isn't pending or a callback has no time.
+   */
+  recordOutcome(taskId: string, input: TaskOutcomeInput): OutreachTask {
+    const task = db.getOutreachTaskById(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (task.status !== 'pending') {
+      throw new Error(`Task ${taskId} is already ${task.status}`);
+    }
+    if (input.outcome === 'callback' && (!input.callbackAt || isNaN(input.callbackAt.getTime()))) {
+      throw new Error('A callback needs a time (callbackAt)');
+    }
+
+    const summary = input.outcome === 'callback'
+      ? `Callback requested for ${input.callbackAt!.toISOString()}`
+      : `${task.method === 'phone' ? 'Call' : 'Visit'} outcome: ${input.outcome}`;
+
+    db.logOutreach({
+      business_id: task.business_id,
+      method: task.method,
+      response: OUTCOME_RESPONSES[input.outcome],
+      notes: input.notes ? `${summary}\n${input.notes}` : summary,
+    }, { contactMade: !NO_CONTACT_OUTCOMES.has(input.outcome) });
+
+    const updated = this.applyOutcome(task, input);
+    logger.info(`Task ${task.id}: ${input.outcome}${updated.status === 'pending' ? ` (next: ${updated.due_at})` : ''}`);
+    return updated;
+  }
+
+  /**
+   * Cancel a pending task without logging an attempt.
+   */
+  cancel(taskId: string): OutreachTask | null {
+    return db.closeOutreachTask(taskId, 'cancelled', null);
+  }
+
+  private applyOutcome(task: OutreachTask, input: TaskOutcomeInput): OutreachTask {
+    const notes = input.notes ?? null;
+
+    switch (input.outcome) {
+      case 'no_answer':
+      case 'voicemail': {
+        if (task.attempts + 1 >= this.options.maxAttempts) {
+          return db.closeOutreachTask(task.id, 'completed', input.outcome, notes)!;
+        }
+        const retryAt = new Date(Date.now() + this.options.retryAfterMs);
+        return db.rescheduleOutreachTask(task.id, retryAt.toISOString(), input.outcome, notes)!;
+      }
+
+      case 'callback':
+        return db.rescheduleOutreachTask(task.id, input.callbackAt!.toISOString(), 'callback', notes)!;
+
+      case 'interested': {
+        const closed = db.closeOutreachTask(task.id, 'completed', 'interested', notes)!;
+        db.cancelOutreachTasksForBusiness(task.business_id);
+
+        this.moveBusiness(task, 'interested');
+        return closed;
+      }
+
+      case 'declined': {
+        const closed = db.closeOutreachTask(task.id, 'completed', 'declined', notes)!;
+        db.cancelOutreachTasksForBusiness(task.business_id);
+        this.moveBusiness(task, 'lost');
+        return closed;
+      }
+    }
+  }
+
+  private moveBusiness(task: OutreachTask, status: BusinessStatus): void {
+    const business = db.getBusinessById(task.business_id);
+    if (business && canTransitionBusinessStatus(business.status, status)) {
+      db.updateBusinessStatus(business.id, status, { actor: 'tasks', reason: `${task.method} task ${task.id}` });
+    }
+  }
+
+  private toSheetEntry(task: OutreachTask): TaskSheetEntry | null {
+    const business = db.getBusinessById(task.business_id);
+    if (!business) return null;
+
+    const previewUrl = db.getLatestDeployedWebsiteForBusiness(business.id)?.preview_url ?? null;
+    return { task, business, previewUrl, script: buildCallScript(business, previewUrl, task) };
+  }
+}
+
+/**
+ * Build a call (or visit) script from the business data and preview URL.
+ * Includes email engagement and earlier outreach so the rep knows what's already happened.
+ */
+export function buildCallScript(business: Business, previewUrl: string | null, task: Pick<OutreachTask, 'method' | 'attempts' | 'last_outcome'>): string {
+  const where = business.city ? ` in ${business.city}` : '';
+  const kind = business.category?.replace(/_/g, ' ');
+  const lines: string[] = [];
+
+  lines.push(`${task.method === 'phone' ? 'CALL' : 'VISIT'}: ${business.name}${kind ? ` (${kind})` : ''}`);
+  if (task.method === 'phone' && business.phone) lines.push(`Phone: ${business.phone}`);
+  if (business.address) lines.push(`Address: ${[business.address, business.city, business.state].filter(Boolean).join(', ')}`);
+  if (previewUrl) lines.push(`Preview: ${previewUrl}`);
+  if (task.attempts > 0) lines.push(`Previous attempts: ${task.attempts} (last: ${task.last_outcome ?? 'unknown'})`);
+
+  const engagement = db.getBusinessEngagement(business.id)[0];
+  if (engagement) {
+    lines.push(`Engagement: ${engagement.email_opens} email open(s), ${engagement.email_clicks} click(s), ${engagement.page_views} preview view(s)`);
+  }
+
+  const lastResponse = db.getOutreachByBusinessId(business.id).find((log) => log.response);
+  if (lastResponse) {
+    lines.push(`Last response (${lastResponse.method}, ${lastResponse.sent_at.split('T')[0]}): ${lastResponse.response}`);
+  }
+
+  lines.push('');
+  lines.push(
+    task.method === 'phone'
+      ? `"Hi, is this the owner of ${business.name}? I'm a local web designer${where}."`
+      : `"Hi, I'm a local web designer${where} - is the owner of ${business.name} around?"`
+  );
+  lines.push(`"I noticed ${business.name} doesn't have a website yet, so I went ahead and built one for you to look at."`);
+  if (previewUrl) {
+    lines.push(
+      task.method === 'phone'
+        ? `"I can text or email you the link: ${previewUrl}"`
+        : `"Here it is on my phone: ${previewUrl}"`
+    );
+  }
+  if (engagement && engagement.email_opens + engagement.page_views > 0) {
+    lines.push('"It looks like you may have already had a chance to see it - what did you think?"');
+  } else {
+    lines.push('"Would you like me to walk you through it?"');
+  }
+  lines.push('"If you like it, we can put it on your own domain and keep it updated for you."');
+  lines.push('');
+  lines.push('Outcomes: no_answer | voicemail | callback (ask for a time) | interested | declined');
+
+  return lines.join('\n');
+}
+
+// Sort key for a street address: street name first, then house number
+function streetKey(address: string | null): string {
+  if (!address) return '~';
+  const match = address.trim().match(/^(\d+)\s+(.*)$/);
+  return match ? `${match[2]!.toLowerCase()} ${match[1]!.padStart(6, '0')}` : address.toLowerCase();
+}
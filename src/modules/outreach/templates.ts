@@ -0,0 +1,148 @@
+// Email Template Rendering
+// Fills merge fields like {{business_name}} into outreach templates
+
+import { config } from '../../config/index.js';
+import type { EmailTemplate, MergeFields, RenderedEmail } from './types.js';
+import { MERGE_FIELDS } from './types.js';
+
+// Matches {{ field_name }} with optional inner whitespace
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// Compliance footer added to every email
+const HTML_FOOTER = `
+<hr style="border:none;border-top:1px solid #ddd;margin:24px 0 12px">
+<p style="font-size:12px;color:#777">{{physical_address}}<br>
+Don't want to hear from us? <a href="{{unsubscribe_url}}">Unsubscribe</a></p>`;
+
+const TEXT_FOOTER = `
+
+--
+{{physical_address}}
+Unsubscribe: {{unsubscribe_url}}`;
+
+/**
+ * Thrown when a template uses an unknown merge field or a field has no value.
+ * We never want to send an email with a literal "{{preview_url}}" in it.
+ */
+export class TemplateRenderError extends Error {
+  constructor(
+    message: string,
+    public readonly fields: string[]
+  ) {
+    super(message);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+/**
+ * Escape a value for safe insertion into HTML.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * List the merge fields used in a string.
+ */
+export function findMergeFields(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(MERGE_FIELD_PATTERN)) {
+    if (match[1]) found.add(match[1]);
+  }
+  return [...found];
+}
+
+/**
+ * Check a template for merge fields we don't support.
+ *
+ * @returns Unknown field names (empty if the template is valid)
+ */
+export function validateTemplate(template: Pick<EmailTemplate, 'subject' | 'htmlBody' | 'textBody'>): string[] {
+  const used = [
+    ...findMergeFields(template.subject),
+    ...findMergeFields(template.htmlBody),
+    ...findMergeFields(template.textBody),
+  ];
+  return [...new Set(used)].filter((field) => !(MERGE_FIELDS as string[]).includes(field));
+}
+
+/**
+ * Replace merge fields in one string.
+ */
+function fill(text: string, fields: Partial<MergeFields>, escape: boolean): string {
+  return text.replace(MERGE_FIELD_PATTERN, (_match, name: string) => {
+    const value = fields[name as keyof MergeFields] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Add the physical address / unsubscribe footer to a template's bodies.
+ */
+function withFooter(template: EmailTemplate): EmailTemplate {
+  const htmlBody = /<\/body>/i.test(template.htmlBody)
+    ? template.htmlBody.replace(/<\/body>/i, `${HTML_FOOTER}\n</body>`)
+    : `${template.htmlBody}${HTML_FOOTER}`;
+
+  return { ...template, htmlBody, textBody: `${template.textBody}${TEXT_FOOTER}` };
+}
+
+/**
+ * Render a template for one recipient, adding the compliance footer.
+ *
+ * Values are HTML-escaped in the HTML body only. Throws TemplateRenderError if
+ * the template uses an unknown field or a field it uses is empty - including
+ * the footer's physical_address and unsubscribe_url.
+ */
+export function renderTemplate(template: EmailTemplate, fields: Partial<MergeFields>): RenderedEmail {
+  const unknown = validateTemplate(template);
+  if (unknown.length > 0) {
+    throw new TemplateRenderError(`Template "${template.name}" uses unknown merge fields: ${unknown.join(', ')}`, unknown);
+  }
+
+  const full = withFooter(template);
+  const values: Partial<MergeFields> = { ...fields, physical_address: template.physicalAddress };
+
+  const used = new Set([
+    ...findMergeFields(full.subject),
+    ...findMergeFields(full.htmlBody),
+    ...findMergeFields(full.textBody),
+  ]);
+  const missing = [...used].filter((field) => !values[field as keyof MergeFields]?.trim());
+  if (missing.length > 0) {
+    throw new TemplateRenderError(`Missing values for merge fields: ${missing.join(', ')}`, missing);
+  }
+
+  return {
+    // Subjects are plain text; strip newlines so they can't inject headers
+    subject: fill(full.subject, values, false).replace(/[\r\n]+/g, ' '),
+    html: fill(full.htmlBody, values, true),
+    text: fill(full.textBody, values, false),
+  };
+}
+
+/**
+ * Starter outreach template.
+ * The footer address comes from EMAIL_PHYSICAL_ADDRESS; templates without one can't be saved.
+ */
+export const DEFAULT_TEMPLATE: Omit<EmailTemplate, 'id'> = {
+  name: 'Website preview introduction',
+  subject: 'We built a website for {{business_name}}',
+  htmlBody: `<p>Hi {{recipient_name}},</p>
+<p>Congratulations on opening {{business_name}} in {{city}}! We noticed you don't have a website yet, so we went ahead and built one for you.</p>
+<p><a href="{{preview_url}}">Take a look at your website preview</a></p>
+<p>If you like it, reply to this email and we'll get it live on your own domain.</p>`,
+  textBody: `Hi {{recipient_name}},
+
+Congratulations on opening {{business_name}} in {{city}}! We noticed you don't have a website yet, so we went ahead and built one for you.
+
+Take a look at your website preview: {{preview_url}}
+
+If you like it, reply to this email and we'll get it live on your own domain.`,
+  physicalAddress: config.get('EMAIL_PHYSICAL_ADDRESS') ?? '',
+};
@@ -0,0 +1,142 @@
+// Business Timezones
+// Works out a business's local time so outreach lands during business hours
+
+import type { Business } from '../../database/types.js';
+
+// Used when a business has no state on record
+export const DEFAULT_TIMEZONE = 'America/Chicago';
+
+// Timezone covering most of each state. States split across zones use the
+// zone where most of the population lives (e.g. Tennessee -> Central).
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago',
+  AK: 'America/Anchorage',
+  AZ: 'America/Phoenix',
+  AR: 'America/Chicago',
+  CA: 'America/Los_Angeles',
+  CO: 'America/Denver',
+  CT: 'America/New_York',
+  DC: 'America/New_York',
+  DE: 'America/New_York',
+  FL: 'America/New_York',
+  GA: 'America/New_York',
+  HI: 'Pacific/Honolulu',
+  ID: 'America/Boise',
+  IL: 'America/Chicago',
+  IN: 'America/Indiana/Indianapolis',
+  IA: 'America/Chicago',
+  KS: 'America/Chicago',
+  KY: 'America/New_York',
+  LA: 'America/Chicago',
+  ME: 'America/New_York',
+  MD: 'America/New_York',
+  MA: 'America/New_York',
+  MI: 'America/Detroit',
+  MN: 'America/Chicago',
+  MS: 'America/Chicago',
+  MO: 'America/Chicago',
+  MT: 'America/Denver',
+  NE: 'America/Chicago',
+  NV: 'America/Los_Angeles',
+  NH: 'America/New_York',
+  NJ: 'America/New_York',
+  NM: 'America/Denver',
+  NY: 'America/New_York',
+  NC: 'America/New_York',
+  ND: 'America/Chicago',
+  OH: 'America/New_York',
+  OK: 'America/Chicago',
+  OR: 'America/Los_Angeles',
+  PA: 'America/New_York',
+  RI: 'America/New_York',
+  SC: 'America/New_York',
+  SD: 'America/Chicago',
+  TN: 'America/Chicago',
+  TX: 'America/Chicago',
+  UT: 'America/Denver',
+  VT: 'America/New_York',
+  VA: 'America/New_York',
+  WA: 'America/Los_Angeles',
+  WV: 'America/New_York',
+  WI: 'America/Chicago',
+  WY: 'America/Denver',
+};
+
+// Eastern Tennessee counties (the rest of the state is Central)
+const TN_EASTERN_COUNTIES = new Set([
+  'anderson', 'blount', 'bradley', 'campbell', 'carter', 'claiborne', 'cocke',
+  'grainger', 'greene', 'hamblen', 'hamilton', 'hancock', 'hawkins', 'jefferson',
+  'johnson', 'knox', 'loudon', 'mcminn', 'meigs', 'monroe', 'morgan', 'polk',
+  'rhea', 'roane', 'scott', 'sevier', 'sullivan', 'unicoi', 'union', 'washington',
+]);
+
+/**
+ * Get the IANA timezone for a business from its state (and county, where a
+ * state is split).
+ */
+export function timezoneForBusiness(business: Pick<Business, 'state' | 'county'>): string {
+  const state = business.state?.trim().toUpperCase();
+  if (!state) return DEFAULT_TIMEZONE;
+
+  if (state === 'TN' && business.county) {
+    const county = business.county.toLowerCase().replace(/\s+county$/, '').trim();
+    if (TN_EASTERN_COUNTIES.has(county)) return 'America/New_York';
+  }
+
+  return STATE_TIMEZONES[state] ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the hour of day (0-23) at a moment in a timezone.
+ */
+export function localHour(timezone: string, at: Date = new Date()): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(at);
+  return parseInt(hour, 10);
+}
+
+/**
+ * Get the moment a calendar day began (local midnight) in a timezone.
+ */
+export function startOfLocalDay(timezone: string, at: Date = new Date()): Date {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  });
+  const local = (moment: Date): Record<string, number> => Object.fromEntries(
+    format.formatToParts(moment).filter((part) => part.type !== 'literal').map((part) => [part.type, parseInt(part.value, 10)])
+  );
+  // How far the timezone's clock is ahead of UTC at a moment
+  const offset = (moment: Date): number => {
+    const parts = local(moment);
+    return Date.UTC(parts['year']!, parts['month']! - 1, parts['day']!, parts['hour'], parts['minute'], parts['second'])
+      - Math.floor(moment.getTime() / 1000) * 1000;
+  };
+
+  const today = local(at);
+  const midnight = Date.UTC(today['year']!, today['month']! - 1, today['day']!);
+  // The offset can differ at midnight on a DST change day, so measure it there
+  return new Date(midnight - offset(new Date(midnight - offset(at))));
+}
+
+/**
+ * Check if a moment falls inside a [startHour, endHour) window in a timezone.
+ */
+export function isWithinSendWindow(
+  timezone: string,
+  startHour: number,
+  endHour: number,
+  at: Date = new Date()
+): boolean {
+  const hour = localHour(timezone, at);
+  return hour >= startHour && hour < endHour;
+}
@@ -0,0 +1,329 @@
+// Outreach Module Types
+// Types and interfaces for contacting businesses about their generated websites
+
+import type {
+  Business,
+  OutreachTask,
+  OutreachTaskOutcome,
+  ReplyClassification,
+} from '../../database/types.js';
+
+/**
+ * Email template with merge fields.
+ *
+ * Subject and bodies may contain merge fields in double braces, e.g.
+ * "Hi {{business_name}}, we built you a website: {{preview_url}}".
+ * See MERGE_FIELDS for the supported names.
+ *
+ * Every rendered email gets a footer with the sender's physical address and
+ * an unsubscribe link (CAN-SPAM), so physicalAddress is required.
+ */
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  physicalAddress: string;
+}
+
+/**
+ * Merge fields available to email templates
+ */
+export interface MergeFields {
+  business_name: string;
+  city: string;
+  state: string;
+  preview_url: string;
+  recipient_name: string;
+  recipient_email: string;
+  unsubscribe_url: string;
+  physical_address: string;
+}
+
+/**
+ * Names of all supported merge fields
+ */
+export const MERGE_FIELDS: Array<keyof MergeFields> = [
+  'business_name',
+  'city',
+  'state',
+  'preview_url',
+  'recipient_name',
+  'recipient_email',
+  'unsubscribe_url',
+  'physical_address',
+];
+
+/**
+ * A template rendered for one recipient, ready to send
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Campaign with its settings and live counts
+ */
+export interface OutreachCampaign {
+  id: string;
+  name: string;
+  templateId: string;
+  status: 'draft' | 'active' | 'paused' | 'completed';
+  sentCount: number;
+  openCount: number;
+  clickCount: number;
+  queuedCount: number;
+  failedCount: number;
+  suppressedCount: number;
+
+  /** Max emails sent per day */
+  dailyCap: number;
+
+  /** Sending hours [start, end) in each business's local time */
+  sendWindowStart: number;
+  sendWindowEnd: number;
+
+  /** IANA timezone whose midnight starts a new day for the daily cap */
+  timezone: string;
+}
+
+/**
+ * Options for creating a campaign
+ */
+export interface CampaignOptions {
+  name: string;
+  templateId: string;
+
+  /** Max emails per day (default: 50) */
+  dailyCap?: number;
+
+  /** First local hour emails may go out (default: 9) */
+  sendWindowStart?: number;
+
+  /** Local hour sending stops (default: 17) */
+  sendWindowEnd?: number;
+
+  /** Timezone the daily cap resets in (default: America/Chicago) */
+  timezone?: string;
+}
+
+/**
+ * Options for the campaign scheduler loop
+ */
+export interface SchedulerOptions {
+  /** Time between scheduler passes in ms (default: 60000) */
+  intervalMs: number;
+
+  /** Pause between individual sends in ms (default: 2000) */
+  sendDelayMs: number;
+
+  /** Sends tried per recipient before a temporary failure counts as failed (default: 5) */
+  maxSendAttempts: number;
+
+  /** Wait before the first retry in ms, doubled for each retry after (default: 300000) */
+  retryDelayMs: number;
+}
+
+/**
+ * Result of one scheduler pass
+ */
+export interface SchedulerTickResult {
+  sent: number;
+  failed: number;
+
+  /** Recipients that failed temporarily and were queued to try again */
+  retrying: number;
+
+  /** Recipients left queued because it's outside their sending hours or they're waiting to retry */
+  deferred: number;
+
+  /** Campaigns that hit their daily cap this pass */
+  capped: string[];
+
+  /** Campaigns whose queue ran empty and were completed */
+  completed: string[];
+}
+
+export interface EmailRecipient {
+  businessId: string;
+  email: string;
+  name: string;
+  websitePreviewUrl: string;
+}
+
+export interface SendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+
+  /** Not sent because the address is suppressed or the business asked not to be contacted */
+  suppressed?: boolean;
+
+  /** Failed for a reason that may clear up (4xx reply, connection trouble); worth trying again later */
+  retryable?: boolean;
+}
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+
+  /** Use implicit TLS (defaults to true for port 465) */
+  secure?: boolean;
+}
+
+/**
+ * Message handed to the SMTP transport
+ */
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Result of handing a message to the SMTP server
+ */
+export interface TransportResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response: string;
+}
+
+/**
+ * An inbound email read from a mailbox
+ */
+export interface InboundEmail {
+  /** Mailbox-specific key used to mark the message processed (e.g. the maildir filename) */
+  key: string;
+
+  /** Message-ID of the inbound email itself */
+  messageId: string;
+
+  /** Message-IDs from In-Reply-To and References, most recent first */
+  replyTo: string[];
+
+  from: string;
+  subject: string;
+  date: Date;
+
+  /** Plain-text body (HTML-only messages are converted) */
+  text: string;
+
+  /** Lowercased header names; repeated headers keep the first value */
+  headers: Record<string, string>;
+
+  /** Set when the message is a bounce (DSN) or spam complaint (ARF) report */
+  report?: MailReport;
+}
+
+/**
+ * A delivery status notification (RFC 3464) or abuse feedback report
+ * (RFC 5965) about an email we sent
+ */
+export interface MailReport {
+  kind: 'bounce' | 'complaint';
+
+  /** Addresses the report is about, lowercased (may be empty if the sender redacts them) */
+  recipients: string[];
+
+  /** Bounces only: delivery failed permanently (Action: failed, 5.x.x status) */
+  hard: boolean;
+
+  /** Status and diagnostic code, or feedback type */
+  detail: string;
+
+  /** Message-ID of the email the report is about, when the report includes its headers */
+  originalMessageId: string | null;
+}
+
+/**
+ * Where inbound replies come from.
+ * MaildirMailbox reads a local maildir; an IMAP client can implement the same interface.
+ */
+export interface MailboxSource {
+  /** Messages that haven't been processed yet */
+  fetchUnprocessed(): Promise<InboundEmail[]>;
+
+  /** Mark a message processed so it isn't returned again */
+  markProcessed(key: string): Promise<void>;
+}
+
+/**
+ * Result of one reply ingestion pass
+ */
+export interface ReplyIngestResult {
+  /** Messages read from the mailbox */
+  processed: number;
+
+  /** Replies matched to a sent email and stored */
+  matched: number;
+
+  /** Messages that don't answer any email we sent */
+  unmatched: number;
+
+  /** Replies that were already ingested */
+  duplicates: number;
+
+  /** Bounce reports (DSNs) */
+  bounces: number;
+
+  /** Spam complaint reports (ARF) */
+  complaints: number;
+
+  /** Matched replies by classification */
+  byClassification: Record<ReplyClassification, number>;
+}
+
+/**
+ * A call or visit with everything the sales rep needs for it
+ */
+export interface TaskSheetEntry {
+  task: OutreachTask;
+  business: Business;
+  previewUrl: string | null;
+  script: string;
+}
+
+/**
+ * In-person visits grouped by city
+ */
+export interface VisitRoute {
+  city: string;
+  state: string | null;
+  stops: TaskSheetEntry[];
+}
+
+/**
+ * What happened on a call or visit
+ */
+export interface TaskOutcomeInput {
+  outcome: OutreachTaskOutcome;
+
+  /** When to call back; required for the "callback" outcome */
+  callbackAt?: Date;
+
+  notes?: string;
+}
+
+/**
+ * Options for the call/visit queue
+ */
+export interface TaskQueueOptions {
+  /** Unanswered attempts before a task is given up on (default: 3) */
+  maxAttempts: number;
+
+  /** Wait before retrying an unanswered call in ms (default: 1 day) */
+  retryAfterMs: number;
+}
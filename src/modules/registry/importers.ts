@@ -0,0 +1,281 @@
+// Registry Importers
+// Column layouts for each state's bulk business-entity export
+
+import {
+  classifyEntityType,
+  FixedWidthLayout,
+  parseDelimitedRecords,
+  parseFixedWidthLine,
+  parseRegistryDate,
+  RegistryDateFormat,
+} from './parsers.js';
+import type { RegistryAddress, RegistryImporter, RegistryRecord, RegistrySource } from './types.js';
+
+/**
+ * Fields every importer maps from its export. Optional fields are left out
+ * of layouts whose export doesn't have them.
+ */
+type RegistryField =
+  | 'id' | 'name' | 'type' | 'status' | 'formed' | 'county'
+  | 'street' | 'street2' | 'city' | 'state' | 'zip'
+  | 'agentName' | 'agentStreet' | 'agentCity' | 'agentState' | 'agentZip';
+
+type RequiredField = 'id' | 'name' | 'type' | 'formed';
+
+type FieldMap<T> = Pick<Record<RegistryField, T>, RequiredField> & Partial<Record<RegistryField, T>>;
+
+interface ImporterDefinition {
+  source: RegistrySource;
+  state: string;
+  label: string;
+  dateFormat: RegistryDateFormat;
+}
+
+/**
+ * Build a record from mapped fields; null if the row has no ID or name.
+ */
+function toRecord(definition: ImporterDefinition, row: Partial<Record<RegistryField, string>>): RegistryRecord | null {
+  const filingId = row.id?.trim();
+  const name = row.name?.trim();
+  if (!filingId || !name) return null;
+
+  const entityType = row.type?.trim() ?? '';
+  const { kind, foreign } = classifyEntityType(entityType);
+  const street = [row.street, row.street2].map((part) => part?.trim()).filter(Boolean).join(', ');
+
+  return {
+    source: definition.source,
+    filingId,
+    name,
+    entityType,
+    entityKind: kind,
+    foreign,
+    status: row.status?.trim() || null,
+    formationDate: parseRegistryDate(row.formed, definition.dateFormat),
+    county: row.county?.trim() || null,
+    principalAddress: address(street, row.city, row.state, row.zip),
+    registeredAgent: row.agentName?.trim()
+      ? { name: row.agentName.trim(), address: address(row.agentStreet, row.agentCity, row.agentState, row.agentZip) }
+      : null,
+  };
+}
+
+function address(street?: string, city?: string, state?: string, zip?: string): RegistryAddress | null {
+  const result: RegistryAddress = {
+    street: street?.trim() || null,
+    city: city?.trim() || null,
+    state: state?.trim().toUpperCase() || null,
+    zip: zip?.trim() || null,
+  };
+  return result.street || result.city ? result : null;
+}
+
+/**
+ * CsvRegistryImporter - Reads a delimited export with a header row
+ */
+export class CsvRegistryImporter implements RegistryImporter {
+  readonly format = 'csv' as const;
+  readonly source: RegistrySource;
+  readonly state: string;
+  readonly label: string;
+
+  constructor(
+    private definition: ImporterDefinition & { columns: FieldMap<string>; delimiter?: string }
+  ) {
+    this.source = definition.source;
+    this.state = definition.state;
+    this.label = definition.label;
+  }
+
+  parse(content: string): { records: RegistryRecord[]; invalid: number } {
+    const records: RegistryRecord[] = [];
+    let invalid = 0;
+
+    for (const raw of parseDelimitedRecords(content, this.definition.delimiter)) {
+      const row: Partial<Record<RegistryField, string>> = {};
+      for (const [field, column] of Object.entries(this.definition.columns) as [RegistryField, string][]) {
+        row[field] = raw[column];
+      }
+      const record = toRecord(this.definition, row);
+      if (record) records.push(record);
+      else invalid++;
+    }
+
+    return { records, invalid };
+  }
+}
+
+/**
+ * FixedWidthRegistryImporter - Reads a fixed-width export, one filing per line
+ */
+export class FixedWidthRegistryImporter implements RegistryImporter {
+  readonly format = 'fixed-width' as const;
+  readonly source: RegistrySource;
+  readonly state: string;
+  readonly label: string;
+
+  constructor(
+    private definition: ImporterDefinition & { layout: FieldMap<[number, number]>; hasHeader?: boolean }
+  ) {
+    this.source = definition.source;
+    this.state = definition.state;
+    this.label = definition.label;
+  }
+
+  parse(content: string): { records: RegistryRecord[]; invalid: number } {
+    const records: RegistryRecord[] = [];
+    let invalid = 0;
+
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+    for (const line of this.definition.hasHeader ? lines.slice(1) : lines) {
+      const row = parseFixedWidthLine(line, this.definition.layout as FixedWidthLayout<RegistryField>);
+      const record = toRecord(this.definition, row);
+      if (record) records.push(record);
+      else invalid++;
+    }
+
+    return { records, invalid };
+  }
+}
+
+// ==================== STATE LAYOUTS ====================
+// Column names and positions of each state's bulk export. Adjust here if a
+// state changes its export.
+
+// Mississippi: CSV, one row per entity
+export const MS_SOS_IMPORTER = new CsvRegistryImporter({
+  source: 'ms_sos',
+  state: 'MS',
+  label: 'Mississippi Secretary of State',
+  dateFormat: 'MM/DD/YYYY',
+  columns: {
+    id: 'BusinessId',
+    name: 'BusinessName',
+    type: 'EntityType',
+    status: 'Status',
+    formed: 'FormationDate',
+    county: 'County',
+    street: 'PrincipalAddress1',
+    street2: 'PrincipalAddress2',
+    city: 'PrincipalCity',
+    state: 'PrincipalState',
+    zip: 'PrincipalZip',
+    agentName: 'AgentName',
+    agentStreet: 'AgentAddress1',
+    agentCity: 'AgentCity',
+    agentState: 'AgentState',
+    agentZip: 'AgentZip',
+  },
+});
+
+// Tennessee: CSV with spaced headers
+export const TN_SOS_IMPORTER = new CsvRegistryImporter({
+  source: 'tn_sos',
+  state: 'TN',
+  label: 'Tennessee Secretary of State',
+  dateFormat: 'MM/DD/YYYY',
+  columns: {
+    id: 'Control Number',
+    name: 'Entity Name',
+    type: 'Entity Type',
+    status: 'Entity Status',
+    formed: 'Initial Filing Date',
+    county: 'County',
+    street: 'Principal Address',
+    city: 'Principal City',
+    state: 'Principal State',
+    zip: 'Principal Zip',
+    agentName: 'Registered Agent',
+    agentStreet: 'RA Address',
+    agentCity: 'RA City',
+    agentState: 'RA State',
+    agentZip: 'RA Zip',
+  },
+});
+
+// Alabama: fixed width, YYYYMMDD dates
+export const AL_SOS_IMPORTER = new FixedWidthRegistryImporter({
+  source: 'al_sos',
+  state: 'AL',
+  label: 'Alabama Secretary of State',
+  dateFormat: 'YYYYMMDD',
+  layout: {
+    id: [0, 10],
+    name: [10, 90],
+    type: [90, 120],
+    status: [120, 135],
+    formed: [135, 143],
+    county: [143, 163],
+    street: [163, 213],
+    city: [213, 243],
+    state: [243, 245],
+    zip: [245, 255],
+    agentName: [255, 315],
+    agentStreet: [315, 365],
+    agentCity: [365, 395],
+    agentState: [395, 397],
+    agentZip: [397, 407],
+  },
+});
+
+// Louisiana: pipe-delimited, parishes in place of counties
+export const LA_SOS_IMPORTER = new CsvRegistryImporter({
+  source: 'la_sos',
+  state: 'LA',
+  label: 'Louisiana Secretary of State',
+  dateFormat: 'MM/DD/YYYY',
+  delimiter: '|',
+  columns: {
+    id: 'CharterNumber',
+    name: 'Name',
+    type: 'EntityType',
+    status: 'Status',
+    formed: 'RegistrationDate',
+    county: 'Parish',
+    street: 'Address',
+    city: 'City',
+    state: 'State',
+    zip: 'Zip',
+    agentName: 'AgentName',
+    agentStreet: 'AgentAddress',
+    agentCity: 'AgentCity',
+    agentState: 'AgentState',
+    agentZip: 'AgentZip',
+  },
+});
+
+// Arkansas: fixed width with a header line, no county
+export const AR_SOS_IMPORTER = new FixedWidthRegistryImporter({
+  source: 'ar_sos',
+  state: 'AR',
+  label: 'Arkansas Secretary of State',
+  dateFormat: 'YYYYMMDD',
+  hasHeader: true,
+  layout: {
+    id: [0, 12],
+    name: [12, 112],
+    type: [112, 152],
+    status: [152, 167],
+    formed: [167, 175],
+    street: [175, 235],
+    city: [235, 265],
+    state: [265, 267],
+    zip: [267, 277],
+    agentName: [277, 337],
+    agentStreet: [337, 397],
+    agentCity: [397, 427],
+    agentState: [427, 429],
+    agentZip: [429, 439],
+  },
+});
+
+/**
+ * Built-in importers by source
+ */
+export const REGISTRY_IMPORTERS: Record<RegistrySource, RegistryImporter> = {
+  ms_sos: MS_SOS_IMPORTER,
+  tn_sos: TN_SOS_IMPORTER,
+  al_sos: AL_SOS_IMPORTER,
+  la_sos: LA_SOS_IMPORTER,
+  ar_sos: AR_SOS_IMPORTER,
+};
@@ -0,0 +1,268 @@
+// Registry Module
+// Imports newly registered businesses from Secretary of State bulk exports
+
+import { readFileSync } from 'fs';
+import { db } from '../../database/index.js';
+import type { Business, BusinessInsert } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import { DuplicateDetector } from '../dedupe/index.js';
+import { BusinessCategory, CATEGORY_LABELS } from '../discovery/types.js';
+import { LeadScoringService } from '../scoring/index.js';
+import { REGISTRY_IMPORTERS } from './importers.js';
+import { isActiveStatus } from './parsers.js';
+import {
+  DEFAULT_ENTITY_KINDS,
+  RegistryAddress,
+  RegistryImporter,
+  RegistryImportOptions,
+  RegistryImportSummary,
+  RegistryRecord,
+  RegistrySource,
+} from './types.js';
+
+// Re-export types, parsers and importers
+export * from './types.js';
+export * from './parsers.js';
+export * from './importers.js';
+
+// Keywords in a business name that tell us its category
+const CATEGORY_KEYWORDS: Array<[RegExp, BusinessCategory]> = [
+  [/\bbarber/i, BusinessCategory.BARBER_SHOP],
+  [/\b(salon|beauty|nails?|lash|spa)\b/i, BusinessCategory.SALON],
+  [/\b(plumb)/i, BusinessCategory.PLUMBER],
+  [/\belectric/i, BusinessCategory.ELECTRICIAN],
+  [/\b(lawn|landscap|tree service)/i, BusinessCategory.LANDSCAPING],
+  [/\b(cleaning|janitorial|maid)/i, BusinessCategory.CLEANING_SERVICE],
+  [/\b(auto|automotive|tire|mechanic|collision|body shop)/i, BusinessCategory.AUTO_REPAIR],
+  [/\b(restaurant|grill|cafe|kitchen|bbq|barbecue|diner|pizza|tacos?|catering|bakery)\b/i, BusinessCategory.RESTAURANT],
+  [/\b(fitness|gym|crossfit|yoga)\b/i, BusinessCategory.GYM],
+  [/\b(boutique|store|shop|market)\b/i, BusinessCategory.RETAIL],
+];
+
+// Commercial registered-agent services. Their address is not where the
+// business is, so it's never used in place of a missing principal address.
+const AGENT_SERVICE_PATTERN = /\b(ct corporation|corporation service company|registered agents?( inc| solutions| llc)?|northwest registered|incorp services|cogency global|legalinc|national registered agents|united states corporation agents|zenbusiness|legalzoom)\b/i;
+
+// Entity designators dropped from display names
+const ENTITY_SUFFIX_PATTERN = /[,\s]+(l\.?\s?l\.?\s?c\.?|inc\.?|incorporated|corp\.?|corporation|co\.?|ltd\.?|p\.?l\.?l\.?c\.?|l\.?l\.?p\.?|l\.?p\.?)$/i;
+
+/**
+ * RegistryImportService - Imports Secretary of State filings as businesses
+ *
+ * This service:
+ * 1. Parses a state's bulk export with that state's importer
+ * 2. Filters by formation date, entity kind, status and foreign filings
+ * 3. Maps names, principal addresses and registered agents to businesses
+ * 4. Runs each filing through the same duplicate check as Places discovery
+ * 5. Saves and scores new businesses
+ *
+ * Usage:
+ * ```typescript
+ * const registry = new RegistryImportService();
+ * const summary = registry.importFile('ms_sos', './exports/ms-2026-10.csv', { formedAfter: '2026-09-01' });
+ * ```
+ */
+export class RegistryImportService {
+  private importers: Record<string, RegistryImporter>;
+  private duplicates: DuplicateDetector;
+  private scoring: LeadScoringService;
+
+  constructor(options?: { importers?: RegistryImporter[] }) {
+    this.importers = { ...REGISTRY_IMPORTERS };
+    for (const importer of options?.importers ?? []) {
+      this.importers[importer.source] = importer;
+    }
+    this.duplicates = new DuplicateDetector();
+    this.scoring = new LeadScoringService();
+  }
+
+  /**
+   * Importer for a source, or throw if there isn't one.
+   */
+  getImporter(source: string): RegistryImporter {
+    const importer = this.importers[source];
+    if (!importer) {
+      throw new Error(`No registry importer for "${source}" (have: ${Object.keys(this.importers).join(', ')})`);
+    }
+    return importer;
+  }
+
+  /**
+   * List available importers.
+   */
+  listImporters(): RegistryImporter[] {
+    return Object.values(this.importers);
+  }
+
+  /**
+   * Import an export file from disk.
+   */
+  importFile(source: RegistrySource, path: string, options: RegistryImportOptions = {}): RegistryImportSummary {
+    return this.importContent(source, readFileSync(path, 'utf-8'), options);
+  }
+
+  /**
+   * Import the contents of an export.
+   */
+  importContent(source: RegistrySource, content: string, options: RegistryImportOptions = {}): RegistryImportSummary {
+    const importer = this.getImporter(source);
+    const { records, invalid } = importer.parse(content);
+    const summary: RegistryImportSummary = {
+      source,
+      read: records.length,
+      invalid,
+      filteredOut: 0,
+      alreadyImported: 0,
+      duplicates: 0,
+      linked: 0,
+      saved: 0,
+    };
+
+    logger.info(`Read ${records.length} filing(s) from ${importer.label}${invalid > 0 ? ` (${invalid} unreadable)` : ''}`);
+
+    for (const record of records) {
+      if (!this.matchesFilters(record, options)) {
+        summary.filteredOut++;
+        continue;
+      }
+      if (db.businessExistsBySource(record.source, record.filingId)) {
+        summary.alreadyImported++;
+        continue;
+      }
+      if (options.limit !== undefined && summary.saved >= options.limit) {
+        break;
+      }
+
+      const business = toBusinessInsert(record, importer.state);
+      const existing = this.duplicates.findExisting(business);
+      if (existing) {
+        summary.duplicates++;
+        if (!options.dryRun && this.linkFiling(existing, business)) {
+          summary.linked++;
+        }
+        continue;
+      }
+
+      if (!options.dryRun) {
+        const saved = db.insertBusiness(business);
+        this.scoring.scoreAndSave(saved);
+      }
+      summary.saved++;
+    }
+
+    logger.info(
+      `${options.dryRun ? '[DRY RUN] Would save' : 'Saved'} ${summary.saved} new business(es); ` +
+      `${summary.filteredOut} filtered out, ${summary.alreadyImported} already imported, ${summary.duplicates} duplicate(s)`
+    );
+
+    return summary;
+  }
+
+  /**
+   * Whether a filing passes the date, kind, status and foreign filters.
+   */
+  matchesFilters(record: RegistryRecord, options: RegistryImportOptions): boolean {
+    const kinds = options.entityKinds ?? DEFAULT_ENTITY_KINDS;
+    if (!kinds.includes(record.entityKind)) return false;
+    if (record.foreign && !options.includeForeign) return false;
+    if (!options.includeInactive && !isActiveStatus(record.status)) return false;
+
+    if (options.formedAfter || options.formedBefore) {
+      if (!record.formationDate) return false;
+      if (options.formedAfter && record.formationDate < options.formedAfter) return false;
+      if (options.formedBefore && record.formationDate > options.formedBefore) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Give a business we already have the filing details it's missing.
+   */
+  private linkFiling(existing: Business, filing: BusinessInsert): boolean {
+    const update: Partial<BusinessInsert> = {};
+    for (const field of ['entity_type', 'formation_date', 'registered_agent_name', 'registered_agent_address', 'county'] as const) {
+      if (existing[field] === null && filing[field]) {
+        update[field] = filing[field];
+      }
+    }
+    if (Object.keys(update).length === 0) return false;
+    db.updateBusiness(existing.id, update);
+    return true;
+  }
+}
+
+/**
+ * Map a filing to a business. The principal address is used for location;
+ * when there isn't one, the registered agent's address is used unless the
+ * agent is a commercial agent service.
+ */
+export function toBusinessInsert(record: RegistryRecord, registryState: string): BusinessInsert {
+  const agent = record.registeredAgent;
+  const location: RegistryAddress | null = record.principalAddress
+    ?? (agent && !AGENT_SERVICE_PATTERN.test(agent.name) ? agent.address : null);
+  const category = inferCategory(record.name);
+
+  return {
+    name: displayName(record.name),
+    business_type: category ? CATEGORY_LABELS[category] : null,
+    category,
+    address: location?.street ?? null,
+    city: location?.city ? titleCase(location.city) : null,
+    state: location?.state ?? registryState,
+    county: record.county ? titleCase(record.county) : null,
+    has_website: 0,
+    source: record.source,
+    source_id: record.filingId,
+    status: 'discovered',
+    entity_type: record.entityType || null,
+    formation_date: record.formationDate,
+    registered_agent_name: agent?.name ?? null,
+    registered_agent_address: agent?.address ? formatAddress(agent.address) : null,
+  };
+}
+
+/**
+ * Business name for display: entity designator dropped, and title case if
+ * the registry filed it in all caps ("JOE'S BARBER SHOP, LLC" -> "Joe's Barber Shop").
+ */
+export function displayName(name: string): string {
+  const trimmed = name.trim().replace(ENTITY_SUFFIX_PATTERN, '').trim() || name.trim();
+  return trimmed === trimmed.toUpperCase() ? titleCase(trimmed) : trimmed;
+}
+
+/**
+ * Guess a business category from its name, or null if nothing matches.
+ */
+export function inferCategory(name: string): BusinessCategory | null {
+  return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s\-/("])([a-z])/g, (_, lead: string, letter: string) => lead + letter.toUpperCase());
+}
+
+function formatAddress(address: RegistryAddress): string {
+  const cityState = [address.city, [address.state, address.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [address.street, cityState].filter(Boolean).join(', ');
+}
+
+/**
+ * Convenience function to import one export file.
+ */
+export function importRegistryFile(
+  source: RegistrySource,
+  path: string,
+  options?: RegistryImportOptions
+): RegistryImportSummary {
+  return new RegistryImportService().importFile(source, path, options);
+}
+
+// Module export object
+export const registry = {
+  RegistryImportService,
+  importRegistryFile,
+  toBusinessInsert,
+  displayName,
+  inferCategory,
+};
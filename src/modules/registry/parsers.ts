@@ -0,0 +1,151 @@
+// Registry Parsers
+// Reading delimited and fixed-width exports, and normalizing filed values
+
+import type { EntityKind } from './types.js';
+
+/**
+ * Parse delimited text (CSV by default) into rows of fields. Handles quoted
+ * fields, doubled quotes inside them, quoted line breaks and CRLF endings.
+ * Blank lines are skipped.
+ */
+export function parseDelimited(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  const endRow = (): void => {
+    row.push(field);
+    if (row.length > 1 || row[0]!.trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Parse delimited text with a header row into records keyed by header.
+ */
+export function parseDelimitedRecords(content: string, delimiter = ','): Record<string, string>[] {
+  const [header, ...rows] = parseDelimited(content, delimiter);
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, i) => [column, (row[i] ?? '').trim()]))
+  );
+}
+
+/**
+ * Fixed-width field positions: [start, end) character offsets
+ */
+export type FixedWidthLayout<K extends string> = Record<K, [number, number]>;
+
+/**
+ * Slice one fixed-width line into trimmed fields.
+ */
+export function parseFixedWidthLine<K extends string>(line: string, layout: FixedWidthLayout<K>): Record<K, string> {
+  const record = {} as Record<K, string>;
+  for (const [key, [start, end]] of Object.entries(layout) as [K, [number, number]][]) {
+    record[key] = line.slice(start, end).trim();
+  }
+  return record;
+}
+
+/**
+ * Date formats seen in registry exports
+ */
+export type RegistryDateFormat = 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'YYYYMMDD';
+
+/**
+ * Parse a filed date into YYYY-MM-DD, or null if it's blank or not a real date.
+ */
+export function parseRegistryDate(value: string | undefined, format: RegistryDateFormat): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  let match: RegExpMatchArray | null;
+  let year: string, month: string, day: string;
+  switch (format) {
+    case 'MM/DD/YYYY':
+      match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+      if (!match) return null;
+      [, month, day, year] = match as unknown as [string, string, string, string];
+      break;
+    case 'YYYY-MM-DD':
+      match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+      if (!match) return null;
+      [, year, month, day] = match as unknown as [string, string, string, string];
+      break;
+    case 'YYYYMMDD':
+      match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+      if (!match) return null;
+      [, year, month, day] = match as unknown as [string, string, string, string];
+      break;
+  }
+
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : null;
+}
+
+/**
+ * Classify a filed entity type ("Limited Liability Company", "Business
+ * Corporation", "Nonprofit Corporation", "LLP", ...).
+ */
+export function classifyEntityType(entityType: string): { kind: EntityKind; foreign: boolean } {
+  const type = entityType.toLowerCase();
+  const foreign = /\bforeign\b/.test(type);
+
+  let kind: EntityKind;
+  if (/non-?profit|not[\s-]for[\s-]profit|religious|charit/.test(type)) {
+    kind = 'nonprofit';
+  } else if (/limited liability company|\bl\.?l\.?c\b/.test(type)) {
+    kind = 'llc';
+  } else if (/partnership|\bl\.?l\.?p\b|\bl\.?p\b/.test(type)) {
+    kind = 'partnership';
+  } else if (/corporation|\bcorp\b|\binc\b|professional association/.test(type)) {
+    kind = 'corporation';
+  } else if (/trade ?name|assumed name|fictitious|sole proprietor|\bdba\b/.test(type)) {
+    kind = 'sole_proprietorship';
+  } else {
+    kind = 'other';
+  }
+
+  return { kind, foreign };
+}
+
+/**
+ * Whether a filed status means the business is open for business.
+ * Blank statuses are treated as active (some exports omit them).
+ */
+export function isActiveStatus(status: string | null): boolean {
+  if (!status) return true;
+  return /\b(active|good standing|in existence|exists|current)\b/i.test(status) && !/\b(inactive|not)\b/i.test(status);
+}
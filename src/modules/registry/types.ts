@@ -0,0 +1,94 @@
+// Registry Module Types
+// Types and interfaces for importing Secretary of State business filings
+
+/**
+ * State registries we import from (stored as businesses.source)
+ */
+export type RegistrySource = 'ms_sos' | 'tn_sos' | 'al_sos' | 'la_sos' | 'ar_sos';
+
+/**
+ * Broad entity kinds, for filtering filings of different states the same way
+ */
+export type EntityKind =
+  | 'llc'
+  | 'corporation'
+  | 'partnership'
+  | 'sole_proprietorship'   // Trade names / DBAs where the state registers them
+  | 'nonprofit'
+  | 'other';
+
+/**
+ * A mailing or street address from a filing
+ */
+export interface RegistryAddress {
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+}
+
+/**
+ * One business filing, normalized across states
+ */
+export interface RegistryRecord {
+  source: RegistrySource;
+  filingId: string;              // The state's entity / charter / control number
+  name: string;                  // As filed, e.g. "JOE'S BARBER SHOP, LLC"
+  entityType: string;            // As filed, e.g. "Limited Liability Company"
+  entityKind: EntityKind;
+  foreign: boolean;              // Registered in another state, qualified to do business here
+  status: string | null;         // As filed, e.g. "Active", "Good Standing"
+  formationDate: string | null;  // YYYY-MM-DD
+  county: string | null;         // County (parish in Louisiana)
+  principalAddress: RegistryAddress | null;
+  registeredAgent: { name: string; address: RegistryAddress | null } | null;
+}
+
+/**
+ * Reads one state's bulk export. Add an importer (and a RegistrySource) to
+ * support another state.
+ */
+export interface RegistryImporter {
+  source: RegistrySource;
+  state: string;                 // Two-letter code
+  label: string;                 // e.g. "Mississippi Secretary of State"
+  format: 'csv' | 'fixed-width';
+
+  /**
+   * Parse an export file. Rows that can't be read (no ID or name) are
+   * counted as invalid rather than failing the import.
+   */
+  parse(content: string): { records: RegistryRecord[]; invalid: number };
+}
+
+/**
+ * Which filings to import
+ */
+export interface RegistryImportOptions {
+  formedAfter?: string;          // YYYY-MM-DD, inclusive
+  formedBefore?: string;         // YYYY-MM-DD, inclusive
+  entityKinds?: EntityKind[];    // Default: for-profit kinds (not nonprofit or other)
+  includeInactive?: boolean;     // Default: only active / good-standing filings
+  includeForeign?: boolean;      // Default: only entities formed in this state
+  limit?: number;                // Max new businesses to save
+  dryRun?: boolean;              // Parse and match, but don't write
+}
+
+/**
+ * Result of importing one export file
+ */
+export interface RegistryImportSummary {
+  source: RegistrySource;
+  read: number;                  // Filings parsed
+  invalid: number;               // Rows without an ID or name
+  filteredOut: number;           // Outside the date range, kind, status or foreign filters
+  alreadyImported: number;       // Same filing already saved from this registry
+  duplicates: number;            // Matched an existing business from another source
+  linked: number;                // Duplicates given the filing's details they were missing
+  saved: number;
+}
+
+/**
+ * Default entity kinds to import
+ */
+export const DEFAULT_ENTITY_KINDS: EntityKind[] = ['llc', 'corporation', 'partnership', 'sole_proprietorship'];
@@ -0,0 +1,118 @@
+// Production Handoff
+// Moves a paid website from its preview deployment to production on the client's own domain
+
+import { db } from '../../database/index.js';
+import type { ProductionDeploymentStatus } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import { DeploymentService } from '../deployment/index.js';
+import type { DomainResult } from '../deployment/index.js';
+import { PaymentService } from './payments.js';
+import { formatMoney } from './proposals.js';
+import type { HandoffResult } from './types.js';
+
+// Hostname like "marcusbarbers.com" or "www.marcusbarbers.com"
+const DOMAIN_PATTERN = /^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * HandoffService - Deploys the website the client paid for on their domain
+ *
+ * Handoff only happens for an accepted proposal that's paid in full. The
+ * proposal's chosen generated_websites row is deployed to its own production
+ * project (without the tracking beacon) and the client's domain is attached.
+ *
+ * Every attempt is recorded in production_deployments:
+ * - live:        deployed and the domain already points at Vercel
+ * - pending_dns: deployed, but the client still has to add the DNS records in `detail`
+ * - failed:      deployment or domain setup failed (error in `detail`)
+ *
+ * After a pending_dns result, run the handoff again once the client has
+ * added the records: the domain is already on the project, so Vercel is
+ * asked to verify it again and the new attempt is recorded as live.
+ *
+ * Usage:
+ * ```typescript
+ * const handoff = new HandoffService();
+ * const result = await handoff.handoff(proposal.id, 'marcusbarbers.com');
+ * ```
+ */
+export class HandoffService {
+  private deployment: DeploymentService;
+  private payments: PaymentService;
+
+  constructor(deployment?: DeploymentService, payments?: PaymentService) {
+    this.deployment = deployment ?? new DeploymentService();
+    this.payments = payments ?? new PaymentService();
+  }
+
+  async handoff(proposalId: string, domain: string): Promise<HandoffResult> {
+    const normalizedDomain = domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+    if (!DOMAIN_PATTERN.test(normalizedDomain)) {
+      return { success: false, deployment: null, error: `Not a valid domain: ${domain}` };
+    }
+
+    const proposal = db.getProposalById(proposalId);
+    if (!proposal) {
+      return { success: false, deployment: null, error: `Proposal not found: ${proposalId}` };
+    }
+    if (proposal.status !== 'accepted') {
+      return { success: false, deployment: null, error: `Proposal ${proposalId} is ${proposal.status}, not accepted` };
+    }
+
+    const summary = this.payments.getSummary(proposal.id);
+    if (!summary.paid) {
+      return {
+        success: false,
+        deployment: null,
+        error: `Proposal ${proposalId} has ${formatMoney(summary.balanceCents, proposal.currency)} outstanding`,
+      };
+    }
+
+    const website = db.getWebsiteById(proposal.website_id);
+    const business = db.getBusinessById(proposal.business_id);
+    if (!website || !business) {
+      return { success: false, deployment: null, error: `Website or business for proposal ${proposalId} no longer exists` };
+    }
+
+    const result = await this.deployment.deployProduction({
+      websiteId: website.id,
+      businessName: business.name,
+      htmlContent: website.html_content,
+      domain: normalizedDomain,
+    });
+
+    const status: ProductionDeploymentStatus = !result.success || !result.domain || result.domain.error
+      ? 'failed'
+      : result.domain.verified ? 'live' : 'pending_dns';
+
+    const record = db.insertProductionDeployment({
+      business_id: business.id,
+      website_id: website.id,
+      proposal_id: proposal.id,
+      domain: normalizedDomain,
+      project_name: result.projectName,
+      deployment_id: result.deploymentId || null,
+      url: result.success ? result.url : null,
+      status,
+      detail: status === 'failed'
+        ? result.error ?? result.domain?.error ?? 'Unknown error'
+        : status === 'pending_dns' ? describeDnsRecords(result.domain!) : null,
+    });
+
+    if (status === 'failed') {
+      return { success: false, deployment: record, error: record.detail ?? undefined };
+    }
+
+    logger.info(`${business.name} handed off to ${normalizedDomain} (${status})`);
+    return { success: true, deployment: record };
+  }
+}
+
+/**
+ * DNS records the client needs to add, one per line.
+ */
+function describeDnsRecords(domain: DomainResult): string {
+  if (domain.verification.length === 0) {
+    return `Point ${domain.domain} at Vercel (A 76.76.21.21, or CNAME cname.vercel-dns.com for subdomains)`;
+  }
+  return domain.verification.map((record) => `${record.type} ${record.domain} ${record.value}`).join('\n');
+}
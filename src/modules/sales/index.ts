@@ -0,0 +1,47 @@
+// Sales Module
+// What happens after a business is contacted: proposals, payments and production handoff
+
+import type { Proposal } from '../../database/types.js';
+import { ProposalService } from './proposals.js';
+import { PaymentService } from './payments.js';
+import { HandoffService } from './handoff.js';
+import type { HandoffResult, PaymentSummary, ProposalOptions } from './types.js';
+
+// Re-export types and services
+export * from './types.js';
+export {
+  ProposalService,
+  InvalidProposalTransitionError,
+  PROPOSAL_TRANSITIONS,
+  formatMoney,
+} from './proposals.js';
+export { PaymentService, WebhookSecretMissingError } from './payments.js';
+export { PaymentWebhookServer } from './webhook-server.js';
+export { HandoffService } from './handoff.js';
+
+/**
+ * Convenience function to create a proposal.
+ */
+export function createProposal(options: ProposalOptions): Proposal {
+  return new ProposalService().createProposal(options);
+}
+
+/**
+ * Convenience function to hand a paid proposal's website over to the client's domain.
+ */
+export async function handoffToProduction(proposalId: string, domain: string): Promise<HandoffResult> {
+  return new HandoffService().handoff(proposalId, domain);
+}
+
+// Module export object
+export const sales = {
+  ProposalService,
+  PaymentService,
+  HandoffService,
+
+  createProposal,
+  handoffToProduction,
+
+  // What's been paid against a proposal
+  getPaymentSummary: (proposalId: string): PaymentSummary => new PaymentService().getSummary(proposalId),
+};
@@ -0,0 +1,207 @@
+// Payments
+// Payment ledger fed by signed webhook events from a payment provider (or the local stand-in)
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../../config/index.js';
+import { db, InvalidStatusTransitionError } from '../../database/index.js';
+import type { PaymentKind, PaymentStatus } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import { ProposalService, formatMoney } from './proposals.js';
+import type { PaymentSummary, PaymentWebhookEvent, WebhookConfig, WebhookResult } from './types.js';
+
+const DEFAULT_PORT = 8788;
+
+// Provider name recorded for events arriving through the webhook
+const WEBHOOK_PROVIDER = 'webhook';
+
+const EVENT_ENTRIES: Record<PaymentWebhookEvent['type'], { kind: PaymentKind; status: PaymentStatus }> = {
+  'payment.succeeded': { kind: 'payment', status: 'succeeded' },
+  'payment.failed': { kind: 'payment', status: 'failed' },
+  'refund.succeeded': { kind: 'refund', status: 'succeeded' },
+};
+
+/**
+ * Thrown when webhook events are signed, or the webhook server started,
+ * without a PAYMENT_WEBHOOK_SECRET.
+ */
+export class WebhookSecretMissingError extends Error {
+  constructor() {
+    super('PAYMENT_WEBHOOK_SECRET is not set; it is required to sign payment events or run the webhook server');
+    this.name = 'WebhookSecretMissingError';
+  }
+}
+
+/**
+ * PaymentService - Payment ledger for proposals
+ *
+ * Payment providers tell us about money movements by POSTing signed events
+ * to the webhook (see PaymentWebhookServer). Each event becomes one ledger
+ * row; redelivered events are recognised by their ID and ignored.
+ *
+ * A successful payment on a proposal that's still "sent" accepts it - paying
+ * is the clearest yes there is. A proposal is paid once succeeded payments
+ * minus refunds cover its price.
+ *
+ * Reads PAYMENT_WEBHOOK_PORT / PAYMENT_WEBHOOK_SECRET from the environment
+ * unless a config override is passed. Without a secret every webhook is
+ * rejected and sign() throws WebhookSecretMissingError.
+ *
+ * Usage:
+ * ```typescript
+ * const payments = new PaymentService();
+ * const result = payments.handleWebhook(rawBody, req.headers['x-payment-signature']);
+ * if (payments.getSummary(proposalId).paid) { ... }
+ * ```
+ */
+export class PaymentService {
+  private settings: WebhookConfig;
+  private proposals: ProposalService;
+
+  constructor(configOverride?: Partial<WebhookConfig>, proposals?: ProposalService) {
+    const secret = configOverride?.secret ?? config.get('PAYMENT_WEBHOOK_SECRET');
+
+    this.settings = {
+      port: configOverride?.port ?? parseInt(config.get('PAYMENT_WEBHOOK_PORT') ?? String(DEFAULT_PORT), 10),
+      secret: secret || null,
+    };
+    this.proposals = proposals ?? new ProposalService();
+  }
+
+  /**
+   * Check if there is a secret to verify webhook signatures with
+   */
+  hasSecret(): boolean {
+    return this.settings.secret !== null;
+  }
+
+  getConfig(): WebhookConfig {
+    return { ...this.settings };
+  }
+
+  /**
+   * Sign a raw webhook body (hex HMAC-SHA256), as the provider would.
+   */
+  sign(body: string): string {
+    if (!this.settings.secret) {
+      throw new WebhookSecretMissingError();
+    }
+    return createHmac('sha256', this.settings.secret).update(body).digest('hex');
+  }
+
+  /**
+   * Check a webhook body against its X-Payment-Signature header.
+   */
+  verify(body: string, signature: string): boolean {
+    if (!this.hasSecret()) return false;
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Verify and record a raw webhook delivery.
+   */
+  handleWebhook(body: string, signature: string | undefined): WebhookResult {
+    if (!signature || !this.verify(body, signature)) {
+      return { accepted: false, error: 'Invalid signature' };
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      return { accepted: false, error: 'Body is not JSON' };
+    }
+
+    if (!isWebhookEvent(event)) {
+      return { accepted: false, error: 'Unrecognised event' };
+    }
+
+    return this.recordEvent(event, WEBHOOK_PROVIDER);
+  }
+
+  /**
+   * Record a payment event in the ledger.
+   */
+  recordEvent(event: PaymentWebhookEvent, provider: string): WebhookResult {
+    const proposal = db.getProposalById(event.data.proposal_id);
+    if (!proposal) {
+      return { accepted: false, error: `Proposal not found: ${event.data.proposal_id}` };
+    }
+
+    const currency = (event.data.currency ?? proposal.currency).toLowerCase();
+    if (currency !== proposal.currency) {
+      return { accepted: false, error: `Currency ${currency} does not match proposal currency ${proposal.currency}` };
+    }
+
+    const entry = EVENT_ENTRIES[event.type];
+    const payment = db.insertPayment({
+      proposal_id: proposal.id,
+      business_id: proposal.business_id,
+      provider,
+      provider_event_id: event.id,
+      kind: entry.kind,
+      status: entry.status,
+      amount_cents: event.data.amount_cents,
+      currency,
+    });
+
+    if (!payment) {
+      return { accepted: true, duplicate: true };
+    }
+
+    logger.info(`Ledger: ${entry.kind} of ${formatMoney(payment.amount_cents, currency)} ${entry.status} for proposal ${proposal.id}`);
+
+    if (payment.kind === 'payment' && payment.status === 'succeeded') {
+      if (proposal.status === 'sent') {
+        try {
+          this.proposals.accept(proposal.id);
+        } catch (error) {
+          // The money is in the ledger either way; someone has to sort out the business
+          if (!(error instanceof InvalidStatusTransitionError)) throw error;
+          logger.warn(`Payment received but proposal ${proposal.id} left open: ${error.message}`);
+        }
+      } else if (proposal.status !== 'accepted') {
+        logger.warn(`Payment received for ${proposal.status} proposal ${proposal.id}`);
+      }
+    }
+
+    return { accepted: true, payment };
+  }
+
+  /**
+   * What's been paid against a proposal.
+   */
+  getSummary(proposalId: string): PaymentSummary {
+    const proposal = db.getProposalById(proposalId);
+    if (!proposal) {
+      throw new Error(`Proposal not found: ${proposalId}`);
+    }
+
+    const paidCents = db.getProposalAmountPaid(proposal.id);
+    return {
+      proposal,
+      paidCents,
+      balanceCents: Math.max(0, proposal.price_cents - paidCents),
+      paid: paidCents >= proposal.price_cents,
+      payments: db.getPaymentsByProposalId(proposal.id),
+    };
+  }
+}
+
+function isWebhookEvent(value: unknown): value is PaymentWebhookEvent {
+  const event = value as Partial<PaymentWebhookEvent> | null;
+  const data = event?.data;
+
+  return (
+    typeof event?.id === 'string' &&
+    event.id.length > 0 &&
+    typeof event.type === 'string' &&
+    Object.keys(EVENT_ENTRIES).includes(event.type) &&
+    typeof data?.proposal_id === 'string' &&
+    Number.isInteger(data.amount_cents) &&
+    data.amount_cents > 0 &&
+    (data.currency === undefined || typeof data.currency === 'string')
+  );
+}
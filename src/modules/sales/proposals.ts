@@ -0,0 +1,144 @@
+// Proposals
+// Price quotes for a chosen website variation and the client's accept/decline decision
+
+import { canTransitionBusinessStatus, db, InvalidStatusTransitionError } from '../../database/index.js';
+import type { Proposal, ProposalStatus } from '../../database/types.js';
+import { logger } from '../../utils/index.js';
+import type { ProposalOptions } from './types.js';
+
+// Allowed proposal status changes
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, ProposalStatus[]> = {
+  sent: ['accepted', 'declined', 'withdrawn'],
+  accepted: [],
+  declined: [],
+  withdrawn: [],
+};
+
+/**
+ * Thrown when a proposal is moved to a status it can't reach from its current one.
+ */
+export class InvalidProposalTransitionError extends Error {
+  constructor(
+    public readonly proposalId: string,
+    public readonly from: ProposalStatus,
+    public readonly to: ProposalStatus
+  ) {
+    super(`Proposal ${proposalId} cannot go from "${from}" to "${to}"`);
+    this.name = 'InvalidProposalTransitionError';
+  }
+}
+
+/**
+ * ProposalService - Creates proposals and records the client's decision
+ *
+ * A business has at most one open ("sent") proposal: creating a new one
+ * withdraws the previous one. Accepting a proposal marks the business sold.
+ *
+ *   sent -> accepted | declined | withdrawn
+ *
+ * Usage:
+ * ```typescript
+ * const proposals = new ProposalService();
+ * const proposal = proposals.createProposal({ businessId, websiteId, priceCents: 49900 });
+ * proposals.accept(proposal.id);
+ * ```
+ */
+export class ProposalService {
+  /**
+   * Create a proposal for one of the business's generated websites.
+   * Throws if the business or website doesn't exist, the website belongs to
+   * another business, or the price isn't a positive whole number of cents.
+   */
+  createProposal(options: ProposalOptions): Proposal {
+    const business = db.getBusinessById(options.businessId);
+    if (!business) {
+      throw new Error(`Business not found: ${options.businessId}`);
+    }
+
+    const website = db.getWebsiteById(options.websiteId);
+    if (!website || website.business_id !== business.id) {
+      throw new Error(`Website ${options.websiteId} does not belong to ${business.name}`);
+    }
+
+    if (!Number.isInteger(options.priceCents) || options.priceCents <= 0) {
+      throw new Error(`Price must be a positive whole number of cents, got ${options.priceCents}`);
+    }
+
+    for (const open of db.getProposalsByBusinessId(business.id).filter((p) => p.status === 'sent')) {
+      this.transition(open.id, 'withdrawn');
+    }
+
+    const proposal = db.insertProposal({
+      business_id: business.id,
+      website_id: website.id,
+      price_cents: options.priceCents,
+      currency: options.currency,
+      notes: options.notes ?? null,
+    });
+
+    logger.info(`Proposal ${proposal.id} for ${business.name}: ${formatMoney(proposal.price_cents, proposal.currency)} (variation ${website.variation_number})`);
+    return proposal;
+  }
+
+  /**
+   * Client accepted the proposal. Marks the business sold.
+   * Throws InvalidStatusTransitionError (and leaves the proposal open) if the
+   * business can't be sold from its current status, e.g. it was archived.
+   */
+  accept(proposalId: string): Proposal {
+    const current = db.getProposalById(proposalId);
+    const business = current ? db.getBusinessById(current.business_id) : null;
+    if (business && business.status !== 'sold' && !canTransitionBusinessStatus(business.status, 'sold')) {
+      throw new InvalidStatusTransitionError(business.id, business.status, 'sold');
+    }
+
+    const proposal = this.transition(proposalId, 'accepted');
+    db.updateBusinessStatus(proposal.business_id, 'sold', { actor: 'sales', reason: `Proposal ${proposal.id} accepted` });
+    return proposal;
+  }
+
+  /**
+   * Client declined the proposal.
+   */
+  decline(proposalId: string): Proposal {
+    return this.transition(proposalId, 'declined');
+  }
+
+  /**
+   * Move a proposal to a new status, enforcing PROPOSAL_TRANSITIONS.
+   */
+  transition(proposalId: string, to: ProposalStatus): Proposal {
+    const proposal = this.requireProposal(proposalId);
+
+    if (!PROPOSAL_TRANSITIONS[proposal.status].includes(to)) {
+      throw new InvalidProposalTransitionError(proposalId, proposal.status, to);
+    }
+
+    const updated = db.updateProposalStatus(proposalId, to)!;
+    logger.info(`Proposal ${proposalId} is now ${to}`);
+    return updated;
+  }
+
+  getProposal(proposalId: string): Proposal | null {
+    return db.getProposalById(proposalId);
+  }
+
+  listProposals(status?: ProposalStatus): Proposal[] {
+    return db.getProposals(status);
+  }
+
+  private requireProposal(proposalId: string): Proposal {
+    const proposal = db.getProposalById(proposalId);
+    if (!proposal) {
+      throw new Error(`Proposal not found: ${proposalId}`);
+    }
+    return proposal;
+  }
+}
+
+/**
+ * Format an amount in cents, e.g. formatMoney(49900, 'usd') -> "$499.00".
+ */
+export function formatMoney(cents: number, currency = 'usd'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+}
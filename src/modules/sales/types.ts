@@ -0,0 +1,86 @@
+// Sales Module Types
+// Types for proposals, the payment ledger and production handoff
+
+import type { Payment, ProductionDeployment, Proposal } from '../../database/types.js';
+
+/**
+ * Options for creating a proposal
+ */
+export interface ProposalOptions {
+  businessId: string;
+
+  /** The generated website variation the client picked */
+  websiteId: string;
+
+  /** Price in the smallest currency unit (cents) */
+  priceCents: number;
+
+  /** ISO currency code (default: "usd") */
+  currency?: string;
+
+  notes?: string;
+}
+
+/**
+ * Event posted by the payment provider (or the local stand-in) to the webhook
+ */
+export interface PaymentWebhookEvent {
+  /** Provider's event ID; redelivered events are ignored */
+  id: string;
+
+  type: 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+  data: {
+    proposal_id: string;
+    amount_cents: number;
+    currency?: string;
+  };
+}
+
+/**
+ * Outcome of handling one webhook event
+ */
+export interface WebhookResult {
+  /** Event was valid and is in the ledger (now or from an earlier delivery) */
+  accepted: boolean;
+
+  /** Event had already been recorded */
+  duplicate?: boolean;
+
+  payment?: Payment;
+  error?: string;
+}
+
+/**
+ * Payment webhook settings
+ */
+export interface WebhookConfig {
+  /** Port the webhook server listens on */
+  port: number;
+
+  /** Shared secret for the X-Payment-Signature header; null when unset */
+  secret: string | null;
+}
+
+/**
+ * What has been paid against a proposal
+ */
+export interface PaymentSummary {
+  proposal: Proposal;
+  paidCents: number;
+
+  /** Amount still owed (never negative) */
+  balanceCents: number;
+
+  paid: boolean;
+  payments: Payment[];
+}
+
+/**
+ * Result of handing a paid website over to production
+ */
+export interface HandoffResult {
+  success: boolean;
+  deployment: ProductionDeployment | null;
+  error?: string;
+}
@@ -0,0 +1,139 @@
+// Payment Webhook Server
+// Local stand-in for a payment provider's webhook endpoint
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from '../../utils/index.js';
+import { WebhookSecretMissingError } from './payments.js';
+import type { PaymentService } from './payments.js';
+
+// Provider events are small JSON documents
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * PaymentWebhookServer - Receives signed payment events
+ *
+ * Routes:
+ *   POST /webhooks/payments   Payment event (JSON body, X-Payment-Signature header)
+ *   GET  /health              Liveness check
+ *
+ * Responds 200 for recorded (or already recorded) events so providers stop
+ * retrying, 401 for bad signatures and 400 for anything else it can't use.
+ *
+ * Usage:
+ * ```typescript
+ * const server = new PaymentWebhookServer(new PaymentService());
+ * const port = await server.start();
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class PaymentWebhookServer {
+  private server: Server | null = null;
+
+  constructor(private payments: PaymentService) {}
+
+  /**
+   * Start listening.
+   *
+   * Refuses to start without PAYMENT_WEBHOOK_SECRET, since no event could
+   * be verified.
+   *
+   * @param port - Port to listen on (defaults to PAYMENT_WEBHOOK_PORT; 0 picks a free port)
+   * @returns The port the server is listening on
+   * @throws WebhookSecretMissingError if the payment service has no secret
+   */
+  async start(port = this.payments.getConfig().port, host = '0.0.0.0'): Promise<number> {
+    if (this.server) {
+      return (this.server.address() as AddressInfo).port;
+    }
+    if (!this.payments.hasSecret()) {
+      throw new WebhookSecretMissingError();
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('Payment webhook failed:', error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    const listening = (server.address() as AddressInfo).port;
+    logger.info(`Payment webhook server listening on port ${listening}`);
+    return listening;
+  }
+
+  /**
+   * Stop listening.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeAllConnections();
+    await closed;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'GET' && path === '/health') {
+      this.sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (req.method !== 'POST' || path !== '/webhooks/payments') {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    if (body === null) {
+      this.sendJson(res, 413, { error: 'Body too large' });
+      return;
+    }
+
+    const signature = req.headers['x-payment-signature'];
+    const result = this.payments.handleWebhook(body, Array.isArray(signature) ? signature[0] : signature);
+
+    if (!result.accepted) {
+      logger.warn(`Rejected payment webhook: ${result.error}`);
+      this.sendJson(res, result.error === 'Invalid signature' ? 401 : 400, { error: result.error });
+      return;
+    }
+
+    this.sendJson(res, 200, { received: true, duplicate: result.duplicate ?? false });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Read the raw body; the signature is computed over the exact bytes.
+   */
+  private async readBody(req: IncomingMessage): Promise<string | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) return null;
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
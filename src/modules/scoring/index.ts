@@ -0,0 +1,225 @@
+// Scoring Module
+// Ranks leads so generation and deployment go to the most promising businesses first
+
+import { config } from '../../config/index.js';
+import { db } from '../../database/index.js';
+import type { Business } from '../../database/types.js';
+import { distanceKm, logger } from '../../utils/index.js';
+import {
+  DEFAULT_LEAD_SCORING_CONFIG,
+  LeadScore,
+  LeadScoreComponent,
+  LeadScoreDetails,
+  LeadScoreFactor,
+  LeadScoringConfig,
+  RescoreSummary,
+} from './types.js';
+
+// Re-export types
+export * from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * LeadScoringService - Scores businesses as leads and stores the result
+ *
+ * Each factor (rating, reviews, category, operational status, phone,
+ * distance, freshness) is scored 0-1 and combined as a weighted average
+ * on a 0-100 scale. Permanently closed businesses score 0.
+ *
+ * Usage:
+ * ```typescript
+ * const scoring = new LeadScoringService({ base: { latitude: 34.77, longitude: -89.45 } });
+ * const { score, details } = scoring.scoreAndSave(business);
+ * ```
+ */
+export class LeadScoringService {
+  private config: LeadScoringConfig;
+
+  constructor(options?: Partial<LeadScoringConfig>) {
+    const appConfig = config.getAll();
+    const envBase = appConfig.leadBaseLatitude !== undefined && appConfig.leadBaseLongitude !== undefined
+      ? { latitude: appConfig.leadBaseLatitude, longitude: appConfig.leadBaseLongitude }
+      : undefined;
+
+    this.config = {
+      ...DEFAULT_LEAD_SCORING_CONFIG,
+      ...options,
+      weights: { ...DEFAULT_LEAD_SCORING_CONFIG.weights, ...options?.weights },
+      categoryValues: { ...DEFAULT_LEAD_SCORING_CONFIG.categoryValues, ...options?.categoryValues },
+      base: options?.base ?? envBase,
+    };
+  }
+
+  /**
+   * Score a business without saving it.
+   */
+  score(business: Business, now = new Date()): LeadScore {
+    if (business.place_status === 'CLOSED_PERMANENTLY') {
+      return {
+        businessId: business.id,
+        score: 0,
+        details: { components: {}, disqualified: 'Permanently closed' },
+      };
+    }
+
+    const components: Partial<Record<LeadScoreFactor, LeadScoreComponent>> = {
+      rating: this.scoreRating(business),
+      reviews: this.scoreReviews(business),
+      category: this.scoreCategory(business),
+      operational: this.scoreOperational(business),
+      phone: business.phone
+        ? this.component('phone', 1, true, 'Has a phone number')
+        : this.component('phone', 0, true, 'No phone number'),
+      freshness: this.scoreFreshness(business, now),
+    };
+
+    // Distance only counts when we know where we're working from
+    if (this.config.base) {
+      components.distance = this.scoreDistance(business, this.config.base);
+    }
+
+    let total = 0;
+    let totalWeight = 0;
+    for (const component of Object.values(components)) {
+      total += component.value * component.weight;
+      totalWeight += component.weight;
+    }
+
+    const score = totalWeight > 0 ? Math.round((total / totalWeight) * 1000) / 10 : 0;
+    return { businessId: business.id, score, details: { components, disqualified: null } };
+  }
+
+  /**
+   * Score a business and store the result on its row.
+   */
+  scoreAndSave(business: Business, now = new Date()): LeadScore {
+    const result = this.score(business, now);
+    db.setLeadScore(business.id, result.score, JSON.stringify(result.details));
+    return result;
+  }
+
+  /**
+   * Rescore every active lead (or only those never scored).
+   */
+  rescore(options: { onlyUnscored?: boolean; limit?: number } = {}): RescoreSummary {
+    const businesses = db.getBusinessesToScore(options.onlyUnscored ?? false, options.limit);
+    const summary: RescoreSummary = { scored: 0, disqualified: 0, averageScore: 0 };
+    const now = new Date();
+    let total = 0;
+
+    for (const business of businesses) {
+      const result = this.scoreAndSave(business, now);
+      summary.scored++;
+      total += result.score;
+      if (result.details.disqualified) summary.disqualified++;
+    }
+
+    summary.averageScore = summary.scored > 0 ? Math.round((total / summary.scored) * 10) / 10 : 0;
+    if (summary.scored > 0) {
+      logger.info(`Scored ${summary.scored} lead(s), average ${summary.averageScore}, ${summary.disqualified} disqualified`);
+    }
+    return summary;
+  }
+
+  /**
+   * Get the current configuration.
+   */
+  getConfig(): LeadScoringConfig {
+    return { ...this.config };
+  }
+
+  private scoreRating(business: Business): LeadScoreComponent {
+    if (business.rating === null) {
+      return this.component('rating', 0.5, false, 'No rating');
+    }
+    const value = Math.min(Math.max((business.rating - 1) / 4, 0), 1);
+    return this.component('rating', value, true, `${business.rating.toFixed(1)} stars`);
+  }
+
+  private scoreReviews(business: Business): LeadScoreComponent {
+    const count = business.user_ratings_total;
+    if (count === null) {
+      return this.component('reviews', 0, false, 'No reviews');
+    }
+    // Logarithmic: the first reviews say the most
+    const value = Math.min(Math.log10(1 + count) / Math.log10(1 + this.config.reviewsForFullScore), 1);
+    return this.component('reviews', value, true, `${count} review${count === 1 ? '' : 's'}`);
+  }
+
+  private scoreCategory(business: Business): LeadScoreComponent {
+    const category = business.category ?? '';
+    const value = this.config.categoryValues[category];
+    if (value === undefined) {
+      return this.component('category', this.config.defaultCategoryValue, false, `Unrated category "${category || 'none'}"`);
+    }
+    return this.component('category', value, true, category);
+  }
+
+  private scoreOperational(business: Business): LeadScoreComponent {
+    switch (business.place_status) {
+      case 'OPERATIONAL':
+        return this.component('operational', 1, true, 'Operational');
+      case 'CLOSED_TEMPORARILY':
+        return this.component('operational', 0.2, true, 'Temporarily closed');
+      default:
+        return this.component('operational', 0.7, false, 'Status unknown');
+    }
+  }
+
+  private scoreDistance(business: Business, base: { latitude: number; longitude: number }): LeadScoreComponent {
+    if (business.latitude === null || business.longitude === null) {
+      return this.component('distance', 0.5, false, 'No coordinates');
+    }
+    const km = distanceKm(base, { latitude: business.latitude, longitude: business.longitude });
+    const value = Math.max(1 - km / this.config.maxDistanceKm, 0);
+    return this.component('distance', value, true, `${km.toFixed(1)} km from base`);
+  }
+
+  private scoreFreshness(business: Business, now: Date): LeadScoreComponent {
+    const ageDays = Math.max((now.getTime() - new Date(business.discovered_at).getTime()) / DAY_MS, 0);
+    const value = Math.max(1 - ageDays / this.config.maxAgeDays, 0);
+    return this.component('freshness', value, true, `Discovered ${Math.floor(ageDays)} day(s) ago`);
+  }
+
+  private component(factor: LeadScoreFactor, value: number, known: boolean, note: string): LeadScoreComponent {
+    return { value: Math.round(value * 1000) / 1000, weight: this.config.weights[factor], known, note };
+  }
+}
+
+/**
+ * Parse a business's stored score breakdown.
+ */
+export function getLeadScoreDetails(business: Business): LeadScoreDetails | null {
+  return business.lead_score_details ? JSON.parse(business.lead_score_details) as LeadScoreDetails : null;
+}
+
+/**
+ * Convenience function to score and store a single business.
+ */
+export function scoreLead(business: Business, options?: Partial<LeadScoringConfig>): LeadScore {
+  return new LeadScoringService(options).scoreAndSave(business);
+}
+
+/**
+ * Convenience function to rescore every active lead.
+ */
+export function rescoreLeads(options?: Partial<LeadScoringConfig>): RescoreSummary {
+  return new LeadScoringService(options).rescore();
+}
+
+/**
+ * Score leads that have never been scored (e.g. discovered before scoring existed).
+ */
+export function scoreUnscoredLeads(options?: Partial<LeadScoringConfig>): RescoreSummary {
+  return new LeadScoringService(options).rescore({ onlyUnscored: true });
+}
+
+// Module export object
+export const scoring = {
+  LeadScoringService,
+  scoreLead,
+  rescoreLeads,
+  scoreUnscoredLeads,
+  getLeadScoreDetails,
+};
@@ -0,0 +1,106 @@
+// Scoring Module Types
+// Types and interfaces for ranking leads before we spend generation and deployment on them
+
+/**
+ * Signals that make up a lead score
+ */
+export type LeadScoreFactor =
+  | 'rating'        // Google rating: well-liked businesses convert and show off a site well
+  | 'reviews'       // Review count: an established, active business
+  | 'category'      // How much a site is worth to this kind of business
+  | 'operational'   // Places business_status
+  | 'phone'         // A phone number we can call
+  | 'distance'      // Close to our base (in-person visits, local references)
+  | 'freshness';    // Recently discovered: new businesses need a site most
+
+/**
+ * Weights and tuning for the scoring model. Weights are relative; the score
+ * is the weighted average of each factor's 0-1 value, scaled to 0-100.
+ */
+export interface LeadScoringConfig {
+  weights: Record<LeadScoreFactor, number>;
+
+  // Value of a site by business category (businesses.category), 0-1
+  categoryValues: Record<string, number>;
+  defaultCategoryValue: number;
+
+  // Our base location; distance is left out of the score without one
+  base?: { latitude: number; longitude: number };
+
+  // Leads this far away (or further) get no distance credit
+  maxDistanceKm: number;
+
+  // Review count that earns full review credit (scaled logarithmically below it)
+  reviewsForFullScore: number;
+
+  // Leads discovered this long ago (or longer) get no freshness credit
+  maxAgeDays: number;
+}
+
+/**
+ * One factor's contribution to a score
+ */
+export interface LeadScoreComponent {
+  value: number;          // 0-1
+  weight: number;
+  known: boolean;         // false when the business lacks the data and a neutral value was used
+  note: string;
+}
+
+/**
+ * Score breakdown stored as JSON in businesses.lead_score_details
+ */
+export interface LeadScoreDetails {
+  components: Partial<Record<LeadScoreFactor, LeadScoreComponent>>;
+  disqualified: string | null;   // Why the lead scored 0, if it did
+}
+
+/**
+ * A scored lead
+ */
+export interface LeadScore {
+  businessId: string;
+  score: number;          // 0-100, one decimal
+  details: LeadScoreDetails;
+}
+
+/**
+ * Summary of a rescoring run
+ */
+export interface RescoreSummary {
+  scored: number;
+  disqualified: number;
+  averageScore: number;
+}
+
+/**
+ * Default scoring model
+ */
+export const DEFAULT_LEAD_SCORING_CONFIG: LeadScoringConfig = {
+  weights: {
+    rating: 20,
+    reviews: 15,
+    category: 20,
+    operational: 15,
+    phone: 10,
+    distance: 10,
+    freshness: 10,
+  },
+  categoryValues: {
+    plumber: 1,
+    electrician: 1,
+    landscaper: 0.9,
+    cleaning: 0.9,
+    car_repair: 0.9,
+    barber_shop: 0.8,
+    beauty_salon: 0.8,
+    restaurant: 0.7,
+    gym: 0.7,
+    store: 0.5,
+    establishment: 0.4,
+  },
+  defaultCategoryValue: 0.5,
+  maxDistanceKm: 80,
+  reviewsForFullScore: 100,
+  maxAgeDays: 90,
+};
@@ -0,0 +1,140 @@
+// Tracking Module
+// Records email opens/clicks and preview site activity so we know which owners looked at their site
+
+import { db } from '../../database/index.js';
+import { logger } from '../../utils/index.js';
+import type { BeaconPayload, EngagementSummary, TrackingHit } from './types.js';
+
+// Re-export types, links and server
+export * from './types.js';
+export { TrackingLinks, TrackingSecretMissingError, trackingLinks } from './links.js';
+export { TrackingServer } from './server.js';
+
+const BEACON_EVENT_TYPES = new Set(['page_view', 'track']);
+
+/**
+ * TrackingService - Stores tracking hits and reports engagement
+ *
+ * Email events are keyed by the SMTP Message-ID of the sent email, so
+ * campaign stats (opens/clicks) pick them up automatically. Site events are
+ * stored per website and per business.
+ *
+ * Usage:
+ * ```typescript
+ * const tracking = new TrackingService();
+ * tracking.recordOpen(emailMessageId);
+ *
+ * for (const owner of tracking.getEngagement()) {
+ *   console.log(`${owner.businessName}: ${owner.pageViews} page views`);
+ * }
+ * ```
+ */
+export class TrackingService {
+  /**
+   * Record an email open from the tracking pixel.
+   *
+   * @param token - email_messages.id of the sent email
+   */
+  recordOpen(token: string): TrackingHit {
+    const message = db.getEmailMessageById(token);
+    if (!message) {
+      return { recorded: false, reason: 'Unknown email' };
+    }
+
+    db.insertEmailEvent({ message_id: message.message_id, event_type: 'open' });
+    logger.debug(`Email opened: ${message.to_email}`);
+    return { recorded: true, businessId: message.business_id };
+  }
+
+  /**
+   * Record a click on a link in an email.
+   *
+   * @param token - email_messages.id of the sent email
+   */
+  recordClick(token: string, url: string): TrackingHit {
+    const message = db.getEmailMessageById(token);
+    if (!message) {
+      return { recorded: false, reason: 'Unknown email' };
+    }
+
+    db.insertEmailEvent({ message_id: message.message_id, event_type: 'click', url });
+    logger.debug(`Email link clicked: ${message.to_email} -> ${url}`);
+    return { recorded: true, businessId: message.business_id };
+  }
+
+  /**
+   * Suppress an address after its owner used an unsubscribe link.
+   */
+  recordUnsubscribe(email: string): TrackingHit {
+    const suppression = db.addEmailSuppression({
+      email,
+      reason: 'unsubscribe',
+      detail: 'Unsubscribe link',
+    });
+
+    logger.info(`Unsubscribed: ${suppression.email}`);
+    return { recorded: true, businessId: suppression.business_id ?? undefined };
+  }
+
+  /**
+   * Record an event from the beacon script on a deployed preview.
+   */
+  recordSiteEvent(payload: BeaconPayload): TrackingHit {
+    if (typeof payload.w !== 'string' || !BEACON_EVENT_TYPES.has(payload.e)) {
+      return { recorded: false, reason: 'Invalid event' };
+    }
+
+    const website = db.getWebsiteById(payload.w);
+    if (!website) {
+      return { recorded: false, reason: 'Unknown website' };
+    }
+
+    db.insertSiteEvent({
+      business_id: website.business_id,
+      website_id: website.id,
+      event_type: payload.e,
+      target: payload.e === 'track' && typeof payload.t === 'string' ? payload.t.slice(0, 100) : null,
+      path: typeof payload.p === 'string' ? payload.p.slice(0, 200) : null,
+    });
+
+    return { recorded: true, businessId: website.business_id };
+  }
+
+  /**
+   * Engagement for businesses with any tracked activity, most recent first.
+   */
+  getEngagement(businessId?: string): EngagementSummary[] {
+    return db.getBusinessEngagement(businessId).map((row) => ({
+      businessId: row.business_id,
+      businessName: db.getBusinessById(row.business_id)?.name ?? row.business_id,
+      emailOpens: row.email_opens,
+      emailClicks: row.email_clicks,
+      pageViews: row.page_views,
+      trackedActions: row.tracked_actions,
+      lastSeenAt: row.last_seen_at || null,
+    }));
+  }
+
+  /**
+   * Check whether an owner has opened the email, clicked through or visited their preview.
+   */
+  hasEngaged(businessId: string): boolean {
+    const [summary] = this.getEngagement(businessId);
+    return Boolean(summary && (summary.emailOpens + summary.emailClicks + summary.pageViews) > 0);
+  }
+}
+
+const defaultService = new TrackingService();
+
+// Module export object
+export const tracking = {
+  TrackingService,
+
+  // Engagement for businesses with any tracked activity
+  getEngagement: (businessId?: string): EngagementSummary[] =>
+    defaultService.getEngagement(businessId),
+
+  // Check whether an owner has looked at their email or site
+  hasEngaged: (businessId: string): boolean =>
+    defaultService.hasEngaged(businessId),
+};
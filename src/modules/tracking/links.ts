@@ -0,0 +1,208 @@
+// Tracking Links
+// Builds tracking pixel / click-redirect URLs and instruments email and site HTML
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/index.js';
+import type { TrackingConfig } from './types.js';
+
+const DEFAULT_PORT = 8787;
+
+// href="http(s)://..." in email HTML
+const HREF_PATTERN = /href="(https?:\/\/[^"]+)"/gi;
+
+/**
+ * Thrown when tracking is in use (TRACKING_BASE_URL set, or the tracking
+ * server starting) without a TRACKING_SECRET to sign and check links with.
+ */
+export class TrackingSecretMissingError extends Error {
+  constructor() {
+    super('TRACKING_SECRET is not set; it is required when TRACKING_BASE_URL is set or the tracking server runs');
+    this.name = 'TrackingSecretMissingError';
+  }
+}
+
+/**
+ * TrackingLinks - Builds tracking URLs and rewrites HTML to use them
+ *
+ * Reads TRACKING_BASE_URL / TRACKING_PORT / TRACKING_SECRET from the
+ * environment unless a config override is passed.
+ *
+ * When TRACKING_BASE_URL is not set, tracking is disabled: emails and
+ * deployed sites are left exactly as generated.
+ *
+ * Click links carry an HMAC of the token and destination so the tracking
+ * server can't be used as an open redirect. Unsubscribe links are signed the
+ * same way so nobody can unsubscribe an address they don't own.
+ *
+ * There is no fallback secret: with tracking enabled but TRACKING_SECRET
+ * unset, building links throws TrackingSecretMissingError (so nothing goes
+ * out half-tracked) and every signature is rejected.
+ */
+export class TrackingLinks {
+  private settings: TrackingConfig;
+  private enabled: boolean;
+
+  constructor(configOverride?: Partial<TrackingConfig>) {
+    const baseUrl = configOverride?.baseUrl ?? config.get('TRACKING_BASE_URL') ?? '';
+    const port = configOverride?.port ?? parseInt(config.get('TRACKING_PORT') ?? String(DEFAULT_PORT), 10);
+    const secret = configOverride?.secret ?? config.get('TRACKING_SECRET');
+
+    this.enabled = baseUrl.length > 0;
+    this.settings = {
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      port,
+      secret: secret || null,
+    };
+
+    if (this.enabled && !this.settings.secret) {
+      logger.error('TRACKING_BASE_URL is set but TRACKING_SECRET is not - emails and previews will not be sent until it is');
+    }
+  }
+
+  /**
+   * Check if tracking is configured
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Check if there is a secret to sign and check links with
+   */
+  hasSecret(): boolean {
+    return this.settings.secret !== null;
+  }
+
+  getConfig(): TrackingConfig {
+    return { ...this.settings };
+  }
+
+  /**
+   * URL of the open-tracking pixel for a sent email.
+   */
+  pixelUrl(token: string): string {
+    return `${this.settings.baseUrl}/o/${encodeURIComponent(token)}.gif`;
+  }
+
+  /**
+   * Signed click-redirect URL for a link in a sent email.
+   */
+  clickUrl(token: string, destination: string): string {
+    const params = new URLSearchParams({ u: destination, s: this.sign(token, destination) });
+    return `${this.settings.baseUrl}/c/${encodeURIComponent(token)}?${params.toString()}`;
+  }
+
+  /**
+   * URL the site beacon posts events to.
+   */
+  beaconUrl(): string {
+    return `${this.settings.baseUrl}/e`;
+  }
+
+  /**
+   * Unsubscribe link for an address, or null when tracking is disabled
+   * (emails then fall back to a mailto: unsubscribe).
+   */
+  unsubscribeUrl(email: string): string | null {
+    if (!this.enabled) return null;
+    return `${this.settings.baseUrl}/u/${this.unsubscribeToken(email)}`;
+  }
+
+  /**
+   * Token identifying an address in unsubscribe links: the address plus a signature.
+   */
+  unsubscribeToken(email: string): string {
+    const normalized = email.trim().toLowerCase();
+    return `${Buffer.from(normalized).toString('base64url')}.${this.sign('unsubscribe', normalized)}`;
+  }
+
+  /**
+   * Get the address from an unsubscribe token.
+   *
+   * @returns The address, or null if the token is malformed or the signature doesn't match
+   */
+  parseUnsubscribeToken(token: string): string | null {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) return null;
+
+    const email = Buffer.from(encoded, 'base64url').toString('utf8');
+    return this.verify('unsubscribe', email, signature) ? email : null;
+  }
+
+  /**
+   * Sign a token + destination pair.
+   */
+  sign(token: string, destination: string): string {
+    return createHmac('sha256', this.requireSecret())
+      .update(`${token}\n${destination}`)
+      .digest('base64url')
+      .slice(0, 22);
+  }
+
+  /**
+   * Check a click link signature.
+   */
+  verify(token: string, destination: string, signature: string): boolean {
+    if (!this.hasSecret()) return false;
+
+    const expected = Buffer.from(this.sign(token, destination));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Rewrite links in email HTML to go through the click redirect and add the
+   * open pixel. Unsubscribe links are left alone. Returns the HTML unchanged
+   * when tracking is disabled.
+   */
+  instrumentEmailHtml(html: string, token: string): string {
+    if (!this.enabled) return html;
+    this.requireSecret();
+
+    const unsubscribePrefix = `${this.settings.baseUrl}/u/`;
+    const withLinks = html.replace(HREF_PATTERN, (match, url: string) => {
+      if (url.startsWith(unsubscribePrefix)) return match;
+
+      // Undo the HTML escaping of the href before signing the real URL
+      const destination = url.replace(/&amp;/g, '&');
+      return `href="${this.clickUrl(token, destination).replace(/&/g, '&amp;')}"`;
+    });
+
+    const pixel = `<img src="${this.pixelUrl(token)}" width="1" height="1" alt="" style="display:none">`;
+    return /<\/body>/i.test(withLinks)
+      ? withLinks.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${withLinks}\n${pixel}`;
+  }
+
+  /**
+   * Inject the beacon script into a preview site. It reports a page view on
+   * load and a 'track' event whenever a [data-track] element is clicked or
+   * submitted. Returns the HTML unchanged when tracking is disabled.
+   */
+  instrumentSiteHtml(html: string, websiteId: string): string {
+    if (!this.enabled) return html;
+    this.requireSecret();
+
+    const script = `<script data-lba-tracking>(function(){var u=${JSON.stringify(this.beaconUrl())},w=${JSON.stringify(websiteId)};`
+      + 'function s(e,t){var d=JSON.stringify({w:w,e:e,t:t||null,p:location.pathname});'
+      + 'if(navigator.sendBeacon){navigator.sendBeacon(u,d)}else{fetch(u,{method:"POST",body:d,keepalive:true,mode:"no-cors"})}}'
+      + 's("page_view");'
+      + 'function h(ev){var el=ev.target&&ev.target.closest?ev.target.closest("[data-track]"):null;if(el)s("track",el.getAttribute("data-track"))}'
+      + 'document.addEventListener("click",h,true);document.addEventListener("submit",h,true)})();</script>';
+
+    return /<\/body>/i.test(html)
+      ? html.replace(/<\/body>/i, `${script}\n</body>`)
+      : `${html}\n${script}`;
+  }
+
+  private requireSecret(): string {
+    if (!this.settings.secret) {
+      throw new TrackingSecretMissingError();
+    }
+    return this.settings.secret;
+  }
+}
+
+// Export singleton instance
+export const trackingLinks = new TrackingLinks();
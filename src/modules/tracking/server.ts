@@ -0,0 +1,210 @@
+// Tracking HTTP Server
+// Serves the open pixel, click redirects and the preview site beacon endpoint
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from '../../utils/index.js';
+import { escapeHtml } from '../outreach/templates.js';
+import { TrackingSecretMissingError } from './links.js';
+import type { TrackingLinks } from './links.js';
+import type { TrackingService } from './index.js';
+import type { BeaconPayload } from './types.js';
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Beacon bodies are tiny; anything bigger is not ours
+const MAX_BODY_BYTES = 8 * 1024;
+
+/**
+ * TrackingServer - Small HTTP server for tracking hits
+ *
+ * Routes:
+ *   GET  /o/:token.gif        Email open pixel
+ *   GET  /c/:token?u=&s=      Email click redirect (signature checked)
+ *   POST /e                   Beacon event from a preview site (JSON body)
+ *   GET  /u/:token            Unsubscribe confirmation page
+ *   POST /u/:token            Unsubscribe (also RFC 8058 one-click from mail clients)
+ *   GET  /health              Liveness check
+ *
+ * Usage:
+ * ```typescript
+ * const server = new TrackingServer(new TrackingService(), trackingLinks);
+ * const port = await server.start();
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class TrackingServer {
+  private server: Server | null = null;
+
+  constructor(
+    private service: TrackingService,
+    private links: TrackingLinks
+  ) {}
+
+  /**
+   * Start listening.
+   *
+   * Refuses to start without TRACKING_SECRET, since every click and
+   * unsubscribe link would be rejected.
+   *
+   * @param port - Port to listen on (defaults to TRACKING_PORT; 0 picks a free port)
+   * @returns The port the server is listening on
+   * @throws TrackingSecretMissingError if the links have no secret
+   */
+  async start(port = this.links.getConfig().port, host = '0.0.0.0'): Promise<number> {
+    if (this.server) {
+      return (this.server.address() as AddressInfo).port;
+    }
+    if (!this.links.hasSecret()) {
+      throw new TrackingSecretMissingError();
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('Tracking request failed:', error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    const listening = (server.address() as AddressInfo).port;
+    logger.info(`Tracking server listening on port ${listening}`);
+    return listening;
+  }
+
+  /**
+   * Stop listening.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeAllConnections();
+    await closed;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname;
+
+    if (req.method === 'GET' && path === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+      return;
+    }
+
+    // Open pixel: always return the image, even for unknown tokens
+    const open = path.match(/^\/o\/([^/]+)\.gif$/);
+    if (req.method === 'GET' && open?.[1]) {
+      this.service.recordOpen(decodeURIComponent(open[1]));
+      res.writeHead(200, {
+        'Content-Type': 'image/gif',
+        'Content-Length': PIXEL.length,
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+      });
+      res.end(PIXEL);
+      return;
+    }
+
+    // Click redirect
+    const click = path.match(/^\/c\/([^/]+)$/);
+    if (req.method === 'GET' && click?.[1]) {
+      const token = decodeURIComponent(click[1]);
+      const destination = url.searchParams.get('u') ?? '';
+      const signature = url.searchParams.get('s') ?? '';
+
+      if (!/^https?:\/\//i.test(destination) || !this.links.verify(token, destination, signature)) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Invalid link');
+        return;
+      }
+
+      this.service.recordClick(token, destination);
+      res.writeHead(302, { Location: destination, 'Cache-Control': 'no-store' });
+      res.end();
+      return;
+    }
+
+    // Unsubscribe. GET only shows a button so link scanners can't unsubscribe people.
+    const unsubscribe = path.match(/^\/u\/([^/]+)$/);
+    if (unsubscribe?.[1] && (req.method === 'GET' || req.method === 'POST')) {
+      const email = this.links.parseUnsubscribeToken(decodeURIComponent(unsubscribe[1]));
+      if (!email) {
+        this.sendPage(res, 400, 'This unsubscribe link is invalid.');
+        return;
+      }
+
+      if (req.method === 'GET') {
+        this.sendPage(res, 200, `Stop emails to ${escapeHtml(email)}?`, `<form method="POST"><button type="submit">Unsubscribe</button></form>`);
+        return;
+      }
+
+      this.service.recordUnsubscribe(email);
+      this.sendPage(res, 200, `${escapeHtml(email)} has been unsubscribed. You won't hear from us again.`);
+      return;
+    }
+
+    // Beacon events (sent cross-origin from preview sites)
+    if (path === '/e') {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        });
+        res.end();
+        return;
+      }
+
+      if (req.method === 'POST') {
+        const payload = await this.readJson(req);
+        const hit = payload ? this.service.recordSiteEvent(payload) : { recorded: false };
+        res.writeHead(hit.recorded ? 204 : 400, { 'Access-Control-Allow-Origin': '*' });
+        res.end();
+        return;
+      }
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+  }
+
+  private sendPage(res: ServerResponse, status: number, message: string, extra = ''): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(`<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Email preferences</title></head>`
+      + `<body style="font-family:sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem"><p>${message}</p>${extra}</body></html>`);
+  }
+
+  /**
+   * Read a small JSON body. sendBeacon posts it as text/plain.
+   */
+  private async readJson(req: IncomingMessage): Promise<BeaconPayload | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) return null;
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      return parsed && typeof parsed === 'object' ? (parsed as BeaconPayload) : null;
+    } catch {
+      return null;
+    }
+  }
+}
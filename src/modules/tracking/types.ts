@@ -0,0 +1,56 @@
+// Tracking Module Types
+// Types for email open/click tracking and preview site beacons
+
+/**
+ * Tracking settings
+ */
+export interface TrackingConfig {
+  /** Public URL the tracking server is reachable at, e.g. https://t.example.com */
+  baseUrl: string;
+
+  /** Port the tracking server listens on */
+  port: number;
+
+  /** Secret used to sign click-redirect and unsubscribe links; null when unset */
+  secret: string | null;
+}
+
+/**
+ * Event sent by the beacon script on a deployed preview.
+ * Field names are kept short because the script is inlined into every site.
+ */
+export interface BeaconPayload {
+  /** generated_websites.id */
+  w: string;
+
+  /** Event type */
+  e: 'page_view' | 'track';
+
+  /** data-track value for 'track' events */
+  t?: string | null;
+
+  /** Page path */
+  p?: string | null;
+}
+
+/**
+ * Result of recording a tracking hit
+ */
+export interface TrackingHit {
+  recorded: boolean;
+  businessId?: string;
+  reason?: string;
+}
+
+/**
+ * What a business owner has done with our email and preview site
+ */
+export interface EngagementSummary {
+  businessId: string;
+  businessName: string;
+  emailOpens: number;
+  emailClicks: number;
+  pageViews: number;
+  trackedActions: number;
+  lastSeenAt: string | null;
+}
@@ -0,0 +1,311 @@
+// HTTP Cassettes
+// Records API requests and responses to JSON files and replays them without the network
+
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { config } from '../config/index.js';
+import { logger } from './index.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+// Cassettes are written here unless HTTP_CASSETTE_DIR is set
+export const DEFAULT_CASSETTE_DIR = './data/cassettes';
+
+// Query parameters that carry credentials or account IDs; their values are never written
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'token', 'access_token', 'teamId'];
+
+// Configured credentials, scrubbed from anything a response echoes back
+const SECRET_ENV = ['GOOGLE_PLACES_API_KEY', 'VERCEL_TOKEN', 'VERCEL_TEAM_ID', 'ANTHROPIC_API_KEY', 'GEMINI_API_KEY'];
+
+// Stands in for an API key when replaying, so clients leave mock mode
+const REPLAY_CREDENTIAL = 'cassette-replay';
+
+export interface CassetteRequest {
+  method: string;
+  url: string;                 // Secret parameters redacted, parameters sorted
+  bodySha256: string | null;   // Bodies can be whole prompts or sites, so only their hash is kept
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;               // Parsed JSON, or the raw text
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  name: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown when replaying a request that isn't on the cassette.
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly cassette: string,
+    public readonly request: CassetteRequest
+  ) {
+    super(`No recorded response in cassette "${cassette}" for ${request.method} ${request.url} (record it with HTTP_CASSETTES=record)`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+function redactUrl(raw: string): string {
+  const url = new URL(raw);
+  const params = [...url.searchParams.entries()]
+    .map(([key, value]): [string, string] => [key, SECRET_PARAMS.includes(key) ? 'REDACTED' : value])
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+  return url.toString();
+}
+
+function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const name of SECRET_ENV) {
+    const secret = config.get(name);
+    if (secret && secret.length >= 8) {
+      redacted = redacted.split(secret).join('REDACTED');
+    }
+  }
+  return redacted;
+}
+
+function hashBody(body: unknown): string | null {
+  if (body === undefined || body === null || body === '') return null;
+  const text = typeof body === 'string' ? body : Buffer.isBuffer(body) ? body.toString('utf-8') : JSON.stringify(body);
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function bodyText(body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function sameRequest(a: CassetteRequest, b: CassetteRequest): boolean {
+  return a.method === b.method && a.url === b.url && a.bodySha256 === b.bodySha256;
+}
+
+/**
+ * One cassette file: its interactions, which have been replayed, and which
+ * were re-recorded this session.
+ */
+class Cassette {
+  private interactions: CassetteInteraction[];
+  private replayed = new Set<number>();
+  private rerecorded: CassetteRequest[] = [];
+
+  constructor(readonly name: string, private path: string) {
+    this.interactions = existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as CassetteFile).interactions : [];
+  }
+
+  /**
+   * The recorded response for a request. Recordings of the same request play
+   * back in order (so polling sees the same progression), then the last one
+   * repeats. Bodies are matched when they can be; otherwise the next
+   * recording for the URL is used, so a recorded prompt or upload answers a
+   * different one.
+   */
+  play(request: CassetteRequest): CassetteResponse {
+    const candidates = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) => interaction.request.method === request.method && interaction.request.url === request.url);
+    if (candidates.length === 0) {
+      throw new CassetteMissError(this.name, request);
+    }
+
+    const sameBody = candidates.filter(({ interaction }) => interaction.request.bodySha256 === request.bodySha256);
+    if (sameBody.length === 0) {
+      logger.debug(`Cassette ${this.name}: replaying ${request.method} ${request.url} with a different body`);
+    }
+
+    const pool = sameBody.length > 0 ? sameBody : candidates;
+    const pick = pool.find(({ index }) => !this.replayed.has(index)) ?? pool[pool.length - 1]!;
+    this.replayed.add(pick.index);
+    return pick.interaction.response;
+  }
+
+  /**
+   * Add a recording and save the file. The first recording of a request in a
+   * session replaces recordings of it from earlier sessions.
+   */
+  record(request: CassetteRequest, response: CassetteResponse): void {
+    if (!this.rerecorded.some((seen) => sameRequest(seen, request))) {
+      this.interactions = this.interactions.filter((interaction) => !sameRequest(interaction.request, request));
+      this.rerecorded.push(request);
+    }
+    this.interactions.push({ request, response, recordedAt: new Date().toISOString() });
+
+    const file: CassetteFile = { name: this.name, interactions: this.interactions };
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n');
+  }
+}
+
+/**
+ * HttpCassettes - Record/replay layer for the API clients
+ *
+ * With HTTP_CASSETTES=record, requests go to the real API and each request
+ * and response is written to HTTP_CASSETTE_DIR/<cassette>.json, with API
+ * keys, tokens and team IDs removed. With HTTP_CASSETTES=replay, responses
+ * come from those files and nothing touches the network; a request that was
+ * never recorded throws CassetteMissError. Unset, requests pass straight
+ * through.
+ *
+ * Clients hook in with axiosAdapter() or fetch(), and use credential() for
+ * their API key so they leave mock mode when replaying.
+ */
+export class HttpCassettes {
+  private cassettes = new Map<string, Cassette>();
+
+  mode(): CassetteMode | null {
+    const mode = config.getAll().httpCassettes;
+    return mode === 'record' || mode === 'replay' ? mode : null;
+  }
+
+  isReplaying(): boolean {
+    return this.mode() === 'replay';
+  }
+
+  /**
+   * A configured credential, or a placeholder when replaying without one.
+   */
+  credential(value: string | undefined): string | null {
+    return value || (this.isReplaying() ? REPLAY_CREDENTIAL : null);
+  }
+
+  /**
+   * An axios adapter that records or replays through the named cassette.
+   */
+  axiosAdapter(name: string): AxiosAdapter {
+    return async (request: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const live = axios.getAdapter(axios.defaults.adapter);
+      const mode = this.mode();
+      if (!mode) {
+        return live(request);
+      }
+
+      const key: CassetteRequest = {
+        method: (request.method ?? 'get').toUpperCase(),
+        url: redactUrl(axios.getUri(request)),
+        bodySha256: hashBody(request.data),
+      };
+
+      if (mode === 'replay') {
+        const recorded = this.cassette(name).play(key);
+        const response: AxiosResponse = {
+          data: bodyText(recorded.body),
+          status: recorded.status,
+          statusText: '',
+          headers: new AxiosHeaders(recorded.headers),
+          config: request,
+          request: null,
+        };
+        if (request.validateStatus && !request.validateStatus(recorded.status)) {
+          const code = recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+          throw new AxiosError(`Request failed with status code ${recorded.status}`, code, request, null, response);
+        }
+        return response;
+      }
+
+      const save = (response: AxiosResponse): void => {
+        const contentType = AxiosHeaders.from(response.headers as AxiosHeaders).get('content-type');
+        this.save(name, key, response.status, typeof contentType === 'string' ? contentType : null, bodyText(response.data));
+      };
+      try {
+        const response = await live(request);
+        save(response);
+        return response;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          save(error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * A fetch function that records or replays through the named cassette.
+   * Live requests use `live` (default: the global fetch at call time).
+   */
+  fetch(name: string, live?: typeof fetch): typeof fetch {
+    return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+      const liveFetch = live ?? globalThis.fetch;
+      const mode = this.mode();
+      if (!mode) {
+        return liveFetch(input, init);
+      }
+
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      const key: CassetteRequest = {
+        method: (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase(),
+        url: redactUrl(url),
+        bodySha256: hashBody(typeof init?.body === 'string' ? init.body : null),
+      };
+
+      if (mode === 'replay') {
+        const recorded = this.cassette(name).play(key);
+        return new Response(bodyText(recorded.body), { status: recorded.status, headers: recorded.headers });
+      }
+
+      const response = await liveFetch(input, init);
+      const text = await response.text();
+      this.save(name, key, response.status, response.headers.get('content-type'), text);
+      return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+    };
+  }
+
+  /**
+   * Run `fn` with the global fetch going through the named cassette, for SDKs
+   * that can't be given a fetch function.
+   */
+  async withGlobalFetch<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.mode()) {
+      return fn();
+    }
+
+    const original = globalThis.fetch;
+    globalThis.fetch = this.fetch(name, original);
+    try {
+      return await fn();
+    } finally {
+      globalThis.fetch = original;
+    }
+  }
+
+  private save(name: string, request: CassetteRequest, status: number, contentType: string | null, text: string): void {
+    const redacted = redactSecrets(text);
+    let body: unknown = redacted;
+    if (contentType?.includes('json')) {
+      try {
+        body = JSON.parse(redacted);
+      } catch {
+        // Keep the text as it came
+      }
+    }
+
+    this.cassette(name).record(request, { status, headers: contentType ? { 'content-type': contentType } : {}, body });
+    logger.debug(`Cassette ${name}: recorded ${request.method} ${request.url} (${status})`);
+  }
+
+  private cassette(name: string): Cassette {
+    const dir = config.getAll().httpCassetteDir ?? DEFAULT_CASSETTE_DIR;
+    const path = join(dir, `${name}.json`);
+    let cassette = this.cassettes.get(path);
+    if (!cassette) {
+      if (this.mode() === 'record') mkdirSync(dir, { recursive: true });
+      cassette = new Cassette(name, path);
+      this.cassettes.set(path, cassette);
+    }
+    return cassette;
+  }
+}
+
+// Export singleton instance
+export const httpCassettes = new HttpCassettes();
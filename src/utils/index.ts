@@ -107,6 +107,19 @@ export const formatDate = (date: Date): string => {
   return date.toISOString().split('T')[0] ?? '';
 };
 
+// Great-circle distance between two coordinates, in kilometers
+export const distanceKm = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
 // Logger utility
 export const logger = {
   info: (message: string, ...args: unknown[]): void => {